@@ -6,6 +6,7 @@ const FluxAPI = require('./structured/FluxAPI');
 const OpenWeather = require('./structured/OpenWeather');
 const StructuredWolfram = require('./structured/Wolfram');
 const createYouTubeTools = require('./structured/YouTube');
+const createCanvasTools = require('./structured/Canvas');
 const StructuredACS = require('./structured/AzureAISearch');
 const StructuredSD = require('./structured/StableDiffusion');
 const GoogleSearchAPI = require('./structured/GoogleSearch');
@@ -40,6 +41,7 @@ module.exports = {
   TraversaalSearch,
   StructuredWolfram,
   createYouTubeTools,
+  createCanvasTools,
   TavilySearchResults,
   createOpenAIImageTools,
 };
@@ -0,0 +1,251 @@
+const { z } = require('zod');
+const { tool } = require('@langchain/core/tools');
+const { getCanvasContentDocument } = require('@librechat/api');
+
+const NOT_CONNECTED =
+  'The user has not connected a Canvas LMS account. Ask them to connect it from the Canvas LMS side panel.';
+
+/** Maximum number of module items returned by a search */
+const MAX_SEARCH_RESULTS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists a course's modules with their items, loading the items separately
+ * for modules with too many items to be returned inline.
+ * @param {import('@librechat/api').CanvasClient} client
+ * @param {number} courseId
+ */
+async function listModulesWithItems(client, courseId) {
+  const modules = await client.listModules(courseId, { include: ['items'] });
+  return Promise.all(
+    modules.map(async (module) => ({
+      ...module,
+      items: module.items ?? (await client.listModuleItems(courseId, module.id)),
+    })),
+  );
+}
+
+/**
+ * Creates the Canvas LMS toolkit, which reads live course data as the requesting user.
+ *
+ * The toolkit is the `canvas` manifest toolkit rather than tools of `MCPManager.loadManifestTools`:
+ * that manifest is only loaded when MCP servers are configured, and its tools are called on
+ * MCP server connections, which have no access to the user's Canvas credential.
+ * Listed with the plugins, the toolkit appears alongside the MCP tools in the agent tool picker.
+ * @param {object} fields
+ * @param {import('@librechat/api').CanvasClient | null} [fields.client] - The user's Canvas client;
+ *  without one, the tools ask the user to connect their account.
+ */
+function createCanvasTools(fields = {}) {
+  const client = fields.client ?? null;
+
+  const listCoursesTool = tool(
+    async ({ include_completed = false }) => {
+      if (!client) {
+        return NOT_CONNECTED;
+      }
+      const courses = await client.listCourses(
+        include_completed ? {} : { enrollment_state: 'active' },
+      );
+      const result = courses
+        .filter((course) => course.name)
+        .map((course) => ({
+          id: course.id,
+          name: course.name,
+          course_code: course.course_code,
+          term: course.term?.name,
+          state: course.workflow_state,
+        }));
+      return JSON.stringify(result, null, 2);
+    },
+    {
+      name: 'canvas_list_courses',
+      description: `List the user's Canvas LMS courses.
+- Optional: include_completed (also list concluded courses, default: false)
+- Returns: Course IDs, names, course codes and terms
+- Use first to find the course ID for a course the user mentions by name (e.g. "Biology")`,
+      schema: z.object({
+        include_completed: z.boolean().optional().describe('Include concluded courses'),
+      }),
+    },
+  );
+
+  const searchModuleItemsTool = tool(
+    async ({ course_id, query }) => {
+      if (!client) {
+        return NOT_CONNECTED;
+      }
+      const modules = await listModulesWithItems(client, course_id);
+      const terms = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+      const result = [];
+      for (const module of modules) {
+        for (const item of module.items) {
+          const text = `${module.name} ${item.title}`.toLowerCase();
+          if (!terms.every((term) => text.includes(term))) {
+            continue;
+          }
+          result.push({
+            module: module.name,
+            title: item.title,
+            type: item.type,
+            content_id: item.content_id,
+            page_url: item.page_url,
+            html_url: item.html_url,
+          });
+        }
+      }
+      return JSON.stringify(result.slice(0, MAX_SEARCH_RESULTS), null, 2);
+    },
+    {
+      name: 'canvas_search_module_items',
+      description: `Search the modules of a Canvas course for pages, files, assignments, discussions and links.
+- Required: course_id (from canvas_list_courses)
+- Optional: query (words matched against module and item titles; omit to list every item)
+- Returns: Matching items with their module, type, and IDs (page_url for pages)
+- Use canvas_read_page with the page_url to read a page`,
+      schema: z.object({
+        course_id: z.number().int().describe('Canvas course ID'),
+        query: z.string().optional().describe('Search terms'),
+      }),
+    },
+  );
+
+  const readPageTool = tool(
+    async ({ course_id, page_url }) => {
+      if (!client) {
+        return NOT_CONNECTED;
+      }
+      const document = await getCanvasContentDocument(client, {
+        courseId: course_id,
+        type: 'Page',
+        id: page_url,
+      });
+      return `${document.text}\n\nSource: ${document.html_url ?? ''}`.trim();
+    },
+    {
+      name: 'canvas_read_page',
+      description: `Read the content of a Canvas course page as markdown.
+- Required: course_id, page_url (the page's URL slug, from canvas_search_module_items)
+- Returns: The page title and content`,
+      schema: z.object({
+        course_id: z.number().int().describe('Canvas course ID'),
+        page_url: z.string().describe('URL slug of the page, e.g. "syllabus"'),
+      }),
+    },
+  );
+
+  const upcomingAssignmentsTool = tool(
+    async ({ course_id, days = 7 }) => {
+      if (!client) {
+        return NOT_CONNECTED;
+      }
+      const courses = course_id
+        ? [await client.getCourse(course_id)]
+        : await client.listCourses({ enrollment_state: 'active' });
+
+      const now = Date.now();
+      const until = now + days * DAY_MS;
+      const assignmentsByCourse = await Promise.all(
+        courses.map(async (course) => {
+          const assignments = await client.listAssignments(course.id, {
+            bucket: 'upcoming',
+            order_by: 'due_at',
+            include: ['submission'],
+          });
+          return assignments.map((assignment) => ({ course, assignment }));
+        }),
+      );
+
+      const result = assignmentsByCourse
+        .flat()
+        .filter(({ assignment }) => {
+          const dueAt = assignment.due_at ? new Date(assignment.due_at).getTime() : NaN;
+          return dueAt >= now && dueAt <= until;
+        })
+        .sort((a, b) => a.assignment.due_at.localeCompare(b.assignment.due_at))
+        .map(({ course, assignment }) => ({
+          course: course.name,
+          name: assignment.name,
+          due_at: assignment.due_at,
+          points_possible: assignment.points_possible,
+          submitted: assignment.submission?.submitted_at != null,
+          html_url: assignment.html_url,
+        }));
+      return JSON.stringify(result, null, 2);
+    },
+    {
+      name: 'canvas_upcoming_assignments',
+      description: `List Canvas assignments due soon, across all active courses or a single course.
+- Optional: course_id (limit to one course), days (look-ahead window, 1-90, default: 7)
+- Returns: Assignments sorted by due date (ISO 8601, UTC) with course, points and whether they were submitted
+- Use for: "What's due this week?"`,
+      schema: z.object({
+        course_id: z.number().int().optional().describe('Canvas course ID'),
+        days: z.number().int().min(1).max(90).optional().describe('Number of days to look ahead'),
+      }),
+    },
+  );
+
+  const gradesTool = tool(
+    async ({ course_id }) => {
+      if (!client) {
+        return NOT_CONNECTED;
+      }
+      const enrollments = await client.listEnrollments({
+        type: ['StudentEnrollment'],
+        state: ['active'],
+      });
+
+      if (!course_id) {
+        const courses = await client.listCourses({ enrollment_state: 'active' });
+        const courseNames = new Map(courses.map((course) => [course.id, course.name]));
+        const result = enrollments.map((enrollment) => ({
+          course_id: enrollment.course_id,
+          course: courseNames.get(enrollment.course_id),
+          current_score: enrollment.grades?.current_score,
+          current_grade: enrollment.grades?.current_grade,
+        }));
+        return JSON.stringify(result, null, 2);
+      }
+
+      const enrollment = enrollments.find((e) => e.course_id === course_id);
+      const submissions = await client.listSubmissions(course_id);
+      const result = {
+        current_score: enrollment?.grades?.current_score,
+        current_grade: enrollment?.grades?.current_grade,
+        assignments: submissions
+          .filter((submission) => submission.assignment)
+          .map((submission) => ({
+            name: submission.assignment.name,
+            score: submission.score,
+            points_possible: submission.assignment.points_possible,
+            grade: submission.grade,
+            state: submission.workflow_state,
+            late: submission.late,
+            missing: submission.missing,
+          })),
+      };
+      return JSON.stringify(result, null, 2);
+    },
+    {
+      name: 'canvas_grades',
+      description: `Fetch the user's grades from Canvas.
+- Optional: course_id (returns per-assignment scores for that course)
+- Without course_id: returns the current score and grade of every active course
+- Returns: Scores as percentages for courses, points for assignments`,
+      schema: z.object({
+        course_id: z.number().int().optional().describe('Canvas course ID'),
+      }),
+    },
+  );
+
+  return [
+    listCoursesTool,
+    searchModuleItemsTool,
+    readPageTool,
+    upcomingAssignmentsTool,
+    gradesTool,
+  ];
+}
+
+module.exports = createCanvasTools;
@@ -0,0 +1,112 @@
+const createCanvasTools = require('../Canvas');
+
+jest.mock('@librechat/api', () => ({
+  getCanvasContentDocument: jest.fn(),
+}));
+
+const { getCanvasContentDocument } = require('@librechat/api');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('createCanvasTools', () => {
+  let client;
+  let tools;
+
+  const getTool = (name) => tools.find((tool) => tool.name === name);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = {
+      getCourse: jest.fn(),
+      listCourses: jest.fn(),
+      listModules: jest.fn(),
+      listModuleItems: jest.fn(),
+      listAssignments: jest.fn(),
+      listEnrollments: jest.fn(),
+      listSubmissions: jest.fn(),
+    };
+    tools = createCanvasTools({ client });
+  });
+
+  it('asks the user to connect Canvas when there is no client', async () => {
+    tools = createCanvasTools();
+    const result = await getTool('canvas_list_courses').invoke({});
+    expect(result).toContain('has not connected a Canvas LMS account');
+  });
+
+  it('searches module items, loading items that are not returned inline', async () => {
+    client.listModules.mockResolvedValue([
+      {
+        id: 1,
+        name: 'Week 1: Cells',
+        items: [{ id: 10, title: 'Cell structure', type: 'Page', page_url: 'cell-structure' }],
+      },
+      { id: 2, name: 'Week 2: Genetics' },
+    ]);
+    client.listModuleItems.mockResolvedValue([
+      { id: 20, title: 'Punnett squares lab', type: 'Assignment', content_id: 5 },
+    ]);
+
+    const result = JSON.parse(
+      await getTool('canvas_search_module_items').invoke({ course_id: 3, query: 'genetics lab' }),
+    );
+
+    expect(client.listModules).toHaveBeenCalledWith(3, { include: ['items'] });
+    expect(client.listModuleItems).toHaveBeenCalledWith(3, 2);
+    expect(result).toEqual([
+      expect.objectContaining({ module: 'Week 2: Genetics', title: 'Punnett squares lab' }),
+    ]);
+  });
+
+  it('reads a page as markdown', async () => {
+    getCanvasContentDocument.mockResolvedValue({
+      text: '# Syllabus\n\nWelcome',
+      html_url: 'https://canvas.example.edu/courses/3/pages/syllabus',
+    });
+
+    const result = await getTool('canvas_read_page').invoke({ course_id: 3, page_url: 'syllabus' });
+
+    expect(getCanvasContentDocument).toHaveBeenCalledWith(client, {
+      courseId: 3,
+      type: 'Page',
+      id: 'syllabus',
+    });
+    expect(result).toContain('Welcome');
+  });
+
+  it('lists assignments due within the window, soonest first', async () => {
+    const inDays = (days) => new Date(Date.now() + days * DAY_MS).toISOString();
+    client.listCourses.mockResolvedValue([
+      { id: 1, name: 'Biology' },
+      { id: 2, name: 'History' },
+    ]);
+    client.listAssignments.mockImplementation(async (courseId) =>
+      courseId === 1
+        ? [
+            { name: 'Lab report', due_at: inDays(3), submission: { submitted_at: null } },
+            { name: 'Final exam', due_at: inDays(30) },
+          ]
+        : [{ name: 'Essay', due_at: inDays(1), submission: { submitted_at: inDays(-1) } }],
+    );
+
+    const result = JSON.parse(await getTool('canvas_upcoming_assignments').invoke({}));
+
+    expect(result.map(({ course, name, submitted }) => ({ course, name, submitted }))).toEqual([
+      { course: 'History', name: 'Essay', submitted: true },
+      { course: 'Biology', name: 'Lab report', submitted: false },
+    ]);
+  });
+
+  it('summarizes course grades', async () => {
+    client.listEnrollments.mockResolvedValue([
+      { course_id: 1, grades: { current_score: 91.5, current_grade: 'A-' } },
+    ]);
+    client.listCourses.mockResolvedValue([{ id: 1, name: 'Biology' }]);
+
+    const result = JSON.parse(await getTool('canvas_grades').invoke({}));
+
+    expect(result).toEqual([
+      { course_id: 1, course: 'Biology', current_score: 91.5, current_grade: 'A-' },
+    ]);
+  });
+});
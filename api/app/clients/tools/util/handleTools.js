@@ -23,13 +23,16 @@ const {
   TraversaalSearch,
   StructuredWolfram,
   createYouTubeTools,
+  createCanvasTools,
   TavilySearchResults,
   createOpenAIImageTools,
 } = require('../');
 const { primeFiles: primeCodeFiles } = require('~/server/services/Files/Code/process');
 const { createFileSearchTool, primeFiles: primeSearchFiles } = require('./fileSearch');
 const { getUserPluginAuthValue } = require('~/server/services/PluginService');
+const { getCanvasClient } = require('~/server/services/CanvasService');
 const { loadAuthValues } = require('~/server/services/Tools/credentials');
+const { loadUserMCPServers } = require('~/server/services/UserMCPServers');
 const { getCachedTools } = require('~/server/services/Config');
 const { createMCPTool } = require('~/server/services/MCP');
 
@@ -179,6 +182,13 @@ const loadTools = async ({
       const authValues = await loadAuthValues({ userId: user, authFields });
       return createYouTubeTools(authValues);
     },
+    canvas: async (toolContextMap) => {
+      const client = await getCanvasClient(user);
+      toolContextMap.canvas = `# Canvas LMS tools:
+Current Date & Time: ${replaceSpecialVars({ text: '{{iso_datetime}}' })}
+Canvas dates are in UTC; convert them to the user's time zone when answering.`;
+      return createCanvasTools({ client });
+    },
     image_gen_oai: async (toolContextMap) => {
       const authFields = getAuthFields('image_gen_oai');
       const authValues = await loadAuthValues({ userId: user, authFields });
@@ -235,7 +245,8 @@ const loadTools = async ({
 
   /** @type {Record<string, string>} */
   const toolContextMap = {};
-  const appTools = (await getCachedTools({ includeGlobal: true })) ?? {};
+  await loadUserMCPServers(user);
+  const appTools = (await getCachedTools({ userId: user, includeGlobal: true })) ?? {};
 
   for (const tool of tools) {
     if (tool === Tools.execute_code) {
@@ -332,8 +332,21 @@ async function getTransactions(filter) {
   }
 }
 
+/**
+ * Sums the tokens of the transactions matching a filter, e.g. to enforce a token budget.
+ * @async
+ * @function getSpentTokens
+ * @param {Object} filter - MongoDB filter object to apply when querying transactions.
+ * @returns {Promise<number>} A promise that resolves to the total number of tokens spent.
+ */
+async function getSpentTokens(filter) {
+  const transactions = await Transaction.find(filter, 'rawAmount').lean();
+  return transactions.reduce((total, { rawAmount }) => total + Math.abs(rawAmount ?? 0), 0);
+}
+
 module.exports = {
   getTransactions,
+  getSpentTokens,
   createTransaction,
   createAutoRefillTransaction,
   createStructuredTransaction,
@@ -1,6 +1,7 @@
 const { logger } = require('@librechat/data-schemas');
 const { CacheKeys, AuthType, Constants } = require('librechat-data-provider');
 const { getCustomConfig, getCachedTools } = require('~/server/services/Config');
+const { getUserMCPManifestTools } = require('~/server/services/UserMCPServers');
 const { getToolkitKey } = require('~/server/services/ToolService');
 const { getMCPManager, getFlowStateManager } = require('~/config');
 const { availableTools } = require('~/app/clients/tools');
@@ -130,7 +131,8 @@ function createGetServerTools() {
  * This function first attempts to retrieve the list of tools from a cache. If the tools are not found in the cache,
  * it reads a plugin manifest file, filters for unique plugins, and determines if each plugin is authenticated.
  * Only plugins that are marked as available in the application's local state are included in the final list.
- * The resulting list of tools is then cached and sent to the client.
+ * The resulting list of tools is then cached and sent to the client, with the tools of the MCP servers
+ * the user registered, which are not cached.
  *
  * @param {object} req - The request object, containing information about the HTTP request.
  * @param {object} res - The response object, used to send back the desired HTTP response.
@@ -140,8 +142,9 @@ const getAvailableTools = async (req, res) => {
   try {
     const cache = getLogStores(CacheKeys.CONFIG_STORE);
     const cachedToolsArray = await cache.get(CacheKeys.TOOLS);
+    const userMCPTools = await getUserMCPManifestTools(req.user.id);
     if (cachedToolsArray) {
-      res.status(200).json(cachedToolsArray);
+      res.status(200).json([...cachedToolsArray, ...userMCPTools]);
       return;
     }
 
@@ -220,7 +223,7 @@ const getAvailableTools = async (req, res) => {
 
     const finalTools = filterUniquePlugins(toolsOutput);
     await cache.set(CacheKeys.TOOLS, finalTools);
-    res.status(200).json(finalTools);
+    res.status(200).json([...finalTools, ...userMCPTools]);
   } catch (error) {
     logger.error('[getAvailableTools]', error);
     res.status(500).json({ message: error.message });
@@ -14,13 +14,20 @@ const {
   deletePresets,
   deleteMessages,
   deleteUserById,
+  deleteUserMCPServers,
   deleteAllUserSessions,
+  deleteUserAgentSchedules,
 } = require('~/models');
 const { updateUserPluginAuth, deleteUserPluginAuth } = require('~/server/services/PluginService');
 const { updateUserPluginsService, deleteUserKey } = require('~/server/services/UserService');
 const { verifyEmail, resendVerificationEmail } = require('~/server/services/AuthService');
 const { needsRefresh, getNewS3URL } = require('~/server/services/Files/S3/crud');
 const { processDeleteRequest } = require('~/server/services/Files/process');
+const {
+  startDataExport,
+  getDataExportFile,
+  getDataExportStatus,
+} = require('~/server/services/DataExport');
 const { Transaction, Balance, User } = require('~/db/models');
 const { deleteToolCalls } = require('~/models/ToolCall');
 const { deleteAllSharedLinks } = require('~/models');
@@ -225,6 +232,8 @@ const deleteUserController = async (req, res) => {
     await deleteUserFiles(req); // delete user files
     await deleteFiles(null, user.id); // delete database files in case of orphaned files from previous steps
     await deleteToolCalls(user.id); // delete user tool calls
+    await deleteUserMCPServers(user.id); // delete user MCP servers
+    await deleteUserAgentSchedules(user.id); // delete user agent schedules
     /* TODO: queue job for cleaning actions and assistants of non-existant users */
     logger.info(`User deleted account. Email: ${user.email} ID: ${user.id}`);
     res.status(200).send({ message: 'User deleted' });
@@ -262,6 +271,32 @@ const resendVerificationController = async (req, res) => {
   }
 };
 
+const getDataExportController = async (req, res) => {
+  res.status(200).json(getDataExportStatus(req.user.id));
+};
+
+const startDataExportController = async (req, res) => {
+  try {
+    res.status(202).json(await startDataExport(req));
+  } catch (error) {
+    logger.error('[startDataExportController]', error);
+    res.status(500).json({ message: 'Error starting data export' });
+  }
+};
+
+const downloadDataExportController = async (req, res) => {
+  const file = getDataExportFile(req.user.id);
+  if (!file) {
+    return res.status(404).json({ message: 'Data export not found' });
+  }
+  res.download(file.filepath, file.filename, (error) => {
+    if (error && !res.headersSent) {
+      logger.error('[downloadDataExportController]', error);
+      res.status(500).json({ message: 'Error downloading data export' });
+    }
+  });
+};
+
 module.exports = {
   getUserController,
   getTermsStatusController,
@@ -270,4 +305,7 @@ module.exports = {
   verifyEmailController,
   updateUserPluginsController,
   resendVerificationController,
+  getDataExportController,
+  startDataExportController,
+  downloadDataExportController,
 };
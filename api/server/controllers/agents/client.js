@@ -36,8 +36,11 @@ const {
 const {
   findPluginAuthsByKeys,
   getFormattedMemories,
+  getAllUserMemories,
+  setMemoryEmbedding,
   deleteMemory,
   setMemory,
+  getConvo,
 } = require('~/models');
 const { getMCPAuthMap, checkCapability, hasCustomUserVars } = require('~/server/services/Config');
 const { addCacheControl, createContextHandlers } = require('~/app/clients/prompts');
@@ -45,6 +48,7 @@ const { initializeAgent } = require('~/server/services/Endpoints/agents/agent');
 const { spendTokens, spendStructuredTokens } = require('~/models/spendTokens');
 const { encodeAndFormat } = require('~/server/services/Files/images/encode');
 const { getProviderConfig } = require('~/server/services/Endpoints');
+const { getEmbeddings } = require('~/server/services/Embeddings');
 const BaseClient = require('~/app/clients/BaseClient');
 const { getRoleByName } = require('~/models/Role');
 const { loadAgent } = require('~/models/Agent');
@@ -482,6 +486,11 @@ class AgentClient extends BaseClient {
       instructions: agent.instructions,
       llmConfig,
       tokenLimit: memoryConfig.tokenLimit,
+      retrieval: memoryConfig.retrieval,
+      embeddings:
+        memoryConfig.retrieval?.mode === 'semantic'
+          ? getEmbeddings(this.options.req.app.locals.embeddings)
+          : undefined,
     };
 
     const userId = this.options.req.user.id + '';
@@ -492,9 +501,13 @@ class AgentClient extends BaseClient {
       config,
       messageId,
       conversationId,
+      query: this.options.req.body?.text,
+      scope: await this.getMemoryScope(userId, conversationId),
       memoryMethods: {
         setMemory,
         deleteMemory,
+        setMemoryEmbedding,
+        getAllUserMemories,
         getFormattedMemories,
       },
       res: this.options.res,
@@ -504,6 +517,32 @@ class AgentClient extends BaseClient {
     return withoutKeys;
   }
 
+  /**
+   * Scope of the memories visible in this conversation: global memories and those of
+   * the agent, the agent's projects and the conversation's tags.
+   * @param {string} userId
+   * @param {string} conversationId
+   * @returns {Promise<import('@librechat/data-schemas').ActiveMemoryScope>}
+   */
+  async getMemoryScope(userId, conversationId) {
+    const agent = this.options.agent;
+    /** @type {import('@librechat/data-schemas').ActiveMemoryScope} */
+    const scope = {
+      agentId: agent.id !== Constants.EPHEMERAL_AGENT_ID ? agent.id : undefined,
+      projectIds: (agent.projectIds ?? []).map((projectId) => projectId.toString()),
+    };
+    try {
+      const convo = await getConvo(userId, conversationId);
+      scope.conversationTags = convo?.tags ?? [];
+    } catch (error) {
+      logger.error(
+        '[api/server/controllers/agents/client.js #getMemoryScope] Error loading conversation tags',
+        error,
+      );
+    }
+    return scope;
+  }
+
   /**
    * @param {BaseMessage[]} messages
    * @returns {Promise<void | (TAttachment | null)[]>}
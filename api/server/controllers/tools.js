@@ -13,6 +13,7 @@ const {
 const { processFileURL, uploadImageBuffer } = require('~/server/services/Files/process');
 const { processCodeOutput } = require('~/server/services/Files/Code/process');
 const { createToolCall, getToolCallsByConvo } = require('~/models/ToolCall');
+const { resolveToolApproval } = require('~/server/services/Tools/approval');
 const { loadAuthValues } = require('~/server/services/Tools/credentials');
 const { loadTools } = require('~/app/clients/tools/util');
 const { getRoleByName } = require('~/models/Role');
@@ -242,8 +243,41 @@ const getToolCalls = async (req, res) => {
   }
 };
 
+/**
+ * Approves or denies a tool call awaiting the user's approval, optionally with edited arguments.
+ * @param {ServerRequest} req - The request object, with the approval's `flowId` param.
+ * @param {ServerResponse} res - The response object.
+ * @returns {Promise<void>}
+ */
+const setToolApproval = async (req, res) => {
+  /** @type {import('librechat-data-provider').Agents.ToolApprovalRequest} */
+  const { approved, args } = req.body ?? {};
+  if (typeof approved !== 'boolean') {
+    return res.status(400).json({ message: 'Approval decision required' });
+  }
+  if (args != null && (typeof args !== 'object' || Array.isArray(args))) {
+    return res.status(400).json({ message: 'Tool arguments must be an object' });
+  }
+  try {
+    const resolved = await resolveToolApproval({
+      userId: req.user.id,
+      flowId: req.params.flowId,
+      approved,
+      args,
+    });
+    if (!resolved) {
+      return res.status(404).json({ message: 'Tool call approval not found' });
+    }
+    res.status(200).json({ success: true });
+  } catch (error) {
+    logger.error('Error setting tool call approval', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
 module.exports = {
   callTool,
   getToolCalls,
   verifyToolAuth,
+  setToolApproval,
 };
@@ -16,6 +16,8 @@ const { connectDb, indexSync } = require('~/db');
 const validateImageRequest = require('./middleware/validateImageRequest');
 const { jwtLogin, ldapLogin, passportLogin } = require('~/strategies');
 const errorController = require('./controllers/ErrorController');
+const { scheduleCanvasSync } = require('./services/CanvasSyncService');
+const { scheduleAgentRuns } = require('./services/AgentScheduleService');
 const initializeMCP = require('./services/initializeMCP');
 const configureSocialLogins = require('./socialLogins');
 const AppService = require('./services/AppService');
@@ -91,6 +93,7 @@ const startServer = async () => {
   }
 
   app.use('/oauth', routes.oauth);
+  app.use('/mcp', routes.mcpServer);
   /* API Endpoints */
   app.use('/api/auth', routes.auth);
   app.use('/api/actions', routes.actions);
@@ -148,6 +151,8 @@ const startServer = async () => {
     }
 
     initializeMCP(app);
+    scheduleCanvasSync(app);
+    scheduleAgentRuns(app);
   });
 };
 
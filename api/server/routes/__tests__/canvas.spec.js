@@ -0,0 +1,252 @@
+const request = require('supertest');
+const express = require('express');
+const { getCanvasContentDocument } = require('@librechat/api');
+const cookieParser = require('cookie-parser');
+const {
+  getCanvasClient,
+  isCanvasOAuthEnabled,
+  getCanvasAuthorizationUrl,
+  handleCanvasOAuthCallback,
+} = require('~/server/services/CanvasService');
+const { getAgent, addAgentResourceFile } = require('~/models/Agent');
+const { getFiles } = require('~/models/File');
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@librechat/api', () => ({
+  createCanvasQuiz: jest.fn(),
+  createQuizQtiZip: jest.fn(),
+  getQuizQtiFilename: jest.fn(),
+  publishCanvasContent: jest.fn(),
+  getCanvasContentDocument: jest.fn(),
+  generateCheckAccess: () => (req, res, next) => next(),
+}));
+
+jest.mock('~/server/services/CanvasService', () => ({
+  getCanvasBaseUrl: jest.fn(() => 'https://canvas.example.edu'),
+  deleteCanvasAuth: jest.fn(),
+  getCanvasAuthStatus: jest.fn(),
+  isCanvasOAuthEnabled: jest.fn(),
+  getCanvasClient: jest.fn(),
+  saveCanvasAccessToken: jest.fn(),
+  getCanvasAuthorizationUrl: jest.fn(),
+  handleCanvasOAuthCallback: jest.fn(),
+}));
+
+jest.mock('~/server/services/CanvasSyncService', () => ({
+  syncCanvasFiles: jest.fn(),
+  getCanvasSyncStatus: jest.fn(),
+}));
+
+jest.mock('~/server/services/Files/process', () => ({
+  processFileUpload: jest.fn(),
+  processAgentFileUpload: jest.fn(),
+}));
+
+jest.mock('~/models/Agent', () => ({
+  getAgent: jest.fn(),
+  addAgentResourceFile: jest.fn(),
+}));
+
+jest.mock('~/models/File', () => ({
+  getFiles: jest.fn(),
+  updateFile: jest.fn(),
+}));
+
+jest.mock('~/models/Role', () => ({ getRoleByName: jest.fn() }));
+
+jest.mock('~/server/middleware', () => ({
+  requireJwtAuth: (req, res, next) => {
+    req.user = { id: 'user-1' };
+    next();
+  },
+}));
+
+const canvasRoute = require('../canvas');
+
+const app = express();
+app.use(express.json());
+app.use(cookieParser());
+app.use('/api/canvas', canvasRoute);
+
+describe('Canvas routes', () => {
+  let client;
+
+  beforeEach(() => {
+    client = {
+      listFiles: jest.fn().mockResolvedValue([
+        { id: 1, display_name: 'syllabus.pdf' },
+        { id: 2, display_name: 'hidden.pdf', hidden: true },
+      ]),
+      listPages: jest.fn().mockResolvedValue([
+        { url: 'welcome', title: 'Welcome', published: true },
+        { url: 'draft', title: 'Draft', published: false },
+      ]),
+      listAssignments: jest.fn().mockResolvedValue([
+        { id: 10, name: 'Essay', published: true, submission_types: ['online_text_entry'] },
+        { id: 11, name: 'Debate', published: true, submission_types: ['discussion_topic'] },
+      ]),
+      listDiscussionTopics: jest.fn().mockResolvedValue([
+        { id: 20, title: 'Debate', published: true, assignment_id: 11 },
+        { id: 21, title: 'Introductions', published: true },
+        { id: 22, title: 'Unpublished', published: false },
+      ]),
+    };
+    getCanvasClient.mockResolvedValue(client);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('OAuth', () => {
+    it('should store the nonce of the flow in an httpOnly cookie', async () => {
+      isCanvasOAuthEnabled.mockReturnValue(true);
+      getCanvasAuthorizationUrl.mockReturnValue({
+        authorizationUrl: 'https://canvas.example.edu/login/oauth2/auth?state=state',
+        nonce: 'nonce-1',
+      });
+
+      const response = await request(app).get('/api/canvas/oauth/initiate');
+
+      expect(response.body).toEqual({
+        authorizationUrl: 'https://canvas.example.edu/login/oauth2/auth?state=state',
+      });
+      const [cookie] = response.headers['set-cookie'];
+      expect(cookie).toMatch(/^canvas_oauth_nonce=nonce-1;/);
+      expect(cookie).toMatch(/Path=\/api\/canvas\/oauth/);
+      expect(cookie).toMatch(/HttpOnly/);
+    });
+
+    it('should pass the nonce cookie to the callback and clear it', async () => {
+      handleCanvasOAuthCallback.mockResolvedValue('user-1');
+
+      const response = await request(app)
+        .get('/api/canvas/oauth/callback')
+        .query({ code: 'code', state: 'state' })
+        .set('Cookie', 'canvas_oauth_nonce=nonce-1');
+
+      expect(response.headers.location).toMatch(/^\/oauth\/success/);
+      expect(handleCanvasOAuthCallback).toHaveBeenCalledWith({
+        code: 'code',
+        state: 'state',
+        nonce: 'nonce-1',
+      });
+      expect(response.headers['set-cookie'][0]).toMatch(/^canvas_oauth_nonce=;/);
+    });
+
+    it('should fail the callback when the state was not issued to the browser', async () => {
+      handleCanvasOAuthCallback.mockRejectedValue(new Error('State parameter was not issued'));
+
+      const response = await request(app)
+        .get('/api/canvas/oauth/callback')
+        .query({ code: 'code', state: 'state' });
+
+      expect(response.headers.location).toBe('/oauth/error?error=callback_failed');
+      expect(handleCanvasOAuthCallback).toHaveBeenCalledWith({
+        code: 'code',
+        state: 'state',
+        nonce: undefined,
+      });
+    });
+  });
+
+  describe('GET /courses/:courseId/importable', () => {
+    it('should list the published content of a course, graded discussions once', async () => {
+      const response = await request(app).get('/api/canvas/courses/5/importable');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toEqual([
+        { type: 'File', id: 1, title: 'syllabus.pdf' },
+        { type: 'Page', id: 'welcome', title: 'Welcome' },
+        { type: 'Assignment', id: 10, title: 'Essay' },
+        { type: 'Discussion', id: 20, title: 'Debate' },
+        { type: 'Discussion', id: 21, title: 'Introductions' },
+      ]);
+      expect(client.listDiscussionTopics).toHaveBeenCalledWith('5');
+    });
+
+    it('should return 500 when Canvas fails', async () => {
+      client.listDiscussionTopics.mockRejectedValue(new Error('Canvas is down'));
+
+      const response = await request(app).get('/api/canvas/courses/5/importable');
+
+      expect(response.statusCode).toBe(500);
+    });
+  });
+
+  describe('POST /courses/:courseId/content/import', () => {
+    const existing = { file_id: 'file-1', filename: 'Introductions.md', type: 'text/markdown' };
+
+    it('should reuse content imported before and add it to the agent', async () => {
+      getFiles.mockResolvedValue([existing]);
+      getAgent.mockResolvedValue({ id: 'agent-1', author: 'user-1', tool_resources: {} });
+
+      const response = await request(app)
+        .post('/api/canvas/courses/5/content/import')
+        .send({ type: 'Discussion', id: 21, agent_id: 'agent-1' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toMatchObject({ file_id: 'file-1', deduplicated: true });
+      expect(getFiles).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user: 'user-1',
+          'metadata.canvas.content_type': 'Discussion',
+          'metadata.canvas.content_id': '21',
+        }),
+      );
+      expect(addAgentResourceFile).toHaveBeenCalledWith(
+        expect.objectContaining({ agent_id: 'agent-1', file_id: 'file-1' }),
+      );
+      expect(getCanvasContentDocument).not.toHaveBeenCalled();
+    });
+
+    it('should not add content the agent already has again', async () => {
+      getFiles.mockResolvedValue([existing]);
+      getAgent.mockResolvedValue({
+        id: 'agent-1',
+        author: 'user-1',
+        tool_resources: { file_search: { file_ids: ['file-1'] } },
+      });
+
+      const response = await request(app)
+        .post('/api/canvas/courses/5/content/import')
+        .send({ type: 'Discussion', id: 21, agent_id: 'agent-1' });
+
+      expect(response.body.deduplicated).toBe(true);
+      expect(addAgentResourceFile).not.toHaveBeenCalled();
+    });
+
+    it("should not add content to another user's agent", async () => {
+      getFiles.mockResolvedValue([existing]);
+      getAgent.mockResolvedValue({ id: 'agent-2', author: 'user-2', tool_resources: {} });
+
+      const response = await request(app)
+        .post('/api/canvas/courses/5/content/import')
+        .send({ type: 'Discussion', id: 21, agent_id: 'agent-2' });
+
+      expect(response.statusCode).toBe(403);
+      expect(addAgentResourceFile).not.toHaveBeenCalled();
+      expect(getCanvasContentDocument).not.toHaveBeenCalled();
+    });
+
+    it('should add content to a collaborative agent of another user', async () => {
+      getFiles.mockResolvedValue([existing]);
+      getAgent.mockResolvedValue({
+        id: 'agent-2',
+        author: 'user-2',
+        isCollaborative: true,
+        tool_resources: {},
+      });
+
+      const response = await request(app)
+        .post('/api/canvas/courses/5/content/import')
+        .send({ type: 'Discussion', id: 21, agent_id: 'agent-2' });
+
+      expect(response.statusCode).toBe(200);
+      expect(addAgentResourceFile).toHaveBeenCalled();
+    });
+  });
+});
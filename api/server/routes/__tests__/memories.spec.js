@@ -0,0 +1,116 @@
+const request = require('supertest');
+const express = require('express');
+const { getMemoryHistory, revertMemoryChange } = require('~/models');
+
+jest.mock('~/models', () => ({
+  getAllUserMemories: jest.fn(),
+  toggleUserMemories: jest.fn(),
+  createMemory: jest.fn(),
+  deleteMemory: jest.fn(),
+  setMemory: jest.fn(),
+  setMemoryScope: jest.fn(),
+  getMemoryHistory: jest.fn(),
+  revertMemoryChange: jest.fn(),
+}));
+jest.mock('~/models/Role', () => ({ getRoleByName: jest.fn() }));
+jest.mock('~/server/services/Embeddings', () => ({ getEmbeddings: jest.fn() }));
+jest.mock('~/server/middleware', () => ({
+  requireJwtAuth: (req, res, next) => {
+    req.user = { id: 'user-1' };
+    next();
+  },
+}));
+jest.mock('@librechat/api', () => ({
+  Tokenizer: { getTokenCount: jest.fn() },
+  exportMemories: jest.fn(),
+  getMemoryEmbedding: jest.fn(),
+  parseMemoriesImport: jest.fn(),
+  validateMemoriesImport: jest.fn(),
+  generateCheckAccess: () => (req, res, next) => next(),
+}));
+
+const memoriesRoute = require('../memories');
+
+const app = express();
+app.use(express.json());
+app.locals.memory = { tokenLimit: 100, validKeys: ['preferences'] };
+app.use('/api/memories', memoriesRoute);
+
+describe('Memory history routes', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the history of one memory in its scope', async () => {
+    const history = [{ _id: 'h1', key: 'preferences', action: 'update', version: 2 }];
+    getMemoryHistory.mockResolvedValue(history);
+
+    const response = await request(app)
+      .get('/api/memories/history')
+      .query({ key: 'preferences', agentId: 'agent-1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body.history).toEqual(history);
+    expect(getMemoryHistory).toHaveBeenCalledWith({
+      userId: 'user-1',
+      key: 'preferences',
+      scope: { agentId: 'agent-1', projectId: null, conversationTag: null },
+    });
+  });
+
+  it('should revert a change within the configured memory limits', async () => {
+    revertMemoryChange.mockResolvedValue({ ok: true });
+
+    const response = await request(app).post('/api/memories/history/h1/revert');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toEqual({ reverted: true });
+    expect(revertMemoryChange).toHaveBeenCalledWith({
+      userId: 'user-1',
+      historyId: 'h1',
+      validKeys: ['preferences'],
+      tokenLimit: 100,
+      limitTotal: true,
+    });
+  });
+
+  it('should return 404 for a change that does not exist', async () => {
+    revertMemoryChange.mockResolvedValue({ ok: false });
+
+    const response = await request(app).post('/api/memories/history/unknown/revert');
+
+    expect(response.statusCode).toBe(404);
+    expect(response.body.error).toBe('Memory change not found.');
+  });
+
+  it('should return 409 when the key is taken in the scope to restore', async () => {
+    revertMemoryChange.mockRejectedValue(
+      new Error('Failed to set memory scope: Memory with this key already exists'),
+    );
+
+    const response = await request(app).post('/api/memories/history/h1/revert');
+
+    expect(response.statusCode).toBe(409);
+    expect(response.body.error).toBe('Memory with this key already exists.');
+  });
+
+  it('should return 409 when the change can no longer be reverted', async () => {
+    revertMemoryChange.mockRejectedValue(new Error('Memory change can no longer be reverted'));
+
+    const response = await request(app).post('/api/memories/history/h1/revert');
+
+    expect(response.statusCode).toBe(409);
+    expect(response.body.error).toMatch('can no longer be reverted');
+  });
+
+  it('should return 400 when the restored value breaks the memory limits', async () => {
+    revertMemoryChange.mockRejectedValue(
+      new Error('The value of 120 tokens exceeds the token limit of 100'),
+    );
+
+    const response = await request(app).post('/api/memories/history/h1/revert');
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body.error).toBe('The value of 120 tokens exceeds the token limit of 100');
+  });
+});
@@ -0,0 +1,226 @@
+const express = require('express');
+const { logger } = require('@librechat/data-schemas');
+const { getNextRunDate, validateScheduleTiming } = require('@librechat/api');
+const {
+  getAgentSchedule,
+  getAgentSchedules,
+  createAgentSchedule,
+  updateAgentSchedule,
+  deleteAgentSchedule,
+  getAgentScheduleRuns,
+} = require('~/models');
+const { processDueSchedules } = require('~/server/services/AgentScheduleService');
+const { loadAgent } = require('~/models/Agent');
+
+const router = express.Router();
+
+/** Most retries of a failed run a schedule may have */
+const MAX_RETRIES = 5;
+
+/**
+ * Validates the fields of a schedule in a request body.
+ * @param {ServerRequest} req
+ * @param {import('@librechat/data-schemas').IAgentScheduleLean} [current] - The schedule being
+ *   updated; fields missing from the body keep its values.
+ * @returns {Promise<{ error: string } | { fields: import('@librechat/data-schemas').AgentScheduleFields }>}
+ */
+async function parseScheduleFields(req, current) {
+  const body = req.body ?? {};
+  const fields = {
+    agent_id: body.agent_id ?? current?.agent_id,
+    name: typeof body.name === 'string' ? body.name.trim() : current?.name,
+    prompt: typeof body.prompt === 'string' ? body.prompt.trim() : current?.prompt,
+    cron:
+      'cron' in body
+        ? (typeof body.cron === 'string' && body.cron.trim()) || null
+        : (current?.cron ?? null),
+    intervalMinutes:
+      'intervalMinutes' in body
+        ? (body.intervalMinutes ?? null)
+        : (current?.intervalMinutes ?? null),
+    enabled: typeof body.enabled === 'boolean' ? body.enabled : (current?.enabled ?? true),
+    maxRetries: body.maxRetries ?? current?.maxRetries ?? 2,
+  };
+
+  if (!fields.name) {
+    return { error: 'Name is required.' };
+  }
+  if (!fields.prompt) {
+    return { error: 'Prompt is required.' };
+  }
+  if (!Number.isInteger(fields.maxRetries) || fields.maxRetries < 0) {
+    return { error: 'Retries must be a whole number of at least 0.' };
+  }
+  if (fields.maxRetries > MAX_RETRIES) {
+    return { error: `Retries must be at most ${MAX_RETRIES}.` };
+  }
+  const timingError = validateScheduleTiming(fields);
+  if (timingError) {
+    return { error: timingError };
+  }
+  if (
+    typeof fields.agent_id !== 'string' ||
+    !(await loadAgent({ req, agent_id: fields.agent_id }))
+  ) {
+    return { error: 'Agent not found.' };
+  }
+  return { fields };
+}
+
+/**
+ * GET /agents/schedules
+ * Returns the agent schedules of the authenticated user.
+ */
+router.get('/', async (req, res) => {
+  try {
+    const schedules = await getAgentSchedules(req.user.id);
+    res.json({ schedules });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /agents/schedules
+ * Schedules runs of an agent with a fixed prompt.
+ * Body: { agent_id, name, prompt, cron?, intervalMinutes?, enabled?, maxRetries? }
+ * Returns 201 and the schedule when successful.
+ */
+router.post('/', async (req, res) => {
+  try {
+    const parsed = await parseScheduleFields(req);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const schedule = await createAgentSchedule({
+      ...parsed.fields,
+      userId: req.user.id,
+      nextRunAt: parsed.fields.enabled ? getNextRunDate(parsed.fields) : null,
+    });
+    res.status(201).json(schedule);
+  } catch (error) {
+    logger.error('[POST /agents/schedules] Error creating schedule', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * PATCH /agents/schedules/:id
+ * Updates an agent schedule; changing its timing or enabling it schedules its next run from now.
+ * Body: Partial<{ agent_id, name, prompt, cron, intervalMinutes, enabled, maxRetries }>
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const current = await getAgentSchedule({ userId: req.user.id, scheduleId: req.params.id });
+    if (!current) {
+      return res.status(404).json({ error: 'Schedule not found.' });
+    }
+    const parsed = await parseScheduleFields(req, current);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { fields } = parsed;
+    const timingChanged =
+      fields.cron !== (current.cron ?? null) ||
+      fields.intervalMinutes !== (current.intervalMinutes ?? null) ||
+      fields.enabled !== current.enabled;
+    const schedule = await updateAgentSchedule({
+      userId: req.user.id,
+      scheduleId: req.params.id,
+      update: {
+        ...fields,
+        ...(timingChanged
+          ? { nextRunAt: fields.enabled ? getNextRunDate(fields) : null, retryCount: 0 }
+          : {}),
+      },
+    });
+    res.json(schedule);
+  } catch (error) {
+    logger.error('[PATCH /agents/schedules/:id] Error updating schedule', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * DELETE /agents/schedules/:id
+ * Deletes an agent schedule and its run history; its conversation is kept.
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await deleteAgentSchedule({ userId: req.user.id, scheduleId: req.params.id });
+    if (!deleted) {
+      return res.status(404).json({ error: 'Schedule not found.' });
+    }
+    res.json({ deleted: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /agents/schedules/:id/runs
+ * Returns the run history of an agent schedule, newest first.
+ */
+router.get('/:id/runs', async (req, res) => {
+  try {
+    const schedule = await getAgentSchedule({ userId: req.user.id, scheduleId: req.params.id });
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found.' });
+    }
+    const runs = await getAgentScheduleRuns({ userId: req.user.id, scheduleId: req.params.id });
+    res.json({ runs });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /agents/schedules/:id/run
+ * Runs an enabled agent schedule now; its following runs are scheduled from this run.
+ * Returns 202 and the schedule.
+ */
+router.post('/:id/run', async (req, res) => {
+  try {
+    const current = await getAgentSchedule({ userId: req.user.id, scheduleId: req.params.id });
+    if (!current) {
+      return res.status(404).json({ error: 'Schedule not found.' });
+    }
+    if (!current.enabled) {
+      return res.status(400).json({ error: 'Schedule is paused.' });
+    }
+    const schedule = await updateAgentSchedule({
+      userId: req.user.id,
+      scheduleId: req.params.id,
+      update: { nextRunAt: new Date(), retryCount: 0 },
+    });
+    processDueSchedules(req.app).catch((error) =>
+      logger.error('[POST /agents/schedules/:id/run] Failed to run agent schedules', error),
+    );
+    res.status(202).json(schedule);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /agents/schedules/:id/read
+ * Marks the runs of an agent schedule as read.
+ */
+router.post('/:id/read', async (req, res) => {
+  try {
+    const schedule = await updateAgentSchedule({
+      userId: req.user.id,
+      scheduleId: req.params.id,
+      update: { unreadRuns: 0 },
+    });
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found.' });
+    }
+    res.json(schedule);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
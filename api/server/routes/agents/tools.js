@@ -1,5 +1,10 @@
 const express = require('express');
-const { callTool, verifyToolAuth, getToolCalls } = require('~/server/controllers/tools');
+const {
+  callTool,
+  getToolCalls,
+  verifyToolAuth,
+  setToolApproval,
+} = require('~/server/controllers/tools');
 const { getAvailableTools } = require('~/server/controllers/PluginController');
 const { toolCallLimiter } = require('~/server/middleware/limiters');
 
@@ -36,4 +41,13 @@ router.get('/:toolId/auth', verifyToolAuth);
  */
 router.post('/:toolId/call', toolCallLimiter, callTool);
 
+/**
+ * Approve or deny a tool call awaiting the user's approval
+ * @route POST /agents/tools/approval/:flowId
+ * @param {string} flowId - The flow ID of the approval
+ * @param {Agents.ToolApprovalRequest} req.body - The decision, with optionally edited arguments
+ * @returns {{ success: boolean }}
+ */
+router.post('/approval/:flowId', setToolApproval);
+
 module.exports = router;
@@ -4,6 +4,7 @@ const { PermissionTypes, Permissions } = require('librechat-data-provider');
 const { requireJwtAuth } = require('~/server/middleware');
 const v1 = require('~/server/controllers/agents/v1');
 const { getRoleByName } = require('~/models/Role');
+const schedules = require('./schedules');
 const actions = require('./actions');
 const tools = require('./tools');
 
@@ -44,6 +45,12 @@ router.use('/actions', actions);
  */
 router.use('/tools', tools);
 
+/**
+ * Scheduled runs of agents.
+ * @route GET|POST|PATCH|DELETE /agents/schedules
+ */
+router.use('/schedules', checkAgentAccess, schedules);
+
 /**
  * Creates an agent.
  * @route POST /agents
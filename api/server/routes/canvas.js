@@ -1,84 +1,277 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
 const express = require('express');
 const { logger } = require('@librechat/data-schemas');
+const {
+  createCanvasQuiz,
+  createQuizQtiZip,
+  getQuizQtiFilename,
+  generateCheckAccess,
+  publishCanvasContent,
+  getCanvasContentDocument,
+} = require('@librechat/api');
+const {
+  quizSchema,
+  Permissions,
+  isQuizComplete,
+  EModelEndpoint,
+  EToolResources,
+  PermissionTypes,
+  SystemRoles,
+  isAgentsEndpoint,
+} = require('librechat-data-provider');
+const {
+  getCanvasBaseUrl,
+  deleteCanvasAuth,
+  getCanvasAuthStatus,
+  isCanvasOAuthEnabled,
+  getCanvasClient,
+  saveCanvasAccessToken,
+  getCanvasAuthorizationUrl,
+  handleCanvasOAuthCallback,
+} = require('~/server/services/CanvasService');
+const { syncCanvasFiles, getCanvasSyncStatus } = require('~/server/services/CanvasSyncService');
+const { processFileUpload, processAgentFileUpload } = require('~/server/services/Files/process');
+const { getAgent, addAgentResourceFile } = require('~/models/Agent');
+const { getFiles, updateFile } = require('~/models/File');
+const { requireJwtAuth } = require('~/server/middleware');
+const { getRoleByName } = require('~/models/Role');
 
 const router = express.Router();
 
-router.get('/courses', async (req, res) => {
+/** Cookie with the nonce of the user's Canvas OAuth flow, which binds the callback to their browser */
+const OAUTH_NONCE_COOKIE = 'canvas_oauth_nonce';
+
+/**
+ * Options of the OAuth nonce cookie. It is sent with the top-level redirect back from Canvas,
+ * which `sameSite: 'strict'` would prevent.
+ * @param {ServerRequest} req
+ */
+const getOAuthNonceCookieOptions = (req) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: `${req.baseUrl}/oauth`,
+});
+
+/** Module item types that can be imported as markdown documents */
+const CANVAS_CONTENT_TYPES = ['Page', 'Assignment', 'Discussion'];
+/** Kinds of Canvas content that LibreChat output can be published as */
+const CANVAS_PUBLISH_TYPES = ['Page', 'File', 'Announcement'];
+
+const checkCanvasPublish = generateCheckAccess({
+  permissionType: PermissionTypes.CANVAS,
+  permissions: [Permissions.USE],
+  getRoleByName,
+});
+
+/**
+ * Handles the Canvas OAuth2 callback and exchanges the authorization code for tokens.
+ *
+ * @route GET /canvas/oauth/callback
+ * @param {string} req.query.code - The authorization code returned by Canvas.
+ * @param {string} req.query.state - The state token to verify the authenticity of the request.
+ */
+router.get('/oauth/callback', async (req, res) => {
+  const { code, state, error: oauthError } = req.query;
+
+  if (oauthError) {
+    logger.error('[Canvas OAuth] OAuth error received', { error: oauthError });
+    return res.redirect(`/oauth/error?error=${encodeURIComponent(String(oauthError))}`);
+  }
+
+  if (!code || typeof code !== 'string' || !state || typeof state !== 'string') {
+    logger.error('[Canvas OAuth] Missing code or state');
+    return res.redirect('/oauth/error?error=invalid_state');
+  }
+
+  const nonce = req.cookies?.[OAUTH_NONCE_COOKIE];
+  res.clearCookie(OAUTH_NONCE_COOKIE, getOAuthNonceCookieOptions(req));
+
   try {
-    const canvasApiKey = process.env.CANVAS_API_KEY;
-    const canvasBaseUrl = process.env.CANVAS_BASE_URL;
+    await handleCanvasOAuthCallback({ code, state, nonce });
+    res.redirect(`/oauth/success?serverName=${encodeURIComponent('Canvas LMS')}`);
+  } catch (error) {
+    logger.error('[Canvas OAuth] OAuth callback error', error);
+    res.redirect('/oauth/error?error=callback_failed');
+  }
+});
 
-    if (!canvasApiKey || !canvasBaseUrl) {
-      return res.status(500).json({ 
-        error: 'Canvas configuration not found' 
-      });
-    }
+router.use(requireJwtAuth);
 
-    // Fetch courses from Canvas API
-    const response = await fetch(`https://${canvasBaseUrl}/api/v1/courses?enrollment_state=active&include[]=term`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${canvasApiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
+/**
+ * Creates a Canvas API client for the requesting user and attaches it as `req.canvas`.
+ * Responds with 403 when the user has not connected a Canvas account.
+ */
+async function loadCanvasAuth(req, res, next) {
+  if (!getCanvasBaseUrl()) {
+    return res.status(500).json({ error: 'Canvas configuration not found' });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Canvas API error: ${response.status} ${response.statusText}`);
+  try {
+    const client = await getCanvasClient(req.user.id);
+    if (!client) {
+      return res.status(403).json({ error: 'Canvas account not connected' });
     }
+    req.canvas = client;
+    next();
+  } catch (error) {
+    logger.error('[Canvas] Error loading Canvas credentials:', error);
+    res.status(500).json({ error: 'Failed to load Canvas credentials' });
+  }
+}
+
+/**
+ * GET /canvas/auth
+ * Returns whether the user has connected a Canvas account and which methods are available.
+ */
+router.get('/auth', async (req, res) => {
+  try {
+    res.json(await getCanvasAuthStatus(req.user.id));
+  } catch (error) {
+    logger.error('[Canvas] Error fetching Canvas auth status:', error);
+    res.status(500).json({ error: 'Failed to fetch Canvas connection status' });
+  }
+});
+
+/**
+ * POST /canvas/auth
+ * Verifies and stores a Canvas personal access token for the user.
+ * Body: { accessToken: string }
+ */
+router.post('/auth', async (req, res) => {
+  const { accessToken } = req.body ?? {};
+  if (typeof accessToken !== 'string' || accessToken.trim() === '') {
+    return res.status(400).json({ error: 'Access token is required.' });
+  }
+
+  if (!getCanvasBaseUrl()) {
+    return res.status(500).json({ error: 'Canvas configuration not found' });
+  }
+
+  try {
+    await saveCanvasAccessToken(req.user.id, accessToken.trim());
+    res.json(await getCanvasAuthStatus(req.user.id));
+  } catch (error) {
+    logger.error('[Canvas] Error saving Canvas access token:', error);
+    res.status(400).json({ error: 'Canvas rejected the access token.' });
+  }
+});
+
+/**
+ * DELETE /canvas/auth
+ * Disconnects the user's Canvas account, removing any stored tokens.
+ */
+router.delete('/auth', async (req, res) => {
+  try {
+    await deleteCanvasAuth(req.user.id);
+    res.json(await getCanvasAuthStatus(req.user.id));
+  } catch (error) {
+    logger.error('[Canvas] Error disconnecting Canvas account:', error);
+    res.status(500).json({ error: 'Failed to disconnect Canvas account' });
+  }
+});
+
+/**
+ * GET /canvas/oauth/initiate
+ * Returns the Canvas OAuth2 authorization URL for the user to open.
+ */
+router.get('/oauth/initiate', (req, res) => {
+  if (!getCanvasBaseUrl() || !isCanvasOAuthEnabled()) {
+    return res.status(400).json({ error: 'Canvas OAuth is not configured' });
+  }
+  const { authorizationUrl, nonce } = getCanvasAuthorizationUrl(req.user.id);
+  res.cookie(OAUTH_NONCE_COOKIE, nonce, {
+    ...getOAuthNonceCookieOptions(req),
+    maxAge: 10 * 60 * 1000,
+  });
+  res.json({ authorizationUrl });
+});
+
+/**
+ * Formats a module item for the frontend.
+ * @param {import('librechat-data-provider').ModuleItem} item
+ * @returns {import('librechat-data-provider').ModuleItem}
+ */
+const formatModuleItem = (item) => ({
+  id: item.id,
+  module_id: item.module_id,
+  title: item.title,
+  type: item.type,
+  content_id: item.content_id,
+  html_url: item.html_url,
+  url: item.url,
+  page_url: item.page_url,
+  external_url: item.external_url,
+  position: item.position,
+  indent: item.indent,
+  completion_requirement: item.completion_requirement,
+  published: item.published,
+});
+
+router.get('/courses', loadCanvasAuth, async (req, res) => {
+  try {
+    /** Concluded courses are included so that the panel can show them on request */
+    const courses = await req.canvas.listCourses({
+      include: ['term', 'favorites'],
+      state: ['available', 'completed'],
+    });
 
-    const courses = await response.json();
-    
     // Filter and format courses for the frontend
     const formattedCourses = courses
-      .filter(course => course.workflow_state === 'available')
-      .map(course => ({
+      .filter((course) => course.name)
+      .map((course) => ({
         id: course.id,
         name: course.name,
         course_code: course.course_code,
         workflow_state: course.workflow_state,
         enrollment_term_id: course.enrollment_term_id,
-      }))
-      .slice(0, 20); // Limit to 20 courses for performance
+        start_at: course.start_at,
+        end_at: course.end_at,
+        term: course.term,
+        is_favorite: course.is_favorite,
+      }));
 
     res.json(formattedCourses);
   } catch (error) {
     logger.error('Error fetching Canvas courses:', error);
-    res.status(500).json({ 
-      error: 'Failed to fetch courses from Canvas LMS' 
+    res.status(500).json({
+      error: 'Failed to fetch courses from Canvas LMS',
     });
   }
 });
 
-router.get('/courses/:courseId/modules', async (req, res) => {
+/**
+ * PUT /canvas/courses/:courseId/favorite
+ * Adds a course to, or removes it from, the user's Canvas favorites.
+ *
+ * Body: { favorite: boolean }
+ */
+router.put('/courses/:courseId/favorite', loadCanvasAuth, async (req, res) => {
   try {
-    const canvasApiKey = process.env.CANVAS_API_KEY;
-    const canvasBaseUrl = process.env.CANVAS_BASE_URL;
     const { courseId } = req.params;
-
-    if (!canvasApiKey || !canvasBaseUrl) {
-      return res.status(500).json({ 
-        error: 'Canvas configuration not found' 
-      });
+    const favorite = req.body?.favorite === true;
+    if (favorite) {
+      await req.canvas.addFavoriteCourse(courseId);
+    } else {
+      await req.canvas.removeFavoriteCourse(courseId);
     }
-
-    // Fetch modules from Canvas API
-    const response = await fetch(`https://${canvasBaseUrl}/api/v1/courses/${courseId}/modules`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${canvasApiKey}`,
-        'Content-Type': 'application/json',
-      },
+    res.json({ id: Number(courseId), is_favorite: favorite });
+  } catch (error) {
+    logger.error('Error updating Canvas course favorite:', error);
+    res.status(500).json({
+      error: 'Failed to update course favorites in Canvas LMS',
     });
+  }
+});
 
-    if (!response.ok) {
-      throw new Error(`Canvas API error: ${response.status} ${response.statusText}`);
-    }
+router.get('/courses/:courseId/modules', loadCanvasAuth, async (req, res) => {
+  try {
+    const modules = await req.canvas.listModules(req.params.courseId);
 
-    const modules = await response.json();
-    
     // Format modules for the frontend
-    const formattedModules = modules.map(module => ({
+    const formattedModules = modules.map((module) => ({
       id: module.id,
       name: module.name,
       position: module.position,
@@ -87,96 +280,73 @@ router.get('/courses/:courseId/modules', async (req, res) => {
       state: module.state,
       completed_at: module.completed_at,
       items_count: module.items_count,
+      published: module.published,
     }));
 
     res.json(formattedModules);
   } catch (error) {
     logger.error('Error fetching Canvas modules:', error);
-    res.status(500).json({ 
-      error: 'Failed to fetch modules from Canvas LMS' 
+    res.status(500).json({
+      error: 'Failed to fetch modules from Canvas LMS',
     });
   }
 });
 
-router.get('/courses/:courseId/modules/:moduleId/items', async (req, res) => {
+router.get('/courses/:courseId/modules/:moduleId/items', loadCanvasAuth, async (req, res) => {
   try {
-    const canvasApiKey = process.env.CANVAS_API_KEY;
-    const canvasBaseUrl = process.env.CANVAS_BASE_URL;
     const { courseId, moduleId } = req.params;
-
-    if (!canvasApiKey || !canvasBaseUrl) {
-      return res.status(500).json({ 
-        error: 'Canvas configuration not found' 
-      });
-    }
-
-    // Fetch module items from Canvas API
-    const response = await fetch(`https://${canvasBaseUrl}/api/v1/courses/${courseId}/modules/${moduleId}/items`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${canvasApiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Canvas API error: ${response.status} ${response.statusText}`);
-    }
-
-    const items = await response.json();
-    
-    // Format items for the frontend
-    const formattedItems = items.map(item => ({
-      id: item.id,
-      title: item.title,
-      type: item.type,
-      content_id: item.content_id,
-      html_url: item.html_url,
-      url: item.url,
-      page_url: item.page_url,
-      external_url: item.external_url,
-      position: item.position,
-      indent: item.indent,
-      completion_requirement: item.completion_requirement,
-      published: item.published,
-    }));
-
-    res.json(formattedItems);
+    const items = await req.canvas.listModuleItems(courseId, moduleId);
+    res.json(items.map(formatModuleItem));
   } catch (error) {
     logger.error('Error fetching Canvas module items:', error);
-    res.status(500).json({ 
-      error: 'Failed to fetch module items from Canvas LMS' 
+    res.status(500).json({
+      error: 'Failed to fetch module items from Canvas LMS',
     });
   }
 });
 
-router.get('/files/:fileId', async (req, res) => {
+/**
+ * GET /canvas/courses/:courseId/items/search?q=
+ * Finds module items by title across every module of a course, using Canvas' module search.
+ */
+router.get('/courses/:courseId/items/search', loadCanvasAuth, async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  /** Canvas rejects search terms shorter than two characters */
+  if (query.length < 2) {
+    return res.status(400).json({ error: 'The search query must be at least 2 characters.' });
+  }
+
   try {
-    const canvasApiKey = process.env.CANVAS_API_KEY;
-    const canvasBaseUrl = process.env.CANVAS_BASE_URL;
-    const { fileId } = req.params;
+    const { courseId } = req.params;
+    const modules = await req.canvas.listModules(courseId, {
+      include: ['items'],
+      search_term: query,
+    });
 
-    if (!canvasApiKey || !canvasBaseUrl) {
-      return res.status(500).json({ 
-        error: 'Canvas configuration not found' 
-      });
+    const lowerQuery = query.toLowerCase();
+    const items = [];
+    for (const module of modules) {
+      /** Matching modules without inline items are skipped; only item titles are searched */
+      for (const item of module.items ?? []) {
+        if (item.title.toLowerCase().includes(lowerQuery)) {
+          items.push({ ...formatModuleItem(item), module_name: module.name });
+        }
+      }
     }
 
-    // Fetch file metadata from Canvas API
-    const response = await fetch(`https://${canvasBaseUrl}/api/v1/files/${fileId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${canvasApiKey}`,
-        'Content-Type': 'application/json',
-      },
+    res.json(items);
+  } catch (error) {
+    logger.error('Error searching Canvas module items:', error);
+    res.status(500).json({
+      error: 'Failed to search course content in Canvas LMS',
     });
+  }
+});
 
-    if (!response.ok) {
-      throw new Error(`Canvas API error: ${response.status} ${response.statusText}`);
-    }
+router.get('/files/:fileId', loadCanvasAuth, async (req, res) => {
+  try {
+    const fileData = await req.canvas.getFile(req.params.fileId);
 
-    const fileData = await response.json();
-    
     // Return file metadata including download URL
     res.json({
       id: fileData.id,
@@ -190,117 +360,444 @@ router.get('/files/:fileId', async (req, res) => {
     });
   } catch (error) {
     logger.error('Error fetching Canvas file:', error);
-    res.status(500).json({ 
-      error: 'Failed to fetch file from Canvas LMS' 
+    res.status(500).json({
+      error: 'Failed to fetch file from Canvas LMS',
     });
   }
 });
 
-const { requireJwtAuth } = require('~/server/middleware');
-
-router.post('/files/:fileId/download-and-upload', requireJwtAuth, async (req, res) => {
-  try {
-    const canvasApiKey = process.env.CANVAS_API_KEY;
-    const canvasBaseUrl = process.env.CANVAS_BASE_URL;
-    const { fileId } = req.params;
+/**
+ * Reuses a previous import of the same Canvas content instead of downloading it again.
+ * When targeting an agent, the existing file is added to the agent's tool resource.
+ *
+ * @param {ServerRequest} req
+ * @param {ServerResponse} res
+ * @param {import('librechat-data-provider').TCanvasFileMetadata} canvas
+ * @returns {Promise<boolean>} Whether a previous import was found and returned.
+ */
+async function reuseCanvasImport(req, res, canvas) {
+  const [existing] = await getFiles({
+    user: req.user.id,
+    embedded: true,
+    'metadata.canvas.content_type': canvas.content_type,
+    'metadata.canvas.content_id': canvas.content_id,
+  });
+  if (!existing) {
+    return false;
+  }
 
-    if (!canvasApiKey || !canvasBaseUrl) {
-      return res.status(500).json({ 
-        error: 'Canvas configuration not found' 
-      });
+  const { agent_id, message_file } = req.body;
+  const tool_resource = req.body.tool_resource || EToolResources.file_search;
+  if (agent_id && !message_file) {
+    const agent = await getAgent({ id: agent_id });
+    if (!agent) {
+      throw new Error('Agent not found for adding resource file');
     }
-
-    // Get Canvas file metadata
-    const fileResponse = await fetch(`https://${canvasBaseUrl}/api/v1/files/${fileId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${canvasApiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!fileResponse.ok) {
-      throw new Error(`Canvas API error: ${fileResponse.status} ${fileResponse.statusText}`);
+    const fileIds = agent.tool_resources?.[tool_resource]?.file_ids ?? [];
+    if (!fileIds.includes(existing.file_id)) {
+      await addAgentResourceFile({ req, agent_id, tool_resource, file_id: existing.file_id });
     }
+  }
 
-    const fileData = await fileResponse.json();
+  res.json({
+    ...existing,
+    deduplicated: true,
+    originalFile: {
+      id: canvas.content_id,
+      type: canvas.content_type,
+      filename: existing.filename,
+      display_name: existing.filename,
+      content_type: existing.type,
+      size: existing.bytes,
+    },
+    message: `File "${existing.filename}" was already imported from Canvas LMS.`,
+  });
+  return true;
+}
+
+/**
+ * Requires the user to be able to edit the agent that imported content is added to:
+ * its author, an admin, or anyone for a collaborative agent.
+ * Responds with 404 when the agent does not exist and 403 when it cannot be edited.
+ *
+ * Body: { agent_id?, message_file? }
+ */
+async function checkAgentEditAccess(req, res, next) {
+  const { agent_id, message_file } = req.body;
+  if (!agent_id || message_file) {
+    return next();
+  }
 
-    // Download file content from Canvas
-    const downloadResponse = await fetch(fileData.url);
-    if (!downloadResponse.ok) {
-      throw new Error(`File download error: ${downloadResponse.status} ${downloadResponse.statusText}`);
+  try {
+    const agent = await getAgent({ id: agent_id });
+    if (!agent) {
+      return res.status(404).json({ error: 'Agent not found' });
     }
-
-    const fileBuffer = Buffer.from(await downloadResponse.arrayBuffer());
-
-    // Use LibreChat's internal upload processing
-    const { processFileUpload } = require('~/server/services/Files/process');
-    const path = require('path');
-    const fs = require('fs');
-    
-    // Create temporary file
-    const tempDir = path.join(req.app.locals.paths.uploads, 'temp', req.user.id);
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
+    const isAuthor = agent.author.toString() === req.user.id;
+    if (!agent.isCollaborative && !isAuthor && req.user.role !== SystemRoles.ADMIN) {
+      return res
+        .status(403)
+        .json({ error: 'You do not have permission to add files to this agent' });
     }
-    
-    const tempFilePath = path.join(tempDir, fileData.filename);
-    fs.writeFileSync(tempFilePath, fileBuffer);
-
-    // Mock req.file object for multer compatibility
-    req.file = {
-      path: tempFilePath,
-      filename: fileData.filename,
-      originalname: fileData.display_name || fileData.filename,
-      mimetype: fileData['content-type'],
-      size: fileData.size,
-    };
-
-    const crypto = require('crypto');
-    req.file_id = crypto.randomUUID();
-
-    const metadata = {
-      endpoint: req.body.endpoint || 'openAI',
-      tool_resource: req.body.tool_resource || 'file_search',
-      file_id: req.file_id,
-      temp_file_id: req.file_id,
-    };
+    next();
+  } catch (error) {
+    logger.error('[Canvas] Error checking agent access:', error);
+    res.status(500).json({ error: 'Failed to check agent access' });
+  }
+}
+
+/**
+ * Writes content fetched from Canvas to a temporary file and processes it through
+ * LibreChat's regular upload flow, as a chat attachment or an agent's tool resource.
+ * The Canvas origin is recorded in the file's `metadata.canvas`.
+ *
+ * Body: { endpoint?, tool_resource?, agent_id?, message_file? }
+ */
+async function uploadCanvasContent(req, res, { buffer, filename, mimetype, originalFile, canvas }) {
+  const tempDir = path.join(req.app.locals.paths.uploads, 'temp', req.user.id);
+  if (!fs.existsSync(tempDir)) {
+    fs.mkdirSync(tempDir, { recursive: true });
+  }
 
-    // Store original file info for response
-    const originalFileInfo = {
-      id: fileData.id,
-      filename: fileData.filename,
-      display_name: fileData.display_name,
-    };
-
-    // Override res.json to add original file info
-    const originalJson = res.json.bind(res);
-    res.json = function(data) {
-      const enhancedData = {
-        ...data,
-        originalFile: originalFileInfo,
-        message: `File "${fileData.display_name}" uploaded successfully to file search!`,
-      };
-      return originalJson(enhancedData);
-    };
+  req.file_id = crypto.randomUUID();
+  const tempFilePath = path.join(tempDir, `${req.file_id}-${filename}`);
+  fs.writeFileSync(tempFilePath, buffer);
+
+  // Mock req.file object for multer compatibility
+  req.file = {
+    path: tempFilePath,
+    filename,
+    originalname: originalFile.display_name || filename,
+    mimetype,
+    size: buffer.length,
+  };
+
+  const { endpoint, tool_resource, agent_id, message_file } = req.body;
+  const metadata = {
+    endpoint: endpoint || EModelEndpoint.openAI,
+    tool_resource: tool_resource || EToolResources.file_search,
+    agent_id,
+    message_file,
+    file_id: req.file_id,
+    temp_file_id: req.file_id,
+  };
+
+  // Hold the upload result until the Canvas origin is recorded
+  const originalJson = res.json.bind(res);
+  let result;
+  res.json = function (data) {
+    result = data;
+    return res;
+  };
 
+  try {
     // Process upload through LibreChat's system
-    await processFileUpload({ req, res, metadata });
-
+    if (isAgentsEndpoint(metadata.endpoint)) {
+      await processAgentFileUpload({ req, res, metadata });
+    } else {
+      await processFileUpload({ req, res, metadata });
+    }
+  } finally {
+    res.json = originalJson;
     // Clean up temp file
     try {
       fs.unlinkSync(tempFilePath);
     } catch (cleanupError) {
       logger.warn('Failed to clean up temp file:', cleanupError);
     }
+  }
+
+  const file = result?.file_id
+    ? await updateFile({
+        file_id: result.file_id,
+        'metadata.canvas': { ...canvas, synced_at: new Date() },
+      })
+    : null;
+  res.json({
+    ...result,
+    ...(file ? { metadata: file.metadata } : {}),
+    originalFile,
+    message: `File "${originalFile.display_name}" uploaded successfully to file search!`,
+  });
+}
+
+router.post(
+  '/files/:fileId/download-and-upload',
+  loadCanvasAuth,
+  checkAgentEditAccess,
+  async (req, res) => {
+    try {
+      const canvas = {
+        course_id: req.body.course_id != null ? Number(req.body.course_id) : undefined,
+        content_type: 'File',
+        content_id: String(req.params.fileId),
+      };
+      if (await reuseCanvasImport(req, res, canvas)) {
+        return;
+      }
+
+      // Get Canvas file metadata and download its content
+      const fileData = await req.canvas.getFile(req.params.fileId);
+      const fileBuffer = await req.canvas.downloadFile(fileData);
+
+      await uploadCanvasContent(req, res, {
+        canvas: { ...canvas, updated_at: fileData.updated_at },
+        buffer: fileBuffer,
+        filename: fileData.filename,
+        mimetype: fileData['content-type'],
+        originalFile: {
+          id: fileData.id,
+          filename: fileData.filename,
+          display_name: fileData.display_name,
+          content_type: fileData['content-type'],
+          size: fileData.size,
+        },
+      });
+    } catch (error) {
+      logger.error('Error uploading Canvas file to LibreChat:', error);
+      res.status(500).json({
+        error: 'Failed to upload file to LibreChat',
+        details: error.message,
+      });
+    }
+  },
+);
+
+/**
+ * POST /canvas/courses/:courseId/content/import
+ * Converts a Canvas page, assignment (description and rubric) or discussion thread
+ * to markdown and uploads it as a text file.
+ *
+ * Body: { type: 'Page' | 'Assignment' | 'Discussion', id, endpoint?, tool_resource?, agent_id?, message_file? }
+ */
+router.post(
+  '/courses/:courseId/content/import',
+  loadCanvasAuth,
+  checkAgentEditAccess,
+  async (req, res) => {
+    const { type, id } = req.body ?? {};
+    if (!CANVAS_CONTENT_TYPES.includes(type) || id == null || id === '') {
+      return res.status(400).json({ error: 'A supported content type and ID are required.' });
+    }
+
+    try {
+      const canvas = {
+        course_id: Number(req.params.courseId),
+        content_type: type,
+        content_id: String(id),
+      };
+      if (await reuseCanvasImport(req, res, canvas)) {
+        return;
+      }
+
+      const document = await getCanvasContentDocument(req.canvas, {
+        courseId: req.params.courseId,
+        type,
+        id,
+      });
+      const buffer = Buffer.from(document.text, 'utf8');
+
+      await uploadCanvasContent(req, res, {
+        canvas: { ...canvas, updated_at: document.updated_at },
+        buffer,
+        filename: document.filename,
+        mimetype: 'text/markdown',
+        originalFile: {
+          id,
+          type,
+          filename: document.filename,
+          display_name: document.filename,
+          title: document.title,
+          html_url: document.html_url,
+          content_type: 'text/markdown',
+          size: buffer.length,
+        },
+      });
+    } catch (error) {
+      logger.error('Error importing Canvas content to LibreChat:', error);
+      res.status(500).json({
+        error: 'Failed to import content from Canvas LMS',
+        details: error.message,
+      });
+    }
+  },
+);
+
+/**
+ * POST /canvas/courses/:courseId/publish
+ * Publishes LibreChat output to a course as a page, a file or an announcement.
+ * Requires the Canvas permission, and Canvas itself only allows it for the course's instructors.
+ *
+ * @param {import('librechat-data-provider').TCanvasPublishRequest} req.body
+ */
+router.post('/courses/:courseId/publish', checkCanvasPublish, loadCanvasAuth, async (req, res) => {
+  const { type, title, content } = req.body ?? {};
+  if (!CANVAS_PUBLISH_TYPES.includes(type) || !title?.trim() || typeof content !== 'string') {
+    return res
+      .status(400)
+      .json({ error: 'A supported content type, title and content are required.' });
+  }
+
+  try {
+    const result = await publishCanvasContent(req.canvas, req.params.courseId, {
+      ...req.body,
+      title: title.trim(),
+      module_id: req.body.module_id != null ? Number(req.body.module_id) : undefined,
+      published: req.body.published === true,
+    });
+    res.status(201).json(result);
+  } catch (error) {
+    logger.error('Error publishing content to Canvas:', error);
+    const status = error?.response?.status;
+    /** Canvas refuses writes from users who do not teach the course */
+    if (status === 401 || status === 403) {
+      return res.status(403).json({
+        error: 'Canvas did not allow publishing to this course',
+      });
+    }
+    res.status(500).json({
+      error: 'Failed to publish content to Canvas LMS',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * POST /canvas/quizzes/qti
+ * Exports a quiz as a QTI 1.2 zip, which instructors can import into any Canvas course.
+ *
+ * @param {{ quiz: import('librechat-data-provider').TQuiz }} req.body
+ */
+router.post('/quizzes/qti', (req, res) => {
+  const parsed = quizSchema.safeParse(req.body?.quiz);
+  if (!parsed.success || !isQuizComplete(parsed.data)) {
+    return res
+      .status(400)
+      .json({ error: 'A quiz with a title and complete, gradeable questions is required.' });
+  }
+
+  try {
+    const zip = createQuizQtiZip(parsed.data);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${getQuizQtiFilename(parsed.data)}"`,
+    );
+    res.send(zip);
+  } catch (error) {
+    logger.error('Error exporting quiz to QTI:', error);
+    res.status(500).json({ error: 'Failed to export quiz' });
+  }
+});
+
+/**
+ * POST /canvas/courses/:courseId/quizzes
+ * Creates a quiz with its questions in a course through the Canvas Quizzes API.
+ *
+ * @param {import('librechat-data-provider').TCanvasCreateQuizRequest} req.body
+ */
+router.post('/courses/:courseId/quizzes', checkCanvasPublish, loadCanvasAuth, async (req, res) => {
+  const parsed = quizSchema.safeParse(req.body?.quiz);
+  if (!parsed.success || !isQuizComplete(parsed.data)) {
+    return res
+      .status(400)
+      .json({ error: 'A quiz with a title and complete, gradeable questions is required.' });
+  }
 
+  try {
+    const result = await createCanvasQuiz(req.canvas, req.params.courseId, parsed.data, {
+      published: req.body.published === true,
+    });
+    res.status(201).json(result);
   } catch (error) {
-    logger.error('Error uploading Canvas file to LibreChat:', error);
-    res.status(500).json({ 
-      error: 'Failed to upload file to LibreChat',
+    logger.error('Error creating Canvas quiz:', error);
+    const status = error?.response?.status;
+    if (status === 401 || status === 403) {
+      return res.status(403).json({
+        error: 'Canvas did not allow creating quizzes in this course',
+      });
+    }
+    res.status(500).json({
+      error: 'Failed to create quiz in Canvas LMS',
       details: error.message,
     });
   }
 });
 
-module.exports = router;
\ No newline at end of file
+/**
+ * GET /canvas/courses/:courseId/importable
+ * Lists every file, page, assignment and discussion of a course that can be imported,
+ * for bulk course imports.
+ */
+router.get('/courses/:courseId/importable', loadCanvasAuth, async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const [files, pages, assignments, discussions] = await Promise.all([
+      req.canvas.listFiles(courseId),
+      req.canvas.listPages(courseId),
+      req.canvas.listAssignments(courseId),
+      req.canvas.listDiscussionTopics(courseId),
+    ]);
+
+    /** @type {import('librechat-data-provider').TCanvasImportableItem[]} */
+    const items = [
+      ...files
+        .filter((file) => !file.hidden && !file.locked)
+        .map((file) => ({ type: 'File', id: file.id, title: file.display_name })),
+      ...pages
+        .filter((page) => page.published !== false)
+        .map((page) => ({ type: 'Page', id: page.url, title: page.title })),
+      /** Graded discussions are also assignments; they are listed once, with their replies */
+      ...assignments
+        .filter(
+          (assignment) =>
+            assignment.published !== false &&
+            !assignment.submission_types?.includes('discussion_topic'),
+        )
+        .map((assignment) => ({ type: 'Assignment', id: assignment.id, title: assignment.name })),
+      ...discussions
+        .filter((topic) => topic.published !== false)
+        .map((topic) => ({ type: 'Discussion', id: topic.id, title: topic.title })),
+    ];
+
+    res.json(items);
+  } catch (error) {
+    logger.error('Error listing importable Canvas content:', error);
+    res.status(500).json({
+      error: 'Failed to list course content from Canvas LMS',
+    });
+  }
+});
+
+/**
+ * GET /canvas/sync
+ * Returns when the user's imported Canvas files were last synced.
+ */
+router.get('/sync', async (req, res) => {
+  try {
+    res.json(await getCanvasSyncStatus(req.user.id));
+  } catch (error) {
+    logger.error('Error getting Canvas sync status:', error);
+    res.status(500).json({ error: 'Failed to get Canvas sync status' });
+  }
+});
+
+/**
+ * POST /canvas/sync
+ * Re-downloads imported files that changed in Canvas and removes files deleted from Canvas.
+ */
+router.post('/sync', loadCanvasAuth, async (req, res) => {
+  try {
+    const result = await syncCanvasFiles({
+      app: req.app,
+      userId: req.user.id,
+      client: req.canvas,
+    });
+    res.json(result);
+  } catch (error) {
+    logger.error('Error syncing Canvas files:', error);
+    res.status(500).json({ error: 'Failed to sync files with Canvas LMS' });
+  }
+});
+
+module.exports = router;
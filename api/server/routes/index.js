@@ -26,6 +26,7 @@ const edit = require('./edit');
 const keys = require('./keys');
 const user = require('./user');
 const mcp = require('./mcp');
+const mcpServer = require('./mcpServer');
 const canvas = require('./canvas');
 
 module.exports = {
@@ -57,5 +58,6 @@ module.exports = {
   categories,
   staticRoute,
   mcp,
+  mcpServer,
   canvas,
 };
@@ -1,13 +1,52 @@
 const { Router } = require('express');
-const { MCPOAuthHandler } = require('@librechat/api');
+const {
+  MCPOAuthHandler,
+  isMCPRequestError,
+  parseUserMCPServer,
+  generateCheckAccess,
+  parseElicitationContent,
+  validateUserMCPServerHosts,
+  encryptUserMCPServerOptions,
+} = require('@librechat/api');
 const { logger } = require('@librechat/data-schemas');
-const { CacheKeys } = require('librechat-data-provider');
-const { requireJwtAuth } = require('~/server/middleware');
-const { getFlowStateManager } = require('~/config');
+const { CacheKeys, Permissions, PermissionTypes } = require('librechat-data-provider');
+const {
+  syncUserMCPServers,
+  loadUserMCPServers,
+  formatUserMCPServer,
+  connectUserMCPServer,
+} = require('~/server/services/UserMCPServers');
+const {
+  findToken,
+  createToken,
+  updateToken,
+  findMCPServer,
+  createMCPServer,
+  updateMCPServer,
+  deleteMCPServer,
+  findMCPServersByUser,
+} = require('~/models');
+const { getUserMCPRequestParams } = require('~/server/services/MCP');
+const { getCustomConfig } = require('~/server/services/Config');
+const { getFlowStateManager, getMCPManager } = require('~/config');
+const { requireJwtAuth, checkAdmin } = require('~/server/middleware');
+const { getRoleByName } = require('~/models/Role');
 const { getLogStores } = require('~/cache');
 
 const router = Router();
 
+const checkMCPServersUse = generateCheckAccess({
+  permissionType: PermissionTypes.MCP_SERVERS,
+  permissions: [Permissions.USE],
+  getRoleByName,
+});
+
+const checkMCPServersCreate = generateCheckAccess({
+  permissionType: PermissionTypes.MCP_SERVERS,
+  permissions: [Permissions.USE, Permissions.CREATE],
+  getRoleByName,
+});
+
 /**
  * Initiate OAuth flow
  * This endpoint is called when the user clicks the auth link in the UI
@@ -46,6 +85,7 @@ router.get('/:serverName/oauth/initiate', requireJwtAuth, async (req, res) => {
       serverUrl,
       userId,
       oauthConfig,
+      !getMCPManager().getServerConfig(serverName),
     );
 
     logger.debug('[MCP OAuth] OAuth flow initiated', { oauthFlowId, authorizationUrl });
@@ -202,4 +242,417 @@ router.get('/oauth/status/:flowId', async (req, res) => {
   }
 });
 
+/**
+ * Ensures the MCP server in the route exists, either configured for the app or registered by the user,
+ * so requests cannot create connections for unknown servers
+ */
+async function checkMCPServer(req, res, next) {
+  const { serverName } = req.params;
+  const customConfig = await getCustomConfig();
+  if (customConfig?.mcpServers?.[serverName]) {
+    return next();
+  }
+  await loadUserMCPServers(req.user.id);
+  if (!getMCPManager(req.user.id).getServerConfig(serverName, req.user.id)) {
+    return res.status(404).json({ error: 'MCP server not found' });
+  }
+  next();
+}
+
+/**
+ * Sends the error of a failed resource or prompt request: invalid requests
+ * (e.g. an unsupported capability) are client errors, anything else is logged as a server error
+ */
+function sendMCPRequestError(res, error, message) {
+  if (isMCPRequestError(error)) {
+    return res.status(400).json({ error: error.message });
+  }
+  logger.error(`[MCP] ${message}`, error);
+  res.status(500).json({ error: message });
+}
+
+/**
+ * List all app-level and user connections with their diagnostics, for the health dashboard
+ * @route GET /connections
+ * @returns {TMCPConnectionDiagnostics[]}
+ */
+router.get('/connections', requireJwtAuth, checkAdmin, async (req, res) => {
+  try {
+    res.json(getMCPManager().getConnectionDiagnostics());
+  } catch (error) {
+    logger.error('[MCP] Failed to get connection diagnostics', error);
+    res.status(500).json({ error: 'Failed to get connections' });
+  }
+});
+
+/**
+ * Reconnect or disconnect an app-level connection, or a user's connection if `userId` is set,
+ * or re-run OAuth for an app-level server: responds with the authorization URL, and the server
+ * reconnects once it is authorized.
+ * @route POST /connections/:serverName/:action
+ * @param {TMCPConnectionAction} req.params.action
+ * @returns {TMCPConnectionActionResponse}
+ */
+router.post('/connections/:serverName/:action', requireJwtAuth, checkAdmin, async (req, res) => {
+  const { serverName, action } = req.params;
+  const userId = typeof req.body?.userId === 'string' ? req.body.userId : undefined;
+  const mcpManager = getMCPManager();
+  const flowManager = getFlowStateManager(getLogStores(CacheKeys.FLOWS));
+  try {
+    if (action === 'reconnect') {
+      await mcpManager.reconnectServer({ serverName, userId, flowManager });
+      return res.json({});
+    }
+    if (action === 'disconnect') {
+      await mcpManager.disconnectConnection(serverName, userId);
+      return res.json({});
+    }
+    if (action !== 'oauth') {
+      return res.status(400).json({ error: `Unknown action: ${action}` });
+    }
+    if (userId) {
+      return res.status(400).json({ error: 'Users authorize their own connections' });
+    }
+
+    /** @type {(authURL: string) => void} */
+    let resolveAuthURL;
+    const authURLPromise = new Promise((resolve) => {
+      resolveAuthURL = resolve;
+    });
+    const reauthorization = mcpManager.reauthorizeServer({
+      serverName,
+      flowManager,
+      tokenMethods: { findToken, createToken, updateToken },
+      oauthStart: async (authURL) => resolveAuthURL(authURL),
+    });
+    const result = await Promise.race([
+      reauthorization.then(() => ({})),
+      authURLPromise.then((authURL) => ({ authURL })),
+    ]);
+    if (result.authURL) {
+      reauthorization.catch((error) => {
+        logger.error(`[MCP][${serverName}] Failed to reconnect after OAuth`, error);
+      });
+    }
+    res.json(result);
+  } catch (error) {
+    sendMCPRequestError(res, error, `Failed to ${action} server`);
+  }
+});
+
+/**
+ * List the MCP servers the user registered
+ * @route GET /servers
+ * @returns {TUserMCPServer[]}
+ */
+router.get('/servers', requireJwtAuth, checkMCPServersUse, async (req, res) => {
+  try {
+    const servers = await findMCPServersByUser(req.user.id);
+    res.json(servers.map(formatUserMCPServer));
+  } catch (error) {
+    logger.error('[MCP] Failed to list user servers', error);
+    res.status(500).json({ error: 'Failed to list servers' });
+  }
+});
+
+/**
+ * Register a remote MCP server for the user
+ * @route POST /servers
+ * @param {TUserMCPServerRequest} req.body
+ * @returns {TUserMCPServer}
+ */
+router.post('/servers', requireJwtAuth, checkMCPServersCreate, async (req, res) => {
+  const customConfig = await getCustomConfig();
+  const result = parseUserMCPServer(req.body ?? {}, Object.keys(customConfig?.mcpServers ?? {}));
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  const userId = req.user.id;
+  const { serverName, options } = result;
+  const hostError = await validateUserMCPServerHosts(options);
+  if (hostError) {
+    return res.status(400).json({ error: hostError });
+  }
+  try {
+    if (await findMCPServer({ userId, serverName })) {
+      return res.status(409).json({ error: `MCP server "${serverName}" already exists` });
+    }
+    const server = await createMCPServer({
+      userId,
+      serverName,
+      config: await encryptUserMCPServerOptions(options),
+    });
+    await syncUserMCPServers(userId);
+    res.status(201).json(formatUserMCPServer(server));
+  } catch (error) {
+    logger.error('[MCP] Failed to create user server', error);
+    res.status(500).json({ error: 'Failed to create server' });
+  }
+});
+
+/**
+ * Update the options of a server the user registered; empty header values and
+ * client secret keep the saved ones
+ * @route PUT /servers/:serverName
+ * @param {TUserMCPServerRequest} req.body
+ * @returns {TUserMCPServer}
+ */
+router.put('/servers/:serverName', requireJwtAuth, checkMCPServersCreate, async (req, res) => {
+  const userId = req.user.id;
+  const { serverName } = req.params;
+  const customConfig = await getCustomConfig();
+  const result = parseUserMCPServer(
+    { serverName, config: req.body?.config },
+    Object.keys(customConfig?.mcpServers ?? {}),
+  );
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  const hostError = await validateUserMCPServerHosts(result.options);
+  if (hostError) {
+    return res.status(400).json({ error: hostError });
+  }
+
+  try {
+    const existing = await findMCPServer({ userId, serverName });
+    if (!existing) {
+      return res.status(404).json({ error: 'MCP server not found' });
+    }
+    const server = await updateMCPServer({
+      userId,
+      serverName,
+      config: await encryptUserMCPServerOptions(result.options, existing.config),
+    });
+    await getMCPManager(userId).disconnectUserConnection(userId, serverName);
+    await syncUserMCPServers(userId);
+    res.json(formatUserMCPServer(server));
+  } catch (error) {
+    logger.error('[MCP] Failed to update user server', error);
+    res.status(500).json({ error: 'Failed to update server' });
+  }
+});
+
+/**
+ * Delete a server the user registered
+ * @route DELETE /servers/:serverName
+ */
+router.delete('/servers/:serverName', requireJwtAuth, checkMCPServersCreate, async (req, res) => {
+  const userId = req.user.id;
+  const { serverName } = req.params;
+  try {
+    if (!(await deleteMCPServer({ userId, serverName }))) {
+      return res.status(404).json({ error: 'MCP server not found' });
+    }
+    await getMCPManager(userId).disconnectUserConnection(userId, serverName);
+    await syncUserMCPServers(userId);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('[MCP] Failed to delete user server', error);
+    res.status(500).json({ error: 'Failed to delete server' });
+  }
+});
+
+/**
+ * Connect to a server the user registered and load its tools. If the server requires OAuth,
+ * responds with the authorization URL; the tools are loaded once the user authorizes the server.
+ * @route POST /servers/:serverName/connect
+ * @returns {TUserMCPServerConnectResponse}
+ */
+router.post(
+  '/servers/:serverName/connect',
+  requireJwtAuth,
+  checkMCPServersUse,
+  async (req, res) => {
+    const userId = req.user.id;
+    const { serverName } = req.params;
+    try {
+      if (!(await findMCPServer({ userId, serverName }))) {
+        return res.status(404).json({ error: 'MCP server not found' });
+      }
+      await loadUserMCPServers(userId);
+      const params = await getUserMCPRequestParams(req, serverName);
+      res.json(await connectUserMCPServer(params));
+    } catch (error) {
+      sendMCPRequestError(res, error, 'Failed to connect to server');
+    }
+  },
+);
+
+/**
+ * List the resources of a server, with the user's subscriptions
+ * @route GET /:serverName/resources
+ * @returns {TMCPResourcesResponse}
+ */
+router.get('/:serverName/resources', requireJwtAuth, checkMCPServer, async (req, res) => {
+  try {
+    const params = await getUserMCPRequestParams(req, req.params.serverName);
+    res.json(await getMCPManager(req.user.id).listResources(params));
+  } catch (error) {
+    sendMCPRequestError(res, error, 'Failed to list resources');
+  }
+});
+
+/**
+ * Read the contents of a resource, including binary (base64 `blob`) contents
+ * @route GET /:serverName/resources/read?uri=
+ * @returns {TMCPReadResourceResponse}
+ */
+router.get('/:serverName/resources/read', requireJwtAuth, checkMCPServer, async (req, res) => {
+  const { uri } = req.query;
+  if (typeof uri !== 'string' || !uri) {
+    return res.status(400).json({ error: 'Resource URI is required' });
+  }
+  try {
+    const params = await getUserMCPRequestParams(req, req.params.serverName);
+    const contents = await getMCPManager(req.user.id).readResource({ ...params, uri });
+    res.json({ contents });
+  } catch (error) {
+    sendMCPRequestError(res, error, 'Failed to read resource');
+  }
+});
+
+/**
+ * Subscribe to, or unsubscribe from, updates of a resource
+ * @route POST /:serverName/resources/subscribe
+ * @route POST /:serverName/resources/unsubscribe
+ * @param {TMCPResourceSubscriptionRequest} req.body
+ */
+router.post(
+  '/:serverName/resources/:action(subscribe|unsubscribe)',
+  requireJwtAuth,
+  checkMCPServer,
+  async (req, res) => {
+    const { uri } = req.body ?? {};
+    if (typeof uri !== 'string' || !uri) {
+      return res.status(400).json({ error: 'Resource URI is required' });
+    }
+    try {
+      const params = await getUserMCPRequestParams(req, req.params.serverName);
+      const mcpManager = getMCPManager(req.user.id);
+      if (req.params.action === 'subscribe') {
+        await mcpManager.subscribeResource({ ...params, uri });
+      } else {
+        await mcpManager.unsubscribeResource({ ...params, uri });
+      }
+      res.json(await mcpManager.listResources(params));
+    } catch (error) {
+      sendMCPRequestError(res, error, `Failed to ${req.params.action}`);
+    }
+  },
+);
+
+/**
+ * List the prompts of the servers the user is connected to
+ * @route GET /prompts
+ * @returns {TMCPPrompt[]}
+ */
+router.get('/prompts', requireJwtAuth, async (req, res) => {
+  try {
+    res.json(await getMCPManager(req.user.id).listPrompts(req.user.id));
+  } catch (error) {
+    logger.error('[MCP Prompts] Failed to list prompts', error);
+    res.status(500).json({ error: 'Failed to list prompts' });
+  }
+});
+
+/**
+ * Get a prompt with its arguments filled in
+ * @route POST /:serverName/prompts/get
+ * @param {TMCPGetPromptRequest} req.body
+ * @returns {TMCPGetPromptResponse}
+ */
+router.post('/:serverName/prompts/get', requireJwtAuth, checkMCPServer, async (req, res) => {
+  const { name, arguments: promptArguments } = req.body ?? {};
+  if (typeof name !== 'string' || !name) {
+    return res.status(400).json({ error: 'Prompt name is required' });
+  }
+  if (
+    promptArguments != null &&
+    (typeof promptArguments !== 'object' || Array.isArray(promptArguments))
+  ) {
+    return res.status(400).json({ error: 'Prompt arguments must be an object' });
+  }
+  try {
+    const params = await getUserMCPRequestParams(req, req.params.serverName);
+    const { description, messages } = await getMCPManager(req.user.id).getPrompt({
+      ...params,
+      name,
+      promptArguments,
+    });
+    res.json({ description, messages });
+  } catch (error) {
+    sendMCPRequestError(res, error, 'Failed to get prompt');
+  }
+});
+
+/**
+ * Approve or reject a sampling request the server made during one of the user's tool calls
+ * @route POST /:serverName/sampling/:flowId
+ * @param {TMCPSamplingDecisionRequest} req.body
+ */
+router.post('/:serverName/sampling/:flowId', requireJwtAuth, async (req, res) => {
+  const { serverName, flowId } = req.params;
+  const { approved } = req.body ?? {};
+  if (typeof approved !== 'boolean') {
+    return res.status(400).json({ error: 'Approval decision is required' });
+  }
+  try {
+    const flowManager = getFlowStateManager(getLogStores(CacheKeys.FLOWS));
+    const flowState = await flowManager.getFlowState(flowId, 'mcp_sampling');
+    if (
+      flowState?.status !== 'PENDING' ||
+      flowState.metadata?.userId !== req.user.id ||
+      flowState.metadata?.serverName !== serverName
+    ) {
+      return res.status(404).json({ error: 'Sampling request not found' });
+    }
+    await flowManager.completeFlow(flowId, 'mcp_sampling', approved);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('[MCP Sampling] Failed to record decision', error);
+    res.status(500).json({ error: 'Failed to record decision' });
+  }
+});
+
+/**
+ * Respond to input the server requested during one of the user's tool calls
+ * @route POST /:serverName/elicitation/:flowId
+ * @param {TMCPElicitationResponse} req.body
+ */
+router.post('/:serverName/elicitation/:flowId', requireJwtAuth, async (req, res) => {
+  const { serverName, flowId } = req.params;
+  const { action, content } = req.body ?? {};
+  if (!['accept', 'reject', 'cancel'].includes(action)) {
+    return res.status(400).json({ error: 'Invalid elicitation action' });
+  }
+  try {
+    const flowManager = getFlowStateManager(getLogStores(CacheKeys.FLOWS));
+    const flowState = await flowManager.getFlowState(flowId, 'mcp_elicitation');
+    if (
+      flowState?.status !== 'PENDING' ||
+      flowState.metadata?.userId !== req.user.id ||
+      flowState.metadata?.serverName !== serverName
+    ) {
+      return res.status(404).json({ error: 'Elicitation request not found' });
+    }
+    if (action !== 'accept') {
+      await flowManager.completeFlow(flowId, 'mcp_elicitation', { action });
+      return res.json({ success: true });
+    }
+    const result = parseElicitationContent(flowState.metadata.requestedSchema, content);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    await flowManager.completeFlow(flowId, 'mcp_elicitation', {
+      action,
+      content: result.content,
+    });
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('[MCP Elicitation] Failed to record response', error);
+    res.status(500).json({ error: 'Failed to record response' });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,52 @@
+const express = require('express');
+const passport = require('passport');
+const { logger } = require('@librechat/data-schemas');
+const { handleMCPServerRequest } = require('@librechat/api');
+const { getMCPServerOptions } = require('~/server/services/MCPServer');
+const { isEnabled } = require('~/server/utils');
+
+const router = express.Router();
+
+/**
+ * Authenticates MCP clients by their bearer token: a LibreChat JWT or,
+ * if OpenID tokens are reused, an OpenID access token.
+ */
+const requireMCPAuth = (req, res, next) => {
+  const strategies = isEnabled(process.env.OPENID_REUSE_TOKENS) ? ['jwt', 'openidJwt'] : 'jwt';
+  return passport.authenticate(strategies, { session: false })(req, res, next);
+};
+
+/**
+ * @route POST /mcp
+ * @desc Streamable HTTP endpoint of the MCP server publishing the user's agents,
+ * prompts, conversations and files
+ * @access Private
+ */
+router.post('/', requireMCPAuth, async (req, res) => {
+  try {
+    await handleMCPServerRequest(req, res, await getMCPServerOptions(req));
+  } catch (error) {
+    logger.error('[MCP Server] Error handling request:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: { code: -32603, message: 'Internal server error' },
+        id: null,
+      });
+    }
+  }
+});
+
+/** The server is stateless, without sessions to stream to or terminate */
+const methodNotAllowed = (req, res) => {
+  res.status(405).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message: 'Method not allowed.' },
+    id: null,
+  });
+};
+
+router.get('/', methodNotAllowed);
+router.delete('/', methodNotAllowed);
+
+module.exports = router;
@@ -1,5 +1,12 @@
 const express = require('express');
-const { Tokenizer, generateCheckAccess } = require('@librechat/api');
+const {
+  Tokenizer,
+  exportMemories,
+  generateCheckAccess,
+  getMemoryEmbedding,
+  parseMemoriesImport,
+  validateMemoriesImport,
+} = require('@librechat/api');
 const { PermissionTypes, Permissions } = require('librechat-data-provider');
 const {
   getAllUserMemories,
@@ -7,12 +14,60 @@ const {
   createMemory,
   deleteMemory,
   setMemory,
+  setMemoryScope,
+  getMemoryHistory,
+  revertMemoryChange,
 } = require('~/models');
+const { getEmbeddings } = require('~/server/services/Embeddings');
 const { requireJwtAuth } = require('~/server/middleware');
 const { getRoleByName } = require('~/models/Role');
 
 const router = express.Router();
 
+/**
+ * Whether memories are retrieved by similarity to each message, in which case the token limit
+ * applies to the retrieved memories instead of all of them.
+ * @param {ServerRequest} req
+ */
+const isSemanticRetrieval = (req) => req.app.locals?.memory?.retrieval?.mode === 'semantic';
+
+/**
+ * Embeds a memory value for semantic retrieval.
+ * @param {ServerRequest} req
+ * @param {string} value
+ * @returns {Promise<{ embedding?: number[]; embeddingModel?: string }>}
+ */
+const embedMemory = (req, value) =>
+  getMemoryEmbedding(
+    isSemanticRetrieval(req) ? getEmbeddings(req.app.locals.embeddings) : undefined,
+    value,
+  );
+
+/**
+ * Reads a memory scope from a request's query or body; empty fields are global.
+ * @param {Record<string, unknown> | undefined} source
+ * @returns {import('@librechat/data-schemas').MemoryScope}
+ */
+const getScope = (source) => {
+  const field = (name) =>
+    typeof source?.[name] === 'string' && source[name].trim() ? source[name].trim() : null;
+  return {
+    agentId: field('agentId'),
+    projectId: field('projectId'),
+    conversationTag: field('conversationTag'),
+  };
+};
+
+/**
+ * Whether a memory belongs to exactly the given scope.
+ * @param {import('@librechat/data-schemas').IMemoryEntryLean} memory
+ * @param {import('@librechat/data-schemas').MemoryScope} scope
+ */
+const isInScope = (memory, scope) =>
+  (memory.agentId || null) === scope.agentId &&
+  (memory.projectId || null) === scope.projectId &&
+  (memory.conversationTag || null) === scope.conversationTag;
+
 const checkMemoryRead = generateCheckAccess({
   permissionType: PermissionTypes.MEMORIES,
   permissions: [Permissions.USE, Permissions.READ],
@@ -62,7 +117,7 @@ router.get('/', checkMemoryRead, async (req, res) => {
     const tokenLimit = memoryConfig?.tokenLimit;
 
     let usagePercentage = null;
-    if (tokenLimit && tokenLimit > 0) {
+    if (tokenLimit && tokenLimit > 0 && !isSemanticRetrieval(req)) {
       usagePercentage = Math.min(100, Math.round((totalTokens / tokenLimit) * 100));
     }
 
@@ -77,14 +132,156 @@ router.get('/', checkMemoryRead, async (req, res) => {
   }
 });
 
+/**
+ * GET /memories/history
+ * Returns the history of the authenticated user's memories, newest first.
+ * Query: { key?: string, agentId?, projectId?, conversationTag? } - the history of one memory only
+ */
+router.get('/history', checkMemoryRead, async (req, res) => {
+  try {
+    const key = typeof req.query.key === 'string' && req.query.key ? req.query.key : undefined;
+    const history = await getMemoryHistory({
+      userId: req.user.id,
+      key,
+      scope: key ? getScope(req.query) : undefined,
+    });
+    res.json({ history });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /memories/history/:historyId/revert
+ * Reverts a change of a memory of the authenticated user.
+ * Restored values are subject to the same key and token limits as new memories.
+ * Returns 200 and { reverted: true } when successful.
+ */
+router.post('/history/:historyId/revert', checkMemoryUpdate, async (req, res) => {
+  try {
+    const memoryConfig = req.app.locals?.memory;
+    const result = await revertMemoryChange({
+      userId: req.user.id,
+      historyId: req.params.historyId,
+      validKeys: memoryConfig?.validKeys,
+      tokenLimit: memoryConfig?.tokenLimit,
+      limitTotal: !isSemanticRetrieval(req),
+    });
+
+    if (!result.ok) {
+      return res.status(404).json({ error: 'Memory change not found.' });
+    }
+
+    res.json({ reverted: true });
+  } catch (error) {
+    const message = error.message ?? '';
+    if (message.includes('already exists')) {
+      return res.status(409).json({ error: 'Memory with this key already exists.' });
+    }
+    if (message.includes('can no longer be reverted')) {
+      return res.status(409).json({
+        error: 'The memory was changed or deleted since, so this change can no longer be reverted.',
+      });
+    }
+    if (message.includes('Invalid key') || message.includes('token limit')) {
+      return res.status(400).json({ error: message });
+    }
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /memories/export
+ * Downloads all memories of the authenticated user.
+ * Query: { format?: 'json' | 'markdown' } - defaults to JSON
+ */
+router.get('/export', checkMemoryRead, async (req, res) => {
+  const format = req.query.format === 'markdown' ? 'markdown' : 'json';
+
+  try {
+    const memories = await getAllUserMemories(req.user.id);
+    const content = exportMemories(memories, format);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader(
+      'Content-Type',
+      format === 'json' ? 'application/json' : 'text/markdown; charset=utf-8',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="memories-${date}.${format === 'json' ? 'json' : 'md'}"`,
+    );
+    res.send(content);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /memories/import
+ * Imports memories exported as JSON or Markdown, replacing those of the same key and scope.
+ * Memories with keys outside `validKeys` or over the token limit are skipped.
+ * Body: { format: 'json' | 'markdown', content: string }
+ * Returns 200 and { imported: number, skipped: Array<{ key, reason }> } when successful.
+ */
+router.post('/import', checkMemoryCreate, async (req, res) => {
+  const { format, content } = req.body || {};
+
+  if (format !== 'json' && format !== 'markdown') {
+    return res.status(400).json({ error: 'Format must be "json" or "markdown".' });
+  }
+
+  if (typeof content !== 'string' || content.trim() === '') {
+    return res.status(400).json({ error: 'Content is required and must be a non-empty string.' });
+  }
+
+  let entries;
+  try {
+    entries = parseMemoriesImport(content, format);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const memoryConfig = req.app.locals?.memory;
+    const { valid, skipped } = validateMemoriesImport({
+      entries,
+      memories: await getAllUserMemories(req.user.id),
+      validKeys: memoryConfig?.validKeys,
+      tokenLimit: memoryConfig?.tokenLimit,
+      limitTotal: !isSemanticRetrieval(req),
+    });
+
+    let imported = 0;
+    for (const { key, value, tokenCount, agentId, projectId, conversationTag } of valid) {
+      const result = await setMemory({
+        userId: req.user.id,
+        key,
+        value,
+        tokenCount,
+        scope: { agentId, projectId, conversationTag },
+        ...(await embedMemory(req, value)),
+      });
+      if (result.ok) {
+        imported++;
+      }
+    }
+
+    res.json({ imported, skipped });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * POST /memories
  * Creates a new memory entry for the authenticated user.
- * Body: { key: string, value: string }
+ * Body: { key: string, value: string, scope?: { agentId?, projectId?, conversationTag? } }
  * Returns 201 and { created: true, memory: <createdDoc> } when successful.
  */
 router.post('/', checkMemoryCreate, async (req, res) => {
   const { key, value } = req.body;
+  const scope = getScope(req.body.scope);
 
   if (typeof key !== 'string' || key.trim() === '') {
     return res.status(400).json({ error: 'Key is required and must be a non-empty string.' });
@@ -103,7 +300,7 @@ router.post('/', checkMemoryCreate, async (req, res) => {
     const memoryConfig = req.app.locals?.memory;
     const tokenLimit = memoryConfig?.tokenLimit;
 
-    if (tokenLimit) {
+    if (tokenLimit && !isSemanticRetrieval(req)) {
       const currentTotalTokens = memories.reduce(
         (sum, memory) => sum + (memory.tokenCount || 0),
         0,
@@ -120,6 +317,8 @@ router.post('/', checkMemoryCreate, async (req, res) => {
       key: key.trim(),
       value: value.trim(),
       tokenCount,
+      scope,
+      ...(await embedMemory(req, value.trim())),
     });
 
     if (!result.ok) {
@@ -127,7 +326,7 @@ router.post('/', checkMemoryCreate, async (req, res) => {
     }
 
     const updatedMemories = await getAllUserMemories(req.user.id);
-    const newMemory = updatedMemories.find((m) => m.key === key.trim());
+    const newMemory = updatedMemories.find((m) => m.key === key.trim() && isInScope(m, scope));
 
     res.status(201).json({ created: true, memory: newMemory });
   } catch (error) {
@@ -169,15 +368,47 @@ router.patch('/preferences', checkMemoryOptOut, async (req, res) => {
   }
 });
 
+/**
+ * PATCH /memories/:key/scope
+ * Moves a memory entry of the authenticated user to another scope.
+ * Query: { agentId?, projectId?, conversationTag? } - the current scope of the memory
+ * Body: { scope: { agentId?, projectId?, conversationTag? } }
+ * Returns 200 and { updated: true, memory: <updatedDoc> } when successful.
+ */
+router.patch('/:key/scope', checkMemoryUpdate, async (req, res) => {
+  const { key } = req.params;
+  const scope = getScope(req.query);
+  const newScope = getScope(req.body?.scope);
+
+  try {
+    const result = await setMemoryScope({ userId: req.user.id, key, scope, newScope });
+    if (!result.ok) {
+      return res.status(404).json({ error: 'Memory not found.' });
+    }
+
+    const memories = await getAllUserMemories(req.user.id);
+    const memory = memories.find((m) => m.key === key && isInScope(m, newScope));
+
+    res.json({ updated: true, memory });
+  } catch (error) {
+    if (error.message && error.message.includes('already exists')) {
+      return res.status(409).json({ error: 'Memory with this key already exists.' });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * PATCH /memories/:key
  * Updates the value of an existing memory entry for the authenticated user.
+ * Query: { agentId?, projectId?, conversationTag? } - the scope of the memory
  * Body: { key?: string, value: string }
  * Returns 200 and { updated: true, memory: <updatedDoc> } when successful.
  */
 router.patch('/:key', checkMemoryUpdate, async (req, res) => {
   const { key: urlKey } = req.params;
   const { key: bodyKey, value } = req.body || {};
+  const scope = getScope(req.query);
 
   if (typeof value !== 'string' || value.trim() === '') {
     return res.status(400).json({ error: 'Value is required and must be a non-empty string.' });
@@ -190,15 +421,17 @@ router.patch('/:key', checkMemoryUpdate, async (req, res) => {
     const tokenCount = Tokenizer.getTokenCount(value, 'o200k_base');
 
     const memories = await getAllUserMemories(req.user.id);
-    const existingMemory = memories.find((m) => m.key === urlKey);
+    const existingMemory = memories.find((m) => m.key === urlKey && isInScope(m, scope));
 
     if (!existingMemory) {
       return res.status(404).json({ error: 'Memory not found.' });
     }
 
+    const embedding = await embedMemory(req, value);
+
     // If the key is changing, we need to handle it specially
     if (newKey !== urlKey) {
-      const keyExists = memories.find((m) => m.key === newKey);
+      const keyExists = memories.find((m) => m.key === newKey && isInScope(m, scope));
       if (keyExists) {
         return res.status(409).json({ error: 'Memory with this key already exists.' });
       }
@@ -208,13 +441,15 @@ router.patch('/:key', checkMemoryUpdate, async (req, res) => {
         key: newKey,
         value,
         tokenCount,
+        scope,
+        ...embedding,
       });
 
       if (!createResult.ok) {
         return res.status(500).json({ error: 'Failed to create new memory.' });
       }
 
-      const deleteResult = await deleteMemory({ userId: req.user.id, key: urlKey });
+      const deleteResult = await deleteMemory({ userId: req.user.id, key: urlKey, scope });
       if (!deleteResult.ok) {
         return res.status(500).json({ error: 'Failed to delete old memory.' });
       }
@@ -225,6 +460,8 @@ router.patch('/:key', checkMemoryUpdate, async (req, res) => {
         key: newKey,
         value,
         tokenCount,
+        scope,
+        ...embedding,
       });
 
       if (!result.ok) {
@@ -233,7 +470,7 @@ router.patch('/:key', checkMemoryUpdate, async (req, res) => {
     }
 
     const updatedMemories = await getAllUserMemories(req.user.id);
-    const updatedMemory = updatedMemories.find((m) => m.key === newKey);
+    const updatedMemory = updatedMemories.find((m) => m.key === newKey && isInScope(m, scope));
 
     res.json({ updated: true, memory: updatedMemory });
   } catch (error) {
@@ -244,13 +481,14 @@ router.patch('/:key', checkMemoryUpdate, async (req, res) => {
 /**
  * DELETE /memories/:key
  * Deletes a memory entry for the authenticated user.
+ * Query: { agentId?, projectId?, conversationTag? } - the scope of the memory
  * Returns 200 and { deleted: true } when successful.
  */
 router.delete('/:key', checkMemoryDelete, async (req, res) => {
   const { key } = req.params;
 
   try {
-    const result = await deleteMemory({ userId: req.user.id, key });
+    const result = await deleteMemory({ userId: req.user.id, key, scope: getScope(req.query) });
 
     if (!result.ok) {
       return res.status(404).json({ error: 'Memory not found.' });
@@ -2,6 +2,8 @@ const express = require('express');
 const {
   promptPermissionsSchema,
   memoryPermissionsSchema,
+  canvasPermissionsSchema,
+  mcpServerPermissionsSchema,
   agentPermissionsSchema,
   PermissionTypes,
   roleDefaults,
@@ -158,4 +160,84 @@ router.put('/:roleName/memories', checkAdmin, async (req, res) => {
   }
 });
 
+/**
+ * PUT /api/roles/:roleName/canvas
+ * Update Canvas LMS publishing permissions for a specific role
+ */
+router.put('/:roleName/canvas', checkAdmin, async (req, res) => {
+  const { roleName: _r } = req.params;
+  // TODO: TEMP, use a better parsing for roleName
+  const roleName = _r.toUpperCase();
+  /** @type {TRole['permissions']['CANVAS']} */
+  const updates = req.body;
+
+  try {
+    const parsedUpdates = canvasPermissionsSchema.partial().parse(updates);
+
+    const role = await getRoleByName(roleName);
+    if (!role) {
+      return res.status(404).send({ message: 'Role not found' });
+    }
+
+    const currentPermissions =
+      role.permissions?.[PermissionTypes.CANVAS] || role[PermissionTypes.CANVAS] || {};
+
+    const mergedUpdates = {
+      permissions: {
+        ...role.permissions,
+        [PermissionTypes.CANVAS]: {
+          ...currentPermissions,
+          ...parsedUpdates,
+        },
+      },
+    };
+
+    const updatedRole = await updateRoleByName(roleName, mergedUpdates);
+    res.status(200).send(updatedRole);
+  } catch (error) {
+    return res.status(400).send({ message: 'Invalid Canvas permissions.', error: error.errors });
+  }
+});
+
+/**
+ * PUT /api/roles/:roleName/mcp-servers
+ * Update the permissions to register MCP servers for a specific role
+ */
+router.put('/:roleName/mcp-servers', checkAdmin, async (req, res) => {
+  const { roleName: _r } = req.params;
+  // TODO: TEMP, use a better parsing for roleName
+  const roleName = _r.toUpperCase();
+  /** @type {TRole['permissions']['MCP_SERVERS']} */
+  const updates = req.body;
+
+  try {
+    const parsedUpdates = mcpServerPermissionsSchema.partial().parse(updates);
+
+    const role = await getRoleByName(roleName);
+    if (!role) {
+      return res.status(404).send({ message: 'Role not found' });
+    }
+
+    const currentPermissions =
+      role.permissions?.[PermissionTypes.MCP_SERVERS] || role[PermissionTypes.MCP_SERVERS] || {};
+
+    const mergedUpdates = {
+      permissions: {
+        ...role.permissions,
+        [PermissionTypes.MCP_SERVERS]: {
+          ...currentPermissions,
+          ...parsedUpdates,
+        },
+      },
+    };
+
+    const updatedRole = await updateRoleByName(roleName, mergedUpdates);
+    res.status(200).send(updatedRole);
+  } catch (error) {
+    return res
+      .status(400)
+      .send({ message: 'Invalid MCP server permissions.', error: error.errors });
+  }
+});
+
 module.exports = router;
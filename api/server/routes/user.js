@@ -8,6 +8,9 @@ const {
   resendVerificationController,
   getTermsStatusController,
   acceptTermsController,
+  getDataExportController,
+  startDataExportController,
+  downloadDataExportController,
 } = require('~/server/controllers/UserController');
 
 const router = express.Router();
@@ -16,6 +19,9 @@ router.get('/', requireJwtAuth, getUserController);
 router.get('/terms', requireJwtAuth, getTermsStatusController);
 router.post('/terms/accept', requireJwtAuth, acceptTermsController);
 router.post('/plugins', requireJwtAuth, updateUserPluginsController);
+router.get('/data-export', requireJwtAuth, getDataExportController);
+router.post('/data-export', requireJwtAuth, startDataExportController);
+router.get('/data-export/download', requireJwtAuth, downloadDataExportController);
 router.delete('/delete', requireJwtAuth, canDeleteAccount, deleteUserController);
 router.post('/verify', verifyEmailController);
 router.post('/verify/resend', verifyEmailLimiter, resendVerificationController);
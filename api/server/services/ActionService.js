@@ -21,6 +21,7 @@ const {
   actionDomainSeparator,
 } = require('librechat-data-provider');
 const { findToken, updateToken, createToken } = require('~/models');
+const { requestToolApproval } = require('~/server/services/Tools/approval');
 const { getActions, deleteActions } = require('~/models/Action');
 const { deleteAssistant } = require('~/models/Assistant');
 const { getFlowStateManager } = require('~/config');
@@ -127,6 +128,7 @@ async function loadActionSets(searchParams) {
  * @param {Object} params - The parameters for loading action sets.
  * @param {string} params.userId
  * @param {ServerResponse} params.res
+ * @param {boolean} [params.headless] - Whether the run has no client to answer approvals and sign-ins.
  * @param {Action} params.action - The action set. Necessary for decrypting authentication values.
  * @param {ActionRequest} params.requestBuilder - The ActionRequest builder class to execute the API call.
  * @param {string | undefined} [params.name] - The name of the tool.
@@ -138,6 +140,7 @@ async function loadActionSets(searchParams) {
 async function createActionTool({
   userId,
   res,
+  headless,
   action,
   requestBuilder,
   zodSchema,
@@ -150,6 +153,15 @@ async function createActionTool({
     try {
       /** @type {import('librechat-data-provider').ActionMetadataRuntime} */
       const metadata = action.metadata;
+      if (metadata.requires_approval === true) {
+        toolInput = await requestToolApproval({
+          res,
+          userId,
+          config,
+          headless,
+          toolArguments: toolInput ?? {},
+        });
+      }
       const executor = requestBuilder.createExecutor();
       const preparedExecutor = executor.setParams(toolInput ?? {});
 
@@ -160,6 +172,9 @@ async function createActionTool({
             const identifier = `${userId}:${action.action_id}`;
             const requestLogin = async () => {
               const { args: _args, stepId, ...toolCall } = config.toolCall ?? {};
+              if (headless) {
+                throw new Error('Signing in is not available in runs without the user');
+              }
               if (!stepId) {
                 throw new Error('Tool call is missing stepId');
               }
@@ -0,0 +1,227 @@
+const { logger } = require('@librechat/data-schemas');
+const { Time, SystemRoles, Permissions, PermissionTypes } = require('librechat-data-provider');
+const { checkAccess, getNextRunDate, getRetryDate } = require('@librechat/api');
+const {
+  getConvo,
+  getUserById,
+  updateAgentSchedule,
+  claimDueAgentSchedule,
+  createAgentScheduleRun,
+  finishAgentScheduleRun,
+} = require('~/models');
+const { runAgent, checkRun } = require('~/server/services/Endpoints/agents/run');
+const { checkBan } = require('~/server/middleware');
+const { getRoleByName } = require('~/models/Role');
+const { Balance } = require('~/db/models');
+
+/** How often due schedules are looked for */
+const POLL_INTERVAL = Time.ONE_MINUTE;
+
+/** How long a run may take before another instance can claim its schedule again */
+const RUN_LOCK_DURATION = Time.THIRTY_MINUTES;
+
+/** Runs are stopped after this long, leaving time to record them before their lock expires */
+const RUN_TIMEOUT = RUN_LOCK_DURATION - Time.FIVE_MINUTES;
+
+/** How many schedules each instance runs at once, so that a long run does not hold up the others */
+const MAX_CONCURRENT_RUNS = 5;
+
+/** Number of schedules being run, or claimed to be run, by this instance */
+let activeRuns = 0;
+
+/**
+ * Creates a request-like object of the owner of a schedule, as authenticated requests have.
+ * @param {Express.Application} app
+ * @param {string} userId
+ * @returns {Promise<ServerRequest | null>} `null` when the user no longer exists.
+ */
+async function createScheduleRequest(app, userId) {
+  const user = await getUserById(userId, '-password -__v -totpSecret');
+  if (!user) {
+    return null;
+  }
+  user.id = user._id.toString();
+  user.role = user.role ?? SystemRoles.USER;
+  return { user, app, body: {}, headers: {}, query: {}, params: {} };
+}
+
+/**
+ * Whether the user has credits left, when balances are enabled. Users whose balance is
+ * refilled automatically are left to the balance check of the run itself.
+ * @param {ServerRequest} req
+ * @returns {Promise<boolean>}
+ */
+async function hasBalance(req) {
+  if (!req.app.locals?.balance?.enabled) {
+    return true;
+  }
+  const record = await Balance.findOne({ user: req.user.id }).lean();
+  return (record?.tokenCredits ?? 0) > 0 || !!record?.autoRefillEnabled;
+}
+
+/**
+ * Why the owner of a schedule may not run agents, as in chat: without the permission to use agents,
+ * or banned.
+ * @param {ServerRequest} req
+ * @returns {Promise<string | null>} `null` if the user may run agents.
+ */
+async function getRunDeniedReason(req) {
+  const canUseAgents = await checkAccess({
+    user: req.user,
+    permissionType: PermissionTypes.AGENTS,
+    permissions: [Permissions.USE],
+    getRoleByName,
+  });
+  if (!canUseAgents) {
+    return 'The user is not allowed to use agents';
+  }
+  try {
+    await checkRun([checkBan], req);
+  } catch (error) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Runs a schedule the scheduler claimed, continuing its conversation, and schedules the next run:
+ * a retry after a failure, until `maxRetries`, or the next run of its cron expression or interval.
+ * Runs taking longer than `RUN_TIMEOUT` are stopped and fail.
+ *
+ * @param {Express.Application} app
+ * @param {import('@librechat/data-schemas').IAgentScheduleLean} schedule
+ */
+async function runSchedule(app, schedule) {
+  const userId = schedule.userId.toString();
+  const scheduleId = schedule._id.toString();
+  const run = await createAgentScheduleRun({
+    scheduleId,
+    userId,
+    agent_id: schedule.agent_id,
+    attempt: schedule.retryCount + 1,
+  });
+  const now = new Date();
+  const nextRunAt = getNextRunDate(schedule, now);
+
+  /** @type {'success' | 'failed' | 'skipped'} */
+  let status = 'success';
+  /** @type {{ conversationId?: string, messageId?: string, error?: string }} */
+  let result = {};
+  const abortController = new AbortController();
+  const timeout = setTimeout(() => abortController.abort(), RUN_TIMEOUT);
+  const timeoutError = `The run was stopped after ${RUN_TIMEOUT / Time.ONE_MINUTE} minutes`;
+  try {
+    const req = await createScheduleRequest(app, userId);
+    if (!req) {
+      throw new Error('User not found');
+    }
+
+    const deniedReason = await getRunDeniedReason(req);
+    if (deniedReason) {
+      status = 'skipped';
+      result = { error: deniedReason };
+    } else if (!(await hasBalance(req))) {
+      status = 'skipped';
+      result = { error: 'Insufficient balance' };
+    } else {
+      let conversationId = schedule.conversationId ?? undefined;
+      if (conversationId && !(await getConvo(userId, conversationId))) {
+        conversationId = undefined;
+      }
+      const response = await runAgent({
+        req,
+        agent_id: schedule.agent_id,
+        text: schedule.prompt,
+        conversationId,
+        title: schedule.name,
+        signal: abortController.signal,
+      });
+      result = { conversationId: response.conversationId, messageId: response.messageId };
+      if (abortController.signal.aborted) {
+        status = 'failed';
+        result.error = timeoutError;
+      }
+    }
+  } catch (error) {
+    logger.error(`[AgentSchedule] Run of schedule ${scheduleId} failed`, error);
+    status = 'failed';
+    result = {
+      error: abortController.signal.aborted ? timeoutError : (error?.message ?? 'Unknown error'),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const retry = status === 'failed' && schedule.retryCount < schedule.maxRetries;
+  await finishAgentScheduleRun({ runId: run._id, status, ...result });
+  await updateAgentSchedule({
+    userId,
+    scheduleId,
+    update: {
+      ...(result.conversationId ? { conversationId: result.conversationId } : {}),
+      lastRunAt: now,
+      lastStatus: status,
+      retryCount: retry ? schedule.retryCount + 1 : 0,
+      nextRunAt: retry ? getRetryDate(schedule.retryCount, now) : nextRunAt,
+      lockedUntil: null,
+    },
+    incrementUnreadRuns: true,
+  });
+}
+
+/**
+ * Runs the schedules that are due, up to `MAX_CONCURRENT_RUNS` at a time, until none is left:
+ * as a run ends, the next due schedule is claimed in its place.
+ * @param {Express.Application} app
+ * @returns {Promise<void>} Resolves once the runs it started, and those claimed after them, ended.
+ */
+async function processDueSchedules(app) {
+  const runs = [];
+  while (activeRuns < MAX_CONCURRENT_RUNS) {
+    /** Counted before claiming, so that overlapping polls do not claim more than the limit */
+    activeRuns++;
+    let schedule;
+    try {
+      schedule = await claimDueAgentSchedule(new Date(Date.now() + RUN_LOCK_DURATION));
+    } finally {
+      if (!schedule) {
+        activeRuns--;
+      }
+    }
+    if (!schedule) {
+      break;
+    }
+    runs.push(
+      runSchedule(app, schedule)
+        .catch((error) =>
+          logger.error(`[AgentSchedule] Failed to run schedule ${schedule._id}`, error),
+        )
+        .finally(() => {
+          activeRuns--;
+        })
+        .then(() => processDueSchedules(app)),
+    );
+  }
+  await Promise.all(runs);
+}
+
+/**
+ * Looks for due agent schedules every minute.
+ * @param {Express.Application} app
+ */
+function scheduleAgentRuns(app) {
+  const interval = setInterval(
+    () =>
+      processDueSchedules(app).catch((error) =>
+        logger.error('[scheduleAgentRuns] Failed to run agent schedules', error),
+      ),
+    POLL_INTERVAL,
+  );
+  interval.unref();
+}
+
+module.exports = {
+  runSchedule,
+  processDueSchedules,
+  scheduleAgentRuns,
+};
@@ -0,0 +1,244 @@
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@librechat/api', () => ({
+  checkAccess: jest.fn(),
+  getNextRunDate: jest.fn(() => new Date('2026-03-05T08:00:00.000Z')),
+  getRetryDate: jest.fn(() => new Date('2026-03-04T10:20:00.000Z')),
+}));
+
+jest.mock('~/models', () => ({
+  getConvo: jest.fn(),
+  getUserById: jest.fn(),
+  updateAgentSchedule: jest.fn(),
+  claimDueAgentSchedule: jest.fn(),
+  createAgentScheduleRun: jest.fn(async () => ({ _id: 'run_1' })),
+  finishAgentScheduleRun: jest.fn(),
+}));
+
+jest.mock('~/server/services/Endpoints/agents/run', () => ({
+  runAgent: jest.fn(),
+  checkRun: jest.fn(),
+}));
+
+jest.mock('~/server/middleware', () => ({ checkBan: jest.fn() }));
+jest.mock('~/models/Role', () => ({ getRoleByName: jest.fn() }));
+
+jest.mock('~/db/models', () => ({
+  Balance: { findOne: jest.fn() },
+}));
+
+const { checkAccess } = require('@librechat/api');
+const {
+  getConvo,
+  getUserById,
+  updateAgentSchedule,
+  claimDueAgentSchedule,
+  finishAgentScheduleRun,
+} = require('~/models');
+const { runAgent, checkRun } = require('~/server/services/Endpoints/agents/run');
+const { checkBan } = require('~/server/middleware');
+const { Balance } = require('~/db/models');
+const { runSchedule, processDueSchedules } = require('./AgentScheduleService');
+
+describe('runSchedule', () => {
+  const app = { locals: {} };
+  const schedule = {
+    _id: 'schedule_1',
+    userId: 'user_1',
+    agent_id: 'agent_1',
+    name: 'Daily digest',
+    prompt: 'Summarize my day',
+    cron: '0 8 * * *',
+    conversationId: 'convo_1',
+    maxRetries: 2,
+    retryCount: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    app.locals = {};
+    getUserById.mockResolvedValue({ _id: 'user_1' });
+    getConvo.mockResolvedValue({ conversationId: 'convo_1' });
+    checkAccess.mockResolvedValue(true);
+    checkRun.mockResolvedValue(() => undefined);
+  });
+
+  it('should continue the schedule conversation and schedule the next run', async () => {
+    runAgent.mockResolvedValue({ conversationId: 'convo_1', messageId: 'message_1', text: 'Done' });
+
+    await runSchedule(app, schedule);
+
+    expect(runAgent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agent_id: 'agent_1',
+        text: 'Summarize my day',
+        conversationId: 'convo_1',
+        title: 'Daily digest',
+      }),
+    );
+    expect(runAgent.mock.calls[0][0].req.user.id).toBe('user_1');
+    expect(finishAgentScheduleRun).toHaveBeenCalledWith({
+      runId: 'run_1',
+      status: 'success',
+      conversationId: 'convo_1',
+      messageId: 'message_1',
+    });
+    expect(updateAgentSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        incrementUnreadRuns: true,
+        update: expect.objectContaining({
+          lastStatus: 'success',
+          retryCount: 0,
+          nextRunAt: new Date('2026-03-05T08:00:00.000Z'),
+          lockedUntil: null,
+        }),
+      }),
+    );
+  });
+
+  it('should start a new conversation if the schedule conversation was deleted', async () => {
+    getConvo.mockResolvedValue(null);
+    runAgent.mockResolvedValue({ conversationId: 'convo_2', messageId: 'message_1', text: '' });
+
+    await runSchedule(app, schedule);
+
+    expect(runAgent).toHaveBeenCalledWith(expect.objectContaining({ conversationId: undefined }));
+    expect(updateAgentSchedule.mock.calls[0][0].update.conversationId).toBe('convo_2');
+  });
+
+  it('should retry failed runs until the maximum number of retries', async () => {
+    runAgent.mockRejectedValue(new Error('Provider unavailable'));
+
+    await runSchedule(app, schedule);
+    expect(finishAgentScheduleRun).toHaveBeenCalledWith({
+      runId: 'run_1',
+      status: 'failed',
+      error: 'Provider unavailable',
+    });
+    expect(updateAgentSchedule.mock.calls[0][0].update).toMatchObject({
+      lastStatus: 'failed',
+      retryCount: 1,
+      nextRunAt: new Date('2026-03-04T10:20:00.000Z'),
+    });
+
+    await runSchedule(app, { ...schedule, retryCount: 2 });
+    expect(updateAgentSchedule.mock.calls[1][0].update).toMatchObject({
+      lastStatus: 'failed',
+      retryCount: 0,
+      nextRunAt: new Date('2026-03-05T08:00:00.000Z'),
+    });
+  });
+
+  it('should stop runs before their schedule can be claimed again', async () => {
+    jest.useFakeTimers();
+    runAgent.mockImplementation(
+      ({ signal }) =>
+        new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('Run aborted')));
+        }),
+    );
+
+    try {
+      const run = runSchedule(app, schedule);
+      await jest.advanceTimersByTimeAsync(25 * 60 * 1000);
+      await run;
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(finishAgentScheduleRun).toHaveBeenCalledWith({
+      runId: 'run_1',
+      status: 'failed',
+      error: 'The run was stopped after 25 minutes',
+    });
+    expect(updateAgentSchedule.mock.calls[0][0].update).toMatchObject({ lockedUntil: null });
+  });
+
+  it('should skip runs of users without balance', async () => {
+    app.locals = { balance: { enabled: true } };
+    Balance.findOne.mockReturnValue({ lean: jest.fn().mockResolvedValue({ tokenCredits: 0 }) });
+
+    await runSchedule(app, schedule);
+
+    expect(runAgent).not.toHaveBeenCalled();
+    expect(finishAgentScheduleRun).toHaveBeenCalledWith({
+      runId: 'run_1',
+      status: 'skipped',
+      error: 'Insufficient balance',
+    });
+    expect(updateAgentSchedule.mock.calls[0][0].update).toMatchObject({
+      lastStatus: 'skipped',
+      retryCount: 0,
+    });
+  });
+
+  it('should skip runs of users who may no longer use agents or are banned', async () => {
+    checkAccess.mockResolvedValue(false);
+    await runSchedule(app, schedule);
+    expect(finishAgentScheduleRun).toHaveBeenLastCalledWith({
+      runId: 'run_1',
+      status: 'skipped',
+      error: 'The user is not allowed to use agents',
+    });
+
+    checkAccess.mockResolvedValue(true);
+    checkRun.mockRejectedValue(new Error('The run was denied: {"message":"Banned"}'));
+    await runSchedule(app, schedule);
+    expect(checkRun).toHaveBeenCalledWith(
+      [checkBan],
+      expect.objectContaining({ user: expect.any(Object) }),
+    );
+    expect(finishAgentScheduleRun).toHaveBeenLastCalledWith({
+      runId: 'run_1',
+      status: 'skipped',
+      error: 'The run was denied: {"message":"Banned"}',
+    });
+    expect(runAgent).not.toHaveBeenCalled();
+  });
+});
+
+describe('processDueSchedules', () => {
+  const app = { locals: {} };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getUserById.mockResolvedValue({ _id: 'user_1' });
+    checkAccess.mockResolvedValue(true);
+    checkRun.mockResolvedValue(() => undefined);
+  });
+
+  it('should run due schedules concurrently, up to a limit', async () => {
+    const schedules = Array.from({ length: 7 }, (_, i) => ({
+      _id: `schedule_${i}`,
+      userId: `user_${i}`,
+      agent_id: 'agent_1',
+      prompt: 'Summarize my day',
+      maxRetries: 0,
+      retryCount: 0,
+    }));
+    claimDueAgentSchedule.mockImplementation(async () => schedules.shift() ?? null);
+
+    /** Runs waiting to end, to end them at once */
+    const pending = [];
+    runAgent.mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          pending.push(() => resolve({ conversationId: 'convo_1', messageId: 'message_1' })),
+        ),
+    );
+
+    const processing = processDueSchedules(app);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(runAgent).toHaveBeenCalledTimes(5);
+
+    pending.splice(0).forEach((resolve) => resolve());
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(runAgent).toHaveBeenCalledTimes(7);
+
+    pending.splice(0).forEach((resolve) => resolve());
+    await processing;
+    expect(finishAgentScheduleRun).toHaveBeenCalledTimes(7);
+  });
+});
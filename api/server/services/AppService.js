@@ -90,6 +90,7 @@ const AppService = async (app) => {
     paths,
     memory,
     webSearch,
+    embeddings: config.embeddings,
     fileStrategy,
     socialLogins,
     filteredTools,
@@ -0,0 +1,326 @@
+const jwt = require('jsonwebtoken');
+const { nanoid } = require('nanoid');
+const { logger } = require('@librechat/data-schemas');
+const {
+  encryptV2,
+  decryptV2,
+  CanvasClient,
+  getAccessToken,
+  refreshAccessToken,
+  createHandleOAuthToken,
+} = require('@librechat/api');
+const { CacheKeys, TokenExchangeMethodEnum } = require('librechat-data-provider');
+const {
+  updateUserPluginAuth,
+  deleteUserPluginAuth,
+  getUserPluginAuthValue,
+} = require('~/server/services/PluginService');
+const { findToken, updateToken, createToken } = require('~/models');
+const { getFlowStateManager } = require('~/config');
+const { Token } = require('~/db/models');
+const { getLogStores } = require('~/cache');
+
+const JWT_SECRET = process.env.JWT_SECRET;
+
+/** Plugin key and auth field used to store personal access tokens via `pluginAuth` */
+const CANVAS_PLUGIN_KEY = 'canvas';
+const CANVAS_AUTH_FIELD = 'CANVAS_API_KEY';
+
+/** Refresh OAuth access tokens this many milliseconds before they expire */
+const REFRESH_THRESHOLD = 5 * 60 * 1000;
+/**
+ * Canvas refresh tokens do not expire on their own, so they are stored with a long TTL
+ * (in seconds) to keep users connected between sessions.
+ */
+const REFRESH_TOKEN_TTL = 90 * 24 * 60 * 60;
+
+const tokenMethods = { findToken, updateToken, createToken };
+
+/**
+ * Returns the Canvas instance URL (with protocol, without trailing slash),
+ * accepting `CANVAS_BASE_URL` with or without a protocol.
+ * @returns {string | null}
+ */
+function getCanvasBaseUrl() {
+  const baseUrl = process.env.CANVAS_BASE_URL?.trim();
+  if (!baseUrl) {
+    return null;
+  }
+  const withProtocol = /^https?:\/\//i.test(baseUrl) ? baseUrl : `https://${baseUrl}`;
+  return withProtocol.replace(/\/+$/, '');
+}
+
+/** @returns {boolean} Whether the Canvas OAuth2 developer key flow is configured */
+function isCanvasOAuthEnabled() {
+  return !!(process.env.CANVAS_OAUTH_CLIENT_ID && process.env.CANVAS_OAUTH_CLIENT_SECRET);
+}
+
+/**
+ * @param {string} userId
+ * @returns {string} The token identifier for the user's Canvas OAuth tokens.
+ */
+function getOAuthIdentifier(userId) {
+  return `${userId}:${CANVAS_PLUGIN_KEY}`;
+}
+
+const getRedirectUri = () => `${process.env.DOMAIN_SERVER}/api/canvas/oauth/callback`;
+
+/**
+ * Validates a Canvas access token by requesting the token owner's profile.
+ * @param {string} accessToken
+ * @returns {Promise<{ id: number; name: string }>}
+ * @throws {Error} If the token is rejected by Canvas.
+ */
+async function verifyCanvasToken(accessToken) {
+  const response = await fetch(`${getCanvasBaseUrl()}/api/v1/users/self`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Canvas rejected the access token: ${response.status} ${response.statusText}`);
+  }
+  return await response.json();
+}
+
+/**
+ * Stores the Canvas refresh token with a long TTL, replacing the default token expiry.
+ * @param {string} userId
+ * @param {string} refreshToken
+ */
+async function persistRefreshToken(userId, refreshToken) {
+  const handleOAuthToken = createHandleOAuthToken(tokenMethods);
+  await handleOAuthToken({
+    userId,
+    token: refreshToken,
+    type: 'oauth_refresh',
+    identifier: `${getOAuthIdentifier(userId)}:refresh`,
+    expiresIn: REFRESH_TOKEN_TTL,
+  });
+}
+
+/**
+ * Retrieves a valid OAuth access token for the user, refreshing it when close to expiry.
+ * @param {string} userId
+ * @returns {Promise<string | null>}
+ */
+async function getCanvasOAuthToken(userId) {
+  const identifier = getOAuthIdentifier(userId);
+  const [tokenData, refreshTokenData] = await Promise.all([
+    findToken({ userId, type: 'oauth', identifier }),
+    findToken({ userId, type: 'oauth_refresh', identifier: `${identifier}:refresh` }),
+  ]);
+
+  if (tokenData && new Date(tokenData.expiresAt).getTime() - Date.now() > REFRESH_THRESHOLD) {
+    return await decryptV2(tokenData.token);
+  }
+
+  if (!refreshTokenData || !isCanvasOAuthEnabled()) {
+    return null;
+  }
+
+  const refresh_token = await decryptV2(refreshTokenData.token);
+  const flowsCache = getLogStores(CacheKeys.FLOWS);
+  const flowManager = getFlowStateManager(flowsCache);
+  const refreshData = await flowManager.createFlowWithHandler(
+    `${identifier}:refresh`,
+    'oauth_refresh',
+    async () => {
+      const result = await refreshAccessToken(
+        {
+          userId,
+          identifier,
+          refresh_token,
+          client_url: `${getCanvasBaseUrl()}/login/oauth2/token`,
+          token_exchange_method: TokenExchangeMethodEnum.DefaultPost,
+          encrypted_oauth_client_id: await encryptV2(process.env.CANVAS_OAUTH_CLIENT_ID),
+          encrypted_oauth_client_secret: await encryptV2(process.env.CANVAS_OAUTH_CLIENT_SECRET),
+        },
+        tokenMethods,
+      );
+      await persistRefreshToken(userId, result.refresh_token ?? refresh_token);
+      return result;
+    },
+  );
+
+  return refreshData?.access_token ?? null;
+}
+
+/**
+ * Resolves the Canvas access token for a user: a personal access token takes
+ * precedence over OAuth tokens.
+ * @param {string} userId
+ * @returns {Promise<string | null>}
+ */
+async function getCanvasAccessToken(userId) {
+  const personalToken = await getUserPluginAuthValue(userId, CANVAS_AUTH_FIELD, false);
+  if (personalToken) {
+    return personalToken;
+  }
+
+  try {
+    return await getCanvasOAuthToken(userId);
+  } catch (error) {
+    logger.error('[getCanvasAccessToken] Failed to load Canvas OAuth tokens', error);
+    return null;
+  }
+}
+
+/**
+ * Creates a Canvas API client authenticated as the user.
+ * @param {string} userId
+ * @returns {Promise<CanvasClient | null>} `null` when Canvas is not configured or the user is not connected.
+ */
+async function getCanvasClient(userId) {
+  const baseURL = getCanvasBaseUrl();
+  if (!baseURL) {
+    return null;
+  }
+  const accessToken = await getCanvasAccessToken(userId);
+  if (!accessToken) {
+    return null;
+  }
+  return new CanvasClient({ baseURL, accessToken });
+}
+
+/**
+ * @param {string} userId
+ * @returns {Promise<import('librechat-data-provider').TCanvasAuthStatus>}
+ */
+async function getCanvasAuthStatus(userId) {
+  const configured = !!getCanvasBaseUrl();
+  const oauthEnabled = configured && isCanvasOAuthEnabled();
+  if (!configured) {
+    return { configured, oauthEnabled, connected: false, method: null };
+  }
+
+  const personalToken = await getUserPluginAuthValue(userId, CANVAS_AUTH_FIELD, false);
+  if (personalToken) {
+    return { configured, oauthEnabled, connected: true, method: 'token' };
+  }
+
+  const identifier = getOAuthIdentifier(userId);
+  const [tokenData, refreshTokenData] = await Promise.all([
+    findToken({ userId, type: 'oauth', identifier }),
+    findToken({ userId, type: 'oauth_refresh', identifier: `${identifier}:refresh` }),
+  ]);
+  const connected = !!tokenData || (!!refreshTokenData && oauthEnabled);
+  return { configured, oauthEnabled, connected, method: connected ? 'oauth' : null };
+}
+
+/**
+ * Verifies and stores a Canvas personal access token for the user.
+ * @param {string} userId
+ * @param {string} accessToken
+ */
+async function saveCanvasAccessToken(userId, accessToken) {
+  await verifyCanvasToken(accessToken);
+  const result = await updateUserPluginAuth(
+    userId,
+    CANVAS_AUTH_FIELD,
+    CANVAS_PLUGIN_KEY,
+    accessToken,
+  );
+  if (result instanceof Error) {
+    throw result;
+  }
+}
+
+/**
+ * Removes every stored Canvas credential for the user, revoking OAuth tokens on a best-effort basis.
+ * @param {string} userId
+ */
+async function deleteCanvasAuth(userId) {
+  const identifier = getOAuthIdentifier(userId);
+  const tokenData = await findToken({ userId, type: 'oauth', identifier });
+  if (tokenData && getCanvasBaseUrl()) {
+    try {
+      const accessToken = await decryptV2(tokenData.token);
+      await fetch(`${getCanvasBaseUrl()}/login/oauth2/token`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+    } catch (error) {
+      logger.warn('[deleteCanvasAuth] Failed to revoke Canvas OAuth token', error);
+    }
+  }
+
+  await Promise.all([
+    deleteUserPluginAuth(userId, null, true, CANVAS_PLUGIN_KEY),
+    Token.deleteMany({ userId, identifier: { $in: [identifier, `${identifier}:refresh`] } }),
+  ]);
+}
+
+/**
+ * Builds the Canvas OAuth2 authorization URL for the user.
+ * The state is bound to the returned nonce, which the callback requires from the browser
+ * that started the flow.
+ * @param {string} userId
+ * @returns {{ authorizationUrl: string, nonce: string }}
+ */
+function getCanvasAuthorizationUrl(userId) {
+  const nonce = nanoid();
+  const state = jwt.sign({ nonce, user: userId }, JWT_SECRET, { expiresIn: '10m' });
+  const params = new URLSearchParams({
+    client_id: process.env.CANVAS_OAUTH_CLIENT_ID,
+    response_type: 'code',
+    redirect_uri: getRedirectUri(),
+    state,
+  });
+  if (process.env.CANVAS_OAUTH_SCOPE) {
+    params.append('scope', process.env.CANVAS_OAUTH_SCOPE);
+  }
+  return {
+    authorizationUrl: `${getCanvasBaseUrl()}/login/oauth2/auth?${params.toString()}`,
+    nonce,
+  };
+}
+
+/**
+ * Exchanges the authorization code from the Canvas OAuth2 callback for tokens.
+ * @param {object} params
+ * @param {string} params.code - The authorization code returned by Canvas.
+ * @param {string} params.state - The signed state issued by `getCanvasAuthorizationUrl`.
+ * @param {string} [params.nonce] - The nonce of the flow, stored by the browser that started it.
+ * @returns {Promise<string>} The ID of the user who connected their account.
+ */
+async function handleCanvasOAuthCallback({ code, state, nonce }) {
+  /** @type {{ user?: string, nonce?: string }} */
+  const decodedState = jwt.verify(state, JWT_SECRET);
+  if (!nonce || decodedState.nonce !== nonce) {
+    throw new Error('State parameter was not issued to this browser');
+  }
+  const userId = decodedState.user;
+  if (!userId) {
+    throw new Error('Invalid user ID in state parameter');
+  }
+
+  const tokenData = await getAccessToken(
+    {
+      code,
+      userId,
+      identifier: getOAuthIdentifier(userId),
+      client_url: `${getCanvasBaseUrl()}/login/oauth2/token`,
+      redirect_uri: getRedirectUri(),
+      token_exchange_method: TokenExchangeMethodEnum.DefaultPost,
+      encrypted_oauth_client_id: await encryptV2(process.env.CANVAS_OAUTH_CLIENT_ID),
+      encrypted_oauth_client_secret: await encryptV2(process.env.CANVAS_OAUTH_CLIENT_SECRET),
+    },
+    tokenMethods,
+  );
+
+  if (tokenData.refresh_token) {
+    await persistRefreshToken(userId, tokenData.refresh_token);
+  }
+  return userId;
+}
+
+module.exports = {
+  getCanvasBaseUrl,
+  isCanvasOAuthEnabled,
+  getCanvasAuthStatus,
+  getCanvasAccessToken,
+  getCanvasClient,
+  saveCanvasAccessToken,
+  deleteCanvasAuth,
+  getCanvasAuthorizationUrl,
+  handleCanvasOAuthCallback,
+};
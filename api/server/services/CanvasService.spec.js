@@ -0,0 +1,262 @@
+const jwt = require('jsonwebtoken');
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@librechat/api', () => ({
+  encryptV2: jest.fn(async (value) => `enc:${value}`),
+  decryptV2: jest.fn(async (value) => value.replace(/^enc:/, '')),
+  CanvasClient: jest.fn(),
+  getAccessToken: jest.fn(),
+  refreshAccessToken: jest.fn(),
+  createHandleOAuthToken: jest.fn(() => jest.fn()),
+}));
+
+jest.mock('~/server/services/PluginService', () => ({
+  updateUserPluginAuth: jest.fn(),
+  deleteUserPluginAuth: jest.fn(),
+  getUserPluginAuthValue: jest.fn(),
+}));
+
+jest.mock('~/models', () => ({
+  findToken: jest.fn(),
+  updateToken: jest.fn(),
+  createToken: jest.fn(),
+}));
+
+jest.mock('~/config', () => ({
+  getFlowStateManager: jest.fn(() => ({
+    createFlowWithHandler: jest.fn((_id, _type, handler) => handler()),
+  })),
+}));
+
+jest.mock('~/db/models', () => ({
+  Token: { deleteMany: jest.fn() },
+}));
+
+jest.mock('~/cache', () => ({
+  getLogStores: jest.fn(),
+}));
+
+const { CanvasClient, getAccessToken, refreshAccessToken } = require('@librechat/api');
+const {
+  updateUserPluginAuth,
+  deleteUserPluginAuth,
+  getUserPluginAuthValue,
+} = require('~/server/services/PluginService');
+const { findToken } = require('~/models');
+const { Token } = require('~/db/models');
+
+describe('CanvasService', () => {
+  const originalEnv = process.env;
+  const originalFetch = global.fetch;
+  let CanvasService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = {
+      ...originalEnv,
+      JWT_SECRET: 'test-secret',
+      DOMAIN_SERVER: 'http://localhost:3080',
+      CANVAS_BASE_URL: 'canvas.example.edu/',
+      CANVAS_OAUTH_CLIENT_ID: 'client-id',
+      CANVAS_OAUTH_CLIENT_SECRET: 'client-secret',
+    };
+    global.fetch = jest.fn();
+    jest.isolateModules(() => {
+      CanvasService = require('./CanvasService');
+    });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    global.fetch = originalFetch;
+  });
+
+  describe('getCanvasBaseUrl', () => {
+    it('adds a protocol and strips trailing slashes', () => {
+      expect(CanvasService.getCanvasBaseUrl()).toBe('https://canvas.example.edu');
+    });
+
+    it('keeps an explicit protocol', () => {
+      process.env.CANVAS_BASE_URL = 'http://localhost:3000';
+      expect(CanvasService.getCanvasBaseUrl()).toBe('http://localhost:3000');
+    });
+
+    it('returns null when not configured', () => {
+      delete process.env.CANVAS_BASE_URL;
+      expect(CanvasService.getCanvasBaseUrl()).toBeNull();
+    });
+  });
+
+  describe('getCanvasAccessToken', () => {
+    it('prefers the personal access token', async () => {
+      getUserPluginAuthValue.mockResolvedValue('personal-token');
+      await expect(CanvasService.getCanvasAccessToken('user1')).resolves.toBe('personal-token');
+      expect(findToken).not.toHaveBeenCalled();
+    });
+
+    it('returns a stored OAuth token that is not close to expiry', async () => {
+      getUserPluginAuthValue.mockResolvedValue(null);
+      findToken.mockImplementation(async ({ type }) =>
+        type === 'oauth'
+          ? { token: 'enc:oauth-token', expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+          : { token: 'enc:refresh-token' },
+      );
+
+      await expect(CanvasService.getCanvasAccessToken('user1')).resolves.toBe('oauth-token');
+      expect(refreshAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('refreshes an expiring OAuth token', async () => {
+      getUserPluginAuthValue.mockResolvedValue(null);
+      findToken.mockImplementation(async ({ type }) =>
+        type === 'oauth'
+          ? { token: 'enc:old-token', expiresAt: new Date(Date.now() + 1000) }
+          : { token: 'enc:refresh-token' },
+      );
+      refreshAccessToken.mockResolvedValue({ access_token: 'new-token' });
+
+      await expect(CanvasService.getCanvasAccessToken('user1')).resolves.toBe('new-token');
+      expect(refreshAccessToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user1',
+          identifier: 'user1:canvas',
+          refresh_token: 'refresh-token',
+          client_url: 'https://canvas.example.edu/login/oauth2/token',
+        }),
+        expect.any(Object),
+      );
+    });
+
+    it('returns null when no credentials are stored', async () => {
+      getUserPluginAuthValue.mockResolvedValue(null);
+      findToken.mockResolvedValue(null);
+      await expect(CanvasService.getCanvasAccessToken('user1')).resolves.toBeNull();
+    });
+  });
+
+  describe('getCanvasClient', () => {
+    it('creates a client with the user token', async () => {
+      getUserPluginAuthValue.mockResolvedValue('personal-token');
+      await CanvasService.getCanvasClient('user1');
+      expect(CanvasClient).toHaveBeenCalledWith({
+        baseURL: 'https://canvas.example.edu',
+        accessToken: 'personal-token',
+      });
+    });
+
+    it('returns null when the user is not connected', async () => {
+      getUserPluginAuthValue.mockResolvedValue(null);
+      findToken.mockResolvedValue(null);
+      await expect(CanvasService.getCanvasClient('user1')).resolves.toBeNull();
+      expect(CanvasClient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCanvasAuthStatus', () => {
+    it('reports an unconfigured instance', async () => {
+      delete process.env.CANVAS_BASE_URL;
+      await expect(CanvasService.getCanvasAuthStatus('user1')).resolves.toEqual({
+        configured: false,
+        oauthEnabled: false,
+        connected: false,
+        method: null,
+      });
+    });
+
+    it('reports an OAuth connection', async () => {
+      getUserPluginAuthValue.mockResolvedValue(null);
+      findToken.mockImplementation(async ({ type }) =>
+        type === 'oauth_refresh' ? { token: 'enc:refresh-token' } : null,
+      );
+      await expect(CanvasService.getCanvasAuthStatus('user1')).resolves.toEqual({
+        configured: true,
+        oauthEnabled: true,
+        connected: true,
+        method: 'oauth',
+      });
+    });
+  });
+
+  describe('saveCanvasAccessToken', () => {
+    it('stores the token after Canvas accepts it', async () => {
+      global.fetch.mockResolvedValue({ ok: true, json: async () => ({ id: 1 }) });
+      await CanvasService.saveCanvasAccessToken('user1', 'personal-token');
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://canvas.example.edu/api/v1/users/self',
+        expect.objectContaining({ headers: { Authorization: 'Bearer personal-token' } }),
+      );
+      expect(updateUserPluginAuth).toHaveBeenCalledWith(
+        'user1',
+        'CANVAS_API_KEY',
+        'canvas',
+        'personal-token',
+      );
+    });
+
+    it('rejects tokens that Canvas does not accept', async () => {
+      global.fetch.mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized' });
+      await expect(CanvasService.saveCanvasAccessToken('user1', 'bad')).rejects.toThrow();
+      expect(updateUserPluginAuth).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteCanvasAuth', () => {
+    it('only deletes the Canvas tokens of the user', async () => {
+      findToken.mockResolvedValue(null);
+      await CanvasService.deleteCanvasAuth('user1');
+      expect(deleteUserPluginAuth).toHaveBeenCalledWith('user1', null, true, 'canvas');
+      expect(Token.deleteMany).toHaveBeenCalledWith({
+        userId: 'user1',
+        identifier: { $in: ['user1:canvas', 'user1:canvas:refresh'] },
+      });
+    });
+  });
+
+  describe('OAuth flow', () => {
+    it('builds an authorization URL with a signed state bound to a nonce', () => {
+      const { authorizationUrl, nonce } = CanvasService.getCanvasAuthorizationUrl('user1');
+      const url = new URL(authorizationUrl);
+      expect(url.origin + url.pathname).toBe('https://canvas.example.edu/login/oauth2/auth');
+      expect(url.searchParams.get('redirect_uri')).toBe(
+        'http://localhost:3080/api/canvas/oauth/callback',
+      );
+      const state = jwt.verify(url.searchParams.get('state'), 'test-secret');
+      expect(state.user).toBe('user1');
+      expect(state.nonce).toBe(nonce);
+    });
+
+    it('exchanges the callback code for the user in the state', async () => {
+      getAccessToken.mockResolvedValue({ access_token: 'token', refresh_token: 'refresh' });
+      const state = jwt.sign({ user: 'user1', nonce: 'nonce1' }, 'test-secret');
+      await expect(
+        CanvasService.handleCanvasOAuthCallback({ code: 'code', state, nonce: 'nonce1' }),
+      ).resolves.toBe('user1');
+      expect(getAccessToken).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'code', userId: 'user1', identifier: 'user1:canvas' }),
+        expect.any(Object),
+      );
+    });
+
+    it('rejects a tampered state', async () => {
+      const state = jwt.sign({ user: 'user1', nonce: 'nonce1' }, 'other-secret');
+      await expect(
+        CanvasService.handleCanvasOAuthCallback({ code: 'code', state, nonce: 'nonce1' }),
+      ).rejects.toThrow();
+      expect(getAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('rejects a state without the nonce of the browser that started the flow', async () => {
+      const state = jwt.sign({ user: 'user1', nonce: 'nonce1' }, 'test-secret');
+      await expect(
+        CanvasService.handleCanvasOAuthCallback({ code: 'code', state }),
+      ).rejects.toThrow('not issued to this browser');
+      await expect(
+        CanvasService.handleCanvasOAuthCallback({ code: 'code', state, nonce: 'nonce2' }),
+      ).rejects.toThrow('not issued to this browser');
+      expect(getAccessToken).not.toHaveBeenCalled();
+    });
+  });
+});
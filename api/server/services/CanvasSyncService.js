@@ -0,0 +1,292 @@
+const fs = require('fs');
+const path = require('path');
+const { logger } = require('@librechat/data-schemas');
+const { getCanvasContentDocument } = require('@librechat/api');
+const { FileSources, FileContext, EToolResources } = require('librechat-data-provider');
+const { getCanvasClient, getCanvasBaseUrl } = require('~/server/services/CanvasService');
+const { uploadVectors, deleteVectors } = require('~/server/services/Files/VectorDB/crud');
+const { processDeleteRequest } = require('~/server/services/Files/process');
+const { removeAgentResourceFiles } = require('~/models/Agent');
+const { getFiles, updateFile } = require('~/models/File');
+const { Agent, File } = require('~/db/models');
+
+/**
+ * Imported Canvas files kept in sync. Only embedded (vector database) files can be
+ * re-processed without the original upload request.
+ */
+const SYNCED_FILES_FILTER = {
+  source: FileSources.vectordb,
+  'metadata.canvas.content_id': { $exists: true },
+};
+
+/** Syncs in progress by user ID, so that overlapping runs share the same sync */
+const runningSyncs = new Map();
+
+/**
+ * Loads the current version of imported Canvas content.
+ *
+ * @param {import('@librechat/api').CanvasClient} client
+ * @param {import('librechat-data-provider').TCanvasFileMetadata} canvas
+ * @returns {Promise<{
+ *   updated_at?: string,
+ *   download: () => Promise<{ buffer: Buffer, filename: string, mimetype: string }>,
+ * } | null>} `null` when the content was deleted from Canvas.
+ */
+async function getCanvasContent(client, canvas) {
+  try {
+    if (canvas.content_type === 'File') {
+      const fileData = await client.getFile(canvas.content_id);
+      return {
+        updated_at: fileData.updated_at,
+        download: async () => ({
+          buffer: await client.downloadFile(fileData),
+          filename: fileData.filename,
+          mimetype: fileData['content-type'],
+        }),
+      };
+    }
+
+    const document = await getCanvasContentDocument(client, {
+      courseId: canvas.course_id,
+      type: canvas.content_type,
+      id: canvas.content_id,
+    });
+    return {
+      updated_at: document.updated_at,
+      download: async () => ({
+        buffer: Buffer.from(document.text, 'utf8'),
+        filename: document.filename,
+        mimetype: 'text/markdown',
+      }),
+    };
+  } catch (error) {
+    if (error?.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Re-downloads changed Canvas content and replaces the file's embeddings, keeping its `file_id`
+ * so that conversations and agents referencing the file keep working.
+ *
+ * @param {ServerRequest} req - Request-like object with `user.id` and `app.locals`.
+ * @param {MongoFile} file
+ * @param {NonNullable<Awaited<ReturnType<typeof getCanvasContent>>>} content
+ */
+async function refreshCanvasFile(req, file, content) {
+  const { buffer, filename, mimetype } = await content.download();
+  const tempDir = path.join(req.app.locals.paths.uploads, 'temp', req.user.id);
+  if (!fs.existsSync(tempDir)) {
+    fs.mkdirSync(tempDir, { recursive: true });
+  }
+  const tempFilePath = path.join(tempDir, `${file.file_id}-${filename}`);
+  fs.writeFileSync(tempFilePath, buffer);
+
+  /** Agent files are embedded for the agent so that its file search can read them */
+  let entity_id;
+  if (file.context === FileContext.agents) {
+    const agent = await Agent.findOne(
+      { [`tool_resources.${EToolResources.file_search}.file_ids`]: file.file_id },
+      { id: 1 },
+    ).lean();
+    entity_id = agent?.id;
+  }
+
+  try {
+    await deleteVectors(req, file);
+    const { bytes, embedded } = await uploadVectors({
+      req,
+      file: { path: tempFilePath, size: buffer.length, originalname: filename, mimetype },
+      file_id: file.file_id,
+      entity_id,
+    });
+    await updateFile({
+      file_id: file.file_id,
+      bytes,
+      embedded,
+      filename,
+      type: mimetype,
+      'metadata.canvas.updated_at': content.updated_at,
+      'metadata.canvas.synced_at': new Date(),
+    });
+  } finally {
+    try {
+      fs.unlinkSync(tempFilePath);
+    } catch (cleanupError) {
+      logger.warn('[refreshCanvasFile] Failed to clean up temp file:', cleanupError);
+    }
+  }
+}
+
+/**
+ * Deletes files whose Canvas content no longer exists, removing them from every agent first.
+ *
+ * @param {ServerRequest} req - Request-like object with `user.id` and `app.locals`.
+ * @param {MongoFile[]} files
+ */
+async function removeCanvasFiles(req, files) {
+  const fileIds = new Set(files.map((file) => file.file_id));
+  const resources = Object.values(EToolResources);
+  const agents = await Agent.find(
+    {
+      $or: resources.map((resource) => ({
+        [`tool_resources.${resource}.file_ids`]: { $in: [...fileIds] },
+      })),
+    },
+    { id: 1, tool_resources: 1 },
+  ).lean();
+
+  for (const agent of agents) {
+    const agentFiles = resources.flatMap((tool_resource) =>
+      (agent.tool_resources?.[tool_resource]?.file_ids ?? [])
+        .filter((file_id) => fileIds.has(file_id))
+        .map((file_id) => ({ tool_resource, file_id })),
+    );
+    await removeAgentResourceFiles({ agent_id: agent.id, files: agentFiles });
+  }
+
+  await processDeleteRequest({ req, files });
+}
+
+/**
+ * Compares a user's imported Canvas files against Canvas: changed content is re-downloaded
+ * and re-embedded, and files whose content was deleted from Canvas are removed.
+ *
+ * @param {object} params
+ * @param {Express.Application} params.app - The Express app, for upload paths and file strategies.
+ * @param {string} params.userId
+ * @param {import('@librechat/api').CanvasClient} [params.client] - Defaults to the user's client.
+ * @returns {Promise<import('librechat-data-provider').TCanvasSyncResult | null>}
+ *  `null` when the user has not connected Canvas.
+ */
+async function runCanvasSync({ app, userId, client: _client }) {
+  const client = _client ?? (await getCanvasClient(userId));
+  if (!client) {
+    return null;
+  }
+
+  const req = { user: { id: userId }, app, body: {} };
+  const files = await getFiles({ user: userId, ...SYNCED_FILES_FILTER });
+  const result = { checked: files.length, updated: 0, deleted: 0, failed: 0 };
+  const unchanged = [];
+  const deleted = [];
+
+  for (const file of files) {
+    const canvas = file.metadata.canvas;
+    try {
+      const content = await getCanvasContent(client, canvas);
+      if (!content) {
+        deleted.push(file);
+      } else if (!canvas.updated_at || content.updated_at !== canvas.updated_at) {
+        await refreshCanvasFile(req, file, content);
+        result.updated++;
+      } else {
+        unchanged.push(file.file_id);
+      }
+    } catch (error) {
+      result.failed++;
+      logger.error(
+        `[runCanvasSync] Failed to sync ${canvas.content_type} ${canvas.content_id} for user ${userId}`,
+        error,
+      );
+    }
+  }
+
+  if (deleted.length) {
+    await removeCanvasFiles(req, deleted);
+    result.deleted = deleted.length;
+  }
+
+  const synced_at = new Date();
+  if (unchanged.length) {
+    await File.updateMany(
+      { file_id: { $in: unchanged } },
+      { $set: { 'metadata.canvas.synced_at': synced_at } },
+    );
+  }
+
+  logger.info(
+    `[runCanvasSync] Synced Canvas files for user ${userId}: ${result.updated} updated, ${result.deleted} deleted, ${result.failed} failed`,
+  );
+  return { ...result, synced_at: synced_at.toISOString() };
+}
+
+/**
+ * Syncs a user's imported Canvas files; concurrent calls for the same user share one run.
+ * @param {Parameters<typeof runCanvasSync>[0]} params
+ * @returns {ReturnType<typeof runCanvasSync>}
+ */
+function syncCanvasFiles(params) {
+  const running = runningSyncs.get(params.userId);
+  if (running) {
+    return running;
+  }
+  const sync = runCanvasSync(params).finally(() => runningSyncs.delete(params.userId));
+  runningSyncs.set(params.userId, sync);
+  return sync;
+}
+
+/**
+ * Returns when the user's Canvas files were last synced.
+ * @param {string} userId
+ * @returns {Promise<import('librechat-data-provider').TCanvasSyncStatus>}
+ */
+async function getCanvasSyncStatus(userId) {
+  const filter = { user: userId, ...SYNCED_FILES_FILTER };
+  const [files, latest] = await Promise.all([
+    File.countDocuments(filter),
+    File.findOne(filter, { 'metadata.canvas.synced_at': 1 })
+      .sort({ 'metadata.canvas.synced_at': -1 })
+      .lean(),
+  ]);
+  return {
+    running: runningSyncs.has(userId),
+    files,
+    lastSyncedAt: latest?.metadata?.canvas?.synced_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Syncs the imported Canvas files of every user, one user at a time.
+ * @param {Express.Application} app
+ */
+async function syncAllCanvasFiles(app) {
+  const userIds = await File.distinct('user', SYNCED_FILES_FILTER);
+  for (const userId of userIds) {
+    try {
+      await syncCanvasFiles({ app, userId: userId.toString() });
+    } catch (error) {
+      logger.error(`[syncAllCanvasFiles] Canvas sync failed for user ${userId}`, error);
+    }
+  }
+}
+
+/**
+ * Schedules the Canvas sync every `CANVAS_SYNC_INTERVAL` minutes, when set and Canvas is configured.
+ * @param {Express.Application} app
+ */
+function scheduleCanvasSync(app) {
+  const minutes = Number(process.env.CANVAS_SYNC_INTERVAL);
+  if (!getCanvasBaseUrl() || !(minutes > 0)) {
+    return;
+  }
+
+  logger.info(`[scheduleCanvasSync] Syncing Canvas files every ${minutes} minutes`);
+  const interval = setInterval(
+    () =>
+      syncAllCanvasFiles(app).catch((error) =>
+        logger.error('[scheduleCanvasSync] Scheduled Canvas sync failed', error),
+      ),
+    minutes * 60 * 1000,
+  );
+  interval.unref();
+}
+
+module.exports = {
+  syncCanvasFiles,
+  scheduleCanvasSync,
+  getCanvasSyncStatus,
+  syncAllCanvasFiles,
+};
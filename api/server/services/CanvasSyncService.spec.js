@@ -0,0 +1,175 @@
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@librechat/api', () => ({
+  getCanvasContentDocument: jest.fn(),
+}));
+
+jest.mock('~/server/services/CanvasService', () => ({
+  getCanvasClient: jest.fn(),
+  getCanvasBaseUrl: jest.fn(),
+}));
+
+jest.mock('~/server/services/Files/VectorDB/crud', () => ({
+  uploadVectors: jest.fn(),
+  deleteVectors: jest.fn(),
+}));
+
+jest.mock('~/server/services/Files/process', () => ({
+  processDeleteRequest: jest.fn(),
+}));
+
+jest.mock('~/models/Agent', () => ({
+  removeAgentResourceFiles: jest.fn(),
+}));
+
+jest.mock('~/models/File', () => ({
+  getFiles: jest.fn(),
+  updateFile: jest.fn(),
+}));
+
+jest.mock('~/db/models', () => {
+  const lean = (value) => ({ lean: jest.fn().mockResolvedValue(value) });
+  return {
+    Agent: { find: jest.fn(() => lean([])), findOne: jest.fn(() => lean(null)) },
+    File: { updateMany: jest.fn() },
+    lean,
+  };
+});
+
+const { getCanvasContentDocument } = require('@librechat/api');
+const { uploadVectors, deleteVectors } = require('~/server/services/Files/VectorDB/crud');
+const { processDeleteRequest } = require('~/server/services/Files/process');
+const { removeAgentResourceFiles } = require('~/models/Agent');
+const { getFiles, updateFile } = require('~/models/File');
+const { Agent, File, lean } = require('~/db/models');
+const { syncCanvasFiles } = require('./CanvasSyncService');
+
+const notFound = () => Object.assign(new Error('Not Found'), { response: { status: 404 } });
+
+describe('syncCanvasFiles', () => {
+  let app;
+  let client;
+
+  const canvasFile = (file_id, canvas) => ({
+    file_id,
+    user: 'user1',
+    source: 'vectordb',
+    embedded: true,
+    context: 'agents',
+    metadata: { canvas },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    app = {
+      locals: { paths: { uploads: fs.mkdtempSync(path.join(os.tmpdir(), 'canvas-sync-')) } },
+    };
+    client = {
+      getFile: jest.fn(),
+      downloadFile: jest.fn().mockResolvedValue(Buffer.from('new content')),
+    };
+    uploadVectors.mockResolvedValue({ bytes: 11, embedded: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(app.locals.paths.uploads, { recursive: true, force: true });
+  });
+
+  it('re-embeds files that changed in Canvas under the same file_id', async () => {
+    getFiles.mockResolvedValue([
+      canvasFile('file-1', { content_type: 'File', content_id: '7', updated_at: '2025-01-01' }),
+    ]);
+    client.getFile.mockResolvedValue({
+      id: 7,
+      filename: 'notes.pdf',
+      'content-type': 'application/pdf',
+      updated_at: '2025-02-01',
+    });
+    Agent.findOne.mockReturnValue(lean({ id: 'agent_1' }));
+
+    const result = await syncCanvasFiles({ app, userId: 'user1', client });
+
+    expect(result).toMatchObject({ checked: 1, updated: 1, deleted: 0, failed: 0 });
+    expect(deleteVectors).toHaveBeenCalledWith(
+      expect.objectContaining({ user: { id: 'user1' } }),
+      expect.objectContaining({ file_id: 'file-1' }),
+    );
+    expect(uploadVectors).toHaveBeenCalledWith(
+      expect.objectContaining({ file_id: 'file-1', entity_id: 'agent_1' }),
+    );
+    expect(updateFile).toHaveBeenCalledWith(
+      expect.objectContaining({
+        file_id: 'file-1',
+        bytes: 11,
+        'metadata.canvas.updated_at': '2025-02-01',
+      }),
+    );
+    expect(fs.readdirSync(path.join(app.locals.paths.uploads, 'temp', 'user1'))).toEqual([]);
+  });
+
+  it('only records the sync time of unchanged files', async () => {
+    getFiles.mockResolvedValue([
+      canvasFile('file-1', {
+        course_id: 1,
+        content_type: 'Page',
+        content_id: 'syllabus',
+        updated_at: '2025-01-01',
+      }),
+    ]);
+    getCanvasContentDocument.mockResolvedValue({ text: '# Syllabus', updated_at: '2025-01-01' });
+
+    const result = await syncCanvasFiles({ app, userId: 'user1', client });
+
+    expect(result).toMatchObject({ checked: 1, updated: 0 });
+    expect(uploadVectors).not.toHaveBeenCalled();
+    expect(File.updateMany).toHaveBeenCalledWith(
+      { file_id: { $in: ['file-1'] } },
+      { $set: { 'metadata.canvas.synced_at': expect.any(Date) } },
+    );
+  });
+
+  it('removes files deleted from Canvas from agents and storage', async () => {
+    const file = canvasFile('file-1', { content_type: 'File', content_id: '7' });
+    getFiles.mockResolvedValue([file]);
+    client.getFile.mockRejectedValue(notFound());
+    Agent.find.mockReturnValue(
+      lean([{ id: 'agent_1', tool_resources: { file_search: { file_ids: ['file-1', 'other'] } } }]),
+    );
+
+    const result = await syncCanvasFiles({ app, userId: 'user1', client });
+
+    expect(result).toMatchObject({ deleted: 1, failed: 0 });
+    expect(removeAgentResourceFiles).toHaveBeenCalledWith({
+      agent_id: 'agent_1',
+      files: [{ tool_resource: 'file_search', file_id: 'file-1' }],
+    });
+    expect(processDeleteRequest).toHaveBeenCalledWith({
+      req: expect.objectContaining({ user: { id: 'user1' } }),
+      files: [file],
+    });
+  });
+
+  it('counts failures without stopping the sync', async () => {
+    getFiles.mockResolvedValue([
+      canvasFile('file-1', { content_type: 'File', content_id: '7' }),
+      canvasFile('file-2', { content_type: 'File', content_id: '8', updated_at: '2025-01-01' }),
+    ]);
+    client.getFile
+      .mockRejectedValueOnce(new Error('500'))
+      .mockResolvedValueOnce({ id: 8, updated_at: '2025-01-01' });
+
+    const result = await syncCanvasFiles({ app, userId: 'user1', client });
+
+    expect(result).toMatchObject({ checked: 2, updated: 0, failed: 1 });
+    expect(File.updateMany).toHaveBeenCalledWith(
+      { file_id: { $in: ['file-2'] } },
+      expect.any(Object),
+    );
+  });
+});
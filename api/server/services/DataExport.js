@@ -0,0 +1,262 @@
+const fs = require('fs');
+const path = require('path');
+const { once } = require('events');
+const { v4: uuidv4 } = require('uuid');
+const { logger } = require('@librechat/data-schemas');
+const { Time } = require('librechat-data-provider');
+const { ZipWriter, exportMemories } = require('@librechat/api');
+const {
+  Agent,
+  Prompt,
+  Balance,
+  Message,
+  PromptGroup,
+  Transaction,
+  Conversation,
+} = require('~/db/models');
+const { getFiles, getAllUserMemories, getMemoryHistory } = require('~/models');
+
+/** How long a generated bundle can be downloaded */
+const EXPORT_TTL = Time.ONE_HOUR;
+
+/** How many conversations are loaded with their messages at a time */
+const CONVERSATION_BATCH_SIZE = 100;
+
+/**
+ * Data exports by user ID. Bundles are written to the user's temp upload directory and
+ * deleted when they expire or the user requests a new one.
+ * @type {Map<string, {
+ *   id: string,
+ *   status: 'pending' | 'ready' | 'failed',
+ *   createdAt: Date,
+ *   expiresAt?: Date,
+ *   filepath: string,
+ *   timeout?: NodeJS.Timeout,
+ * }>}
+ */
+const dataExports = new Map();
+
+const toJSON = (data) => JSON.stringify(data, null, 2);
+
+/**
+ * Adds a batch of conversations with their messages to the bundle, one file per conversation
+ * in the format accepted by the conversation import.
+ *
+ * @param {string} userId
+ * @param {object[]} conversations
+ * @param {import('@librechat/api').ZipWriter} zip
+ */
+async function writeConversations(userId, conversations, zip) {
+  const messages = await Message.find({
+    user: userId,
+    conversationId: { $in: conversations.map((conversation) => conversation.conversationId) },
+  })
+    .select('-_id -__v')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  /** @type {Map<string, object[]>} */
+  const messagesByConvo = new Map();
+  for (const message of messages) {
+    const convoMessages = messagesByConvo.get(message.conversationId) ?? [];
+    convoMessages.push(message);
+    messagesByConvo.set(message.conversationId, convoMessages);
+  }
+
+  for (const conversation of conversations) {
+    await zip.add({
+      name: `conversations/${conversation.conversationId}.json`,
+      data: toJSON({
+        conversationId: conversation.conversationId,
+        title: conversation.title,
+        endpoint: conversation.endpoint,
+        options: conversation,
+        recursive: false,
+        messages: messagesByConvo.get(conversation.conversationId) ?? [],
+      }),
+    });
+  }
+}
+
+/**
+ * Writes the data of a user to the bundle. Conversations are loaded in batches with their
+ * messages, so that only one batch is held in memory.
+ *
+ * @param {string} userId
+ * @param {import('@librechat/api').ZipWriter} zip
+ */
+async function writeUserData(userId, zip) {
+  const cursor = Conversation.find({ user: userId })
+    .select('-_id -__v -messages')
+    .sort({ createdAt: 1 })
+    .lean()
+    .cursor({ batchSize: CONVERSATION_BATCH_SIZE });
+
+  let batch = [];
+  for await (const conversation of cursor) {
+    batch.push(conversation);
+    if (batch.length === CONVERSATION_BATCH_SIZE) {
+      await writeConversations(userId, batch, zip);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await writeConversations(userId, batch, zip);
+  }
+
+  const [memories, memoryHistory, promptGroups, prompts, agents, files, balance, transactions] =
+    await Promise.all([
+      getAllUserMemories(userId),
+      getMemoryHistory({ userId, limit: 0 }),
+      PromptGroup.find({ author: userId }).select('-__v').lean(),
+      Prompt.find({ author: userId }).select('-__v').lean(),
+      Agent.find({ author: userId }).select('-_id -__v').lean(),
+      getFiles({ user: userId }, null, { text: 0, __v: 0 }),
+      Balance.findOne({ user: userId }).select('-_id -__v').lean(),
+      Transaction.find({ user: userId }).select('-__v').sort({ createdAt: 1 }).lean(),
+    ]);
+
+  const entries = [
+    { name: 'memories.json', data: exportMemories(memories, 'json') },
+    { name: 'memory-history.json', data: toJSON(memoryHistory) },
+    {
+      name: 'prompts.json',
+      data: toJSON(
+        promptGroups.map((group) => ({
+          ...group,
+          prompts: prompts.filter((prompt) => prompt.groupId?.toString() === group._id.toString()),
+        })),
+      ),
+    },
+    { name: 'agents.json', data: toJSON(agents) },
+    { name: 'files.json', data: toJSON(files ?? []) },
+    { name: 'balance.json', data: toJSON({ balance, transactions }) },
+  ];
+  for (const entry of entries) {
+    await zip.add(entry);
+  }
+}
+
+/**
+ * Deletes the bundle of a data export, if any.
+ * @param {{ filepath: string, timeout?: NodeJS.Timeout }} dataExport
+ */
+async function removeExportFile(dataExport) {
+  clearTimeout(dataExport.timeout);
+  try {
+    await fs.promises.unlink(dataExport.filepath);
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      logger.error(`[DataExport] Failed to delete ${dataExport.filepath}`, error);
+    }
+  }
+}
+
+/**
+ * Generates the bundle of a data export and marks it as ready, or failed.
+ * @param {string} userId
+ * @param {NonNullable<ReturnType<typeof dataExports.get>>} dataExport
+ */
+async function generateExport(userId, dataExport) {
+  /** @type {fs.WriteStream | undefined} */
+  let stream;
+  try {
+    await fs.promises.mkdir(path.dirname(dataExport.filepath), { recursive: true });
+    stream = fs.createWriteStream(dataExport.filepath);
+    const zip = new ZipWriter(stream);
+    await writeUserData(userId, zip);
+    await zip.finish();
+
+    if (dataExports.get(userId)?.id !== dataExport.id) {
+      await removeExportFile(dataExport);
+      return;
+    }
+    dataExport.status = 'ready';
+    dataExport.expiresAt = new Date(Date.now() + EXPORT_TTL);
+    dataExport.timeout = setTimeout(() => {
+      if (dataExports.get(userId)?.id === dataExport.id) {
+        dataExports.delete(userId);
+      }
+      removeExportFile(dataExport);
+    }, EXPORT_TTL);
+    dataExport.timeout.unref?.();
+    logger.debug(`[DataExport] Generated data export for user ${userId}`);
+  } catch (error) {
+    logger.error(`[DataExport] Failed to generate data export for user ${userId}`, error);
+    if (stream && !stream.closed) {
+      stream.destroy();
+      await once(stream, 'close');
+    }
+    await removeExportFile(dataExport);
+    dataExport.status = 'failed';
+  }
+}
+
+/**
+ * Returns the status of the user's latest data export.
+ * @param {string} userId
+ * @returns {import('librechat-data-provider').TDataExportStatus}
+ */
+function getDataExportStatus(userId) {
+  const dataExport = dataExports.get(userId);
+  if (!dataExport) {
+    return { status: 'none' };
+  }
+  return {
+    status: dataExport.status,
+    createdAt: dataExport.createdAt.toISOString(),
+    expiresAt: dataExport.expiresAt?.toISOString(),
+  };
+}
+
+/**
+ * Starts generating a bundle of the user's data in the background, replacing the previous one.
+ * An export that is still being generated is returned as is.
+ *
+ * @param {ServerRequest} req
+ * @returns {Promise<import('librechat-data-provider').TDataExportStatus>}
+ */
+async function startDataExport(req) {
+  const userId = req.user.id;
+  const previous = dataExports.get(userId);
+  if (previous?.status === 'pending') {
+    return getDataExportStatus(userId);
+  }
+  if (previous) {
+    await removeExportFile(previous);
+  }
+
+  const id = uuidv4();
+  const dataExport = {
+    id,
+    status: 'pending',
+    createdAt: new Date(),
+    filepath: path.join(req.app.locals.paths.uploads, 'temp', userId, `data-export-${id}.zip`),
+  };
+  dataExports.set(userId, dataExport);
+  generateExport(userId, dataExport);
+  return getDataExportStatus(userId);
+}
+
+/**
+ * Returns the path and download name of the user's bundle, if it is ready.
+ * @param {string} userId
+ * @returns {{ filepath: string, filename: string } | null}
+ */
+function getDataExportFile(userId) {
+  const dataExport = dataExports.get(userId);
+  if (dataExport?.status !== 'ready') {
+    return null;
+  }
+  return {
+    filepath: dataExport.filepath,
+    filename: `librechat-data-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`,
+  };
+}
+
+module.exports = {
+  writeUserData,
+  startDataExport,
+  getDataExportFile,
+  getDataExportStatus,
+};
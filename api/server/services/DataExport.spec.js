@@ -0,0 +1,188 @@
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const { Time } = require('librechat-data-provider');
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+/** Writes the entries of the bundle as JSON instead of a ZIP archive, to read them back */
+jest.mock('@librechat/api', () => {
+  const { once } = require('events');
+  return {
+    exportMemories: jest.fn((memories) => JSON.stringify(memories)),
+    ZipWriter: jest.fn().mockImplementation((stream) => {
+      const entries = [];
+      return {
+        add: jest.fn(async (entry) => {
+          entries.push(entry);
+        }),
+        finish: jest.fn(async () => {
+          stream.end(JSON.stringify(entries));
+          await once(stream, 'finish');
+        }),
+      };
+    }),
+  };
+});
+
+/** Models over in-memory documents, matching equality and `$in` filters */
+jest.mock('~/db/models', () => {
+  const matches = (doc, filter) =>
+    Object.entries(filter).every(([key, value]) =>
+      value?.$in ? value.$in.includes(doc[key]) : doc[key] === value,
+    );
+  const createQuery = (result) => {
+    const query = {
+      select: () => query,
+      sort: () => query,
+      lean: () => query,
+      cursor: () => ({
+        async *[Symbol.asyncIterator]() {
+          yield* result;
+        },
+      }),
+      then: (resolve, reject) => Promise.resolve(result).then(resolve, reject),
+    };
+    return query;
+  };
+  const createModel = () => {
+    const model = { docs: [] };
+    model.find = jest.fn((filter) => createQuery(model.docs.filter((doc) => matches(doc, filter))));
+    model.findOne = jest.fn((filter) =>
+      createQuery(model.docs.find((doc) => matches(doc, filter)) ?? null),
+    );
+    return model;
+  };
+  return {
+    Agent: createModel(),
+    Prompt: createModel(),
+    Balance: createModel(),
+    Message: createModel(),
+    PromptGroup: createModel(),
+    Transaction: createModel(),
+    Conversation: createModel(),
+  };
+});
+
+jest.mock('~/models', () => ({
+  getFiles: jest.fn(),
+  getAllUserMemories: jest.fn(),
+  getMemoryHistory: jest.fn(),
+}));
+
+const models = require('~/db/models');
+const { getFiles, getAllUserMemories, getMemoryHistory } = require('~/models');
+const { startDataExport, getDataExportFile, getDataExportStatus } = require('./DataExport');
+
+/** Waits for the export of a user to leave the given status */
+async function waitForStatus(userId, status) {
+  for (let i = 0; i < 10000 && getDataExportStatus(userId).status === status; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return getDataExportStatus(userId);
+}
+
+describe('DataExport', () => {
+  let uploads;
+
+  const createRequest = (userId) => ({
+    user: { id: userId },
+    app: { locals: { paths: { uploads } } },
+  });
+
+  /** Reads the entries of a user's bundle, by name */
+  const readBundle = (userId) => {
+    const { filepath } = getDataExportFile(userId);
+    const entries = JSON.parse(fs.readFileSync(filepath, 'utf8'));
+    return Object.fromEntries(entries.map(({ name, data }) => [name, JSON.parse(data)]));
+  };
+
+  beforeEach(() => {
+    uploads = fs.mkdtempSync(path.join(os.tmpdir(), 'data-export-'));
+    for (const model of Object.values(models)) {
+      model.docs = [];
+    }
+    models.Conversation.docs = [
+      { user: 'user_a', conversationId: 'convo_a', title: 'Mine', endpoint: 'agents' },
+      { user: 'user_b', conversationId: 'convo_b', title: 'Theirs', endpoint: 'agents' },
+    ];
+    models.Message.docs = [
+      { user: 'user_a', conversationId: 'convo_a', messageId: 'message_a', text: 'Hi' },
+      { user: 'user_b', conversationId: 'convo_b', messageId: 'message_b', text: 'Hello' },
+      { user: 'user_b', conversationId: 'convo_a', messageId: 'message_c', text: 'Intruder' },
+    ];
+    models.Agent.docs = [
+      { author: 'user_a', id: 'agent_a' },
+      { author: 'user_b', id: 'agent_b' },
+    ];
+    models.Balance.docs = [
+      { user: 'user_a', tokenCredits: 10 },
+      { user: 'user_b', tokenCredits: 20 },
+    ];
+    getFiles.mockImplementation(async ({ user }) => [{ user, file_id: `file_${user}` }]);
+    getAllUserMemories.mockImplementation(async (userId) => [{ userId, key: 'food' }]);
+    getMemoryHistory.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(uploads, { recursive: true, force: true });
+  });
+
+  it('should generate a bundle that expires after an hour', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    const userId = 'user_expiry';
+    expect(getDataExportStatus(userId)).toEqual({ status: 'none' });
+
+    const started = await startDataExport(createRequest(userId));
+    expect(started.status).toBe('pending');
+    expect(getDataExportFile(userId)).toBeNull();
+
+    const ready = await waitForStatus(userId, 'pending');
+    expect(ready.status).toBe('ready');
+    expect(new Date(ready.expiresAt).getTime() - Date.now()).toBe(Time.ONE_HOUR);
+    const { filepath, filename } = getDataExportFile(userId);
+    expect(fs.existsSync(filepath)).toBe(true);
+    expect(filename).toMatch(/^librechat-data-\d{4}-\d{2}-\d{2}\.zip$/);
+
+    jest.advanceTimersByTime(Time.ONE_HOUR);
+    expect(getDataExportStatus(userId)).toEqual({ status: 'none' });
+    await waitForStatus(userId, 'none');
+    for (let i = 0; i < 10000 && fs.existsSync(filepath); i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    expect(fs.existsSync(filepath)).toBe(false);
+  });
+
+  it('should mark exports that cannot be generated as failed', async () => {
+    const userId = 'user_failed';
+    getAllUserMemories.mockRejectedValue(new Error('Database unavailable'));
+
+    await startDataExport(createRequest(userId));
+
+    expect((await waitForStatus(userId, 'pending')).status).toBe('failed');
+    expect(getDataExportFile(userId)).toBeNull();
+    expect(fs.readdirSync(path.join(uploads, 'temp', userId))).toEqual([]);
+  });
+
+  it("should only include the requesting user's data", async () => {
+    await startDataExport(createRequest('user_a'));
+    expect((await waitForStatus('user_a', 'pending')).status).toBe('ready');
+
+    const bundle = readBundle('user_a');
+    expect(Object.keys(bundle).filter((name) => name.startsWith('conversations/'))).toEqual([
+      'conversations/convo_a.json',
+    ]);
+    expect(bundle['conversations/convo_a.json']).toMatchObject({
+      conversationId: 'convo_a',
+      title: 'Mine',
+      messages: [{ messageId: 'message_a' }],
+    });
+    expect(bundle['agents.json']).toEqual([{ author: 'user_a', id: 'agent_a' }]);
+    expect(bundle['files.json']).toEqual([{ user: 'user_a', file_id: 'file_user_a' }]);
+    expect(bundle['memories.json']).toEqual([{ userId: 'user_a', key: 'food' }]);
+    expect(bundle['balance.json'].balance).toEqual({ user: 'user_a', tokenCredits: 10 });
+  });
+});
@@ -0,0 +1,31 @@
+const OpenAI = require('openai');
+const { extractEnvVariable, envVarRegex } = require('librechat-data-provider');
+
+/**
+ * Creates a function that embeds texts with the embeddings API configured in `librechat.yaml`.
+ *
+ * @param {TEmbeddingsConfig | undefined} config - The `embeddings` configuration.
+ * @returns {{ model: string; embed: (texts: string[]) => Promise<number[][]> } | undefined}
+ * The model and embedding function, or undefined if embeddings are not configured.
+ */
+function getEmbeddings(config) {
+  const apiKey = config?.apiKey ? extractEnvVariable(config.apiKey) : '';
+  if (!config || !apiKey || envVarRegex.test(apiKey)) {
+    return;
+  }
+
+  const client = new OpenAI({
+    apiKey,
+    baseURL: config.baseURL ? extractEnvVariable(config.baseURL) : undefined,
+  });
+  const model = config.model ?? 'text-embedding-3-small';
+  return {
+    model,
+    embed: async (texts) => {
+      const response = await client.embeddings.create({ model, input: texts });
+      return response.data.sort((a, b) => a.index - b.index).map(({ embedding }) => embedding);
+    },
+  };
+}
+
+module.exports = { getEmbeddings };
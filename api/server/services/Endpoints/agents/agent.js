@@ -12,6 +12,7 @@ const {
   providerEndpointMap,
 } = require('librechat-data-provider');
 const { getProviderConfig } = require('~/server/services/Endpoints');
+const { selectAgentMCPTools } = require('~/server/services/MCP');
 const generateArtifactsPrompt = require('~/app/clients/prompts/artifacts');
 const { processFiles } = require('~/server/services/Files/process');
 const { getFiles, getToolFilesByIds } = require('~/models/File');
@@ -91,7 +92,7 @@ const initializeAgent = async ({
       res,
       provider,
       agentId: agent.id,
-      tools: agent.tools,
+      tools: await selectAgentMCPTools({ req, agent }),
       model: agent.model,
       tool_resources,
     })) ?? {};
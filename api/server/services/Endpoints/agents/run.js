@@ -0,0 +1,228 @@
+const { Writable } = require('stream');
+const { EventEmitter } = require('events');
+const { logger } = require('@librechat/data-schemas');
+const { Constants, ContentTypes, EModelEndpoint } = require('librechat-data-provider');
+const {
+  checkBan,
+  moderateText,
+  messageIpLimiter,
+  concurrentLimiter,
+  messageUserLimiter,
+} = require('~/server/middleware');
+const { getConvo, getMessages, saveMessage, saveConvo } = require('~/models');
+const { disposeClient } = require('~/server/cleanup');
+const { isEnabled } = require('~/server/utils');
+const { initializeClient } = require('./initialize');
+const { buildOptions } = require('./build');
+const addTitle = require('./title');
+
+const { LIMIT_CONCURRENT_MESSAGES, LIMIT_MESSAGE_IP, LIMIT_MESSAGE_USER } = process.env ?? {};
+
+/** Middleware of the agent chat route checking its messages, in its order */
+const agentChatChecks = [
+  checkBan,
+  ...(isEnabled(LIMIT_CONCURRENT_MESSAGES) ? [concurrentLimiter] : []),
+  ...(isEnabled(LIMIT_MESSAGE_IP) ? [messageIpLimiter] : []),
+  ...(isEnabled(LIMIT_MESSAGE_USER) ? [messageUserLimiter] : []),
+  moderateText,
+];
+
+/**
+ * Creates the response the checks of a run respond on when they deny it, recording what they send.
+ * Like chat responses, it emits `close` once the run ends, which releases its concurrent slot.
+ */
+function createCheckResponse() {
+  const res = new EventEmitter();
+  res.body = '';
+  res.statusCode = 200;
+  res.headersSent = false;
+  res.setHeader = () => res;
+  res.append = () => res;
+  res.clearCookie = () => res;
+  res.status = (statusCode) => {
+    res.statusCode = statusCode;
+    return res;
+  };
+  res.write = (chunk) => {
+    res.body += chunk;
+    return true;
+  };
+  res.end = (chunk) => {
+    res.write(chunk ?? '');
+    res.headersSent = true;
+    return res;
+  };
+  res.send = (body) => res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  res.json = (body) => res.end(JSON.stringify(body));
+  return res;
+}
+
+/**
+ * Applies middleware checking chat messages, such as `checkBan` or the message limiters, to a run.
+ * @param {Function[]} checks
+ * @param {ServerRequest} req - The request of the run.
+ * @param {ReturnType<typeof createCheckResponse>} res
+ * @returns {Promise<void>} Rejects with the error a check responded with, if one denied the run.
+ */
+async function applyChecks(checks, req, res) {
+  for (const check of checks) {
+    let passed = false;
+    let checkError;
+    await check(req, res, (error) => {
+      passed = !error;
+      checkError = error;
+    });
+    if (checkError) {
+      throw checkError;
+    }
+    if (!passed) {
+      /** Chat errors are sent as an `error` event, others as the response body */
+      const error = /^event: error\ndata: (.*)$/m.exec(res.body);
+      throw new Error(`The run was denied: ${error ? JSON.parse(error[1]) : res.body}`);
+    }
+  }
+}
+
+/**
+ * Checks a run before it starts with middleware checking chat messages.
+ * @param {Function[]} checks - e.g. `agentChatChecks`, or `checkBan` alone.
+ * @param {ServerRequest} req - The request of the run.
+ * @returns {Promise<() => void>} Releases what the checks hold, such as a concurrent slot,
+ *  once the run ends. Rejects with the error a check responded with, if one denied the run.
+ */
+async function checkRun(checks, req) {
+  const res = createCheckResponse();
+  const release = () => res.emit('close');
+  try {
+    await applyChecks(checks, req, res);
+  } catch (error) {
+    release();
+    throw error;
+  }
+  return release;
+}
+
+/**
+ * Gets the text of a message, joining the text parts of agent responses.
+ * @param {Partial<TMessage>} message
+ * @returns {string}
+ */
+function getMessageText(message) {
+  if (message.text) {
+    return message.text;
+  }
+  return (message.content ?? [])
+    .filter((part) => part?.type === ContentTypes.TEXT)
+    .map((part) => (typeof part.text === 'string' ? part.text : (part.text?.value ?? '')))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Runs an agent on a message outside of a chat request, as a new conversation
+ * or continuing one of the user's conversations.
+ * The events the agent streams are discarded; the messages are saved as in chat.
+ * Since nobody can answer them, requests for the user's input during the run, such as
+ * tool approvals, fail right away.
+ *
+ * @param {object} params
+ * @param {ServerRequest} params.req - A request of the user running the agent.
+ * @param {string} params.agent_id - The agent to run.
+ * @param {string} params.text - The user message.
+ * @param {string} [params.conversationId] - The conversation to continue.
+ * @param {string} [params.title] - Title of a new conversation, instead of a generated one.
+ * @param {AbortSignal} [params.signal] - Aborts the run.
+ * @param {Function[]} [params.checks] - Middleware checking chat messages to apply to the run
+ *  before it starts, e.g. `agentChatChecks` for runs users request like chat messages.
+ * @returns {Promise<{ conversationId: string; messageId: string; text: string }>}
+ */
+async function runAgent({ req, agent_id, text, conversationId, title, signal, checks = [] }) {
+  let parentMessageId = Constants.NO_PARENT;
+  if (conversationId) {
+    const convo = await getConvo(req.user.id, conversationId);
+    if (!convo) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const messages = await getMessages({ conversationId, user: req.user.id }, 'messageId');
+    parentMessageId = messages[messages.length - 1]?.messageId ?? Constants.NO_PARENT;
+  }
+
+  /** Inherits the user and app of the original request */
+  const runReq = Object.create(req);
+  runReq.body = { text, agent_id, conversationId, endpoint: EModelEndpoint.agents };
+  runReq.headless = true;
+  const res = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+
+  const endpointOption = buildOptions(runReq, EModelEndpoint.agents, { agent_id });
+  if (!(await endpointOption.agent)) {
+    throw new Error(`Agent ${agent_id} not found`);
+  }
+
+  const releaseChecks = await checkRun(checks, runReq);
+
+  const abortController = new AbortController();
+  const onAbort = () => abortController.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let client;
+  /** @type {Promise<void> | undefined} */
+  let titlePromise;
+  try {
+    ({ client } = await initializeClient({ req: runReq, res, endpointOption }));
+
+    /** @type {TMessage | undefined} */
+    let userMessage;
+    const response = await client.sendMessage(text, {
+      user: req.user.id,
+      conversationId,
+      parentMessageId,
+      abortController,
+      getReqData: (data) => {
+        userMessage = data.userMessage ?? userMessage;
+      },
+      progressOptions: { res },
+    });
+
+    const { databasePromise, ...responseMessage } = response;
+    await databasePromise;
+    if (client.savedMessageIds && !client.savedMessageIds.has(responseMessage.messageId)) {
+      await saveMessage(
+        runReq,
+        { ...responseMessage, endpoint: EModelEndpoint.agents, user: req.user.id },
+        { context: 'api/server/services/Endpoints/agents/run.js - response end' },
+      );
+    }
+    if (userMessage && !client.skipSaveUserMessage) {
+      await saveMessage(runReq, userMessage, {
+        context: 'api/server/services/Endpoints/agents/run.js - user message',
+      });
+    }
+
+    if (!conversationId && title) {
+      await saveConvo(
+        runReq,
+        { conversationId: responseMessage.conversationId, title },
+        { context: 'api/server/services/Endpoints/agents/run.js - title' },
+      );
+    } else if (!conversationId) {
+      titlePromise = addTitle(runReq, { text, response: { ...responseMessage }, client }).catch(
+        (error) => logger.error('[runAgent] Error generating title', error),
+      );
+    }
+
+    return {
+      conversationId: responseMessage.conversationId,
+      messageId: responseMessage.messageId,
+      text: getMessageText(responseMessage),
+    };
+  } finally {
+    releaseChecks();
+    signal?.removeEventListener('abort', onAbort);
+    if (client) {
+      const runClient = client;
+      Promise.resolve(titlePromise).finally(() => disposeClient(runClient));
+    }
+  }
+}
+
+module.exports = { runAgent, checkRun, getMessageText, agentChatChecks };
@@ -0,0 +1,88 @@
+const { initializeClient } = require('./initialize');
+const { runAgent } = require('./run');
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('~/server/middleware', () => ({
+  checkBan: jest.fn(),
+  moderateText: jest.fn(),
+  messageIpLimiter: jest.fn(),
+  concurrentLimiter: jest.fn(),
+  messageUserLimiter: jest.fn(),
+}));
+
+jest.mock('~/models', () => ({
+  getConvo: jest.fn(),
+  getMessages: jest.fn(),
+  saveMessage: jest.fn(),
+  saveConvo: jest.fn(),
+}));
+
+jest.mock('~/server/cleanup', () => ({ disposeClient: jest.fn() }));
+jest.mock('~/server/utils', () => ({ isEnabled: jest.fn(() => false) }));
+jest.mock('./build', () => ({ buildOptions: jest.fn(() => ({ agent: Promise.resolve({}) })) }));
+jest.mock('./title', () => jest.fn().mockResolvedValue(undefined));
+jest.mock('./initialize', () => ({ initializeClient: jest.fn() }));
+
+describe('runAgent', () => {
+  const req = { user: { id: 'user_1' }, headers: {} };
+  const params = { req, agent_id: 'agent_1', text: 'Hi', title: 'Run' };
+
+  beforeEach(() => {
+    initializeClient.mockResolvedValue({
+      client: {
+        sendMessage: jest.fn().mockResolvedValue({
+          conversationId: 'convo_1',
+          messageId: 'message_1',
+          text: 'Hello',
+        }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should refuse runs that a check denies, with the error it responded with', async () => {
+    const passCheck = jest.fn(async (_req, _res, next) => next());
+    const denyCheck = jest.fn(async (_req, res) => {
+      res.write('event: message\ndata: {}\n\n');
+      res.write(`event: error\ndata: ${JSON.stringify('{"type":"message_limit"}')}\n\n`);
+      res.end();
+    });
+
+    await expect(runAgent({ ...params, checks: [passCheck, denyCheck] })).rejects.toThrow(
+      'The run was denied: {"type":"message_limit"}',
+    );
+    expect(passCheck.mock.calls[0][0].body.text).toBe('Hi');
+    expect(initializeClient).not.toHaveBeenCalled();
+
+    const banCheck = async (_req, res) => res.status(403).json({ message: 'Banned' });
+    await expect(runAgent({ ...params, checks: [banCheck] })).rejects.toThrow(
+      'The run was denied: {"message":"Banned"}',
+    );
+  });
+
+  it('should run once the checks pass, releasing what they hold when it ends', async () => {
+    const release = jest.fn();
+    const concurrentCheck = async (_req, res, next) => {
+      res.on('close', release);
+      next();
+    };
+
+    await expect(runAgent({ ...params, checks: [concurrentCheck] })).resolves.toEqual({
+      conversationId: 'convo_1',
+      messageId: 'message_1',
+      text: 'Hello',
+    });
+    expect(release).toHaveBeenCalled();
+
+    const denyCheck = async (_req, res) => res.status(429).json({ message: 'Too many' });
+    release.mockClear();
+    await expect(runAgent({ ...params, checks: [concurrentCheck, denyCheck] })).rejects.toThrow();
+    expect(release).toHaveBeenCalled();
+  });
+});
@@ -1,18 +1,32 @@
 const { z } = require('zod');
+const { nanoid } = require('nanoid');
 const { tool } = require('@langchain/core/tools');
 const { logger } = require('@librechat/data-schemas');
-const { Time, CacheKeys, StepTypes } = require('librechat-data-provider');
+const { Time, CacheKeys, StepTypes, EModelEndpoint } = require('librechat-data-provider');
 const { Constants: AgentConstants, Providers, GraphEvents } = require('@librechat/agents');
 const { Constants, ContentTypes, isAssistantsEndpoint } = require('librechat-data-provider');
 const {
   sendEvent,
+  mcpToolPattern,
   MCPOAuthHandler,
+  getSamplingContext,
   normalizeServerName,
+  getUserMCPServerVars,
+  createSamplingHandler,
   convertWithResolvedRefs,
+  createSamplingCompletion,
+  selectRelevantTools,
 } = require('@librechat/api');
-const { findToken, createToken, updateToken } = require('~/models');
+const { findToken, createToken, updateToken, findPluginAuthsByKeys } = require('~/models');
+const { requestToolApproval } = require('~/server/services/Tools/approval');
+const { loadUserMCPServers } = require('./UserMCPServers');
+const { getEmbeddings } = require('./Embeddings');
+const { getSpentTokens } = require('~/models/Transaction');
+const { getProviderConfig } = require('~/server/services/Endpoints');
 const { getMCPManager, getFlowStateManager } = require('~/config');
-const { getCachedTools } = require('./Config');
+const { getCachedTools, getCustomConfig, getBalanceConfig } = require('./Config');
+const { checkBalance } = require('~/models/balanceMethods');
+const { spendTokens } = require('~/models/spendTokens');
 const { getLogStores } = require('~/cache');
 
 /**
@@ -92,6 +106,268 @@ function createAbortHandler({ userId, serverName, toolName, flowManager }) {
   };
 }
 
+/**
+ * Creates a function that fails a request for the user's input right away, for runs without
+ * a client to answer it, instead of waiting for the request to expire.
+ * @param {string} feature - What is not available, e.g. "Requesting user input".
+ */
+function createHeadlessRejection(feature) {
+  return async function () {
+    throw new Error(`${feature} is not available in runs without the user`);
+  };
+}
+
+/**
+ * Creates a function that asks the user to approve a sampling request of an MCP server,
+ * shown with the tool call that made it, and resolves with the user's decision.
+ *
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @param {string} params.userId - The ID of the user who approves the request.
+ * @param {FlowStateManager<any>} params.flowManager - The flow manager instance.
+ */
+function createSamplingApproval({ res, stepId, toolCall, userId, flowManager }) {
+  /**
+   * @param {Omit<import('librechat-data-provider').TMCPSamplingApproval, 'flowId' | 'expires_at'>} approval
+   * @param {AbortSignal} signal
+   * @returns {Promise<boolean>}
+   */
+  return async function (approval, signal) {
+    const flowId = nanoid();
+    const decision = flowManager.createFlow(
+      flowId,
+      'mcp_sampling',
+      { userId, serverName: approval.serverName },
+      signal,
+    );
+    /** @type {{ id: string; delta: AgentToolCallDelta }} */
+    const data = {
+      id: stepId,
+      delta: {
+        type: StepTypes.TOOL_CALLS,
+        tool_calls: [{ ...toolCall, args: '' }],
+        /** Flows expire after three minutes, see `getFlowStateManager` */
+        sampling: { ...approval, flowId, expires_at: Date.now() + Time.ONE_MINUTE * 3 },
+      },
+    };
+    sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+    try {
+      return await decision;
+    } finally {
+      sendEvent(res, {
+        event: GraphEvents.ON_RUN_STEP_DELTA,
+        data: { id: stepId, delta: { type: StepTypes.TOOL_CALLS, tool_calls: [{ ...toolCall }] } },
+      });
+    }
+  };
+}
+
+/**
+ * Creates a function that shows the form of an MCP server's elicitation request with the tool
+ * call that made it, and resolves with the user's response once the user submits it.
+ *
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.serverName - The name of the server requesting input.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @param {string} params.userId - The ID of the user who responds to the request.
+ * @param {FlowStateManager<any>} params.flowManager - The flow manager instance.
+ * @returns {import('@librechat/api').ElicitationHandler}
+ */
+function createElicitationHandler({ res, serverName, stepId, toolCall, userId, flowManager }) {
+  return async function ({ message, requestedSchema }, signal) {
+    const flowId = nanoid();
+    const response = flowManager.createFlow(
+      flowId,
+      'mcp_elicitation',
+      { userId, serverName, requestedSchema },
+      signal,
+    );
+    /** @type {{ id: string; delta: AgentToolCallDelta }} */
+    const data = {
+      id: stepId,
+      delta: {
+        type: StepTypes.TOOL_CALLS,
+        tool_calls: [{ ...toolCall, args: '' }],
+        /** Flows expire after three minutes, see `getFlowStateManager` */
+        elicitation: {
+          flowId,
+          serverName,
+          message,
+          requestedSchema,
+          expires_at: Date.now() + Time.ONE_MINUTE * 3,
+        },
+      },
+    };
+    sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+    try {
+      return await response;
+    } finally {
+      sendEvent(res, {
+        event: GraphEvents.ON_RUN_STEP_DELTA,
+        data: { id: stepId, delta: { type: StepTypes.TOOL_CALLS, tool_calls: [{ ...toolCall }] } },
+      });
+    }
+  };
+}
+
+/**
+ * Creates a callback that streams the progress notifications of an MCP tool call to its step.
+ *
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @returns {(progress: import('librechat-data-provider').TMCPProgress) => void}
+ */
+function createProgressHandler({ res, stepId, toolCall }) {
+  return function ({ progress, total, message }) {
+    /** @type {{ id: string; delta: AgentToolCallDelta }} */
+    const data = {
+      id: stepId,
+      delta: {
+        type: StepTypes.TOOL_CALLS,
+        tool_calls: [{ ...toolCall, args: '' }],
+        mcp_progress: { progress, total, message },
+      },
+    };
+    sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+  };
+}
+
+/**
+ * Creates a callback that marks the step of an MCP tool call as served from the tool result cache.
+ *
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @returns {(cachedAt: number) => void}
+ */
+function createCachedResultHandler({ res, stepId, toolCall }) {
+  return function (cachedAt) {
+    /** @type {{ id: string; delta: AgentToolCallDelta }} */
+    const data = {
+      id: stepId,
+      delta: {
+        type: StepTypes.TOOL_CALLS,
+        tool_calls: [{ ...toolCall, args: '' }],
+        mcp_cached: { cachedAt },
+      },
+    };
+    sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+  };
+}
+
+/**
+ * Resolves the LLM configuration of an endpoint and model, as used for conversation titles.
+ *
+ * @param {object} params
+ * @param {ServerRequest} params.req - The Express request object.
+ * @param {ServerResponse} params.res - The Express response object.
+ * @param {string} params.endpoint - The endpoint of the agent that called the tool.
+ * @param {string} params.model - The model of the agent that called the tool.
+ * @returns {Promise<import('@librechat/agents').LLMConfig>}
+ */
+async function getSamplingLLMConfig({ req, res, endpoint, model }) {
+  const { getOptions, overrideProvider } = await getProviderConfig(endpoint);
+  const options = await getOptions({
+    req,
+    res,
+    optionsOnly: true,
+    overrideEndpoint: endpoint,
+    overrideModel: model,
+    endpointOption: { model_parameters: { model } },
+  });
+
+  let provider = options.provider ?? overrideProvider ?? endpoint;
+  if (
+    endpoint === EModelEndpoint.azureOpenAI &&
+    options.llmConfig?.azureOpenAIApiInstanceName == null
+  ) {
+    provider = Providers.OPENAI;
+  }
+
+  const llmConfig = { ...options.llmConfig, provider };
+  if (options.configOptions) {
+    llmConfig.configuration = options.configOptions;
+  }
+  return llmConfig;
+}
+
+/**
+ * Creates the handler of sampling requests made by an MCP server while one of its tools runs,
+ * completed with the model of the agent that called the tool, if the server enables sampling.
+ *
+ * @param {object} params
+ * @param {ServerRequest} params.req - The Express request object, containing the user.
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.serverName - The name of the MCP server.
+ * @param {string} params.endpoint - The endpoint of the agent that called the tool.
+ * @param {string} params.model - The model of the agent that called the tool.
+ * @param {string} [params.conversationId] - The ID of the conversation, for transactions.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @param {FlowStateManager<any>} params.flowManager - The flow manager instance.
+ * @returns {Promise<import('@librechat/api').SamplingHandler | undefined>}
+ */
+async function createToolSamplingHandler({
+  req,
+  res,
+  serverName,
+  endpoint,
+  model,
+  conversationId,
+  stepId,
+  toolCall,
+  flowManager,
+}) {
+  const customConfig = await getCustomConfig();
+  const options = customConfig?.mcpServers?.[serverName]?.sampling;
+  if (!options) {
+    return;
+  }
+
+  const userId = req.user.id;
+  const context = getSamplingContext(serverName);
+  return createSamplingHandler({
+    serverName,
+    userId,
+    options,
+    createCompletion: async (request, maxTokens, signal) => {
+      const llmConfig = await getSamplingLLMConfig({ req, res, endpoint, model });
+      return createSamplingCompletion(llmConfig)(request, maxTokens, signal);
+    },
+    getSpentTokens: (since) =>
+      getSpentTokens({ user: userId, context, createdAt: { $gte: since } }),
+    checkBalance: async (maxTokens) => {
+      const balance = await getBalanceConfig();
+      if (!balance?.enabled) {
+        return;
+      }
+      await checkBalance({
+        req,
+        res,
+        txData: { user: userId, tokenType: 'completion', amount: maxTokens, endpoint, model },
+      });
+    },
+    recordUsage: async ({ model: usageModel, usage }) => {
+      for (const { input_tokens, output_tokens } of usage) {
+        await spendTokens(
+          { user: userId, conversationId, model: usageModel, context },
+          { promptTokens: input_tokens, completionTokens: output_tokens },
+        );
+      }
+    },
+    requestApproval: req.headless
+      ? createHeadlessRejection('Approving sampling requests')
+      : createSamplingApproval({ res, stepId, toolCall, userId, flowManager }),
+  });
+}
+
 /**
  * Creates a general tool for an entire action set.
  *
@@ -103,8 +379,9 @@ function createAbortHandler({ userId, serverName, toolName, flowManager }) {
  * @param {string} params.model - The model for the tool.
  * @returns { Promise<typeof tool | { _call: (toolInput: Object | string) => unknown}> } An object with `_call` method to execute the tool input.
  */
-async function createMCPTool({ req, res, toolKey, provider: _provider }) {
-  const availableTools = await getCachedTools({ includeGlobal: true });
+async function createMCPTool({ req, res, toolKey, model, provider: _provider }) {
+  await loadUserMCPServers(req.user?.id);
+  const availableTools = await getCachedTools({ userId: req.user?.id, includeGlobal: true });
   const toolDefinition = availableTools?.[toolKey]?.function;
   if (!toolDefinition) {
     logger.error(`Tool ${toolKey} not found in available tools`);
@@ -149,14 +426,16 @@ async function createMCPTool({ req, res, toolKey, provider: _provider }) {
 
       const { args: _args, stepId, ...toolCall } = config.toolCall ?? {};
       const loginFlowId = `${serverName}:oauth_login:${config.metadata.thread_id}:${config.metadata.run_id}`;
-      const oauthStart = createOAuthStart({
-        res,
-        stepId,
-        toolCall,
-        loginFlowId,
-        flowManager,
-        signal: derivedSignal,
-      });
+      const oauthStart = req.headless
+        ? createHeadlessRejection('Signing in')
+        : createOAuthStart({
+            res,
+            stepId,
+            toolCall,
+            loginFlowId,
+            flowManager,
+            signal: derivedSignal,
+          });
       const oauthEnd = createOAuthEnd({
         res,
         stepId,
@@ -171,6 +450,33 @@ async function createMCPTool({ req, res, toolKey, provider: _provider }) {
       const customUserVars =
         config?.configurable?.userMCPAuthMap?.[`${Constants.mcp_prefix}${serverName}`];
 
+      const samplingHandler = await createToolSamplingHandler({
+        req,
+        res,
+        serverName,
+        endpoint: _provider,
+        model: model ?? config?.configurable?.model,
+        conversationId: config?.configurable?.thread_id,
+        stepId,
+        toolCall,
+        flowManager,
+      });
+
+      /** @type {import('@librechat/api').ElicitationHandler | undefined} */
+      let elicitationHandler;
+      if (req.headless) {
+        elicitationHandler = createHeadlessRejection('Requesting user input');
+      } else if (stepId) {
+        elicitationHandler = createElicitationHandler({
+          res,
+          serverName,
+          stepId,
+          toolCall,
+          userId,
+          flowManager,
+        });
+      }
+
       const result = await mcpManager.callTool({
         serverName,
         toolName,
@@ -178,6 +484,8 @@ async function createMCPTool({ req, res, toolKey, provider: _provider }) {
         toolArguments,
         options: {
           signal: derivedSignal,
+          onprogress: stepId ? createProgressHandler({ res, stepId, toolCall }) : undefined,
+          resetTimeoutOnProgress: true,
         },
         user: config?.configurable?.user,
         customUserVars,
@@ -189,6 +497,18 @@ async function createMCPTool({ req, res, toolKey, provider: _provider }) {
         },
         oauthStart,
         oauthEnd,
+        samplingHandler,
+        elicitationHandler,
+        requestApproval: (proposedArguments) =>
+          requestToolApproval({
+            res,
+            userId,
+            config,
+            headless: req.headless,
+            toolArguments: proposedArguments,
+          }),
+        resultCache: getLogStores(CacheKeys.MCP_TOOL_RESULTS),
+        onCachedResult: stepId ? createCachedResultHandler({ res, stepId, toolCall }) : undefined,
       });
 
       if (isAssistantsEndpoint(provider) && Array.isArray(result)) {
@@ -238,6 +558,73 @@ async function createMCPTool({ req, res, toolKey, provider: _provider }) {
   return toolInstance;
 }
 
+/**
+ * Narrows the MCP tools of an agent to the `mcp_tool_retrieval` ones most relevant to the
+ * user's message, if set and embeddings are configured. Other tools are kept.
+ *
+ * @param {object} params
+ * @param {ServerRequest} params.req - The Express request object, containing the user's message.
+ * @param {Agent} params.agent - The agent whose tools to select.
+ * @returns {Promise<string[] | undefined>} The tools of the agent to load.
+ */
+async function selectAgentMCPTools({ req, agent }) {
+  const k = agent.mcp_tool_retrieval;
+  const tools = agent.tools ?? [];
+  const mcpTools = tools.filter((tool) => mcpToolPattern.test(tool));
+  const embeddings = getEmbeddings(req.app.locals.embeddings);
+  if (!k || mcpTools.length <= k || !embeddings) {
+    return agent.tools;
+  }
+
+  try {
+    const availableTools = await getCachedTools({ userId: req.user?.id, includeGlobal: true });
+    const selected = await selectRelevantTools({
+      query: req.body?.text ?? '',
+      tools: mcpTools.map((name) => ({
+        name,
+        description: availableTools?.[name]?.function?.description,
+      })),
+      k,
+      model: embeddings.model,
+      embed: embeddings.embed,
+    });
+    const selectedTools = new Set(selected);
+    logger.debug(`[MCP][Agent: ${agent.id}] Selected tools: ${selected.join(', ')}`);
+    return tools.filter((tool) => !mcpToolPattern.test(tool) || selectedTools.has(tool));
+  } catch (error) {
+    logger.error(`[MCP][Agent: ${agent.id}] Failed to select relevant tools, using all`, error);
+    return agent.tools;
+  }
+}
+
+/**
+ * Connection parameters for MCP requests made on the user's behalf outside of agent runs,
+ * such as browsing resources from the side panel.
+ *
+ * @param {ServerRequest} req - The Express request object, containing the user.
+ * @param {string} serverName - The name of the MCP server.
+ */
+async function getUserMCPRequestParams(req, serverName) {
+  const flowsCache = getLogStores(CacheKeys.FLOWS);
+  return {
+    user: req.user,
+    serverName,
+    flowManager: getFlowStateManager(flowsCache),
+    tokenMethods: {
+      findToken,
+      createToken,
+      updateToken,
+    },
+    customUserVars: await getUserMCPServerVars({
+      userId: req.user.id,
+      serverName,
+      findPluginAuthsByKeys,
+    }),
+  };
+}
+
 module.exports = {
   createMCPTool,
+  selectAgentMCPTools,
+  getUserMCPRequestParams,
 };
@@ -0,0 +1,128 @@
+const { checkAccess } = require('@librechat/api');
+const {
+  FileSources,
+  Permissions,
+  PermissionTypes,
+  replaceSpecialVars,
+} = require('librechat-data-provider');
+const {
+  runAgent,
+  getMessageText,
+  agentChatChecks,
+} = require('~/server/services/Endpoints/agents/run');
+const { getStrategyFunctions } = require('~/server/services/Files/strategies');
+const { getConvosByCursor } = require('~/models/Conversation');
+const { getAllPromptGroups } = require('~/models/Prompt');
+const { getListAgents } = require('~/models/Agent');
+const { getRoleByName } = require('~/models/Role');
+const { getConvo, getFiles, getMessages } = require('~/models');
+
+/** Maximum number of recent conversations listed as resources */
+const MAX_CONVERSATIONS = 100;
+
+/** File sources whose files can be streamed by their path */
+const readableSources = new Set([
+  FileSources.local,
+  FileSources.s3,
+  FileSources.firebase,
+  FileSources.azure_blob,
+]);
+
+/**
+ * @param {MongoFile} file
+ * @returns {import('@librechat/api').ServedFile}
+ */
+const toServedFile = ({ file_id, filename, type, bytes }) => ({ file_id, filename, type, bytes });
+
+/**
+ * Creates the options of the LibreChat MCP server of the user of a request,
+ * publishing agents and prompts only if the user's role may use them.
+ *
+ * @param {ServerRequest} req
+ * @returns {Promise<import('@librechat/api').LibreChatMCPServerOptions>}
+ */
+async function getMCPServerOptions(req) {
+  const userId = req.user.id;
+  const [canUseAgents, canUsePrompts] = await Promise.all(
+    [PermissionTypes.AGENTS, PermissionTypes.PROMPTS].map((permissionType) =>
+      checkAccess({
+        req,
+        user: req.user,
+        permissionType,
+        permissions: [Permissions.USE],
+        getRoleByName,
+      }),
+    ),
+  );
+
+  /** @type {import('@librechat/api').LibreChatMCPServerOptions} */
+  const options = {
+    conversations: {
+      list: async () => {
+        const { conversations = [] } = await getConvosByCursor(userId, {
+          limit: MAX_CONVERSATIONS,
+        });
+        return conversations.map(({ conversationId, title }) => ({ conversationId, title }));
+      },
+      getMessages: async (conversationId) => {
+        if (!(await getConvo(userId, conversationId))) {
+          return null;
+        }
+        const messages = await getMessages({ conversationId, user: userId });
+        return messages.map((message) => ({
+          sender: message.isCreatedByUser ? 'User' : (message.sender ?? 'Assistant'),
+          text: getMessageText(message),
+        }));
+      },
+    },
+    files: {
+      list: async () => {
+        const files = await getFiles({ user: userId });
+        return files.filter((file) => readableSources.has(file.source)).map(toServedFile);
+      },
+      read: async (fileId) => {
+        const [file] = await getFiles({ file_id: fileId, user: userId });
+        if (!file || !readableSources.has(file.source)) {
+          return null;
+        }
+        const { getDownloadStream } = getStrategyFunctions(file.source);
+        const stream = await getDownloadStream(req, file.filepath);
+        const chunks = [];
+        for await (const chunk of stream) {
+          chunks.push(Buffer.from(chunk));
+        }
+        return { file: toServedFile(file), data: Buffer.concat(chunks) };
+      },
+    },
+  };
+
+  if (canUseAgents) {
+    options.agents = {
+      list: async () => {
+        const { data } = await getListAgents({ author: userId });
+        return data.map(({ id, name, description }) => ({ id, name, description }));
+      },
+      run: ({ agent_id, text, conversationId, signal }) =>
+        runAgent({ req, agent_id, text, conversationId, signal, checks: agentChatChecks }),
+    };
+  }
+
+  if (canUsePrompts) {
+    options.prompts = {
+      list: async () => {
+        const groups = await getAllPromptGroups(req, { author: req.user._id });
+        return (Array.isArray(groups) ? groups : [])
+          .filter((group) => group.productionPrompt?.prompt)
+          .map((group) => ({
+            name: group.command || group.name,
+            description: group.oneliner,
+            text: replaceSpecialVars({ text: group.productionPrompt.prompt, user: req.user }),
+          }));
+      },
+    };
+  }
+
+  return options;
+}
+
+module.exports = { getMCPServerOptions };
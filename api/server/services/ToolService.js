@@ -29,6 +29,7 @@ const {
 const {
   createOpenAIImageTools,
   createYouTubeTools,
+  createCanvasTools,
   manifestToolMap,
   toolkits,
 } = require('~/app/clients/tools');
@@ -36,6 +37,7 @@ const { processFileURL, uploadImageBuffer } = require('~/server/services/Files/p
 const { getEndpointsConfig, getCachedTools } = require('~/server/services/Config');
 const { createOnSearchResults } = require('~/server/services/Tools/search');
 const { isActionDomainAllowed } = require('~/server/services/domains');
+const { getCanvasBaseUrl } = require('~/server/services/CanvasService');
 const { recordUsage } = require('~/server/services/Threads');
 const { loadTools } = require('~/app/clients/tools/util');
 const { redactMessage } = require('~/config/parsers');
@@ -141,6 +143,7 @@ function loadAndFormatTools({ directory, adminFilter = [], adminIncluded = [] })
     new Calculator(),
     ...createOpenAIImageTools({ override: true }),
     ...createYouTubeTools({ override: true }),
+    ...(getCanvasBaseUrl() ? createCanvasTools() : []),
   ];
   for (const toolInstance of basicToolInstances) {
     const formattedTool = formatToOpenAIAssistantTool(toolInstance);
@@ -702,6 +705,7 @@ async function loadAgentTools({ req, res, agent, tool_resources, openAIApiKey })
       const tool = await createActionTool({
         userId: req.user.id,
         res,
+        headless: req.headless,
         action,
         requestBuilder,
         zodSchema,
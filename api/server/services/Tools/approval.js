@@ -0,0 +1,91 @@
+const { nanoid } = require('nanoid');
+const { sendEvent } = require('@librechat/api');
+const { GraphEvents } = require('@librechat/agents');
+const { Time, CacheKeys, StepTypes } = require('librechat-data-provider');
+const { getFlowStateManager } = require('~/config');
+const { getLogStores } = require('~/cache');
+
+const FLOW_TYPE = 'tool_approval';
+
+/**
+ * Pauses a tool call until the user approves it: an approval card with the proposed arguments,
+ * which the user can edit, is streamed to the tool call in the client.
+ *
+ * @param {Object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.userId - The ID of the user who approves the tool call.
+ * @param {GraphRunnableConfig} params.config - The config of the tool call, with its `toolCall`.
+ * @param {Record<string, unknown>} params.toolArguments - The proposed arguments.
+ * @param {boolean} [params.headless] - Whether the run has no client to answer, see `runAgent`.
+ * @returns {Promise<Record<string, unknown>>} The arguments to call the tool with.
+ * @throws {Error} If the user denies the tool call or does not answer in time.
+ */
+async function requestToolApproval({ res, userId, config, toolArguments, headless }) {
+  if (headless) {
+    throw new Error('This tool requires approval, which is not available in runs without the user');
+  }
+  const { args: _args, stepId, ...toolCall } = config?.toolCall ?? {};
+  if (!stepId) {
+    throw new Error('This tool requires approval, which is not available for this request');
+  }
+
+  const flowId = nanoid();
+  const flowManager = getFlowStateManager(getLogStores(CacheKeys.FLOWS));
+  const decision = flowManager.createFlow(flowId, FLOW_TYPE, { userId }, config?.signal);
+
+  /** @type {{ id: string; delta: AgentToolCallDelta }} */
+  const data = {
+    id: stepId,
+    delta: {
+      type: StepTypes.TOOL_CALLS,
+      tool_calls: [{ ...toolCall, args: '' }],
+      approval: {
+        flowId,
+        args: JSON.stringify(toolArguments, null, 2),
+        /** Flows expire after three minutes, see `getFlowStateManager` */
+        expires_at: Date.now() + Time.ONE_MINUTE * 3,
+      },
+    },
+  };
+  sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+
+  /** @type {import('librechat-data-provider').Agents.ToolApprovalRequest} */
+  let result;
+  try {
+    result = await decision;
+  } finally {
+    data.delta.tool_calls = [{ ...toolCall }];
+    data.delta.approval = undefined;
+    sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+  }
+
+  if (!result.approved) {
+    throw new Error('The user denied this tool call');
+  }
+  return result.args ?? toolArguments;
+}
+
+/**
+ * Completes a tool call approval with the user's decision.
+ *
+ * @param {Object} params
+ * @param {string} params.userId - The ID of the user deciding.
+ * @param {string} params.flowId - The flow ID of the approval.
+ * @param {boolean} params.approved - Whether the user approved the tool call.
+ * @param {Record<string, unknown>} [params.args] - Arguments edited by the user.
+ * @returns {Promise<boolean>} Whether an approval of the user was pending.
+ */
+async function resolveToolApproval({ userId, flowId, approved, args }) {
+  const flowManager = getFlowStateManager(getLogStores(CacheKeys.FLOWS));
+  const flowState = await flowManager.getFlowState(flowId, FLOW_TYPE);
+  if (flowState?.status !== 'PENDING' || flowState.metadata?.userId !== userId) {
+    return false;
+  }
+  await flowManager.completeFlow(flowId, FLOW_TYPE, approved ? { approved, args } : { approved });
+  return true;
+}
+
+module.exports = {
+  requestToolApproval,
+  resolveToolApproval,
+};
@@ -0,0 +1,132 @@
+const { sendEvent } = require('@librechat/api');
+const { getFlowStateManager } = require('~/config');
+const { requestToolApproval, resolveToolApproval } = require('./approval');
+
+jest.mock('@librechat/api', () => ({
+  sendEvent: jest.fn(),
+}));
+
+jest.mock('@librechat/agents', () => ({
+  GraphEvents: { ON_RUN_STEP_DELTA: 'on_run_step_delta' },
+}));
+
+jest.mock('~/config', () => {
+  /** Pending flows, completed through `completeFlow` as the flow state manager would */
+  const flows = new Map();
+  const flowManager = {
+    flows,
+    createFlow: jest.fn(
+      (flowId, type, metadata) =>
+        new Promise((resolve) => flows.set(flowId, { type, status: 'PENDING', metadata, resolve })),
+    ),
+    getFlowState: jest.fn(async (flowId) => flows.get(flowId)),
+    completeFlow: jest.fn(async (flowId, type, result) => {
+      const flow = flows.get(flowId);
+      flow.status = 'COMPLETED';
+      flow.resolve(result);
+    }),
+  };
+  return { getFlowStateManager: jest.fn(() => flowManager) };
+});
+
+jest.mock('~/cache', () => ({
+  getLogStores: jest.fn(),
+}));
+
+describe('Tool approval', () => {
+  const flowManager = getFlowStateManager();
+  const userId = 'user-1';
+  const toolArguments = { query: 'weather' };
+  const config = {
+    toolCall: { id: 'call-1', name: 'web_search', args: toolArguments, stepId: 'step-1' },
+  };
+
+  /** Requests an approval and returns the flow ID sent to the client with the approval card */
+  const requestApproval = () => {
+    const approval = requestToolApproval({ res: {}, userId, config, toolArguments });
+    const [, { data }] = sendEvent.mock.calls[0];
+    return { approval, flowId: data.delta.approval.flowId };
+  };
+
+  afterEach(() => {
+    flowManager.flows.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should stream an approval card and resolve with the proposed arguments', async () => {
+    const { approval, flowId } = requestApproval();
+    const [, { data }] = sendEvent.mock.calls[0];
+    expect(data.id).toBe('step-1');
+    expect(JSON.parse(data.delta.approval.args)).toEqual(toolArguments);
+
+    await expect(resolveToolApproval({ userId, flowId, approved: true })).resolves.toBe(true);
+    await expect(approval).resolves.toEqual(toolArguments);
+
+    const [, { data: cleared }] = sendEvent.mock.calls[1];
+    expect(cleared.delta.approval).toBeUndefined();
+  });
+
+  it('should call the tool with the arguments edited by the user', async () => {
+    const { approval, flowId } = requestApproval();
+    const args = { query: 'weather in Paris' };
+
+    await resolveToolApproval({ userId, flowId, approved: true, args });
+
+    await expect(approval).resolves.toEqual(args);
+  });
+
+  it('should throw when the user denies the tool call', async () => {
+    const { approval, flowId } = requestApproval();
+
+    await resolveToolApproval({ userId, flowId, approved: false, args: { query: 'ignored' } });
+
+    await expect(approval).rejects.toThrow('The user denied this tool call');
+    expect(flowManager.completeFlow).toHaveBeenCalledWith(flowId, 'tool_approval', {
+      approved: false,
+    });
+  });
+
+  it("should not resolve another user's approval", async () => {
+    const { approval, flowId } = requestApproval();
+
+    await expect(resolveToolApproval({ userId: 'user-2', flowId, approved: true })).resolves.toBe(
+      false,
+    );
+    expect(flowManager.completeFlow).not.toHaveBeenCalled();
+
+    await resolveToolApproval({ userId, flowId, approved: false });
+    await expect(approval).rejects.toThrow('denied');
+  });
+
+  it('should not resolve approvals that are unknown or already decided', async () => {
+    const { approval, flowId } = requestApproval();
+    await resolveToolApproval({ userId, flowId, approved: true });
+    await approval;
+
+    await expect(resolveToolApproval({ userId, flowId, approved: false })).resolves.toBe(false);
+    await expect(resolveToolApproval({ userId, flowId: 'unknown', approved: true })).resolves.toBe(
+      false,
+    );
+  });
+
+  it('should fail right away in runs without the user', async () => {
+    await expect(
+      requestToolApproval({ res: {}, userId, config, toolArguments, headless: true }),
+    ).rejects.toThrow('not available in runs without the user');
+    expect(flowManager.createFlow).not.toHaveBeenCalled();
+    expect(sendEvent).not.toHaveBeenCalled();
+  });
+
+  it('should fail right away for tool calls without a step', async () => {
+    await expect(
+      requestToolApproval({
+        res: {},
+        userId,
+        config: { toolCall: { id: 'call-1', name: 'web_search' } },
+        toolArguments,
+      }),
+    ).rejects.toThrow('approval, which is not available for this request');
+    expect(flowManager.createFlow).not.toHaveBeenCalled();
+    expect(sendEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+const { logger } = require('@librechat/data-schemas');
+const { Constants, Permissions, PermissionTypes } = require('librechat-data-provider');
+const {
+  checkAccess,
+  validateUserMCPServerHosts,
+  decryptUserMCPServerOptions,
+  redactUserMCPServerOptions,
+} = require('@librechat/api');
+const { findMCPServersByUser, updateMCPServer, getUserById } = require('~/models');
+const { getRoleByName } = require('~/models/Role');
+const { setCachedTools, invalidateCachedTools } = require('./Config');
+const { getMCPManager } = require('~/config');
+
+/**
+ * Sets the MCP servers a user registered on the MCP manager, and their tools in the user's tools cache.
+ *
+ * @param {string} userId - The user ID.
+ * @param {IMCPServerLean[]} [servers] - The user's servers, if already loaded.
+ * @returns {Promise<void>}
+ */
+async function syncUserMCPServers(userId, servers) {
+  servers = servers ?? (await findMCPServersByUser(userId));
+  /** @type {Record<string, MCPOptions>} */
+  const mcpServers = {};
+  /** @type {Record<string, FunctionTool>} */
+  const tools = {};
+  for (const server of servers) {
+    /** Hosts may have been pointed at private addresses since the server was registered */
+    const hostError = await validateUserMCPServerHosts(server.config);
+    if (hostError) {
+      logger.warn(`[MCP][User: ${userId}][${server.serverName}] Not loaded: ${hostError}`);
+      continue;
+    }
+    try {
+      mcpServers[server.serverName] = await decryptUserMCPServerOptions(server.config);
+    } catch (error) {
+      logger.error(`[MCP][User: ${userId}][${server.serverName}] Failed to decrypt options`, error);
+      continue;
+    }
+    for (const tool of server.tools ?? []) {
+      tools[tool.function.name] = tool;
+    }
+  }
+
+  getMCPManager(userId).setUserMCPServers(userId, mcpServers);
+  await invalidateCachedTools({ userId });
+  await setCachedTools(tools, { userId });
+}
+
+/**
+ * Whether the user's role allows them to use the MCP servers they registered.
+ *
+ * @param {string} userId - The user ID.
+ * @returns {Promise<boolean>}
+ */
+async function canUseUserMCPServers(userId) {
+  const user = await getUserById(userId, 'role');
+  return checkAccess({
+    user,
+    permissionType: PermissionTypes.MCP_SERVERS,
+    permissions: [Permissions.USE],
+    getRoleByName,
+  });
+}
+
+/**
+ * Makes the MCP servers a user registered available, loading them once per process:
+ * call before resolving tools or connections that may belong to them.
+ * Without the permission to use their servers, the user's servers and their tools are removed.
+ *
+ * @param {string} userId - The user ID.
+ * @returns {Promise<void>}
+ */
+async function loadUserMCPServers(userId) {
+  if (!userId) {
+    return;
+  }
+  const mcpManager = getMCPManager(userId);
+  try {
+    if (!(await canUseUserMCPServers(userId))) {
+      if (mcpManager.hasUserMCPServers(userId)) {
+        mcpManager.removeUserMCPServers(userId);
+        await invalidateCachedTools({ userId });
+      }
+      return;
+    }
+    if (mcpManager.hasUserMCPServers(userId)) {
+      return;
+    }
+    await syncUserMCPServers(userId);
+  } catch (error) {
+    logger.error(`[MCP][User: ${userId}] Failed to load user MCP servers`, error);
+  }
+}
+
+/**
+ * Formats a server a user registered for responses, without its secrets.
+ *
+ * @param {IMCPServerLean} server
+ * @returns {TUserMCPServer}
+ */
+function formatUserMCPServer(server) {
+  return {
+    serverName: server.serverName,
+    config: redactUserMCPServerOptions(server.config),
+    tools: (server.tools ?? []).map((tool) => tool.function.name.split(Constants.mcp_delimiter)[0]),
+    createdAt: server.createdAt,
+    updatedAt: server.updatedAt,
+  };
+}
+
+/**
+ * Manifest entries of the tools of the servers a user registered, for the agents' tool list;
+ * none without the permission to use them.
+ *
+ * @param {string} userId - The user ID.
+ * @returns {Promise<TPlugin[]>}
+ */
+async function getUserMCPManifestTools(userId) {
+  if (!(await canUseUserMCPServers(userId))) {
+    return [];
+  }
+  const servers = await findMCPServersByUser(userId);
+  return servers.flatMap((server) =>
+    (server.tools ?? []).map((tool) => ({
+      name: tool.function.name.split(Constants.mcp_delimiter)[0],
+      pluginKey: tool.function.name,
+      description: tool.function.description ?? '',
+      authenticated: true,
+    })),
+  );
+}
+
+/**
+ * Connects to a server the user registered and stores its tools.
+ * If the server requires OAuth, resolves with the authorization URL as soon as it is issued;
+ * the tools are then stored once the user authorizes the server.
+ *
+ * @param {Awaited<ReturnType<typeof import('./MCP').getUserMCPRequestParams>>} params
+ * @returns {Promise<TUserMCPServerConnectResponse>}
+ */
+async function connectUserMCPServer(params) {
+  const { user, serverName } = params;
+  const userId = user.id;
+  /** @type {(authURL: string) => void} */
+  let resolveAuthURL;
+  const authURLPromise = new Promise((resolve) => {
+    resolveAuthURL = resolve;
+  });
+
+  const serverPromise = getMCPManager(userId)
+    .fetchUserServerTools({
+      ...params,
+      oauthStart: async (authURL) => resolveAuthURL(authURL),
+    })
+    .then(async (availableTools) => {
+      const server = await updateMCPServer({
+        userId,
+        serverName,
+        tools: Object.values(availableTools),
+      });
+      await syncUserMCPServers(userId);
+      return server;
+    });
+
+  const result = await Promise.race([
+    serverPromise.then((server) => ({ server: server ? formatUserMCPServer(server) : undefined })),
+    authURLPromise.then((authURL) => ({ authURL })),
+  ]);
+  if (result.authURL) {
+    serverPromise.catch((error) => {
+      logger.error(`[MCP][User: ${userId}][${serverName}] Failed to connect after OAuth`, error);
+    });
+  }
+  return result;
+}
+
+module.exports = {
+  syncUserMCPServers,
+  loadUserMCPServers,
+  formatUserMCPServer,
+  connectUserMCPServer,
+  getUserMCPManifestTools,
+};
@@ -0,0 +1,96 @@
+const { checkAccess } = require('@librechat/api');
+const { findMCPServersByUser } = require('~/models');
+const { getMCPManager } = require('~/config');
+const { invalidateCachedTools, setCachedTools } = require('./Config');
+const { loadUserMCPServers, getUserMCPManifestTools } = require('./UserMCPServers');
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@librechat/api', () => ({
+  checkAccess: jest.fn(),
+  validateUserMCPServerHosts: jest.fn().mockResolvedValue(undefined),
+  decryptUserMCPServerOptions: jest.fn(async (config) => config),
+  redactUserMCPServerOptions: jest.fn((config) => config),
+}));
+
+jest.mock('~/models', () => ({
+  getUserById: jest.fn().mockResolvedValue({ role: 'USER' }),
+  findMCPServersByUser: jest.fn(),
+  updateMCPServer: jest.fn(),
+}));
+
+jest.mock('~/models/Role', () => ({ getRoleByName: jest.fn() }));
+
+jest.mock('./Config', () => ({
+  setCachedTools: jest.fn(),
+  invalidateCachedTools: jest.fn(),
+}));
+
+jest.mock('~/config', () => {
+  /** Servers set on the MCP manager, by user */
+  const userServers = new Map();
+  const mcpManager = {
+    userServers,
+    setUserMCPServers: jest.fn((userId, servers) => userServers.set(userId, servers)),
+    removeUserMCPServers: jest.fn((userId) => userServers.delete(userId)),
+    hasUserMCPServers: jest.fn((userId) => userServers.has(userId)),
+  };
+  return { getMCPManager: jest.fn(() => mcpManager) };
+});
+
+describe('UserMCPServers', () => {
+  const mcpManager = getMCPManager();
+  const tool = { type: 'function', function: { name: 'search_mcp_docs', description: 'Search' } };
+
+  beforeEach(() => {
+    findMCPServersByUser.mockResolvedValue([
+      { serverName: 'docs', config: { url: 'https://docs.example.com/mcp' }, tools: [tool] },
+    ]);
+  });
+
+  afterEach(() => {
+    mcpManager.userServers.clear();
+    jest.clearAllMocks();
+  });
+
+  it("should load the user's servers and their tools once", async () => {
+    checkAccess.mockResolvedValue(true);
+
+    await loadUserMCPServers('user-1');
+    await loadUserMCPServers('user-1');
+
+    expect(findMCPServersByUser).toHaveBeenCalledTimes(1);
+    expect(mcpManager.setUserMCPServers).toHaveBeenCalledWith('user-1', {
+      docs: { url: 'https://docs.example.com/mcp' },
+    });
+    expect(setCachedTools).toHaveBeenCalledWith({ search_mcp_docs: tool }, { userId: 'user-1' });
+  });
+
+  it('should remove the servers of a user whose permission was revoked', async () => {
+    checkAccess.mockResolvedValue(true);
+    await loadUserMCPServers('user-1');
+
+    checkAccess.mockResolvedValue(false);
+    await loadUserMCPServers('user-1');
+
+    expect(mcpManager.removeUserMCPServers).toHaveBeenCalledWith('user-1');
+    expect(mcpManager.hasUserMCPServers('user-1')).toBe(false);
+    expect(invalidateCachedTools).toHaveBeenLastCalledWith({ userId: 'user-1' });
+
+    checkAccess.mockResolvedValue(true);
+    await loadUserMCPServers('user-1');
+    expect(mcpManager.hasUserMCPServers('user-1')).toBe(true);
+  });
+
+  it('should not load or list the servers of a user without the permission', async () => {
+    checkAccess.mockResolvedValue(false);
+
+    await loadUserMCPServers('user-1');
+
+    expect(findMCPServersByUser).not.toHaveBeenCalled();
+    expect(mcpManager.setUserMCPServers).not.toHaveBeenCalled();
+    await expect(getUserMCPManifestTools('user-1')).resolves.toEqual([]);
+  });
+});
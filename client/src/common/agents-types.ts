@@ -30,4 +30,5 @@ export type AgentForm = {
   agent_ids?: string[];
   [AgentCapabilities.artifacts]?: ArtifactModes | string;
   recursion_limit?: number;
+  mcp_tool_retrieval?: number;
 } & TAgentCapabilities;
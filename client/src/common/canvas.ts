@@ -0,0 +1,21 @@
+/** Position of the Canvas side panel's browser: a course, optionally narrowed to a module */
+export type CanvasLocation = {
+  course?: { id: number; name: string };
+  module?: { id: number; name: string };
+};
+
+export const CANVAS_ALL_TERMS = 'all';
+
+export type CanvasCourseFilter = {
+  /** Matched against course names and codes */
+  query: string;
+  /** `enrollment_term_id` to show, or `CANVAS_ALL_TERMS` */
+  termId: string;
+  hideConcluded: boolean;
+};
+
+export const defaultCanvasCourseFilter: CanvasCourseFilter = {
+  query: '',
+  termId: CANVAS_ALL_TERMS,
+  hideConcluded: true,
+};
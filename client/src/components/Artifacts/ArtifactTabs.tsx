@@ -1,5 +1,6 @@
 import { useRef, useEffect } from 'react';
 import * as Tabs from '@radix-ui/react-tabs';
+import { QUIZ_ARTIFACT_TYPE } from 'librechat-data-provider';
 import type { SandpackPreviewRef, CodeEditorRef } from '@codesandbox/sandpack-react';
 import type { Artifact } from '~/common';
 import useArtifactProps from '~/hooks/Artifacts/useArtifactProps';
@@ -7,6 +8,7 @@ import { useAutoScroll } from '~/hooks/Artifacts/useAutoScroll';
 import { ArtifactCodeEditor } from './ArtifactCodeEditor';
 import { useGetStartupConfig } from '~/data-provider';
 import { ArtifactPreview } from './ArtifactPreview';
+import QuizEditor from './QuizEditor';
 import { useEditorContext } from '~/Providers';
 import { cn } from '~/utils';
 
@@ -59,15 +61,19 @@ export default function ArtifactTabs({
         value="preview"
         className={cn('flex-grow overflow-auto', isMermaid ? 'bg-[#282C34]' : 'bg-white')}
       >
-        <ArtifactPreview
-          files={files}
-          fileKey={fileKey}
-          template={template}
-          previewRef={previewRef}
-          sharedProps={sharedProps}
-          currentCode={currentCode}
-          startupConfig={startupConfig}
-        />
+        {artifact.type === QUIZ_ARTIFACT_TYPE ? (
+          <QuizEditor artifact={artifact} isSubmitting={isSubmitting} />
+        ) : (
+          <ArtifactPreview
+            files={files}
+            fileKey={fileKey}
+            template={template}
+            previewRef={previewRef}
+            sharedProps={sharedProps}
+            currentCode={currentCode}
+            startupConfig={startupConfig}
+          />
+        )}
       </Tabs.Content>
     </>
   );
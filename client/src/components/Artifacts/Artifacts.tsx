@@ -2,6 +2,7 @@ import { useRef, useState, useEffect } from 'react';
 import { useSetRecoilState } from 'recoil';
 import * as Tabs from '@radix-ui/react-tabs';
 import { ArrowLeft, ChevronLeft, ChevronRight, RefreshCw, X } from 'lucide-react';
+import { QUIZ_ARTIFACT_TYPE } from 'librechat-data-provider';
 import type { SandpackPreviewRef, CodeEditorRef } from '@codesandbox/sandpack-react';
 import useArtifacts from '~/hooks/Artifacts/useArtifacts';
 import DownloadArtifact from './DownloadArtifact';
@@ -73,7 +74,7 @@ export default function Artifacts() {
             </div>
             <div className="flex items-center">
               {/* Refresh button */}
-              {activeTab === 'preview' && (
+              {activeTab === 'preview' && currentArtifact.type !== QUIZ_ARTIFACT_TYPE && (
                 <button
                   className={`mr-2 text-text-secondary transition-transform duration-500 ease-in-out ${
                     isRefreshing ? 'rotate-180' : ''
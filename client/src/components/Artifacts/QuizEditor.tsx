@@ -0,0 +1,196 @@
+import debounce from 'lodash/debounce';
+import { useMemo, useRef, useState, useEffect, useCallback } from 'react';
+import { Download, GraduationCap, Plus } from 'lucide-react';
+import { parseQuiz, isQuizComplete } from 'librechat-data-provider';
+import type { TQuiz, TQuizQuestion } from 'librechat-data-provider';
+import type { Artifact } from '~/common';
+import { useEditArtifact, useExportQuizQtiMutation } from '~/data-provider';
+import CanvasQuizDialog from '~/components/SidePanel/Canvas/CanvasQuizDialog';
+import useCanvasPublishAccess from '~/hooks/useCanvasPublishAccess';
+import { Button, Input, Label, Spinner, Textarea } from '~/components';
+import { useToastContext, useEditorContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+import QuizQuestion from './QuizQuestion';
+
+const newQuestion = (): TQuizQuestion => ({
+  type: 'multiple_choice',
+  text: '',
+  points: 1,
+  answers: [
+    { text: '', correct: true },
+    { text: '', correct: false },
+  ],
+});
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+/** Form editor for quiz artifacts; edits are saved back to the message like code edits */
+export default function QuizEditor({
+  artifact,
+  isSubmitting,
+}: {
+  artifact: Artifact;
+  isSubmitting: boolean;
+}) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const canPublish = useCanvasPublishAccess();
+  const { currentCode, setCurrentCode, setIsMutating } = useEditorContext();
+  const [canvasDialogOpen, setCanvasDialogOpen] = useState(false);
+
+  const content = currentCode ?? artifact.content ?? '';
+  const quiz = useMemo(() => parseQuiz(content), [content]);
+
+  /** Artifact content as last saved, which the server looks up to apply the next edit */
+  const savedContentRef = useRef(artifact.content ?? '');
+  useEffect(() => {
+    if (currentCode == null) {
+      savedContentRef.current = artifact.content ?? '';
+    }
+  }, [artifact.content, currentCode]);
+
+  const editArtifact = useEditArtifact({
+    onMutate: () => setIsMutating(true),
+    onSuccess: (_data, vars) => {
+      savedContentRef.current = vars.updated;
+      setIsMutating(false);
+    },
+    onError: () => setIsMutating(false),
+  });
+  const mutateRef = useRef(editArtifact.mutate);
+  mutateRef.current = editArtifact.mutate;
+
+  const { index, messageId } = artifact;
+  const saveQuiz = useMemo(
+    () =>
+      debounce((updated: string) => {
+        if (index == null) {
+          return;
+        }
+        mutateRef.current({
+          index,
+          messageId: messageId ?? '',
+          original: savedContentRef.current,
+          updated,
+        });
+      }, 500),
+    [index, messageId],
+  );
+  useEffect(() => () => saveQuiz.flush(), [saveQuiz]);
+
+  const updateQuiz = useCallback(
+    (next: TQuiz) => {
+      const updated = JSON.stringify(next, null, 2);
+      setCurrentCode(updated);
+      saveQuiz(updated);
+    },
+    [setCurrentCode, saveQuiz],
+  );
+
+  const exportMutation = useExportQuizQtiMutation({
+    onSuccess: (blob, exported) => {
+      downloadBlob(blob, `${exported.title || 'quiz'}-qti.zip`);
+    },
+    onError: () => {
+      showToast({ message: localize('com_ui_quiz_export_error'), status: 'error' });
+    },
+  });
+
+  if (!quiz) {
+    return (
+      <div className="flex h-full items-center justify-center p-4 text-sm text-text-secondary">
+        {isSubmitting ? <Spinner className="text-text-primary" /> : localize('com_ui_quiz_invalid')}
+      </div>
+    );
+  }
+
+  const readOnly = isSubmitting;
+  const isComplete = isQuizComplete(quiz);
+  const setQuestion = (questionIndex: number, question: TQuizQuestion) =>
+    updateQuiz({
+      ...quiz,
+      questions: quiz.questions.map((current, i) => (i === questionIndex ? question : current)),
+    });
+
+  return (
+    <div className="flex h-full flex-col gap-4 overflow-auto bg-surface-primary p-4 text-text-primary">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!isComplete || exportMutation.isLoading}
+          onClick={() => exportMutation.mutate(quiz)}
+        >
+          <Download className="mr-1 h-4 w-4" aria-hidden="true" />
+          {localize('com_ui_quiz_export_qti')}
+        </Button>
+        {canPublish && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!isComplete || readOnly}
+            onClick={() => setCanvasDialogOpen(true)}
+          >
+            <GraduationCap className="mr-1 h-4 w-4" aria-hidden="true" />
+            {localize('com_ui_quiz_canvas_title')}
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="quiz-title">{localize('com_ui_quiz_title')}</Label>
+        <Input
+          id="quiz-title"
+          value={quiz.title}
+          disabled={readOnly}
+          onChange={(e) => updateQuiz({ ...quiz, title: e.target.value })}
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="quiz-description">{localize('com_ui_quiz_description')}</Label>
+        <Textarea
+          id="quiz-description"
+          value={quiz.description ?? ''}
+          disabled={readOnly}
+          onChange={(e) => updateQuiz({ ...quiz, description: e.target.value })}
+          className="min-h-[60px]"
+        />
+      </div>
+      {quiz.questions.map((question, questionIndex) => (
+        <QuizQuestion
+          key={questionIndex}
+          index={questionIndex}
+          question={question}
+          readOnly={readOnly}
+          onChange={(updated) => setQuestion(questionIndex, updated)}
+          onRemove={() =>
+            updateQuiz({
+              ...quiz,
+              questions: quiz.questions.filter((_q, i) => i !== questionIndex),
+            })
+          }
+        />
+      ))}
+      <Button
+        variant="outline"
+        disabled={readOnly}
+        onClick={() => updateQuiz({ ...quiz, questions: [...quiz.questions, newQuestion()] })}
+        className="self-start"
+      >
+        <Plus className="mr-1 h-4 w-4" aria-hidden="true" />
+        {localize('com_ui_quiz_add_question')}
+      </Button>
+      {canPublish && (
+        <CanvasQuizDialog open={canvasDialogOpen} onOpenChange={setCanvasDialogOpen} quiz={quiz} />
+      )}
+    </div>
+  );
+}
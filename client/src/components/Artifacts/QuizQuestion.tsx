@@ -0,0 +1,188 @@
+import { memo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { QUIZ_QUESTION_TYPES } from 'librechat-data-provider';
+import type { TQuizAnswer, TQuizQuestion, TQuizQuestionType } from 'librechat-data-provider';
+import { Button, Checkbox, Dropdown, Input, Textarea } from '~/components';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+const QUESTION_TYPE_LABELS = {
+  multiple_choice: 'com_ui_quiz_multiple_choice',
+  true_false: 'com_ui_quiz_true_false',
+  short_answer: 'com_ui_quiz_short_answer',
+} as const satisfies Record<TQuizQuestionType, string>;
+
+/** Converts the answers of a question when its type changes */
+export function changeQuestionType(
+  question: TQuizQuestion,
+  type: TQuizQuestionType,
+): TQuizQuestion {
+  if (type === 'true_false') {
+    const isTrue = question.answers.some(
+      (answer) => answer.correct && answer.text.trim().toLowerCase() === 'true',
+    );
+    return {
+      ...question,
+      type,
+      answers: [
+        { text: 'True', correct: isTrue },
+        { text: 'False', correct: !isTrue },
+      ],
+    };
+  }
+  if (type === 'short_answer') {
+    return {
+      ...question,
+      type,
+      answers: question.answers
+        .filter((answer) => answer.correct)
+        .map((answer) => ({ ...answer, correct: true })),
+    };
+  }
+  return { ...question, type };
+}
+
+function QuizQuestion({
+  index,
+  question,
+  readOnly,
+  onChange,
+  onRemove,
+}: {
+  index: number;
+  question: TQuizQuestion;
+  readOnly: boolean;
+  onChange: (question: TQuizQuestion) => void;
+  onRemove: () => void;
+}) {
+  const localize = useLocalize();
+
+  const setAnswers = (answers: TQuizAnswer[]) => onChange({ ...question, answers });
+  const setAnswer = (answerIndex: number, answer: Partial<TQuizAnswer>) =>
+    setAnswers(
+      question.answers.map((current, i) =>
+        i === answerIndex ? { ...current, ...answer } : current,
+      ),
+    );
+  const isShortAnswer = question.type === 'short_answer';
+
+  const renderAnswers = () => {
+    if (question.type === 'true_false') {
+      return (
+        <div className="flex gap-2" role="radiogroup">
+          {question.answers.map((answer, answerIndex) => (
+            <button
+              key={answer.text}
+              type="button"
+              role="radio"
+              aria-checked={answer.correct}
+              disabled={readOnly}
+              onClick={() =>
+                setAnswers(question.answers.map((a, i) => ({ ...a, correct: i === answerIndex })))
+              }
+              className={cn(
+                'rounded-lg border px-3 py-1 text-sm',
+                answer.correct
+                  ? 'border-green-500 bg-green-500/10 text-text-primary'
+                  : 'border-border-medium text-text-secondary',
+              )}
+            >
+              {answer.text}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-2">
+        {question.answers.map((answer, answerIndex) => (
+          <div key={answerIndex} className="flex items-center gap-2">
+            {!isShortAnswer && (
+              <Checkbox
+                checked={answer.correct}
+                disabled={readOnly}
+                onCheckedChange={(checked) => setAnswer(answerIndex, { correct: checked === true })}
+                aria-label={localize('com_ui_quiz_correct_answer')}
+              />
+            )}
+            <Input
+              value={answer.text}
+              disabled={readOnly}
+              onChange={(e) => setAnswer(answerIndex, { text: e.target.value })}
+              aria-label={localize('com_ui_quiz_answer', { '0': answerIndex + 1 })}
+            />
+            <button
+              type="button"
+              disabled={readOnly}
+              onClick={() => setAnswers(question.answers.filter((_a, i) => i !== answerIndex))}
+              className="text-text-secondary hover:text-text-primary"
+              aria-label={localize('com_ui_quiz_remove_answer')}
+            >
+              <Trash2 className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </div>
+        ))}
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={readOnly}
+          onClick={() => setAnswers([...question.answers, { text: '', correct: isShortAnswer }])}
+          className="self-start"
+        >
+          <Plus className="mr-1 h-4 w-4" aria-hidden="true" />
+          {localize(isShortAnswer ? 'com_ui_quiz_add_accepted_answer' : 'com_ui_quiz_add_answer')}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-border-medium p-3">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-sm font-medium text-text-primary">
+          {localize('com_ui_quiz_question', { '0': index + 1 })}
+        </span>
+        <Dropdown
+          value={question.type}
+          onChange={(type) =>
+            !readOnly && onChange(changeQuestionType(question, type as TQuizQuestionType))
+          }
+          options={QUIZ_QUESTION_TYPES.map((type) => ({
+            value: type,
+            label: localize(QUESTION_TYPE_LABELS[type]),
+          }))}
+          ariaLabel={localize('com_ui_quiz_question_type')}
+        />
+        <Input
+          type="number"
+          min={0}
+          value={question.points}
+          disabled={readOnly}
+          onChange={(e) => onChange({ ...question, points: Math.max(0, Number(e.target.value)) })}
+          className="w-20"
+          aria-label={localize('com_ui_quiz_points')}
+        />
+        <button
+          type="button"
+          disabled={readOnly}
+          onClick={onRemove}
+          className="text-text-secondary hover:text-text-primary"
+          aria-label={localize('com_ui_quiz_remove_question')}
+        >
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+      <Textarea
+        value={question.text}
+        disabled={readOnly}
+        onChange={(e) => onChange({ ...question, text: e.target.value })}
+        aria-label={localize('com_ui_quiz_question_text')}
+        className="min-h-[60px]"
+      />
+      {renderAnswers()}
+    </div>
+  );
+}
+
+export default memo(QuizQuestion);
@@ -2,14 +2,15 @@ import { useState, useRef, useEffect, useMemo, memo, useCallback } from 'react';
 import { AutoSizer, List } from 'react-virtualized';
 import { useSetRecoilState, useRecoilValue } from 'recoil';
 import { PermissionTypes, Permissions } from 'librechat-data-provider';
-import type { TPromptGroup } from 'librechat-data-provider';
+import type { TPromptGroup, TMCPPrompt } from 'librechat-data-provider';
 import type { PromptOption } from '~/common';
 import { removeCharIfLast, mapPromptGroups, detectVariables } from '~/utils';
+import { useLocalize, useCombobox, useHasAccess, useSubmitMCPPrompt } from '~/hooks';
+import MCPPromptDialog from '~/components/Prompts/Groups/MCPPromptDialog';
 import VariableDialog from '~/components/Prompts/Groups/VariableDialog';
 import CategoryIcon from '~/components/Prompts/Groups/CategoryIcon';
-import { useLocalize, useCombobox, useHasAccess } from '~/hooks';
-import { useGetAllPromptGroups } from '~/data-provider';
-import { Spinner } from '~/components/svg';
+import { useGetAllPromptGroups, useMCPPromptsQuery } from '~/data-provider';
+import { Spinner, MCPIcon } from '~/components/svg';
 import MentionItem from './MentionItem';
 import store from '~/store';
 
@@ -45,6 +46,9 @@ const PopoverContainer = memo(
 
 const ROW_HEIGHT = 40;
 
+/** Prompt options of MCP server prompts, identified by server and prompt name */
+const getMCPPromptId = (prompt: TMCPPrompt) => `mcp:${prompt.serverName}:${prompt.name}`;
+
 function PromptsCommand({
   index,
   textAreaRef,
@@ -85,6 +89,27 @@ function PromptsCommand({
     },
   });
 
+  const { data: mcpPrompts } = useMCPPromptsQuery({ enabled: hasAccess });
+  const mcpData = useMemo(() => {
+    const mcpPromptsMap: Record<string, TMCPPrompt | undefined> = {};
+    const options = (mcpPrompts ?? []).map((prompt) => {
+      const id = getMCPPromptId(prompt);
+      mcpPromptsMap[id] = prompt;
+      return {
+        id,
+        value: prompt.name,
+        label: `${prompt.name} (${prompt.serverName})${
+          prompt.description ? `: ${prompt.description}` : ''
+        }`,
+        icon: <MCPIcon className="h-5 w-5" />,
+      };
+    });
+    return { mcpPromptsMap, options };
+  }, [mcpPrompts]);
+
+  const { submitMCPPrompt, isLoading: isMCPPromptLoading } = useSubmitMCPPrompt();
+  const [mcpPrompt, setMCPPrompt] = useState<TMCPPrompt | null>(null);
+
   const [activeIndex, setActiveIndex] = useState(0);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
@@ -92,12 +117,15 @@ function PromptsCommand({
   const [variableGroup, setVariableGroup] = useState<TPromptGroup | null>(null);
   const setShowPromptsPopover = useSetRecoilState(store.showPromptsPopoverFamily(index));
 
-  const prompts = useMemo(() => data?.promptGroups, [data]);
+  const prompts = useMemo(
+    () => [...(data?.promptGroups ?? []), ...mcpData.options],
+    [data, mcpData.options],
+  );
   const promptsMap = useMemo(() => data?.promptsMap, [data]);
 
   const { open, setOpen, searchValue, setSearchValue, matches } = useCombobox({
     value: '',
-    options: prompts ?? [],
+    options: prompts,
   });
 
   const handleSelect = useCallback(
@@ -114,6 +142,19 @@ function PromptsCommand({
         removeCharIfLast(textAreaRef.current, commandChar);
       }
 
+      const prompt = mcpData.mcpPromptsMap[mention.id];
+      if (prompt) {
+        if ((prompt.arguments?.length ?? 0) > 0) {
+          if (e && e.key === 'Tab') {
+            e.preventDefault();
+          }
+          setMCPPrompt(prompt);
+        } else {
+          submitMCPPrompt(prompt);
+        }
+        return;
+      }
+
       const group = promptsMap?.[mention.id];
       if (!group) {
         return;
@@ -131,7 +172,16 @@ function PromptsCommand({
         submitPrompt(group.productionPrompt?.prompt ?? '');
       }
     },
-    [setSearchValue, setOpen, setShowPromptsPopover, textAreaRef, promptsMap, submitPrompt],
+    [
+      setSearchValue,
+      setOpen,
+      setShowPromptsPopover,
+      textAreaRef,
+      promptsMap,
+      mcpData.mcpPromptsMap,
+      submitMCPPrompt,
+      submitPrompt,
+    ],
   );
 
   useEffect(() => {
@@ -191,88 +241,101 @@ function PromptsCommand({
   };
 
   return (
-    <PopoverContainer
-      index={index}
-      isVariableDialogOpen={isVariableDialogOpen}
-      variableGroup={variableGroup}
-      setVariableDialogOpen={setVariableDialogOpen}
-    >
-      <div className="absolute bottom-28 z-10 w-full space-y-2">
-        <div className="popover border-token-border-light rounded-2xl border bg-surface-tertiary-alt p-2 shadow-lg">
-          <input
-            // The user expects focus to transition to the input field when the popover is opened
-            // eslint-disable-next-line jsx-a11y/no-autofocus
-            autoFocus
-            ref={inputRef}
-            placeholder={localize('com_ui_command_usage_placeholder')}
-            className="mb-1 w-full border-0 bg-surface-tertiary-alt p-2 text-sm focus:outline-none dark:text-gray-200"
-            autoComplete="off"
-            value={searchValue}
-            onKeyDown={(e) => {
-              if (e.key === 'Escape') {
-                setOpen(false);
-                setShowPromptsPopover(false);
-                textAreaRef.current?.focus();
-              }
-              if (e.key === 'ArrowDown') {
-                setActiveIndex((prevIndex) => (prevIndex + 1) % matches.length);
-              } else if (e.key === 'ArrowUp') {
-                setActiveIndex((prevIndex) => (prevIndex - 1 + matches.length) % matches.length);
-              } else if (e.key === 'Enter' || e.key === 'Tab') {
-                if (e.key === 'Enter') {
-                  e.preventDefault();
+    <>
+      <PopoverContainer
+        index={index}
+        isVariableDialogOpen={isVariableDialogOpen}
+        variableGroup={variableGroup}
+        setVariableDialogOpen={setVariableDialogOpen}
+      >
+        <div className="absolute bottom-28 z-10 w-full space-y-2">
+          <div className="popover border-token-border-light rounded-2xl border bg-surface-tertiary-alt p-2 shadow-lg">
+            <input
+              // The user expects focus to transition to the input field when the popover is opened
+              // eslint-disable-next-line jsx-a11y/no-autofocus
+              autoFocus
+              ref={inputRef}
+              placeholder={localize('com_ui_command_usage_placeholder')}
+              className="mb-1 w-full border-0 bg-surface-tertiary-alt p-2 text-sm focus:outline-none dark:text-gray-200"
+              autoComplete="off"
+              value={searchValue}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') {
+                  setOpen(false);
+                  setShowPromptsPopover(false);
+                  textAreaRef.current?.focus();
+                }
+                if (e.key === 'ArrowDown') {
+                  setActiveIndex((prevIndex) => (prevIndex + 1) % matches.length);
+                } else if (e.key === 'ArrowUp') {
+                  setActiveIndex((prevIndex) => (prevIndex - 1 + matches.length) % matches.length);
+                } else if (e.key === 'Enter' || e.key === 'Tab') {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                  }
+                  handleSelect(matches[activeIndex] as PromptOption | undefined, e);
+                } else if (e.key === 'Backspace' && searchValue === '') {
+                  setOpen(false);
+                  setShowPromptsPopover(false);
+                  textAreaRef.current?.focus();
+                }
+              }}
+              onChange={(e) => setSearchValue(e.target.value)}
+              onFocus={() => setOpen(true)}
+              onBlur={() => {
+                timeoutRef.current = setTimeout(() => {
+                  setOpen(false);
+                  setShowPromptsPopover(false);
+                }, 150);
+              }}
+            />
+            <div className="max-h-40 overflow-y-auto">
+              {(() => {
+                if (isLoading && open) {
+                  return (
+                    <div className="flex h-32 items-center justify-center text-text-primary">
+                      <Spinner />
+                    </div>
+                  );
                 }
-                handleSelect(matches[activeIndex] as PromptOption | undefined, e);
-              } else if (e.key === 'Backspace' && searchValue === '') {
-                setOpen(false);
-                setShowPromptsPopover(false);
-                textAreaRef.current?.focus();
-              }
-            }}
-            onChange={(e) => setSearchValue(e.target.value)}
-            onFocus={() => setOpen(true)}
-            onBlur={() => {
-              timeoutRef.current = setTimeout(() => {
-                setOpen(false);
-                setShowPromptsPopover(false);
-              }, 150);
-            }}
-          />
-          <div className="max-h-40 overflow-y-auto">
-            {(() => {
-              if (isLoading && open) {
-                return (
-                  <div className="flex h-32 items-center justify-center text-text-primary">
-                    <Spinner />
-                  </div>
-                );
-              }
 
-              if (!isLoading && open) {
-                return (
-                  <div className="max-h-40">
-                    <AutoSizer disableHeight>
-                      {({ width }) => (
-                        <List
-                          width={width}
-                          overscanRowCount={5}
-                          rowHeight={ROW_HEIGHT}
-                          rowCount={matches.length}
-                          rowRenderer={rowRenderer}
-                          scrollToIndex={activeIndex}
-                          height={Math.min(matches.length * ROW_HEIGHT, 160)}
-                        />
-                      )}
-                    </AutoSizer>
-                  </div>
-                );
-              }
-              return null;
-            })()}
+                if (!isLoading && open) {
+                  return (
+                    <div className="max-h-40">
+                      <AutoSizer disableHeight>
+                        {({ width }) => (
+                          <List
+                            width={width}
+                            overscanRowCount={5}
+                            rowHeight={ROW_HEIGHT}
+                            rowCount={matches.length}
+                            rowRenderer={rowRenderer}
+                            scrollToIndex={activeIndex}
+                            height={Math.min(matches.length * ROW_HEIGHT, 160)}
+                          />
+                        )}
+                      </AutoSizer>
+                    </div>
+                  );
+                }
+                return null;
+              })()}
+            </div>
           </div>
         </div>
-      </div>
-    </PopoverContainer>
+      </PopoverContainer>
+      <MCPPromptDialog
+        prompt={mcpPrompt}
+        onClose={() => setMCPPrompt(null)}
+        isLoading={isMCPPromptLoading}
+        onSubmit={async (promptArguments) => {
+          if (mcpPrompt) {
+            await submitMCPPrompt(mcpPrompt, promptArguments);
+          }
+          setMCPPrompt(null);
+        }}
+      />
+    </>
   );
 }
 
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import type {
+  TMCPElicitation,
+  TMCPElicitationField,
+  TMCPElicitationResponse,
+} from 'librechat-data-provider';
+import { Input, Label, Switch, Dropdown } from '~/components/ui';
+import { useMCPElicitationMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components';
+import { useLocalize } from '~/hooks';
+
+type FieldValue = string | boolean;
+type Content = NonNullable<TMCPElicitationResponse['content']>;
+
+const inputTypes: Record<NonNullable<TMCPElicitationField['format']>, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+function getInputType(field: TMCPElicitationField): string {
+  if (field.type !== 'string') {
+    return 'number';
+  }
+  return field.format != null ? inputTypes[field.format] : 'text';
+}
+
+function getInitialValues(elicitation: TMCPElicitation): Record<string, FieldValue> {
+  const values: Record<string, FieldValue> = {};
+  for (const [name, field] of Object.entries(elicitation.requestedSchema.properties)) {
+    values[name] = field.type === 'boolean' ? (field.default ?? false) : '';
+  }
+  return values;
+}
+
+/** Converts the form's values to the content the server requested, with the fields that are invalid */
+function toContent(
+  elicitation: TMCPElicitation,
+  values: Record<string, FieldValue>,
+): { content: Content; invalid: string[] } {
+  const { properties, required = [] } = elicitation.requestedSchema;
+  const content: Content = {};
+  const invalid: string[] = [];
+  for (const [name, field] of Object.entries(properties)) {
+    const value = values[name];
+    if (typeof value === 'boolean') {
+      content[name] = value;
+      continue;
+    }
+    if (!value.trim()) {
+      if (required.includes(name)) {
+        invalid.push(name);
+      }
+      continue;
+    }
+    if (field.type === 'number' || field.type === 'integer') {
+      const number = Number(value);
+      if (Number.isNaN(number) || (field.type === 'integer' && !Number.isInteger(number))) {
+        invalid.push(name);
+        continue;
+      }
+      content[name] = number;
+      continue;
+    }
+    content[name] = value;
+  }
+  return { content, invalid };
+}
+
+/** Form of the input an MCP server requests from the user while one of its tools runs */
+export default function MCPElicitationForm({ elicitation }: { elicitation: TMCPElicitation }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [values, setValues] = useState(() => getInitialValues(elicitation));
+  const [invalid, setInvalid] = useState<string[]>([]);
+  const [responded, setResponded] = useState(false);
+  const elicitationMutation = useMCPElicitationMutation({
+    onSuccess: () => setResponded(true),
+    onError: () => {
+      showToast({ message: localize('com_ui_mcp_elicitation_error'), status: 'error' });
+    },
+  });
+
+  const { flowId, serverName, requestedSchema } = elicitation;
+  const disabled = responded || elicitationMutation.isLoading;
+  const required = requestedSchema.required ?? [];
+
+  const respond = (action: TMCPElicitationResponse['action']) => {
+    if (action !== 'accept') {
+      elicitationMutation.mutate({ serverName, flowId, action });
+      return;
+    }
+    const result = toContent(elicitation, values);
+    setInvalid(result.invalid);
+    if (result.invalid.length === 0) {
+      elicitationMutation.mutate({ serverName, flowId, action, content: result.content });
+    }
+  };
+
+  const setValue = (name: string, value: FieldValue) =>
+    setValues((prev) => ({ ...prev, [name]: value }));
+
+  return (
+    <div className="my-2 flex flex-col gap-3 rounded-xl border border-border-medium p-3">
+      <div>
+        <p className="text-xs text-text-secondary">
+          {localize('com_ui_mcp_elicitation_request', { '0': serverName })}
+        </p>
+        <p className="whitespace-pre-wrap break-words text-sm font-medium text-text-primary">
+          {elicitation.message}
+        </p>
+      </div>
+      {Object.entries(requestedSchema.properties).map(([name, field]) => {
+        const id = `mcp-elicitation-${flowId}-${name}`;
+        const value = values[name];
+        return (
+          <div key={name} className="flex flex-col gap-1">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor={id}>
+                {field.title ?? name}
+                {required.includes(name) && <span className="text-red-500"> *</span>}
+              </Label>
+              {field.type === 'boolean' && (
+                <Switch
+                  id={id}
+                  checked={value === true}
+                  disabled={disabled}
+                  onCheckedChange={(checked) => setValue(name, checked)}
+                />
+              )}
+            </div>
+            {field.type !== 'boolean' && field.enum != null && (
+              <Dropdown
+                value={value as string}
+                onChange={(option) => setValue(name, option)}
+                options={field.enum.map((option, index) => ({
+                  value: option,
+                  label: field.enumNames?.[index] ?? option,
+                }))}
+                ariaLabel={field.title ?? name}
+                sizeClasses="w-full"
+              />
+            )}
+            {field.type !== 'boolean' && field.enum == null && (
+              <Input
+                id={id}
+                type={getInputType(field)}
+                step={field.type === 'integer' ? 1 : undefined}
+                min={field.minimum}
+                max={field.maximum}
+                minLength={field.minLength}
+                maxLength={field.maxLength}
+                value={value as string}
+                disabled={disabled}
+                onChange={(e) => setValue(name, e.target.value)}
+                aria-invalid={invalid.includes(name)}
+              />
+            )}
+            {field.description != null && field.description && (
+              <p className="text-xs text-text-secondary">{field.description}</p>
+            )}
+            {invalid.includes(name) && (
+              <p className="text-xs text-red-500">{localize('com_ui_mcp_elicitation_invalid')}</p>
+            )}
+          </div>
+        );
+      })}
+      <div className="flex gap-2">
+        <Button size="sm" disabled={disabled} onClick={() => respond('accept')}>
+          {localize('com_ui_submit')}
+        </Button>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => respond('reject')}>
+          {localize('com_ui_deny')}
+        </Button>
+        <Button size="sm" variant="ghost" disabled={disabled} onClick={() => respond('cancel')}>
+          {localize('com_ui_cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type { TMCPSamplingApproval } from 'librechat-data-provider';
+import { useMCPSamplingDecisionMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components';
+import { useLocalize } from '~/hooks';
+
+/** Sampling request of an MCP server, shown with its tool call until the user approves or rejects it */
+export default function MCPSamplingApproval({ sampling }: { sampling: TMCPSamplingApproval }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [decided, setDecided] = useState(false);
+  const decisionMutation = useMCPSamplingDecisionMutation({
+    onSuccess: () => setDecided(true),
+    onError: () => {
+      showToast({ message: localize('com_ui_mcp_sampling_error'), status: 'error' });
+    },
+  });
+
+  const decide = (approved: boolean) =>
+    decisionMutation.mutate({
+      serverName: sampling.serverName,
+      flowId: sampling.flowId,
+      approved,
+    });
+
+  return (
+    <div className="my-2 flex flex-col gap-2 rounded-xl border border-border-medium p-3">
+      <p className="text-sm font-medium text-text-primary">
+        {localize('com_ui_mcp_sampling_request', { '0': sampling.serverName })}
+      </p>
+      <div className="max-h-60 overflow-auto rounded-lg bg-surface-secondary p-2 text-xs text-text-primary">
+        {sampling.systemPrompt != null && sampling.systemPrompt && (
+          <p className="mb-2 whitespace-pre-wrap break-words text-text-secondary">
+            {sampling.systemPrompt}
+          </p>
+        )}
+        {sampling.messages.map((message, index) => (
+          <p key={index} className="mb-1 whitespace-pre-wrap break-words">
+            <span className="font-semibold">
+              {localize(message.role === 'assistant' ? 'com_ui_assistant' : 'com_ui_user')}:
+            </span>{' '}
+            {message.text}
+          </p>
+        ))}
+      </div>
+      <p className="text-xs text-text-secondary">
+        {localize('com_ui_mcp_sampling_max_tokens', { '0': sampling.maxTokens })}
+      </p>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={decided || decisionMutation.isLoading}
+          onClick={() => decide(true)}
+        >
+          {localize('com_ui_approve')}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={decided || decisionMutation.isLoading}
+          onClick={() => decide(false)}
+        >
+          {localize('com_ui_reject')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import type { TMCPProgress } from 'librechat-data-provider';
+import { Progress } from '~/components/ui';
+import { cn } from '~/utils';
+
+/** Latest progress an MCP server reported for a running tool call */
+export default function MCPToolProgress({ progress }: { progress: TMCPProgress }) {
+  const { total, message } = progress;
+  const percent =
+    total != null && total > 0 ? Math.min(100, (progress.progress / total) * 100) : undefined;
+
+  return (
+    <div className="my-2 flex flex-col gap-1">
+      <Progress
+        value={percent ?? 100}
+        aria-valuenow={percent}
+        className={cn('h-1.5 bg-surface-tertiary', percent == null && 'animate-pulse')}
+      />
+      {message != null && message && (
+        <p className="truncate text-xs text-text-secondary">{message}</p>
+      )}
+    </div>
+  );
+}
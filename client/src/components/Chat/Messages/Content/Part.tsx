@@ -129,6 +129,11 @@ const Part = memo(
             attachments={attachments}
             auth={toolCall.auth}
             expires_at={toolCall.expires_at}
+            sampling={toolCall.sampling}
+            approval={toolCall.approval}
+            mcp_progress={toolCall.mcp_progress}
+            mcp_cached={toolCall.mcp_cached}
+            elicitation={toolCall.elicitation}
           />
         );
       } else if (toolCall.type === ToolCallTypes.CODE_INTERPRETER) {
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import type { Agents } from 'librechat-data-provider';
+import { useToolApprovalMutation } from '~/data-provider';
+import { Button, TextareaAutosize } from '~/components';
+import { useToastContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+
+function parseArgs(text: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (parsed == null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+    return parsed as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** Tool call awaiting the user's approval, with arguments the user can edit before approving */
+export default function ToolApprovalCard({
+  function_name,
+  approval,
+}: {
+  function_name: string;
+  approval: Agents.ToolApproval;
+}) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [args, setArgs] = useState(approval.args);
+  const [decided, setDecided] = useState(false);
+  const approvalMutation = useToolApprovalMutation({
+    onSuccess: () => setDecided(true),
+    onError: () => {
+      showToast({ message: localize('com_ui_tool_approval_error'), status: 'error' });
+    },
+  });
+
+  const parsedArgs = parseArgs(args);
+  const disabled = decided || approvalMutation.isLoading;
+
+  return (
+    <div className="my-2 flex flex-col gap-2 rounded-xl border border-border-medium p-3">
+      <p className="text-sm font-medium text-text-primary">
+        {localize('com_ui_tool_approval_request', { '0': function_name })}
+      </p>
+      <label htmlFor={`tool-approval-${approval.flowId}`} className="text-xs text-text-secondary">
+        {localize('com_ui_tool_approval_args')}
+      </label>
+      <TextareaAutosize
+        id={`tool-approval-${approval.flowId}`}
+        value={args}
+        disabled={disabled}
+        onChange={(e) => setArgs(e.target.value)}
+        maxRows={12}
+        aria-invalid={parsedArgs == null}
+        className="w-full resize-none rounded-lg border border-border-light bg-surface-secondary p-2 font-mono text-xs text-text-primary outline-none focus:ring-1 focus:ring-border-medium"
+      />
+      {parsedArgs == null && (
+        <p className="text-xs text-red-500">{localize('com_ui_tool_approval_invalid_args')}</p>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={disabled || parsedArgs == null}
+          onClick={() =>
+            approvalMutation.mutate({
+              flowId: approval.flowId,
+              approved: true,
+              args: parsedArgs ?? undefined,
+            })
+          }
+        >
+          {localize('com_ui_approve')}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={disabled}
+          onClick={() => approvalMutation.mutate({ flowId: approval.flowId, approved: false })}
+        >
+          {localize('com_ui_deny')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,19 @@
 import { useMemo, useState, useEffect, useRef, useLayoutEffect } from 'react';
 import { TriangleAlert } from 'lucide-react';
 import { actionDelimiter, actionDomainSeparator, Constants } from 'librechat-data-provider';
-import type { TAttachment } from 'librechat-data-provider';
+import type {
+  Agents,
+  TAttachment,
+  TMCPProgress,
+  TMCPCachedResult,
+  TMCPElicitation,
+  TMCPSamplingApproval,
+} from 'librechat-data-provider';
 import { useLocalize, useProgress } from '~/hooks';
+import MCPSamplingApproval from './MCPSamplingApproval';
+import MCPElicitationForm from './MCPElicitationForm';
+import ToolApprovalCard from './ToolApprovalCard';
+import MCPToolProgress from './MCPToolProgress';
 import { AttachmentGroup } from './Parts';
 import ToolCallInfo from './ToolCallInfo';
 import ProgressText from './ProgressText';
@@ -17,6 +28,11 @@ export default function ToolCall({
   output,
   attachments,
   auth,
+  sampling,
+  approval,
+  mcp_progress,
+  mcp_cached,
+  elicitation,
 }: {
   initialProgress: number;
   isSubmitting: boolean;
@@ -26,6 +42,11 @@ export default function ToolCall({
   attachments?: TAttachment[];
   auth?: string;
   expires_at?: number;
+  sampling?: TMCPSamplingApproval;
+  approval?: Agents.ToolApproval;
+  mcp_progress?: TMCPProgress;
+  mcp_cached?: TMCPCachedResult;
+  elicitation?: TMCPElicitation;
 }) {
   const localize = useLocalize();
   const [showInfo, setShowInfo] = useState(false);
@@ -99,6 +120,9 @@ export default function ToolCall({
     if (cancelled) {
       return localize('com_ui_cancelled');
     }
+    if (isMCPToolCall === true && mcp_cached != null) {
+      return localize('com_ui_mcp_completed_cached', { 0: function_name });
+    }
     if (isMCPToolCall === true) {
       return localize('com_assistants_completed_function', { 0: function_name });
     }
@@ -230,6 +254,18 @@ export default function ToolCall({
           </p>
         </div>
       )}
+      {mcp_progress != null && progress < 1 && !cancelled && (
+        <MCPToolProgress progress={mcp_progress} />
+      )}
+      {elicitation != null && progress < 1 && !cancelled && (
+        <MCPElicitationForm key={elicitation.flowId} elicitation={elicitation} />
+      )}
+      {sampling != null && progress < 1 && !cancelled && (
+        <MCPSamplingApproval sampling={sampling} />
+      )}
+      {approval != null && progress < 1 && !cancelled && (
+        <ToolApprovalCard key={approval.flowId} function_name={function_name} approval={approval} />
+      )}
       {attachments && attachments.length > 0 && <AttachmentGroup attachments={attachments} />}
     </>
   );
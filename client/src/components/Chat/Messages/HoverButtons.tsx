@@ -4,6 +4,7 @@ import type { TConversation, TMessage, TFeedback } from 'librechat-data-provider
 import { EditIcon, Clipboard, CheckMark, ContinueIcon, RegenerateIcon } from '~/components';
 import { useGenerationsByLatest, useLocalize } from '~/hooks';
 import { Fork } from '~/components/Conversations';
+import PublishToCanvas from './PublishToCanvas';
 import MessageAudio from './MessageAudio';
 import Feedback from './Feedback';
 import { cn } from '~/utils';
@@ -242,6 +243,23 @@ const HoverButtons = ({
         <Feedback handleFeedback={handleFeedback} feedback={message.feedback} isLast={isLast} />
       )}
 
+      {/* Publish to Canvas Button */}
+      {!isCreatedByUser && (
+        <PublishToCanvas
+          message={message}
+          content={extractMessageContent(message)}
+          renderButton={(props) => (
+            <HoverButton
+              onClick={props.onClick}
+              title={props.title}
+              icon={props.icon}
+              isActive={props.isActive}
+              isLast={isLast}
+            />
+          )}
+        />
+      )}
+
       {/* Regenerate Button */}
       {regenerateEnabled && (
         <HoverButton
@@ -0,0 +1,44 @@
+import { memo, useState } from 'react';
+import { GraduationCap } from 'lucide-react';
+import type { TMessage } from 'librechat-data-provider';
+import CanvasPublishDialog from '~/components/SidePanel/Canvas/CanvasPublishDialog';
+import useCanvasPublishAccess from '~/hooks/useCanvasPublishAccess';
+import { useLocalize } from '~/hooks';
+
+type TPublishToCanvas = {
+  message: TMessage;
+  content: string;
+  renderButton: (props: {
+    onClick: () => void;
+    title: string;
+    icon: React.ReactNode;
+    isActive?: boolean;
+  }) => React.ReactNode;
+};
+
+/** Hover menu action for instructors to publish a message or its artifacts to a Canvas course */
+function PublishToCanvas({ message, content, renderButton }: TPublishToCanvas) {
+  const localize = useLocalize();
+  const [open, setOpen] = useState(false);
+  const canPublish = useCanvasPublishAccess();
+
+  if (!canPublish) {
+    return null;
+  }
+
+  return (
+    <>
+      {renderButton({
+        onClick: () => setOpen(true),
+        title: localize('com_sidepanel_canvas_publish_title'),
+        icon: <GraduationCap size="19" />,
+        isActive: open,
+      })}
+      {open && (
+        <CanvasPublishDialog open={open} onOpenChange={setOpen} message={message} text={content} />
+      )}
+    </>
+  );
+}
+
+export default memo(PublishToCanvas);
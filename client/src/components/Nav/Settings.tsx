@@ -1,7 +1,7 @@
 import React, { useState, useRef } from 'react';
 import * as Tabs from '@radix-ui/react-tabs';
-import { MessageSquare, Command, DollarSign } from 'lucide-react';
-import { SettingsTabValues } from 'librechat-data-provider';
+import { MessageSquare, Command, DollarSign, Activity } from 'lucide-react';
+import { SettingsTabValues, SystemRoles } from 'librechat-data-provider';
 import { useGetStartupConfig } from '~/data-provider';
 import type { TDialogProps } from '~/common';
 import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from '@headlessui/react';
@@ -22,8 +22,9 @@ import {
   Account,
   Balance,
   Personalization,
+  MCPHealth,
 } from './SettingsTabs';
-import { useMediaQuery, useLocalize, TranslationKeys } from '~/hooks';
+import { useMediaQuery, useLocalize, useAuthContext, TranslationKeys } from '~/hooks';
 import usePersonalizationAccess from '~/hooks/usePersonalizationAccess';
 import { cn } from '~/utils';
 
@@ -34,6 +35,8 @@ export default function Settings({ open, onOpenChange }: TDialogProps) {
   const [activeTab, setActiveTab] = useState(SettingsTabValues.GENERAL);
   const tabRefs = useRef({});
   const { hasAnyPersonalizationFeature, hasMemoryOptOut } = usePersonalizationAccess();
+  const { user } = useAuthContext();
+  const isAdmin = user?.role === SystemRoles.ADMIN;
 
   const handleKeyDown = (event: React.KeyboardEvent) => {
     const tabs: SettingsTabValues[] = [
@@ -45,6 +48,7 @@ export default function Settings({ open, onOpenChange }: TDialogProps) {
       ...(hasAnyPersonalizationFeature ? [SettingsTabValues.PERSONALIZATION] : []),
       SettingsTabValues.DATA,
       ...(startupConfig?.balance?.enabled ? [SettingsTabValues.BALANCE] : []),
+      ...(isAdmin ? [SettingsTabValues.MCP_HEALTH] : []),
       SettingsTabValues.ACCOUNT,
     ];
     const currentIndex = tabs.indexOf(activeTab);
@@ -122,6 +126,15 @@ export default function Settings({ open, onOpenChange }: TDialogProps) {
           },
         ]
       : ([] as { value: SettingsTabValues; icon: React.JSX.Element; label: TranslationKeys }[])),
+    ...(isAdmin
+      ? [
+          {
+            value: SettingsTabValues.MCP_HEALTH,
+            icon: <Activity className="icon-sm" />,
+            label: 'com_nav_setting_mcp_health' as TranslationKeys,
+          },
+        ]
+      : []),
     {
       value: SettingsTabValues.ACCOUNT,
       icon: <UserIcon />,
@@ -254,6 +267,11 @@ export default function Settings({ open, onOpenChange }: TDialogProps) {
                         <Balance />
                       </Tabs.Content>
                     )}
+                    {isAdmin && (
+                      <Tabs.Content value={SettingsTabValues.MCP_HEALTH}>
+                        <MCPHealth />
+                      </Tabs.Content>
+                    )}
                     <Tabs.Content value={SettingsTabValues.ACCOUNT}>
                       <Account />
                     </Tabs.Content>
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import ImportConversations from './ImportConversations';
 import { RevokeAllKeys } from './RevokeAllKeys';
+import { DownloadData } from './DownloadData';
 import { DeleteCache } from './DeleteCache';
 import { useOnClickOutside } from '~/hooks';
 import { ClearChats } from './ClearChats';
@@ -16,6 +17,9 @@ function Data() {
       <div className="pb-3">
         <ImportConversations />
       </div>
+      <div className="pb-3">
+        <DownloadData />
+      </div>
       <div className="pb-3">
         <SharedLinks />
       </div>
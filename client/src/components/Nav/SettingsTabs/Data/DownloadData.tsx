@@ -0,0 +1,80 @@
+import download from 'downloadjs';
+import { Label, Button, Spinner } from '~/components';
+import {
+  useDataExportQuery,
+  useStartDataExportMutation,
+  useDownloadDataExportMutation,
+} from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+
+/** Generates a zip of the user's memories, conversations, prompts, agents, files and balance */
+export const DownloadData = () => {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { data } = useDataExportQuery({
+    refetchInterval: (status) => (status?.status === 'pending' ? 3000 : false),
+  });
+
+  const { mutate: startExport, isLoading: isStarting } = useStartDataExportMutation({
+    onError: () => {
+      showToast({ message: localize('com_nav_download_data_error'), status: 'error' });
+    },
+  });
+
+  const { mutate: downloadExport, isLoading: isDownloading } = useDownloadDataExportMutation({
+    onSuccess: (blob) => {
+      const date = (data?.createdAt ?? new Date().toISOString()).slice(0, 10);
+      download(blob, `librechat-data-${date}.zip`, 'application/zip');
+    },
+    onError: () => {
+      showToast({ message: localize('com_nav_download_data_error'), status: 'error' });
+    },
+  });
+
+  const isPending = data?.status === 'pending';
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div>
+        <Label className="font-light">{localize('com_nav_download_data')}</Label>
+        <div className="text-xs text-text-secondary">
+          {isPending && localize('com_nav_download_data_pending')}
+          {data?.status === 'failed' && localize('com_nav_download_data_error')}
+          {data?.status === 'ready' &&
+            data.expiresAt &&
+            localize('com_nav_download_data_ready', {
+              0: new Date(data.expiresAt).toLocaleTimeString(undefined, {
+                hour: '2-digit',
+                minute: '2-digit',
+              }),
+            })}
+        </div>
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        {data?.status === 'ready' && (
+          <Button
+            variant="submit"
+            className="text-white"
+            onClick={() => downloadExport()}
+            disabled={isDownloading}
+          >
+            {isDownloading ? <Spinner className="size-4" /> : localize('com_ui_download')}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => startExport()}
+          disabled={isStarting || isPending}
+          aria-label={localize('com_nav_download_data_generate')}
+        >
+          {isStarting || isPending ? (
+            <Spinner className="size-4" />
+          ) : (
+            localize('com_nav_download_data_generate')
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { KeyRound, RefreshCw, Unplug } from 'lucide-react';
+import type {
+  TMCPConnectionState,
+  TMCPConnectionAction,
+  TMCPConnectionDiagnostics,
+} from 'librechat-data-provider';
+import { useMCPConnectionsQuery, useMCPConnectionActionMutation } from '~/data-provider';
+import { useLocalize, TranslationKeys } from '~/hooks';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components/ui';
+import { Spinner } from '~/components';
+import { cn } from '~/utils';
+
+const stateLabels: Record<TMCPConnectionState, TranslationKeys> = {
+  connected: 'com_ui_mcp_state_connected',
+  connecting: 'com_ui_mcp_state_connecting',
+  disconnected: 'com_ui_mcp_state_disconnected',
+  error: 'com_ui_mcp_state_error',
+};
+
+const stateColors: Record<TMCPConnectionState, string> = {
+  connected: 'bg-green-500',
+  connecting: 'bg-yellow-500',
+  disconnected: 'bg-gray-400',
+  error: 'bg-red-500',
+};
+
+function formatTime(timestamp?: number): string {
+  return timestamp != null ? new Date(timestamp).toLocaleString() : '-';
+}
+
+function ConnectionCard({
+  connection,
+  isLoading,
+  onAction,
+}: {
+  connection: TMCPConnectionDiagnostics;
+  isLoading: boolean;
+  onAction: (action: TMCPConnectionAction) => void;
+}) {
+  const localize = useLocalize();
+  const { latency, recentErrors } = connection;
+  const actions: { action: TMCPConnectionAction; label: TranslationKeys; icon: JSX.Element }[] = [
+    {
+      action: 'reconnect',
+      label: 'com_ui_mcp_health_reconnect',
+      icon: <RefreshCw className="h-4 w-4" aria-hidden="true" />,
+    },
+    {
+      action: 'disconnect',
+      label: 'com_ui_mcp_health_disconnect',
+      icon: <Unplug className="h-4 w-4" aria-hidden="true" />,
+    },
+  ];
+  if (connection.userId == null && connection.supportsOAuth) {
+    actions.push({
+      action: 'oauth',
+      label: 'com_ui_mcp_health_oauth',
+      icon: <KeyRound className="h-4 w-4" aria-hidden="true" />,
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border border-border-light p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span
+            className={cn('h-2 w-2 shrink-0 rounded-full', stateColors[connection.connectionState])}
+            aria-hidden="true"
+          />
+          <span className="truncate font-medium">{connection.serverName}</span>
+          <span className="shrink-0 text-xs text-text-secondary">
+            {localize(stateLabels[connection.connectionState])}
+            {connection.oauthRequired && ` · ${localize('com_ui_mcp_health_oauth_required')}`}
+          </span>
+        </div>
+        <div className="flex shrink-0 items-center">
+          {actions.map(({ action, label, icon }) => (
+            <Button
+              key={action}
+              size="sm"
+              variant="ghost"
+              disabled={isLoading}
+              onClick={() => onAction(action)}
+              aria-label={localize(label)}
+              title={localize(label)}
+            >
+              {icon}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-text-secondary">
+        <span>
+          {connection.userId != null
+            ? localize('com_ui_mcp_health_user', { '0': connection.userId })
+            : localize('com_ui_mcp_health_app')}
+        </span>
+        <span>
+          {connection.toolCount != null
+            ? localize('com_ui_mcp_server_tools', { '0': `${connection.toolCount}` })
+            : '-'}
+        </span>
+        <span>
+          {localize('com_ui_mcp_health_last_ping', { '0': formatTime(connection.lastPingAt) })}
+        </span>
+        <span>
+          {localize('com_ui_mcp_health_reconnect_attempts', {
+            '0': `${connection.reconnectAttempts}`,
+          })}
+        </span>
+        <span className="col-span-2">
+          {latency.count > 0
+            ? localize('com_ui_mcp_health_latency', {
+                '0': `${latency.p50}/${latency.p95}/${latency.p99}`,
+                '1': `${latency.count}`,
+              })
+            : localize('com_ui_mcp_health_no_calls')}
+        </span>
+      </div>
+      {recentErrors.length > 0 && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-text-warning">
+            {localize('com_ui_mcp_health_errors', { '0': `${recentErrors.length}` })}
+          </summary>
+          <ul className="mt-1 flex flex-col gap-1">
+            {recentErrors.map((error, index) => (
+              <li key={index} className="break-words text-text-secondary">
+                <span className="font-mono">{formatTime(error.timestamp)}</span> {error.message}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+/** Health dashboard of all app-level and user MCP connections, for admins */
+export default function MCPHealth() {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { data: connections = [], isLoading } = useMCPConnectionsQuery();
+  const actionMutation = useMCPConnectionActionMutation({
+    onSuccess: ({ authURL }) => {
+      if (authURL) {
+        window.open(authURL, '_blank', 'noopener,noreferrer');
+        showToast({ message: localize('com_ui_mcp_health_authorize'), status: 'info' });
+      }
+    },
+    onError: () => {
+      showToast({ message: localize('com_ui_mcp_health_action_error'), status: 'error' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 p-1 text-sm text-text-primary">
+      {connections.length === 0 && (
+        <p className="text-text-secondary">{localize('com_ui_mcp_health_empty')}</p>
+      )}
+      {connections.map((connection) => (
+        <ConnectionCard
+          key={`${connection.userId ?? ''}:${connection.serverName}`}
+          connection={connection}
+          isLoading={actionMutation.isLoading}
+          onAction={(action) =>
+            actionMutation.mutate({
+              serverName: connection.serverName,
+              userId: connection.userId,
+              action,
+            })
+          }
+        />
+      ))}
+    </div>
+  );
+}
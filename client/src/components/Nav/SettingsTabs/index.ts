@@ -7,3 +7,4 @@ export { default as Account } from './Account/Account';
 export { default as Balance } from './Balance/Balance';
 export { default as Speech } from './Speech/Speech';
 export { default as Personalization } from './Personalization';
+export { default as MCPHealth } from './MCP/MCPHealth';
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import type { TMCPPrompt } from 'librechat-data-provider';
+import { OGDialog, OGDialogTemplate, Input, Label } from '~/components/ui';
+import { useLocalize } from '~/hooks';
+
+/** Form generated from the arguments an MCP prompt declares, filled in before it is submitted */
+export default function MCPPromptDialog({
+  prompt,
+  onClose,
+  onSubmit,
+  isLoading,
+}: {
+  prompt: TMCPPrompt | null;
+  onClose: () => void;
+  onSubmit: (promptArguments: Record<string, string>) => void;
+  isLoading?: boolean;
+}) {
+  const localize = useLocalize();
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [showErrors, setShowErrors] = useState(false);
+
+  useEffect(() => {
+    setValues({});
+    setShowErrors(false);
+  }, [prompt]);
+
+  if (!prompt) {
+    return null;
+  }
+
+  const promptArguments = prompt.arguments ?? [];
+  const isMissing = (name: string, required?: boolean) =>
+    required === true && !(values[name] ?? '').trim();
+
+  const handleSubmit = () => {
+    if (promptArguments.some(({ name, required }) => isMissing(name, required))) {
+      setShowErrors(true);
+      return;
+    }
+    onSubmit(values);
+  };
+
+  const main = (
+    <div className="flex flex-col gap-4">
+      {promptArguments.map(({ name, description, required }) => {
+        const id = `mcp-prompt-${name}`;
+        const hasError = showErrors && isMissing(name, required);
+        return (
+          <div key={name} className="flex flex-col gap-1">
+            <Label htmlFor={id}>
+              {name}
+              {required === true && <span className="text-red-500"> *</span>}
+            </Label>
+            <Input
+              id={id}
+              value={values[name] ?? ''}
+              onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+              aria-invalid={hasError}
+              aria-describedby={description ? `${id}-description` : undefined}
+            />
+            {description && (
+              <p id={`${id}-description`} className="text-xs text-text-secondary">
+                {description}
+              </p>
+            )}
+            {hasError && (
+              <p className="text-xs text-red-500">{localize('com_ui_field_required')}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <OGDialog open={prompt != null} onOpenChange={(open) => !open && onClose()}>
+      <OGDialogTemplate
+        title={prompt.name}
+        description={
+          prompt.description ?? localize('com_ui_mcp_prompt_from', { '0': prompt.serverName })
+        }
+        className="w-11/12 max-w-md"
+        showCloseButton={false}
+        main={main}
+        selection={{
+          selectHandler: handleSubmit,
+          selectText: localize('com_ui_submit'),
+          isLoading,
+        }}
+      />
+    </OGDialog>
+  );
+}
@@ -18,6 +18,7 @@ import ActionCallback from '~/components/SidePanel/Builder/ActionCallback';
 import { ActionsTable, columns } from './ActionsTable';
 import { useUpdateAgentAction } from '~/data-provider';
 import { useToastContext } from '~/Providers';
+import { Checkbox } from '~/components/ui';
 import useLocalize from '~/hooks/useLocalize';
 import { Spinner } from '~/components/svg';
 import { logger } from '~/utils';
@@ -52,6 +53,7 @@ export default function ActionsInput({
   const { handleSubmit, reset } = useFormContext<ActionAuthForm>();
   const [validationResult, setValidationResult] = useState<null | ValidationResult>(null);
   const [inputValue, setInputValue] = useState('');
+  const [requiresApproval, setRequiresApproval] = useState(false);
 
   const [data, setData] = useState<Spec[] | null>(null);
   const [functions, setFunctions] = useState<FunctionTool[] | null>(null);
@@ -65,6 +67,10 @@ export default function ActionsInput({
     debouncedValidation(rawSpec, handleResult);
   }, [action?.metadata.raw_spec]);
 
+  useEffect(() => {
+    setRequiresApproval(action?.metadata.requires_approval === true);
+  }, [action?.metadata.requires_approval]);
+
   useEffect(() => {
     if (!validationResult || !validationResult.status || !validationResult.spec) {
       return;
@@ -128,6 +134,7 @@ export default function ActionsInput({
       return;
     }
     metadata.domain = domain;
+    metadata.requires_approval = requiresApproval;
 
     const { type, saved_auth_fields } = authFormData;
 
@@ -273,6 +280,20 @@ export default function ActionsInput({
           />
         </div>
       </div>
+      <div className="my-2 flex items-center">
+        <Checkbox
+          id="action-requires-approval"
+          checked={requiresApproval}
+          onCheckedChange={(checked) => setRequiresApproval(checked === true)}
+          className="relative float-left mr-2 inline-flex h-4 w-4 cursor-pointer"
+        />
+        <label
+          htmlFor="action-requires-approval"
+          className="text-token-text-primary w-full cursor-pointer text-sm"
+        >
+          {localize('com_ui_action_requires_approval')}
+        </label>
+      </div>
       <div className="flex items-center justify-end">
         <button
           disabled={!functions || !functions.length}
@@ -4,6 +4,7 @@ import { AgentCapabilities } from 'librechat-data-provider';
 import { useFormContext, Controller } from 'react-hook-form';
 import type { AgentForm } from '~/common';
 import { useAgentPanelContext } from '~/Providers';
+import MCPToolRetrieval from './MCPToolRetrieval';
 import MaxAgentSteps from './MaxAgentSteps';
 import { useLocalize } from '~/hooks';
 import AgentChain from './AgentChain';
@@ -41,6 +42,7 @@ export default function AdvancedPanel() {
       </div>
       <div className="flex flex-col gap-4 px-2">
         <MaxAgentSteps />
+        <MCPToolRetrieval />
         {chainEnabled && (
           <Controller
             name="agent_ids"
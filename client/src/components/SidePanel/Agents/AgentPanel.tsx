@@ -179,6 +179,9 @@ export default function AgentPanel() {
         recursion_limit,
       } = data;
 
+      /** A cleared input is an empty string, saved as 0 to give the agent all of its MCP tools */
+      const mcp_tool_retrieval =
+        data.mcp_tool_retrieval != null ? Number(data.mcp_tool_retrieval) || 0 : undefined;
       const model = _model ?? '';
       const provider =
         (typeof _provider === 'string' ? _provider : (_provider as StringOption).value) ?? '';
@@ -199,6 +202,7 @@ export default function AgentPanel() {
             end_after_tools,
             hide_sequential_outputs,
             recursion_limit,
+            mcp_tool_retrieval,
           },
         });
         return;
@@ -224,6 +228,7 @@ export default function AgentPanel() {
         end_after_tools,
         hide_sequential_outputs,
         recursion_limit,
+        mcp_tool_retrieval,
       });
     },
     [agent_id, create, update, showToast, localize],
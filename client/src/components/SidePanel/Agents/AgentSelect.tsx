@@ -103,7 +103,10 @@ export default function AgentSelect({
           return;
         }
 
-        if (name === 'recursion_limit' && typeof value === 'number') {
+        if (
+          (name === 'recursion_limit' || name === 'mcp_tool_retrieval') &&
+          typeof value === 'number'
+        ) {
           formValues[name] = value;
           return;
         }
@@ -1,56 +1,95 @@
-import { useCallback } from 'react';
-import { useLocalize } from '~/hooks';
-import { useToastContext } from '~/Providers';
+import { useMemo } from 'react';
+import { useWatch, useFormContext } from 'react-hook-form';
+import type { AgentForm } from '~/common';
 import { useAgentPanelContext } from '~/Providers/AgentPanelContext';
-import MCP from '~/components/SidePanel/Builder/MCP';
-import { Panel } from '~/common';
+import { Checkbox } from '~/components/ui';
+import { useLocalize } from '~/hooks';
+
+const checkboxClass =
+  'relative mr-2 inline-flex h-4 w-4 shrink-0 cursor-pointer rounded border border-gray-300 transition-[border-color] duration-200 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background dark:border-gray-600 dark:hover:border-gray-500';
 
+/** MCP servers available to the agent, to select which of their tools the agent uses */
 export default function MCPSection() {
-  const { showToast } = useToastContext();
   const localize = useLocalize();
-  const { mcps = [], agent_id, setMcp, setActivePanel } = useAgentPanelContext();
+  const { groupedTools } = useAgentPanelContext();
+  const { control, getValues, setValue } = useFormContext<AgentForm>();
+  const selectedTools = useWatch({ control, name: 'tools' }) ?? [];
+
+  const servers = useMemo(
+    () => Object.values(groupedTools ?? {}).filter((group) => (group.tools?.length ?? 0) > 0),
+    [groupedTools],
+  );
+
+  const setToolsSelected = (toolIds: string[], selected: boolean) => {
+    const tools = getValues('tools') ?? [];
+    setValue(
+      'tools',
+      selected
+        ? Array.from(new Set([...tools, ...toolIds]))
+        : tools.filter((toolId) => !toolIds.includes(toolId)),
+      { shouldDirty: true },
+    );
+  };
 
-  const handleAddMCP = useCallback(() => {
-    if (!agent_id) {
-      showToast({
-        message: localize('com_agents_mcps_disabled'),
-        status: 'warning',
-      });
-      return;
-    }
-    setActivePanel(Panel.mcp);
-  }, [agent_id, setActivePanel, showToast, localize]);
+  if (servers.length === 0) {
+    return null;
+  }
 
   return (
     <div className="mb-4">
       <label className="text-token-text-primary mb-2 block font-medium">
         {localize('com_ui_mcp_servers')}
       </label>
-      <div className="space-y-2">
-        {mcps
-          .filter((mcp) => mcp.agent_id === agent_id)
-          .map((mcp, i) => (
-            <MCP
-              key={i}
-              mcp={mcp}
-              onClick={() => {
-                setMcp(mcp);
-                setActivePanel(Panel.mcp);
-              }}
-            />
-          ))}
-        <div className="flex space-x-2">
-          <button
-            type="button"
-            onClick={handleAddMCP}
-            className="btn btn-neutral border-token-border-light relative h-9 w-full rounded-lg font-medium"
-            aria-haspopup="dialog"
-          >
-            <div className="flex w-full items-center justify-center gap-2">
-              {localize('com_ui_add_mcp')}
-            </div>
-          </button>
-        </div>
+      <div className="flex flex-col gap-2">
+        {servers.map((server) => {
+          const toolIds = (server.tools ?? []).map((tool) => tool.tool_id);
+          const selectedCount = toolIds.filter((toolId) => selectedTools.includes(toolId)).length;
+          return (
+            <details key={server.tool_id} className="rounded-lg border border-border-medium">
+              <summary className="flex cursor-pointer items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span className="truncate font-medium">{server.metadata.name}</span>
+                <span className="shrink-0 text-xs text-text-secondary">
+                  {localize('com_ui_mcp_tools_selected', {
+                    '0': `${selectedCount}`,
+                    '1': `${toolIds.length}`,
+                  })}
+                </span>
+              </summary>
+              <div className="flex flex-col gap-1 border-t border-border-light p-2">
+                <label className="flex cursor-pointer items-center rounded-lg p-1 text-sm font-medium">
+                  <Checkbox
+                    checked={selectedCount === toolIds.length}
+                    onCheckedChange={(checked) => setToolsSelected(toolIds, checked === true)}
+                    className={checkboxClass}
+                  />
+                  {localize('com_ui_select_all')}
+                </label>
+                {server.tools?.map((tool) => (
+                  <label
+                    key={tool.tool_id}
+                    className="flex cursor-pointer items-start rounded-lg p-1 text-sm hover:bg-surface-hover"
+                  >
+                    <Checkbox
+                      checked={selectedTools.includes(tool.tool_id)}
+                      onCheckedChange={(checked) =>
+                        setToolsSelected([tool.tool_id], checked === true)
+                      }
+                      className={checkboxClass}
+                    />
+                    <span className="flex min-w-0 flex-col">
+                      <span className="text-token-text-primary">{tool.metadata.name}</span>
+                      {tool.metadata.description && (
+                        <span className="line-clamp-2 text-xs text-text-secondary">
+                          {tool.metadata.description}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </details>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,247 @@
+import { useState, useMemo, useRef, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  QueryKeys,
+  EModelEndpoint,
+  EToolResources,
+  isAgentsEndpoint,
+} from 'librechat-data-provider';
+import type {
+  TMessage,
+  CanvasContentType,
+  TCanvasUploadResponse,
+  TCanvasImportableItem,
+} from 'librechat-data-provider';
+import type { OptionWithIcon } from '~/common';
+import {
+  useCanvasImportableQuery,
+  useUploadCanvasFileMutation,
+  useImportCanvasContentMutation,
+} from '~/data-provider';
+import { useToastContext, useChatContext, useAgentsMapContext } from '~/Providers';
+import { OGDialog, OGDialogTemplate, Progress, Spinner } from '~/components';
+import ControlCombobox from '~/components/ui/ControlCombobox';
+import MessageIcon from '~/components/Share/MessageIcon';
+import { useLocalize } from '~/hooks';
+import { logger } from '~/utils';
+
+/** Number of items imported at the same time */
+const IMPORT_CONCURRENCY = 2;
+
+type ImportProgress = {
+  imported: number;
+  skipped: number;
+  failed: TCanvasImportableItem[];
+};
+
+const initialProgress: ImportProgress = { imported: 0, skipped: 0, failed: [] };
+
+type CanvasBulkImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  courseId: number;
+  /** Name of the module or course being imported */
+  title: string;
+  /** Items to import; every importable item of the course is loaded when omitted */
+  items?: TCanvasImportableItem[];
+};
+
+export default function CanvasBulkImportDialog({
+  open,
+  onOpenChange,
+  courseId,
+  title,
+  items,
+}: CanvasBulkImportDialogProps) {
+  const localize = useLocalize();
+  const queryClient = useQueryClient();
+  const { showToast } = useToastContext();
+  const { conversation } = useChatContext();
+  const agentsMap = useAgentsMapContext();
+  const uploadFileMutation = useUploadCanvasFileMutation();
+  const importContentMutation = useImportCanvasContentMutation();
+  const [agentId, setAgentId] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const cancelledRef = useRef(false);
+
+  const courseItemsQuery = useCanvasImportableQuery(courseId, { enabled: open && !items });
+  const queue = useMemo(() => items ?? courseItemsQuery.data ?? [], [items, courseItemsQuery.data]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setProgress(null);
+    cancelledRef.current = false;
+    if (isAgentsEndpoint(conversation?.endpoint) && conversation?.agent_id) {
+      setAgentId(conversation.agent_id);
+    }
+  }, [open, conversation?.endpoint, conversation?.agent_id]);
+
+  const agentOptions = useMemo(
+    () =>
+      Object.values(agentsMap ?? {}).map(
+        (agent) =>
+          ({
+            label: agent?.name || agent?.id || '',
+            value: agent?.id,
+            icon: (
+              <MessageIcon
+                message={{ endpoint: EModelEndpoint.agents, isCreatedByUser: false } as TMessage}
+                agent={agent}
+              />
+            ),
+          }) as OptionWithIcon,
+      ),
+    [agentsMap],
+  );
+
+  const importItem = (item: TCanvasImportableItem): Promise<TCanvasUploadResponse> => {
+    const target = {
+      endpoint: EModelEndpoint.agents,
+      tool_resource: EToolResources.file_search,
+      agent_id: agentId,
+    };
+    if (item.type === 'File') {
+      return uploadFileMutation.mutateAsync({ fileId: item.id, course_id: courseId, ...target });
+    }
+    return importContentMutation.mutateAsync({
+      courseId,
+      type: item.type as CanvasContentType,
+      id: item.id,
+      ...target,
+    });
+  };
+
+  const handleImport = async () => {
+    if (!agentId || queue.length === 0) {
+      return;
+    }
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setProgress(initialProgress);
+
+    let next = 0;
+    const worker = async () => {
+      while (next < queue.length && !cancelledRef.current) {
+        const item = queue[next++];
+        try {
+          const result = await importItem(item);
+          setProgress(
+            (prev) =>
+              prev &&
+              (result.deduplicated === true
+                ? { ...prev, skipped: prev.skipped + 1 }
+                : { ...prev, imported: prev.imported + 1 }),
+          );
+        } catch (error) {
+          logger.error('canvas_bulk_import', `Failed to import ${item.type} ${item.id}`, error);
+          setProgress((prev) => prev && { ...prev, failed: [...prev.failed, item] });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: IMPORT_CONCURRENCY }, worker));
+    queryClient.invalidateQueries([QueryKeys.agent, agentId]);
+    setIsRunning(false);
+    showToast({ message: localize('com_sidepanel_canvas_bulk_import_complete'), status: 'info' });
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      /** Stops starting new imports; the ones in flight still complete */
+      cancelledRef.current = true;
+    }
+    onOpenChange(isOpen);
+  };
+
+  const processed = progress ? progress.imported + progress.skipped + progress.failed.length : 0;
+  const isLoadingItems = !items && courseItemsQuery.isLoading;
+
+  const renderMain = () => {
+    if (isLoadingItems) {
+      return (
+        <div className="flex h-16 items-center justify-center">
+          <Spinner className="text-text-primary" />
+        </div>
+      );
+    }
+
+    if (queue.length === 0) {
+      return (
+        <div className="text-sm text-text-secondary">
+          {localize('com_sidepanel_canvas_bulk_import_empty')}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-4">
+        <ControlCombobox
+          isCollapsed={false}
+          ariaLabel={localize('com_ui_agent')}
+          selectedValue={agentId}
+          displayValue={agentsMap?.[agentId]?.name ?? ''}
+          selectPlaceholder={localize('com_sidepanel_canvas_bulk_import_select_agent')}
+          searchPlaceholder={localize('com_ui_agent')}
+          setValue={setAgentId}
+          items={agentOptions}
+          disabled={isRunning}
+          className="h-10 w-full border border-border-medium"
+          containerClassName="px-0"
+        />
+        <div className="text-sm text-text-secondary">
+          {localize('com_sidepanel_canvas_bulk_import_count', { '0': queue.length })}
+        </div>
+        {progress && (
+          <div className="flex flex-col gap-2">
+            <Progress value={(processed / queue.length) * 100} />
+            <div className="text-xs text-text-secondary">
+              {localize('com_sidepanel_canvas_bulk_import_progress', {
+                '0': processed,
+                '1': queue.length,
+              })}
+            </div>
+            <div className="text-sm text-text-primary">
+              {localize('com_sidepanel_canvas_bulk_import_summary', {
+                '0': progress.imported,
+                '1': progress.skipped,
+                '2': progress.failed.length,
+              })}
+            </div>
+            {progress.failed.length > 0 && (
+              <div className="text-xs text-red-500">
+                {localize('com_sidepanel_canvas_bulk_import_failed_items')}
+                <ul className="mt-1 list-inside list-disc">
+                  {progress.failed.map((item) => (
+                    <li key={`${item.type}-${item.id}`} className="truncate">
+                      {item.title}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <OGDialog open={open} onOpenChange={handleOpenChange}>
+      <OGDialogTemplate
+        title={localize('com_sidepanel_canvas_bulk_import_title', { '0': title })}
+        description={localize('com_sidepanel_canvas_bulk_import_description')}
+        className="w-11/12 max-w-md"
+        showCloseButton={false}
+        main={renderMain()}
+        selection={{
+          selectHandler: handleImport,
+          selectText: localize('com_ui_import'),
+          isLoading: isRunning,
+        }}
+      />
+    </OGDialog>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { GraduationCap } from 'lucide-react';
+import type { TCanvasAuthStatus } from 'librechat-data-provider';
+import { useConnectCanvasMutation, useInitiateCanvasOAuthMutation } from '~/data-provider';
+import { Button, Input, Label } from '~/components/ui';
+import { useToastContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+
+export default function CanvasConnect({ authStatus }: { authStatus: TCanvasAuthStatus }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [accessToken, setAccessToken] = useState('');
+
+  const connectMutation = useConnectCanvasMutation({
+    onSuccess: () => {
+      setAccessToken('');
+      showToast({ message: localize('com_sidepanel_canvas_connected'), status: 'success' });
+    },
+    onError: () => {
+      showToast({ message: localize('com_sidepanel_canvas_connect_error'), status: 'error' });
+    },
+  });
+
+  const oauthMutation = useInitiateCanvasOAuthMutation();
+
+  const handleOAuthConnect = () => {
+    /* Open the window synchronously so it is not blocked as a popup */
+    const authWindow = window.open('', '_blank');
+    oauthMutation.mutate(undefined, {
+      onSuccess: ({ authorizationUrl }) => {
+        if (authWindow) {
+          authWindow.location.href = authorizationUrl;
+        } else {
+          window.location.href = authorizationUrl;
+        }
+      },
+      onError: () => {
+        authWindow?.close();
+        showToast({ message: localize('com_sidepanel_canvas_oauth_error'), status: 'error' });
+      },
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!accessToken.trim()) {
+      return;
+    }
+    connectMutation.mutate(accessToken.trim());
+  };
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex items-center gap-2 text-text-primary">
+        <GraduationCap className="h-5 w-5" aria-hidden="true" />
+        <span className="text-sm font-medium">
+          {localize('com_sidepanel_canvas_connect_title')}
+        </span>
+      </div>
+      <p className="text-sm text-text-secondary">
+        {localize('com_sidepanel_canvas_connect_description')}
+      </p>
+      {authStatus.oauthEnabled && (
+        <Button
+          type="button"
+          className="w-full"
+          onClick={handleOAuthConnect}
+          disabled={oauthMutation.isLoading}
+        >
+          {localize('com_sidepanel_canvas_connect_oauth')}
+        </Button>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Label htmlFor="canvas-access-token" className="text-sm font-medium">
+          {localize('com_sidepanel_canvas_access_token')}
+        </Label>
+        <Input
+          id="canvas-access-token"
+          type="password"
+          autoComplete="off"
+          value={accessToken}
+          onChange={(e) => setAccessToken(e.target.value)}
+          className="w-full"
+        />
+        <p className="text-xs text-text-secondary">
+          {localize('com_sidepanel_canvas_access_token_help')}
+        </p>
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            variant={authStatus.oauthEnabled ? 'outline' : 'default'}
+            disabled={connectMutation.isLoading || !accessToken.trim()}
+          >
+            {localize('com_sidepanel_canvas_connect')}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
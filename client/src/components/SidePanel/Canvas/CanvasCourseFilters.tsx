@@ -0,0 +1,86 @@
+import { useMemo } from 'react';
+import type { Course } from 'librechat-data-provider';
+import type { CanvasCourseFilter } from '~/common';
+import { Dropdown, Input, Switch } from '~/components';
+import { CANVAS_ALL_TERMS } from '~/common';
+import { useLocalize } from '~/hooks';
+
+/** Applies the panel filters to a list of courses, with favorite courses first */
+export function filterCourses(courses: Course[], filter: CanvasCourseFilter): Course[] {
+  const query = filter.query.trim().toLowerCase();
+  const filtered = courses.filter((course) => {
+    if (filter.hideConcluded && course.workflow_state === 'completed') {
+      return false;
+    }
+    if (filter.termId !== CANVAS_ALL_TERMS && String(course.enrollment_term_id) !== filter.termId) {
+      return false;
+    }
+    return (
+      !query ||
+      course.name.toLowerCase().includes(query) ||
+      (course.course_code ?? '').toLowerCase().includes(query)
+    );
+  });
+  /** `sort` is stable, so courses keep the order Canvas returned them in */
+  return filtered.sort((a, b) => Number(!!b.is_favorite) - Number(!!a.is_favorite));
+}
+
+export default function CanvasCourseFilters({
+  courses,
+  filter,
+  onChange,
+}: {
+  courses: Course[];
+  filter: CanvasCourseFilter;
+  onChange: (filter: CanvasCourseFilter) => void;
+}) {
+  const localize = useLocalize();
+
+  const termOptions = useMemo(() => {
+    const terms = new Map<string, string>();
+    for (const course of courses) {
+      const id = String(course.enrollment_term_id);
+      if (!terms.has(id)) {
+        terms.set(id, course.term?.name ?? id);
+      }
+    }
+    return [
+      { value: CANVAS_ALL_TERMS, label: localize('com_sidepanel_canvas_all_terms') },
+      ...Array.from(terms, ([value, label]) => ({ value, label })),
+    ];
+  }, [courses, localize]);
+
+  return (
+    <div className="space-y-2">
+      <Input
+        placeholder={localize('com_sidepanel_canvas_filter_courses')}
+        value={filter.query}
+        onChange={(e) => onChange({ ...filter, query: e.target.value })}
+        aria-label={localize('com_sidepanel_canvas_filter_courses')}
+      />
+      <div className="flex items-center justify-between gap-2">
+        {termOptions.length > 2 ? (
+          <Dropdown
+            value={filter.termId}
+            onChange={(termId) => onChange({ ...filter, termId })}
+            options={termOptions}
+            ariaLabel={localize('com_sidepanel_canvas_term')}
+            className="z-50"
+          />
+        ) : (
+          <span />
+        )}
+        <div className="flex flex-shrink-0 items-center gap-2">
+          <label htmlFor="canvas-hide-concluded" className="text-xs text-text-secondary">
+            {localize('com_sidepanel_canvas_hide_concluded')}
+          </label>
+          <Switch
+            id="canvas-hide-concluded"
+            checked={filter.hideConcluded}
+            onCheckedChange={(hideConcluded) => onChange({ ...filter, hideConcluded })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,210 +1,220 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
+import { useRecoilState, useSetRecoilState } from 'recoil';
 import { v4 } from 'uuid';
-import { ChevronLeft, ChevronRight, FileText, Video, Link, File, BookOpen, Upload, Check } from 'lucide-react';
-import { useLocalize, useAuthContext } from '~/hooks';
+import {
+  ChevronRight,
+  FileText,
+  Video,
+  Link,
+  File,
+  BookOpen,
+  Upload,
+  Check,
+  Unplug,
+  Import,
+  Star,
+} from 'lucide-react';
+import {
+  SystemRoles,
+  FileSources,
+  EToolResources,
+  EModelEndpoint,
+  isAgentsEndpoint,
+} from 'librechat-data-provider';
+import type {
+  Course,
+  Module,
+  ModuleItem,
+  CanvasContentType,
+  TCanvasUploadTarget,
+  TCanvasUploadResponse,
+  TCanvasImportableItem,
+  TCanvasModuleItemSearchResult,
+} from 'librechat-data-provider';
+import {
+  useCanvasAuthQuery,
+  useCanvasCoursesQuery,
+  useCanvasModulesQuery,
+  useCanvasModuleItemsQuery,
+  useCanvasItemSearchQuery,
+  useFavoriteCanvasCourseMutation,
+  useDisconnectCanvasMutation,
+  useUploadCanvasFileMutation,
+  useImportCanvasContentMutation,
+} from '~/data-provider';
 import { useToastContext, useChatContext } from '~/Providers';
-import { useQueryClient } from '@tanstack/react-query';
-import { QueryKeys, FileSources } from 'librechat-data-provider';
 import useUpdateFiles from '~/hooks/Files/useUpdateFiles';
-import type { ExtendedFile } from '~/common';
-
-interface Course {
-  id: number;
-  name: string;
-  course_code: string;
-  workflow_state: string;
-  enrollment_term_id: number;
-}
-
-interface Module {
-  id: number;
-  name: string;
-  position: number;
-  unlock_at: string | null;
-  require_sequential_progress: boolean;
-  state: string;
-  completed_at: string | null;
-  items_count: number;
-}
-
-interface ModuleItem {
-  id: number;
-  title: string;
-  type: string;
-  content_id: number;
-  html_url: string;
-  url: string;
-  page_url: string;
-  external_url: string;
-  position: number;
-  indent: number;
-  completion_requirement: any;
-  published: boolean;
-}
+import { useLocalize, useDebounce, useAuthContext } from '~/hooks';
+import { Button, Input, Spinner, Switch } from '~/components';
+import CanvasCourseFilters, { filterCourses } from './CanvasCourseFilters';
+import CanvasBulkImportDialog from './CanvasBulkImportDialog';
+import CanvasSyncStatus from './CanvasSyncStatus';
+import CanvasConnect from './CanvasConnect';
+import AdminSettings from './AdminSettings';
+import type { ExtendedFile, CanvasLocation } from '~/common';
+import store from '~/store';
 
 type ViewType = 'courses' | 'modules' | 'items';
 
-const CanvasPanel = () => {
+/** Returns the ID used to import a module item, or `undefined` if the item cannot be imported */
+const getImportId = (item: ModuleItem): string | number | undefined => {
+  switch (item.type) {
+    case 'Page':
+      return item.page_url;
+    case 'File':
+    case 'Assignment':
+    case 'Discussion':
+      return item.content_id;
+    default:
+      return undefined;
+  }
+};
+
+const CanvasBrowser = () => {
   const localize = useLocalize();
-  const { token } = useAuthContext();
   const { showToast } = useToastContext();
-  const { files, setFiles } = useChatContext();
+  const { conversation, setFiles } = useChatContext();
   const { addFile } = useUpdateFiles(setFiles);
-  const queryClient = useQueryClient();
-  const [courses, setCourses] = useState<Course[]>([]);
-  const [modules, setModules] = useState<Module[]>([]);
-  const [items, setItems] = useState<ModuleItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [currentView, setCurrentView] = useState<ViewType>('courses');
-  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
-  const [selectedModule, setSelectedModule] = useState<Module | null>(null);
+  const uploadFileMutation = useUploadCanvasFileMutation();
+  const importContentMutation = useImportCanvasContentMutation();
+  const [location, setLocation] = useRecoilState(store.canvasLocation);
+  const [courseFilter, setCourseFilter] = useRecoilState(store.canvasCourseFilter);
   const [uploadingFiles, setUploadingFiles] = useState<Set<number>>(new Set());
   const [uploadedFiles, setUploadedFiles] = useState<Set<number>>(new Set());
+  const [addToAgent, setAddToAgent] = useState(false);
+  const [bulkImportOpen, setBulkImportOpen] = useState(false);
+  const [itemQuery, setItemQuery] = useState('');
+  const debouncedItemQuery = useDebounce(itemQuery.trim(), 300);
+  const canAddToAgent = isAgentsEndpoint(conversation?.endpoint) && !!conversation?.agent_id;
 
-  useEffect(() => {
-    const fetchCourses = async () => {
-      try {
-        setLoading(true);
-        const response = await fetch('/api/canvas/courses');
-        if (!response.ok) {
-          throw new Error('Failed to fetch courses');
-        }
-        const data = await response.json();
-        setCourses(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred');
-      } finally {
-        setLoading(false);
-      }
-    };
+  const { course: selectedCourse, module: selectedModule } = location;
+  let currentView: ViewType = 'courses';
+  if (selectedCourse && selectedModule) {
+    currentView = 'items';
+  } else if (selectedCourse) {
+    currentView = 'modules';
+  }
 
-    if (currentView === 'courses') {
-      fetchCourses();
-    }
-  }, [currentView]);
-
-  const fetchModules = async (courseId: number) => {
-    try {
-      setLoading(true);
-      const response = await fetch(`/api/canvas/courses/${courseId}/modules`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch modules');
-      }
-      const data = await response.json();
-      setModules(data);
-      setCurrentView('modules');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const coursesQuery = useCanvasCoursesQuery({ enabled: currentView === 'courses' });
+  const modulesQuery = useCanvasModulesQuery(selectedCourse?.id, {
+    enabled: currentView === 'modules',
+  });
+  const itemsQuery = useCanvasModuleItemsQuery(selectedCourse?.id, selectedModule?.id);
+  const activeQuery = { courses: coursesQuery, modules: modulesQuery, items: itemsQuery }[
+    currentView
+  ];
+  const courses = useMemo(() => coursesQuery.data ?? [], [coursesQuery.data]);
+  const modules = modulesQuery.data ?? [];
+  const items = itemsQuery.data ?? [];
+
+  const filteredCourses = useMemo(
+    () => filterCourses(courses, courseFilter),
+    [courses, courseFilter],
+  );
+  const isSearchingItems = currentView === 'modules' && debouncedItemQuery.length >= 2;
+  const { data: searchResults, isFetching: isFetchingSearch } = useCanvasItemSearchQuery(
+    selectedCourse?.id ?? '',
+    debouncedItemQuery,
+    { enabled: isSearchingItems && !!selectedCourse },
+  );
+
+  const favoriteMutation = useFavoriteCanvasCourseMutation({
+    onError: () => {
+      showToast({ message: localize('com_sidepanel_canvas_favorite_error'), status: 'error' });
+    },
+  });
 
-  const fetchModuleItems = async (courseId: number, moduleId: number) => {
-    try {
-      setLoading(true);
-      const response = await fetch(`/api/canvas/courses/${courseId}/modules/${moduleId}/items`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch module items');
-      }
-      const data = await response.json();
-      setItems(data);
-      setCurrentView('items');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
+  const navigate = (next: CanvasLocation) => {
+    if (next.course?.id !== selectedCourse?.id) {
+      setItemQuery('');
     }
+    setLocation(next);
   };
 
   const handleCourseClick = (course: Course) => {
-    setSelectedCourse(course);
-    fetchModules(course.id);
+    navigate({ course: { id: course.id, name: course.name } });
   };
 
   const handleModuleClick = (module: Module) => {
-    setSelectedModule(module);
-    if (selectedCourse) {
-      fetchModuleItems(selectedCourse.id, module.id);
-    }
+    navigate({ course: selectedCourse, module: { id: module.id, name: module.name } });
   };
 
-  const handleBackClick = () => {
-    if (currentView === 'items') {
-      setCurrentView('modules');
-      setSelectedModule(null);
-    } else if (currentView === 'modules') {
-      setCurrentView('courses');
-      setSelectedCourse(null);
-      setModules([]);
+  const handleUploadSuccess = (itemId: number, result: TCanvasUploadResponse) => {
+    setUploadedFiles((prev) => new Set(prev).add(itemId));
+
+    // Add file to current chat as attachment
+    if (!addToAgent) {
+      const extendedFile: ExtendedFile = {
+        file_id: result.file_id || v4(),
+        filename: result.originalFile.display_name,
+        type: result.originalFile.content_type || 'application/octet-stream',
+        size: result.originalFile.size || 0,
+        filepath: result.filepath,
+        progress: 1,
+        source: FileSources.canvas,
+        attached: true,
+        embedded: true,
+      };
+      addFile(extendedFile);
     }
+
+    showToast({
+      message: localize(
+        addToAgent ? 'com_sidepanel_canvas_added_to_agent' : 'com_sidepanel_canvas_attached',
+        { '0': result.originalFile.display_name },
+      ),
+      status: 'success',
+    });
   };
 
-// Remove the old uploadMutation - we'll handle this differently
-
-  const handleFileUpload = async (fileId: number) => {
-    try {
-      setUploadingFiles(prev => new Set(prev).add(fileId));
-      
-      // Use backend to proxy the file download and upload (avoids CORS issues)
-      const response = await fetch(`/api/canvas/files/${fileId}/download-and-upload`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          endpoint: 'openAI',
-          tool_resource: 'file_search',
-        }),
-      });
+  const handleUploadError = (error: Error) => {
+    console.error('Error uploading Canvas content:', error);
+    showToast({ message: localize('com_sidepanel_canvas_upload_error'), status: 'error' });
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Upload failed');
-      }
-
-      const result = await response.json();
-      
-      setUploadedFiles(prev => new Set(prev).add(fileId));
-      
-      // Add file to current chat as attachment
-      if (result.originalFile) {
-        const extendedFile: ExtendedFile = {
-          file_id: result.file_id || v4(),
-          filename: result.originalFile.display_name,
-          type: result.originalFile.content_type || 'application/octet-stream',
-          size: result.originalFile.size || 0,
-          filepath: result.filepath,
-          progress: 1,
-          source: FileSources.canvas,
-          attached: true,
-          embedded: true,
-        };
-        
-        addFile(extendedFile);
-      }
-      
-      // Invalidate queries to auto-refresh files list
-      queryClient.invalidateQueries([QueryKeys.files]);
-      
-      showToast({
-        message: `File "${result.originalFile?.display_name || 'file'}" uploaded successfully to file search and added to chat!`,
-        status: 'success',
-      });
-    } catch (error) {
-      console.error('Error uploading file:', error);
-      showToast({
-        message: `Failed to upload file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        status: 'error',
-      });
-    } finally {
-      setUploadingFiles(prev => {
+  const handleImport = (item: ModuleItem) => {
+    const importId = getImportId(item);
+    if (importId == null) {
+      return;
+    }
+
+    const target: TCanvasUploadTarget = isAgentsEndpoint(conversation?.endpoint)
+      ? {
+          endpoint: conversation?.endpoint ?? undefined,
+          tool_resource: EToolResources.file_search,
+          agent_id: conversation?.agent_id ?? undefined,
+          message_file: !addToAgent,
+        }
+      : { endpoint: EModelEndpoint.openAI, tool_resource: EToolResources.file_search };
+
+    setUploadingFiles((prev) => new Set(prev).add(item.id));
+    const onSettled = () =>
+      setUploadingFiles((prev) => {
         const newSet = new Set(prev);
-        newSet.delete(fileId);
+        newSet.delete(item.id);
         return newSet;
       });
+    const callbacks = {
+      onSuccess: (result: TCanvasUploadResponse) => handleUploadSuccess(item.id, result),
+      onError: handleUploadError,
+      onSettled,
+    };
+
+    if (item.type === 'File') {
+      uploadFileMutation.mutate(
+        { fileId: importId, course_id: selectedCourse?.id, ...target },
+        callbacks,
+      );
+    } else if (selectedCourse) {
+      importContentMutation.mutate(
+        {
+          courseId: selectedCourse.id,
+          type: item.type as CanvasContentType,
+          id: importId,
+          ...target,
+        },
+        callbacks,
+      );
     }
   };
 
@@ -227,81 +237,168 @@ const CanvasPanel = () => {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex h-32 items-center justify-center">
-        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-text-primary"></div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="p-4 text-red-500 text-sm">
-        Error loading courses: {error}
-      </div>
-    );
-  }
-
   const renderHeader = () => {
-    if (currentView === 'courses') return null;
-    
+    const crumbs: Array<{ label: string; location: CanvasLocation }> = [
+      { label: localize('com_sidepanel_canvas_courses'), location: {} },
+    ];
+    if (selectedCourse) {
+      crumbs.push({ label: selectedCourse.name, location: { course: selectedCourse } });
+    }
+    if (selectedCourse && selectedModule) {
+      crumbs.push({ label: selectedModule.name, location });
+    }
+
     return (
-      <div className="flex items-center justify-between p-3 border-b border-border-light">
-        <button
-          onClick={handleBackClick}
-          className="flex items-center text-sm text-text-secondary hover:text-text-primary transition-colors"
+      <div className="flex items-center justify-between border-b border-border-light p-3">
+        <nav
+          aria-label={localize('com_sidepanel_canvas_breadcrumb')}
+          className="flex min-w-0 items-center text-sm"
         >
-          <ChevronLeft className="h-4 w-4 mr-1" />
-          Back
-        </button>
-        <div className="text-sm font-medium text-text-primary truncate ml-2">
-          {currentView === 'modules' && selectedCourse?.name}
-          {currentView === 'items' && selectedModule?.name}
-        </div>
+          {crumbs.map((crumb, index) => {
+            const isCurrent = index === crumbs.length - 1;
+            return (
+              <div key={index} className="flex min-w-0 items-center">
+                {index > 0 && (
+                  <ChevronRight
+                    className="mx-0.5 h-4 w-4 flex-shrink-0 text-text-secondary"
+                    aria-hidden="true"
+                  />
+                )}
+                {isCurrent ? (
+                  <span aria-current="page" className="truncate font-medium text-text-primary">
+                    {crumb.label}
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => navigate(crumb.location)}
+                    title={crumb.label}
+                    className="truncate text-text-secondary transition-colors hover:text-text-primary"
+                  >
+                    {crumb.label}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </nav>
+        {currentView !== 'courses' && (
+          <button
+            onClick={() => setBulkImportOpen(true)}
+            className="ml-2 flex flex-shrink-0 items-center text-sm text-text-secondary transition-colors hover:text-text-primary"
+          >
+            <Import className="mr-1 h-4 w-4" aria-hidden="true" />
+            {localize('com_sidepanel_canvas_import_all')}
+          </button>
+        )}
       </div>
     );
   };
 
+  /** Importable items of the open module; the dialog loads the whole course from the modules view */
+  const moduleImportItems =
+    currentView === 'items'
+      ? items.reduce<TCanvasImportableItem[]>((acc, item) => {
+          const id = getImportId(item);
+          if (id != null) {
+            acc.push({ type: item.type as TCanvasImportableItem['type'], id, title: item.title });
+          }
+          return acc;
+        }, [])
+      : undefined;
+
   const renderCourses = () => (
     <div className="space-y-2">
-      {courses.map((course) => (
-        <div
-          key={course.id}
-          onClick={() => handleCourseClick(course)}
-          className="p-3 rounded-lg border border-border-light hover:border-border-medium transition-colors cursor-pointer"
-        >
-          <div className="text-sm font-medium text-text-primary break-words">
-            {course.name}
-          </div>
-          <div className="text-xs text-text-secondary mt-1">
-            {course.course_code}
-          </div>
-          <div className="flex items-center justify-end mt-2">
-            <ChevronRight className="h-4 w-4 text-text-secondary" />
-          </div>
+      <CanvasCourseFilters courses={courses} filter={courseFilter} onChange={setCourseFilter} />
+      {filteredCourses.length === 0 && (
+        <div className="text-sm text-text-secondary">
+          {localize('com_sidepanel_canvas_no_matching_courses')}
         </div>
-      ))}
+      )}
+      {filteredCourses.map((course) => {
+        const favoriteLabel = localize(
+          course.is_favorite ? 'com_sidepanel_canvas_unfavorite' : 'com_sidepanel_canvas_favorite',
+        );
+        return (
+          <div
+            key={course.id}
+            onClick={() => handleCourseClick(course)}
+            className="cursor-pointer rounded-lg border border-border-light p-3 transition-colors hover:border-border-medium"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="break-words text-sm font-medium text-text-primary">{course.name}</div>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  favoriteMutation.mutate({ courseId: course.id, favorite: !course.is_favorite });
+                }}
+                className="flex-shrink-0 rounded text-text-secondary transition-colors hover:text-text-primary"
+                title={favoriteLabel}
+                aria-label={favoriteLabel}
+                aria-pressed={!!course.is_favorite}
+              >
+                <Star
+                  className={`h-4 w-4 ${course.is_favorite ? 'fill-yellow-400 text-yellow-400' : ''}`}
+                  aria-hidden="true"
+                />
+              </button>
+            </div>
+            <div className="mt-1 text-xs text-text-secondary">
+              {course.course_code}
+              {course.term?.name && ` · ${course.term.name}`}
+            </div>
+            <div className="mt-2 flex items-center justify-end">
+              <ChevronRight className="h-4 w-4 text-text-secondary" />
+            </div>
+          </div>
+        );
+      })}
     </div>
   );
 
+  const renderItemSearch = () => (
+    <Input
+      placeholder={localize('com_sidepanel_canvas_search_items')}
+      value={itemQuery}
+      onChange={(e) => setItemQuery(e.target.value)}
+      aria-label={localize('com_sidepanel_canvas_search_items')}
+    />
+  );
+
+  const renderSearchResults = () => {
+    if (!searchResults) {
+      return isFetchingSearch ? (
+        <div className="flex justify-center p-2">
+          <Spinner className="text-text-primary" />
+        </div>
+      ) : null;
+    }
+    if (searchResults.length === 0) {
+      return (
+        <div className="text-sm text-text-secondary">
+          {localize('com_sidepanel_canvas_no_search_results')}
+        </div>
+      );
+    }
+    return renderItems(searchResults);
+  };
+
   const renderModules = () => (
     <div className="space-y-2">
       {modules.map((module) => (
         <div
           key={module.id}
           onClick={() => handleModuleClick(module)}
-          className="p-3 rounded-lg border border-border-light hover:border-border-medium transition-colors cursor-pointer"
+          className="cursor-pointer rounded-lg border border-border-light p-3 transition-colors hover:border-border-medium"
         >
-          <div className="text-sm font-medium text-text-primary break-words">
-            {module.name}
-          </div>
+          <div className="break-words text-sm font-medium text-text-primary">{module.name}</div>
           {module.items_count > 0 && (
-            <div className="text-xs text-text-secondary mt-1">
-              {module.items_count} item{module.items_count !== 1 ? 's' : ''}
+            <div className="mt-1 text-xs text-text-secondary">
+              {localize('com_sidepanel_canvas_items_count', { '0': module.items_count })}
             </div>
           )}
-          <div className="flex items-center justify-end mt-2">
+          <div className="mt-2 flex items-center justify-end">
             <ChevronRight className="h-4 w-4 text-text-secondary" />
           </div>
         </div>
@@ -309,46 +406,68 @@ const CanvasPanel = () => {
     </div>
   );
 
-  const renderItems = () => (
+  const renderItems = (listItems: Array<ModuleItem | TCanvasModuleItemSearchResult>) => (
     <div className="space-y-2">
-      {items.map((item) => {
+      {canAddToAgent && (
+        <div className="flex items-center justify-between pb-1">
+          <label htmlFor="canvas-add-to-agent" className="text-xs text-text-secondary">
+            {localize('com_sidepanel_canvas_add_to_agent')}
+          </label>
+          <Switch id="canvas-add-to-agent" checked={addToAgent} onCheckedChange={setAddToAgent} />
+        </div>
+      )}
+      {listItems.map((item) => {
         const IconComponent = getItemIcon(item.type);
-        const isFile = item.type === 'File';
-        const isUploading = uploadingFiles.has(item.content_id);
-        const isUploaded = uploadedFiles.has(item.content_id);
-        
+        const canImport = getImportId(item) != null;
+        const isUploading = uploadingFiles.has(item.id);
+        const isUploaded = uploadedFiles.has(item.id);
+
         return (
           <div
             key={item.id}
-            className="p-3 rounded-lg border border-border-light hover:border-border-medium transition-colors"
-            style={{ marginLeft: `${item.indent * 12}px` }}
+            className="rounded-lg border border-border-light p-3 transition-colors hover:border-border-medium"
+            style={{ marginLeft: 'module_name' in item ? undefined : `${item.indent * 12}px` }}
           >
             <div className="flex items-start space-x-2">
-              <IconComponent className="h-4 w-4 text-text-secondary mt-0.5 flex-shrink-0" />
-              <div className="flex-1 min-w-0">
-                <div className="text-sm font-medium text-text-primary break-words">
+              <IconComponent className="mt-0.5 h-4 w-4 flex-shrink-0 text-text-secondary" />
+              <div className="min-w-0 flex-1">
+                <div className="break-words text-sm font-medium text-text-primary">
                   {item.title}
                 </div>
-                <div className="text-xs text-text-secondary mt-1 capitalize">
+                <div className="mt-1 text-xs capitalize text-text-secondary">
                   {item.type.replace(/([A-Z])/g, ' $1').trim()}
                 </div>
+                {'module_name' in item && (
+                  <div className="mt-1 break-words text-xs text-text-secondary">
+                    {item.module_name}
+                  </div>
+                )}
               </div>
-              {isFile && (
+              {canImport && (
                 <div className="flex-shrink-0">
                   {isUploaded ? (
                     <div className="flex items-center space-x-1 text-green-600">
-                      <Check className="h-4 w-4" />
-                      <span className="text-xs">Uploaded</span>
+                      <Check className="h-4 w-4" aria-hidden="true" />
+                      <span className="text-xs">{localize('com_sidepanel_canvas_uploaded')}</span>
                     </div>
                   ) : (
                     <button
-                      onClick={() => handleFileUpload(item.content_id)}
+                      onClick={() => handleImport(item)}
                       disabled={isUploading}
-                      className="flex items-center space-x-1 px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                      title="Upload to File Search"
+                      className="flex items-center space-x-1 rounded bg-blue-600 px-2 py-1 text-xs text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+                      title={localize(
+                        item.type === 'File'
+                          ? 'com_sidepanel_canvas_upload_file'
+                          : 'com_sidepanel_canvas_import_content',
+                      )}
                     >
-                      <Upload className={`h-3 w-3 ${isUploading ? 'animate-spin' : ''}`} />
-                      <span>{isUploading ? 'Uploading...' : 'Upload'}</span>
+                      <Upload
+                        className={`h-3 w-3 ${isUploading ? 'animate-spin' : ''}`}
+                        aria-hidden="true"
+                      />
+                      <span>
+                        {localize(isUploading ? 'com_sidepanel_canvas_uploading' : 'com_ui_upload')}
+                      </span>
                     </button>
                   )}
                 </div>
@@ -360,32 +479,138 @@ const CanvasPanel = () => {
     </div>
   );
 
+  const renderContent = () => {
+    if (activeQuery.isLoading) {
+      return (
+        <div className="flex h-32 items-center justify-center">
+          <Spinner className="text-text-primary" />
+        </div>
+      );
+    }
+
+    if (activeQuery.error) {
+      return (
+        <div className="text-sm text-red-500">
+          {localize('com_sidepanel_canvas_load_error', {
+            '0': (activeQuery.error as Error).message,
+          })}
+        </div>
+      );
+    }
+
+    if (currentView === 'courses') {
+      return courses.length > 0 ? (
+        renderCourses()
+      ) : (
+        <div className="text-sm text-text-secondary">
+          {localize('com_sidepanel_canvas_no_courses')}
+        </div>
+      );
+    }
+
+    if (currentView === 'modules') {
+      return modules.length > 0 ? (
+        renderModules()
+      ) : (
+        <div className="text-sm text-text-secondary">
+          {localize('com_sidepanel_canvas_no_modules')}
+        </div>
+      );
+    }
+
+    return items.length > 0 ? (
+      renderItems(items)
+    ) : (
+      <div className="text-sm text-text-secondary">{localize('com_sidepanel_canvas_no_items')}</div>
+    );
+  };
+
   return (
     <div className="h-auto max-w-full overflow-x-hidden">
       {renderHeader()}
-      <div className="p-4 space-y-3">
-        {currentView === 'courses' && courses.length === 0 && !loading && (
-          <div className="text-sm text-text-secondary">
-            No courses found
-          </div>
-        )}
-        {currentView === 'modules' && modules.length === 0 && !loading && (
-          <div className="text-sm text-text-secondary">
-            No modules found
-          </div>
-        )}
-        {currentView === 'items' && items.length === 0 && !loading && (
-          <div className="text-sm text-text-secondary">
-            No items found
-          </div>
-        )}
-        
-        {currentView === 'courses' && courses.length > 0 && renderCourses()}
-        {currentView === 'modules' && modules.length > 0 && renderModules()}
-        {currentView === 'items' && items.length > 0 && renderItems()}
+      <div className="space-y-3 p-4">
+        {currentView === 'modules' && renderItemSearch()}
+        {isSearchingItems ? renderSearchResults() : renderContent()}
       </div>
+      {selectedCourse && (
+        <CanvasBulkImportDialog
+          open={bulkImportOpen}
+          onOpenChange={setBulkImportOpen}
+          courseId={selectedCourse.id}
+          title={
+            (currentView === 'items' ? selectedModule?.name : undefined) ?? selectedCourse.name
+          }
+          items={moduleImportItems}
+        />
+      )}
     </div>
   );
 };
 
-export default CanvasPanel;
\ No newline at end of file
+export default function CanvasPanel() {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { user } = useAuthContext();
+  const { data: authStatus, isLoading } = useCanvasAuthQuery();
+  const setLocation = useSetRecoilState(store.canvasLocation);
+  const disconnectMutation = useDisconnectCanvasMutation({
+    onSuccess: () => {
+      setLocation({});
+      showToast({ message: localize('com_sidepanel_canvas_disconnected'), status: 'success' });
+    },
+    onError: () => {
+      showToast({ message: localize('com_sidepanel_canvas_disconnect_error'), status: 'error' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <Spinner className="text-text-primary" />
+      </div>
+    );
+  }
+
+  if (!authStatus?.configured) {
+    return (
+      <div className="p-4 text-sm text-text-secondary">
+        {localize('com_sidepanel_canvas_not_configured')}
+      </div>
+    );
+  }
+
+  const adminSettings = user?.role === SystemRoles.ADMIN && (
+    <div className="border-t border-border-light p-3">
+      <AdminSettings />
+    </div>
+  );
+
+  if (!authStatus.connected) {
+    return (
+      <>
+        <CanvasConnect authStatus={authStatus} />
+        {adminSettings}
+      </>
+    );
+  }
+
+  return (
+    <div className="h-auto max-w-full overflow-x-hidden">
+      <CanvasBrowser />
+      <div className="flex items-center justify-between gap-2 border-t border-border-light p-3">
+        <CanvasSyncStatus />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => disconnectMutation.mutate()}
+          disabled={disconnectMutation.isLoading}
+          className="ml-auto flex-shrink-0"
+        >
+          <Unplug className="mr-1 h-4 w-4" aria-hidden="true" />
+          {localize('com_sidepanel_canvas_disconnect')}
+        </Button>
+      </div>
+      {adminSettings}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState, useMemo, useEffect } from 'react';
+import remarkGfm from 'remark-gfm';
+import ReactMarkdown from 'react-markdown';
+import { useRecoilValue } from 'recoil';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { TMessage, CanvasPublishType, TCanvasPublishRequest } from 'librechat-data-provider';
+import type { Artifact } from '~/common';
+import {
+  useCanvasCoursesQuery,
+  useCanvasModulesQuery,
+  usePublishToCanvasMutation,
+} from '~/data-provider';
+import { OGDialog, OGDialogTemplate, Dropdown, Input, Label, Switch } from '~/components';
+import ControlCombobox from '~/components/ui/ControlCombobox';
+import { defaultCanvasCourseFilter } from '~/common';
+import { filterCourses } from './CanvasCourseFilters';
+import { getFileExtension } from '~/utils/artifacts';
+import { useToastContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+import store from '~/store';
+
+/** Publish source for the message text itself, as opposed to one of its artifacts */
+const MESSAGE_SOURCE = 'message';
+const DEFAULT_FOLDER = 'LibreChat';
+const PUBLISH_TYPE_LABELS = {
+  Page: 'com_sidepanel_canvas_publish_type_page',
+  File: 'com_sidepanel_canvas_publish_type_file',
+  Announcement: 'com_sidepanel_canvas_publish_type_announcement',
+} as const satisfies Record<CanvasPublishType, string>;
+
+/** Artifact directives are rendered separately, so they are left out of the published text */
+const stripArtifacts = (text: string) => text.replace(/:::artifact[\s\S]*?\n:::/g, '').trim();
+
+const markdownToHtml = (markdown: string) =>
+  renderToStaticMarkup(<ReactMarkdown remarkPlugins={[remarkGfm]}>{markdown}</ReactMarkdown>);
+
+/** Builds the request body for the selected source: HTML for pages and announcements, the raw content for files */
+function buildContent(
+  type: CanvasPublishType,
+  text: string,
+  artifact?: Artifact,
+): Pick<TCanvasPublishRequest, 'content' | 'filename' | 'content_type'> {
+  if (!artifact) {
+    return { content: type === 'File' ? text : markdownToHtml(text) };
+  }
+  const content = artifact.content ?? '';
+  const isHtml = artifact.type === 'text/html';
+  if (type === 'File') {
+    return {
+      content,
+      filename: `${artifact.title || artifact.identifier || 'artifact'}.${getFileExtension(artifact.type)}`,
+      content_type: isHtml ? 'text/html' : 'text/plain',
+    };
+  }
+  if (isHtml) {
+    return { content };
+  }
+  return { content: markdownToHtml(`\`\`\`${artifact.language ?? ''}\n${content}\n\`\`\``) };
+}
+
+export default function CanvasPublishDialog({
+  open,
+  onOpenChange,
+  message,
+  text,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  message: TMessage;
+  /** Plain text of the message */
+  text: string;
+}) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const artifacts = useRecoilValue(store.artifactsState);
+  const [source, setSource] = useState(MESSAGE_SOURCE);
+  const [type, setType] = useState<CanvasPublishType>('Page');
+  const [title, setTitle] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [moduleId, setModuleId] = useState('');
+  const [folderPath, setFolderPath] = useState(DEFAULT_FOLDER);
+  const [published, setPublished] = useState(false);
+
+  const coursesQuery = useCanvasCoursesQuery({ enabled: open });
+  const modulesQuery = useCanvasModulesQuery(
+    courseId && type !== 'Announcement' ? Number(courseId) : undefined,
+  );
+
+  const messageArtifacts = useMemo(
+    () =>
+      Object.values(artifacts ?? {}).filter(
+        (artifact): artifact is Artifact => artifact?.messageId === message.messageId,
+      ),
+    [artifacts, message.messageId],
+  );
+  const selectedArtifact = messageArtifacts.find((artifact) => artifact.id === source);
+
+  useEffect(() => {
+    if (open) {
+      setSource(MESSAGE_SOURCE);
+      setModuleId('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setTitle(selectedArtifact?.title ?? '');
+  }, [selectedArtifact?.title]);
+
+  const publishMutation = usePublishToCanvasMutation({
+    onSuccess: (result) => {
+      showToast({
+        message: localize('com_sidepanel_canvas_publish_success', { '0': result.title }),
+        status: 'success',
+      });
+      if (result.html_url) {
+        window.open(result.html_url, '_blank', 'noopener,noreferrer');
+      }
+      onOpenChange(false);
+    },
+    onError: () => {
+      showToast({ message: localize('com_sidepanel_canvas_publish_error'), status: 'error' });
+    },
+  });
+
+  const sourceOptions = useMemo(
+    () => [
+      { value: MESSAGE_SOURCE, label: localize('com_sidepanel_canvas_publish_message') },
+      ...messageArtifacts.map((artifact) => ({
+        value: artifact.id,
+        label: artifact.title || artifact.identifier || artifact.id,
+      })),
+    ],
+    [messageArtifacts, localize],
+  );
+
+  const typeOptions = useMemo(
+    () =>
+      Object.entries(PUBLISH_TYPE_LABELS).map(([value, label]) => ({
+        value,
+        label: localize(label),
+      })),
+    [localize],
+  );
+
+  const courses = useMemo(
+    () => filterCourses(coursesQuery.data ?? [], defaultCanvasCourseFilter),
+    [coursesQuery.data],
+  );
+  const courseOptions = useMemo(
+    () => courses.map((course) => ({ value: String(course.id), label: course.name })),
+    [courses],
+  );
+  const moduleOptions = useMemo(
+    () =>
+      (modulesQuery.data ?? []).map((module) => ({ value: String(module.id), label: module.name })),
+    [modulesQuery.data],
+  );
+
+  const handlePublish = () => {
+    if (!courseId || !title.trim()) {
+      showToast({
+        message: localize('com_sidepanel_canvas_publish_required'),
+        status: 'warning',
+      });
+      return;
+    }
+    publishMutation.mutate({
+      courseId: Number(courseId),
+      type,
+      title: title.trim(),
+      ...buildContent(type, stripArtifacts(text), selectedArtifact),
+      folder_path: type === 'File' ? folderPath.trim() || DEFAULT_FOLDER : undefined,
+      module_id: moduleId && type !== 'Announcement' ? Number(moduleId) : undefined,
+      published,
+    });
+  };
+
+  const main = (
+    <div className="flex flex-col gap-3">
+      {sourceOptions.length > 1 && (
+        <div className="flex flex-col gap-1">
+          <Label>{localize('com_sidepanel_canvas_publish_source')}</Label>
+          <Dropdown
+            value={source}
+            onChange={setSource}
+            options={sourceOptions}
+            ariaLabel={localize('com_sidepanel_canvas_publish_source')}
+            className="z-50"
+          />
+        </div>
+      )}
+      <div className="flex flex-col gap-1">
+        <Label>{localize('com_sidepanel_canvas_publish_as')}</Label>
+        <Dropdown
+          value={type}
+          onChange={(value) => setType(value as CanvasPublishType)}
+          options={typeOptions}
+          ariaLabel={localize('com_sidepanel_canvas_publish_as')}
+          className="z-50"
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="canvas-publish-title">
+          {localize('com_sidepanel_canvas_publish_name')}
+        </Label>
+        <Input id="canvas-publish-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+      </div>
+      <ControlCombobox
+        isCollapsed={false}
+        ariaLabel={localize('com_sidepanel_canvas_course')}
+        selectedValue={courseId}
+        displayValue={courseOptions.find((option) => option.value === courseId)?.label ?? ''}
+        selectPlaceholder={localize('com_sidepanel_canvas_publish_select_course')}
+        searchPlaceholder={localize('com_sidepanel_canvas_filter_courses')}
+        setValue={(value) => {
+          setCourseId(value);
+          setModuleId('');
+        }}
+        items={courseOptions}
+        className="h-10 w-full border border-border-medium"
+        containerClassName="px-0"
+      />
+      {type !== 'Announcement' && courseId && (
+        <ControlCombobox
+          isCollapsed={false}
+          ariaLabel={localize('com_sidepanel_canvas_module')}
+          selectedValue={moduleId}
+          displayValue={moduleOptions.find((option) => option.value === moduleId)?.label ?? ''}
+          selectPlaceholder={localize('com_sidepanel_canvas_publish_select_module')}
+          searchPlaceholder={localize('com_sidepanel_canvas_module')}
+          setValue={setModuleId}
+          items={moduleOptions}
+          className="h-10 w-full border border-border-medium"
+          containerClassName="px-0"
+        />
+      )}
+      {type === 'File' && (
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="canvas-publish-folder">
+            {localize('com_sidepanel_canvas_publish_folder')}
+          </Label>
+          <Input
+            id="canvas-publish-folder"
+            value={folderPath}
+            onChange={(e) => setFolderPath(e.target.value)}
+          />
+        </div>
+      )}
+      {type !== 'Announcement' && (
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="canvas-publish-published">
+            {localize('com_sidepanel_canvas_publish_visible')}
+          </Label>
+          <Switch
+            id="canvas-publish-published"
+            checked={published}
+            onCheckedChange={setPublished}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <OGDialog open={open} onOpenChange={onOpenChange}>
+      <OGDialogTemplate
+        title={localize('com_sidepanel_canvas_publish_title')}
+        description={localize('com_sidepanel_canvas_publish_description')}
+        className="w-11/12 max-w-md"
+        showCloseButton={false}
+        main={main}
+        selection={{
+          selectHandler: handlePublish,
+          selectText: localize('com_sidepanel_canvas_publish'),
+          isLoading: publishMutation.isLoading,
+        }}
+      />
+    </OGDialog>
+  );
+}
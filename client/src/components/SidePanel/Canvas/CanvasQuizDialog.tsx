@@ -0,0 +1,114 @@
+import { useState, useMemo, useEffect } from 'react';
+import type { TQuiz } from 'librechat-data-provider';
+import { useCanvasCoursesQuery, useCreateCanvasQuizMutation } from '~/data-provider';
+import { OGDialog, OGDialogTemplate, Label, Switch } from '~/components';
+import ControlCombobox from '~/components/ui/ControlCombobox';
+import { defaultCanvasCourseFilter } from '~/common';
+import { filterCourses } from './CanvasCourseFilters';
+import { useToastContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+
+/** Creates a quiz artifact as a graded quiz in one of the instructor's Canvas courses */
+export default function CanvasQuizDialog({
+  open,
+  onOpenChange,
+  quiz,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quiz: TQuiz;
+}) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [courseId, setCourseId] = useState('');
+  const [published, setPublished] = useState(false);
+  const coursesQuery = useCanvasCoursesQuery({ enabled: open });
+
+  useEffect(() => {
+    if (open) {
+      setPublished(false);
+    }
+  }, [open]);
+
+  const createQuizMutation = useCreateCanvasQuizMutation({
+    onSuccess: (result) => {
+      showToast({
+        message: localize('com_ui_quiz_canvas_success', {
+          '0': result.title,
+          '1': result.question_count,
+        }),
+        status: 'success',
+      });
+      if (result.html_url) {
+        window.open(result.html_url, '_blank', 'noopener,noreferrer');
+      }
+      onOpenChange(false);
+    },
+    onError: () => {
+      showToast({ message: localize('com_ui_quiz_canvas_error'), status: 'error' });
+    },
+  });
+
+  const courseOptions = useMemo(
+    () =>
+      filterCourses(coursesQuery.data ?? [], defaultCanvasCourseFilter).map((course) => ({
+        value: String(course.id),
+        label: course.name,
+      })),
+    [coursesQuery.data],
+  );
+
+  const handleCreate = () => {
+    if (!courseId) {
+      showToast({
+        message: localize('com_sidepanel_canvas_publish_select_course'),
+        status: 'warning',
+      });
+      return;
+    }
+    createQuizMutation.mutate({ courseId: Number(courseId), quiz, published });
+  };
+
+  const main = (
+    <div className="flex flex-col gap-3">
+      <ControlCombobox
+        isCollapsed={false}
+        ariaLabel={localize('com_sidepanel_canvas_course')}
+        selectedValue={courseId}
+        displayValue={courseOptions.find((option) => option.value === courseId)?.label ?? ''}
+        selectPlaceholder={localize('com_sidepanel_canvas_publish_select_course')}
+        searchPlaceholder={localize('com_sidepanel_canvas_filter_courses')}
+        setValue={setCourseId}
+        items={courseOptions}
+        className="h-10 w-full border border-border-medium"
+        containerClassName="px-0"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="canvas-quiz-published">
+          {localize('com_sidepanel_canvas_publish_visible')}
+        </Label>
+        <Switch id="canvas-quiz-published" checked={published} onCheckedChange={setPublished} />
+      </div>
+    </div>
+  );
+
+  return (
+    <OGDialog open={open} onOpenChange={onOpenChange}>
+      <OGDialogTemplate
+        title={localize('com_ui_quiz_canvas_title')}
+        description={localize('com_ui_quiz_canvas_description', {
+          '0': quiz.title,
+          '1': quiz.questions.length,
+        })}
+        className="w-11/12 max-w-md"
+        showCloseButton={false}
+        main={main}
+        selection={{
+          selectHandler: handleCreate,
+          selectText: localize('com_ui_create'),
+          isLoading: createQuizMutation.isLoading,
+        }}
+      />
+    </OGDialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { RefreshCw } from 'lucide-react';
+import { useCanvasSyncStatusQuery, useSyncCanvasMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+/** "Last synced" indicator for imported Canvas files, with a button to sync them now */
+export default function CanvasSyncStatus() {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { data: status } = useCanvasSyncStatusQuery();
+  const syncMutation = useSyncCanvasMutation({
+    onSuccess: (result) => {
+      showToast({
+        message: localize('com_sidepanel_canvas_sync_success', {
+          '0': result?.updated ?? 0,
+          '1': result?.deleted ?? 0,
+        }),
+        status: result?.failed ? 'warning' : 'success',
+      });
+    },
+    onError: () => {
+      showToast({ message: localize('com_sidepanel_canvas_sync_error'), status: 'error' });
+    },
+  });
+
+  if (!status?.files) {
+    return null;
+  }
+
+  const isSyncing = syncMutation.isLoading || status.running;
+  let label = localize('com_sidepanel_canvas_never_synced');
+  if (isSyncing) {
+    label = localize('com_sidepanel_canvas_syncing');
+  } else if (status.lastSyncedAt) {
+    label = localize('com_sidepanel_canvas_last_synced', {
+      '0': new Date(status.lastSyncedAt).toLocaleString(),
+    });
+  }
+
+  return (
+    <div className="flex min-w-0 items-center gap-1 text-xs text-text-secondary">
+      <button
+        type="button"
+        onClick={() => syncMutation.mutate()}
+        disabled={isSyncing}
+        className="rounded p-1 transition-colors hover:text-text-primary disabled:cursor-not-allowed"
+        title={localize('com_sidepanel_canvas_sync_now')}
+        aria-label={localize('com_sidepanel_canvas_sync_now')}
+      >
+        <RefreshCw className={cn('h-4 w-4', isSyncing && 'animate-spin')} aria-hidden="true" />
+      </button>
+      <span className="truncate">{label}</span>
+    </div>
+  );
+}
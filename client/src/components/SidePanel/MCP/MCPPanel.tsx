@@ -1,14 +1,17 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { ChevronLeft } from 'lucide-react';
-import { Constants } from 'librechat-data-provider';
+import { Constants, Permissions, PermissionTypes } from 'librechat-data-provider';
 import { useForm, Controller } from 'react-hook-form';
 import { useUpdateUserPluginsMutation } from 'librechat-data-provider/react-query';
 import type { TUpdateUserPlugins } from 'librechat-data-provider';
 import { Button, Input, Label } from '~/components/ui';
-import { useGetStartupConfig } from '~/data-provider';
+import { useGetStartupConfig, useUserMCPServersQuery } from '~/data-provider';
 import MCPPanelSkeleton from './MCPPanelSkeleton';
+import UserMCPServers from './UserMCPServers';
+import AdminSettings from './AdminSettings';
+import MCPResources from './MCPResources';
+import { useLocalize, useHasAccess } from '~/hooks';
 import { useToastContext } from '~/Providers';
-import { useLocalize } from '~/hooks';
 
 interface ServerConfigWithVars {
   serverName: string;
@@ -21,6 +24,11 @@ export default function MCPPanel() {
   const localize = useLocalize();
   const { showToast } = useToastContext();
   const { data: startupConfig, isLoading: startupConfigLoading } = useGetStartupConfig();
+  const hasAccessToUserServers = useHasAccess({
+    permissionType: PermissionTypes.MCP_SERVERS,
+    permission: Permissions.USE,
+  });
+  const { data: userServers = [] } = useUserMCPServersQuery({ enabled: hasAccessToUserServers });
   const [selectedServerNameForEditing, setSelectedServerNameForEditing] = useState<string | null>(
     null,
   );
@@ -29,19 +37,14 @@ export default function MCPPanel() {
     if (!startupConfig?.mcpServers) {
       return [];
     }
-    return Object.entries(startupConfig.mcpServers)
-      .filter(
-        ([, serverConfig]) =>
-          serverConfig.customUserVars && Object.keys(serverConfig.customUserVars).length > 0,
-      )
-      .map(([serverName, config]) => ({
-        serverName,
-        iconPath: null,
-        config: {
-          ...config,
-          customUserVars: config.customUserVars ?? {},
-        },
-      }));
+    return Object.entries(startupConfig.mcpServers).map(([serverName, config]) => ({
+      serverName,
+      iconPath: null,
+      config: {
+        ...config,
+        customUserVars: config.customUserVars ?? {},
+      },
+    }));
   }, [startupConfig?.mcpServers]);
 
   const updateUserPluginsMutation = useUpdateUserPluginsMutation({
@@ -93,10 +96,10 @@ export default function MCPPanel() {
     return <MCPPanelSkeleton />;
   }
 
-  if (mcpServerDefinitions.length === 0) {
+  if (mcpServerDefinitions.length === 0 && !hasAccessToUserServers) {
     return (
       <div className="p-4 text-center text-sm text-gray-500">
-        {localize('com_sidepanel_mcp_no_servers_with_vars')}
+        {localize('com_sidepanel_mcp_no_servers')}
       </div>
     );
   }
@@ -107,6 +110,26 @@ export default function MCPPanel() {
       (s) => s.serverName === selectedServerNameForEditing,
     );
 
+    if (
+      !serverBeingEdited &&
+      userServers.some((s) => s.serverName === selectedServerNameForEditing)
+    ) {
+      return (
+        <div className="h-auto max-w-full overflow-x-hidden p-3">
+          <Button
+            variant="outline"
+            onClick={handleGoBackToList}
+            className="mb-3 flex items-center px-3 py-2 text-sm"
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            {localize('com_ui_back')}
+          </Button>
+          <h3 className="mb-3 text-lg font-medium">{selectedServerNameForEditing}</h3>
+          <MCPResources serverName={selectedServerNameForEditing} />
+        </div>
+      );
+    }
+
     if (!serverBeingEdited) {
       // Fallback to list view if server not found
       setSelectedServerNameForEditing(null);
@@ -127,15 +150,22 @@ export default function MCPPanel() {
           <ChevronLeft className="mr-1 h-4 w-4" />
           {localize('com_ui_back')}
         </Button>
-        <h3 className="mb-3 text-lg font-medium">
-          {localize('com_sidepanel_mcp_variables_for', { '0': serverBeingEdited.serverName })}
-        </h3>
-        <MCPVariableEditor
-          server={serverBeingEdited}
-          onSave={handleSaveServerVars}
-          onRevoke={handleRevokeServerVars}
-          isSubmitting={updateUserPluginsMutation.isLoading}
-        />
+        {Object.keys(serverBeingEdited.config.customUserVars).length > 0 ? (
+          <>
+            <h3 className="mb-3 text-lg font-medium">
+              {localize('com_sidepanel_mcp_variables_for', { '0': serverBeingEdited.serverName })}
+            </h3>
+            <MCPVariableEditor
+              server={serverBeingEdited}
+              onSave={handleSaveServerVars}
+              onRevoke={handleRevokeServerVars}
+              isSubmitting={updateUserPluginsMutation.isLoading}
+            />
+          </>
+        ) : (
+          <h3 className="mb-3 text-lg font-medium">{serverBeingEdited.serverName}</h3>
+        )}
+        <MCPResources serverName={serverBeingEdited.serverName} />
       </div>
     );
   } else {
@@ -154,6 +184,10 @@ export default function MCPPanel() {
             </Button>
           ))}
         </div>
+        {hasAccessToUserServers && <UserMCPServers onSelect={handleServerClickToEdit} />}
+        <div className="mt-4">
+          <AdminSettings />
+        </div>
       </div>
     );
   }
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Bell, BellOff, ChevronDown, ChevronRight, Paperclip, RefreshCw } from 'lucide-react';
+import type { TMCPResource } from 'librechat-data-provider';
+import {
+  useMCPResourcesQuery,
+  useMCPResourceContentsQuery,
+  useFetchMCPResourceContents,
+  useMCPResourceSubscriptionMutation,
+} from '~/data-provider';
+import { useLocalize, useFileHandling } from '~/hooks';
+import { Button, Spinner } from '~/components';
+import { mcpResourceToFile } from '~/utils';
+import { useToastContext } from '~/Providers';
+
+/** Longest text shown in a resource preview */
+const PREVIEW_LENGTH = 4000;
+
+function MCPResourcePreview({
+  serverName,
+  resource,
+}: {
+  serverName: string;
+  resource: TMCPResource;
+}) {
+  const localize = useLocalize();
+  const { data, isLoading, isError } = useMCPResourceContentsQuery(
+    serverName,
+    resource.uri,
+    resource.updatedAt,
+  );
+
+  if (isLoading) {
+    return <Spinner className="m-2 h-4 w-4 text-text-primary" />;
+  }
+  if (isError || !data) {
+    return <p className="p-2 text-xs text-red-500">{localize('com_ui_mcp_resource_read_error')}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-2">
+      {data.contents.map((contents, index) => {
+        if (contents.text != null) {
+          return (
+            <pre
+              key={index}
+              className="max-h-60 overflow-auto whitespace-pre-wrap break-words rounded bg-surface-secondary p-2 text-xs text-text-primary"
+            >
+              {contents.text.slice(0, PREVIEW_LENGTH)}
+            </pre>
+          );
+        }
+        const mimeType = contents.mimeType ?? resource.mimeType ?? '';
+        if (contents.blob != null && mimeType.startsWith('image/')) {
+          return (
+            <img
+              key={index}
+              src={`data:${mimeType};base64,${contents.blob}`}
+              alt={resource.name}
+              className="max-h-60 rounded object-contain"
+            />
+          );
+        }
+        return (
+          <p key={index} className="text-xs text-text-secondary">
+            {localize('com_ui_mcp_resource_binary', { '0': mimeType || contents.uri })}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Resources of an MCP server: each can be previewed, attached to the message being written
+ * like an uploaded file, and, if the server supports it, subscribed to for updates
+ */
+export default function MCPResources({ serverName }: { serverName: string }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { handleFiles } = useFileHandling();
+  const [expandedUri, setExpandedUri] = useState<string | null>(null);
+  const [attachingUri, setAttachingUri] = useState<string | null>(null);
+  const fetchContents = useFetchMCPResourceContents(serverName);
+  const { data, isLoading, isError, isFetching, refetch } = useMCPResourcesQuery(serverName);
+
+  const subscriptionMutation = useMCPResourceSubscriptionMutation(serverName, {
+    onError: () => {
+      showToast({ message: localize('com_ui_mcp_resource_subscribe_error'), status: 'error' });
+    },
+  });
+
+  const attachResource = async (resource: TMCPResource) => {
+    setAttachingUri(resource.uri);
+    try {
+      const { contents } = await fetchContents(resource.uri, resource.updatedAt);
+      await handleFiles(contents.map((item) => mcpResourceToFile(resource, item)));
+    } catch (error) {
+      console.error('Error attaching MCP resource:', error);
+      showToast({ message: localize('com_ui_mcp_resource_read_error'), status: 'error' });
+    } finally {
+      setAttachingUri(null);
+    }
+  };
+
+  const header = (
+    <div className="mb-2 flex items-center justify-between">
+      <h4 className="text-sm font-medium text-text-primary">{localize('com_ui_mcp_resources')}</h4>
+      <button
+        type="button"
+        onClick={() => refetch()}
+        disabled={isFetching}
+        className="text-text-secondary hover:text-text-primary"
+        aria-label={localize('com_ui_refresh')}
+      >
+        <RefreshCw className={isFetching ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} aria-hidden="true" />
+      </button>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div>
+        {header}
+        <Spinner className="h-4 w-4 text-text-primary" />
+      </div>
+    );
+  }
+
+  if (isError || !data || data.resources.length === 0) {
+    return (
+      <div>
+        {header}
+        <p className="text-sm text-text-secondary">
+          {localize(isError ? 'com_ui_mcp_resources_error' : 'com_ui_mcp_resources_empty')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {header}
+      <ul className="space-y-1">
+        {data.resources.map((resource) => {
+          const isExpanded = expandedUri === resource.uri;
+          return (
+            <li key={resource.uri} className="rounded-lg border border-border-light">
+              <div className="flex items-center gap-1 p-2">
+                <button
+                  type="button"
+                  onClick={() => setExpandedUri(isExpanded ? null : resource.uri)}
+                  className="flex min-w-0 flex-1 items-start gap-1 text-left"
+                  aria-expanded={isExpanded}
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                  ) : (
+                    <ChevronRight className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                  )}
+                  <span className="min-w-0">
+                    <span className="block truncate text-sm text-text-primary">
+                      {resource.name}
+                    </span>
+                    <span className="block truncate text-xs text-text-secondary">
+                      {resource.description ?? resource.uri}
+                    </span>
+                    {resource.updatedAt != null && (
+                      <span className="block text-xs text-green-600 dark:text-green-400">
+                        {localize('com_ui_mcp_resource_updated', {
+                          '0': new Date(resource.updatedAt).toLocaleTimeString(),
+                        })}
+                      </span>
+                    )}
+                  </span>
+                </button>
+                {data.subscribable && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 shrink-0"
+                    disabled={subscriptionMutation.isLoading}
+                    onClick={() =>
+                      subscriptionMutation.mutate({
+                        uri: resource.uri,
+                        subscribe: !resource.subscribed,
+                      })
+                    }
+                    aria-label={localize(
+                      resource.subscribed
+                        ? 'com_ui_mcp_resource_unsubscribe'
+                        : 'com_ui_mcp_resource_subscribe',
+                    )}
+                    aria-pressed={resource.subscribed}
+                  >
+                    {resource.subscribed ? (
+                      <BellOff className="h-4 w-4" aria-hidden="true" />
+                    ) : (
+                      <Bell className="h-4 w-4" aria-hidden="true" />
+                    )}
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  disabled={attachingUri != null}
+                  onClick={() => attachResource(resource)}
+                  aria-label={localize('com_ui_mcp_resource_attach')}
+                >
+                  {attachingUri === resource.uri ? (
+                    <Spinner className="h-4 w-4" />
+                  ) : (
+                    <Paperclip className="h-4 w-4" aria-hidden="true" />
+                  )}
+                </Button>
+              </div>
+              {isExpanded && <MCPResourcePreview serverName={serverName} resource={resource} />}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import type { TUserMCPServer, UserMCPServerOptions } from 'librechat-data-provider';
+import { OGDialog, OGDialogTemplate, Button, Input, Label, Dropdown } from '~/components/ui';
+import { useCreateUserMCPServerMutation, useUpdateUserMCPServerMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { Spinner } from '~/components';
+import { useLocalize } from '~/hooks';
+
+type FormValues = {
+  serverName: string;
+  type: UserMCPServerOptions['type'];
+  url: string;
+  headers: Array<{ name: string; value: string }>;
+  client_id: string;
+  client_secret: string;
+  scope: string;
+  authorization_url: string;
+  token_url: string;
+};
+
+function getDefaultValues(server?: TUserMCPServer): FormValues {
+  const config = server?.config;
+  return {
+    serverName: server?.serverName ?? '',
+    type: config?.type ?? 'streamable-http',
+    url: config?.url ?? '',
+    headers: Object.keys(config?.headers ?? {}).map((name) => ({ name, value: '' })),
+    client_id: config?.oauth?.client_id ?? '',
+    client_secret: '',
+    scope: config?.oauth?.scope ?? '',
+    authorization_url: config?.oauth?.authorization_url ?? '',
+    token_url: config?.oauth?.token_url ?? '',
+  };
+}
+
+/** Options of the server from the form, leaving out empty optional fields */
+function toConfig(values: FormValues): UserMCPServerOptions {
+  const config: UserMCPServerOptions = { type: values.type, url: values.url.trim() };
+  const headers = values.headers.filter(({ name }) => name.trim());
+  if (headers.length > 0) {
+    config.headers = Object.fromEntries(headers.map(({ name, value }) => [name.trim(), value]));
+  }
+  const oauth = Object.fromEntries(
+    (['client_id', 'client_secret', 'scope', 'authorization_url', 'token_url'] as const)
+      .map((key) => [key, values[key].trim()])
+      .filter(([, value]) => value),
+  );
+  if (Object.keys(oauth).length > 0) {
+    config.oauth = oauth;
+  }
+  return config;
+}
+
+function getErrorMessage(error: unknown): string | undefined {
+  return (error as { response?: { data?: { error?: string } } } | undefined)?.response?.data?.error;
+}
+
+/** Form to register a remote MCP server, or to edit one the user registered */
+export default function UserMCPServerDialog({
+  open,
+  onOpenChange,
+  server,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  server?: TUserMCPServer;
+}) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { control, register, handleSubmit, reset } = useForm<FormValues>({
+    defaultValues: getDefaultValues(server),
+  });
+  const { fields, append, remove } = useFieldArray({ control, name: 'headers' });
+
+  useEffect(() => {
+    if (open) {
+      reset(getDefaultValues(server));
+    }
+  }, [open, server, reset]);
+
+  const mutationOptions = {
+    onSuccess: () => {
+      showToast({ message: localize('com_ui_mcp_server_saved'), status: 'success' });
+      onOpenChange(false);
+    },
+    onError: (error: unknown) => {
+      showToast({
+        message: getErrorMessage(error) ?? localize('com_ui_mcp_server_save_error'),
+        status: 'error',
+      });
+    },
+  };
+  const createMutation = useCreateUserMCPServerMutation(mutationOptions);
+  const updateMutation = useUpdateUserMCPServerMutation(mutationOptions);
+  const isLoading = createMutation.isLoading || updateMutation.isLoading;
+
+  const onSubmit = (values: FormValues) => {
+    const payload = { serverName: values.serverName.trim(), config: toConfig(values) };
+    if (server) {
+      updateMutation.mutate(payload);
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const secretPlaceholder = server ? localize('com_ui_mcp_server_secret_unchanged') : undefined;
+
+  return (
+    <OGDialog open={open} onOpenChange={onOpenChange}>
+      <OGDialogTemplate
+        title={server ? server.serverName : localize('com_ui_mcp_server_add')}
+        showCloseButton={false}
+        className="w-11/12 md:max-w-lg"
+        main={
+          <form
+            id="user-mcp-server-form"
+            onSubmit={handleSubmit(onSubmit)}
+            className="flex flex-col gap-3"
+          >
+            {!server && (
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="mcp-server-name">{localize('com_ui_name')}</Label>
+                <Input
+                  id="mcp-server-name"
+                  {...register('serverName', { required: true, pattern: /^[a-zA-Z0-9_-]+$/ })}
+                />
+                <p className="text-xs text-text-secondary">
+                  {localize('com_ui_mcp_server_name_info')}
+                </p>
+              </div>
+            )}
+            <div className="flex flex-col gap-1">
+              <Label>{localize('com_ui_mcp_server_transport')}</Label>
+              <Controller
+                name="type"
+                control={control}
+                render={({ field }) => (
+                  <Dropdown
+                    value={field.value}
+                    onChange={field.onChange}
+                    options={[
+                      { value: 'streamable-http', label: 'Streamable HTTP' },
+                      { value: 'sse', label: 'SSE' },
+                    ]}
+                    ariaLabel={localize('com_ui_mcp_server_transport')}
+                    sizeClasses="w-full"
+                  />
+                )}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="mcp-server-url">URL</Label>
+              <Input
+                id="mcp-server-url"
+                type="url"
+                placeholder="https://"
+                {...register('url', { required: true })}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <Label>{localize('com_ui_mcp_server_headers')}</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => append({ name: '', value: '' })}
+                  aria-label={localize('com_ui_add')}
+                >
+                  <Plus className="h-4 w-4" aria-hidden="true" />
+                </Button>
+              </div>
+              {fields.map((field, index) => (
+                <div key={field.id} className="flex items-center gap-2">
+                  <Input
+                    aria-label={localize('com_ui_key')}
+                    placeholder={localize('com_ui_key')}
+                    {...register(`headers.${index}.name`)}
+                  />
+                  <Input
+                    type="password"
+                    aria-label={localize('com_ui_value')}
+                    placeholder={secretPlaceholder ?? localize('com_ui_value')}
+                    autoComplete="off"
+                    {...register(`headers.${index}.value`)}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => remove(index)}
+                    aria-label={localize('com_ui_delete')}
+                  >
+                    <Trash2 className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <details className="flex flex-col gap-2">
+              <summary className="cursor-pointer text-sm font-medium">
+                {localize('com_ui_oauth')}
+              </summary>
+              <p className="my-2 text-xs text-text-secondary">
+                {localize('com_ui_mcp_server_oauth_info')}
+              </p>
+              <div className="flex flex-col gap-2">
+                <Input placeholder={localize('com_ui_client_id')} {...register('client_id')} />
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  placeholder={secretPlaceholder ?? localize('com_ui_client_secret')}
+                  aria-label={localize('com_ui_client_secret')}
+                  {...register('client_secret')}
+                />
+                <Input placeholder={localize('com_ui_scope')} {...register('scope')} />
+                <Input
+                  type="url"
+                  placeholder={localize('com_ui_auth_url')}
+                  {...register('authorization_url')}
+                />
+                <Input
+                  type="url"
+                  placeholder={localize('com_ui_token_url')}
+                  {...register('token_url')}
+                />
+              </div>
+            </details>
+          </form>
+        }
+        buttons={
+          <Button
+            variant="submit"
+            type="submit"
+            form="user-mcp-server-form"
+            disabled={isLoading}
+            className="text-white"
+          >
+            {isLoading ? <Spinner /> : localize('com_ui_save')}
+          </Button>
+        }
+      />
+    </OGDialog>
+  );
+}
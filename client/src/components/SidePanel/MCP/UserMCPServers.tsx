@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Pencil, Plug, Plus, Trash2 } from 'lucide-react';
+import { Permissions, PermissionTypes } from 'librechat-data-provider';
+import type { TUserMCPServer } from 'librechat-data-provider';
+import {
+  useUserMCPServersQuery,
+  useDeleteUserMCPServerMutation,
+  useConnectUserMCPServerMutation,
+} from '~/data-provider';
+import UserMCPServerDialog from './UserMCPServerDialog';
+import { useLocalize, useHasAccess } from '~/hooks';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components/ui';
+
+/** MCP servers the user registered, with actions to connect to, edit and delete them */
+export default function UserMCPServers({ onSelect }: { onSelect: (serverName: string) => void }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editedServer, setEditedServer] = useState<TUserMCPServer | undefined>();
+  const canCreate = useHasAccess({
+    permissionType: PermissionTypes.MCP_SERVERS,
+    permission: Permissions.CREATE,
+  });
+  const { data: servers = [] } = useUserMCPServersQuery();
+
+  const connectMutation = useConnectUserMCPServerMutation({
+    onSuccess: ({ authURL, server }) => {
+      if (authURL) {
+        window.open(authURL, '_blank', 'noopener,noreferrer');
+        showToast({ message: localize('com_ui_mcp_server_authorize'), status: 'info' });
+        return;
+      }
+      showToast({
+        message: localize('com_ui_mcp_server_connected', { '0': `${server?.tools.length ?? 0}` }),
+        status: 'success',
+      });
+    },
+    onError: () => {
+      showToast({ message: localize('com_ui_mcp_server_connect_error'), status: 'error' });
+    },
+  });
+  const deleteMutation = useDeleteUserMCPServerMutation({
+    onError: () => {
+      showToast({ message: localize('com_ui_mcp_server_delete_error'), status: 'error' });
+    },
+  });
+
+  const openDialog = (server?: TUserMCPServer) => {
+    setEditedServer(server);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-text-primary">
+          {localize('com_ui_mcp_servers_mine')}
+        </h3>
+        {canCreate && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => openDialog()}
+            aria-label={localize('com_ui_mcp_server_add')}
+          >
+            <Plus className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        )}
+      </div>
+      {servers.length === 0 && (
+        <p className="text-xs text-text-secondary">{localize('com_ui_mcp_servers_mine_empty')}</p>
+      )}
+      {servers.map((server) => (
+        <div key={server.serverName} className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            className="min-w-0 flex-1 justify-between dark:hover:bg-gray-700"
+            onClick={() => onSelect(server.serverName)}
+          >
+            <span className="truncate">{server.serverName}</span>
+            <span className="text-xs text-text-secondary">
+              {localize('com_ui_mcp_server_tools', { '0': `${server.tools.length}` })}
+            </span>
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={connectMutation.isLoading}
+            onClick={() => connectMutation.mutate(server.serverName)}
+            aria-label={localize('com_ui_mcp_server_connect')}
+            title={localize('com_ui_mcp_server_connect')}
+          >
+            <Plug className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          {canCreate && (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => openDialog(server)}
+                aria-label={localize('com_ui_edit')}
+              >
+                <Pencil className="h-4 w-4" aria-hidden="true" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={deleteMutation.isLoading}
+                onClick={() => deleteMutation.mutate(server.serverName)}
+                aria-label={localize('com_ui_delete')}
+              >
+                <Trash2 className="h-4 w-4" aria-hidden="true" />
+              </Button>
+            </>
+          )}
+        </div>
+      ))}
+      <UserMCPServerDialog open={dialogOpen} onOpenChange={setDialogOpen} server={editedServer} />
+    </div>
+  );
+}
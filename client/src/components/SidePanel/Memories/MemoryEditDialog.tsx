@@ -6,6 +6,7 @@ import { useUpdateMemoryMutation, useMemoriesQuery } from '~/data-provider';
 import { useLocalize, useHasAccess } from '~/hooks';
 import { useToastContext } from '~/Providers';
 import { Spinner } from '~/components/svg';
+import { getMemoryScope } from './scope';
 
 interface MemoryEditDialogProps {
   memory: TUserMemory | null;
@@ -101,6 +102,7 @@ export default function MemoryEditDialog({
       key: key.trim(),
       value: value.trim(),
       ...(originalKey !== key.trim() && { originalKey }),
+      scope: getMemoryScope(memory),
     });
   };
 
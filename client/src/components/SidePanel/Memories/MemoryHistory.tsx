@@ -0,0 +1,197 @@
+import { useMemo } from 'react';
+import { Undo2, MessageSquare } from 'lucide-react';
+import { matchSorter } from 'match-sorter';
+import { QueryKeys, PermissionTypes, Permissions } from 'librechat-data-provider';
+import { useQueryClient } from '@tanstack/react-query';
+import type { TConversation, TMemoryHistoryEntry } from 'librechat-data-provider';
+import type { MemoryScopeOptions } from './scope';
+import { useMemoryHistoryQuery, useRevertMemoryChangeMutation } from '~/data-provider';
+import { useLocalize, useHasAccess, useNavigateToConvo } from '~/hooks';
+import { Spinner, Button, TooltipAnchor } from '~/components';
+import { useToastContext } from '~/Providers';
+import { getScopeLabels } from './scope';
+
+const actionLabels = {
+  create: 'com_ui_memory_history_created',
+  update: 'com_ui_memory_history_updated',
+  delete: 'com_ui_memory_history_deleted',
+  move: 'com_ui_memory_history_moved',
+} as const;
+
+/** Timeline of the changes of the user's memories, newest first, each of which can be reverted */
+export default function MemoryHistory({
+  searchQuery,
+  scopeOptions,
+}: {
+  searchQuery: string;
+  scopeOptions: MemoryScopeOptions;
+}) {
+  const localize = useLocalize();
+  const queryClient = useQueryClient();
+  const { showToast } = useToastContext();
+  const { navigateToConvo } = useNavigateToConvo();
+  const { data, isLoading } = useMemoryHistoryQuery();
+
+  const hasUpdateAccess = useHasAccess({
+    permissionType: PermissionTypes.MEMORIES,
+    permission: Permissions.UPDATE,
+  });
+
+  const { mutate: revertChange, isLoading: isReverting } = useRevertMemoryChangeMutation({
+    onSuccess: () => {
+      showToast({ message: localize('com_ui_memory_history_reverted'), status: 'success' });
+    },
+    onError: (error: Error & { response?: { status?: number; data?: { error?: string } } }) => {
+      const status = error.response?.status;
+      showToast({
+        message:
+          status === 400 || status === 409
+            ? (error.response?.data?.error ?? localize('com_ui_error'))
+            : localize('com_ui_error'),
+        status: 'error',
+      });
+    },
+  });
+
+  const entries = useMemo(
+    () =>
+      matchSorter(data?.history ?? [], searchQuery, {
+        keys: ['key', 'value', 'previousValue'],
+        sorter: (items) => items,
+      }),
+    [data, searchQuery],
+  );
+
+  const openSource = (entry: TMemoryHistoryEntry) => {
+    const conversationId = entry.source?.conversationId;
+    if (!conversationId) {
+      return;
+    }
+    const cachedConvo = queryClient.getQueryData<TConversation>([
+      QueryKeys.conversation,
+      conversationId,
+    ]);
+    navigateToConvo(cachedConvo ?? ({ conversationId } as TConversation), {
+      resetLatestMessage: true,
+    });
+
+    const messageId = entry.source?.messageId;
+    if (!messageId) {
+      return;
+    }
+    /** Messages render once the conversation has loaded */
+    let attempts = 0;
+    const interval = setInterval(() => {
+      const element = document.getElementById(messageId);
+      attempts += 1;
+      if (element || attempts >= 20) {
+        clearInterval(interval);
+        element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }
+    }, 250);
+  };
+
+  const getSourceLabel = (entry: TMemoryHistoryEntry) => {
+    if (entry.source?.revertOf) {
+      return localize('com_ui_memory_history_by_revert');
+    }
+    if (!entry.source?.conversationId) {
+      return localize('com_ui_memory_history_by_user');
+    }
+    const agentId = entry.source.agentId;
+    if (!agentId) {
+      return localize('com_ui_memory_history_by_chat');
+    }
+    const agent = scopeOptions.agents.find((option) => option.value === agentId);
+    return localize('com_ui_memory_history_by_agent', { 0: agent?.label ?? agentId });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-24 items-center justify-center">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (!entries.length) {
+    return (
+      <div className="flex h-24 items-center justify-center text-sm text-text-secondary">
+        {localize('com_ui_no_data')}
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-2" aria-label={localize('com_ui_memory_history')}>
+      {entries.map((entry) => {
+        const scopeLabels = getScopeLabels(entry, scopeOptions, localize);
+        return (
+          <li
+            key={entry._id}
+            className="rounded-lg border border-border-light p-3 text-sm shadow-sm"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate font-medium text-text-primary" title={entry.key}>
+                  {entry.key}{' '}
+                  <span className="text-xs font-normal text-text-secondary">
+                    {localize('com_ui_memory_history_version', { 0: entry.version })} ·{' '}
+                    {localize(actionLabels[entry.action])}
+                  </span>
+                </div>
+                <div className="text-xs text-text-secondary">
+                  {new Date(entry.createdAt).toLocaleDateString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                  {scopeLabels.length > 0 && ` · ${scopeLabels.join(' · ')}`}
+                </div>
+              </div>
+              {hasUpdateAccess && (
+                <TooltipAnchor
+                  description={localize('com_ui_memory_history_revert')}
+                  render={
+                    <Button
+                      variant="ghost"
+                      aria-label={localize('com_ui_memory_history_revert')}
+                      onClick={() => revertChange(entry._id)}
+                      disabled={isReverting}
+                      className="h-8 w-8 shrink-0 p-0"
+                    >
+                      <Undo2 className="size-4" />
+                    </Button>
+                  }
+                />
+              )}
+            </div>
+            {entry.action !== 'move' && entry.previousValue != null && (
+              <div className="mt-2 break-words text-text-secondary line-through">
+                {entry.previousValue}
+              </div>
+            )}
+            {entry.action !== 'delete' && entry.value != null && (
+              <div className="mt-1 break-words text-text-primary">{entry.value}</div>
+            )}
+            <div className="mt-2 flex items-center justify-between gap-2 text-xs text-text-secondary">
+              <span className="truncate">{getSourceLabel(entry)}</span>
+              {entry.source?.conversationId && (
+                <button
+                  type="button"
+                  className="flex shrink-0 items-center gap-1 hover:text-text-primary hover:underline"
+                  onClick={() => openSource(entry)}
+                >
+                  <MessageSquare className="size-3" aria-hidden="true" />
+                  {localize('com_ui_memory_history_view_message')}
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import type { TUserMemory } from 'librechat-data-provider';
+import type { MemoryScopeOption, MemoryScopeOptions } from './scope';
+import { OGDialog, OGDialogTemplate, Button, Label, Dropdown } from '~/components/ui';
+import { useUpdateMemoryScopeMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { Spinner } from '~/components/svg';
+import { getMemoryScope } from './scope';
+import { useLocalize } from '~/hooks';
+
+/** Dropdown value of unset scope fields */
+const NONE = 'none';
+
+interface MemoryScopeDialogProps {
+  memory: TUserMemory;
+  options: MemoryScopeOptions;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  children: React.ReactNode;
+  triggerRef?: React.MutableRefObject<HTMLButtonElement | null>;
+}
+
+export default function MemoryScopeDialog({
+  memory,
+  options,
+  open,
+  onOpenChange,
+  children,
+  triggerRef,
+}: MemoryScopeDialogProps) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [agentId, setAgentId] = useState(NONE);
+  const [projectId, setProjectId] = useState(NONE);
+  const [conversationTag, setConversationTag] = useState(NONE);
+
+  useEffect(() => {
+    if (open) {
+      setAgentId(memory.agentId || NONE);
+      setProjectId(memory.projectId || NONE);
+      setConversationTag(memory.conversationTag || NONE);
+    }
+  }, [open, memory]);
+
+  const { mutate: updateScope, isLoading } = useUpdateMemoryScopeMutation({
+    onSuccess: () => {
+      showToast({ message: localize('com_ui_saved'), status: 'success' });
+      onOpenChange(false);
+    },
+    onError: (error: Error & { response?: { status?: number } }) => {
+      showToast({
+        message:
+          error.response?.status === 409
+            ? localize('com_ui_memory_scope_key_exists')
+            : localize('com_ui_error'),
+        status: 'error',
+      });
+    },
+  });
+
+  const handleSave = () => {
+    updateScope({
+      key: memory.key,
+      scope: getMemoryScope(memory),
+      newScope: {
+        agentId: agentId === NONE ? null : agentId,
+        projectId: projectId === NONE ? null : projectId,
+        conversationTag: conversationTag === NONE ? null : conversationTag,
+      },
+    });
+  };
+
+  const fields: Array<{
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    options: MemoryScopeOption[];
+  }> = [
+    {
+      id: 'memory-scope-agent',
+      label: localize('com_ui_agent'),
+      value: agentId,
+      onChange: setAgentId,
+      options: options.agents,
+    },
+    {
+      id: 'memory-scope-project',
+      label: localize('com_ui_memory_scope_project'),
+      value: projectId,
+      onChange: setProjectId,
+      options: options.projects,
+    },
+    {
+      id: 'memory-scope-tag',
+      label: localize('com_ui_memory_scope_tag'),
+      value: conversationTag,
+      onChange: setConversationTag,
+      options: options.tags,
+    },
+  ];
+
+  return (
+    <OGDialog open={open} onOpenChange={onOpenChange} triggerRef={triggerRef}>
+      {children}
+      <OGDialogTemplate
+        title={localize('com_ui_memory_move')}
+        showCloseButton={false}
+        className="w-11/12 md:max-w-lg"
+        main={
+          <div className="space-y-4">
+            <p className="text-sm text-text-secondary">
+              {localize('com_ui_memory_scope_description', { 0: memory.key })}
+            </p>
+            {fields.map((field) => (
+              <div key={field.id} className="space-y-2">
+                <Label className="text-sm font-medium">{field.label}</Label>
+                <Dropdown
+                  testId={field.id}
+                  value={field.value}
+                  onChange={field.onChange}
+                  options={[
+                    { value: NONE, label: localize('com_ui_memory_scope_any') },
+                    ...field.options,
+                  ]}
+                  ariaLabel={field.label}
+                  className="z-50"
+                  portal={false}
+                />
+              </div>
+            ))}
+          </div>
+        }
+        buttons={
+          <Button
+            type="button"
+            variant="submit"
+            onClick={handleSave}
+            disabled={isLoading}
+            className="text-white"
+          >
+            {isLoading ? <Spinner className="size-4" /> : localize('com_ui_save')}
+          </Button>
+        }
+      />
+    </OGDialog>
+  );
+}
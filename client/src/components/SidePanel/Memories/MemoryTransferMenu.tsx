@@ -0,0 +1,108 @@
+import { useId, useRef, useState } from 'react';
+import download from 'downloadjs';
+import * as Ariakit from '@ariakit/react';
+import { ArrowDownUp, FileJson, FileText, Upload } from 'lucide-react';
+import type { MemoryTransferFormat } from 'librechat-data-provider';
+import type * as t from '~/common';
+import { useExportMemoriesMutation, useImportMemoriesMutation } from '~/data-provider';
+import { DropdownPopup, TooltipAnchor } from '~/components';
+import { useToastContext } from '~/Providers';
+import { useLocalize } from '~/hooks';
+
+const extensions: Record<MemoryTransferFormat, string> = { json: 'json', markdown: 'md' };
+
+/** Exports the user's memories as JSON or Markdown, and imports memories from such files */
+export default function MemoryTransferMenu({ canImport }: { canImport: boolean }) {
+  const localize = useLocalize();
+  const menuId = useId();
+  const { showToast } = useToastContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPopoverActive, setIsPopoverActive] = useState(false);
+
+  const { mutate: exportMemories } = useExportMemoriesMutation({
+    onSuccess: (blob, format) => {
+      const date = new Date().toISOString().slice(0, 10);
+      download(blob, `memories-${date}.${extensions[format]}`, blob.type);
+    },
+    onError: () => {
+      showToast({ message: localize('com_ui_memory_export_error'), status: 'error' });
+    },
+  });
+
+  const { mutate: importMemories } = useImportMemoriesMutation({
+    onSuccess: ({ imported, skipped }) => {
+      showToast({
+        message: localize('com_ui_memory_import_success', { 0: imported, 1: skipped.length }),
+        status: skipped.length > 0 ? 'warning' : 'success',
+      });
+    },
+    onError: () => {
+      showToast({ message: localize('com_ui_memory_import_error'), status: 'error' });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    const format: MemoryTransferFormat = /\.(md|markdown)$/i.test(file.name) ? 'markdown' : 'json';
+    importMemories({ format, content: await file.text() });
+  };
+
+  const dropdownItems: t.MenuItemProps[] = [
+    {
+      label: localize('com_ui_memory_export_json'),
+      onClick: () => exportMemories('json'),
+      icon: <FileJson className="icon-md mr-2 text-text-secondary" />,
+    },
+    {
+      label: localize('com_ui_memory_export_markdown'),
+      onClick: () => exportMemories('markdown'),
+      icon: <FileText className="icon-md mr-2 text-text-secondary" />,
+    },
+    {
+      label: localize('com_ui_import'),
+      onClick: () => fileInputRef.current?.click(),
+      icon: <Upload className="icon-md mr-2 text-text-secondary" />,
+      show: canImport,
+    },
+  ];
+
+  return (
+    <>
+      <DropdownPopup
+        portal={true}
+        menuId={menuId}
+        focusLoop={true}
+        unmountOnHide={true}
+        isOpen={isPopoverActive}
+        setIsOpen={setIsPopoverActive}
+        trigger={
+          <TooltipAnchor
+            description={localize('com_ui_memory_import_export')}
+            render={
+              <Ariakit.MenuButton
+                aria-label={localize('com_ui_memory_import_export')}
+                className="inline-flex h-10 items-center justify-center rounded-lg border border-border-light bg-transparent px-3 text-text-primary transition-all ease-in-out hover:bg-surface-hover disabled:pointer-events-none disabled:opacity-50"
+              >
+                <ArrowDownUp className="size-4" aria-hidden="true" />
+              </Ariakit.MenuButton>
+            }
+          />
+        }
+        items={dropdownItems}
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        accept=".json,.md,.markdown,application/json,text/markdown"
+        onChange={handleFileChange}
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+    </>
+  );
+}
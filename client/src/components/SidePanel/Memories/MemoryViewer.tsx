@@ -1,6 +1,6 @@
 /* Memories */
 import { useMemo, useState, useRef, useEffect } from 'react';
-import { Plus } from 'lucide-react';
+import { Plus, History, FolderInput } from 'lucide-react';
 import { matchSorter } from 'match-sorter';
 import { SystemRoles, PermissionTypes, Permissions } from 'librechat-data-provider';
 import type { TUserMemory } from 'librechat-data-provider';
@@ -13,6 +13,7 @@ import {
   Label,
   Button,
   Switch,
+  Dropdown,
   TableRow,
   OGDialog,
   TableHead,
@@ -30,10 +31,22 @@ import {
 } from '~/data-provider';
 import { useLocalize, useAuthContext, useHasAccess } from '~/hooks';
 import OGDialogTemplate from '~/components/ui/OGDialogTemplate';
+import MemoryTransferMenu from './MemoryTransferMenu';
 import MemoryCreateDialog from './MemoryCreateDialog';
+import MemoryScopeDialog from './MemoryScopeDialog';
 import MemoryEditDialog from './MemoryEditDialog';
+import MemoryHistory from './MemoryHistory';
 import { useToastContext } from '~/Providers';
 import AdminSettings from './AdminSettings';
+import {
+  MEMORY_SCOPE_ALL,
+  MEMORY_SCOPE_GLOBAL,
+  getMemoryScope,
+  isGlobalMemory,
+  getScopeLabels,
+  matchesScopeFilter,
+  useMemoryScopeOptions,
+} from './scope';
 import { cn } from '~/utils';
 
 export default function MemoryViewer() {
@@ -45,6 +58,8 @@ export default function MemoryViewer() {
   const { showToast } = useToastContext();
   const [pageIndex, setPageIndex] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
+  const [scopeFilter, setScopeFilter] = useState(MEMORY_SCOPE_ALL);
+  const [showHistory, setShowHistory] = useState(false);
   const pageSize = 10;
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [deletingKey, setDeletingKey] = useState<string | null>(null);
@@ -99,11 +114,43 @@ export default function MemoryViewer() {
 
   const memories: TUserMemory[] = useMemo(() => memData?.memories ?? [], [memData]);
 
+  const scopeOptions = useMemoryScopeOptions(memories);
+
+  const scopeFilterOptions = useMemo(
+    () => [
+      { value: MEMORY_SCOPE_ALL, label: localize('com_ui_memory_scope_all') },
+      { value: MEMORY_SCOPE_GLOBAL, label: localize('com_ui_memory_scope_global') },
+      ...scopeOptions.agents
+        .filter(({ value }) => memories.some((memory) => memory.agentId === value))
+        .map(({ value, label }) => ({
+          value: `agent:${value}`,
+          label: `${localize('com_ui_agent')}: ${label}`,
+        })),
+      ...scopeOptions.projects
+        .filter(({ value }) => memories.some((memory) => memory.projectId === value))
+        .map(({ value, label }) => ({
+          value: `project:${value}`,
+          label: `${localize('com_ui_memory_scope_project')}: ${label}`,
+        })),
+      ...scopeOptions.tags
+        .filter(({ value }) => memories.some((memory) => memory.conversationTag === value))
+        .map(({ value, label }) => ({
+          value: `tag:${value}`,
+          label: `${localize('com_ui_memory_scope_tag')}: ${label}`,
+        })),
+    ],
+    [memories, scopeOptions, localize],
+  );
+
   const filteredMemories = useMemo(() => {
-    return matchSorter(memories, searchQuery, {
-      keys: ['key', 'value'],
-    });
-  }, [memories, searchQuery]);
+    return matchSorter(
+      memories.filter((memory) => matchesScopeFilter(memory, scopeFilter)),
+      searchQuery,
+      {
+        keys: ['key', 'value'],
+      },
+    );
+  }, [memories, searchQuery, scopeFilter]);
 
   const currentRows = useMemo(() => {
     return filteredMemories.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize);
@@ -154,6 +201,42 @@ export default function MemoryViewer() {
     );
   };
 
+  const MoveMemoryButton = ({ memory }: { memory: TUserMemory }) => {
+    const [open, setOpen] = useState(false);
+    const triggerRef = useRef<HTMLButtonElement>(null);
+
+    if (!hasUpdateAccess) {
+      return null;
+    }
+
+    return (
+      <MemoryScopeDialog
+        open={open}
+        memory={memory}
+        options={scopeOptions}
+        onOpenChange={setOpen}
+        triggerRef={triggerRef}
+      >
+        <OGDialogTrigger asChild>
+          <TooltipAnchor
+            description={localize('com_ui_memory_move')}
+            render={
+              <Button
+                ref={triggerRef}
+                variant="ghost"
+                aria-label={localize('com_ui_memory_move')}
+                onClick={() => setOpen(!open)}
+                className="h-8 w-8 p-0"
+              >
+                <FolderInput className="size-4" />
+              </Button>
+            }
+          />
+        </OGDialogTrigger>
+      </MemoryScopeDialog>
+    );
+  };
+
   const DeleteMemoryButton = ({ memory }: { memory: TUserMemory }) => {
     const [open, setOpen] = useState(false);
 
@@ -163,21 +246,24 @@ export default function MemoryViewer() {
 
     const confirmDelete = async () => {
       setDeletingKey(memory.key);
-      deleteMemory(memory.key, {
-        onSuccess: () => {
-          showToast({
-            message: localize('com_ui_deleted'),
-            status: 'success',
-          });
-          setOpen(false);
+      deleteMemory(
+        { key: memory.key, scope: getMemoryScope(memory) },
+        {
+          onSuccess: () => {
+            showToast({
+              message: localize('com_ui_deleted'),
+              status: 'success',
+            });
+            setOpen(false);
+          },
+          onError: () =>
+            showToast({
+              message: localize('com_ui_error'),
+              status: 'error',
+            }),
+          onSettled: () => setDeletingKey(null),
         },
-        onError: () =>
-          showToast({
-            message: localize('com_ui_error'),
-            status: 'error',
-          }),
-        onSettled: () => setDeletingKey(null),
-      });
+      );
     };
 
     return (
@@ -250,6 +336,18 @@ export default function MemoryViewer() {
             aria-label={localize('com_ui_memories_filter')}
           />
         </div>
+        {!showHistory && scopeFilterOptions.length > 2 && (
+          <Dropdown
+            value={scopeFilter}
+            onChange={(value) => {
+              setScopeFilter(value);
+              setPageIndex(0);
+            }}
+            options={scopeFilterOptions}
+            ariaLabel={localize('com_ui_memory_scope_filter')}
+            className="z-50"
+          />
+        )}
         {/* Memory Usage and Toggle Display */}
         {(memData?.tokenLimit || hasOptOutAccess) && (
           <div
@@ -306,109 +404,138 @@ export default function MemoryViewer() {
             )}
           </div>
         )}
-        {/* Create Memory Button */}
-        {hasCreateAccess && (
-          <div className="flex w-full justify-end">
+        {/* Create Memory, Import/Export and History Buttons */}
+        <div className="flex w-full justify-end gap-2">
+          {hasCreateAccess && (
             <MemoryCreateDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
               <OGDialogTrigger asChild>
-                <Button variant="outline" className="w-full bg-transparent">
+                <Button variant="outline" className="flex-1 bg-transparent">
                   <Plus className="size-4" aria-hidden />
                   {localize('com_ui_create_memory')}
                 </Button>
               </OGDialogTrigger>
             </MemoryCreateDialog>
-          </div>
-        )}
-        <div className="rounded-lg border border-border-light bg-transparent shadow-sm transition-colors">
-          <Table className="w-full table-fixed">
-            <TableHeader>
-              <TableRow className="border-b border-border-light hover:bg-surface-secondary">
-                <TableHead
-                  className={`${
-                    hasUpdateAccess ? 'w-[75%]' : 'w-[100%]'
-                  } bg-surface-secondary py-3 text-left text-sm font-medium text-text-secondary`}
-                >
-                  <div>{localize('com_ui_memory')}</div>
-                </TableHead>
-                {hasUpdateAccess && (
-                  <TableHead className="w-[25%] bg-surface-secondary py-3 text-center text-sm font-medium text-text-secondary">
-                    <div>{localize('com_assistants_actions')}</div>
-                  </TableHead>
-                )}
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {currentRows.length ? (
-                currentRows.map((memory: TUserMemory, idx: number) => (
-                  <TableRow
-                    key={idx}
-                    className="border-b border-border-light hover:bg-surface-secondary"
-                  >
-                    <TableCell className={`${hasUpdateAccess ? 'w-[75%]' : 'w-[100%]'} px-4 py-4`}>
-                      <div
-                        className="overflow-hidden text-ellipsis whitespace-nowrap text-sm text-text-primary"
-                        title={memory.value}
-                      >
-                        {memory.value}
-                      </div>
-                    </TableCell>
+          )}
+          <MemoryTransferMenu canImport={hasCreateAccess} />
+          <TooltipAnchor
+            description={localize('com_ui_memory_history')}
+            render={
+              <Button
+                variant="outline"
+                aria-label={localize('com_ui_memory_history')}
+                aria-pressed={showHistory}
+                onClick={() => setShowHistory((prev) => !prev)}
+                className={cn('bg-transparent', showHistory && 'bg-surface-hover')}
+              >
+                <History className="size-4" aria-hidden />
+              </Button>
+            }
+          />
+        </div>
+        {showHistory ? (
+          <MemoryHistory searchQuery={searchQuery} scopeOptions={scopeOptions} />
+        ) : (
+          <>
+            <div className="rounded-lg border border-border-light bg-transparent shadow-sm transition-colors">
+              <Table className="w-full table-fixed">
+                <TableHeader>
+                  <TableRow className="border-b border-border-light hover:bg-surface-secondary">
+                    <TableHead
+                      className={`${
+                        hasUpdateAccess ? 'w-[75%]' : 'w-[100%]'
+                      } bg-surface-secondary py-3 text-left text-sm font-medium text-text-secondary`}
+                    >
+                      <div>{localize('com_ui_memory')}</div>
+                    </TableHead>
                     {hasUpdateAccess && (
-                      <TableCell className="w-[25%] px-4 py-4">
-                        <div className="flex justify-center gap-2">
-                          <EditMemoryButton memory={memory} />
-                          <DeleteMemoryButton memory={memory} />
-                        </div>
-                      </TableCell>
+                      <TableHead className="w-[25%] bg-surface-secondary py-3 text-center text-sm font-medium text-text-secondary">
+                        <div>{localize('com_assistants_actions')}</div>
+                      </TableHead>
                     )}
                   </TableRow>
-                ))
-              ) : (
-                <TableRow>
-                  <TableCell
-                    colSpan={hasUpdateAccess ? 2 : 1}
-                    className="h-24 text-center text-sm text-text-secondary"
-                  >
-                    {localize('com_ui_no_data')}
-                  </TableCell>
-                </TableRow>
-              )}
-            </TableBody>
-          </Table>
-        </div>
-
-        {/* Pagination controls */}
-        {filteredMemories.length > pageSize && (
-          <div
-            className="flex items-center justify-end gap-2"
-            role="navigation"
-            aria-label="Pagination"
-          >
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPageIndex((prev) => Math.max(prev - 1, 0))}
-              disabled={pageIndex === 0}
-              aria-label={localize('com_ui_prev')}
-            >
-              {localize('com_ui_prev')}
-            </Button>
-            <div className="text-sm" aria-live="polite">
-              {`${pageIndex + 1} / ${Math.ceil(filteredMemories.length / pageSize)}`}
+                </TableHeader>
+                <TableBody>
+                  {currentRows.length ? (
+                    currentRows.map((memory: TUserMemory, idx: number) => (
+                      <TableRow
+                        key={idx}
+                        className="border-b border-border-light hover:bg-surface-secondary"
+                      >
+                        <TableCell
+                          className={`${hasUpdateAccess ? 'w-[75%]' : 'w-[100%]'} px-4 py-4`}
+                        >
+                          <div
+                            className="overflow-hidden text-ellipsis whitespace-nowrap text-sm text-text-primary"
+                            title={memory.value}
+                          >
+                            {memory.value}
+                          </div>
+                          {!isGlobalMemory(memory) && (
+                            <div className="mt-1 truncate text-xs text-text-secondary">
+                              {getScopeLabels(memory, scopeOptions, localize).join(' · ')}
+                            </div>
+                          )}
+                        </TableCell>
+                        {hasUpdateAccess && (
+                          <TableCell className="w-[25%] px-4 py-4">
+                            <div className="flex justify-center gap-2">
+                              <EditMemoryButton memory={memory} />
+                              <MoveMemoryButton memory={memory} />
+                              <DeleteMemoryButton memory={memory} />
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={hasUpdateAccess ? 2 : 1}
+                        className="h-24 text-center text-sm text-text-secondary"
+                      >
+                        {localize('com_ui_no_data')}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() =>
-                setPageIndex((prev) =>
-                  (prev + 1) * pageSize < filteredMemories.length ? prev + 1 : prev,
-                )
-              }
-              disabled={(pageIndex + 1) * pageSize >= filteredMemories.length}
-              aria-label={localize('com_ui_next')}
-            >
-              {localize('com_ui_next')}
-            </Button>
-          </div>
+
+            {/* Pagination controls */}
+            {filteredMemories.length > pageSize && (
+              <div
+                className="flex items-center justify-end gap-2"
+                role="navigation"
+                aria-label="Pagination"
+              >
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageIndex((prev) => Math.max(prev - 1, 0))}
+                  disabled={pageIndex === 0}
+                  aria-label={localize('com_ui_prev')}
+                >
+                  {localize('com_ui_prev')}
+                </Button>
+                <div className="text-sm" aria-live="polite">
+                  {`${pageIndex + 1} / ${Math.ceil(filteredMemories.length / pageSize)}`}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setPageIndex((prev) =>
+                      (prev + 1) * pageSize < filteredMemories.length ? prev + 1 : prev,
+                    )
+                  }
+                  disabled={(pageIndex + 1) * pageSize >= filteredMemories.length}
+                  aria-label={localize('com_ui_next')}
+                >
+                  {localize('com_ui_next')}
+                </Button>
+              </div>
+            )}
+          </>
         )}
 
         {/* Admin Settings */}
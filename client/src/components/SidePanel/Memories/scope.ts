@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import type { TUserMemory, TMemoryScope } from 'librechat-data-provider';
+import { useListAgentsQuery, useGetStartupConfig, useConversationTagsQuery } from '~/data-provider';
+import { useLocalize } from '~/hooks';
+
+/** Filter values of the memory panel: all memories, global ones, or those of one scope */
+export const MEMORY_SCOPE_ALL = 'all';
+export const MEMORY_SCOPE_GLOBAL = 'global';
+
+export type MemoryScopeOption = { value: string; label: string };
+
+export type MemoryScopeOptions = {
+  agents: MemoryScopeOption[];
+  projects: MemoryScopeOption[];
+  tags: MemoryScopeOption[];
+};
+
+export function getMemoryScope(memory: TUserMemory): TMemoryScope {
+  return {
+    agentId: memory.agentId ?? null,
+    projectId: memory.projectId ?? null,
+    conversationTag: memory.conversationTag ?? null,
+  };
+}
+
+export function isGlobalMemory(memory: TUserMemory): boolean {
+  return !memory.agentId && !memory.projectId && !memory.conversationTag;
+}
+
+/** Whether a memory matches a filter value: `all`, `global`, or `agent:`, `project:` or `tag:` and an id */
+export function matchesScopeFilter(memory: TUserMemory, filter: string): boolean {
+  if (filter === MEMORY_SCOPE_ALL) {
+    return true;
+  }
+  if (filter === MEMORY_SCOPE_GLOBAL) {
+    return isGlobalMemory(memory);
+  }
+  const [type, ...rest] = filter.split(':');
+  const id = rest.join(':');
+  if (type === 'agent') {
+    return memory.agentId === id;
+  }
+  if (type === 'project') {
+    return memory.projectId === id;
+  }
+  return type === 'tag' && memory.conversationTag === id;
+}
+
+/**
+ * Agents, projects and conversation tags memories can be scoped to: those of the user,
+ * and those memories are already scoped to
+ */
+export function useMemoryScopeOptions(memories: TUserMemory[]): MemoryScopeOptions {
+  const localize = useLocalize();
+  const { data: startupConfig } = useGetStartupConfig();
+  const { data: agentsData } = useListAgentsQuery();
+  const { data: tagsData } = useConversationTagsQuery();
+
+  return useMemo(() => {
+    const agents = new Map<string, string>();
+    const projects = new Map<string, string>();
+    const tags = new Set<string>();
+
+    const addProject = (projectId: string) =>
+      projects.set(
+        projectId,
+        projectId === startupConfig?.instanceProjectId
+          ? localize('com_ui_memory_scope_shared_project')
+          : projectId,
+      );
+
+    for (const agent of agentsData?.data ?? []) {
+      agents.set(agent.id, agent.name || agent.id);
+      agent.projectIds?.forEach(addProject);
+    }
+    for (const { tag } of tagsData ?? []) {
+      tags.add(tag);
+    }
+    for (const memory of memories) {
+      if (memory.agentId && !agents.has(memory.agentId)) {
+        agents.set(memory.agentId, memory.agentId);
+      }
+      if (memory.projectId && !projects.has(memory.projectId)) {
+        addProject(memory.projectId);
+      }
+      if (memory.conversationTag) {
+        tags.add(memory.conversationTag);
+      }
+    }
+
+    return {
+      agents: Array.from(agents, ([value, label]) => ({ value, label })),
+      projects: Array.from(projects, ([value, label]) => ({ value, label })),
+      tags: Array.from(tags, (tag) => ({ value: tag, label: tag })),
+    };
+  }, [memories, agentsData, tagsData, startupConfig?.instanceProjectId, localize]);
+}
+
+/** Labels of the scope fields of a memory, e.g. `Agent: Coder` */
+export function getScopeLabels(
+  memory: TMemoryScope,
+  options: MemoryScopeOptions,
+  localize: ReturnType<typeof useLocalize>,
+): string[] {
+  const getLabel = (list: MemoryScopeOption[], value: string) =>
+    list.find((option) => option.value === value)?.label ?? value;
+  const labels: string[] = [];
+  if (memory.agentId) {
+    labels.push(`${localize('com_ui_agent')}: ${getLabel(options.agents, memory.agentId)}`);
+  }
+  if (memory.projectId) {
+    labels.push(
+      `${localize('com_ui_memory_scope_project')}: ${getLabel(options.projects, memory.projectId)}`,
+    );
+  }
+  if (memory.conversationTag) {
+    labels.push(`${localize('com_ui_memory_scope_tag')}: ${memory.conversationTag}`);
+  }
+  return labels;
+}
@@ -31,6 +31,7 @@ function NavContent({ links, isCollapsed, resize }: Omit<NavProps, 'defaultActiv
                         <Button
                           variant="ghost"
                           size="icon"
+                          className="relative"
                           onClick={(e) => {
                             if (link.onClick) {
                               link.onClick(e);
@@ -43,6 +44,11 @@ function NavContent({ links, isCollapsed, resize }: Omit<NavProps, 'defaultActiv
                         >
                           <link.icon className="h-4 w-4 text-text-secondary" />
                           <span className="sr-only">{localize(link.title)}</span>
+                          {link.label != null && link.label && (
+                            <span className="absolute right-0.5 top-0.5 min-w-4 rounded-full bg-surface-submit px-1 text-[10px] leading-4 text-white">
+                              {link.label}
+                            </span>
+                          )}
                         </Button>
                       }
                     />
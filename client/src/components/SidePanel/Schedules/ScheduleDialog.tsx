@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import type { AgentSchedule, AgentScheduleCreateParams } from 'librechat-data-provider';
+import type { Option } from '~/common';
+import {
+  OGDialog,
+  OGDialogTemplate,
+  Button,
+  Label,
+  Input,
+  Switch,
+  Dropdown,
+} from '~/components/ui';
+import { useCreateAgentScheduleMutation, useUpdateAgentScheduleMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { Spinner } from '~/components/svg';
+import { useLocalize } from '~/hooks';
+
+type TimingMode = 'cron' | 'interval';
+
+interface ScheduleDialogProps {
+  /** The schedule to edit; a new schedule is created when unset */
+  schedule?: AgentSchedule;
+  agentOptions: Option[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  children: React.ReactNode;
+  triggerRef?: React.MutableRefObject<HTMLButtonElement | null>;
+}
+
+export default function ScheduleDialog({
+  schedule,
+  agentOptions,
+  open,
+  onOpenChange,
+  children,
+  triggerRef,
+}: ScheduleDialogProps) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+
+  const [name, setName] = useState('');
+  const [agentId, setAgentId] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [mode, setMode] = useState<TimingMode>('cron');
+  const [cron, setCron] = useState('');
+  const [intervalMinutes, setIntervalMinutes] = useState('');
+  const [maxRetries, setMaxRetries] = useState('2');
+  const [enabled, setEnabled] = useState(true);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setName(schedule?.name ?? '');
+    setAgentId(schedule?.agent_id ?? '');
+    setPrompt(schedule?.prompt ?? '');
+    setMode(schedule?.intervalMinutes != null ? 'interval' : 'cron');
+    setCron(schedule?.cron ?? '');
+    setIntervalMinutes(schedule?.intervalMinutes?.toString() ?? '');
+    setMaxRetries((schedule?.maxRetries ?? 2).toString());
+    setEnabled(schedule?.enabled ?? true);
+  }, [open, schedule]);
+
+  const onSuccess = () => {
+    showToast({
+      message: localize(schedule ? 'com_ui_schedule_updated' : 'com_ui_schedule_created'),
+      status: 'success',
+    });
+    onOpenChange(false);
+    setTimeout(() => {
+      triggerRef?.current?.focus();
+    }, 0);
+  };
+
+  const onError = (error: Error & { response?: { data?: { error?: string } } }) => {
+    showToast({
+      message: error.response?.data?.error ?? localize('com_ui_error'),
+      status: 'error',
+    });
+  };
+
+  const createMutation = useCreateAgentScheduleMutation({ onSuccess, onError });
+  const updateMutation = useUpdateAgentScheduleMutation({ onSuccess, onError });
+  const isLoading = createMutation.isLoading || updateMutation.isLoading;
+
+  const timingSet = mode === 'cron' ? !!cron.trim() : !!intervalMinutes.trim();
+  const canSave = !!name.trim() && !!agentId && !!prompt.trim() && timingSet;
+
+  const handleSave = () => {
+    if (!canSave) {
+      showToast({ message: localize('com_ui_field_required'), status: 'error' });
+      return;
+    }
+
+    const data: AgentScheduleCreateParams = {
+      name: name.trim(),
+      agent_id: agentId,
+      prompt: prompt.trim(),
+      cron: mode === 'cron' ? cron.trim() : null,
+      intervalMinutes: mode === 'interval' ? Number(intervalMinutes) : null,
+      maxRetries: Number(maxRetries),
+      enabled,
+    };
+    if (schedule) {
+      updateMutation.mutate({ scheduleId: schedule._id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  return (
+    <OGDialog open={open} onOpenChange={onOpenChange} triggerRef={triggerRef}>
+      {children}
+      <OGDialogTemplate
+        title={localize(schedule ? 'com_ui_schedule_edit' : 'com_ui_schedule_create')}
+        showCloseButton={false}
+        className="w-11/12 md:max-w-lg"
+        main={
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name" className="text-sm font-medium">
+                {localize('com_ui_name')}
+              </Label>
+              <Input
+                id="schedule-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={localize('com_ui_schedule_name_placeholder')}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">{localize('com_ui_agent')}</Label>
+              <Dropdown
+                testId="schedule-agent"
+                value={agentId}
+                onChange={setAgentId}
+                options={agentOptions}
+                label={agentId ? '' : localize('com_ui_schedule_select_agent')}
+                ariaLabel={localize('com_ui_agent')}
+                className="z-50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-prompt" className="text-sm font-medium">
+                {localize('com_ui_prompt')}
+              </Label>
+              <textarea
+                id="schedule-prompt"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder={localize('com_ui_schedule_prompt_placeholder')}
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">{localize('com_ui_schedule_timing')}</Label>
+              <Dropdown
+                testId="schedule-timing"
+                value={mode}
+                onChange={(value) => setMode(value as TimingMode)}
+                options={[
+                  { value: 'cron', label: localize('com_ui_schedule_cron') },
+                  { value: 'interval', label: localize('com_ui_schedule_interval') },
+                ]}
+                ariaLabel={localize('com_ui_schedule_timing')}
+                className="z-50"
+              />
+              {mode === 'cron' ? (
+                <>
+                  <Input
+                    aria-label={localize('com_ui_schedule_cron')}
+                    value={cron}
+                    onChange={(e) => setCron(e.target.value)}
+                    placeholder="0 8 * * 1-5"
+                    className="w-full font-mono"
+                  />
+                  <p className="text-xs text-text-secondary">
+                    {localize('com_ui_schedule_cron_info')}
+                  </p>
+                </>
+              ) : (
+                <Input
+                  type="number"
+                  min={1}
+                  aria-label={localize('com_ui_schedule_interval_minutes')}
+                  value={intervalMinutes}
+                  onChange={(e) => setIntervalMinutes(e.target.value)}
+                  placeholder={localize('com_ui_schedule_interval_minutes')}
+                  className="w-full"
+                />
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="schedule-retries" className="text-sm font-medium">
+                {localize('com_ui_schedule_retries')}
+              </Label>
+              <Input
+                id="schedule-retries"
+                type="number"
+                min={0}
+                max={5}
+                value={maxRetries}
+                onChange={(e) => setMaxRetries(e.target.value)}
+                className="w-20"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="schedule-enabled" className="text-sm font-medium">
+                {localize('com_ui_schedule_enabled')}
+              </Label>
+              <Switch id="schedule-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            </div>
+          </div>
+        }
+        buttons={
+          <Button
+            type="button"
+            variant="submit"
+            onClick={handleSave}
+            disabled={isLoading || !canSave}
+            className="text-white"
+          >
+            {isLoading ? (
+              <Spinner className="size-4" />
+            ) : (
+              localize(schedule ? 'com_ui_save' : 'com_ui_create')
+            )}
+          </Button>
+        }
+      />
+    </OGDialog>
+  );
+}
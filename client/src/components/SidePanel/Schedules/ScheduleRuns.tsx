@@ -0,0 +1,89 @@
+import { MessageSquare } from 'lucide-react';
+import { QueryKeys } from 'librechat-data-provider';
+import { useQueryClient } from '@tanstack/react-query';
+import type { TConversation, AgentScheduleRun } from 'librechat-data-provider';
+import { useLocalize, useNavigateToConvo } from '~/hooks';
+import { Spinner, Button, TooltipAnchor } from '~/components';
+import { useAgentScheduleRunsQuery } from '~/data-provider';
+import { formatScheduleDate, statusLabels } from './utils';
+import { cn } from '~/utils';
+
+const statusClasses: Record<AgentScheduleRun['status'], string> = {
+  running: 'text-text-secondary',
+  success: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  skipped: 'text-amber-600 dark:text-amber-400',
+};
+
+/** Run history of an agent schedule, newest first, linking to the conversation of each run */
+export default function ScheduleRuns({ scheduleId }: { scheduleId: string }) {
+  const localize = useLocalize();
+  const queryClient = useQueryClient();
+  const { navigateToConvo } = useNavigateToConvo();
+  const { data, isLoading } = useAgentScheduleRunsQuery(scheduleId);
+
+  const openConversation = (conversationId: string) => {
+    const cachedConvo = queryClient.getQueryData<TConversation>([
+      QueryKeys.conversation,
+      conversationId,
+    ]);
+    navigateToConvo(cachedConvo ?? ({ conversationId } as TConversation), {
+      resetLatestMessage: true,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-12 items-center justify-center">
+        <Spinner className="size-4" />
+      </div>
+    );
+  }
+
+  if (!data?.runs.length) {
+    return (
+      <div className="py-2 text-center text-xs text-text-secondary">
+        {localize('com_ui_schedule_no_runs')}
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-1" aria-label={localize('com_ui_schedule_run_history')}>
+      {data.runs.map((run) => (
+        <li key={run._id} className="flex items-center justify-between gap-2 text-xs">
+          <div className="min-w-0">
+            <span className={cn('font-medium', statusClasses[run.status])}>
+              {localize(statusLabels[run.status])}
+            </span>
+            <span className="text-text-secondary">
+              {' · '}
+              {formatScheduleDate(run.startedAt)}
+              {run.attempt > 1 && ` · ${localize('com_ui_schedule_attempt', { 0: run.attempt })}`}
+            </span>
+            {run.error && (
+              <div className="truncate text-text-secondary" title={run.error}>
+                {run.error}
+              </div>
+            )}
+          </div>
+          {run.conversationId && (
+            <TooltipAnchor
+              description={localize('com_ui_schedule_open_conversation')}
+              render={
+                <Button
+                  variant="ghost"
+                  aria-label={localize('com_ui_schedule_open_conversation')}
+                  onClick={() => openConversation(run.conversationId as string)}
+                  className="h-7 w-7 shrink-0 p-0"
+                >
+                  <MessageSquare className="size-3.5" aria-hidden="true" />
+                </Button>
+              }
+            />
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
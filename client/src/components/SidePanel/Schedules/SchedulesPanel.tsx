@@ -0,0 +1,269 @@
+/* Agent Schedules */
+import { useMemo, useRef, useState } from 'react';
+import { Plus, Play, History } from 'lucide-react';
+import type { AgentSchedule } from 'librechat-data-provider';
+import type { Option } from '~/common';
+import {
+  Label,
+  Button,
+  Switch,
+  Spinner,
+  EditIcon,
+  TrashIcon,
+  OGDialog,
+  TooltipAnchor,
+  OGDialogTrigger,
+} from '~/components';
+import {
+  useListAgentsQuery,
+  useAgentSchedulesQuery,
+  useRunAgentScheduleMutation,
+  useDeleteAgentScheduleMutation,
+  useUpdateAgentScheduleMutation,
+  useMarkAgentScheduleReadMutation,
+} from '~/data-provider';
+import OGDialogTemplate from '~/components/ui/OGDialogTemplate';
+import { formatScheduleDate, statusLabels } from './utils';
+import { useToastContext } from '~/Providers';
+import ScheduleDialog from './ScheduleDialog';
+import ScheduleRuns from './ScheduleRuns';
+import { useLocalize } from '~/hooks';
+
+function ScheduleItem({
+  schedule,
+  agentOptions,
+}: {
+  schedule: AgentSchedule;
+  agentOptions: Option[];
+}) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const editTriggerRef = useRef<HTMLButtonElement>(null);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [showRuns, setShowRuns] = useState(false);
+
+  const onError = () => showToast({ message: localize('com_ui_error'), status: 'error' });
+  const { mutate: markRead } = useMarkAgentScheduleReadMutation();
+  const { mutate: updateSchedule, isLoading: isUpdating } = useUpdateAgentScheduleMutation({
+    onError,
+  });
+  const { mutate: runSchedule, isLoading: isRunning } = useRunAgentScheduleMutation({
+    onSuccess: () =>
+      showToast({ message: localize('com_ui_schedule_run_started'), status: 'success' }),
+    onError,
+  });
+  const { mutate: deleteSchedule, isLoading: isDeleting } = useDeleteAgentScheduleMutation({
+    onSuccess: () => {
+      showToast({ message: localize('com_ui_deleted'), status: 'success' });
+      setDeleteOpen(false);
+    },
+    onError,
+  });
+
+  const agentName =
+    agentOptions.find((option) => option.value === schedule.agent_id)?.label ?? schedule.agent_id;
+  const timing = schedule.cron
+    ? localize('com_ui_schedule_cron_utc', { 0: schedule.cron })
+    : localize('com_ui_schedule_every_minutes', { 0: schedule.intervalMinutes });
+
+  const toggleRuns = () => {
+    setShowRuns(!showRuns);
+    if (!showRuns && schedule.unreadRuns > 0) {
+      markRead(schedule._id);
+    }
+  };
+
+  return (
+    <li className="rounded-lg border border-border-light p-3 text-sm shadow-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="truncate font-medium text-text-primary" title={schedule.name}>
+              {schedule.name}
+            </span>
+            {schedule.unreadRuns > 0 && (
+              <span
+                className="rounded-full bg-surface-submit px-1.5 text-xs text-white"
+                aria-label={localize('com_ui_schedule_unread_runs', { 0: schedule.unreadRuns })}
+              >
+                {schedule.unreadRuns}
+              </span>
+            )}
+          </div>
+          <div className="truncate text-xs text-text-secondary" title={agentName}>
+            {agentName} · {timing}
+          </div>
+          <div className="text-xs text-text-secondary">
+            {schedule.enabled && schedule.nextRunAt
+              ? localize('com_ui_schedule_next_run', { 0: formatScheduleDate(schedule.nextRunAt) })
+              : localize('com_ui_schedule_paused')}
+            {schedule.lastStatus &&
+              ` · ${localize('com_ui_schedule_last_run', { 0: localize(statusLabels[schedule.lastStatus]) })}`}
+          </div>
+        </div>
+        <Switch
+          checked={schedule.enabled}
+          disabled={isUpdating}
+          onCheckedChange={(enabled) =>
+            updateSchedule({ scheduleId: schedule._id, data: { enabled } })
+          }
+          aria-label={localize('com_ui_schedule_enabled')}
+        />
+      </div>
+      <div className="mt-2 flex items-center justify-end gap-1">
+        <TooltipAnchor
+          description={localize('com_ui_schedule_run_now')}
+          render={
+            <Button
+              variant="ghost"
+              aria-label={localize('com_ui_schedule_run_now')}
+              onClick={() => runSchedule(schedule._id)}
+              disabled={!schedule.enabled || isRunning}
+              className="h-8 w-8 p-0"
+            >
+              {isRunning ? <Spinner className="size-4" /> : <Play className="size-4" />}
+            </Button>
+          }
+        />
+        <TooltipAnchor
+          description={localize('com_ui_schedule_run_history')}
+          render={
+            <Button
+              variant="ghost"
+              aria-label={localize('com_ui_schedule_run_history')}
+              aria-expanded={showRuns}
+              onClick={toggleRuns}
+              className="h-8 w-8 p-0"
+            >
+              <History className="size-4" />
+            </Button>
+          }
+        />
+        <ScheduleDialog
+          schedule={schedule}
+          agentOptions={agentOptions}
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          triggerRef={editTriggerRef}
+        >
+          <OGDialogTrigger asChild>
+            <TooltipAnchor
+              description={localize('com_ui_schedule_edit')}
+              render={
+                <Button
+                  ref={editTriggerRef}
+                  variant="ghost"
+                  aria-label={localize('com_ui_schedule_edit')}
+                  onClick={() => setEditOpen(!editOpen)}
+                  className="h-8 w-8 p-0"
+                >
+                  <EditIcon />
+                </Button>
+              }
+            />
+          </OGDialogTrigger>
+        </ScheduleDialog>
+        <OGDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+          <OGDialogTrigger asChild>
+            <TooltipAnchor
+              description={localize('com_ui_schedule_delete')}
+              render={
+                <Button
+                  variant="ghost"
+                  aria-label={localize('com_ui_schedule_delete')}
+                  onClick={() => setDeleteOpen(!deleteOpen)}
+                  className="h-8 w-8 p-0"
+                >
+                  {isDeleting ? <Spinner className="size-4" /> : <TrashIcon className="size-4" />}
+                </Button>
+              }
+            />
+          </OGDialogTrigger>
+          <OGDialogTemplate
+            showCloseButton={false}
+            title={localize('com_ui_schedule_delete')}
+            className="w-11/12 max-w-lg"
+            main={
+              <Label className="text-left text-sm font-medium">
+                {localize('com_ui_schedule_delete_confirm', { 0: schedule.name })}
+              </Label>
+            }
+            selection={{
+              selectHandler: () => deleteSchedule(schedule._id),
+              selectClasses:
+                'bg-red-700 dark:bg-red-600 hover:bg-red-800 dark:hover:bg-red-800 text-white',
+              selectText: localize('com_ui_delete'),
+            }}
+          />
+        </OGDialog>
+      </div>
+      {showRuns && (
+        <div className="mt-2 border-t border-border-light pt-2">
+          <ScheduleRuns scheduleId={schedule._id} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+/** Recurring runs of agents with a fixed prompt, each adding to its own conversation */
+export default function SchedulesPanel() {
+  const localize = useLocalize();
+  const createTriggerRef = useRef<HTMLButtonElement>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const { data, isLoading } = useAgentSchedulesQuery();
+  const { data: agentsData } = useListAgentsQuery();
+
+  const agentOptions = useMemo<Option[]>(
+    () =>
+      (agentsData?.data ?? []).map((agent) => ({
+        value: agent.id,
+        label: agent.name || agent.id,
+      })),
+    [agentsData],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full w-full items-center justify-center p-4">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full w-full flex-col overflow-hidden">
+      <div
+        role="region"
+        aria-label={localize('com_sidepanel_schedules')}
+        className="mt-2 space-y-2"
+      >
+        <ScheduleDialog
+          agentOptions={agentOptions}
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+          triggerRef={createTriggerRef}
+        >
+          <OGDialogTrigger asChild>
+            <Button ref={createTriggerRef} variant="outline" className="w-full bg-transparent">
+              <Plus className="size-4" aria-hidden />
+              {localize('com_ui_schedule_create')}
+            </Button>
+          </OGDialogTrigger>
+        </ScheduleDialog>
+        {data?.schedules.length ? (
+          <ul className="space-y-2">
+            {data.schedules.map((schedule) => (
+              <ScheduleItem key={schedule._id} schedule={schedule} agentOptions={agentOptions} />
+            ))}
+          </ul>
+        ) : (
+          <div className="flex h-24 items-center justify-center text-center text-sm text-text-secondary">
+            {localize('com_ui_schedule_none')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { AgentSchedule, AgentScheduleRunStatus } from 'librechat-data-provider';
+import type { TranslationKeys } from '~/hooks';
+
+export const statusLabels: Record<AgentScheduleRunStatus, TranslationKeys> = {
+  running: 'com_ui_schedule_status_running',
+  success: 'com_ui_schedule_status_success',
+  failed: 'com_ui_schedule_status_failed',
+  skipped: 'com_ui_schedule_status_skipped',
+};
+
+export const formatScheduleDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/** Sum of the runs of the schedules that finished since the user last viewed them */
+export const getUnreadRuns = (schedules?: AgentSchedule[]) =>
+  (schedules ?? []).reduce((total, schedule) => total + schedule.unreadRuns, 0);
@@ -0,0 +1,154 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { dataService, QueryKeys } from 'librechat-data-provider';
+import type {
+  UseQueryOptions,
+  UseMutationResult,
+  UseMutationOptions,
+  QueryObserverResult,
+} from '@tanstack/react-query';
+import type * as t from 'librechat-data-provider';
+
+/**
+ * AGENT SCHEDULES
+ */
+
+/**
+ * Hook for the agent schedules of the user; refetched every minute so that the
+ * unread runs of schedules that ran in the background show up
+ */
+export const useAgentSchedulesQuery = (
+  config?: UseQueryOptions<t.AgentSchedulesResponse>,
+): QueryObserverResult<t.AgentSchedulesResponse> => {
+  return useQuery<t.AgentSchedulesResponse>(
+    [QueryKeys.agentSchedules],
+    () => dataService.getAgentSchedules(),
+    {
+      refetchInterval: 60 * 1000,
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+/**
+ * Hook for the run history of an agent schedule
+ */
+export const useAgentScheduleRunsQuery = (
+  scheduleId: string,
+  config?: UseQueryOptions<t.AgentScheduleRunsResponse>,
+): QueryObserverResult<t.AgentScheduleRunsResponse> => {
+  return useQuery<t.AgentScheduleRunsResponse>(
+    [QueryKeys.agentScheduleRuns, scheduleId],
+    () => dataService.getAgentScheduleRuns(scheduleId),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+/** Refetches the schedules, and the runs of a schedule, after a mutation */
+const useInvalidateSchedules = () => {
+  const queryClient = useQueryClient();
+  return (scheduleId?: string) => {
+    queryClient.invalidateQueries([QueryKeys.agentSchedules]);
+    if (scheduleId) {
+      queryClient.invalidateQueries([QueryKeys.agentScheduleRuns, scheduleId]);
+    }
+  };
+};
+
+/**
+ * Schedule runs of an agent
+ */
+export const useCreateAgentScheduleMutation = (
+  options?: UseMutationOptions<t.AgentSchedule, Error, t.AgentScheduleCreateParams>,
+): UseMutationResult<t.AgentSchedule, Error, t.AgentScheduleCreateParams> => {
+  const invalidate = useInvalidateSchedules();
+  return useMutation((data: t.AgentScheduleCreateParams) => dataService.createAgentSchedule(data), {
+    ...options,
+    onSuccess: (...params) => {
+      invalidate();
+      options?.onSuccess?.(...params);
+    },
+  });
+};
+
+type UpdateAgentScheduleVariables = { scheduleId: string; data: t.AgentScheduleUpdateParams };
+
+/**
+ * Update an agent schedule, e.g. to pause it
+ */
+export const useUpdateAgentScheduleMutation = (
+  options?: UseMutationOptions<t.AgentSchedule, Error, UpdateAgentScheduleVariables>,
+): UseMutationResult<t.AgentSchedule, Error, UpdateAgentScheduleVariables> => {
+  const invalidate = useInvalidateSchedules();
+  return useMutation(
+    (variables: UpdateAgentScheduleVariables) => dataService.updateAgentSchedule(variables),
+    {
+      ...options,
+      onSuccess: (...params) => {
+        invalidate();
+        options?.onSuccess?.(...params);
+      },
+    },
+  );
+};
+
+/**
+ * Delete an agent schedule and its run history
+ */
+export const useDeleteAgentScheduleMutation = (
+  options?: UseMutationOptions<{ deleted: boolean }, Error, string>,
+): UseMutationResult<{ deleted: boolean }, Error, string> => {
+  const invalidate = useInvalidateSchedules();
+  return useMutation((scheduleId: string) => dataService.deleteAgentSchedule(scheduleId), {
+    ...options,
+    onSuccess: (...params) => {
+      invalidate();
+      options?.onSuccess?.(...params);
+    },
+  });
+};
+
+/**
+ * Run an agent schedule now
+ */
+export const useRunAgentScheduleMutation = (
+  options?: UseMutationOptions<t.AgentSchedule, Error, string>,
+): UseMutationResult<t.AgentSchedule, Error, string> => {
+  const invalidate = useInvalidateSchedules();
+  return useMutation((scheduleId: string) => dataService.runAgentSchedule(scheduleId), {
+    ...options,
+    onSuccess: (schedule, scheduleId, context) => {
+      invalidate(scheduleId);
+      options?.onSuccess?.(schedule, scheduleId, context);
+    },
+  });
+};
+
+/**
+ * Mark the runs of an agent schedule as read
+ */
+export const useMarkAgentScheduleReadMutation = (): UseMutationResult<
+  t.AgentSchedule,
+  Error,
+  string
+> => {
+  const queryClient = useQueryClient();
+  return useMutation((scheduleId: string) => dataService.markAgentScheduleRead(scheduleId), {
+    onSuccess: (schedule) => {
+      queryClient.setQueryData<t.AgentSchedulesResponse>([QueryKeys.agentSchedules], (data) =>
+        data
+          ? {
+              schedules: data.schedules.map((item) =>
+                item._id === schedule._id ? schedule : item,
+              ),
+            }
+          : data,
+      );
+    },
+  });
+};
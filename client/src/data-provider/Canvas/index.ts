@@ -0,0 +1,2 @@
+/* Canvas LMS */
+export * from './queries';
@@ -0,0 +1,292 @@
+/* Canvas LMS */
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import type {
+  UseQueryOptions,
+  UseMutationOptions,
+  QueryObserverResult,
+} from '@tanstack/react-query';
+import type {
+  TQuiz,
+  Course,
+  Module,
+  ModuleItem,
+  TCanvasAuthStatus,
+  TCanvasSyncStatus,
+  TCanvasSyncResult,
+  TCanvasUploadResponse,
+  TCanvasImportableItem,
+  TCanvasUploadFileRequest,
+  TCanvasImportContentRequest,
+  TCanvasOAuthInitiateResponse,
+  TCanvasFavoriteCourseRequest,
+  TCanvasFavoriteCourseResponse,
+  TCanvasModuleItemSearchResult,
+  TCanvasPublishRequest,
+  TCanvasPublishResponse,
+  TCanvasCreateQuizRequest,
+  TCanvasCreateQuizResponse,
+} from 'librechat-data-provider';
+
+export const useCanvasAuthQuery = (
+  config?: UseQueryOptions<TCanvasAuthStatus>,
+): QueryObserverResult<TCanvasAuthStatus> => {
+  return useQuery<TCanvasAuthStatus>(
+    [QueryKeys.canvasAuth],
+    () => dataService.getCanvasAuthStatus(),
+    {
+      /* Picks up OAuth connections completed in the popup window */
+      refetchOnWindowFocus: true,
+      refetchOnReconnect: false,
+      refetchOnMount: false,
+      ...config,
+    },
+  );
+};
+
+/** Canvas content changes rarely while browsing; cached results make reopening the panel instant */
+const CANVAS_STALE_TIME = 5 * 60 * 1000;
+
+export const useCanvasCoursesQuery = (
+  config?: UseQueryOptions<Course[]>,
+): QueryObserverResult<Course[]> => {
+  return useQuery<Course[]>([QueryKeys.canvasCourses], () => dataService.getCanvasCourses(), {
+    staleTime: CANVAS_STALE_TIME,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    ...config,
+  });
+};
+
+export const useCanvasModulesQuery = (
+  courseId: number | undefined,
+  config?: UseQueryOptions<Module[]>,
+): QueryObserverResult<Module[]> => {
+  return useQuery<Module[]>(
+    [QueryKeys.canvasModules, courseId],
+    () => dataService.getCanvasModules(courseId as number),
+    {
+      staleTime: CANVAS_STALE_TIME,
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+      enabled: courseId != null && (config?.enabled ?? true),
+    },
+  );
+};
+
+export const useCanvasModuleItemsQuery = (
+  courseId: number | undefined,
+  moduleId: number | undefined,
+  config?: UseQueryOptions<ModuleItem[]>,
+): QueryObserverResult<ModuleItem[]> => {
+  return useQuery<ModuleItem[]>(
+    [QueryKeys.canvasModuleItems, courseId, moduleId],
+    () => dataService.getCanvasModuleItems(courseId as number, moduleId as number),
+    {
+      staleTime: CANVAS_STALE_TIME,
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+      enabled: courseId != null && moduleId != null && (config?.enabled ?? true),
+    },
+  );
+};
+
+export const useCanvasImportableQuery = (
+  courseId: number | string,
+  config?: UseQueryOptions<TCanvasImportableItem[]>,
+): QueryObserverResult<TCanvasImportableItem[]> => {
+  return useQuery<TCanvasImportableItem[]>(
+    [QueryKeys.canvasImportable, courseId],
+    () => dataService.getCanvasImportable(courseId),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+/** Searches module item titles across a course; Canvas requires at least 2 characters */
+export const useCanvasItemSearchQuery = (
+  courseId: number | string,
+  query: string,
+  config?: UseQueryOptions<TCanvasModuleItemSearchResult[]>,
+): QueryObserverResult<TCanvasModuleItemSearchResult[]> => {
+  return useQuery<TCanvasModuleItemSearchResult[]>(
+    [QueryKeys.canvasItemSearch, courseId, query],
+    () => dataService.searchCanvasItems(courseId, query),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      keepPreviousData: true,
+      ...config,
+      enabled: query.trim().length >= 2 && (config?.enabled ?? true),
+    },
+  );
+};
+
+export const useCanvasSyncStatusQuery = (
+  config?: UseQueryOptions<TCanvasSyncStatus>,
+): QueryObserverResult<TCanvasSyncStatus> => {
+  return useQuery<TCanvasSyncStatus>(
+    [QueryKeys.canvasSync],
+    () => dataService.getCanvasSyncStatus(),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+export const useSyncCanvasMutation = (
+  options?: UseMutationOptions<TCanvasSyncResult | null, Error, void>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(() => dataService.syncCanvas(), {
+    ...options,
+    onSuccess: (...params) => {
+      queryClient.invalidateQueries([QueryKeys.files]);
+      queryClient.invalidateQueries([QueryKeys.canvasSync]);
+      options?.onSuccess?.(...params);
+    },
+  });
+};
+
+export const useFavoriteCanvasCourseMutation = (
+  options?: UseMutationOptions<TCanvasFavoriteCourseResponse, Error, TCanvasFavoriteCourseRequest>,
+) => {
+  const queryClient = useQueryClient();
+  const setFavorite = (courseId: number, is_favorite: boolean) =>
+    queryClient.setQueryData<Course[]>([QueryKeys.canvasCourses], (courses) =>
+      courses?.map((course) => (course.id === courseId ? { ...course, is_favorite } : course)),
+    );
+  return useMutation(
+    (payload: TCanvasFavoriteCourseRequest) => dataService.favoriteCanvasCourse(payload),
+    {
+      ...options,
+      onMutate: (variables) => {
+        /* Optimistic, so that the course moves to the top right away */
+        setFavorite(variables.courseId, variables.favorite);
+        return options?.onMutate?.(variables);
+      },
+      onError: (error, variables, context) => {
+        setFavorite(variables.courseId, !variables.favorite);
+        options?.onError?.(error, variables, context);
+      },
+    },
+  );
+};
+
+export const useConnectCanvasMutation = (
+  options?: UseMutationOptions<TCanvasAuthStatus, Error, string>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation((accessToken: string) => dataService.connectCanvas(accessToken), {
+    ...options,
+    onSuccess: (data, ...params) => {
+      queryClient.setQueryData([QueryKeys.canvasAuth], data);
+      options?.onSuccess?.(data, ...params);
+    },
+  });
+};
+
+export const useDisconnectCanvasMutation = (
+  options?: UseMutationOptions<TCanvasAuthStatus, Error, void>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(() => dataService.disconnectCanvas(), {
+    ...options,
+    onSuccess: (data, ...params) => {
+      queryClient.setQueryData([QueryKeys.canvasAuth], data);
+      queryClient.removeQueries([QueryKeys.canvasCourses]);
+      queryClient.removeQueries([QueryKeys.canvasModules]);
+      queryClient.removeQueries([QueryKeys.canvasModuleItems]);
+      options?.onSuccess?.(data, ...params);
+    },
+  });
+};
+
+export const useInitiateCanvasOAuthMutation = (
+  options?: UseMutationOptions<TCanvasOAuthInitiateResponse, Error, void>,
+) => {
+  return useMutation(() => dataService.initiateCanvasOAuth(), options);
+};
+
+export type UploadCanvasFileParams = TCanvasUploadFileRequest & { fileId: number | string };
+export const useUploadCanvasFileMutation = (
+  options?: UseMutationOptions<TCanvasUploadResponse, Error, UploadCanvasFileParams>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    ({ fileId, ...target }: UploadCanvasFileParams) => dataService.uploadCanvasFile(fileId, target),
+    {
+      ...options,
+      onSuccess: (...params) => {
+        queryClient.invalidateQueries([QueryKeys.files]);
+        queryClient.invalidateQueries([QueryKeys.canvasSync]);
+        options?.onSuccess?.(...params);
+      },
+    },
+  );
+};
+
+export type ImportCanvasContentParams = TCanvasImportContentRequest & {
+  courseId: number | string;
+};
+export const useImportCanvasContentMutation = (
+  options?: UseMutationOptions<TCanvasUploadResponse, Error, ImportCanvasContentParams>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    ({ courseId, ...payload }: ImportCanvasContentParams) =>
+      dataService.importCanvasContent(courseId, payload),
+    {
+      ...options,
+      onSuccess: (...params) => {
+        queryClient.invalidateQueries([QueryKeys.files]);
+        queryClient.invalidateQueries([QueryKeys.canvasSync]);
+        options?.onSuccess?.(...params);
+      },
+    },
+  );
+};
+
+export const useExportQuizQtiMutation = (options?: UseMutationOptions<Blob, Error, TQuiz>) => {
+  return useMutation((quiz: TQuiz) => dataService.exportQuizQti(quiz), options);
+};
+
+export type CreateCanvasQuizParams = TCanvasCreateQuizRequest & { courseId: number };
+export const useCreateCanvasQuizMutation = (
+  options?: UseMutationOptions<TCanvasCreateQuizResponse, Error, CreateCanvasQuizParams>,
+) => {
+  return useMutation(
+    ({ courseId, ...payload }: CreateCanvasQuizParams) =>
+      dataService.createCanvasQuiz(courseId, payload),
+    options,
+  );
+};
+
+export type PublishToCanvasParams = TCanvasPublishRequest & { courseId: number };
+export const usePublishToCanvasMutation = (
+  options?: UseMutationOptions<TCanvasPublishResponse, Error, PublishToCanvasParams>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    ({ courseId, ...payload }: PublishToCanvasParams) =>
+      dataService.publishToCanvas(courseId, payload),
+    {
+      ...options,
+      onSuccess: (data, variables, context) => {
+        /* Published pages and files show up in the course's modules */
+        if (variables.module_id != null) {
+          queryClient.invalidateQueries([QueryKeys.canvasModules, variables.courseId]);
+          queryClient.invalidateQueries([QueryKeys.canvasModuleItems, variables.courseId]);
+        }
+        options?.onSuccess?.(data, variables, context);
+      },
+    },
+  );
+};
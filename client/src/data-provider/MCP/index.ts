@@ -0,0 +1,2 @@
+/* MCP */
+export * from './queries';
@@ -0,0 +1,259 @@
+/* MCP */
+import { useCallback } from 'react';
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import type {
+  UseQueryOptions,
+  UseMutationOptions,
+  QueryObserverResult,
+} from '@tanstack/react-query';
+import type {
+  TMCPPrompt,
+  TUserMCPServer,
+  TUserMCPServerRequest,
+  TUserMCPServerConnectResponse,
+  TMCPGetPromptRequest,
+  TMCPGetPromptResponse,
+  TMCPResourcesResponse,
+  TMCPReadResourceResponse,
+  TMCPElicitationResponse,
+  TMCPSamplingDecisionRequest,
+  TMCPResourceSubscriptionRequest,
+  TMCPConnectionDiagnostics,
+  TMCPConnectionActionRequest,
+  TMCPConnectionActionResponse,
+} from 'librechat-data-provider';
+
+/** How often resources are refetched while the user is subscribed to any of them */
+const MCP_RESOURCE_UPDATES_INTERVAL = 30 * 1000;
+/** How often the health dashboard refetches connection diagnostics */
+const MCP_CONNECTIONS_INTERVAL = 10 * 1000;
+
+export const useMCPResourcesQuery = (
+  serverName: string,
+  config?: UseQueryOptions<TMCPResourcesResponse>,
+): QueryObserverResult<TMCPResourcesResponse> => {
+  return useQuery<TMCPResourcesResponse>(
+    [QueryKeys.mcpResources, serverName],
+    () => dataService.getMCPResources(serverName),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      /* Picks up updates the server reported for subscribed resources */
+      refetchInterval: (data) =>
+        data?.resources.some((resource) => resource.subscribed) === true
+          ? MCP_RESOURCE_UPDATES_INTERVAL
+          : false,
+      ...config,
+    },
+  );
+};
+
+/**
+ * Contents of a resource; `updatedAt` is part of the key so that contents
+ * of subscribed resources are read again when they are updated
+ */
+export const useMCPResourceContentsQuery = (
+  serverName: string,
+  uri: string,
+  updatedAt?: string,
+  config?: UseQueryOptions<TMCPReadResourceResponse>,
+): QueryObserverResult<TMCPReadResourceResponse> => {
+  return useQuery<TMCPReadResourceResponse>(
+    [QueryKeys.mcpResourceContents, serverName, uri, updatedAt],
+    () => dataService.readMCPResource(serverName, uri),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+/** Reads resources on demand, e.g. to attach them, sharing the cache of `useMCPResourceContentsQuery` */
+export const useFetchMCPResourceContents = (serverName: string) => {
+  const queryClient = useQueryClient();
+  return useCallback(
+    (uri: string, updatedAt?: string) =>
+      queryClient.fetchQuery([QueryKeys.mcpResourceContents, serverName, uri, updatedAt], () =>
+        dataService.readMCPResource(serverName, uri),
+      ),
+    [queryClient, serverName],
+  );
+};
+
+export type MCPResourceSubscriptionParams = TMCPResourceSubscriptionRequest & {
+  subscribe: boolean;
+};
+export const useMCPResourceSubscriptionMutation = (
+  serverName: string,
+  options?: UseMutationOptions<TMCPResourcesResponse, Error, MCPResourceSubscriptionParams>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    ({ subscribe, ...payload }: MCPResourceSubscriptionParams) =>
+      dataService.setMCPResourceSubscription(serverName, subscribe, payload),
+    {
+      ...options,
+      onSuccess: (data, ...params) => {
+        queryClient.setQueryData([QueryKeys.mcpResources, serverName], data);
+        options?.onSuccess?.(data, ...params);
+      },
+    },
+  );
+};
+
+export const useMCPPromptsQuery = (
+  config?: UseQueryOptions<TMCPPrompt[]>,
+): QueryObserverResult<TMCPPrompt[]> => {
+  return useQuery<TMCPPrompt[]>([QueryKeys.mcpPrompts], () => dataService.getMCPPrompts(), {
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    ...config,
+  });
+};
+
+export type GetMCPPromptParams = TMCPGetPromptRequest & { serverName: string };
+export const useGetMCPPromptMutation = (
+  options?: UseMutationOptions<TMCPGetPromptResponse, Error, GetMCPPromptParams>,
+) => {
+  return useMutation(
+    ({ serverName, ...payload }: GetMCPPromptParams) =>
+      dataService.getMCPPrompt(serverName, payload),
+    options,
+  );
+};
+
+type MCPSamplingDecisionParams = TMCPSamplingDecisionRequest & {
+  serverName: string;
+  flowId: string;
+};
+
+export const useMCPSamplingDecisionMutation = (
+  options?: UseMutationOptions<{ success: boolean }, Error, MCPSamplingDecisionParams>,
+) => {
+  return useMutation(
+    ({ serverName, flowId, ...payload }: MCPSamplingDecisionParams) =>
+      dataService.setMCPSamplingDecision(serverName, flowId, payload),
+    options,
+  );
+};
+
+type MCPElicitationParams = TMCPElicitationResponse & {
+  serverName: string;
+  flowId: string;
+};
+
+export const useMCPElicitationMutation = (
+  options?: UseMutationOptions<{ success: boolean }, Error, MCPElicitationParams>,
+) => {
+  return useMutation(
+    ({ serverName, flowId, ...payload }: MCPElicitationParams) =>
+      dataService.respondToMCPElicitation(serverName, flowId, payload),
+    options,
+  );
+};
+
+export const useUserMCPServersQuery = (
+  config?: UseQueryOptions<TUserMCPServer[]>,
+): QueryObserverResult<TUserMCPServer[]> => {
+  return useQuery<TUserMCPServer[]>(
+    [QueryKeys.userMCPServers],
+    () => dataService.getUserMCPServers(),
+    {
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+/** Refetches the user's servers and the tools that may have changed with them */
+const useInvalidateUserMCPServers = () => {
+  const queryClient = useQueryClient();
+  return useCallback(() => {
+    queryClient.invalidateQueries([QueryKeys.userMCPServers]);
+    queryClient.invalidateQueries([QueryKeys.tools]);
+  }, [queryClient]);
+};
+
+export const useCreateUserMCPServerMutation = (
+  options?: UseMutationOptions<TUserMCPServer, Error, TUserMCPServerRequest>,
+) => {
+  const invalidate = useInvalidateUserMCPServers();
+  return useMutation((payload: TUserMCPServerRequest) => dataService.createUserMCPServer(payload), {
+    ...options,
+    onSuccess: (...params) => {
+      invalidate();
+      options?.onSuccess?.(...params);
+    },
+  });
+};
+
+export const useUpdateUserMCPServerMutation = (
+  options?: UseMutationOptions<TUserMCPServer, Error, TUserMCPServerRequest>,
+) => {
+  const invalidate = useInvalidateUserMCPServers();
+  return useMutation((payload: TUserMCPServerRequest) => dataService.updateUserMCPServer(payload), {
+    ...options,
+    onSuccess: (...params) => {
+      invalidate();
+      options?.onSuccess?.(...params);
+    },
+  });
+};
+
+export const useDeleteUserMCPServerMutation = (
+  options?: UseMutationOptions<{ success: boolean }, Error, string>,
+) => {
+  const invalidate = useInvalidateUserMCPServers();
+  return useMutation((serverName: string) => dataService.deleteUserMCPServer(serverName), {
+    ...options,
+    onSuccess: (...params) => {
+      invalidate();
+      options?.onSuccess?.(...params);
+    },
+  });
+};
+
+export const useConnectUserMCPServerMutation = (
+  options?: UseMutationOptions<TUserMCPServerConnectResponse, Error, string>,
+) => {
+  const invalidate = useInvalidateUserMCPServers();
+  return useMutation((serverName: string) => dataService.connectUserMCPServer(serverName), {
+    ...options,
+    onSuccess: (...params) => {
+      invalidate();
+      options?.onSuccess?.(...params);
+    },
+  });
+};
+
+export const useMCPConnectionsQuery = (
+  config?: UseQueryOptions<TMCPConnectionDiagnostics[]>,
+): QueryObserverResult<TMCPConnectionDiagnostics[]> => {
+  return useQuery<TMCPConnectionDiagnostics[]>(
+    [QueryKeys.mcpConnections],
+    () => dataService.getMCPConnections(),
+    {
+      refetchInterval: MCP_CONNECTIONS_INTERVAL,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+export const useMCPConnectionActionMutation = (
+  options?: UseMutationOptions<TMCPConnectionActionResponse, Error, TMCPConnectionActionRequest>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (payload: TMCPConnectionActionRequest) => dataService.runMCPConnectionAction(payload),
+    {
+      ...options,
+      onSettled: (...params) => {
+        queryClient.invalidateQueries([QueryKeys.mcpConnections]);
+        options?.onSettled?.(...params);
+      },
+    },
+  );
+};
@@ -6,7 +6,15 @@ import type {
   UseMutationOptions,
   QueryObserverResult,
 } from '@tanstack/react-query';
-import type { TUserMemory, MemoriesResponse } from 'librechat-data-provider';
+import type {
+  TUserMemory,
+  TMemoryScope,
+  MemoriesResponse,
+  MemoryHistoryParams,
+  MemoryImportResponse,
+  MemoryTransferFormat,
+  MemoryHistoryResponse,
+} from 'librechat-data-provider';
 
 export const useMemoriesQuery = (
   config?: UseQueryOptions<MemoriesResponse>,
@@ -19,27 +27,87 @@ export const useMemoriesQuery = (
   });
 };
 
+export const useMemoryHistoryQuery = (
+  params?: MemoryHistoryParams,
+  config?: UseQueryOptions<MemoryHistoryResponse>,
+): QueryObserverResult<MemoryHistoryResponse> => {
+  return useQuery<MemoryHistoryResponse>(
+    [QueryKeys.memoryHistory, params],
+    () => dataService.getMemoryHistory(params),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
+
+export const useRevertMemoryChangeMutation = (
+  options?: UseMutationOptions<{ reverted: boolean }, Error, string>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation<{ reverted: boolean }, Error, string>(
+    (historyId: string) => dataService.revertMemoryChange(historyId),
+    {
+      ...options,
+      onSuccess: (...params) => {
+        queryClient.invalidateQueries([QueryKeys.memories]);
+        queryClient.invalidateQueries([QueryKeys.memoryHistory]);
+        options?.onSuccess?.(...params);
+      },
+    },
+  );
+};
+
+export type DeleteMemoryParams = { key: string; scope?: TMemoryScope };
 export const useDeleteMemoryMutation = () => {
   const queryClient = useQueryClient();
-  return useMutation((key: string) => dataService.deleteMemory(key), {
+  return useMutation(({ key, scope }: DeleteMemoryParams) => dataService.deleteMemory(key, scope), {
     onSuccess: () => {
       queryClient.invalidateQueries([QueryKeys.memories]);
+      queryClient.invalidateQueries([QueryKeys.memoryHistory]);
     },
   });
 };
 
-export type UpdateMemoryParams = { key: string; value: string; originalKey?: string };
+export type UpdateMemoryParams = {
+  key: string;
+  value: string;
+  originalKey?: string;
+  scope?: TMemoryScope;
+};
 export const useUpdateMemoryMutation = (
   options?: UseMutationOptions<TUserMemory, Error, UpdateMemoryParams>,
 ) => {
   const queryClient = useQueryClient();
   return useMutation(
-    ({ key, value, originalKey }: UpdateMemoryParams) =>
-      dataService.updateMemory(key, value, originalKey),
+    ({ key, value, originalKey, scope }: UpdateMemoryParams) =>
+      dataService.updateMemory(key, value, originalKey, scope),
+    {
+      ...options,
+      onSuccess: (...params) => {
+        queryClient.invalidateQueries([QueryKeys.memories]);
+        queryClient.invalidateQueries([QueryKeys.memoryHistory]);
+        options?.onSuccess?.(...params);
+      },
+    },
+  );
+};
+
+export type UpdateMemoryScopeParams = { key: string; scope: TMemoryScope; newScope: TMemoryScope };
+export type UpdateMemoryScopeResponse = { updated: boolean; memory: TUserMemory };
+export const useUpdateMemoryScopeMutation = (
+  options?: UseMutationOptions<UpdateMemoryScopeResponse, Error, UpdateMemoryScopeParams>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation<UpdateMemoryScopeResponse, Error, UpdateMemoryScopeParams>(
+    ({ key, scope, newScope }: UpdateMemoryScopeParams) =>
+      dataService.updateMemoryScope(key, scope, newScope),
     {
       ...options,
       onSuccess: (...params) => {
         queryClient.invalidateQueries([QueryKeys.memories]);
+        queryClient.invalidateQueries([QueryKeys.memoryHistory]);
         options?.onSuccess?.(...params);
       },
     },
@@ -74,7 +142,7 @@ export const useUpdateMemoryPreferencesMutation = (
   );
 };
 
-export type CreateMemoryParams = { key: string; value: string };
+export type CreateMemoryParams = { key: string; value: string; scope?: TMemoryScope };
 export type CreateMemoryResponse = { created: boolean; memory: TUserMemory };
 
 export const useCreateMemoryMutation = (
@@ -82,7 +150,7 @@ export const useCreateMemoryMutation = (
 ) => {
   const queryClient = useQueryClient();
   return useMutation<CreateMemoryResponse, Error, CreateMemoryParams>(
-    ({ key, value }: CreateMemoryParams) => dataService.createMemory({ key, value }),
+    ({ key, value, scope }: CreateMemoryParams) => dataService.createMemory({ key, value, scope }),
     {
       ...options,
       onSuccess: (data, variables, context) => {
@@ -109,8 +177,37 @@ export const useCreateMemoryMutation = (
           };
         });
 
+        queryClient.invalidateQueries([QueryKeys.memoryHistory]);
         options?.onSuccess?.(data, variables, context);
       },
     },
   );
 };
+
+export const useExportMemoriesMutation = (
+  options?: UseMutationOptions<Blob, Error, MemoryTransferFormat>,
+) => {
+  return useMutation<Blob, Error, MemoryTransferFormat>(
+    (format: MemoryTransferFormat) => dataService.exportMemories(format),
+    options,
+  );
+};
+
+export type ImportMemoriesParams = { format: MemoryTransferFormat; content: string };
+
+export const useImportMemoriesMutation = (
+  options?: UseMutationOptions<MemoryImportResponse, Error, ImportMemoriesParams>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation<MemoryImportResponse, Error, ImportMemoriesParams>(
+    (params: ImportMemoriesParams) => dataService.importMemories(params),
+    {
+      ...options,
+      onSuccess: (...params) => {
+        queryClient.invalidateQueries([QueryKeys.memories]);
+        queryClient.invalidateQueries([QueryKeys.memoryHistory]);
+        options?.onSuccess?.(...params);
+      },
+    },
+  );
+};
@@ -1,6 +1,6 @@
 import { dataService, QueryKeys, Tools } from 'librechat-data-provider';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import type { UseMutationResult } from '@tanstack/react-query';
+import type { UseMutationResult, UseMutationOptions } from '@tanstack/react-query';
 import type * as t from 'librechat-data-provider';
 
 export const useToolCallMutation = <T extends t.ToolId>(
@@ -40,3 +40,14 @@ export const useToolCallMutation = <T extends t.ToolId>(
     },
   );
 };
+
+type ToolApprovalParams = t.Agents.ToolApprovalRequest & { flowId: string };
+
+export const useToolApprovalMutation = (
+  options?: UseMutationOptions<{ success: boolean }, Error, ToolApprovalParams>,
+): UseMutationResult<{ success: boolean }, Error, ToolApprovalParams> => {
+  return useMutation(
+    ({ flowId, ...payload }: ToolApprovalParams) => dataService.setToolApproval(flowId, payload),
+    options,
+  );
+};
@@ -1,7 +1,11 @@
 export * from './Auth';
 export * from './Agents';
+/* Canvas LMS */
+export * from './Canvas';
 export * from './Endpoints';
 export * from './Files';
+/* MCP */
+export * from './MCP';
 /* Memories */
 export * from './Memories';
 export * from './Messages';
@@ -5,7 +5,7 @@ import {
 } from 'librechat-data-provider';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { dataService, MutationKeys, QueryKeys, defaultOrderQuery } from 'librechat-data-provider';
-import type { InfiniteData, UseMutationResult } from '@tanstack/react-query';
+import type { InfiniteData, UseMutationResult, UseMutationOptions } from '@tanstack/react-query';
 import type * as t from 'librechat-data-provider';
 import {
   logger,
@@ -1026,3 +1026,22 @@ export const useAcceptTermsMutation = (
     onMutate: options?.onMutate,
   });
 };
+
+export const useStartDataExportMutation = (
+  options?: UseMutationOptions<t.TDataExportStatus, Error, void>,
+): UseMutationResult<t.TDataExportStatus, Error, void, unknown> => {
+  const queryClient = useQueryClient();
+  return useMutation(() => dataService.startDataExport(), {
+    ...options,
+    onSuccess: (data, variables, context) => {
+      queryClient.setQueryData<t.TDataExportStatus>([QueryKeys.dataExport], data);
+      options?.onSuccess?.(data, variables, context);
+    },
+  });
+};
+
+export const useDownloadDataExportMutation = (
+  options?: UseMutationOptions<Blob, Error, void>,
+): UseMutationResult<Blob, Error, void, unknown> => {
+  return useMutation(async () => (await dataService.downloadDataExport()).data as Blob, options);
+};
@@ -528,6 +528,16 @@ export const useGetRandomPrompts = (
   );
 };
 
+export const useDataExportQuery = (
+  config?: UseQueryOptions<t.TDataExportStatus>,
+): QueryObserverResult<t.TDataExportStatus> => {
+  return useQuery<t.TDataExportStatus>([QueryKeys.dataExport], () => dataService.getDataExport(), {
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    ...config,
+  });
+};
+
 export const useUserTermsQuery = (
   config?: UseQueryOptions<t.TUserTermsResponse>,
 ): QueryObserverResult<t.TUserTermsResponse> => {
@@ -4,6 +4,8 @@ import {
   dataService,
   promptPermissionsSchema,
   memoryPermissionsSchema,
+  canvasPermissionsSchema,
+  mcpServerPermissionsSchema,
 } from 'librechat-data-provider';
 import type {
   UseQueryOptions,
@@ -132,3 +134,75 @@ export const useUpdateMemoryPermissionsMutation = (
     },
   );
 };
+
+export const useUpdateCanvasPermissionsMutation = (
+  options?: t.UpdateCanvasPermOptions,
+): UseMutationResult<
+  t.UpdatePermResponse,
+  t.TError | undefined,
+  t.UpdateCanvasPermVars,
+  unknown
+> => {
+  const queryClient = useQueryClient();
+  const { onMutate, onSuccess, onError } = options ?? {};
+  return useMutation(
+    (variables) => {
+      canvasPermissionsSchema.partial().parse(variables.updates);
+      return dataService.updateCanvasPermissions(variables);
+    },
+    {
+      onSuccess: (data, variables, context) => {
+        queryClient.invalidateQueries([QueryKeys.roles, variables.roleName]);
+        if (onSuccess) {
+          onSuccess(data, variables, context);
+        }
+      },
+      onError: (...args) => {
+        const error = args[0];
+        if (error != null) {
+          console.error('Failed to update Canvas permissions:', error);
+        }
+        if (onError) {
+          onError(...args);
+        }
+      },
+      onMutate,
+    },
+  );
+};
+
+export const useUpdateMCPServerPermissionsMutation = (
+  options?: t.UpdateMCPServerPermOptions,
+): UseMutationResult<
+  t.UpdatePermResponse,
+  t.TError | undefined,
+  t.UpdateMCPServerPermVars,
+  unknown
+> => {
+  const queryClient = useQueryClient();
+  const { onMutate, onSuccess, onError } = options ?? {};
+  return useMutation(
+    (variables) => {
+      mcpServerPermissionsSchema.partial().parse(variables.updates);
+      return dataService.updateMCPServerPermissions(variables);
+    },
+    {
+      onSuccess: (data, variables, context) => {
+        queryClient.invalidateQueries([QueryKeys.roles, variables.roleName]);
+        if (onSuccess) {
+          onSuccess(data, variables, context);
+        }
+      },
+      onError: (...args) => {
+        const error = args[0];
+        if (error != null) {
+          console.error('Failed to update MCP server permissions:', error);
+        }
+        if (onError) {
+          onError(...args);
+        }
+      },
+      onMutate,
+    },
+  );
+};
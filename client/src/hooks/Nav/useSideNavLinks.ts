@@ -1,5 +1,13 @@
 import { useMemo } from 'react';
-import { MessageSquareQuote, ArrowRightToLine, Settings2, Database, Bookmark, GraduationCap } from 'lucide-react';
+import {
+  MessageSquareQuote,
+  ArrowRightToLine,
+  Settings2,
+  Database,
+  Bookmark,
+  GraduationCap,
+  CalendarClock,
+} from 'lucide-react';
 import {
   isAssistantsEndpoint,
   isAgentsEndpoint,
@@ -13,6 +21,7 @@ import type { NavLink } from '~/common';
 import AgentPanelSwitch from '~/components/SidePanel/Agents/AgentPanelSwitch';
 import BookmarkPanel from '~/components/SidePanel/Bookmarks/BookmarkPanel';
 import MemoryViewer from '~/components/SidePanel/Memories/MemoryViewer';
+import SchedulesPanel from '~/components/SidePanel/Schedules/SchedulesPanel';
 import PanelSwitch from '~/components/SidePanel/Builder/PanelSwitch';
 import PromptsAccordion from '~/components/Prompts/PromptsAccordion';
 import CanvasPanel from '~/components/SidePanel/Canvas/CanvasPanel';
@@ -20,7 +29,8 @@ import { Blocks, MCPIcon, AttachmentIcon } from '~/components/svg';
 import Parameters from '~/components/SidePanel/Parameters/Panel';
 import FilesPanel from '~/components/SidePanel/Files/Panel';
 import MCPPanel from '~/components/SidePanel/MCP/MCPPanel';
-import { useGetStartupConfig } from '~/data-provider';
+import { getUnreadRuns } from '~/components/SidePanel/Schedules/utils';
+import { useGetStartupConfig, useAgentSchedulesQuery } from '~/data-provider';
 import { useHasAccess } from '~/hooks';
 
 export default function useSideNavLinks({
@@ -62,7 +72,14 @@ export default function useSideNavLinks({
     permissionType: PermissionTypes.AGENTS,
     permission: Permissions.CREATE,
   });
+  const hasAccessToMCPServers = useHasAccess({
+    permissionType: PermissionTypes.MCP_SERVERS,
+    permission: Permissions.USE,
+  });
   const { data: startupConfig } = useGetStartupConfig();
+  const hasAccessToSchedules = !!endpointsConfig?.[EModelEndpoint.agents] && hasAccessToAgents;
+  const { data: schedulesData } = useAgentSchedulesQuery({ enabled: hasAccessToSchedules });
+  const unreadRuns = getUnreadRuns(schedulesData?.schedules);
 
   const Links = useMemo(() => {
     const links: NavLink[] = [];
@@ -120,6 +137,16 @@ export default function useSideNavLinks({
       });
     }
 
+    if (hasAccessToSchedules) {
+      links.push({
+        title: 'com_sidepanel_schedules',
+        label: unreadRuns > 0 ? unreadRuns.toString() : '',
+        icon: CalendarClock,
+        id: 'schedules',
+        Component: SchedulesPanel,
+      });
+    }
+
     if (
       interfaceConfig.parameters === true &&
       isParamEndpoint(endpoint ?? '', endpointType ?? '') === true &&
@@ -163,10 +190,8 @@ export default function useSideNavLinks({
     });
 
     if (
-      startupConfig?.mcpServers &&
-      Object.values(startupConfig.mcpServers).some(
-        (server) => server.customUserVars && Object.keys(server.customUserVars).length > 0,
-      )
+      hasAccessToMCPServers ||
+      (startupConfig?.mcpServers && Object.keys(startupConfig.mcpServers).length > 0)
     ) {
       links.push({
         title: 'com_nav_setting_mcp',
@@ -196,8 +221,11 @@ export default function useSideNavLinks({
     hasAccessToPrompts,
     hasAccessToMemories,
     hasAccessToReadMemories,
+    hasAccessToSchedules,
+    unreadRuns,
     hasAccessToBookmarks,
     hasAccessToCreateAgents,
+    hasAccessToMCPServers,
     hidePanel,
     startupConfig,
   ]);
@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import type { TMCPPrompt } from 'librechat-data-provider';
+import useSubmitMessage from '~/hooks/Messages/useSubmitMessage';
+import useFileHandling from '~/hooks/Files/useFileHandling';
+import { useGetMCPPromptMutation } from '~/data-provider';
+import { formatMCPPromptMessages } from '~/utils';
+import { useToastContext } from '~/Providers';
+import useLocalize from '~/hooks/useLocalize';
+
+/**
+ * Gets an MCP prompt with its arguments filled in and submits its messages like a prompt,
+ * attaching the images and binary resources it includes
+ */
+export default function useSubmitMCPPrompt() {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { handleFiles } = useFileHandling();
+  const { submitPrompt } = useSubmitMessage();
+  const getPromptMutation = useGetMCPPromptMutation();
+  const { mutateAsync } = getPromptMutation;
+
+  const submitMCPPrompt = useCallback(
+    async (prompt: TMCPPrompt, promptArguments?: Record<string, string>) => {
+      try {
+        const { messages } = await mutateAsync({
+          serverName: prompt.serverName,
+          name: prompt.name,
+          arguments: promptArguments,
+        });
+        const { text, files } = formatMCPPromptMessages(messages);
+        if (files.length > 0) {
+          await handleFiles(files);
+        }
+        if (text) {
+          submitPrompt(text);
+        }
+      } catch (error) {
+        console.error('Error getting MCP prompt:', error);
+        showToast({ message: localize('com_ui_mcp_prompt_error'), status: 'error' });
+      }
+    },
+    [mutateAsync, handleFiles, submitPrompt, showToast, localize],
+  );
+
+  return { submitMCPPrompt, isLoading: getPromptMutation.isLoading };
+}
@@ -27,6 +27,7 @@ export default function useAttachmentHandler(queryClient?: QueryClient) {
 
         return handleMemoryArtifact({ memoryArtifact, currentData: oldData }) || oldData;
       });
+      queryClient.invalidateQueries([QueryKeys.memoryHistory]);
     }
 
     setAttachmentsMap((prevMap) => {
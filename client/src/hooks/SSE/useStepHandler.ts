@@ -162,6 +162,11 @@ export default function useStepHandler({
         type: ToolCallTypes.TOOL_CALL,
         auth: contentPart.tool_call.auth,
         expires_at: contentPart.tool_call.expires_at,
+        sampling: contentPart.tool_call.sampling,
+        approval: contentPart.tool_call.approval,
+        mcp_progress: contentPart.tool_call.mcp_progress,
+        mcp_cached: contentPart.tool_call.mcp_cached,
+        elicitation: contentPart.tool_call.elicitation,
       };
 
       if (finalUpdate) {
@@ -358,6 +363,21 @@ export default function useStepHandler({
               contentPart.tool_call.auth = runStepDelta.delta.auth;
               contentPart.tool_call.expires_at = runStepDelta.delta.expires_at;
             }
+            if (runStepDelta.delta.sampling != null) {
+              contentPart.tool_call.sampling = runStepDelta.delta.sampling;
+            }
+            if (runStepDelta.delta.approval != null) {
+              contentPart.tool_call.approval = runStepDelta.delta.approval;
+            }
+            if (runStepDelta.delta.mcp_progress != null) {
+              contentPart.tool_call.mcp_progress = runStepDelta.delta.mcp_progress;
+            }
+            if (runStepDelta.delta.mcp_cached != null) {
+              contentPart.tool_call.mcp_cached = runStepDelta.delta.mcp_cached;
+            }
+            if (runStepDelta.delta.elicitation != null) {
+              contentPart.tool_call.elicitation = runStepDelta.delta.elicitation;
+            }
 
             /** Tool calls don't need index adjustment */
             const currentIndex = runStep.index + initialContent.length;
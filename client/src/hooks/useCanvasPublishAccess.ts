@@ -0,0 +1,14 @@
+import { PermissionTypes, Permissions } from 'librechat-data-provider';
+import { useCanvasAuthQuery } from '~/data-provider';
+import useHasAccess from './Roles/useHasAccess';
+
+/** Whether the user may publish to Canvas and has a connected Canvas account */
+export default function useCanvasPublishAccess() {
+  const hasPublishPermission = useHasAccess({
+    permissionType: PermissionTypes.CANVAS,
+    permission: Permissions.USE,
+  });
+  const { data: authStatus } = useCanvasAuthQuery({ enabled: hasPublishPermission });
+
+  return hasPublishPermission && authStatus?.configured === true && authStatus.connected === true;
+}
@@ -0,0 +1,16 @@
+import { atomWithLocalStorage } from './utils';
+import { defaultCanvasCourseFilter } from '~/common';
+import type { CanvasLocation, CanvasCourseFilter } from '~/common';
+
+/** Persisted so that the Canvas panel reopens where it was left, across reloads */
+const canvasLocation = atomWithLocalStorage<CanvasLocation>('canvasLocation', {});
+
+const canvasCourseFilter = atomWithLocalStorage<CanvasCourseFilter>(
+  'canvasCourseFilter',
+  defaultCanvasCourseFilter,
+);
+
+export default {
+  canvasLocation,
+  canvasCourseFilter,
+};
@@ -1,11 +1,12 @@
 import dedent from 'dedent';
-import { shadcnComponents } from 'librechat-data-provider';
+import { shadcnComponents, QUIZ_ARTIFACT_TYPE } from 'librechat-data-provider';
 import type {
   SandpackProviderProps,
   SandpackPredefinedTemplate,
 } from '@codesandbox/sandpack-react';
 
 const artifactFilename = {
+  [QUIZ_ARTIFACT_TYPE]: 'quiz.json',
   'application/vnd.mermaid': 'App.tsx',
   'application/vnd.react': 'App.tsx',
   'text/html': 'index.html',
@@ -22,6 +23,7 @@ const artifactTemplate: Record<
   keyof typeof artifactFilename,
   SandpackPredefinedTemplate | undefined
 > = {
+  [QUIZ_ARTIFACT_TYPE]: 'static',
   'text/html': 'static',
   'application/vnd.react': 'react-ts',
   'application/vnd.mermaid': 'react-ts',
@@ -42,6 +44,8 @@ export function getFileExtension(language?: string): string {
       return 'mermaid';
     case 'text/html':
       return 'html';
+    case QUIZ_ARTIFACT_TYPE:
+      return 'json';
     // case 'jsx':
     //   return 'jsx';
     // case 'tsx':
@@ -118,6 +122,7 @@ const mermaidDependencies = Object.assign(
 );
 
 const dependenciesMap: Record<keyof typeof artifactFilename, object> = {
+  [QUIZ_ARTIFACT_TYPE]: standardDependencies,
   'application/vnd.mermaid': mermaidDependencies,
   'application/vnd.react': standardDependencies,
   'text/html': standardDependencies,
@@ -5,7 +5,12 @@ import {
   codeTypeMapping,
   fileConfig as defaultFileConfig,
 } from 'librechat-data-provider';
-import type { TFile, EndpointFileConfig } from 'librechat-data-provider';
+import type {
+  TFile,
+  TMCPResource,
+  EndpointFileConfig,
+  TMCPResourceContents,
+} from 'librechat-data-provider';
 import type { QueryClient } from '@tanstack/react-query';
 import type { ExtendedFile } from '~/common';
 import SheetPaths from '~/components/svg/Files/SheetPaths';
@@ -199,6 +204,28 @@ export function formatBytes(bytes: number, decimals = 2) {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm));
 }
 
+/**
+ * Creates a file from the contents of an MCP resource, to attach it like an uploaded file.
+ * Named after the last segment of the URI when it has an extension, otherwise after the resource.
+ */
+export function mcpResourceToFile(resource: TMCPResource, contents: TMCPResourceContents): File {
+  const type =
+    contents.mimeType ??
+    resource.mimeType ??
+    (contents.blob != null ? 'application/octet-stream' : 'text/plain');
+  const segment = decodeURIComponent(contents.uri.split(/[?#]/)[0].split('/').pop() ?? '');
+  const name = /\.\w+$/.test(segment) ? segment : resource.name || segment || 'resource';
+  if (contents.blob != null) {
+    return base64ToFile(contents.blob, name, type);
+  }
+  return new File([contents.text ?? ''], name, { type });
+}
+
+/** Creates a file from base64 encoded data, such as binary contents returned by MCP servers */
+export function base64ToFile(data: string, name: string, type: string): File {
+  return new File([Uint8Array.from(atob(data), (char) => char.charCodeAt(0))], name, { type });
+}
+
 const { checkType } = defaultFileConfig;
 
 export const validateFiles = ({
@@ -1,6 +1,7 @@
 import React from 'react';
 
 export * from './map';
+export * from './mcp';
 export * from './json';
 export * from './files';
 export * from './latex';
@@ -0,0 +1,44 @@
+import { formatMCPPromptMessages } from './mcp';
+
+describe('formatMCPPromptMessages', () => {
+  it('joins text and text resources of user messages', () => {
+    const { text, files } = formatMCPPromptMessages([
+      { role: 'user', content: { type: 'text', text: 'Review this file:' } },
+      {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: { uri: 'file:///app.ts', mimeType: 'text/plain', text: 'const a = 1;' },
+        },
+      },
+    ]);
+    expect(text).toBe('Review this file:\n\nfile:///app.ts:\n```\nconst a = 1;\n```');
+    expect(files).toHaveLength(0);
+  });
+
+  it('labels messages with their role when the prompt includes assistant messages', () => {
+    const { text } = formatMCPPromptMessages([
+      { role: 'user', content: { type: 'text', text: 'Hi' } },
+      { role: 'assistant', content: { type: 'text', text: 'Hello!' } },
+    ]);
+    expect(text).toBe('User: Hi\n\nAssistant: Hello!');
+  });
+
+  it('converts images and binary resources to files', () => {
+    const { text, files } = formatMCPPromptMessages([
+      { role: 'user', content: { type: 'image', data: 'aGk=', mimeType: 'image/png' } },
+      {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: { uri: 'file:///docs/report.pdf', mimeType: 'application/pdf', blob: 'aGk=' },
+        },
+      },
+    ]);
+    expect(text).toBe('');
+    expect(files.map((file) => [file.name, file.type, file.size])).toEqual([
+      ['image-1.png', 'image/png', 2],
+      ['report.pdf', 'application/pdf', 2],
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import type { TMCPPromptMessage } from 'librechat-data-provider';
+import { base64ToFile, mcpResourceToFile } from './files';
+
+const roleLabels: Record<TMCPPromptMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+/**
+ * Converts the messages of an MCP prompt (`prompts/get`) into a message to submit:
+ * text and text resources make up the text, images, audio and binary resources become files.
+ * Messages are labeled with their role when the prompt includes assistant messages.
+ */
+export function formatMCPPromptMessages(messages: TMCPPromptMessage[]): {
+  text: string;
+  files: File[];
+} {
+  const files: File[] = [];
+  const parts: string[] = [];
+  const labelRoles = messages.some((message) => message.role === 'assistant');
+
+  messages.forEach(({ role, content }, index) => {
+    let text = '';
+    if (content.type === 'text') {
+      text = content.text;
+    } else if (content.type === 'resource') {
+      const { resource } = content;
+      if (resource.text != null) {
+        text = `${resource.uri}:\n\`\`\`\n${resource.text}\n\`\`\``;
+      } else {
+        files.push(mcpResourceToFile({ uri: resource.uri, name: '', subscribed: false }, resource));
+      }
+    } else if (content.type === 'image' || content.type === 'audio') {
+      const extension = content.mimeType.split('/')[1]?.split(/[+;]/)[0] ?? 'bin';
+      files.push(
+        base64ToFile(content.data, `${content.type}-${index + 1}.${extension}`, content.mimeType),
+      );
+    }
+
+    if (!text) {
+      return;
+    }
+    parts.push(labelRoles ? `${roleLabels[role]}: ${text}` : text);
+  });
+
+  return { text: parts.join('\n\n'), files };
+}
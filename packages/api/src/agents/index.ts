@@ -1,5 +1,7 @@
 export * from './config';
 export * from './memory';
+export * from './memoryTransfer';
 export * from './resources';
 export * from './run';
+export * from './schedule';
 export * from './validation';
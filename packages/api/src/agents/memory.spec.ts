@@ -0,0 +1,134 @@
+import { getRelevantMemories, getMemoryEmbedding, createMemoryProcessor } from './memory';
+import type { Response as ServerResponse } from 'express';
+import type { IMemoryEntryLean } from '@librechat/data-schemas';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), debug: jest.fn(), warn: jest.fn() },
+}));
+
+/** Embeds texts by whether they mention each topic */
+const topics = ['coffee', 'python', 'dog'];
+const embed = jest.fn(async (texts: string[]) =>
+  texts.map((text) => topics.map((topic) => (text.includes(topic) ? 1 : 0))),
+);
+const embeddings = { model: 'test', embed };
+const retrieval = { mode: 'semantic' as const, topK: 2, threshold: 0.5 };
+
+const createMemory = (key: string, value: string, tokenCount = 10) =>
+  ({ _id: key, userId: 'user', key, value, tokenCount }) as unknown as IMemoryEntryLean;
+
+describe('getRelevantMemories', () => {
+  const setMemoryEmbedding = jest.fn(async () => ({ ok: true }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should retrieve the most similar memories above the threshold', async () => {
+    const memories = [
+      createMemory('drinks', 'Drinks coffee every morning'),
+      createMemory('work', 'Writes python and drinks coffee at work'),
+      createMemory('pets', 'Has a dog'),
+    ];
+
+    const relevant = await getRelevantMemories({
+      userId: 'user',
+      query: 'Which coffee should I buy?',
+      memories,
+      retrieval,
+      embeddings,
+      setMemoryEmbedding,
+    });
+
+    expect(relevant.map((memory) => memory.key)).toEqual(['drinks', 'work']);
+  });
+
+  it('should embed and store memories without embeddings of the current model', async () => {
+    const memories = [
+      { ...createMemory('pets', 'Has a dog'), embedding: [0, 0, 1], embeddingModel: 'test' },
+      { ...createMemory('drinks', 'Drinks coffee'), embedding: [1, 0, 0], embeddingModel: 'old' },
+    ];
+
+    await getRelevantMemories({
+      userId: 'user',
+      query: 'dog food',
+      memories,
+      retrieval,
+      embeddings,
+      setMemoryEmbedding,
+    });
+
+    expect(embed).toHaveBeenCalledWith(['dog food', 'Drinks coffee']);
+    expect(setMemoryEmbedding).toHaveBeenCalledTimes(1);
+    expect(setMemoryEmbedding).toHaveBeenCalledWith({
+      userId: 'user',
+      key: 'drinks',
+      scope: {},
+      embedding: [1, 0, 0],
+      embeddingModel: 'test',
+    });
+  });
+
+  it('should keep retrieved memories within the token limit', async () => {
+    const memories = [
+      createMemory('long', 'Drinks coffee, explained at length', 80),
+      createMemory('short', 'Likes coffee', 30),
+    ];
+
+    const relevant = await getRelevantMemories({
+      userId: 'user',
+      query: 'coffee',
+      memories,
+      retrieval,
+      embeddings,
+      tokenLimit: 50,
+      setMemoryEmbedding,
+    });
+
+    expect(relevant.map((memory) => memory.key)).toEqual(['short']);
+  });
+});
+
+describe('getMemoryEmbedding', () => {
+  it('should not embed without embeddings', async () => {
+    expect(await getMemoryEmbedding(undefined, 'value')).toEqual({});
+  });
+
+  it('should save memories without an embedding if embedding fails', async () => {
+    const failing = { model: 'test', embed: jest.fn().mockRejectedValue(new Error('down')) };
+    expect(await getMemoryEmbedding(failing, 'value')).toEqual({});
+    expect(await getMemoryEmbedding(embeddings, 'coffee')).toEqual({
+      embedding: [1, 0, 0],
+      embeddingModel: 'test',
+    });
+  });
+});
+
+describe('createMemoryProcessor', () => {
+  it('should only load the memories visible in the active scope', async () => {
+    const memoryMethods = {
+      setMemory: jest.fn(),
+      deleteMemory: jest.fn(),
+      setMemoryEmbedding: jest.fn(),
+      getAllUserMemories: jest.fn(),
+      getFormattedMemories: jest.fn(async () => ({
+        withKeys: '1. ["key": "language"]',
+        withoutKeys: '1. Prefers TypeScript',
+        totalTokens: 5,
+      })),
+    };
+    const scope = { agentId: 'agent_coder', projectIds: ['project'], conversationTags: ['work'] };
+
+    const [withoutKeys] = await createMemoryProcessor({
+      res: {} as ServerResponse,
+      userId: 'user',
+      scope,
+      messageId: 'message',
+      conversationId: 'convo',
+      memoryMethods,
+    });
+
+    expect(withoutKeys).toBe('1. Prefers TypeScript');
+    expect(memoryMethods.getFormattedMemories).toHaveBeenCalledWith({ userId: 'user', scope });
+  });
+});
@@ -11,17 +11,37 @@ import type {
   ToolEndData,
   LLMConfig,
 } from '@librechat/agents';
-import type { TAttachment, MemoryArtifact } from 'librechat-data-provider';
-import type { ObjectId, MemoryMethods } from '@librechat/data-schemas';
+import type { TAttachment, MemoryArtifact, TMemoryConfig } from 'librechat-data-provider';
+import type {
+  ObjectId,
+  MemoryScope,
+  MemorySource,
+  MemoryMethods,
+  IMemoryEntryLean,
+  ActiveMemoryScope,
+} from '@librechat/data-schemas';
 import type { BaseMessage } from '@langchain/core/messages';
 import type { Response as ServerResponse } from 'express';
-import { Tokenizer } from '~/utils';
+import type { EmbedTexts } from '~/mcp/toolRetrieval';
+import { Tokenizer, cosineSimilarity } from '~/utils';
 
 type RequiredMemoryMethods = Pick<
   MemoryMethods,
-  'setMemory' | 'deleteMemory' | 'getFormattedMemories'
+  | 'setMemory'
+  | 'deleteMemory'
+  | 'getFormattedMemories'
+  | 'getAllUserMemories'
+  | 'setMemoryEmbedding'
 >;
 
+export type MemoryRetrievalConfig = NonNullable<TMemoryConfig['retrieval']>;
+
+/** Embeddings API used to embed memories and the messages they are retrieved for */
+export interface MemoryEmbeddings {
+  model: string;
+  embed: EmbedTexts;
+}
+
 type ToolEndMetadata = Record<string, unknown> & {
   run_id?: string;
   thread_id?: string;
@@ -32,6 +52,10 @@ export interface MemoryConfig {
   instructions?: string;
   llmConfig?: Partial<LLMConfig>;
   tokenLimit?: number;
+  /** Retrieves the memories most similar to each message instead of all of them */
+  retrieval?: MemoryRetrievalConfig;
+  /** Required for semantic retrieval */
+  embeddings?: MemoryEmbeddings;
 }
 
 export const memoryInstructions =
@@ -68,6 +92,109 @@ const getDefaultInstructions = (
   If you're unsure whether to store something, DO NOT store it.
   If nothing needs to be stored, END THE TURN IMMEDIATELY.`;
 
+/**
+ * Embeds a memory value, resolving with no embedding if embeddings are not configured or fail;
+ * memories without embeddings are embedded when next retrieved
+ */
+export async function getMemoryEmbedding(
+  embeddings: MemoryEmbeddings | undefined,
+  value: string,
+): Promise<{ embedding?: number[]; embeddingModel?: string }> {
+  if (!embeddings) {
+    return {};
+  }
+  try {
+    const [embedding] = await embeddings.embed([value]);
+    return { embedding, embeddingModel: embeddings.model };
+  } catch (error) {
+    logger.error('Failed to embed memory', error);
+    return {};
+  }
+}
+
+/**
+ * Retrieves the memories most similar to a message: at most `topK` memories with a similarity of
+ * at least `threshold`, most similar first, within `tokenLimit` tokens if set.
+ * Memories without an embedding of the current model are embedded and updated.
+ */
+export async function getRelevantMemories({
+  userId,
+  query,
+  memories,
+  retrieval,
+  embeddings,
+  tokenLimit,
+  setMemoryEmbedding,
+}: {
+  userId: string | ObjectId;
+  query: string;
+  /** Memories of the user, with their embeddings */
+  memories: IMemoryEntryLean[];
+  retrieval: MemoryRetrievalConfig;
+  embeddings: MemoryEmbeddings;
+  tokenLimit?: number;
+  setMemoryEmbedding: MemoryMethods['setMemoryEmbedding'];
+}): Promise<IMemoryEntryLean[]> {
+  if (memories.length === 0 || !query.trim()) {
+    return [];
+  }
+
+  const missing = memories.filter(
+    (memory) => !memory.embedding?.length || memory.embeddingModel !== embeddings.model,
+  );
+  const [queryEmbedding, ...missingEmbeddings] = await embeddings.embed([
+    query,
+    ...missing.map((memory) => memory.value),
+  ]);
+  missing.forEach((memory, i) => {
+    memory.embedding = missingEmbeddings[i];
+    setMemoryEmbedding({
+      userId,
+      key: memory.key,
+      scope: getMemoryScope(memory),
+      embedding: missingEmbeddings[i],
+      embeddingModel: embeddings.model,
+    }).catch((error) => logger.error(`Failed to store embedding of memory "${memory.key}"`, error));
+  });
+
+  const ranked = memories
+    .map((memory) => ({ memory, score: cosineSimilarity(queryEmbedding, memory.embedding ?? []) }))
+    .filter(({ score }) => score >= retrieval.threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, retrieval.topK);
+
+  const relevant: IMemoryEntryLean[] = [];
+  let tokens = 0;
+  for (const { memory } of ranked) {
+    if (tokenLimit && tokens + (memory.tokenCount ?? 0) > tokenLimit) {
+      continue;
+    }
+    tokens += memory.tokenCount ?? 0;
+    relevant.push(memory);
+  }
+  return relevant;
+}
+
+/** Scope fields of a memory entry */
+export function getMemoryScope(memory: IMemoryEntryLean): MemoryScope {
+  return {
+    agentId: memory.agentId,
+    projectId: memory.projectId,
+    conversationTag: memory.conversationTag,
+  };
+}
+
+/** Scopes the memory tools can write to: global memories, or those of the current agent */
+const memoryScopeSchema = z
+  .enum(['global', 'agent'])
+  .optional()
+  .describe(
+    "'agent' for information only relevant to conversations with the current agent; 'global' (default) for information relevant to all agents",
+  );
+
+const getToolScope = (scope: 'global' | 'agent' | undefined, agentId?: string): MemoryScope =>
+  scope === 'agent' && agentId ? { agentId } : {};
+
 /**
  * Creates a memory tool instance with user context
  */
@@ -76,16 +203,25 @@ const createMemoryTool = ({
   setMemory,
   validKeys,
   tokenLimit,
-  totalTokens = 0,
+  totalTokens,
+  embeddings,
+  agentId,
+  source,
 }: {
   userId: string | ObjectId;
   setMemory: MemoryMethods['setMemory'];
   validKeys?: string[];
   tokenLimit?: number;
+  /** Tokens of all memories, limited to `tokenLimit`; omitted when memories are retrieved */
   totalTokens?: number;
+  embeddings?: MemoryEmbeddings;
+  /** The current agent, whose memories can be set with the `agent` scope */
+  agentId?: string;
+  /** Conversation and message recorded in the memory's history */
+  source?: MemorySource;
 }) => {
   return tool(
-    async ({ key, value }) => {
+    async ({ key, value, scope }: { key: string; value: string; scope?: 'global' | 'agent' }) => {
       try {
         if (validKeys && validKeys.length > 0 && !validKeys.includes(key)) {
           logger.warn(
@@ -105,7 +241,7 @@ const createMemoryTool = ({
           return `Memory value too large: ${tokenCount} tokens exceeds limit of ${tokenLimit}`;
         }
 
-        if (tokenLimit && totalTokens + tokenCount > tokenLimit) {
+        if (tokenLimit && totalTokens != null && totalTokens + tokenCount > tokenLimit) {
           const remainingCapacity = tokenLimit - totalTokens;
           logger.warn(
             `Memory Agent failed to set memory: Would exceed total token limit. Current usage: ${totalTokens}, new memory: ${tokenCount} tokens, limit: ${tokenLimit}`,
@@ -122,7 +258,16 @@ const createMemoryTool = ({
           },
         };
 
-        const result = await setMemory({ userId, key, value, tokenCount });
+        const embedding = await getMemoryEmbedding(embeddings, value);
+        const result = await setMemory({
+          userId,
+          key,
+          value,
+          tokenCount,
+          scope: getToolScope(scope, agentId),
+          source,
+          ...embedding,
+        });
         if (result.ok) {
           logger.debug(`Memory set for key "${key}" (${tokenCount} tokens) for user "${userId}"`);
           return [`Memory set for key "${key}" (${tokenCount} tokens)`, artifact];
@@ -151,6 +296,7 @@ const createMemoryTool = ({
           .describe(
             'Value MUST be a complete sentence that fully describes relevant user information.',
           ),
+        ...(agentId ? { scope: memoryScopeSchema } : {}),
       }),
     },
   );
@@ -163,13 +309,17 @@ const createDeleteMemoryTool = ({
   userId,
   deleteMemory,
   validKeys,
+  agentId,
+  source,
 }: {
   userId: string | ObjectId;
   deleteMemory: MemoryMethods['deleteMemory'];
   validKeys?: string[];
+  agentId?: string;
+  source?: MemorySource;
 }) => {
   return tool(
-    async ({ key }) => {
+    async ({ key, scope }: { key: string; scope?: 'global' | 'agent' }) => {
       try {
         if (validKeys && validKeys.length > 0 && !validKeys.includes(key)) {
           logger.warn(
@@ -187,7 +337,12 @@ const createDeleteMemoryTool = ({
           },
         };
 
-        const result = await deleteMemory({ userId, key });
+        const result = await deleteMemory({
+          userId,
+          key,
+          scope: getToolScope(scope, agentId),
+          source,
+        });
         if (result.ok) {
           logger.debug(`Memory deleted for key "${key}" for user "${userId}"`);
           return [`Memory deleted for key "${key}"`, artifact];
@@ -212,6 +367,7 @@ const createDeleteMemoryTool = ({
               ? `The key of the memory to delete. Must be one of: ${validKeys.join(', ')}`
               : 'The key identifier of the memory to delete',
           ),
+        ...(agentId ? { scope: memoryScopeSchema } : {}),
       }),
     },
   );
@@ -252,7 +408,9 @@ export async function processMemory({
   instructions,
   llmConfig,
   tokenLimit,
-  totalTokens = 0,
+  totalTokens,
+  embeddings,
+  agentId,
 }: {
   res: ServerResponse;
   setMemory: MemoryMethods['setMemory'];
@@ -265,22 +423,38 @@ export async function processMemory({
   validKeys?: string[];
   instructions: string;
   tokenLimit?: number;
+  /** Tokens of all memories, limited to `tokenLimit`; omitted when memories are retrieved */
   totalTokens?: number;
   llmConfig?: Partial<LLMConfig>;
+  embeddings?: MemoryEmbeddings;
+  /** The current agent, whose memories can be set and deleted in addition to global ones */
+  agentId?: string;
 }): Promise<(TAttachment | null)[] | undefined> {
   try {
-    const memoryTool = createMemoryTool({ userId, tokenLimit, setMemory, validKeys, totalTokens });
+    const source: MemorySource = { conversationId, messageId, agentId };
+    const memoryTool = createMemoryTool({
+      userId,
+      tokenLimit,
+      setMemory,
+      validKeys,
+      totalTokens,
+      embeddings,
+      agentId,
+      source,
+    });
     const deleteMemoryTool = createDeleteMemoryTool({
       userId,
       validKeys,
       deleteMemory,
+      agentId,
+      source,
     });
 
     const currentMemoryTokens = totalTokens;
 
     let memoryStatus = `# Existing memory:\n${memory ?? 'No existing memories'}`;
 
-    if (tokenLimit) {
+    if (tokenLimit && currentMemoryTokens != null) {
       const remainingTokens = tokenLimit - currentMemoryTokens;
       memoryStatus = `# Memory Status:
 Current memory usage: ${currentMemoryTokens} tokens
@@ -353,9 +527,71 @@ ${memory ?? 'No existing memories'}`;
   }
 }
 
+/**
+ * Formats the memories given to the agent and the memory agent: all of the user's memories
+ * visible in the active scope, or with semantic retrieval, those relevant to the message
+ * and the keys of the others.
+ */
+async function getMemoryContext({
+  userId,
+  query,
+  scope,
+  config,
+  memoryMethods,
+}: {
+  userId: string | ObjectId;
+  query?: string;
+  scope?: ActiveMemoryScope;
+  config: MemoryConfig;
+  memoryMethods: RequiredMemoryMethods;
+}): Promise<{ withKeys: string; withoutKeys: string; totalTokens?: number }> {
+  const { retrieval, embeddings, tokenLimit } = config;
+  if (retrieval?.mode !== 'semantic' || !embeddings) {
+    const formatted = await memoryMethods.getFormattedMemories({ userId, scope });
+    return { ...formatted, totalTokens: formatted.totalTokens ?? 0 };
+  }
+
+  const memories = await memoryMethods.getAllUserMemories(userId, {
+    withEmbeddings: true,
+    scope,
+  });
+  let relevant: IMemoryEntryLean[] = [];
+  try {
+    relevant = await getRelevantMemories({
+      userId,
+      memories,
+      retrieval,
+      embeddings,
+      tokenLimit,
+      query: query ?? '',
+      setMemoryEmbedding: memoryMethods.setMemoryEmbedding,
+    });
+  } catch (error) {
+    logger.error('Failed to retrieve relevant memories', error);
+  }
+
+  const relevantIds = new Set(relevant.map((memory) => memory._id.toString()));
+  const { withKeys, withoutKeys } =
+    relevant.length > 0
+      ? await memoryMethods.getFormattedMemories({ userId, memoryIds: [...relevantIds] })
+      : { withKeys: '', withoutKeys: '' };
+  const otherKeys = memories
+    .filter((memory) => !relevantIds.has(memory._id.toString()))
+    .map((memory) => memory.key);
+
+  return {
+    withoutKeys,
+    withKeys: otherKeys.length
+      ? `${withKeys || 'No memories relevant to the current chat'}\n\n# Keys of other memories:\n${otherKeys.join(', ')}`
+      : withKeys,
+  };
+}
+
 export async function createMemoryProcessor({
   res,
   userId,
+  query,
+  scope,
   messageId,
   memoryMethods,
   conversationId,
@@ -365,14 +601,22 @@ export async function createMemoryProcessor({
   messageId: string;
   conversationId: string;
   userId: string | ObjectId;
+  /** The current message, which memories are retrieved for with semantic retrieval */
+  query?: string;
+  /** Restricts memories to global ones and those of the active agent, projects and tags */
+  scope?: ActiveMemoryScope;
   memoryMethods: RequiredMemoryMethods;
   config?: MemoryConfig;
 }): Promise<[string, (messages: BaseMessage[]) => Promise<(TAttachment | null)[] | undefined>]> {
   const { validKeys, instructions, llmConfig, tokenLimit } = config;
   const finalInstructions = instructions || getDefaultInstructions(validKeys, tokenLimit);
 
-  const { withKeys, withoutKeys, totalTokens } = await memoryMethods.getFormattedMemories({
+  const { withKeys, withoutKeys, totalTokens } = await getMemoryContext({
     userId,
+    query,
+    scope,
+    config,
+    memoryMethods,
   });
 
   return [
@@ -388,9 +632,11 @@ export async function createMemoryProcessor({
           messageId,
           tokenLimit,
           conversationId,
+          totalTokens,
           memory: withKeys,
-          totalTokens: totalTokens || 0,
           instructions: finalInstructions,
+          embeddings: config.retrieval?.mode === 'semantic' ? config.embeddings : undefined,
+          agentId: scope?.agentId,
           setMemory: memoryMethods.setMemory,
           deleteMemory: memoryMethods.deleteMemory,
         });
@@ -0,0 +1,135 @@
+import { exportMemories, parseMemoriesImport, validateMemoriesImport } from './memoryTransfer';
+import type { IMemoryEntryLean } from '@librechat/data-schemas';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), debug: jest.fn(), warn: jest.fn() },
+}));
+
+jest.mock('~/utils', () => ({
+  Tokenizer: { getTokenCount: (text: string) => text.split(' ').length },
+}));
+
+const createMemory = (key: string, value: string, scope: Partial<IMemoryEntryLean> = {}) =>
+  ({
+    _id: key,
+    userId: 'user',
+    key,
+    value,
+    tokenCount: value.split(' ').length,
+    updated_at: new Date('2026-01-01T00:00:00.000Z'),
+    ...scope,
+  }) as unknown as IMemoryEntryLean;
+
+const memories = [
+  createMemory('language', 'Prefers TypeScript'),
+  createMemory('style', 'Likes short answers', { agentId: 'agent_coder', conversationTag: 'work' }),
+];
+
+describe('exportMemories', () => {
+  it('should export memories as JSON that can be imported again', () => {
+    const content = exportMemories(memories, 'json', new Date('2026-02-01T00:00:00.000Z'));
+    expect(JSON.parse(content)).toMatchObject({
+      version: 1,
+      exportedAt: '2026-02-01T00:00:00.000Z',
+    });
+    expect(parseMemoriesImport(content, 'json')).toEqual([
+      {
+        key: 'language',
+        value: 'Prefers TypeScript',
+        agentId: null,
+        projectId: null,
+        conversationTag: null,
+        updated_at: '2026-01-01T00:00:00.000Z',
+      },
+      {
+        key: 'style',
+        value: 'Likes short answers',
+        agentId: 'agent_coder',
+        projectId: null,
+        conversationTag: 'work',
+        updated_at: '2026-01-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should export memories as Markdown that can be imported again', () => {
+    const content = exportMemories(memories, 'markdown');
+    expect(content).toBe(
+      '# Memories\n\n## language\n\nPrefers TypeScript\n\n' +
+        '## style\n_Scope: agent=agent_coder, tag=work_\n\nLikes short answers\n',
+    );
+    expect(parseMemoriesImport(content, 'markdown')).toEqual([
+      {
+        key: 'language',
+        value: 'Prefers TypeScript',
+        agentId: null,
+        projectId: null,
+        conversationTag: null,
+      },
+      {
+        key: 'style',
+        value: 'Likes short answers',
+        agentId: 'agent_coder',
+        projectId: null,
+        conversationTag: 'work',
+      },
+    ]);
+  });
+});
+
+describe('parseMemoriesImport', () => {
+  it('should reject files that are not memory exports', () => {
+    expect(() => parseMemoriesImport('{', 'json')).toThrow('Invalid JSON');
+    expect(() => parseMemoriesImport('{"memories": [{"key": 1}]}', 'json')).toThrow(
+      'Invalid memories file',
+    );
+    expect(() => parseMemoriesImport('Just some notes', 'markdown')).toThrow(
+      'Invalid memories file',
+    );
+  });
+});
+
+describe('validateMemoriesImport', () => {
+  it('should skip invalid keys, repeated keys and values over the token limit', () => {
+    const entries = parseMemoriesImport(
+      JSON.stringify([
+        { key: 'language', value: 'Prefers Rust' },
+        { key: 'language', value: 'Prefers Go' },
+        { key: 'pets', value: 'Has a dog' },
+        { key: 'style', value: 'Likes very long and detailed answers' },
+      ]),
+      'json',
+    );
+
+    const result = validateMemoriesImport({
+      entries,
+      memories,
+      validKeys: ['language', 'style'],
+      tokenLimit: 4,
+    });
+
+    expect(result.valid.map(({ key, tokenCount }) => ({ key, tokenCount }))).toEqual([
+      { key: 'language', tokenCount: 2 },
+    ]);
+    expect(result.skipped).toEqual([
+      { key: 'language', reason: 'duplicate' },
+      { key: 'pets', reason: 'invalid_key' },
+      { key: 'style', reason: 'value_too_long' },
+    ]);
+  });
+
+  it('should keep the total tokens within the limit, replacing memories of the same scope', () => {
+    const entries = parseMemoriesImport(
+      JSON.stringify([
+        { key: 'language', value: 'Prefers TypeScript and Rust' },
+        { key: 'pets', value: 'Has a dog' },
+      ]),
+      'json',
+    );
+
+    const result = validateMemoriesImport({ entries, memories, tokenLimit: 9, limitTotal: true });
+
+    expect(result.valid.map(({ key }) => key)).toEqual(['language']);
+    expect(result.skipped).toEqual([{ key: 'pets', reason: 'token_limit' }]);
+  });
+});
@@ -0,0 +1,208 @@
+/** Memory import and export */
+import { z } from 'zod';
+import type { MemoryScope, IMemoryEntryLean } from '@librechat/data-schemas';
+import { Tokenizer } from '~/utils';
+
+export type MemoryTransferFormat = 'json' | 'markdown';
+
+/** A memory as it is exported and imported, without ids and embeddings */
+export interface MemoryTransferEntry extends MemoryScope {
+  key: string;
+  value: string;
+  updated_at?: string;
+}
+
+export type MemoryImportSkipReason = 'invalid_key' | 'duplicate' | 'value_too_long' | 'token_limit';
+
+export interface MemoryImportResult {
+  valid: Array<MemoryTransferEntry & { tokenCount: number }>;
+  skipped: Array<{ key: string; reason: MemoryImportSkipReason }>;
+}
+
+const scopeField = z
+  .string()
+  .nullish()
+  .transform((value) => value?.trim() || null);
+
+const memoryTransferEntrySchema = z.object({
+  key: z.string().trim().min(1),
+  value: z.string().trim().min(1),
+  agentId: scopeField,
+  projectId: scopeField,
+  conversationTag: scopeField,
+  updated_at: z.string().optional(),
+});
+
+const memoryTransferSchema = z.union([
+  z.array(memoryTransferEntrySchema),
+  z.object({ memories: z.array(memoryTransferEntrySchema) }).transform(({ memories }) => memories),
+]);
+
+/** Scope fields of the Markdown format, e.g. `_Scope: agent=agent_abc, tag=work_` */
+const scopeFields = [
+  ['agent', 'agentId'],
+  ['project', 'projectId'],
+  ['tag', 'conversationTag'],
+] as const;
+
+const scopeLinePattern = /^_Scope: (.*)_$/;
+
+const getScopeKey = (memory: MemoryScope & { key: string }) =>
+  [memory.key, memory.agentId || '', memory.projectId || '', memory.conversationTag || ''].join(
+    '\u0000',
+  );
+
+const toTransferEntry = (memory: IMemoryEntryLean): MemoryTransferEntry => ({
+  key: memory.key,
+  value: memory.value,
+  agentId: memory.agentId || null,
+  projectId: memory.projectId || null,
+  conversationTag: memory.conversationTag || null,
+  updated_at: memory.updated_at ? new Date(memory.updated_at).toISOString() : undefined,
+});
+
+/** Serializes memories as JSON or Markdown, both of which `parseMemoriesImport` reads back */
+export function exportMemories(
+  memories: IMemoryEntryLean[],
+  format: MemoryTransferFormat,
+  exportedAt = new Date(),
+): string {
+  const entries = memories.map(toTransferEntry);
+  if (format === 'json') {
+    return JSON.stringify(
+      { version: 1, exportedAt: exportedAt.toISOString(), memories: entries },
+      null,
+      2,
+    );
+  }
+
+  const sections = entries.map((entry) => {
+    const scope = scopeFields
+      .filter(([, field]) => entry[field])
+      .map(([name, field]) => `${name}=${entry[field]}`);
+    return [
+      `## ${entry.key}`,
+      ...(scope.length ? [`_Scope: ${scope.join(', ')}_`] : []),
+      '',
+      entry.value,
+    ]
+      .join('\n')
+      .trim();
+  });
+  return [`# Memories`, ...sections].join('\n\n') + '\n';
+}
+
+/**
+ * Parses memories exported by `exportMemories`.
+ * @throws {Error} If the content is not a valid export
+ */
+export function parseMemoriesImport(
+  content: string,
+  format: MemoryTransferFormat,
+): MemoryTransferEntry[] {
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('Invalid JSON');
+    }
+    const parsed = memoryTransferSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error('Invalid memories file');
+    }
+    return parsed.data;
+  }
+
+  const entries: MemoryTransferEntry[] = [];
+  const sections = content.replace(/\r\n/g, '\n').split(/^## /m).slice(1);
+  for (const section of sections) {
+    const [heading, ...lines] = section.split('\n');
+    const entry: MemoryTransferEntry = {
+      key: heading.trim(),
+      value: '',
+      agentId: null,
+      projectId: null,
+      conversationTag: null,
+    };
+    const scopeMatch = lines[0]?.trim().match(scopeLinePattern);
+    if (scopeMatch) {
+      lines.shift();
+      for (const part of scopeMatch[1].split(',')) {
+        const [name, ...rest] = part.split('=');
+        const field = scopeFields.find(([fieldName]) => fieldName === name.trim())?.[1];
+        if (field) {
+          entry[field] = rest.join('=').trim() || null;
+        }
+      }
+    }
+    entry.value = lines.join('\n').trim();
+    if (entry.key && entry.value) {
+      entries.push(entry);
+    }
+  }
+
+  if (!entries.length && content.trim()) {
+    throw new Error('Invalid memories file');
+  }
+  return entries;
+}
+
+/**
+ * Splits imported memories into those that can be saved and those that cannot: keys not in
+ * `validKeys`, repeated keys of a scope, values over `tokenLimit` and, when `limitTotal` is set,
+ * memories that would take all memories over `tokenLimit`. Imported memories replace the
+ * existing ones of the same key and scope.
+ */
+export function validateMemoriesImport({
+  entries,
+  memories,
+  validKeys,
+  tokenLimit,
+  limitTotal = false,
+}: {
+  entries: MemoryTransferEntry[];
+  /** Existing memories of the user */
+  memories: IMemoryEntryLean[];
+  validKeys?: string[];
+  tokenLimit?: number;
+  limitTotal?: boolean;
+}): MemoryImportResult {
+  const result: MemoryImportResult = { valid: [], skipped: [] };
+  const existingTokens = new Map(
+    memories.map((memory) => [getScopeKey(memory), memory.tokenCount || 0]),
+  );
+  let totalTokens = memories.reduce((sum, memory) => sum + (memory.tokenCount || 0), 0);
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const scopeKey = getScopeKey(entry);
+    if (validKeys && validKeys.length > 0 && !validKeys.includes(entry.key)) {
+      result.skipped.push({ key: entry.key, reason: 'invalid_key' });
+      continue;
+    }
+    if (seen.has(scopeKey)) {
+      result.skipped.push({ key: entry.key, reason: 'duplicate' });
+      continue;
+    }
+    seen.add(scopeKey);
+
+    const tokenCount = Tokenizer.getTokenCount(entry.value, 'o200k_base');
+    if (tokenLimit && tokenCount > tokenLimit) {
+      result.skipped.push({ key: entry.key, reason: 'value_too_long' });
+      continue;
+    }
+
+    const nextTotal = totalTokens - (existingTokens.get(scopeKey) ?? 0) + tokenCount;
+    if (limitTotal && tokenLimit && nextTotal > tokenLimit) {
+      result.skipped.push({ key: entry.key, reason: 'token_limit' });
+      continue;
+    }
+
+    totalTokens = nextTotal;
+    existingTokens.set(scopeKey, tokenCount);
+    result.valid.push({ ...entry, tokenCount });
+  }
+
+  return result;
+}
@@ -0,0 +1,74 @@
+import {
+  getRetryDate,
+  getNextRunDate,
+  getNextCronDate,
+  parseCronExpression,
+  validateScheduleTiming,
+} from './schedule';
+
+const from = new Date('2026-03-04T10:15:30.000Z'); // Wednesday
+
+describe('parseCronExpression', () => {
+  it('should parse ranges, steps, lists and names', () => {
+    const cron = parseCronExpression('*/15 9-17 1,15 jan-mar mon-fri');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('Invalid cron step');
+    expect(() => parseCronExpression('* * * * someday')).toThrow('Invalid cron value');
+  });
+});
+
+describe('getNextCronDate', () => {
+  it('should find the next matching minute in UTC', () => {
+    expect(getNextCronDate('0 8 * * *', from).toISOString()).toBe('2026-03-05T08:00:00.000Z');
+    expect(getNextCronDate('*/20 * * * *', from).toISOString()).toBe('2026-03-04T10:20:00.000Z');
+    expect(getNextCronDate('30 9 * * 1', from).toISOString()).toBe('2026-03-09T09:30:00.000Z');
+    expect(getNextCronDate('0 0 1 * *', from).toISOString()).toBe('2026-04-01T00:00:00.000Z');
+  });
+
+  it('should match either the day of the month or of the week when both are set', () => {
+    expect(getNextCronDate('0 12 20 * 5', from).toISOString()).toBe('2026-03-06T12:00:00.000Z');
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect(getNextCronDate('0 6 * * 7', from).toISOString()).toBe('2026-03-08T06:00:00.000Z');
+  });
+
+  it('should fail for expressions that never match', () => {
+    expect(() => getNextCronDate('0 0 31 2 *', from)).toThrow('never matches');
+  });
+});
+
+describe('validateScheduleTiming', () => {
+  it('should require exactly one valid cron expression or interval', () => {
+    expect(validateScheduleTiming({ cron: '0 8 * * *' })).toBeNull();
+    expect(validateScheduleTiming({ intervalMinutes: 60 })).toBeNull();
+    expect(validateScheduleTiming({})).toBe('A cron expression or an interval is required');
+    expect(validateScheduleTiming({ cron: '0 8 * * *', intervalMinutes: 60 })).toBe(
+      'Set either a cron expression or an interval, not both',
+    );
+    expect(validateScheduleTiming({ intervalMinutes: 0.5 })).toContain('whole number');
+    expect(validateScheduleTiming({ cron: 'daily' })).toContain('5 fields');
+  });
+});
+
+describe('getNextRunDate', () => {
+  it('should add the interval to the last run', () => {
+    expect(getNextRunDate({ intervalMinutes: 90 }, from).toISOString()).toBe(
+      '2026-03-04T11:45:30.000Z',
+    );
+  });
+
+  it('should back off retries exponentially', () => {
+    expect(getRetryDate(0, from).toISOString()).toBe('2026-03-04T10:20:30.000Z');
+    expect(getRetryDate(2, from).toISOString()).toBe('2026-03-04T10:35:30.000Z');
+  });
+});
@@ -0,0 +1,195 @@
+/** Scheduled agent runs */
+
+/** When a scheduled agent runs: a cron expression, evaluated in UTC, or a fixed interval */
+export interface AgentScheduleTiming {
+  cron?: string | null;
+  intervalMinutes?: number | null;
+}
+
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const cronFields: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  {
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  { min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/** Allowed values of each field of a cron expression */
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether days of the month or of the week are restricted; if both are, either may match */
+  restrictsDays: boolean;
+  restrictsWeekdays: boolean;
+}
+
+/** Searches at most this far ahead for the next run of a cron expression */
+const MAX_CRON_SEARCH_DAYS = 366 * 5;
+
+/** Delay before the first retry of a failed run, doubled on each further retry */
+const RETRY_BASE_MINUTES = 5;
+
+function parseCronValue(value: string, field: CronField): number {
+  const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = index >= 0 ? index + (field.min === 1 ? 1 : 0) : Number(value);
+  if (!/^\d+$/.test(value) && index < 0) {
+    throw new Error(`Invalid cron value "${value}"`);
+  }
+  if (number < field.min || number > field.max) {
+    throw new Error(`Cron value ${value} is out of range ${field.min}-${field.max}`);
+  }
+  return number;
+}
+
+function parseCronField(expression: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of expression.split(',')) {
+    const [range, stepValue] = part.split('/');
+    const step = stepValue == null ? 1 : Number(stepValue);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseCronValue(from, field);
+      if (to != null) {
+        end = parseCronValue(to, field);
+      } else if (stepValue == null) {
+        end = start;
+      }
+    }
+    if (start > end) {
+      throw new Error(`Invalid cron range "${part}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a standard 5-field cron expression (minute, hour, day of month, month, day of week),
+ * with `*`, ranges, steps, lists and three-letter month and day names.
+ * @throws {Error} If the expression is not valid
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== cronFields.length) {
+    throw new Error('Cron expressions must have 5 fields');
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+    parseCronField(part, cronFields[i]),
+  );
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    restrictsDays: parts[2] !== '*',
+    restrictsWeekdays: parts[4] !== '*',
+  };
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dayMatches = cron.days.has(date.getUTCDate());
+  const weekdayMatches = cron.weekdays.has(date.getUTCDay());
+  if (cron.restrictsDays && cron.restrictsWeekdays) {
+    return dayMatches || weekdayMatches;
+  }
+  return dayMatches && weekdayMatches;
+}
+
+/** The first time after `from` matching a cron expression, in UTC */
+export function getNextCronDate(expression: string, from = new Date()): Date {
+  const cron = parseCronExpression(expression);
+  const date = new Date(from);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = from.getTime() + MAX_CRON_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+/**
+ * Validates the timing of a schedule: exactly one of a cron expression or a whole number of
+ * minutes of at least 1.
+ * @returns An error message, or `null` if the timing is valid
+ */
+export function validateScheduleTiming({
+  cron,
+  intervalMinutes,
+}: AgentScheduleTiming): string | null {
+  if (cron && intervalMinutes != null) {
+    return 'Set either a cron expression or an interval, not both';
+  }
+  if (cron) {
+    try {
+      getNextCronDate(cron);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid cron expression';
+    }
+  }
+  if (intervalMinutes == null) {
+    return 'A cron expression or an interval is required';
+  }
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1) {
+    return 'The interval must be a whole number of minutes of at least 1';
+  }
+  return null;
+}
+
+/** The next time a schedule runs after `from` */
+export function getNextRunDate(timing: AgentScheduleTiming, from = new Date()): Date {
+  if (timing.cron) {
+    return getNextCronDate(timing.cron, from);
+  }
+  return new Date(from.getTime() + (timing.intervalMinutes ?? 0) * 60 * 1000);
+}
+
+/** When to retry a failed run, backing off exponentially from 5 minutes */
+export function getRetryDate(retryCount: number, from = new Date()): Date {
+  return new Date(from.getTime() + RETRY_BASE_MINUTES * 2 ** retryCount * 60 * 1000);
+}
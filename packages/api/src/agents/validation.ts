@@ -40,6 +40,7 @@ export const agentBaseSchema = z.object({
   hide_sequential_outputs: z.boolean().optional(),
   artifacts: z.string().optional(),
   recursion_limit: z.number().optional(),
+  mcp_tool_retrieval: z.number().int().nonnegative().optional(),
   conversation_starters: z.array(z.string()).optional(),
   tool_resources: agentToolResourcesSchema,
 });
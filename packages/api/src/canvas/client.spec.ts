@@ -0,0 +1,194 @@
+import { CanvasClient, parseLinkHeader } from './client';
+import { createAxiosInstance } from '~/utils/axios';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { warn: jest.fn(), error: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('~/utils/axios', () => ({
+  createAxiosInstance: jest.fn(),
+}));
+
+const BASE_URL = 'https://canvas.example.edu';
+
+function createAxiosError(status: number, headers: Record<string, string> = {}, data?: unknown) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, headers, data },
+  });
+}
+
+describe('parseLinkHeader', () => {
+  it('parses every relation in a Canvas Link header', () => {
+    const header =
+      `<${BASE_URL}/api/v1/courses?page=2&per_page=100>; rel="current",` +
+      `<${BASE_URL}/api/v1/courses?page=3&per_page=100>; rel="next",` +
+      `<${BASE_URL}/api/v1/courses?page=1&per_page=100>; rel="first"`;
+    expect(parseLinkHeader(header)).toEqual({
+      current: `${BASE_URL}/api/v1/courses?page=2&per_page=100`,
+      next: `${BASE_URL}/api/v1/courses?page=3&per_page=100`,
+      first: `${BASE_URL}/api/v1/courses?page=1&per_page=100`,
+    });
+  });
+
+  it('returns an empty map without a header', () => {
+    expect(parseLinkHeader(undefined)).toEqual({});
+  });
+});
+
+describe('CanvasClient', () => {
+  let request: jest.Mock;
+  let post: jest.Mock;
+  let client: CanvasClient;
+
+  beforeEach(() => {
+    request = jest.fn();
+    post = jest.fn();
+    (createAxiosInstance as jest.Mock).mockReturnValue({ request, post, get: jest.fn() });
+    client = new CanvasClient({ baseURL: `${BASE_URL}/`, accessToken: 'token' });
+  });
+
+  it('sends the access token with each request', async () => {
+    request.mockResolvedValue({ data: { id: 1 }, headers: {} });
+    await client.getCourse(1);
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'GET',
+        url: `${BASE_URL}/api/v1/courses/1`,
+        headers: { Authorization: 'Bearer token' },
+      }),
+    );
+  });
+
+  it('follows Link header pagination', async () => {
+    const nextUrl = `${BASE_URL}/api/v1/courses/1/modules?page=2&per_page=100`;
+    request
+      .mockResolvedValueOnce({ data: [{ id: 1 }], headers: { link: `<${nextUrl}>; rel="next"` } })
+      .mockResolvedValueOnce({ data: [{ id: 2 }], headers: {} });
+
+    const modules = await client.listModules(1);
+
+    expect(modules).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[0][0]).toMatchObject({
+      url: `${BASE_URL}/api/v1/courses/1/modules`,
+      params: { per_page: 100 },
+    });
+    expect(request.mock.calls[1][0]).toMatchObject({ url: nextUrl, params: undefined });
+  });
+
+  it('stops paginating after maxPages', async () => {
+    client = new CanvasClient({ baseURL: BASE_URL, accessToken: 'token', maxPages: 2 });
+    request.mockResolvedValue({
+      data: [{ id: 1 }],
+      headers: { link: `<${BASE_URL}/api/v1/courses?page=next>; rel="next"` },
+    });
+
+    const courses = await client.listCourses();
+
+    expect(courses).toHaveLength(2);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries when Canvas throttles the request', async () => {
+    request
+      .mockRejectedValueOnce(
+        createAxiosError(
+          403,
+          { 'x-rate-limit-remaining': '0', 'retry-after': '0' },
+          '403 Forbidden (Rate Limit Exceeded)',
+        ),
+      )
+      .mockResolvedValueOnce({ data: { id: 7 }, headers: {} });
+
+    await expect(client.getFile(7)).resolves.toEqual({ id: 7 });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries server errors up to maxRetries', async () => {
+    client = new CanvasClient({ baseURL: BASE_URL, accessToken: 'token', maxRetries: 2 });
+    request.mockRejectedValue(createAxiosError(503, { 'retry-after': '0' }));
+
+    await expect(client.getFile(7)).rejects.toThrow('503');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries requests creating content only when throttled', async () => {
+    request.mockRejectedValueOnce(createAxiosError(503, { 'retry-after': '0' }));
+    await expect(client.createPage(1, { title: 'Syllabus', body: '' })).rejects.toThrow('503');
+    expect(request).toHaveBeenCalledTimes(1);
+
+    request.mockReset();
+    request.mockRejectedValueOnce(
+      Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' }),
+    );
+    await expect(client.createPage(1, { title: 'Syllabus', body: '' })).rejects.toThrow('timeout');
+    expect(request).toHaveBeenCalledTimes(1);
+
+    request.mockReset();
+    request
+      .mockRejectedValueOnce(createAxiosError(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce({ data: { page_id: 3 }, headers: {} });
+    await expect(client.createPage(1, { title: 'Syllabus', body: '' })).resolves.toEqual({
+      page_id: 3,
+    });
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[0][0]).toMatchObject({ method: 'POST' });
+  });
+
+  it('does not retry authorization errors', async () => {
+    request.mockRejectedValue(createAxiosError(401));
+
+    await expect(client.getFile(7)).rejects.toThrow('401');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('scopes announcements to the given courses', async () => {
+    request.mockResolvedValue({ data: [], headers: {} });
+    await client.listAnnouncements([1, 2]);
+    expect(request.mock.calls[0][0]).toMatchObject({
+      url: `${BASE_URL}/api/v1/announcements`,
+      params: { per_page: 100, context_codes: ['course_1', 'course_2'] },
+    });
+  });
+
+  it('removes a course from the favorites with a DELETE request', async () => {
+    request.mockResolvedValue({ data: { context_id: 3, context_type: 'Course' }, headers: {} });
+    await client.removeFavoriteCourse(3);
+    expect(request.mock.calls[0][0]).toMatchObject({
+      method: 'DELETE',
+      url: `${BASE_URL}/api/v1/users/self/favorites/courses/3`,
+    });
+  });
+
+  it('uploads files in three steps, confirming redirected uploads', async () => {
+    const confirmUrl = `${BASE_URL}/api/v1/files/9/create_success?uuid=abc`;
+    request
+      .mockResolvedValueOnce({
+        data: { upload_url: 'https://uploads.example.com', upload_params: { key: 'abc' } },
+        headers: {},
+      })
+      .mockResolvedValueOnce({ data: { id: 9, display_name: 'notes.md' }, headers: {} });
+    post.mockResolvedValue({ status: 302, headers: { location: confirmUrl }, data: '' });
+
+    const file = await client.uploadCourseFile(
+      1,
+      { name: 'notes.md', content_type: 'text/markdown', parent_folder_path: 'LibreChat' },
+      Buffer.from('# Notes'),
+    );
+
+    expect(request.mock.calls[0][0]).toMatchObject({
+      method: 'POST',
+      url: `${BASE_URL}/api/v1/courses/1/files`,
+      data: expect.objectContaining({ name: 'notes.md', size: 7 }),
+    });
+    expect(post).toHaveBeenCalledWith(
+      'https://uploads.example.com',
+      expect.anything(),
+      expect.objectContaining({ maxRedirects: 0 }),
+    );
+    expect(post.mock.calls[0][2].headers.Authorization).toBeUndefined();
+    expect(request.mock.calls[1][0]).toMatchObject({ method: 'GET', url: confirmUrl });
+    expect(file).toEqual({ id: 9, display_name: 'notes.md' });
+  });
+});
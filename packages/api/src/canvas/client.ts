@@ -0,0 +1,411 @@
+import FormData from 'form-data';
+import { logger } from '@librechat/data-schemas';
+import type { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import type {
+  Course,
+  CanvasFavorite,
+  Module,
+  ModuleItem,
+  CanvasPage,
+  CanvasFile,
+  CanvasQuiz,
+  CanvasQuizQuestion,
+  CanvasAssignment,
+  CanvasEnrollment,
+  CanvasSubmission,
+  CanvasAnnouncement,
+  CanvasDiscussionView,
+  CanvasDiscussionTopic,
+} from 'librechat-data-provider';
+import type * as t from '~/types/canvas';
+import { createAxiosInstance } from '~/utils/axios';
+
+const DEFAULT_PER_PAGE = 100;
+const DEFAULT_MAX_PAGES = 50;
+const DEFAULT_MAX_RETRIES = 3;
+/** Canvas refills each token's request bucket over time; slow down once it runs low */
+const RATE_LIMIT_THRESHOLD = 100;
+const RATE_LIMIT_DELAY = 1000;
+
+const backoffDelay = (attempt: number) => Math.min(1000 * Math.pow(2, attempt), 30000);
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses an RFC 8288 `Link` header into a map of relation to URL.
+ * @param header - The raw `Link` header value.
+ * @returns A map such as `{ next: 'https://…', last: 'https://…' }`.
+ */
+export function parseLinkHeader(header?: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) {
+      links[match[2].trim()] = match[1];
+    }
+  }
+  return links;
+}
+
+/** Whether Canvas refused a request for throttling (`429`, or `403` with an exhausted bucket) */
+function isRateLimited(error: AxiosError): boolean {
+  const response = error.response;
+  if (!response) {
+    return false;
+  }
+  if (response.status === 429) {
+    return true;
+  }
+  if (response.status !== 403) {
+    return false;
+  }
+  const remaining = parseFloat(String(response.headers?.['x-rate-limit-remaining'] ?? ''));
+  const body = typeof response.data === 'string' ? response.data : '';
+  return (!isNaN(remaining) && remaining <= 0) || body.includes('Rate Limit Exceeded');
+}
+
+/**
+ * Whether a failed request should be retried. Throttled requests were not processed and are
+ * always retried; network and server errors only for idempotent methods, as Canvas may have
+ * created the content of a `POST` before failing or timing out.
+ */
+function isRetryable(error: AxiosError, method: string): boolean {
+  if (isRateLimited(error)) {
+    return true;
+  }
+  if (method === 'POST') {
+    return false;
+  }
+  const response = error.response;
+  if (!response) {
+    return error.code !== 'ERR_CANCELED';
+  }
+  return response.status >= 500;
+}
+
+/**
+ * Typed client for the Canvas LMS REST API.
+ *
+ * List endpoints follow `Link` header pagination, requests are retried with exponential
+ * backoff when throttled or, unless they create content, failing, and requests slow down as
+ * `X-Rate-Limit-Remaining` runs low.
+ */
+export class CanvasClient {
+  private readonly axios: AxiosInstance;
+  private readonly baseURL: string;
+  private readonly accessToken: string;
+  private readonly perPage: number;
+  private readonly maxPages: number;
+  private readonly maxRetries: number;
+  private rateLimitRemaining: number | null = null;
+
+  constructor(options: t.CanvasClientOptions) {
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.accessToken = options.accessToken;
+    this.perPage = options.perPage ?? DEFAULT_PER_PAGE;
+    this.maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.axios = createAxiosInstance();
+  }
+
+  private async request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    let attempt = 0;
+    while (true) {
+      if (this.rateLimitRemaining != null && this.rateLimitRemaining < RATE_LIMIT_THRESHOLD) {
+        await sleep(RATE_LIMIT_DELAY);
+      }
+
+      try {
+        const response = await this.axios.request<T>({
+          ...config,
+          headers: { Authorization: `Bearer ${this.accessToken}`, ...config.headers },
+        });
+        this.updateRateLimit(response.headers);
+        return response;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        this.updateRateLimit(axiosError.response?.headers);
+        const method = (config.method ?? 'GET').toUpperCase();
+        if (attempt >= this.maxRetries || !isRetryable(axiosError, method)) {
+          throw error;
+        }
+        attempt++;
+        const retryAfter = parseFloat(String(axiosError.response?.headers?.['retry-after'] ?? ''));
+        const delay = !isNaN(retryAfter) ? retryAfter * 1000 : backoffDelay(attempt);
+        logger.warn(
+          `[CanvasClient] ${config.method ?? 'GET'} ${config.url} failed (${axiosError.response?.status ?? axiosError.code}), retrying ${attempt}/${this.maxRetries} in ${delay}ms`,
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private updateRateLimit(headers?: AxiosResponse['headers']) {
+    const remaining = parseFloat(String(headers?.['x-rate-limit-remaining'] ?? ''));
+    if (!isNaN(remaining)) {
+      this.rateLimitRemaining = remaining;
+    }
+  }
+
+  private url(path: string): string {
+    return path.startsWith('http') ? path : `${this.baseURL}/api/v1${path}`;
+  }
+
+  /** Returns the browser URL of a Canvas path (e.g. `/courses/1/files/2`). */
+  webUrl(path: string): string {
+    return `${this.baseURL}${path}`;
+  }
+
+  /** Performs a GET request against a Canvas API path (e.g. `/courses/1`). */
+  async get<T>(path: string, params?: t.CanvasQueryParams): Promise<T> {
+    const response = await this.request<T>({ method: 'GET', url: this.url(path), params });
+    return response.data;
+  }
+
+  /** Performs a POST request against a Canvas API path. */
+  async post<T>(path: string, data?: unknown): Promise<T> {
+    const response = await this.request<T>({ method: 'POST', url: this.url(path), data });
+    return response.data;
+  }
+
+  /** Performs a PUT request against a Canvas API path. */
+  async put<T>(path: string, data?: unknown): Promise<T> {
+    const response = await this.request<T>({ method: 'PUT', url: this.url(path), data });
+    return response.data;
+  }
+
+  /** Performs a DELETE request against a Canvas API path. */
+  async delete<T>(path: string): Promise<T> {
+    const response = await this.request<T>({ method: 'DELETE', url: this.url(path) });
+    return response.data;
+  }
+
+  /**
+   * Fetches every page of a Canvas list endpoint by following `Link: rel="next"`.
+   * Stops after `maxPages` pages to bound very large collections.
+   */
+  async paginate<T>(path: string, params?: t.CanvasQueryParams): Promise<T[]> {
+    const results: T[] = [];
+    let url: string | undefined = this.url(path);
+    let requestParams: t.CanvasQueryParams | undefined = { per_page: this.perPage, ...params };
+
+    for (let page = 0; url && page < this.maxPages; page++) {
+      const response: AxiosResponse<T[]> = await this.request<T[]>({
+        method: 'GET',
+        url,
+        params: requestParams,
+      });
+      results.push(...(response.data ?? []));
+      url = parseLinkHeader(response.headers?.link).next;
+      /** The `next` link already carries every query parameter */
+      requestParams = undefined;
+    }
+
+    if (url) {
+      logger.warn(`[CanvasClient] Stopped paginating ${path} after ${this.maxPages} pages`);
+    }
+    return results;
+  }
+
+  listCourses(params?: t.ListCoursesParams): Promise<Course[]> {
+    return this.paginate<Course>('/courses', {
+      include: ['term'],
+      ...params,
+    });
+  }
+
+  getCourse(courseId: number | string): Promise<Course> {
+    return this.get<Course>(`/courses/${courseId}`, { include: ['term'] });
+  }
+
+  /** Adds a course to the current user's favorites (the Canvas dashboard). */
+  addFavoriteCourse(courseId: number | string): Promise<CanvasFavorite> {
+    return this.post<CanvasFavorite>(`/users/self/favorites/courses/${courseId}`);
+  }
+
+  removeFavoriteCourse(courseId: number | string): Promise<CanvasFavorite> {
+    return this.delete<CanvasFavorite>(`/users/self/favorites/courses/${courseId}`);
+  }
+
+  listModules(courseId: number | string, params?: t.ListModulesParams): Promise<Module[]> {
+    return this.paginate<Module>(`/courses/${courseId}/modules`, params);
+  }
+
+  listModuleItems(courseId: number | string, moduleId: number | string): Promise<ModuleItem[]> {
+    return this.paginate<ModuleItem>(`/courses/${courseId}/modules/${moduleId}/items`);
+  }
+
+  listPages(courseId: number | string): Promise<CanvasPage[]> {
+    return this.paginate<CanvasPage>(`/courses/${courseId}/pages`);
+  }
+
+  /** @param pageUrl - The page's URL slug or ID */
+  getPage(courseId: number | string, pageUrl: string): Promise<CanvasPage> {
+    return this.get<CanvasPage>(`/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}`);
+  }
+
+  listFiles(courseId: number | string): Promise<CanvasFile[]> {
+    return this.paginate<CanvasFile>(`/courses/${courseId}/files`);
+  }
+
+  getFile(fileId: number | string): Promise<CanvasFile> {
+    return this.get<CanvasFile>(`/files/${fileId}`);
+  }
+
+  /** Downloads a file's contents from its pre-authenticated `url`. */
+  async downloadFile(file: Pick<CanvasFile, 'url'>): Promise<Buffer> {
+    const response = await this.axios.get<ArrayBuffer>(file.url, { responseType: 'arraybuffer' });
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Uploads a file into a course with Canvas' three-step upload: the upload is requested,
+   * the contents are posted to the returned upload URL, and the upload is confirmed.
+   */
+  async uploadCourseFile(
+    courseId: number | string,
+    params: t.UploadCourseFileParams,
+    data: Buffer,
+  ): Promise<CanvasFile> {
+    const ticket = await this.post<t.CanvasUploadTicket>(`/courses/${courseId}/files`, {
+      ...params,
+      size: data.length,
+      on_duplicate: 'rename',
+    });
+
+    const form = new FormData();
+    for (const [key, value] of Object.entries(ticket.upload_params)) {
+      form.append(key, value);
+    }
+    /** Canvas requires the file to be the last field */
+    form.append('file', data, { filename: params.name, contentType: params.content_type });
+
+    /** The upload URL is pre-signed and may be on another host, so it is sent without the token */
+    const response = await this.axios.post<CanvasFile>(ticket.upload_url, form, {
+      headers: form.getHeaders(),
+      maxRedirects: 0,
+      maxBodyLength: Infinity,
+      validateStatus: (status) => status < 400,
+    });
+
+    const location = response.headers?.location;
+    if (response.status >= 300 && location) {
+      /** Redirected uploads are only marked as available once the location is requested */
+      return this.get<CanvasFile>(location);
+    }
+    return response.data;
+  }
+
+  listAssignments(
+    courseId: number | string,
+    params?: t.ListAssignmentsParams,
+  ): Promise<CanvasAssignment[]> {
+    return this.paginate<CanvasAssignment>(`/courses/${courseId}/assignments`, params);
+  }
+
+  getAssignment(
+    courseId: number | string,
+    assignmentId: number | string,
+  ): Promise<CanvasAssignment> {
+    return this.get<CanvasAssignment>(`/courses/${courseId}/assignments/${assignmentId}`);
+  }
+
+  /** Lists the discussion topics of a course, without announcements. */
+  listDiscussionTopics(courseId: number | string): Promise<CanvasDiscussionTopic[]> {
+    return this.paginate<CanvasDiscussionTopic>(`/courses/${courseId}/discussion_topics`);
+  }
+
+  getDiscussionTopic(
+    courseId: number | string,
+    topicId: number | string,
+  ): Promise<CanvasDiscussionTopic> {
+    return this.get<CanvasDiscussionTopic>(`/courses/${courseId}/discussion_topics/${topicId}`);
+  }
+
+  /** Returns the full, threaded entry tree of a discussion topic. */
+  getDiscussionView(
+    courseId: number | string,
+    topicId: number | string,
+  ): Promise<CanvasDiscussionView> {
+    return this.get<CanvasDiscussionView>(`/courses/${courseId}/discussion_topics/${topicId}/view`);
+  }
+
+  /** Lists the current user's enrollments, including course grades for student enrollments. */
+  listEnrollments(params?: t.ListEnrollmentsParams): Promise<CanvasEnrollment[]> {
+    return this.paginate<CanvasEnrollment>('/users/self/enrollments', params);
+  }
+
+  /** Lists the current user's submissions in a course, with their assignments. */
+  listSubmissions(courseId: number | string): Promise<CanvasSubmission[]> {
+    return this.paginate<CanvasSubmission>(`/courses/${courseId}/students/submissions`, {
+      student_ids: ['self'],
+      include: ['assignment'],
+    });
+  }
+
+  createPage(courseId: number | string, params: t.CreatePageParams): Promise<CanvasPage> {
+    return this.post<CanvasPage>(`/courses/${courseId}/pages`, { wiki_page: params });
+  }
+
+  /** Posts an announcement, visible to the course right away. */
+  createAnnouncement(
+    courseId: number | string,
+    params: t.CreateAnnouncementParams,
+  ): Promise<CanvasDiscussionTopic> {
+    return this.post<CanvasDiscussionTopic>(`/courses/${courseId}/discussion_topics`, {
+      ...params,
+      is_announcement: true,
+      published: true,
+    });
+  }
+
+  createModuleItem(
+    courseId: number | string,
+    moduleId: number | string,
+    params: t.CreateModuleItemParams,
+  ): Promise<ModuleItem> {
+    return this.post<ModuleItem>(`/courses/${courseId}/modules/${moduleId}/items`, {
+      module_item: params,
+    });
+  }
+
+  /** Creates an empty quiz; questions are added with `createQuizQuestion`. */
+  createQuiz(courseId: number | string, params: t.CreateQuizParams): Promise<CanvasQuiz> {
+    return this.post<CanvasQuiz>(`/courses/${courseId}/quizzes`, { quiz: params });
+  }
+
+  updateQuiz(
+    courseId: number | string,
+    quizId: number | string,
+    params: Partial<t.CreateQuizParams>,
+  ): Promise<CanvasQuiz> {
+    return this.put<CanvasQuiz>(`/courses/${courseId}/quizzes/${quizId}`, { quiz: params });
+  }
+
+  deleteQuiz(courseId: number | string, quizId: number | string): Promise<CanvasQuiz> {
+    return this.delete<CanvasQuiz>(`/courses/${courseId}/quizzes/${quizId}`);
+  }
+
+  createQuizQuestion(
+    courseId: number | string,
+    quizId: number | string,
+    params: t.CreateQuizQuestionParams,
+  ): Promise<CanvasQuizQuestion> {
+    return this.post<CanvasQuizQuestion>(`/courses/${courseId}/quizzes/${quizId}/questions`, {
+      question: params,
+    });
+  }
+
+  /** Lists announcements for one or more courses. */
+  listAnnouncements(
+    courseIds: Array<number | string>,
+    params?: t.ListAnnouncementsParams,
+  ): Promise<CanvasAnnouncement[]> {
+    return this.paginate<CanvasAnnouncement>('/announcements', {
+      context_codes: courseIds.map((id) => `course_${id}`),
+      ...params,
+    });
+  }
+}
@@ -0,0 +1,149 @@
+import type { CanvasClient } from './client';
+import {
+  formatAssignment,
+  formatDiscussion,
+  htmlToMarkdown,
+  toMarkdownFilename,
+  getCanvasContentDocument,
+} from './content';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { warn: jest.fn(), error: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+describe('htmlToMarkdown', () => {
+  it('converts Canvas rich content to markdown', () => {
+    const html =
+      '<h2>Overview</h2><p>Read <strong>chapter 3</strong> and <a href="https://example.com">this</a>.</p>' +
+      '<ul><li>One</li><li>Two</li></ul><script>alert(1)</script>';
+    expect(htmlToMarkdown(html)).toBe(
+      '## Overview\n\nRead **chapter 3** and [this](https://example.com).\n\n-   One\n-   Two',
+    );
+  });
+
+  it('handles empty content', () => {
+    expect(htmlToMarkdown(null)).toBe('');
+  });
+});
+
+describe('toMarkdownFilename', () => {
+  it('slugifies the title', () => {
+    expect(toMarkdownFilename('Essay #2: Café Culture!')).toBe('essay-2-cafe-culture.md');
+  });
+
+  it('falls back when the title has no usable characters', () => {
+    expect(toMarkdownFilename('???', 'page-1')).toBe('page-1.md');
+  });
+});
+
+describe('formatAssignment', () => {
+  it('includes details, description and rubric', () => {
+    const text = formatAssignment({
+      id: 1,
+      course_id: 2,
+      name: 'Lab Report',
+      description: '<p>Write a report.</p>',
+      due_at: '2025-01-31T23:59:00Z',
+      points_possible: 10,
+      submission_types: ['online_upload'],
+      html_url: 'https://canvas.example.edu/courses/2/assignments/1',
+      published: true,
+      updated_at: '2025-01-01T00:00:00Z',
+      rubric: [
+        {
+          id: 'c1',
+          description: 'Analysis',
+          points: 10,
+          ratings: [{ id: 'r1', description: 'Full marks', points: 10 }],
+        },
+      ],
+    });
+
+    expect(text).toContain('# Lab Report');
+    expect(text).toContain('- **Due:** 2025-01-31T23:59:00Z');
+    expect(text).toContain('## Description\n\nWrite a report.');
+    expect(text).toContain('### Analysis (10 pts)\n- **Full marks** (10 pts)');
+  });
+});
+
+describe('formatDiscussion', () => {
+  it('renders nested replies as quotes and skips deleted entries', () => {
+    const text = formatDiscussion(
+      {
+        id: 5,
+        title: 'Week 1',
+        message: '<p>Introduce yourself</p>',
+        posted_at: null,
+        html_url: '',
+        discussion_subentry_count: 2,
+        published: true,
+      },
+      {
+        participants: [{ id: 1, display_name: 'Ada' }],
+        view: [
+          {
+            id: 10,
+            user_id: 1,
+            message: '<p>Hi all</p>',
+            created_at: '2025-01-02',
+            replies: [{ id: 11, deleted: true, created_at: '2025-01-03' }],
+          },
+        ],
+      },
+    );
+
+    expect(text).toContain('Introduce yourself');
+    expect(text).toContain('> **Ada** (2025-01-02):\n>\n> Hi all');
+    expect(text).not.toContain('>>');
+  });
+});
+
+describe('getCanvasContentDocument', () => {
+  it('loads a page by its URL slug', async () => {
+    const client = {
+      getPage: jest.fn().mockResolvedValue({
+        page_id: 3,
+        url: 'syllabus',
+        title: 'Syllabus',
+        body: '<p>Welcome</p>',
+        html_url: 'https://canvas.example.edu/courses/1/pages/syllabus',
+        updated_at: '2025-01-01T00:00:00Z',
+      }),
+    } as unknown as CanvasClient;
+
+    const document = await getCanvasContentDocument(client, {
+      courseId: 1,
+      type: 'Page',
+      id: 'syllabus',
+    });
+
+    expect(client.getPage).toHaveBeenCalledWith(1, 'syllabus');
+    expect(document).toEqual({
+      title: 'Syllabus',
+      filename: 'syllabus.md',
+      text: '# Syllabus\n\nWelcome',
+      html_url: 'https://canvas.example.edu/courses/1/pages/syllabus',
+      updated_at: '2025-01-01T00:00:00Z',
+    });
+  });
+
+  it('imports a discussion topic when its replies are not visible', async () => {
+    const client = {
+      getDiscussionTopic: jest.fn().mockResolvedValue({
+        id: 5,
+        title: 'Week 1',
+        message: '<p>Introduce yourself</p>',
+        html_url: '',
+      }),
+      getDiscussionView: jest.fn().mockRejectedValue(new Error('403')),
+    } as unknown as CanvasClient;
+
+    const document = await getCanvasContentDocument(client, {
+      courseId: 1,
+      type: 'Discussion',
+      id: 5,
+    });
+
+    expect(document.text).toBe('# Week 1\n\nIntroduce yourself');
+  });
+});
@@ -0,0 +1,214 @@
+import TurndownService from 'turndown';
+import { logger } from '@librechat/data-schemas';
+import type {
+  CanvasPage,
+  CanvasAssignment,
+  CanvasContentType,
+  CanvasDiscussionView,
+  CanvasDiscussionEntry,
+  CanvasDiscussionTopic,
+} from 'librechat-data-provider';
+import type { CanvasClient } from './client';
+
+export interface CanvasContentDocument {
+  title: string;
+  /** Markdown filename derived from the title */
+  filename: string;
+  text: string;
+  /** Link back to the content in Canvas */
+  html_url?: string;
+  /** When the content last changed in Canvas, used to detect updates */
+  updated_at?: string;
+}
+
+let turndownService: TurndownService | undefined;
+
+function getTurndownService(): TurndownService {
+  if (!turndownService) {
+    turndownService = new TurndownService({
+      headingStyle: 'atx',
+      codeBlockStyle: 'fenced',
+      bulletListMarker: '-',
+    });
+    turndownService.remove(['script', 'style', 'iframe']);
+    /** Markdown tables cannot express merged cells, so tables are kept as HTML */
+    turndownService.keep(['table']);
+  }
+  return turndownService;
+}
+
+/**
+ * Converts Canvas rich content HTML to markdown.
+ * @param html - The HTML body of a page, assignment description or discussion entry.
+ */
+export function htmlToMarkdown(html?: string | null): string {
+  if (!html) {
+    return '';
+  }
+  return getTurndownService().turndown(html).trim();
+}
+
+/** Builds a filesystem-safe filename, without extension, from a title. */
+export function toFilenameSlug(title: string, fallback: string): string {
+  const name = title
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .toLowerCase()
+    .slice(0, 100);
+  return name || fallback;
+}
+
+/** Builds a filesystem-safe markdown filename from a title. */
+export function toMarkdownFilename(title: string, fallback = 'canvas-content'): string {
+  return `${toFilenameSlug(title, fallback)}.md`;
+}
+
+export function formatPage(page: CanvasPage): string {
+  const sections = [`# ${page.title}`];
+  const body = htmlToMarkdown(page.body);
+  if (body) {
+    sections.push(body);
+  }
+  return sections.join('\n\n');
+}
+
+export function formatAssignment(assignment: CanvasAssignment): string {
+  const details: string[] = [];
+  if (assignment.due_at) {
+    details.push(`- **Due:** ${assignment.due_at}`);
+  }
+  if (assignment.points_possible != null) {
+    details.push(`- **Points:** ${assignment.points_possible}`);
+  }
+  if (assignment.submission_types?.length) {
+    details.push(`- **Submission types:** ${assignment.submission_types.join(', ')}`);
+  }
+
+  const sections = [`# ${assignment.name}`];
+  if (details.length) {
+    sections.push(details.join('\n'));
+  }
+
+  const description = htmlToMarkdown(assignment.description);
+  if (description) {
+    sections.push(`## Description\n\n${description}`);
+  }
+
+  if (assignment.rubric?.length) {
+    const rubric = assignment.rubric.map((criterion) => {
+      const lines = [`### ${criterion.description} (${criterion.points} pts)`];
+      if (criterion.long_description) {
+        lines.push(criterion.long_description);
+      }
+      for (const rating of criterion.ratings ?? []) {
+        const detail = rating.long_description ? `: ${rating.long_description}` : '';
+        lines.push(`- **${rating.description}** (${rating.points} pts)${detail}`);
+      }
+      return lines.join('\n');
+    });
+    sections.push(`## Rubric\n\n${rubric.join('\n\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+export function formatDiscussion(
+  topic: CanvasDiscussionTopic,
+  discussion?: CanvasDiscussionView,
+): string {
+  const sections = [`# ${topic.title}`];
+  const message = htmlToMarkdown(topic.message);
+  if (message) {
+    sections.push(topic.user_name ? `**${topic.user_name}:**\n\n${message}` : message);
+  }
+
+  const participants = new Map(
+    (discussion?.participants ?? []).map((participant) => [
+      participant.id,
+      participant.display_name,
+    ]),
+  );
+
+  const formatEntries = (entries: CanvasDiscussionEntry[], depth: number): string[] =>
+    entries.flatMap((entry) => {
+      const replies = formatEntries(entry.replies ?? [], depth + 1);
+      if (entry.deleted || !entry.message) {
+        return replies;
+      }
+      const author = (entry.user_id != null && participants.get(entry.user_id)) || 'Unknown';
+      const quote = '>'.repeat(depth);
+      const text = htmlToMarkdown(entry.message)
+        .split('\n')
+        .map((line) => `${quote} ${line}`.trimEnd())
+        .join('\n');
+      return [`${quote} **${author}** (${entry.created_at}):\n${quote}\n${text}`, ...replies];
+    });
+
+  const entries = formatEntries(discussion?.view ?? [], 1);
+  if (entries.length) {
+    sections.push(`## Replies\n\n${entries.join('\n\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Fetches a Canvas page, assignment or discussion and renders it as a markdown document.
+ * @param client - Canvas client authenticated as the user.
+ * @param params.courseId - The course containing the content.
+ * @param params.type - The module item type of the content.
+ * @param params.id - The page URL slug for pages, the object ID otherwise.
+ */
+export async function getCanvasContentDocument(
+  client: CanvasClient,
+  {
+    courseId,
+    type,
+    id,
+  }: { courseId: number | string; type: CanvasContentType; id: number | string },
+): Promise<CanvasContentDocument> {
+  switch (type) {
+    case 'Page': {
+      const page = await client.getPage(courseId, String(id));
+      return {
+        title: page.title,
+        filename: toMarkdownFilename(page.title, `page-${page.page_id}`),
+        text: formatPage(page),
+        html_url: page.html_url,
+        updated_at: page.updated_at,
+      };
+    }
+    case 'Assignment': {
+      const assignment = await client.getAssignment(courseId, id);
+      return {
+        title: assignment.name,
+        filename: toMarkdownFilename(assignment.name, `assignment-${assignment.id}`),
+        text: formatAssignment(assignment),
+        html_url: assignment.html_url,
+        updated_at: assignment.updated_at,
+      };
+    }
+    case 'Discussion': {
+      const [topic, discussion] = await Promise.all([
+        client.getDiscussionTopic(courseId, id),
+        /** Replies can be hidden from students until they post, so the topic is enough */
+        client.getDiscussionView(courseId, id).catch((error) => {
+          logger.warn(`[getCanvasContentDocument] Could not load replies of topic ${id}`, error);
+          return undefined;
+        }),
+      ]);
+      return {
+        title: topic.title,
+        filename: toMarkdownFilename(topic.title, `discussion-${topic.id}`),
+        text: formatDiscussion(topic, discussion),
+        html_url: topic.html_url,
+        /** Topics have no `updated_at`; new replies are what changes the document */
+        updated_at: topic.last_reply_at ?? topic.posted_at ?? undefined,
+      };
+    }
+    default:
+      throw new Error(`Unsupported Canvas content type: ${type}`);
+  }
+}
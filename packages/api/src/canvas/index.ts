@@ -0,0 +1,4 @@
+export * from './client';
+export * from './content';
+export * from './publish';
+export * from './quiz';
@@ -0,0 +1,90 @@
+import type { CanvasClient } from './client';
+import { publishCanvasContent } from './publish';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { warn: jest.fn(), error: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+describe('publishCanvasContent', () => {
+  let client: jest.Mocked<
+    Pick<
+      CanvasClient,
+      'createPage' | 'createAnnouncement' | 'createModuleItem' | 'uploadCourseFile' | 'webUrl'
+    >
+  >;
+
+  beforeEach(() => {
+    client = {
+      createPage: jest.fn(),
+      createAnnouncement: jest.fn(),
+      createModuleItem: jest.fn(),
+      uploadCourseFile: jest.fn(),
+      webUrl: jest.fn((path: string) => `https://canvas.example.edu${path}`),
+    };
+  });
+
+  const publish = (request: Parameters<typeof publishCanvasContent>[2]) =>
+    publishCanvasContent(client as unknown as CanvasClient, 3, request);
+
+  it('creates an unpublished page and adds it to the module', async () => {
+    client.createPage.mockResolvedValue({
+      url: 'week-1-summary',
+      title: 'Week 1 summary',
+      html_url: 'https://canvas.example.edu/courses/3/pages/week-1-summary',
+    } as Awaited<ReturnType<CanvasClient['createPage']>>);
+
+    const result = await publish({
+      type: 'Page',
+      title: 'Week 1 summary',
+      content: '<p>Hello</p>',
+      module_id: 5,
+    });
+
+    expect(client.createPage).toHaveBeenCalledWith(3, {
+      title: 'Week 1 summary',
+      body: '<p>Hello</p>',
+      published: false,
+    });
+    expect(client.createModuleItem).toHaveBeenCalledWith(3, 5, {
+      type: 'Page',
+      page_url: 'week-1-summary',
+      title: 'Week 1 summary',
+      published: false,
+    });
+    expect(result).toMatchObject({ type: 'Page', id: 'week-1-summary' });
+  });
+
+  it('uploads files into the default folder with a markdown file name', async () => {
+    client.uploadCourseFile.mockResolvedValue({ id: 42, display_name: 'quiz-review.md' } as Awaited<
+      ReturnType<CanvasClient['uploadCourseFile']>
+    >);
+
+    const result = await publish({ type: 'File', title: 'Quiz review', content: '# Review' });
+
+    expect(client.uploadCourseFile).toHaveBeenCalledWith(
+      3,
+      { name: 'quiz-review.md', content_type: 'text/markdown', parent_folder_path: 'LibreChat' },
+      Buffer.from('# Review', 'utf8'),
+    );
+    expect(client.createModuleItem).not.toHaveBeenCalled();
+    expect(result.html_url).toBe('https://canvas.example.edu/courses/3/files/42');
+  });
+
+  it('posts announcements', async () => {
+    client.createAnnouncement.mockResolvedValue({ id: 8, title: 'Exam moved' } as Awaited<
+      ReturnType<CanvasClient['createAnnouncement']>
+    >);
+
+    const result = await publish({
+      type: 'Announcement',
+      title: 'Exam moved',
+      content: '<p>Now on Friday</p>',
+    });
+
+    expect(client.createAnnouncement).toHaveBeenCalledWith(3, {
+      title: 'Exam moved',
+      message: '<p>Now on Friday</p>',
+    });
+    expect(result).toMatchObject({ type: 'Announcement', id: 8 });
+  });
+});
@@ -0,0 +1,60 @@
+import { toMarkdownFilename } from './content';
+import type { TCanvasPublishRequest, TCanvasPublishResponse } from 'librechat-data-provider';
+import type { CanvasClient } from './client';
+
+/** Folder that published files are uploaded into when none is given */
+export const DEFAULT_CANVAS_PUBLISH_FOLDER = 'LibreChat';
+
+/**
+ * Publishes LibreChat output to a course as a page, a file or an announcement.
+ * Pages and files are added to `module_id` when given.
+ */
+export async function publishCanvasContent(
+  client: CanvasClient,
+  courseId: number | string,
+  request: TCanvasPublishRequest,
+): Promise<TCanvasPublishResponse> {
+  const { type, title, content, module_id, published = false } = request;
+
+  if (type === 'Announcement') {
+    const topic = await client.createAnnouncement(courseId, { title, message: content });
+    return { type, id: topic.id, title: topic.title, html_url: topic.html_url };
+  }
+
+  if (type === 'Page') {
+    const page = await client.createPage(courseId, { title, body: content, published });
+    if (module_id != null) {
+      await client.createModuleItem(courseId, module_id, {
+        type: 'Page',
+        page_url: page.url,
+        title: page.title,
+        published,
+      });
+    }
+    return { type, id: page.url, title: page.title, html_url: page.html_url };
+  }
+
+  const file = await client.uploadCourseFile(
+    courseId,
+    {
+      name: request.filename || toMarkdownFilename(title, 'librechat-output'),
+      content_type: request.content_type || 'text/markdown',
+      parent_folder_path: request.folder_path || DEFAULT_CANVAS_PUBLISH_FOLDER,
+    },
+    Buffer.from(content, 'utf8'),
+  );
+  if (module_id != null) {
+    await client.createModuleItem(courseId, module_id, {
+      type: 'File',
+      content_id: file.id,
+      title,
+      published,
+    });
+  }
+  return {
+    type,
+    id: file.id,
+    title: file.display_name,
+    html_url: client.webUrl(`/courses/${courseId}/files/${file.id}`),
+  };
+}
@@ -0,0 +1,188 @@
+import type { TQuiz } from 'librechat-data-provider';
+import type { CanvasClient } from './client';
+import {
+  createCanvasQuiz,
+  createQuizQtiZip,
+  getQuizQtiFilename,
+  buildQuizAssessment,
+} from './quiz';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { warn: jest.fn(), error: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+const quiz: TQuiz = {
+  title: 'Cells & organelles',
+  description: 'Week 1 check-in',
+  questions: [
+    {
+      type: 'multiple_choice',
+      text: 'Which organelle produces ATP?',
+      points: 2,
+      answers: [
+        { text: 'Mitochondria', correct: true },
+        { text: 'Ribosome', correct: false },
+      ],
+    },
+    {
+      type: 'true_false',
+      text: 'Plant cells have a cell wall.',
+      points: 1,
+      answers: [
+        { text: 'True', correct: true },
+        { text: 'False', correct: false },
+      ],
+    },
+    {
+      type: 'short_answer',
+      text: 'Name the "control center" of the cell.',
+      points: 1,
+      answers: [
+        { text: 'nucleus', correct: true },
+        { text: 'the nucleus', correct: true },
+      ],
+    },
+  ],
+};
+
+/** Reads the stored entries of a zip created by `createZip` */
+function readZipEntries(zip: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const size = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    entries[name] = zip.toString('utf8', start, start + size);
+    offset = start + size;
+  }
+  return entries;
+}
+
+describe('buildQuizAssessment', () => {
+  it('writes one QTI item per question with its Canvas question type', () => {
+    const xml = buildQuizAssessment(quiz, 'g1');
+
+    expect(xml).toContain('<assessment ident="g1" title="Cells &amp; organelles">');
+    expect(xml.match(/<item /g)).toHaveLength(3);
+    expect(xml).toContain('<fieldentry>multiple_choice_question</fieldentry>');
+    expect(xml).toContain('<fieldentry>true_false_question</fieldentry>');
+    expect(xml).toContain('<fieldentry>short_answer_question</fieldentry>');
+    expect(xml).toContain('<varequal respident="response1">g1_q1_1</varequal>');
+    expect(xml).not.toContain('<varequal respident="response1">g1_q1_2</varequal>');
+    expect(xml).toContain('<varequal respident="response1">the nucleus</varequal>');
+    expect(xml).toContain('&lt;p&gt;Name the &amp;quot;control center&amp;quot; of the cell.');
+  });
+
+  it('scores choice questions with several correct answers as multiple answers', () => {
+    const xml = buildQuizAssessment(
+      {
+        title: 'Primes',
+        questions: [
+          {
+            type: 'multiple_choice',
+            text: 'Which are prime?',
+            points: 1,
+            answers: [
+              { text: '2', correct: true },
+              { text: '4', correct: false },
+              { text: '5', correct: true },
+            ],
+          },
+        ],
+      },
+      'g2',
+    );
+
+    expect(xml).toContain('<fieldentry>multiple_answers_question</fieldentry>');
+    expect(xml).toContain('rcardinality="Multiple"');
+    expect(xml).toContain(
+      '<and><varequal respident="response1">g2_q1_1</varequal><not><varequal respident="response1">g2_q1_2</varequal></not><varequal respident="response1">g2_q1_3</varequal></and>',
+    );
+  });
+});
+
+describe('createQuizQtiZip', () => {
+  it('packages a manifest that references the assessment', () => {
+    const entries = readZipEntries(createQuizQtiZip(quiz));
+    const names = Object.keys(entries);
+
+    expect(names[0]).toBe('imsmanifest.xml');
+    const assessmentPath = names[1];
+    expect(assessmentPath).toMatch(/^g[0-9a-f]{32}\/g[0-9a-f]{32}\.xml$/);
+    expect(entries['imsmanifest.xml']).toContain(
+      `<resource identifier="${assessmentPath.split('/')[0]}" type="imsqti_xmlv1p2"><file href="${assessmentPath}"/>`,
+    );
+    expect(entries[assessmentPath]).toContain('<questestinterop');
+  });
+
+  it('names the export after the quiz title', () => {
+    expect(getQuizQtiFilename(quiz)).toBe('cells-organelles-qti.zip');
+  });
+});
+
+describe('createCanvasQuiz', () => {
+  it('adds every question before publishing the quiz', async () => {
+    const client = {
+      createQuiz: jest.fn().mockResolvedValue({
+        id: 9,
+        title: quiz.title,
+        html_url: 'https://canvas.example.edu/courses/3/quizzes/9',
+      }),
+      createQuizQuestion: jest.fn().mockResolvedValue({}),
+      updateQuiz: jest.fn().mockResolvedValue({}),
+    };
+
+    const result = await createCanvasQuiz(client as unknown as CanvasClient, 3, quiz, {
+      published: true,
+    });
+
+    expect(client.createQuiz).toHaveBeenCalledWith(3, {
+      title: quiz.title,
+      description: '<p>Week 1 check-in</p>',
+      quiz_type: 'assignment',
+      published: false,
+    });
+    expect(client.createQuizQuestion).toHaveBeenCalledTimes(3);
+    expect(client.createQuizQuestion).toHaveBeenNthCalledWith(1, 3, 9, {
+      question_name: 'Question 1',
+      question_type: 'multiple_choice_question',
+      question_text: '<p>Which organelle produces ATP?</p>',
+      points_possible: 2,
+      answers: [
+        { answer_text: 'Mitochondria', answer_weight: 100 },
+        { answer_text: 'Ribosome', answer_weight: 0 },
+      ],
+    });
+    expect(client.updateQuiz.mock.invocationCallOrder[0]).toBeGreaterThan(
+      client.createQuizQuestion.mock.invocationCallOrder[2],
+    );
+    expect(client.updateQuiz).toHaveBeenCalledWith(3, 9, { published: true });
+    expect(result).toEqual({
+      id: 9,
+      title: quiz.title,
+      question_count: 3,
+      html_url: 'https://canvas.example.edu/courses/3/quizzes/9',
+    });
+  });
+
+  it('deletes the quiz when a question cannot be added', async () => {
+    const client = {
+      createQuiz: jest.fn().mockResolvedValue({ id: 9, title: quiz.title }),
+      createQuizQuestion: jest
+        .fn()
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('Request failed with status code 500')),
+      updateQuiz: jest.fn(),
+      deleteQuiz: jest.fn().mockResolvedValue({}),
+    };
+
+    await expect(
+      createCanvasQuiz(client as unknown as CanvasClient, 3, quiz, { published: true }),
+    ).rejects.toThrow('500');
+    expect(client.createQuizQuestion).toHaveBeenCalledTimes(2);
+    expect(client.updateQuiz).not.toHaveBeenCalled();
+    expect(client.deleteQuiz).toHaveBeenCalledWith(3, 9);
+  });
+});
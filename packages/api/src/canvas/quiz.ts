@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import { logger } from '@librechat/data-schemas';
+import type {
+  TQuiz,
+  TQuizQuestion,
+  CanvasQuizQuestionType,
+  TCanvasCreateQuizResponse,
+} from 'librechat-data-provider';
+import type { CreateQuizQuestionParams } from '~/types/canvas';
+import type { CanvasClient } from './client';
+import { createZip } from '~/utils/zip';
+import { toFilenameSlug } from './content';
+
+/** Name of the question's response in QTI items; Canvas uses the same name */
+const RESPONSE_ID = 'response1';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/** Converts plain question text to the HTML Canvas stores for questions and descriptions */
+export function quizTextToHtml(text: string): string {
+  return text
+    .trim()
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${escapeXml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+/** Maps a quiz question to its Canvas question type; choice questions with several correct answers become multiple answers questions */
+export function getCanvasQuestionType(question: TQuizQuestion): CanvasQuizQuestionType {
+  switch (question.type) {
+    case 'true_false':
+      return 'true_false_question';
+    case 'short_answer':
+      return 'short_answer_question';
+    default:
+      return question.answers.filter((answer) => answer.correct).length > 1
+        ? 'multiple_answers_question'
+        : 'multiple_choice_question';
+  }
+}
+
+const metadataField = (label: string, entry: string | number) =>
+  `<qtimetadatafield><fieldlabel>${label}</fieldlabel><fieldentry>${entry}</fieldentry></qtimetadatafield>`;
+
+const mattext = (html: string) =>
+  `<material><mattext texttype="text/html">${escapeXml(html)}</mattext></material>`;
+
+function buildItem(question: TQuizQuestion, ident: string, index: number): string {
+  const questionType = getCanvasQuestionType(question);
+  const answerIds = question.answers.map((_answer, i) => `${ident}_${i + 1}`);
+  const correctIds = answerIds.filter((_id, i) => question.answers[i].correct);
+
+  let response: string;
+  let conditions: string[];
+  if (question.type === 'short_answer') {
+    response = `<response_str ident="${RESPONSE_ID}" rcardinality="Single"><render_fib><response_label ident="answer1" rshuffle="No"/></render_fib></response_str>`;
+    conditions = [
+      `<conditionvar>${question.answers
+        .map(
+          (answer) => `<varequal respident="${RESPONSE_ID}">${escapeXml(answer.text)}</varequal>`,
+        )
+        .join('')}</conditionvar>`,
+    ];
+  } else {
+    const isMultiple = questionType === 'multiple_answers_question';
+    const labels = question.answers
+      .map(
+        (answer, i) =>
+          `<response_label ident="${answerIds[i]}">${mattext(quizTextToHtml(answer.text))}</response_label>`,
+      )
+      .join('');
+    response = `<response_lid ident="${RESPONSE_ID}" rcardinality="${isMultiple ? 'Multiple' : 'Single'}"><render_choice>${labels}</render_choice></response_lid>`;
+    const varequal = (id: string) => `<varequal respident="${RESPONSE_ID}">${id}</varequal>`;
+    conditions = isMultiple
+      ? [
+          `<conditionvar><and>${answerIds
+            .map((id) => (correctIds.includes(id) ? varequal(id) : `<not>${varequal(id)}</not>`))
+            .join('')}</and></conditionvar>`,
+        ]
+      : correctIds.map((id) => `<conditionvar>${varequal(id)}</conditionvar>`);
+  }
+
+  const respconditions = conditions
+    .map(
+      (condition) =>
+        `<respcondition continue="No">${condition}<setvar action="Set" varname="SCORE">100</setvar></respcondition>`,
+    )
+    .join('');
+
+  return [
+    `<item ident="${ident}" title="${escapeXml(`Question ${index + 1}`)}">`,
+    `<itemmetadata><qtimetadata>${metadataField('question_type', questionType)}${metadataField('points_possible', question.points)}${metadataField('original_answer_ids', answerIds.join(','))}</qtimetadata></itemmetadata>`,
+    `<presentation>${mattext(quizTextToHtml(question.text))}${response}</presentation>`,
+    '<resprocessing><outcomes><decvar maxvalue="100" minvalue="0" varname="SCORE" vartype="Decimal"/></outcomes>',
+    respconditions,
+    '</resprocessing>',
+    '</item>',
+  ].join('\n');
+}
+
+/** Builds the QTI 1.2 assessment document for a quiz */
+export function buildQuizAssessment(quiz: TQuiz, ident: string): string {
+  const items = quiz.questions.map((question, index) =>
+    buildItem(question, `${ident}_q${index + 1}`, index),
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<questestinterop xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/ims_qtiasiv1p2 http://www.imsglobal.org/xsd/ims_qtiasiv1p2p1.xsd">',
+    `<assessment ident="${ident}" title="${escapeXml(quiz.title)}">`,
+    `<qtimetadata>${metadataField('cc_maxattempts', 1)}</qtimetadata>`,
+    quiz.description ? `<rubric>${mattext(quizTextToHtml(quiz.description))}</rubric>` : '',
+    '<section ident="root_section">',
+    ...items,
+    '</section>',
+    '</assessment>',
+    '</questestinterop>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Packages a quiz as a QTI 1.2 zip, the format accepted by Canvas'
+ * "QTI .zip file" course import.
+ */
+export function createQuizQtiZip(quiz: TQuiz): Buffer {
+  const ident = `g${createHash('md5').update(JSON.stringify(quiz)).digest('hex')}`;
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest identifier="${ident}_manifest" xmlns="http://www.imsglobal.org/xsd/imscp_v1p1">`,
+    '<metadata><schema>IMS Content</schema><schemaversion>1.1.3</schemaversion></metadata>',
+    '<organizations/>',
+    '<resources>',
+    `<resource identifier="${ident}" type="imsqti_xmlv1p2"><file href="${ident}/${ident}.xml"/></resource>`,
+    '</resources>',
+    '</manifest>',
+  ].join('\n');
+
+  return createZip([
+    { name: 'imsmanifest.xml', data: manifest },
+    { name: `${ident}/${ident}.xml`, data: buildQuizAssessment(quiz, ident) },
+  ]);
+}
+
+/** Download name of a quiz's QTI export */
+export function getQuizQtiFilename(quiz: TQuiz): string {
+  return `${toFilenameSlug(quiz.title, 'quiz')}-qti.zip`;
+}
+
+function toQuestionParams(question: TQuizQuestion, index: number): CreateQuizQuestionParams {
+  return {
+    question_name: `Question ${index + 1}`,
+    question_type: getCanvasQuestionType(question),
+    question_text: quizTextToHtml(question.text),
+    points_possible: question.points,
+    answers: question.answers.map((answer) => ({
+      answer_text: answer.text,
+      answer_weight: answer.correct || question.type === 'short_answer' ? 100 : 0,
+    })),
+  };
+}
+
+/**
+ * Creates a graded quiz in a course through the Quizzes API.
+ * The quiz is published only after all of its questions were added, since
+ * Canvas does not show questions added to an already published quiz to students,
+ * and is deleted again if a question cannot be added.
+ */
+export async function createCanvasQuiz(
+  client: CanvasClient,
+  courseId: number | string,
+  quiz: TQuiz,
+  { published = false }: { published?: boolean } = {},
+): Promise<TCanvasCreateQuizResponse> {
+  const created = await client.createQuiz(courseId, {
+    title: quiz.title,
+    description: quiz.description ? quizTextToHtml(quiz.description) : undefined,
+    quiz_type: 'assignment',
+    published: false,
+  });
+
+  try {
+    for (const [index, question] of quiz.questions.entries()) {
+      await client.createQuizQuestion(courseId, created.id, toQuestionParams(question, index));
+    }
+
+    if (published) {
+      await client.updateQuiz(courseId, created.id, { published: true });
+    }
+  } catch (error) {
+    /** Leave no partially created quiz in the course */
+    await client.deleteQuiz(courseId, created.id).catch((deleteError) => {
+      logger.error(
+        `[createCanvasQuiz] Failed to delete incomplete quiz ${created.id} of course ${courseId}`,
+        deleteError,
+      );
+    });
+    throw error;
+  }
+
+  return {
+    id: created.id,
+    title: created.title,
+    question_count: quiz.questions.length,
+    html_url: created.html_url,
+  };
+}
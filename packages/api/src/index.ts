@@ -3,6 +3,12 @@ export * from './mcp/manager';
 export * from './mcp/oauth';
 export * from './mcp/auth';
 export * from './mcp/zod';
+export * from './mcp/sampling';
+export * from './mcp/elicitation';
+export * from './mcp/userServers';
+export * from './mcp/toolCache';
+export * from './mcp/toolRetrieval';
+export * from './mcp/server';
 /* Utilities */
 export * from './mcp/utils';
 export * from './utils';
@@ -20,6 +26,8 @@ export * from './agents';
 export * from './endpoints';
 /* Files */
 export * from './files';
+/* Canvas LMS */
+export * from './canvas';
 /* types */
 export type * from './mcp/types';
 export type * from './flow/types';
@@ -56,3 +56,23 @@ export async function getUserMCPAuthMap({
 
   return allMcpCustomUserVars;
 }
+
+/** Custom user variables the user set for a single MCP server, used outside of agent runs */
+export async function getUserMCPServerVars({
+  userId,
+  serverName,
+  findPluginAuthsByKeys,
+}: {
+  userId: string;
+  serverName: string;
+  findPluginAuthsByKeys: PluginAuthMethods['findPluginAuthsByKeys'];
+}): Promise<Record<string, string> | undefined> {
+  const pluginKey = `${Constants.mcp_prefix}${serverName}`;
+  const authMap = await getPluginAuthMap({
+    userId,
+    pluginKeys: [pluginKey],
+    throwError: false,
+    findPluginAuthsByKeys,
+  });
+  return authMap[pluginKey];
+}
@@ -0,0 +1,103 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MCPConnection } from './connection';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+type ServerRequestHandler = (
+  request: { method: string; params: Record<string, unknown> },
+  extra: { signal: AbortSignal },
+) => Promise<unknown>;
+
+/** Sends a request, as the server would, to the handler the connection registered on its client */
+function sendServerRequest(
+  connection: MCPConnection,
+  method: string,
+  params: Record<string, unknown>,
+) {
+  const handlers = (connection.client as unknown as { _requestHandlers: Map<string, unknown> })
+    ._requestHandlers;
+  const handler = handlers.get(method) as ServerRequestHandler;
+  return handler({ method, params }, { signal: new AbortController().signal });
+}
+
+const samplingParams = {
+  messages: [{ role: 'user', content: { type: 'text', text: 'Summarize' } }],
+  maxTokens: 100,
+};
+const elicitationParams = {
+  message: 'Which repository?',
+  requestedSchema: { type: 'object', properties: { repo: { type: 'string' } } },
+};
+
+describe('MCPConnection tool call handlers', () => {
+  let connection: MCPConnection;
+
+  beforeEach(() => {
+    connection = new MCPConnection('test-server', {
+      type: 'streamable-http',
+      url: 'https://mcp.example.com/mcp',
+    });
+  });
+
+  it('should send sampling requests to the handler of the running tool call', async () => {
+    const result = { role: 'assistant', model: 'gpt', content: { type: 'text', text: 'Done' } };
+    const handler = jest.fn().mockResolvedValue(result);
+    const remove = connection.addSamplingHandler(handler);
+
+    await expect(
+      sendServerRequest(connection, 'sampling/createMessage', samplingParams),
+    ).resolves.toEqual(result);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ maxTokens: 100 }),
+      expect.any(AbortSignal),
+    );
+
+    remove();
+    await expect(
+      sendServerRequest(connection, 'sampling/createMessage', samplingParams),
+    ).rejects.toThrow('no tool call is running to sample from');
+  });
+
+  it('should refuse sampling requests while several tool calls are running', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    connection.addSamplingHandler(first);
+    const removeSecond = connection.addSamplingHandler(second);
+
+    await expect(
+      sendServerRequest(connection, 'sampling/createMessage', samplingParams),
+    ).rejects.toThrow(McpError);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+
+    removeSecond();
+    first.mockResolvedValue({
+      role: 'assistant',
+      model: 'gpt',
+      content: { type: 'text', text: '' },
+    });
+    await sendServerRequest(connection, 'sampling/createMessage', samplingParams);
+    expect(first).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse elicitation requests while several tool calls are running', async () => {
+    const first = jest.fn().mockResolvedValue({ action: 'accept', content: { repo: 'a' } });
+    const second = jest.fn();
+    const removeFirst = connection.addElicitationHandler(first);
+    connection.addElicitationHandler(second);
+
+    await expect(
+      sendServerRequest(connection, 'elicitation/create', elicitationParams),
+    ).rejects.toThrow('Requesting user input is not available while several tool calls');
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+
+    removeFirst();
+    second.mockResolvedValue({ action: 'decline' });
+    await expect(
+      sendServerRequest(connection, 'elicitation/create', elicitationParams),
+    ).resolves.toEqual({ action: 'decline' });
+  });
+});
@@ -7,12 +7,29 @@ import {
   getDefaultEnvironment,
 } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
-import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ErrorCode,
+  McpError,
+  ElicitRequestSchema,
+  CreateMessageRequestSchema,
+  ResourceUpdatedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Dispatcher } from 'undici';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { TMCPConnectionDiagnostics, TMCPConnectionError } from 'librechat-data-provider';
 import type { MCPOAuthTokens } from './oauth/types';
 import type * as t from './types';
+import { getPublicNetworkDispatcher } from './userServers';
+import {
+  pushRecent,
+  MAX_RECENT_ERRORS,
+  MAX_LATENCY_SAMPLES,
+  getLatencyPercentiles,
+} from './diagnostics';
 
 function isStdioOptions(options: t.MCPOptions): options is t.StdioOptions {
   return 'command' in options;
@@ -69,6 +86,16 @@ export class MCPConnection extends EventEmitter {
   private lastPingTime: number;
   private oauthTokens?: MCPOAuthTokens | null;
   private oauthRequired = false;
+  /** Whether the server may only be reached on public networks, as for servers users registered */
+  private readonly publicNetworkOnly: boolean;
+  private samplingHandlers: t.SamplingHandler[] = [];
+  private elicitationHandlers: t.ElicitationHandler[] = [];
+  /** Diagnostics for the health dashboard */
+  private connectedAt?: number;
+  private lastPingAt?: number;
+  private toolCount?: number;
+  private recentErrors: TMCPConnectionError[] = [];
+  private latencySamples: number[] = [];
   iconPath?: string;
   timeout?: number;
   url?: string;
@@ -78,10 +105,12 @@ export class MCPConnection extends EventEmitter {
     private readonly options: t.MCPOptions,
     userId?: string,
     oauthTokens?: MCPOAuthTokens | null,
+    publicNetworkOnly = false,
   ) {
     super();
     this.serverName = serverName;
     this.userId = userId;
+    this.publicNetworkOnly = publicNetworkOnly;
     this.iconPath = options.iconPath;
     this.timeout = options.timeout;
     this.lastPingTime = Date.now();
@@ -94,13 +123,21 @@ export class MCPConnection extends EventEmitter {
         version: '1.2.3',
       },
       {
-        capabilities: {},
+        capabilities: {
+          sampling: {},
+          elicitation: {},
+        },
       },
     );
 
     this.setupEventListeners();
   }
 
+  /** Request options routing the server's requests through the dispatcher for public networks */
+  private getDispatcherInit(): { dispatcher?: Dispatcher } {
+    return this.publicNetworkOnly ? { dispatcher: getPublicNetworkDispatcher() } : {};
+  }
+
   /** Helper to generate consistent log prefixes */
   private getLogPrefix(): string {
     const userPart = this.userId ? `[User: ${this.userId}]` : '';
@@ -132,6 +169,42 @@ export class MCPConnection extends EventEmitter {
   private emitError(error: unknown, errorContext: string): void {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error(`${this.getLogPrefix()} ${errorContext}: ${errorMessage}`);
+    this.recordError(error, errorContext);
+  }
+
+  /** Keeps an error for the connection's diagnostics */
+  private recordError(error: unknown, errorContext?: string): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    pushRecent(
+      this.recentErrors,
+      {
+        message: errorContext ? `${errorContext} ${errorMessage}` : errorMessage,
+        timestamp: Date.now(),
+      },
+      MAX_RECENT_ERRORS,
+    );
+  }
+
+  /** Records the duration of a tool call, in milliseconds */
+  public recordLatency(duration: number): void {
+    pushRecent(this.latencySamples, duration, MAX_LATENCY_SAMPLES);
+  }
+
+  /** State, recent errors and tool call latency of the connection */
+  public getDiagnostics(): TMCPConnectionDiagnostics {
+    return {
+      serverName: this.serverName,
+      userId: this.userId,
+      connectionState: this.connectionState,
+      oauthRequired: this.oauthRequired,
+      supportsOAuth: isSSEOptions(this.options),
+      reconnectAttempts: this.reconnectAttempts,
+      connectedAt: this.connectedAt,
+      lastPingAt: this.lastPingAt,
+      toolCount: this.toolCount,
+      recentErrors: [...this.recentErrors],
+      latency: getLatencyPercentiles(this.latencySamples),
+    };
   }
 
   private constructTransport(options: t.MCPOptions): Transport {
@@ -186,10 +259,12 @@ export class MCPConnection extends EventEmitter {
             headers['Authorization'] = `Bearer ${this.oauthTokens.access_token}`;
           }
 
+          const dispatcherInit = this.getDispatcherInit();
           const transport = new SSEClientTransport(url, {
             requestInit: {
               headers,
               signal: abortController.signal,
+              ...dispatcherInit,
             },
             eventSourceInit: {
               fetch: (url, init) => {
@@ -197,6 +272,7 @@ export class MCPConnection extends EventEmitter {
                 return fetch(url, {
                   ...init,
                   headers: fetchHeaders,
+                  ...dispatcherInit,
                 });
               },
             },
@@ -241,6 +317,7 @@ export class MCPConnection extends EventEmitter {
             requestInit: {
               headers,
               signal: abortController.signal,
+              ...this.getDispatcherInit(),
             },
           });
 
@@ -300,6 +377,8 @@ export class MCPConnection extends EventEmitter {
     });
 
     this.subscribeToResources();
+    this.handleSamplingRequests();
+    this.handleElicitationRequests();
   }
 
   private async handleReconnection(): Promise<void> {
@@ -357,6 +436,75 @@ export class MCPConnection extends EventEmitter {
     this.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
       this.emit('resourcesChanged');
     });
+    this.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      this.emit('resourceUpdated', notification.params.uri);
+    });
+  }
+
+  /**
+   * The handler of the tool call a server request belongs to. Clients cannot tell which of the
+   * running `tools/call` requests a server request was sent for, so requests are only handled
+   * while a single tool call of this connection has a handler, and are refused otherwise rather
+   * than answered on behalf of another tool call, possibly of another conversation.
+   */
+  private getToolCallHandler<T>(handlers: T[], feature: string, noHandlerMessage: string): T {
+    if (handlers.length === 0) {
+      throw new McpError(ErrorCode.InvalidRequest, noHandlerMessage);
+    }
+    if (handlers.length > 1) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${feature} is not available while several tool calls of this server are running`,
+      );
+    }
+    return handlers[0];
+  }
+
+  private handleSamplingRequests(): void {
+    this.client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      const handler = this.getToolCallHandler(
+        this.samplingHandlers,
+        'Sampling',
+        'Sampling is not enabled for this server, or no tool call is running to sample from',
+      );
+      return handler(request.params, extra.signal);
+    });
+  }
+
+  /**
+   * Handles the server's sampling requests during a tool call, until the returned function is
+   * called. Sampling is only enabled for servers configured with it.
+   */
+  public addSamplingHandler(handler: t.SamplingHandler): () => void {
+    this.samplingHandlers.push(handler);
+    return () => {
+      const index = this.samplingHandlers.indexOf(handler);
+      if (index !== -1) {
+        this.samplingHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  private handleElicitationRequests(): void {
+    this.client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+      const handler = this.getToolCallHandler(
+        this.elicitationHandlers,
+        'Requesting user input',
+        'No tool call is running to request input from the user',
+      );
+      return handler(request.params, extra.signal);
+    });
+  }
+
+  /** Handles the server's elicitation requests during a tool call, until the returned function is called */
+  public addElicitationHandler(handler: t.ElicitationHandler): () => void {
+    this.elicitationHandlers.push(handler);
+    return () => {
+      const index = this.elicitationHandlers.indexOf(handler);
+      if (index !== -1) {
+        this.elicitationHandlers.splice(index, 1);
+      }
+    };
   }
 
   async connectClient(): Promise<void> {
@@ -402,7 +550,9 @@ export class MCPConnection extends EventEmitter {
         this.connectionState = 'connected';
         this.emit('connectionChange', 'connected');
         this.reconnectAttempts = 0;
+        this.connectedAt = Date.now();
       } catch (error) {
+        this.recordError(error, 'Connection failed:');
         // Check if it's an OAuth authentication error
         if (this.isOAuthError(error)) {
           logger.warn(`${this.getLogPrefix()} OAuth authentication required`);
@@ -529,6 +679,7 @@ export class MCPConnection extends EventEmitter {
   private setupTransportErrorHandlers(transport: Transport): void {
     transport.onerror = (error) => {
       logger.error(`${this.getLogPrefix()} Transport error:`, error);
+      this.recordError(error, 'Transport error:');
 
       // Check if it's an OAuth authentication error
       if (error && typeof error === 'object' && 'code' in error) {
@@ -569,9 +720,28 @@ export class MCPConnection extends EventEmitter {
     }
   }
 
+  /** Reads the contents of a resource; unlike the fetch methods, errors are thrown to the caller */
+  async readResource(uri: string, options?: RequestOptions): Promise<t.MCPResourceContents[]> {
+    const { contents } = await this.client.readResource(
+      { uri },
+      { timeout: this.timeout, ...options },
+    );
+    return contents;
+  }
+
+  /** Requests `notifications/resources/updated` for a resource, emitted as `resourceUpdated` */
+  async subscribeResource(uri: string): Promise<void> {
+    await this.client.subscribeResource({ uri });
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    await this.client.unsubscribeResource({ uri });
+  }
+
   async fetchTools() {
     try {
       const { tools } = await this.client.listTools();
+      this.toolCount = tools.length;
       return tools;
     } catch (error) {
       this.emitError(error, 'Failed to fetch tools:');
@@ -592,9 +762,11 @@ export class MCPConnection extends EventEmitter {
   public async isConnected(): Promise<boolean> {
     try {
       await this.client.ping();
+      this.lastPingAt = Date.now();
       return this.connectionState === 'connected';
     } catch (error) {
       logger.error(`${this.getLogPrefix()} Ping failed:`, error);
+      this.recordError(error, 'Ping failed:');
       return false;
     }
   }
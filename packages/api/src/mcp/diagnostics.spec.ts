@@ -0,0 +1,21 @@
+import { getLatencyPercentiles, pushRecent } from './diagnostics';
+
+describe('getLatencyPercentiles', () => {
+  it('should have no percentiles without samples', () => {
+    expect(getLatencyPercentiles([])).toEqual({ count: 0 });
+  });
+
+  it('should compute nearest-rank percentiles regardless of sample order', () => {
+    const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+    expect(getLatencyPercentiles(samples)).toEqual({ count: 100, p50: 50, p95: 95, p99: 99 });
+    expect(getLatencyPercentiles([20])).toEqual({ count: 1, p50: 20, p95: 20, p99: 20 });
+  });
+});
+
+describe('pushRecent', () => {
+  it('should keep the most recent items first, up to the maximum', () => {
+    const list: number[] = [];
+    [1, 2, 3, 4].forEach((item) => pushRecent(list, item, 3));
+    expect(list).toEqual([4, 3, 2]);
+  });
+});
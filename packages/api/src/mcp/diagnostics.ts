@@ -0,0 +1,34 @@
+import type { TMCPLatency } from 'librechat-data-provider';
+
+/** Number of recent errors kept per connection */
+export const MAX_RECENT_ERRORS = 10;
+/** Number of recent tool call durations kept per connection */
+export const MAX_LATENCY_SAMPLES = 100;
+
+/** Adds an item to the start of a list, dropping the oldest items beyond `max` */
+export function pushRecent<T>(list: T[], item: T, max: number): void {
+  list.unshift(item);
+  if (list.length > max) {
+    list.length = max;
+  }
+}
+
+/** Nearest-rank percentile of sorted samples */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+}
+
+/** Latency percentiles of tool call durations, in milliseconds */
+export function getLatencyPercentiles(samples: number[]): TMCPLatency {
+  if (samples.length === 0) {
+    return { count: 0 };
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+}
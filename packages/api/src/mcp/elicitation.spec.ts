@@ -0,0 +1,55 @@
+import type * as t from './types';
+import { parseElicitationContent } from './elicitation';
+
+const requestedSchema: t.MCPElicitationRequest['requestedSchema'] = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', title: 'Name', minLength: 2 },
+    size: { type: 'string', enum: ['small', 'large'], enumNames: ['Small', 'Large'] },
+    quantity: { type: 'integer', minimum: 1, maximum: 10 },
+    express: { type: 'boolean' },
+  },
+  required: ['name', 'quantity'],
+};
+
+describe('parseElicitationContent', () => {
+  it('should return the fields the schema defines, without empty optional fields', () => {
+    const result = parseElicitationContent(requestedSchema, {
+      name: 'Ada',
+      size: null,
+      quantity: 3,
+      express: true,
+      extra: 'ignored',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      content: { name: 'Ada', quantity: 3, express: true },
+    });
+  });
+
+  it('should reject missing required fields and values of the wrong type', () => {
+    expect(parseElicitationContent(requestedSchema, { name: 'Ada' })).toMatchObject({
+      success: false,
+      error: expect.stringContaining('quantity'),
+    });
+    expect(
+      parseElicitationContent(requestedSchema, { name: 'Ada', quantity: 1, size: 'medium' }),
+    ).toMatchObject({ success: false, error: expect.stringContaining('size') });
+  });
+
+  it('should enforce the constraints of the requested fields', () => {
+    expect(parseElicitationContent(requestedSchema, { name: 'Ada', quantity: 1.5 })).toEqual({
+      success: false,
+      error: 'quantity: must be a whole number',
+    });
+    expect(parseElicitationContent(requestedSchema, { name: 'Ada', quantity: 11 })).toEqual({
+      success: false,
+      error: 'quantity: must be at most 10',
+    });
+    expect(parseElicitationContent(requestedSchema, { name: 'A', quantity: 1 })).toEqual({
+      success: false,
+      error: 'name: must be at least 2 characters',
+    });
+  });
+});
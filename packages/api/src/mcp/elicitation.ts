@@ -0,0 +1,82 @@
+import type { TMCPElicitationField } from 'librechat-data-provider';
+import type { JsonSchemaType } from '~/types';
+import type * as t from './types';
+import { convertJsonSchemaToZod } from './zod';
+
+type ElicitationSchema = t.MCPElicitationRequest['requestedSchema'];
+
+export type ElicitationContentResult =
+  | { success: true; content: Record<string, string | number | boolean> }
+  | { success: false; error: string };
+
+function toJsonSchema(field: TMCPElicitationField): JsonSchemaType {
+  return {
+    type: field.type === 'integer' ? 'number' : field.type,
+    enum: field.enum,
+    description: field.description,
+  };
+}
+
+/** Constraints of a field that its JSON schema conversion does not validate */
+function getConstraintError(
+  field: TMCPElicitationField,
+  value: string | number | boolean,
+): string | undefined {
+  if (typeof value === 'number') {
+    if (field.type === 'integer' && !Number.isInteger(value)) {
+      return 'must be a whole number';
+    }
+    if (field.minimum != null && value < field.minimum) {
+      return `must be at least ${field.minimum}`;
+    }
+    if (field.maximum != null && value > field.maximum) {
+      return `must be at most ${field.maximum}`;
+    }
+  } else if (typeof value === 'string') {
+    if (field.minLength != null && value.length < field.minLength) {
+      return `must be at least ${field.minLength} characters`;
+    }
+    if (field.maxLength != null && value.length > field.maxLength) {
+      return `must be at most ${field.maxLength} characters`;
+    }
+  }
+}
+
+/**
+ * Validates the user's answer to an elicitation request against the schema the server requested,
+ * dropping fields the schema does not define and optional fields the user left empty.
+ */
+export function parseElicitationContent(
+  requestedSchema: ElicitationSchema,
+  content: unknown,
+): ElicitationContentResult {
+  const properties = requestedSchema.properties as Record<string, TMCPElicitationField>;
+  const schema = convertJsonSchemaToZod({
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([name, field]) => [name, toJsonSchema(field)]),
+    ),
+    required: requestedSchema.required,
+  });
+  const result = schema?.safeParse(content ?? {});
+  if (!result?.success) {
+    const issue = result?.error.issues[0];
+    return {
+      success: false,
+      error: issue ? `${issue.path.join('.') || 'content'}: ${issue.message}` : 'Invalid content',
+    };
+  }
+
+  const parsed: Record<string, string | number | boolean> = {};
+  for (const [name, value] of Object.entries(result.data as Record<string, unknown>)) {
+    if (value == null || (value === '' && requestedSchema.required?.includes(name) !== true)) {
+      continue;
+    }
+    const error = getConstraintError(properties[name], value as string | number | boolean);
+    if (error) {
+      return { success: false, error: `${name}: ${error}` };
+    }
+    parsed[name] = value as string | number | boolean;
+  }
+  return { success: true, content: parsed };
+}
@@ -1,5 +1,7 @@
 export enum CONSTANTS {
   mcp_delimiter = '_mcp_',
+  /** Tool added for servers with resources, unless the server defines a tool of the same name */
+  read_resource = 'read_resource',
   /** System user ID for app-level OAuth tokens (all zeros ObjectId) */
   SYSTEM_USER_ID = '000000000000000000000000',
 }
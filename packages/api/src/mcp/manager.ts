@@ -3,7 +3,12 @@ import { CallToolResultSchema, ErrorCode, McpError } from '@modelcontextprotocol
 import type { OAuthClientInformation } from '@modelcontextprotocol/sdk/shared/auth.js';
 import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import type { TokenMethods } from '@librechat/data-schemas';
-import type { TUser } from 'librechat-data-provider';
+import type {
+  TUser,
+  TMCPPrompt,
+  TMCPResourcesResponse,
+  TMCPConnectionDiagnostics,
+} from 'librechat-data-provider';
 import type { MCPOAuthTokens, MCPOAuthFlowMetadata } from './oauth/types';
 import type { FlowStateManager } from '~/flow/manager';
 import type { JsonSchemaType } from '~/types/zod';
@@ -12,22 +17,47 @@ import type * as t from './types';
 import { CONSTANTS, isSystemUserId } from './enum';
 import { MCPOAuthHandler } from './oauth/handler';
 import { MCPTokenStorage } from './oauth/tokens';
-import { formatToolContent } from './parsers';
+import { formatToolContent, resourceContentsToToolResponse } from './parsers';
+import { getToolCacheKey, getToolCacheTTL, waitForSharedResult } from './toolCache';
+import { isToolAllowed, getToolDescription, requiresToolApproval } from './utils';
 import { MCPConnection } from './connection';
 import { processMCPEnv } from '~/utils/env';
 
+/** Identifies the connection a request is made on, see `MCPManager.getRequestConnection` */
+type ConnectionRequest = {
+  user?: TUser;
+  serverName: string;
+  flowManager: FlowStateManager<MCPOAuthTokens | null>;
+  tokenMethods?: TokenMethods;
+  customUserVars?: Record<string, string>;
+  oauthStart?: (authURL: string) => Promise<void>;
+  oauthEnd?: () => Promise<void>;
+  signal?: AbortSignal;
+};
+
 export class MCPManager {
   private static instance: MCPManager | null = null;
   /** App-level connections initialized at startup */
   private connections: Map<string, MCPConnection> = new Map();
+  /** App-level connections that failed to initialize or were disconnected from the health dashboard */
+  private inactiveConnections: Map<string, MCPConnection> = new Map();
   /** User-specific connections initialized on demand */
   private userConnections: Map<string, Map<string, MCPConnection>> = new Map();
   /** Last activity timestamp for users (not per server) */
   private userLastActivity: Map<string, number> = new Map();
   private readonly USER_CONNECTION_IDLE_TIMEOUT = 15 * 60 * 1000; // 15 minutes (TODO: make configurable)
   private mcpConfigs: t.MCPServers = {};
+  /** Servers users registered themselves, by user; only available through user connections */
+  private userMCPConfigs: Map<string, t.MCPServers> = new Map();
   /** Store MCP server instructions */
   private serverInstructions: Map<string, string> = new Map();
+  /**
+   * Resources users subscribed to, by user and server, with the time of the last update received.
+   * Kept across idle disconnects and restored when the user connects again.
+   */
+  private resourceSubscriptions: Map<string, Map<string, Map<string, Date | null>>> = new Map();
+  /** Tool calls awaiting results to cache, by cache key, shared by identical calls made meanwhile */
+  private pendingToolResults: Map<string, Promise<t.MCPToolCallResponse>> = new Map();
 
   public static getInstance(): MCPManager {
     if (!MCPManager.instance) {
@@ -226,6 +256,7 @@ export class MCPManager {
           }
         } catch (error) {
           logger.error(`[MCP][${serverName}] Initialization failed`, error);
+          this.inactiveConnections.set(serverName, connection);
           throw error;
         }
       }),
@@ -370,6 +401,29 @@ export class MCPManager {
     );
   }
 
+  /** Sets the servers a user registered, replacing those set before */
+  public setUserMCPServers(userId: string, mcpServers: t.MCPServers): void {
+    this.userMCPConfigs.set(userId, mcpServers);
+  }
+
+  /** Removes the servers a user registered, until they are set again */
+  public removeUserMCPServers(userId: string): void {
+    this.userMCPConfigs.delete(userId);
+  }
+
+  /** Whether the servers a user registered were set since startup */
+  public hasUserMCPServers(userId: string): boolean {
+    return this.userMCPConfigs.has(userId);
+  }
+
+  /** Config of an app-level server, or of a server the user registered */
+  public getServerConfig(serverName: string, userId?: string): t.MCPOptions | undefined {
+    return (
+      this.mcpConfigs[serverName] ??
+      (userId ? this.userMCPConfigs.get(userId)?.[serverName] : undefined)
+    );
+  }
+
   /** Gets or creates a connection for a specific user */
   public async getUserConnection({
     user,
@@ -431,14 +485,21 @@ export class MCPManager {
     }
 
     let config = this.mcpConfigs[serverName];
-    if (!config) {
+    const userConfig = this.userMCPConfigs.get(userId)?.[serverName];
+    /** Servers users registered may only be reached on public networks */
+    const publicNetworkOnly = !config;
+    if (config) {
+      config = { ...(processMCPEnv(config, user, customUserVars) ?? {}) };
+    } else if (userConfig) {
+      /** Servers users registered must not reference the environment, so are used as is */
+      config = { ...userConfig };
+    } else {
       throw new McpError(
         ErrorCode.InvalidRequest,
         `[MCP][User: ${userId}] Configuration for server "${serverName}" not found.`,
       );
     }
 
-    config = { ...(processMCPEnv(config, user, customUserVars) ?? {}) };
     /** If no in-memory tokens, tokens from persistent storage */
     let tokens: MCPOAuthTokens | null = null;
     if (tokenMethods?.findToken) {
@@ -463,6 +524,7 @@ export class MCPManager {
               clientInfo: metadata.clientInfo,
             },
             config.oauth,
+            publicNetworkOnly,
           );
         };
 
@@ -495,7 +557,15 @@ export class MCPManager {
       logger.info(`[MCP][User: ${userId}][${serverName}] Loaded OAuth tokens`);
     }
 
-    connection = new MCPConnection(serverName, config, userId, tokens);
+    connection = new MCPConnection(serverName, config, userId, tokens, publicNetworkOnly);
+
+    connection.on('resourceUpdated', (uri: string) => {
+      const subscriptions = this.resourceSubscriptions.get(userId)?.get(serverName);
+      if (subscriptions?.has(uri)) {
+        logger.debug(`[MCP][User: ${userId}][${serverName}] Resource updated: ${uri}`);
+        subscriptions.set(uri, new Date());
+      }
+    });
 
     connection.on('oauthRequired', async (data) => {
       logger.info(`[MCP][User: ${userId}][${serverName}] oauthRequired event received`);
@@ -566,6 +636,7 @@ export class MCPManager {
       logger.info(`[MCP][User: ${userId}][${serverName}] Connection successfully established`);
       // Update timestamp on creation
       this.updateUserLastActivity(userId);
+      await this.restoreResourceSubscriptions(userId, serverName, connection);
       return connection;
     } catch (error) {
       logger.error(`[MCP][User: ${userId}][${serverName}] Failed to establish connection`, error);
@@ -582,6 +653,28 @@ export class MCPManager {
     }
   }
 
+  /** Subscribes a new user connection to the resources the user subscribed to before */
+  private async restoreResourceSubscriptions(
+    userId: string,
+    serverName: string,
+    connection: MCPConnection,
+  ): Promise<void> {
+    const subscriptions = this.resourceSubscriptions.get(userId)?.get(serverName);
+    if (!subscriptions?.size) {
+      return;
+    }
+    await Promise.allSettled(
+      Array.from(subscriptions.keys()).map((uri) =>
+        connection.subscribeResource(uri).catch((error) => {
+          logger.warn(
+            `[MCP][User: ${userId}][${serverName}] Failed to restore subscription to ${uri}`,
+            error,
+          );
+        }),
+      ),
+    );
+  }
+
   /** Removes a specific user connection entry */
   private removeUserConnection(userId: string, serverName: string): void {
     // Remove connection object
@@ -714,7 +807,7 @@ export class MCPManager {
         }
 
         const tools = await connection.fetchTools();
-        for (const tool of tools) {
+        for (const tool of this.filterServerTools(tools, serverName)) {
           const name = `${tool.name}${CONSTANTS.mcp_delimiter}${serverName}`;
           availableTools[name] = {
             type: 'function',
@@ -725,6 +818,14 @@ export class MCPManager {
             },
           };
         }
+
+        const readResourceTool = this.getReadResourceTool(serverName, connection, tools);
+        if (readResourceTool) {
+          availableTools[readResourceTool.name] = {
+            type: 'function',
+            ['function']: readResourceTool,
+          };
+        }
       } catch (error) {
         logger.warn(`[MCP][${serverName}] Error fetching tools`, error);
       }
@@ -773,7 +874,7 @@ export class MCPManager {
 
         const tools = await connection.fetchTools();
         const serverTools: t.LCManifestTool[] = [];
-        for (const tool of tools) {
+        for (const tool of this.filterServerTools(tools, serverName)) {
           const pluginKey = `${tool.name}${CONSTANTS.mcp_delimiter}${serverName}`;
 
           const config = this.mcpConfigs[serverName];
@@ -796,6 +897,21 @@ export class MCPManager {
           mcpTools.push(manifestTool);
           serverTools.push(manifestTool);
         }
+
+        const readResourceTool = this.getReadResourceTool(serverName, connection, tools);
+        if (readResourceTool) {
+          const manifestTool: t.LCManifestTool = {
+            name: CONSTANTS.read_resource,
+            pluginKey: readResourceTool.name,
+            description: readResourceTool.description ?? '',
+            icon: connection.iconPath,
+          };
+          if (this.mcpConfigs[serverName]?.chatMenu === false) {
+            manifestTool.chatMenu = false;
+          }
+          mcpTools.push(manifestTool);
+          serverTools.push(manifestTool);
+        }
         if (typeof serverToolsCallback === 'function') {
           await serverToolsCallback(serverName, serverTools);
         }
@@ -807,10 +923,154 @@ export class MCPManager {
     return mcpTools;
   }
 
+  /**
+   * Resolves the connection for a request: a user-specific connection if a user is provided,
+   * otherwise the app-level connection. Updates the last activity timestamp for users.
+   */
+  private async getRequestConnection(
+    {
+      user,
+      serverName,
+      flowManager,
+      tokenMethods,
+      customUserVars,
+      oauthStart,
+      oauthEnd,
+      signal,
+    }: ConnectionRequest,
+    action: string,
+  ): Promise<MCPConnection> {
+    let connection: MCPConnection | undefined;
+    const userId = user?.id;
+    const logPrefix = userId ? `[MCP][User: ${userId}][${serverName}]` : `[MCP][${serverName}]`;
+
+    if (userId && user) {
+      this.updateUserLastActivity(userId);
+      /** Get or create user-specific connection */
+      connection = await this.getUserConnection({
+        user,
+        serverName,
+        flowManager,
+        tokenMethods,
+        oauthStart,
+        oauthEnd,
+        signal,
+        customUserVars,
+      });
+    } else {
+      /** App-level connection */
+      connection = this.connections.get(serverName);
+      if (!connection) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${logPrefix} No app-level connection found. Cannot ${action}.`,
+        );
+      }
+    }
+
+    if (!(await connection.isConnected())) {
+      /** May happen if getUserConnection failed silently or app connection dropped */
+      throw new McpError(
+        ErrorCode.InternalError, // Use InternalError for connection issues
+        `${logPrefix} Connection is not active. Cannot ${action}.`,
+      );
+    }
+    return connection;
+  }
+
+  /**
+   * Fetches the tools of a server through the user's connection, as definitions keyed by tool name.
+   * Used for the servers users registered, which have no app-level connection to map tools from.
+   */
+  public async fetchUserServerTools(params: ConnectionRequest): Promise<t.LCAvailableTools> {
+    const { serverName } = params;
+    const connection = await this.getRequestConnection(params, 'fetch tools');
+    const tools = await connection.fetchTools();
+    const availableTools: t.LCAvailableTools = {};
+    for (const tool of this.filterServerTools(tools, serverName, params.user?.id)) {
+      const name = `${tool.name}${CONSTANTS.mcp_delimiter}${serverName}`;
+      availableTools[name] = {
+        type: 'function',
+        ['function']: {
+          name,
+          description: tool.description,
+          parameters: tool.inputSchema as JsonSchemaType,
+        },
+      };
+    }
+
+    const readResourceTool = this.getReadResourceTool(
+      serverName,
+      connection,
+      tools,
+      params.user?.id,
+    );
+    if (readResourceTool) {
+      availableTools[readResourceTool.name] = { type: 'function', ['function']: readResourceTool };
+    }
+    return availableTools;
+  }
+
+  /**
+   * Tools of a server that are exposed, per its `allowedTools` and `deniedTools`,
+   * with the descriptions of its `toolDescriptions`
+   */
+  private filterServerTools(tools: t.MCPTool[], serverName: string, userId?: string): t.MCPTool[] {
+    const config = this.getServerConfig(serverName, userId);
+    return tools
+      .filter((tool) => isToolAllowed(config, tool.name))
+      .map((tool) => ({
+        ...tool,
+        description: getToolDescription(config, tool.name, tool.description),
+      }));
+  }
+
+  /**
+   * Builds the `read_resource` tool of a server, if the server supports resources
+   * and does not define a tool of the same name
+   */
+  private getReadResourceTool(
+    serverName: string,
+    connection: MCPConnection,
+    tools: t.MCPTool[],
+    userId?: string,
+  ): t.LCTool | undefined {
+    const config = this.getServerConfig(serverName, userId);
+    if (
+      !connection.client.getServerCapabilities()?.resources ||
+      tools.some((tool) => tool.name === CONSTANTS.read_resource) ||
+      !isToolAllowed(config, CONSTANTS.read_resource)
+    ) {
+      return;
+    }
+    return {
+      name: `${CONSTANTS.read_resource}${CONSTANTS.mcp_delimiter}${serverName}`,
+      description: getToolDescription(
+        config,
+        CONSTANTS.read_resource,
+        `Reads a resource of the "${serverName}" MCP server, such as a file or document, by its URI.`,
+      ),
+      parameters: {
+        type: 'object',
+        properties: {
+          uri: { type: 'string', description: 'The URI of the resource to read' },
+        },
+        required: ['uri'],
+      },
+    };
+  }
+
   /**
    * Calls a tool on an MCP server, using either a user-specific connection
    * (if userId is provided) or an app-level connection. Updates the last activity timestamp
    * for user-specific connections upon successful call initiation.
+   * Calls to the `read_resource` tool added by `getReadResourceTool` read the resource instead.
+   * While the tool runs, sampling requests of servers with `sampling` enabled go to `samplingHandler`,
+   * and elicitation requests go to `elicitationHandler`; progress is reported to `options.onprogress`.
+   * Tools that require approval (see `requiresToolApproval`) are only called once `requestApproval`
+   * resolves, with the arguments it resolves with.
+   * Results of tools the server's `toolCache` applies to are cached in `resultCache`;
+   * `onCachedResult` is called when a call is served from it.
    */
   async callTool({
     user,
@@ -824,6 +1084,11 @@ export class MCPManager {
     oauthStart,
     oauthEnd,
     customUserVars,
+    samplingHandler,
+    elicitationHandler,
+    requestApproval,
+    resultCache,
+    onCachedResult,
   }: {
     user?: TUser;
     serverName: string;
@@ -836,17 +1101,37 @@ export class MCPManager {
     flowManager: FlowStateManager<MCPOAuthTokens | null>;
     oauthStart?: (authURL: string) => Promise<void>;
     oauthEnd?: () => Promise<void>;
+    samplingHandler?: t.SamplingHandler;
+    elicitationHandler?: t.ElicitationHandler;
+    requestApproval?: (toolArguments: Record<string, unknown>) => Promise<Record<string, unknown>>;
+    resultCache?: t.ToolResultCache;
+    onCachedResult?: (cachedAt: number) => void;
   }): Promise<t.FormattedToolResponse> {
-    /** User-specific connection */
-    let connection: MCPConnection | undefined;
     const userId = user?.id;
     const logPrefix = userId ? `[MCP][User: ${userId}][${serverName}]` : `[MCP][${serverName}]`;
+    let removeSamplingHandler: (() => void) | undefined;
+    let removeElicitationHandler: (() => void) | undefined;
 
     try {
-      if (userId && user) {
-        this.updateUserLastActivity(userId);
-        /** Get or create user-specific connection */
-        connection = await this.getUserConnection({
+      const config = this.getServerConfig(serverName, userId);
+      if (!isToolAllowed(config, toolName)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${logPrefix} Tool "${toolName}" is not allowed.`,
+        );
+      }
+      if (requiresToolApproval(config, toolName)) {
+        if (!requestApproval) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `${logPrefix} Tool "${toolName}" requires approval, which is not available here.`,
+          );
+        }
+        toolArguments = await requestApproval(toolArguments ?? {});
+      }
+
+      const connection = await this.getRequestConnection(
+        {
           user,
           serverName,
           flowManager,
@@ -855,53 +1140,393 @@ export class MCPManager {
           oauthEnd,
           signal: options?.signal,
           customUserVars,
-        });
-      } else {
-        /** App-level connection */
-        connection = this.connections.get(serverName);
-        if (!connection) {
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `${logPrefix} No app-level connection found. Cannot execute tool ${toolName}.`,
-          );
-        }
+        },
+        `execute tool ${toolName}`,
+      );
+      if (samplingHandler && config?.sampling) {
+        removeSamplingHandler = connection.addSamplingHandler(samplingHandler);
       }
-
-      if (!(await connection.isConnected())) {
-        /** May happen if getUserConnection failed silently or app connection dropped */
-        throw new McpError(
-          ErrorCode.InternalError, // Use InternalError for connection issues
-          `${logPrefix} Connection is not active. Cannot execute tool ${toolName}.`,
-        );
+      if (elicitationHandler) {
+        removeElicitationHandler = connection.addElicitationHandler(elicitationHandler);
       }
 
-      const result = await connection.client.request(
-        {
-          method: 'tools/call',
-          params: {
-            name: toolName,
-            arguments: toolArguments,
+      const callServer = async (
+        requestOptions: RequestOptions | undefined,
+      ): Promise<t.MCPToolCallResponse> => {
+        const startTime = Date.now();
+        try {
+          return await requestServer(requestOptions);
+        } finally {
+          connection.recordLatency(Date.now() - startTime);
+        }
+      };
+      const requestServer = async (
+        requestOptions: RequestOptions | undefined,
+      ): Promise<t.MCPToolCallResponse> => {
+        if (
+          toolName === CONSTANTS.read_resource &&
+          this.getReadResourceTool(serverName, connection, await connection.fetchTools(), userId)
+        ) {
+          const uri = toolArguments?.uri;
+          if (typeof uri !== 'string' || !uri) {
+            throw new McpError(ErrorCode.InvalidParams, `${logPrefix} Resource URI is required.`);
+          }
+          return resourceContentsToToolResponse(await connection.readResource(uri, requestOptions));
+        }
+        return (await connection.client.request(
+          {
+            method: 'tools/call',
+            params: {
+              name: toolName,
+              arguments: toolArguments,
+            },
           },
-        },
-        CallToolResultSchema,
-        {
-          timeout: connection.timeout,
-          ...options,
-        },
-      );
+          CallToolResultSchema,
+          {
+            timeout: connection.timeout,
+            ...requestOptions,
+          },
+        )) as t.MCPToolCallResponse;
+      };
+
+      let cacheTTL: number | undefined;
+      if (resultCache && config?.toolCache) {
+        const tool = config.toolCache.tools
+          ? undefined
+          : (await connection.fetchTools()).find((serverTool) => serverTool.name === toolName);
+        cacheTTL = getToolCacheTTL(config, toolName, tool);
+      }
+
+      const result =
+        resultCache && cacheTTL != null
+          ? await this.getCachedToolResult({
+              key: getToolCacheKey({ userId, serverName, toolName, toolArguments }),
+              ttl: cacheTTL,
+              resultCache,
+              onCachedResult,
+              signal: options?.signal,
+              /** Shared with identical calls, so not aborted when this one is */
+              callServer: () => callServer({ ...options, signal: undefined }),
+            })
+          : await callServer(options);
       if (userId) {
         this.updateUserLastActivity(userId);
       }
       this.checkIdleConnections();
-      return formatToolContent(result as t.MCPToolCallResponse, provider);
+      return formatToolContent(result, provider);
     } catch (error) {
       // Log with context and re-throw or handle as needed
       logger.error(`${logPrefix}[${toolName}] Tool call failed`, error);
       // Rethrowing allows the caller (createMCPTool) to handle the final user message
       throw error;
+    } finally {
+      removeSamplingHandler?.();
+      removeElicitationHandler?.();
+    }
+  }
+
+  /**
+   * Serves a tool call from the cache, or calls the server and caches its result unless it is an error.
+   * Identical calls made while the server is called share its result; `signal` only stops
+   * this caller from waiting for it.
+   */
+  private async getCachedToolResult({
+    key,
+    ttl,
+    resultCache,
+    onCachedResult,
+    signal,
+    callServer,
+  }: {
+    key: string;
+    ttl: number;
+    resultCache: t.ToolResultCache;
+    onCachedResult?: (cachedAt: number) => void;
+    signal?: AbortSignal;
+    callServer: () => Promise<t.MCPToolCallResponse>;
+  }): Promise<t.MCPToolCallResponse> {
+    const cached = (await resultCache.get(key)) as t.CachedToolResult | undefined;
+    if (cached) {
+      onCachedResult?.(cached.cachedAt);
+      return cached.result;
+    }
+
+    const pending = this.pendingToolResults.get(key);
+    if (pending) {
+      const result = await waitForSharedResult(pending, signal);
+      onCachedResult?.(Date.now());
+      return result;
+    }
+
+    const promise = callServer()
+      .then(async (result) => {
+        if (!result?.isError) {
+          const cachedResult: t.CachedToolResult = { result, cachedAt: Date.now() };
+          await resultCache.set(key, cachedResult, ttl).catch((error) => {
+            logger.error(`[MCP] Failed to cache tool result`, error);
+          });
+        }
+        return result;
+      })
+      .finally(() => this.pendingToolResults.delete(key));
+    this.pendingToolResults.set(key, promise);
+    return await waitForSharedResult(promise, signal);
+  }
+
+  /**
+   * Lists the resources of a server, with the user's subscriptions to them.
+   * Servers that do not support resources have none.
+   */
+  public async listResources(params: ConnectionRequest): Promise<TMCPResourcesResponse> {
+    const connection = await this.getRequestConnection(params, 'list resources');
+    const capabilities = connection.client.getServerCapabilities()?.resources;
+    if (!capabilities) {
+      return { resources: [], subscribable: false };
+    }
+
+    const resources = await connection.fetchResources();
+    const subscriptions = params.user?.id
+      ? this.resourceSubscriptions.get(params.user.id)?.get(params.serverName)
+      : undefined;
+    return {
+      subscribable: capabilities.subscribe === true,
+      resources: resources.map(({ uri, name, description, mimeType }) => ({
+        uri,
+        name,
+        description,
+        mimeType,
+        subscribed: subscriptions?.has(uri) ?? false,
+        updatedAt: subscriptions?.get(uri)?.toISOString(),
+      })),
+    };
+  }
+
+  /** Reads the contents of a resource (`resources/read`) */
+  public async readResource({
+    uri,
+    options,
+    ...params
+  }: ConnectionRequest & { uri: string; options?: RequestOptions }): Promise<
+    t.MCPResourceContents[]
+  > {
+    const connection = await this.getRequestConnection(
+      { ...params, signal: options?.signal },
+      `read resource ${uri}`,
+    );
+    return await connection.readResource(uri, options);
+  }
+
+  /** Subscribes the user to updates of a resource, tracked until they unsubscribe */
+  public async subscribeResource({
+    uri,
+    ...params
+  }: ConnectionRequest & { user: TUser; uri: string }): Promise<void> {
+    const connection = await this.getRequestConnection(params, `subscribe to resource ${uri}`);
+    if (connection.client.getServerCapabilities()?.resources?.subscribe !== true) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `[MCP][${params.serverName}] Server does not support resource subscriptions.`,
+      );
+    }
+
+    await connection.subscribeResource(uri);
+    const userId = params.user.id as string;
+    let userSubscriptions = this.resourceSubscriptions.get(userId);
+    if (!userSubscriptions) {
+      userSubscriptions = new Map();
+      this.resourceSubscriptions.set(userId, userSubscriptions);
+    }
+    let subscriptions = userSubscriptions.get(params.serverName);
+    if (!subscriptions) {
+      subscriptions = new Map();
+      userSubscriptions.set(params.serverName, subscriptions);
+    }
+    if (!subscriptions.has(uri)) {
+      subscriptions.set(uri, null);
+    }
+  }
+
+  /**
+   * Lists the prompts of every server the user is connected to, using the user's connection
+   * if there is one and the app-level connection otherwise. Servers are not connected to list prompts.
+   */
+  public async listPrompts(userId?: string): Promise<TMCPPrompt[]> {
+    const connections = new Map(this.connections);
+    for (const [serverName, connection] of (userId && this.userConnections.get(userId)) || []) {
+      connections.set(serverName, connection);
+    }
+
+    const results = await Promise.all(
+      Array.from(connections.entries()).map(async ([serverName, connection]) => {
+        if (!connection.client.getServerCapabilities()?.prompts) {
+          return [];
+        }
+        const prompts = await connection.fetchPrompts();
+        return prompts.map(({ name, description, arguments: args }) => ({
+          serverName,
+          name,
+          description,
+          arguments: args,
+        }));
+      }),
+    );
+    return results.flat();
+  }
+
+  /** Gets a prompt with its arguments filled in (`prompts/get`) */
+  public async getPrompt({
+    name,
+    promptArguments,
+    options,
+    ...params
+  }: ConnectionRequest & {
+    name: string;
+    promptArguments?: Record<string, string>;
+    options?: RequestOptions;
+  }): Promise<t.MCPGetPromptResult> {
+    const connection = await this.getRequestConnection(
+      { ...params, signal: options?.signal },
+      `get prompt ${name}`,
+    );
+    return await connection.client.getPrompt(
+      { name, arguments: promptArguments },
+      { timeout: connection.timeout, ...options },
+    );
+  }
+
+  /** Unsubscribes the user from updates of a resource */
+  public async unsubscribeResource({
+    uri,
+    ...params
+  }: ConnectionRequest & { user: TUser; uri: string }): Promise<void> {
+    const userId = params.user.id as string;
+    const userSubscriptions = this.resourceSubscriptions.get(userId);
+    if (!userSubscriptions?.get(params.serverName)?.delete(uri)) {
+      return;
+    }
+    if (userSubscriptions.get(params.serverName)?.size === 0) {
+      userSubscriptions.delete(params.serverName);
+    }
+    if (userSubscriptions.size === 0) {
+      this.resourceSubscriptions.delete(userId);
+    }
+
+    const connection = await this.getRequestConnection(params, `unsubscribe from resource ${uri}`);
+    await connection.unsubscribeResource(uri);
+  }
+
+  /** Diagnostics of all app-level connections, including inactive ones, and of all user connections */
+  public getConnectionDiagnostics(): TMCPConnectionDiagnostics[] {
+    const diagnostics = [...this.connections.values(), ...this.inactiveConnections.values()].map(
+      (connection) => connection.getDiagnostics(),
+    );
+    for (const [userId, userMap] of this.userConnections) {
+      const lastActivityAt = this.userLastActivity.get(userId);
+      for (const connection of userMap.values()) {
+        diagnostics.push({ ...connection.getDiagnostics(), lastActivityAt });
+      }
+    }
+    return diagnostics;
+  }
+
+  /** Finds a user's connection if `userId` is set, otherwise an app-level connection */
+  private findConnection(serverName: string, userId?: string): MCPConnection {
+    const connection = userId
+      ? this.userConnections.get(userId)?.get(serverName)
+      : (this.connections.get(serverName) ?? this.inactiveConnections.get(serverName));
+    if (!connection) {
+      const userPart = userId ? `[User: ${userId}]` : '';
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `[MCP]${userPart}[${serverName}] No connection found.`,
+      );
+    }
+    return connection;
+  }
+
+  /** Reconnects an app-level connection, or a user's connection, from the health dashboard */
+  public async reconnectServer({
+    serverName,
+    userId,
+    flowManager,
+  }: {
+    serverName: string;
+    userId?: string;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+  }): Promise<void> {
+    const connection = this.findConnection(serverName, userId);
+    const logPrefix = userId ? `[MCP][User: ${userId}][${serverName}]` : `[MCP][${serverName}]`;
+    logger.info(`${logPrefix} Reconnecting...`);
+    await this.initializeServer({ connection, logPrefix, flowManager, handleOAuth: false });
+    if (!userId) {
+      this.inactiveConnections.delete(serverName);
+      this.connections.set(serverName, connection);
     }
   }
 
+  /**
+   * Disconnects an app-level connection, or a user's connection, from the health dashboard.
+   * App-level connections remain listed as inactive, so that they can be reconnected.
+   */
+  public async disconnectConnection(serverName: string, userId?: string): Promise<void> {
+    const connection = this.findConnection(serverName, userId);
+    if (userId) {
+      await this.disconnectUserConnection(userId, serverName);
+      return;
+    }
+    logger.info(`[MCP][${serverName}] Disconnecting...`);
+    await connection.disconnect();
+    this.connections.delete(serverName);
+    this.inactiveConnections.set(serverName, connection);
+  }
+
+  /**
+   * Re-runs OAuth for an app-level server: `oauthStart` receives the authorization URL,
+   * and once it is authorized, the tokens are stored and the server is reconnected.
+   * Users authorize their own connections when they use them.
+   */
+  public async reauthorizeServer({
+    serverName,
+    flowManager,
+    tokenMethods,
+    oauthStart,
+  }: {
+    serverName: string;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+    tokenMethods?: TokenMethods;
+    oauthStart: (authURL: string) => Promise<void>;
+  }): Promise<void> {
+    const connection = this.findConnection(serverName);
+    const logPrefix = `[MCP][${serverName}]`;
+    if (!connection.url) {
+      throw new McpError(ErrorCode.InvalidRequest, `${logPrefix} Server does not support OAuth.`);
+    }
+
+    const result = await this.handleOAuthRequired({
+      serverName,
+      serverUrl: connection.url,
+      flowManager,
+      oauthStart,
+    });
+    if (!result?.tokens) {
+      throw new McpError(ErrorCode.InternalError, `${logPrefix} OAuth authorization failed.`);
+    }
+
+    connection.setOAuthTokens(result.tokens);
+    if (tokenMethods?.createToken) {
+      await MCPTokenStorage.storeTokens({
+        userId: CONSTANTS.SYSTEM_USER_ID,
+        serverName,
+        tokens: result.tokens,
+        createToken: tokenMethods.createToken,
+        updateToken: tokenMethods.updateToken,
+        findToken: tokenMethods.findToken,
+        clientInfo: result.clientInfo,
+      });
+    }
+    await this.reconnectServer({ serverName, flowManager });
+  }
+
   /** Disconnects a specific app-level server */
   public async disconnectServer(serverName: string): Promise<void> {
     const connection = this.connections.get(serverName);
@@ -923,13 +1548,15 @@ export class MCPManager {
     this.userLastActivity.clear();
 
     // Disconnect all app-level connections
-    const appDisconnectPromises = Array.from(this.connections.values()).map((connection) =>
+    const appConnections = [...this.connections.values(), ...this.inactiveConnections.values()];
+    const appDisconnectPromises = appConnections.map((connection) =>
       connection.disconnect().catch((error) => {
         logger.error(`[MCP][${connection.serverName}] Error during disconnectAll:`, error);
       }),
     );
     await Promise.allSettled(appDisconnectPromises);
     this.connections.clear();
+    this.inactiveConnections.clear();
 
     logger.info('[MCP] All connections processed for disconnection.');
   }
@@ -1029,7 +1656,7 @@ Please follow these instructions when using tools from the respective MCP server
     }
 
     try {
-      const config = this.mcpConfigs[serverName];
+      const config = this.getServerConfig(serverName, userId);
       logger.debug(`${logPrefix} Checking for existing OAuth flow for ${serverName}...`);
 
       /** Flow ID to check if a flow already exists */
@@ -1060,7 +1687,13 @@ Please follow these instructions when using tools from the respective MCP server
         authorizationUrl,
         flowId: newFlowId,
         flowMetadata,
-      } = await MCPOAuthHandler.initiateOAuthFlow(serverName, serverUrl, userId, config?.oauth);
+      } = await MCPOAuthHandler.initiateOAuthFlow(
+        serverName,
+        serverUrl,
+        userId,
+        config?.oauth,
+        !this.mcpConfigs[serverName],
+      );
 
       if (typeof oauthStart === 'function') {
         logger.info(`${logPrefix} OAuth flow started, issued authorization URL to user`);
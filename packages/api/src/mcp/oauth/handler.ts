@@ -9,6 +9,7 @@ import {
 } from '@modelcontextprotocol/sdk/client/auth.js';
 import { OAuthMetadataSchema } from '@modelcontextprotocol/sdk/shared/auth.js';
 import type { MCPOptions } from 'librechat-data-provider';
+import { assertPublicURL, getPublicNetworkDispatcher } from '../userServers';
 import type { FlowStateManager } from '~/flow/manager';
 import type {
   OAuthClientInformation,
@@ -25,10 +26,30 @@ export class MCPOAuthHandler {
   private static readonly FLOW_TYPE = 'mcp_oauth';
   private static readonly FLOW_TTL = 10 * 60 * 1000; // 10 minutes
 
+  /**
+   * Throws if any of the URLs is on a local or private network. Used for servers users registered,
+   * whose OAuth URLs are chosen by the server and would otherwise be requested on its behalf.
+   */
+  private static async assertPublicURLs(urls: Array<string | URL | undefined>): Promise<void> {
+    for (const url of urls) {
+      if (url) {
+        await assertPublicURL(url);
+      }
+    }
+  }
+
+  /** Request options for the token requests, on public networks only if so required */
+  private static getDispatcherInit(publicNetworkOnly: boolean) {
+    return publicNetworkOnly ? { dispatcher: getPublicNetworkDispatcher() } : {};
+  }
+
   /**
    * Discovers OAuth metadata from the server
    */
-  private static async discoverMetadata(serverUrl: string): Promise<{
+  private static async discoverMetadata(
+    serverUrl: string,
+    publicNetworkOnly = false,
+  ): Promise<{
     metadata: OAuthMetadata;
     resourceMetadata?: OAuthProtectedResourceMetadata;
     authServerUrl: URL;
@@ -37,6 +58,9 @@ export class MCPOAuthHandler {
 
     let authServerUrl = new URL(serverUrl);
     let resourceMetadata: OAuthProtectedResourceMetadata | undefined;
+    if (publicNetworkOnly) {
+      await this.assertPublicURLs([serverUrl]);
+    }
 
     try {
       // Try to discover resource metadata first
@@ -59,6 +83,10 @@ export class MCPOAuthHandler {
       });
     }
 
+    if (publicNetworkOnly) {
+      await this.assertPublicURLs([authServerUrl]);
+    }
+
     // Discover OAuth metadata
     logger.debug(`[MCPOAuth] Discovering OAuth metadata from ${authServerUrl}`);
     const rawMetadata = await discoverOAuthMetadata(authServerUrl);
@@ -70,6 +98,13 @@ export class MCPOAuthHandler {
 
     logger.debug(`[MCPOAuth] OAuth metadata discovered successfully`);
     const metadata = await OAuthMetadataSchema.parseAsync(rawMetadata);
+    if (publicNetworkOnly) {
+      await this.assertPublicURLs([
+        metadata.authorization_endpoint,
+        metadata.token_endpoint,
+        metadata.registration_endpoint,
+      ]);
+    }
 
     logger.debug(`[MCPOAuth] OAuth metadata parsed successfully`);
     return {
@@ -164,6 +199,7 @@ export class MCPOAuthHandler {
     serverUrl: string,
     userId: string,
     config: MCPOptions['oauth'] | undefined,
+    publicNetworkOnly = false,
   ): Promise<{ authorizationUrl: string; flowId: string; flowMetadata: MCPOAuthFlowMetadata }> {
     logger.debug(`[MCPOAuth] initiateOAuthFlow called for ${serverName} with URL: ${serverUrl}`);
 
@@ -211,6 +247,7 @@ export class MCPOAuthHandler {
           codeVerifier,
           clientInfo,
           metadata,
+          publicNetworkOnly,
         };
 
         logger.debug(`[MCPOAuth] Authorization URL generated: ${authorizationUrl.toString()}`);
@@ -222,7 +259,10 @@ export class MCPOAuthHandler {
       }
 
       logger.debug(`[MCPOAuth] Starting auto-discovery of OAuth metadata from ${serverUrl}`);
-      const { metadata, resourceMetadata, authServerUrl } = await this.discoverMetadata(serverUrl);
+      const { metadata, resourceMetadata, authServerUrl } = await this.discoverMetadata(
+        serverUrl,
+        publicNetworkOnly,
+      );
 
       logger.debug(`[MCPOAuth] OAuth metadata discovered, auth server URL: ${authServerUrl}`);
 
@@ -282,6 +322,7 @@ export class MCPOAuthHandler {
         clientInfo,
         metadata,
         resourceMetadata,
+        publicNetworkOnly,
       };
 
       logger.debug(
@@ -329,6 +370,9 @@ export class MCPOAuthHandler {
       if (!metadata.metadata || !metadata.clientInfo || !metadata.codeVerifier) {
         throw new Error('Invalid flow metadata');
       }
+      if (metadata.publicNetworkOnly) {
+        await this.assertPublicURLs([metadata.metadata.token_endpoint]);
+      }
 
       const tokens = await exchangeAuthorization(metadata.serverUrl, {
         metadata: metadata.metadata as unknown as SDKOAuthMetadata,
@@ -409,6 +453,7 @@ export class MCPOAuthHandler {
     refreshToken: string,
     metadata: { serverName: string; serverUrl?: string; clientInfo?: OAuthClientInformation },
     config?: MCPOptions['oauth'],
+    publicNetworkOnly = false,
   ): Promise<MCPOAuthTokens> {
     logger.debug(`[MCPOAuth] Refreshing tokens for ${metadata.serverName}`);
 
@@ -439,7 +484,10 @@ export class MCPOAuthHandler {
           throw new Error('No token URL available for refresh');
         } else {
           /** Auto-discover OAuth configuration for refresh */
-          const { metadata: oauthMetadata } = await this.discoverMetadata(metadata.serverUrl);
+          const { metadata: oauthMetadata } = await this.discoverMetadata(
+            metadata.serverUrl,
+            publicNetworkOnly,
+          );
           if (!oauthMetadata.token_endpoint) {
             throw new Error('No token endpoint found in OAuth metadata');
           }
@@ -481,6 +529,7 @@ export class MCPOAuthHandler {
           method: 'POST',
           headers,
           body,
+          ...this.getDispatcherInit(publicNetworkOnly),
         });
 
         if (!response.ok) {
@@ -533,6 +582,7 @@ export class MCPOAuthHandler {
           method: 'POST',
           headers,
           body,
+          ...this.getDispatcherInit(publicNetworkOnly),
         });
 
         if (!response.ok) {
@@ -557,7 +607,10 @@ export class MCPOAuthHandler {
       }
 
       /** Auto-discover OAuth configuration for refresh */
-      const { metadata: oauthMetadata } = await this.discoverMetadata(metadata.serverUrl);
+      const { metadata: oauthMetadata } = await this.discoverMetadata(
+        metadata.serverUrl,
+        publicNetworkOnly,
+      );
 
       if (!oauthMetadata.token_endpoint) {
         throw new Error('No token endpoint found in OAuth metadata');
@@ -579,6 +632,7 @@ export class MCPOAuthHandler {
         method: 'POST',
         headers,
         body,
+        ...this.getDispatcherInit(publicNetworkOnly),
       });
 
       if (!response.ok) {
@@ -82,6 +82,8 @@ export interface MCPOAuthFlowMetadata extends FlowMetadata {
   clientInfo?: OAuthClientInformation;
   metadata?: OAuthMetadata;
   resourceMetadata?: OAuthProtectedResourceMetadata;
+  /** Whether the server's OAuth URLs may only be on public networks, as for servers users registered */
+  publicNetworkOnly?: boolean;
 }
 
 export interface MCPOAuthTokens extends OAuthTokens {
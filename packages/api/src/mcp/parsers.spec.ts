@@ -0,0 +1,52 @@
+import { formatToolContent, resourceContentsToToolResponse } from './parsers';
+
+describe('resourceContentsToToolResponse', () => {
+  it('should convert text contents to embedded resources', () => {
+    const result = resourceContentsToToolResponse([
+      { uri: 'file:///notes.md', mimeType: 'text/markdown', text: '# Notes' },
+    ]);
+    expect(result).toEqual({
+      content: [
+        {
+          type: 'resource',
+          resource: { uri: 'file:///notes.md', mimeType: 'text/markdown', text: '# Notes' },
+        },
+      ],
+    });
+  });
+
+  it('should convert image blobs to image content', () => {
+    const result = resourceContentsToToolResponse([
+      { uri: 'file:///chart.png', mimeType: 'image/png', blob: 'iVBORw0KGgo=' },
+    ]);
+    expect(result?.content).toEqual([
+      { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+    ]);
+  });
+
+  it('should describe other binary contents instead of including them', () => {
+    const result = resourceContentsToToolResponse([
+      { uri: 'file:///report.pdf', mimeType: 'application/pdf', blob: 'JVBERi0=' },
+    ]);
+    expect(result?.content).toEqual([
+      {
+        type: 'text',
+        text: 'Binary resource: file:///report.pdf\nType: application/pdf\nSize: 5 bytes',
+      },
+    ]);
+  });
+
+  it('should format resources like tool output', () => {
+    const [content, artifacts] = formatToolContent(
+      resourceContentsToToolResponse([
+        { uri: 'file:///notes.md', text: 'Hello' },
+        { uri: 'file:///chart.png', mimeType: 'image/png', blob: 'abc=' },
+      ]),
+      'anthropic',
+    );
+    expect(content).toEqual([{ type: 'text', text: 'Hello\nResource URI: file:///notes.md' }]);
+    expect(artifacts).toEqual({
+      content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,abc=' } }],
+    });
+  });
+});
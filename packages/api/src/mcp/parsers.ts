@@ -182,3 +182,31 @@ export function formatToolContent(
 
   return [currentTextBlock, artifacts];
 }
+
+/**
+ * Converts `resources/read` contents into a tool call response, so resources read by agents
+ * are formatted like tool output: text as embedded resources, images as image content,
+ * and other binary contents as a description, since they cannot be passed to the model.
+ *
+ * @param {t.MCPResourceContents[]} contents - The contents of the resource
+ * @returns {t.MCPToolCallResponse} The equivalent tool call response
+ */
+export function resourceContentsToToolResponse(
+  contents: t.MCPResourceContents[],
+): t.MCPToolCallResponse {
+  const content: t.ToolContentPart[] = contents.map((item) => {
+    if (typeof item.text === 'string') {
+      return { type: 'resource', resource: item };
+    }
+    const blob = typeof item.blob === 'string' ? item.blob : '';
+    if (item.mimeType?.startsWith('image/') === true) {
+      return { type: 'image', data: blob, mimeType: item.mimeType };
+    }
+    const bytes = Math.floor((blob.length * 3) / 4) - (blob.match(/=+$/)?.[0].length ?? 0);
+    return {
+      type: 'text',
+      text: `Binary resource: ${item.uri}\nType: ${item.mimeType ?? 'unknown'}\nSize: ${bytes} bytes`,
+    };
+  });
+  return { content };
+}
@@ -0,0 +1,121 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { SamplingHandlerOptions } from './sampling';
+import type * as t from './types';
+import { createSamplingHandler } from './sampling';
+
+const request: t.MCPSamplingRequest = {
+  messages: [{ role: 'user', content: { type: 'text', text: 'Summarize the report' } }],
+  systemPrompt: 'You are a summarizer',
+  maxTokens: 500,
+};
+
+const completion = {
+  text: 'A summary',
+  model: 'gpt-4o',
+  usage: [{ input_tokens: 20, output_tokens: 10, total_tokens: 30 }],
+};
+
+function createOptions(
+  options: t.MCPSamplingOptions,
+  spentTokens = 0,
+): jest.Mocked<SamplingHandlerOptions> {
+  return {
+    serverName: 'reports',
+    userId: 'user-1',
+    options,
+    createCompletion: jest.fn().mockResolvedValue(completion),
+    getSpentTokens: jest.fn().mockResolvedValue(spentTokens),
+    checkBalance: jest.fn().mockResolvedValue(undefined),
+    recordUsage: jest.fn().mockResolvedValue(undefined),
+    requestApproval: jest.fn().mockResolvedValue(true),
+  };
+}
+
+describe('createSamplingHandler', () => {
+  const signal = new AbortController().signal;
+
+  it('should complete the request and record its usage', async () => {
+    const options = createOptions({});
+    const result = await createSamplingHandler(options)(request, signal);
+
+    expect(result).toEqual({
+      role: 'assistant',
+      model: 'gpt-4o',
+      content: { type: 'text', text: 'A summary' },
+    });
+    expect(options.createCompletion).toHaveBeenCalledWith(request, 500, signal);
+    expect(options.recordUsage).toHaveBeenCalledWith(completion);
+    expect(options.getSpentTokens).not.toHaveBeenCalled();
+    expect(options.requestApproval).not.toHaveBeenCalled();
+  });
+
+  it('should limit the completion to the configured and remaining tokens', async () => {
+    const options = createOptions({ maxTokens: 400, tokenBudget: 1000 }, 700);
+    await createSamplingHandler(options)(request, signal);
+
+    expect(options.createCompletion).toHaveBeenCalledWith(request, 300, signal);
+  });
+
+  it('should reject requests once the token budget is spent', async () => {
+    const options = createOptions({ tokenBudget: 1000 }, 1000);
+
+    await expect(createSamplingHandler(options)(request, signal)).rejects.toThrow(McpError);
+    expect(options.createCompletion).not.toHaveBeenCalled();
+  });
+
+  it('should ask for approval and reject requests the user rejects', async () => {
+    const options = createOptions({ requireApproval: true });
+    options.requestApproval.mockResolvedValue(false);
+
+    await expect(createSamplingHandler(options)(request, signal)).rejects.toThrow(
+      'The user rejected the sampling request',
+    );
+    expect(options.requestApproval).toHaveBeenCalledWith(
+      {
+        serverName: 'reports',
+        messages: [{ role: 'user', text: 'Summarize the report' }],
+        systemPrompt: 'You are a summarizer',
+        maxTokens: 500,
+      },
+      signal,
+    );
+    expect(options.createCompletion).not.toHaveBeenCalled();
+  });
+
+  it('should not complete requests the balance of the user cannot cover', async () => {
+    const options = createOptions({ maxTokens: 400 });
+    options.checkBalance.mockRejectedValue(new Error('Insufficient balance'));
+
+    await expect(createSamplingHandler(options)(request, signal)).rejects.toThrow(
+      'Insufficient balance',
+    );
+    expect(options.checkBalance).toHaveBeenCalledWith(400);
+    expect(options.createCompletion).not.toHaveBeenCalled();
+  });
+
+  it('should check the budget of concurrent requests after the previous ones are recorded', async () => {
+    let spentTokens = 0;
+    const options = createOptions({ tokenBudget: 1000 });
+    options.getSpentTokens.mockImplementation(async () => spentTokens);
+    options.createCompletion.mockImplementation(async (_request, maxTokens) => ({
+      ...completion,
+      usage: [{ input_tokens: 0, output_tokens: maxTokens, total_tokens: maxTokens }],
+    }));
+    options.recordUsage.mockImplementation(async ({ usage }) => {
+      spentTokens += usage[0].output_tokens;
+    });
+    const handler = createSamplingHandler(options);
+
+    const results = await Promise.allSettled([
+      handler(request, signal),
+      handler(request, signal),
+      handler(request, signal),
+    ]);
+
+    expect(results.map(({ status }) => status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    expect(options.createCompletion.mock.calls.map(([, maxTokens]) => maxTokens)).toEqual([
+      500, 500,
+    ]);
+    expect(spentTokens).toBe(1000);
+  });
+});
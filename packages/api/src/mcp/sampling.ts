@@ -0,0 +1,231 @@
+import { randomUUID } from 'crypto';
+import { logger } from '@librechat/data-schemas';
+import { Run, GraphEvents } from '@librechat/agents';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { LLMConfig, EventHandler, ModelEndData, StreamEventData } from '@librechat/agents';
+import type { UsageMetadata, MessageContentComplex } from '@langchain/core/messages';
+import type { TMCPSamplingApproval } from 'librechat-data-provider';
+import type * as t from './types';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+type SamplingMessage = t.MCPSamplingRequest['messages'][number];
+
+export interface SamplingCompletion {
+  text: string;
+  model: string;
+  usage: UsageMetadata[];
+}
+
+export interface SamplingHandlerOptions {
+  serverName: string;
+  /** The user whose tokens the server's sampling requests spend */
+  userId: string;
+  options: t.MCPSamplingOptions;
+  /** Completes the request with the model of the conversation */
+  createCompletion: (
+    request: t.MCPSamplingRequest,
+    maxTokens: number,
+    signal: AbortSignal,
+  ) => Promise<SamplingCompletion>;
+  /** Tokens the user spent on the server's sampling requests since the given date */
+  getSpentTokens: (since: Date) => Promise<number>;
+  /** Throws if the user's balance cannot cover a completion of up to `maxTokens` tokens */
+  checkBalance: (maxTokens: number) => Promise<void>;
+  /** Records the tokens of a completion as transactions */
+  recordUsage: (completion: SamplingCompletion) => Promise<void>;
+  /** Asks the user to approve the request; only called if the server requires approval */
+  requestApproval: (
+    approval: Omit<TMCPSamplingApproval, 'flowId' | 'expires_at'>,
+    signal: AbortSignal,
+  ) => Promise<boolean>;
+}
+
+/**
+ * Last sampling request of each user and server with a token budget.
+ * Their requests run one at a time, so each one checks the budget after the previous one
+ * recorded its tokens.
+ */
+const budgetedRequests = new Map<string, Promise<unknown>>();
+
+/** Runs a sampling request after the previous requests of the user and server */
+async function runAfterPreviousRequests<T>(key: string, run: () => Promise<T>): Promise<T> {
+  const previous = budgetedRequests.get(key) ?? Promise.resolve();
+  const result = previous.catch(() => undefined).then(run);
+  const last = result.catch(() => undefined);
+  budgetedRequests.set(key, last);
+  try {
+    return await result;
+  } finally {
+    if (budgetedRequests.get(key) === last) {
+      budgetedRequests.delete(key);
+    }
+  }
+}
+
+/** Transaction context of the tokens spent on the sampling requests of a server */
+export function getSamplingContext(serverName: string): string {
+  return `mcp_sampling:${serverName}`;
+}
+
+/** Text of a sampling message, describing images and audio for the approval prompt */
+export function getSamplingMessageText(message: SamplingMessage): string {
+  const { content } = message;
+  if (content.type === 'text') {
+    return content.text;
+  }
+  return `[${content.type}: ${content.mimeType}]`;
+}
+
+function toLangChainMessage(message: SamplingMessage): HumanMessage | AIMessage {
+  const { content } = message;
+  let messageContent: string | MessageContentComplex[] = getSamplingMessageText(message);
+  if (content.type === 'image') {
+    messageContent = [
+      {
+        type: 'image_url',
+        image_url: { url: `data:${content.mimeType};base64,${content.data}` },
+      },
+    ];
+  }
+  return message.role === 'assistant'
+    ? new AIMessage({ content: messageContent })
+    : new HumanMessage({ content: messageContent });
+}
+
+class UsageHandler implements EventHandler {
+  constructor(private readonly collectedUsage: UsageMetadata[]) {}
+
+  handle(_event: string, data: StreamEventData | ModelEndData): void {
+    const usage = (data as ModelEndData)?.output?.usage_metadata;
+    if (usage) {
+      this.collectedUsage.push(usage);
+    }
+  }
+}
+
+/**
+ * Creates the completion function of a sampling handler, running the request's messages
+ * through a model without tools
+ */
+export function createSamplingCompletion(
+  llmConfig: LLMConfig,
+): SamplingHandlerOptions['createCompletion'] {
+  return async (request, maxTokens, signal) => {
+    const usage: UsageMetadata[] = [];
+    const run = await Run.create({
+      runId: randomUUID(),
+      graphConfig: {
+        type: 'standard',
+        signal,
+        llmConfig: {
+          ...llmConfig,
+          maxTokens,
+          streaming: false,
+          disableStreaming: true,
+        },
+        instructions: request.systemPrompt,
+      },
+      customHandlers: {
+        [GraphEvents.CHAT_MODEL_END]: new UsageHandler(usage),
+      },
+      returnContent: true,
+    });
+
+    const config = {
+      configurable: {
+        provider: llmConfig.provider,
+        thread_id: `mcp-sampling-${run.id}`,
+      },
+      signal,
+      streamMode: 'values',
+      version: 'v2',
+    } as const;
+    const content = await run.processStream(
+      { messages: request.messages.map(toLangChainMessage) },
+      config,
+    );
+
+    const text = (content ?? [])
+      .map((part) => (part.type === 'text' && 'text' in part ? part.text : ''))
+      .join('');
+    const model =
+      'model' in llmConfig && typeof llmConfig.model === 'string' ? llmConfig.model : '';
+    return { text, model, usage };
+  };
+}
+
+/**
+ * Creates the handler of a server's `sampling/createMessage` requests:
+ * requests are limited to the server's token budget and the user's balance and, if configured,
+ * approved by the user before being completed, and the tokens they use are recorded.
+ * With a token budget, the requests of the user to the server run one at a time.
+ */
+export function createSamplingHandler({
+  serverName,
+  userId,
+  options,
+  createCompletion,
+  getSpentTokens,
+  checkBalance,
+  recordUsage,
+  requestApproval,
+}: SamplingHandlerOptions): t.SamplingHandler {
+  const handleRequest: t.SamplingHandler = async (request, signal) => {
+    if (signal.aborted) {
+      throw new McpError(ErrorCode.InvalidRequest, 'The sampling request was cancelled');
+    }
+    let maxTokens = Math.min(request.maxTokens, options.maxTokens ?? Infinity);
+
+    if (options.tokenBudget != null) {
+      const spentTokens = await getSpentTokens(new Date(Date.now() - ONE_DAY));
+      const remainingTokens = options.tokenBudget - spentTokens;
+      if (remainingTokens <= 0) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `The daily sampling budget of ${options.tokenBudget} tokens for "${serverName}" is spent`,
+        );
+      }
+      maxTokens = Math.min(maxTokens, remainingTokens);
+    }
+
+    if (options.requireApproval === true) {
+      const approved = await requestApproval(
+        {
+          serverName,
+          messages: request.messages.map((message) => ({
+            role: message.role,
+            text: getSamplingMessageText(message),
+          })),
+          systemPrompt: request.systemPrompt,
+          maxTokens,
+        },
+        signal,
+      );
+      if (!approved) {
+        throw new McpError(ErrorCode.InvalidRequest, 'The user rejected the sampling request');
+      }
+    }
+
+    await checkBalance(maxTokens);
+    const completion = await createCompletion(request, maxTokens, signal);
+    try {
+      await recordUsage(completion);
+    } catch (error) {
+      logger.error(`[MCP][${serverName}] Error recording sampling usage:`, error);
+    }
+
+    return {
+      role: 'assistant',
+      model: completion.model,
+      content: { type: 'text', text: completion.text },
+    };
+  };
+
+  if (options.tokenBudget == null) {
+    return handleRequest;
+  }
+  return (request, signal) =>
+    runAfterPreviousRequests(`${userId}:${serverName}`, () => handleRequest(request, signal));
+}
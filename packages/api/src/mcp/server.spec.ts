@@ -0,0 +1,123 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { fillPrompt, getPromptArguments, createLibreChatMCPServer } from './server';
+import type { LibreChatMCPServerOptions } from './server';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: { error: jest.fn() },
+}));
+
+describe('getPromptArguments', () => {
+  it('should list the variables of a prompt once, without special variables', () => {
+    expect(
+      getPromptArguments(
+        'Write a {{tone:formal|casual}} email to {{name}} about {{topic}}, dated {{current_date}}. Sign as {{name}}.',
+      ),
+    ).toEqual([
+      { name: 'tone', options: ['formal', 'casual'] },
+      { name: 'name', options: undefined },
+      { name: 'topic', options: undefined },
+    ]);
+  });
+});
+
+describe('fillPrompt', () => {
+  it('should replace the given variables only', () => {
+    expect(fillPrompt('A {{tone:formal|casual}} note for {{name}}', { tone: 'casual' })).toBe(
+      'A casual note for {{name}}',
+    );
+  });
+});
+
+describe('createLibreChatMCPServer', () => {
+  const options: LibreChatMCPServerOptions = {
+    agents: {
+      list: async () => [{ id: 'agent_1', name: 'Helper', description: 'Helps' }],
+      run: jest.fn(async ({ text }) => ({ conversationId: 'convo_1', text: `Echo: ${text}` })),
+    },
+    prompts: {
+      list: async () => [
+        { name: 'Summarize', text: 'Summarize {{text}}' },
+        { name: 'summarize', text: 'Briefly summarize {{text}}' },
+      ],
+    },
+    conversations: {
+      list: async () => [{ conversationId: 'convo_1', title: 'First chat' }],
+      getMessages: async (conversationId) =>
+        conversationId === 'convo_1'
+          ? [
+              { sender: 'User', text: 'Hi' },
+              { sender: 'Helper', text: 'Hello!' },
+            ]
+          : null,
+    },
+    files: {
+      list: async () => [{ file_id: 'file_1', filename: 'notes.txt', type: 'text/plain' }],
+      read: async (fileId) =>
+        fileId === 'file_1'
+          ? {
+              file: { file_id: 'file_1', filename: 'notes.txt', type: 'text/plain' },
+              data: Buffer.from('Some notes'),
+            }
+          : null,
+    },
+  };
+
+  async function connect(serverOptions: LibreChatMCPServerOptions) {
+    const server = await createLibreChatMCPServer(serverOptions);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  }
+
+  it('should run agents with the run_agent tool', async () => {
+    const client = await connect(options);
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(['run_agent']);
+    expect(tools[0].description).toContain('agent_1: Helper - Helps');
+
+    const result = await client.callTool({
+      name: 'run_agent',
+      arguments: { agent_id: 'agent_1', message: 'Hi' },
+    });
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Echo: Hi' },
+      { type: 'text', text: 'conversation_id: convo_1' },
+    ]);
+  });
+
+  it('should not publish agents without permission', async () => {
+    const client = await connect({ ...options, agents: undefined, prompts: undefined });
+    expect(client.getServerCapabilities()?.tools).toBeUndefined();
+    expect(client.getServerCapabilities()?.prompts).toBeUndefined();
+  });
+
+  it('should publish prompt groups as prompts with unique names', async () => {
+    const client = await connect(options);
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['summarize', 'summarize-2']);
+
+    const result = await client.getPrompt({ name: 'summarize-2', arguments: { text: 'this' } });
+    expect(result.messages[0].content).toEqual({ type: 'text', text: 'Briefly summarize this' });
+  });
+
+  it('should publish conversations and files as resources', async () => {
+    const client = await connect(options);
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      'librechat://conversations/convo_1',
+      'librechat://files/file_1',
+    ]);
+
+    const conversation = await client.readResource({ uri: 'librechat://conversations/convo_1' });
+    expect(conversation.contents[0].text).toBe('**User**: Hi\n\n**Helper**: Hello!');
+
+    const file = await client.readResource({ uri: 'librechat://files/file_1' });
+    expect(file.contents[0].text).toBe('Some notes');
+
+    await expect(client.readResource({ uri: 'librechat://conversations/missing' })).rejects.toThrow(
+      'Conversation missing not found',
+    );
+  });
+});
@@ -0,0 +1,316 @@
+import { z } from 'zod';
+import { logger } from '@librechat/data-schemas';
+import { specialVariables } from 'librechat-data-provider';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Request as ServerRequest, Response as ServerResponse } from 'express';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+
+/** URI prefix of the resources LibreChat serves */
+export const LIBRECHAT_RESOURCE_SCHEME = 'librechat';
+
+const MAX_RESOURCE_SIZE = 10 * 1024 * 1024;
+
+export interface ServedAgent {
+  id: string;
+  name?: string | null;
+  description?: string | null;
+}
+
+export interface ServedPrompt {
+  name: string;
+  description?: string | null;
+  /** Prompt text, with special variables already replaced */
+  text: string;
+}
+
+export interface ServedConversation {
+  conversationId: string;
+  title?: string | null;
+}
+
+export interface ServedFile {
+  file_id: string;
+  filename: string;
+  type?: string;
+  bytes?: number;
+}
+
+export interface LibreChatMCPServerOptions {
+  /** Agents of the user; omitted if the user may not use agents */
+  agents?: {
+    list: () => Promise<ServedAgent[]>;
+    run: (params: {
+      agent_id: string;
+      text: string;
+      conversationId?: string;
+      signal: AbortSignal;
+    }) => Promise<{ conversationId: string; text: string }>;
+  };
+  /** Prompt groups of the user; omitted if the user may not use prompts */
+  prompts?: {
+    list: () => Promise<ServedPrompt[]>;
+  };
+  conversations: {
+    list: () => Promise<ServedConversation[]>;
+    /** Messages of a conversation of the user, oldest first; null if not found */
+    getMessages: (
+      conversationId: string,
+    ) => Promise<Array<{ sender: string; text: string }> | null>;
+  };
+  files: {
+    list: () => Promise<ServedFile[]>;
+    /** Contents of a file of the user; null if not found or not readable */
+    read: (fileId: string) => Promise<{ file: ServedFile; data: Buffer } | null>;
+  };
+}
+
+export interface PromptArgument {
+  name: string;
+  /** Values offered for `{{name:option1|option2}}` variables */
+  options?: string[];
+}
+
+/** Variables of a prompt, in order of appearance, excluding special variables */
+export function getPromptArguments(text: string): PromptArgument[] {
+  const args = new Map<string, PromptArgument>();
+  for (const [, content] of text.matchAll(/{{([^{}]+?)}}/g)) {
+    const [name, options] = content.split(':');
+    const variable = name.trim();
+    if (args.has(variable) || variable in specialVariables) {
+      continue;
+    }
+    args.set(variable, {
+      name: variable,
+      options: options?.split('|').map((option) => option.trim()),
+    });
+  }
+  return Array.from(args.values());
+}
+
+/** Replaces the variables of a prompt with the given values, leaving unknown ones as they are */
+export function fillPrompt(text: string, values: Record<string, string | undefined>): string {
+  return text.replace(/{{([^{}]+?)}}/g, (match, content: string) => {
+    const value = values[content.split(':')[0].trim()];
+    return value ?? match;
+  });
+}
+
+/** Names usable as MCP prompt names, unique among the user's prompts */
+function getPromptName(name: string, usedNames: Set<string>): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'prompt';
+  let promptName = base;
+  for (let i = 2; usedNames.has(promptName); i++) {
+    promptName = `${base}-${i}`;
+  }
+  usedNames.add(promptName);
+  return promptName;
+}
+
+function isTextMimeType(mimeType?: string): boolean {
+  return (
+    !!mimeType &&
+    (mimeType.startsWith('text/') || /(json|xml|yaml|javascript|csv|markdown)/.test(mimeType))
+  );
+}
+
+function toolError(error: unknown) {
+  return {
+    isError: true,
+    content: [{ type: 'text' as const, text: error instanceof Error ? error.message : `${error}` }],
+  };
+}
+
+async function registerAgents(
+  server: McpServer,
+  agents: NonNullable<LibreChatMCPServerOptions['agents']>,
+): Promise<void> {
+  const list = await agents.list();
+  if (list.length === 0) {
+    return;
+  }
+  const agentList = list
+    .map(
+      (agent) =>
+        `- ${agent.id}: ${agent.name ?? agent.id}${agent.description ? ` - ${agent.description}` : ''}`,
+    )
+    .join('\n');
+  const agentIds = list.map((agent) => agent.id) as [string, ...string[]];
+
+  server.registerTool(
+    'run_agent',
+    {
+      title: 'Run agent',
+      description: `Sends a message to a LibreChat agent and returns its response. Available agents:\n${agentList}`,
+      inputSchema: {
+        agent_id: z.enum(agentIds).describe('ID of the agent to run'),
+        message: z.string().describe('Message to send to the agent'),
+        conversation_id: z
+          .string()
+          .optional()
+          .describe('Conversation to continue, from a previous run; starts a new one if omitted'),
+      },
+    },
+    async ({ agent_id, message, conversation_id }, extra) => {
+      try {
+        const result = await agents.run({
+          agent_id,
+          text: message,
+          conversationId: conversation_id,
+          signal: extra.signal,
+        });
+        return {
+          content: [
+            { type: 'text', text: result.text },
+            { type: 'text', text: `conversation_id: ${result.conversationId}` },
+          ],
+        };
+      } catch (error) {
+        logger.error(`[MCP Server] Error running agent ${agent_id}:`, error);
+        return toolError(error);
+      }
+    },
+  );
+}
+
+async function registerPrompts(
+  server: McpServer,
+  prompts: NonNullable<LibreChatMCPServerOptions['prompts']>,
+): Promise<void> {
+  const usedNames = new Set<string>();
+  for (const prompt of await prompts.list()) {
+    const args = getPromptArguments(prompt.text);
+    const argsSchema = Object.fromEntries(
+      args.map((arg) => [
+        arg.name,
+        z
+          .string()
+          .optional()
+          .describe(arg.options ? `One of: ${arg.options.join(', ')}` : arg.name),
+      ]),
+    );
+    server.registerPrompt(
+      getPromptName(prompt.name, usedNames),
+      { title: prompt.name, description: prompt.description ?? undefined, argsSchema },
+      (values: Record<string, string | undefined>) => ({
+        messages: [
+          { role: 'user', content: { type: 'text', text: fillPrompt(prompt.text, values) } },
+        ],
+      }),
+    );
+  }
+}
+
+function registerConversations(
+  server: McpServer,
+  conversations: LibreChatMCPServerOptions['conversations'],
+): void {
+  server.registerResource(
+    'conversation',
+    new ResourceTemplate(`${LIBRECHAT_RESOURCE_SCHEME}://conversations/{conversationId}`, {
+      list: async () => ({
+        resources: (await conversations.list()).map((convo) => ({
+          uri: `${LIBRECHAT_RESOURCE_SCHEME}://conversations/${convo.conversationId}`,
+          name: convo.title || convo.conversationId,
+          mimeType: 'text/markdown',
+        })),
+      }),
+    }),
+    {
+      description: 'A LibreChat conversation, as a markdown transcript',
+      mimeType: 'text/markdown',
+    },
+    async (uri, { conversationId }): Promise<ReadResourceResult> => {
+      const messages = await conversations.getMessages(`${conversationId}`);
+      if (!messages) {
+        throw new Error(`Conversation ${conversationId} not found`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'text/markdown',
+            text: messages.map(({ sender, text }) => `**${sender}**: ${text}`).join('\n\n'),
+          },
+        ],
+      };
+    },
+  );
+}
+
+function registerFiles(server: McpServer, files: LibreChatMCPServerOptions['files']): void {
+  server.registerResource(
+    'file',
+    new ResourceTemplate(`${LIBRECHAT_RESOURCE_SCHEME}://files/{fileId}`, {
+      list: async () => ({
+        resources: (await files.list())
+          .filter((file) => (file.bytes ?? 0) <= MAX_RESOURCE_SIZE)
+          .map((file) => ({
+            uri: `${LIBRECHAT_RESOURCE_SCHEME}://files/${file.file_id}`,
+            name: file.filename,
+            mimeType: file.type,
+          })),
+      }),
+    }),
+    { description: 'A file uploaded to LibreChat' },
+    async (uri, { fileId }): Promise<ReadResourceResult> => {
+      const result = await files.read(`${fileId}`);
+      if (!result) {
+        throw new Error(`File ${fileId} not found`);
+      }
+      const { file, data } = result;
+      if (data.length > MAX_RESOURCE_SIZE) {
+        throw new Error(`File ${fileId} is too large`);
+      }
+      return {
+        contents: [
+          isTextMimeType(file.type)
+            ? { uri: uri.href, mimeType: file.type, text: data.toString('utf8') }
+            : { uri: uri.href, mimeType: file.type, blob: data.toString('base64') },
+        ],
+      };
+    },
+  );
+}
+
+/**
+ * Creates an MCP server publishing a user's agents as the `run_agent` tool,
+ * their prompt groups as prompts, and their conversations and files as resources.
+ */
+export async function createLibreChatMCPServer(
+  options: LibreChatMCPServerOptions,
+): Promise<McpServer> {
+  const server = new McpServer({ name: 'LibreChat', version: '1.0.0' });
+  if (options.agents) {
+    await registerAgents(server, options.agents);
+  }
+  if (options.prompts) {
+    await registerPrompts(server, options.prompts);
+  }
+  registerConversations(server, options.conversations);
+  registerFiles(server, options.files);
+  return server;
+}
+
+/**
+ * Handles a streamable HTTP request to the LibreChat MCP server of the authenticated user.
+ * The server is stateless: each request is handled by a new server and transport.
+ */
+export async function handleMCPServerRequest(
+  req: ServerRequest,
+  res: ServerResponse,
+  options: LibreChatMCPServerOptions,
+): Promise<void> {
+  const server = await createLibreChatMCPServer(options);
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+  res.on('close', () => {
+    transport.close();
+    server.close();
+  });
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
@@ -0,0 +1,91 @@
+import type * as t from './types';
+import {
+  getToolCacheTTL,
+  getToolCacheKey,
+  waitForSharedResult,
+  DEFAULT_TOOL_CACHE_TTL,
+} from './toolCache';
+
+const readOnlyTool: t.MCPTool = {
+  name: 'search',
+  inputSchema: { type: 'object' },
+  annotations: { readOnlyHint: true },
+};
+
+const writeTool: t.MCPTool = {
+  name: 'write_file',
+  inputSchema: { type: 'object' },
+  annotations: { readOnlyHint: false, destructiveHint: true },
+};
+
+describe('getToolCacheTTL', () => {
+  const url = 'https://example.com/mcp';
+
+  it('should not cache results of servers without `toolCache`', () => {
+    expect(getToolCacheTTL({ url }, 'search', readOnlyTool)).toBeUndefined();
+  });
+
+  it('should only cache read-only tools by default', () => {
+    const options: t.MCPOptions = { url, toolCache: {} };
+    expect(getToolCacheTTL(options, 'search', readOnlyTool)).toBe(DEFAULT_TOOL_CACHE_TTL);
+    expect(
+      getToolCacheTTL(options, 'set', {
+        ...readOnlyTool,
+        annotations: { readOnlyHint: false, idempotentHint: true },
+      }),
+    ).toBeUndefined();
+    expect(getToolCacheTTL(options, 'write_file', writeTool)).toBeUndefined();
+    expect(getToolCacheTTL(options, 'unannotated')).toBeUndefined();
+  });
+
+  it('should only cache the listed tools, with the configured TTL', () => {
+    const options: t.MCPOptions = { url, toolCache: { ttl: 1000, tools: ['write_file'] } };
+    expect(getToolCacheTTL(options, 'write_file', writeTool)).toBe(1000);
+    expect(getToolCacheTTL(options, 'search', readOnlyTool)).toBeUndefined();
+  });
+});
+
+describe('getToolCacheKey', () => {
+  it('should be the same for arguments that only differ in key order', () => {
+    const params = { serverName: 'server', toolName: 'search' };
+    expect(
+      getToolCacheKey({ ...params, toolArguments: { query: 'a', filter: { b: 1, a: [2, 1] } } }),
+    ).toBe(
+      getToolCacheKey({ ...params, toolArguments: { filter: { a: [2, 1], b: 1 }, query: 'a' } }),
+    );
+    expect(getToolCacheKey({ ...params, toolArguments: { filter: { a: [1, 2] } } })).not.toBe(
+      getToolCacheKey({ ...params, toolArguments: { filter: { a: [2, 1] } } }),
+    );
+  });
+
+  it('should differ between users', () => {
+    const params = { serverName: 'server', toolName: 'search', toolArguments: { query: 'a' } };
+    expect(getToolCacheKey({ ...params, userId: 'user1' })).not.toBe(
+      getToolCacheKey({ ...params, userId: 'user2' }),
+    );
+  });
+});
+
+describe('waitForSharedResult', () => {
+  it('should only reject the caller whose signal aborts', async () => {
+    let resolve: (value: string) => void = () => undefined;
+    const shared = new Promise<string>((r) => (resolve = r));
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = waitForSharedResult(shared, first.signal);
+    const secondResult = waitForSharedResult(shared, second.signal);
+    first.abort(new Error('Aborted by the first caller'));
+    resolve('result');
+
+    await expect(firstResult).rejects.toThrow('Aborted by the first caller');
+    await expect(secondResult).resolves.toBe('result');
+  });
+
+  it('should reject at once for aborted signals, and pass through without one', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(waitForSharedResult(Promise.resolve(1), controller.signal)).rejects.toBeDefined();
+    await expect(waitForSharedResult(Promise.resolve(1))).resolves.toBe(1);
+  });
+});
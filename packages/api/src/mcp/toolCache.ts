@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import type * as t from './types';
+
+/** How long tool results are cached if the server's `toolCache` sets no `ttl` */
+export const DEFAULT_TOOL_CACHE_TTL = 5 * 60 * 1000;
+
+/** Sorts the keys of objects, recursively, so that equal arguments serialize the same */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value != null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * How long the results of a tool are cached, per the server's `toolCache` option:
+ * undefined if they are not cached. Only read-only tools are cached unless listed,
+ * as idempotent tools may still write, and a repeated write must reach the server.
+ */
+export function getToolCacheTTL(
+  options: t.MCPOptions | undefined,
+  toolName: string,
+  tool?: t.MCPTool,
+): number | undefined {
+  const toolCache = options?.toolCache;
+  if (!toolCache) {
+    return;
+  }
+  const cached = toolCache.tools
+    ? toolCache.tools.includes(toolName)
+    : tool?.annotations?.readOnlyHint === true;
+  return cached ? (toolCache.ttl ?? DEFAULT_TOOL_CACHE_TTL) : undefined;
+}
+
+/**
+ * Key of the cached result of a tool call. Results of user connections are cached per user,
+ * as they may depend on the user's credentials.
+ */
+export function getToolCacheKey({
+  userId,
+  serverName,
+  toolName,
+  toolArguments,
+}: {
+  userId?: string;
+  serverName: string;
+  toolName: string;
+  toolArguments?: Record<string, unknown>;
+}): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(canonicalize(toolArguments ?? {})))
+    .digest('hex');
+  return `${serverName}:${toolName}:${userId ?? ''}:${hash}`;
+}
+
+/**
+ * Waits for the result of a tool call shared by identical calls, rejecting when `signal` aborts:
+ * the call itself keeps running for the other callers, and to cache its result.
+ */
+export function waitForSharedResult<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason ?? new Error('The operation was aborted'));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,66 @@
+import { MAX_TOOL_EMBEDDINGS, selectRelevantTools } from './toolRetrieval';
+
+/** Embeds texts by whether they mention each topic */
+const topics = ['weather', 'calendar', 'email'];
+const embed = jest.fn(async (texts: string[]) =>
+  texts.map((text) => topics.map((topic) => (text.includes(topic) ? 1 : 0))),
+);
+
+const tools = [
+  { name: 'get_forecast', description: 'Gets the weather forecast' },
+  { name: 'list_events', description: 'Lists calendar events' },
+  { name: 'send_email', description: 'Sends an email' },
+];
+
+describe('selectRelevantTools', () => {
+  beforeEach(() => {
+    embed.mockClear();
+  });
+
+  it('should select the most relevant tools, in their original order', async () => {
+    const selected = await selectRelevantTools({
+      query: 'Email me the weather for my calendar events',
+      tools,
+      k: 2,
+      model: 'test',
+      embed,
+    });
+    expect(selected).toHaveLength(2);
+
+    expect(
+      await selectRelevantTools({
+        query: "What's the weather tomorrow?",
+        tools,
+        k: 1,
+        model: 'test',
+        embed,
+      }),
+    ).toEqual(['get_forecast']);
+  });
+
+  it('should only embed tools once per model', async () => {
+    await selectRelevantTools({ query: 'email', tools, k: 1, model: 'cached', embed });
+    await selectRelevantTools({ query: 'calendar', tools, k: 1, model: 'cached', embed });
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[1][0]).toEqual(['calendar']);
+  });
+
+  it('should evict the least recently used tool embeddings', async () => {
+    const manyTools = Array.from({ length: MAX_TOOL_EMBEDDINGS }, (_tool, i) => ({
+      name: `tool_${i}`,
+    }));
+    await selectRelevantTools({ query: 'email', tools, k: 1, model: 'evicted', embed });
+    await selectRelevantTools({ query: 'email', tools: manyTools, k: 1, model: 'evicted', embed });
+    await selectRelevantTools({ query: 'email', tools, k: 1, model: 'evicted', embed });
+
+    expect(embed).toHaveBeenCalledTimes(3);
+    expect(embed.mock.calls[2][0]).toHaveLength(tools.length + 1);
+  });
+
+  it('should not embed anything if there are no more tools than requested', async () => {
+    expect(
+      await selectRelevantTools({ query: 'email', tools, k: 3, model: 'test', embed }),
+    ).toEqual(tools.map((tool) => tool.name));
+    expect(embed).not.toHaveBeenCalled();
+  });
+});
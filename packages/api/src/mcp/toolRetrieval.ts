@@ -0,0 +1,77 @@
+import { cosineSimilarity } from '~/utils/math';
+
+/** Embeds texts, resolving with one vector per text, in order */
+export type EmbedTexts = (texts: string[]) => Promise<number[][]>;
+
+/** Most tool embeddings to keep cached, evicting the least recently used ones */
+export const MAX_TOOL_EMBEDDINGS = 1000;
+
+/**
+ * Tool embeddings by embedding model and text, as tool definitions rarely change.
+ * Kept in order of use, the least recently used first.
+ */
+const toolEmbeddings = new Map<string, number[]>();
+
+function getToolEmbedding(key: string): number[] | undefined {
+  const embedding = toolEmbeddings.get(key);
+  if (embedding) {
+    toolEmbeddings.delete(key);
+    toolEmbeddings.set(key, embedding);
+  }
+  return embedding;
+}
+
+function setToolEmbedding(key: string, embedding: number[]): number[] {
+  toolEmbeddings.delete(key);
+  toolEmbeddings.set(key, embedding);
+  for (const oldest of toolEmbeddings.keys()) {
+    if (toolEmbeddings.size <= MAX_TOOL_EMBEDDINGS) {
+      break;
+    }
+    toolEmbeddings.delete(oldest);
+  }
+  return embedding;
+}
+
+/**
+ * Selects the `k` tools most relevant to a query, by the similarity of the embeddings
+ * of the query and of the tools' names and descriptions.
+ * Resolves with the names of the selected tools, in their original order.
+ */
+export async function selectRelevantTools({
+  query,
+  tools,
+  k,
+  model,
+  embed,
+}: {
+  query: string;
+  tools: Array<{ name: string; description?: string }>;
+  k: number;
+  /** Embedding model, which tool embeddings are cached for */
+  model: string;
+  embed: EmbedTexts;
+}): Promise<string[]> {
+  if (tools.length <= k || !query.trim()) {
+    return tools.slice(0, Math.max(k, 0)).map((tool) => tool.name);
+  }
+
+  const texts = tools.map((tool) => `${tool.name}: ${tool.description ?? ''}`);
+  const cached = texts.map((text) => getToolEmbedding(`${model}:${text}`));
+  const missing = texts.filter((_text, index) => !cached[index]);
+  const [queryEmbedding, ...missingEmbeddings] = await embed([query, ...missing]);
+  let next = 0;
+  const embeddings = cached.map(
+    (embedding, index) =>
+      embedding ?? setToolEmbedding(`${model}:${texts[index]}`, missingEmbeddings[next++]),
+  );
+
+  const selected = new Set(
+    embeddings
+      .map((embedding, index) => ({ index, score: cosineSimilarity(queryEmbedding, embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(({ index }) => index),
+  );
+  return tools.filter((_tool, index) => selected.has(index)).map((tool) => tool.name);
+}
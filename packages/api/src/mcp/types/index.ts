@@ -31,6 +31,8 @@ export interface MCPResource {
   description?: string;
   mimeType?: string;
 }
+/** Contents returned by `resources/read`: `text` for text resources, base64 `blob` for binary ones */
+export type MCPResourceContents = z.infer<typeof t.ReadResourceResultSchema>['contents'][number];
 export interface LCTool {
   name: string;
   description?: string;
@@ -48,8 +50,24 @@ export type LCToolManifest = TPlugin[];
 export interface MCPPrompt {
   name: string;
   description?: string;
-  arguments?: Array<{ name: string }>;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
 }
+export type MCPGetPromptResult = z.infer<typeof t.GetPromptResultSchema>;
+export type MCPSamplingOptions = NonNullable<MCPOptions['sampling']>;
+export type MCPSamplingRequest = t.CreateMessageRequest['params'];
+export type MCPSamplingResult = t.CreateMessageResult;
+/** Completes a server's `sampling/createMessage` request on behalf of the user of the connection */
+export type SamplingHandler = (
+  request: MCPSamplingRequest,
+  signal: AbortSignal,
+) => Promise<MCPSamplingResult>;
+export type MCPElicitationRequest = t.ElicitRequest['params'];
+export type MCPElicitationResult = t.ElicitResult;
+/** Asks the user of the connection for the input a server's `elicitation/create` request needs */
+export type ElicitationHandler = (
+  request: MCPElicitationRequest,
+  signal: AbortSignal,
+) => Promise<MCPElicitationResult>;
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
 
@@ -65,6 +83,16 @@ export type MCPToolCallResponse =
       isError?: boolean;
     };
 
+/** Store of cached tool results, such as a Keyv instance */
+export interface ToolResultCache {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, ttl?: number): Promise<unknown>;
+}
+export type CachedToolResult = {
+  result: MCPToolCallResponse;
+  cachedAt: number;
+};
+
 export type Provider = 'google' | 'anthropic' | 'openAI';
 
 export type FormattedContent =
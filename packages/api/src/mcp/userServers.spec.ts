@@ -0,0 +1,274 @@
+import { createServer } from 'http';
+import { lookup as dnsLookup } from 'dns';
+import { lookup } from 'dns/promises';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import {
+  assertPublicURL,
+  isPrivateAddress,
+  parseUserMCPServer,
+  validateUserMCPServerHosts,
+  redactUserMCPServerOptions,
+  decryptUserMCPServerOptions,
+  encryptUserMCPServerOptions,
+  getPublicNetworkDispatcher,
+} from './userServers';
+
+jest.mock('dns', () => ({ ...jest.requireActual('dns'), lookup: jest.fn() }));
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+jest.mock('~/crypto', () => ({
+  encryptV2: async (value: string) => `enc:${value}`,
+  decryptV2: async (value: string) => value.replace(/^enc:/, ''),
+}));
+
+describe('parseUserMCPServer', () => {
+  it('should accept remote servers, without options users cannot set', () => {
+    const result = parseUserMCPServer({
+      serverName: 'my-server',
+      config: {
+        type: 'streamable-http',
+        url: 'https://mcp.example.com/mcp',
+        headers: { Authorization: 'Bearer token' },
+        sampling: { tokenBudget: 1000 },
+      },
+    });
+
+    expect(result).toEqual({
+      success: true,
+      serverName: 'my-server',
+      options: {
+        type: 'streamable-http',
+        url: 'https://mcp.example.com/mcp',
+        headers: { Authorization: 'Bearer token' },
+      },
+    });
+  });
+
+  it('should reject local servers and references to environment variables', () => {
+    expect(
+      parseUserMCPServer({ serverName: 'local', config: { type: 'stdio', command: 'rm' } }),
+    ).toMatchObject({ success: false });
+    expect(
+      parseUserMCPServer({ serverName: 'local', config: { command: 'node', args: ['server.js'] } }),
+    ).toMatchObject({ success: false });
+    expect(
+      parseUserMCPServer({
+        serverName: 'leak',
+        config: { type: 'sse', url: 'https://example.com/?key=${OPENAI_API_KEY}' },
+      }),
+    ).toEqual({
+      success: false,
+      error: 'Server options may not reference environment variables',
+    });
+    expect(
+      parseUserMCPServer({
+        serverName: 'leak',
+        config: {
+          type: 'sse',
+          url: 'https://example.com/sse',
+          headers: { 'X-Key': 'prefix ${CREDS_KEY}' },
+        },
+      }),
+    ).toMatchObject({ success: false });
+  });
+
+  it('should reject invalid and reserved server names', () => {
+    const config = { type: 'sse', url: 'https://example.com/sse' };
+    expect(parseUserMCPServer({ serverName: 'has space', config })).toMatchObject({
+      success: false,
+    });
+    expect(parseUserMCPServer({ serverName: 'a_mcp_b', config })).toMatchObject({
+      success: false,
+    });
+    expect(parseUserMCPServer({ serverName: 'github', config }, ['github'])).toEqual({
+      success: false,
+      error: 'The server name "github" is not available',
+    });
+  });
+});
+
+describe('user MCP server hosts', () => {
+  const mockLookup = lookup as unknown as jest.Mock;
+
+  beforeEach(() => {
+    mockLookup.mockReset();
+  });
+
+  it('should identify loopback, private and link-local addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('should reject servers on local or private networks', () => {
+    const error = 'Servers on local or private networks cannot be registered';
+    for (const url of [
+      'http://localhost:3080/mcp',
+      'http://api.localhost/mcp',
+      'http://127.0.0.1/mcp',
+      'http://2130706433/mcp',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]:8000/mcp',
+      'http://[::ffff:10.0.0.1]/mcp',
+    ]) {
+      expect(parseUserMCPServer({ serverName: 'internal', config: { type: 'sse', url } })).toEqual({
+        success: false,
+        error,
+      });
+    }
+    expect(
+      parseUserMCPServer({
+        serverName: 'internal',
+        config: {
+          type: 'sse',
+          url: 'https://mcp.example.com/sse',
+          oauth: { token_url: 'http://10.0.0.5/token' },
+        },
+      }),
+    ).toEqual({ success: false, error });
+  });
+
+  it('should reject hosts resolving to private addresses', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34' }, { address: '10.0.0.8' }]);
+    await expect(
+      validateUserMCPServerHosts({ type: 'sse', url: 'https://internal.example.com/sse' }),
+    ).resolves.toBe('Servers on local or private networks cannot be registered');
+    expect(mockLookup).toHaveBeenCalledWith('internal.example.com', { all: true });
+  });
+
+  it('should accept hosts resolving to public addresses only', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34' }]);
+    await expect(
+      validateUserMCPServerHosts({ type: 'streamable-http', url: 'https://mcp.example.com/mcp' }),
+    ).resolves.toBeNull();
+
+    mockLookup.mockRejectedValue(new Error('ENOTFOUND'));
+    await expect(
+      validateUserMCPServerHosts({ type: 'sse', url: 'https://missing.example.com/sse' }),
+    ).resolves.toBe('The host "missing.example.com" could not be resolved');
+  });
+
+  it('should reject OAuth URLs a server advertises on private networks', async () => {
+    mockLookup.mockResolvedValue([{ address: '192.168.0.10' }]);
+    await expect(assertPublicURL('https://auth.example.com/token')).rejects.toThrow(
+      'Servers on local or private networks cannot be registered: https://auth.example.com/token',
+    );
+    await expect(assertPublicURL(new URL('http://169.254.169.254/token'))).rejects.toThrow();
+
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34' }]);
+    await expect(assertPublicURL('https://auth.example.com/token')).resolves.toBeUndefined();
+  });
+});
+
+describe('getPublicNetworkDispatcher', () => {
+  const mockDNSLookup = dnsLookup as unknown as jest.Mock;
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => res.end('ok'));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await getPublicNetworkDispatcher().close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /** Fetches a URL through the dispatcher, resolving with the reason the request failed */
+  const getFetchError = async (url: string) => {
+    const init = { dispatcher: getPublicNetworkDispatcher() } as RequestInit;
+    const error = await fetch(url, init).then(
+      () => null,
+      (error: Error & { cause?: Error }) => error.cause ?? error,
+    );
+    return error?.message;
+  };
+
+  it('should refuse connections to local and private addresses', async () => {
+    expect(await getFetchError(`http://127.0.0.1:${port}/`)).toBe(
+      '"127.0.0.1" is a local or private address',
+    );
+    expect(await getFetchError(`http://localhost:${port}/`)).toBe(
+      '"localhost" is a local or private address',
+    );
+  });
+
+  it('should check the addresses hosts resolve to when connecting', async () => {
+    mockDNSLookup.mockImplementation((_hostname, _options, callback) =>
+      callback(null, [{ address: '127.0.0.1', family: 4 }]),
+    );
+    expect(await getFetchError(`http://rebind.example.com:${port}/`)).toBe(
+      '"rebind.example.com" resolves to a local or private address',
+    );
+    expect(mockDNSLookup).toHaveBeenCalledWith(
+      'rebind.example.com',
+      expect.objectContaining({ all: true }),
+      expect.any(Function),
+    );
+  });
+});
+
+describe('user MCP server secrets', () => {
+  it('should encrypt, decrypt and redact header values and the OAuth client secret', async () => {
+    const encrypted = await encryptUserMCPServerOptions({
+      type: 'sse',
+      url: 'https://example.com/sse',
+      headers: { 'X-Key': 'secret' },
+      oauth: { client_id: 'client', client_secret: 'client-secret' },
+    });
+
+    expect(encrypted.headers).toEqual({ 'X-Key': 'enc:secret' });
+    expect(encrypted.oauth).toEqual({ client_id: 'client', client_secret: 'enc:client-secret' });
+    expect(await decryptUserMCPServerOptions(encrypted)).toMatchObject({
+      headers: { 'X-Key': 'secret' },
+      oauth: { client_secret: 'client-secret' },
+    });
+    expect(redactUserMCPServerOptions(encrypted)).toMatchObject({
+      headers: { 'X-Key': '' },
+      oauth: { client_id: 'client' },
+    });
+    expect(redactUserMCPServerOptions(encrypted).oauth).not.toHaveProperty('client_secret');
+  });
+
+  it('should keep the previous secrets of values left empty', async () => {
+    const previous = await encryptUserMCPServerOptions({
+      type: 'sse',
+      url: 'https://example.com/sse',
+      headers: { 'X-Key': 'secret', 'X-Removed': 'removed' },
+      oauth: { client_id: 'client', client_secret: 'client-secret' },
+    });
+
+    const encrypted = await encryptUserMCPServerOptions(
+      {
+        type: 'sse',
+        url: 'https://example.com/sse',
+        headers: { 'X-Key': '', 'X-New': 'new' },
+        oauth: { client_id: 'client' },
+      },
+      previous,
+    );
+
+    expect(encrypted.headers).toEqual({ 'X-Key': 'enc:secret', 'X-New': 'enc:new' });
+    expect(encrypted.oauth?.client_secret).toBe('enc:client-secret');
+  });
+});
@@ -0,0 +1,301 @@
+import { isIP } from 'net';
+import { lookup as dnsLookup } from 'dns';
+import { lookup } from 'dns/promises';
+import { Agent, buildConnector } from 'undici';
+import type { LookupFunction } from 'net';
+import { Constants, UserMCPServerOptionsSchema } from 'librechat-data-provider';
+import type { UserMCPServerOptions } from 'librechat-data-provider';
+import { encryptV2, decryptV2 } from '~/crypto';
+
+export type UserMCPServerResult =
+  | { success: true; serverName: string; options: UserMCPServerOptions }
+  | { success: false; error: string };
+
+const serverNamePattern = /^[a-zA-Z0-9_-]{1,64}$/;
+const envReferencePattern = /\$\{[^}]*\}/;
+
+/** IPv4 ranges of loopback, private, link-local and other non-public addresses, as [prefix, bits] */
+const privateIPv4Ranges: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/** The IPv4 address an IPv4-mapped IPv6 address (`::ffff:7f00:1` or `::ffff:127.0.0.1`) embeds */
+function getMappedIPv4(address: string): string | null {
+  const match = /^(?:0*:)*:?ffff:(.+)$/i.exec(address);
+  if (!match) {
+    return null;
+  }
+  if (isIP(match[1]) === 4) {
+    return match[1];
+  }
+  const groups = match[1].split(':');
+  if (groups.length !== 2) {
+    return null;
+  }
+  const value = groups.reduce((total, group) => total * 0x10000 + parseInt(group, 16), 0);
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join('.');
+}
+
+/** Whether an IP address is not publicly routable: loopback, private, link-local and the like */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    const value = ipv4ToNumber(address);
+    return privateIPv4Ranges.some(([prefix, bits]) => {
+      const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+      return (value & mask) >>> 0 === (ipv4ToNumber(prefix) & mask) >>> 0;
+    });
+  }
+  if (version !== 6) {
+    return false;
+  }
+  const normalized = address.toLowerCase();
+  const mapped = getMappedIPv4(normalized);
+  if (mapped) {
+    return isPrivateAddress(mapped);
+  }
+  return (
+    /^(?:0*:)*:?0*1?$/.test(normalized) ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized) ||
+    /^ff/.test(normalized)
+  );
+}
+
+/** Whether a hostname names the local host or, as an IP address, a non-public one */
+function isPrivateHostname(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+/** URLs of the options the server connects to: the server itself and its OAuth token endpoint */
+function getServerURLs(options: UserMCPServerOptions): string[] {
+  const urls = [options.url];
+  if (options.oauth?.token_url) {
+    urls.push(options.oauth.token_url);
+  }
+  return urls.filter((url): url is string => typeof url === 'string');
+}
+
+/** Values of the options that could reference the environment, were they processed like app-level servers */
+function getStringValues(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (value != null && typeof value === 'object') {
+    return Object.values(value).flatMap(getStringValues);
+  }
+  return [];
+}
+
+/**
+ * Validates the name and options of an MCP server a user registers.
+ * Only remote servers are allowed, and their options may not reference environment variables,
+ * which would otherwise expose the values of the host's environment to the server.
+ */
+export function parseUserMCPServer(
+  { serverName, config }: { serverName?: unknown; config?: unknown },
+  reservedNames: string[] = [],
+): UserMCPServerResult {
+  if (typeof serverName !== 'string' || !serverNamePattern.test(serverName)) {
+    return {
+      success: false,
+      error: 'Server names may only contain letters, numbers, hyphens and underscores',
+    };
+  }
+  if (serverName.includes(Constants.mcp_delimiter) || reservedNames.includes(serverName)) {
+    return { success: false, error: `The server name "${serverName}" is not available` };
+  }
+
+  const type = (config as { type?: unknown } | undefined)?.type;
+  if (type !== 'sse' && type !== 'streamable-http') {
+    return { success: false, error: 'Only SSE and streamable HTTP servers can be registered' };
+  }
+  if (getStringValues(config).some((value) => envReferencePattern.test(value))) {
+    return { success: false, error: 'Server options may not reference environment variables' };
+  }
+
+  const result = UserMCPServerOptionsSchema.safeParse(config);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { success: false, error: `${issue.path.join('.') || 'config'}: ${issue.message}` };
+  }
+  if (getServerURLs(result.data).some((url) => isPrivateHostname(new URL(url).hostname))) {
+    return { success: false, error: 'Servers on local or private networks cannot be registered' };
+  }
+  return { success: true, serverName, options: result.data };
+}
+
+/** Error message for the host of a URL, or `null` if it resolves to public addresses only */
+async function getHostError(url: string): Promise<string | null> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateHostname(hostname)) {
+    return 'Servers on local or private networks cannot be registered';
+  }
+  if (isIP(hostname)) {
+    return null;
+  }
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true });
+  } catch {
+    return `The host "${hostname}" could not be resolved`;
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return 'Servers on local or private networks cannot be registered';
+  }
+  return null;
+}
+
+/**
+ * Resolves the hosts of the URLs a user's server connects to, which `parseUserMCPServer` can only
+ * check when they are IP addresses, so that names resolving to local or private addresses are
+ * refused before the server is saved or connected to.
+ * @returns An error message, or `null` if every host resolves to public addresses only
+ */
+export async function validateUserMCPServerHosts(
+  options: UserMCPServerOptions,
+): Promise<string | null> {
+  for (const url of getServerURLs(options)) {
+    const error = await getHostError(url);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Throws if the host of a URL a user's server advertised, such as one of its OAuth endpoints,
+ * is local or resolves to a local or private address.
+ */
+export async function assertPublicURL(url: string | URL): Promise<void> {
+  const error = await getHostError(url.toString());
+  if (error) {
+    throw new Error(`${error}: ${url}`);
+  }
+}
+
+/** Resolves hostnames like `dns.lookup`, failing for those with a local or private address */
+const lookupPublicAddress = ((hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(`"${hostname}" resolves to a local or private address`), '', 0);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as LookupFunction;
+
+let publicNetworkDispatcher: Agent | undefined;
+
+/**
+ * Dispatcher for the requests to servers users registered. Their addresses are checked as each
+ * connection is made, including those of redirects, rather than when the server is saved,
+ * as a host may resolve to a public address then and to a private one when connected to.
+ */
+export function getPublicNetworkDispatcher(): Agent {
+  if (!publicNetworkDispatcher) {
+    const connect = buildConnector({ lookup: lookupPublicAddress });
+    publicNetworkDispatcher = new Agent({
+      connect: (options, callback) => {
+        if (isPrivateHostname(options.hostname)) {
+          callback(new Error(`"${options.hostname}" is a local or private address`), null);
+          return;
+        }
+        connect(options, callback);
+      },
+    });
+  }
+  return publicNetworkDispatcher;
+}
+
+/**
+ * Encrypts the header values and OAuth client secret of a user's server options for storage.
+ * Secrets left empty keep those of the `previous` (encrypted) options, as responses leave them out.
+ */
+export async function encryptUserMCPServerOptions(
+  options: UserMCPServerOptions,
+  previous?: UserMCPServerOptions,
+): Promise<UserMCPServerOptions> {
+  const encrypted: UserMCPServerOptions = { ...options };
+  if (options.headers) {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(options.headers)) {
+      const previousValue = previous?.headers?.[name];
+      if (!value && previousValue == null) {
+        continue;
+      }
+      headers[name] = value ? await encryptV2(value) : (previousValue as string);
+    }
+    encrypted.headers = headers;
+  }
+  if (options.oauth) {
+    const { client_secret, ...oauth } = options.oauth;
+    const previousSecret = previous?.oauth?.client_secret;
+    encrypted.oauth = oauth;
+    if (client_secret) {
+      encrypted.oauth.client_secret = await encryptV2(client_secret);
+    } else if (previousSecret && oauth.client_id === previous?.oauth?.client_id) {
+      encrypted.oauth.client_secret = previousSecret;
+    }
+  }
+  return encrypted;
+}
+
+/** Decrypts the secrets of a user's stored server options, to connect to the server */
+export async function decryptUserMCPServerOptions(
+  options: UserMCPServerOptions,
+): Promise<UserMCPServerOptions> {
+  const decrypted: UserMCPServerOptions = { ...options };
+  if (options.headers) {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(options.headers)) {
+      headers[name] = await decryptV2(value);
+    }
+    decrypted.headers = headers;
+  }
+  if (options.oauth?.client_secret) {
+    decrypted.oauth = {
+      ...options.oauth,
+      client_secret: await decryptV2(options.oauth.client_secret),
+    };
+  }
+  return decrypted;
+}
+
+/** Leaves the header values and OAuth client secret out of a user's server options, for responses */
+export function redactUserMCPServerOptions(options: UserMCPServerOptions): UserMCPServerOptions {
+  const redacted: UserMCPServerOptions = { ...options };
+  if (options.headers) {
+    redacted.headers = Object.fromEntries(Object.keys(options.headers).map((name) => [name, '']));
+  }
+  if (options.oauth) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { client_secret, ...oauth } = options.oauth;
+    redacted.oauth = oauth;
+  }
+  return redacted;
+}
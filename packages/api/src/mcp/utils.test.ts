@@ -1,4 +1,11 @@
-import { normalizeServerName } from './utils';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  isToolAllowed,
+  isMCPRequestError,
+  getToolDescription,
+  normalizeServerName,
+  requiresToolApproval,
+} from './utils';
 
 describe('normalizeServerName', () => {
   it('should not modify server names that already match the pattern', () => {
@@ -26,3 +33,60 @@ describe('normalizeServerName', () => {
     expect(result).toMatch(/^[a-zA-Z0-9_.-]+$/);
   });
 });
+
+describe('isMCPRequestError', () => {
+  it('should match invalid request and invalid params errors', () => {
+    expect(isMCPRequestError(new McpError(ErrorCode.InvalidRequest, 'Unsupported'))).toBe(true);
+    expect(isMCPRequestError(new McpError(ErrorCode.InvalidParams, 'Missing URI'))).toBe(true);
+  });
+
+  it('should not match other errors', () => {
+    expect(isMCPRequestError(new McpError(ErrorCode.InternalError, 'Disconnected'))).toBe(false);
+    expect(isMCPRequestError(new Error('Invalid request'))).toBe(false);
+    expect(isMCPRequestError(undefined)).toBe(false);
+  });
+});
+
+describe('requiresToolApproval', () => {
+  const command = { command: 'node', args: ['server.js'] };
+
+  it('should require approval for all tools of a server set to true', () => {
+    expect(requiresToolApproval({ ...command, requiresApproval: true }, 'write_file')).toBe(true);
+  });
+
+  it('should require approval only for the listed tools', () => {
+    const options = { ...command, requiresApproval: ['write_file'] };
+    expect(requiresToolApproval(options, 'write_file')).toBe(true);
+    expect(requiresToolApproval(options, 'read_file')).toBe(false);
+  });
+
+  it('should not require approval by default', () => {
+    expect(requiresToolApproval(command, 'write_file')).toBe(false);
+    expect(requiresToolApproval(undefined, 'write_file')).toBe(false);
+  });
+});
+
+describe('isToolAllowed', () => {
+  const url = 'https://example.com/mcp';
+
+  it('should allow all tools by default', () => {
+    expect(isToolAllowed(undefined, 'search')).toBe(true);
+    expect(isToolAllowed({ url }, 'search')).toBe(true);
+  });
+
+  it('should only allow the listed tools, unless denied', () => {
+    const options = { url, allowedTools: ['search', 'fetch'], deniedTools: ['fetch'] };
+    expect(isToolAllowed(options, 'search')).toBe(true);
+    expect(isToolAllowed(options, 'fetch')).toBe(false);
+    expect(isToolAllowed(options, 'write')).toBe(false);
+    expect(isToolAllowed({ url, deniedTools: ['write'] }, 'write')).toBe(false);
+  });
+});
+
+describe('getToolDescription', () => {
+  it('should override the description of the listed tools', () => {
+    const options = { url: 'https://example.com/mcp', toolDescriptions: { search: 'Search docs' } };
+    expect(getToolDescription(options, 'search', 'Search')).toBe('Search docs');
+    expect(getToolDescription(options, 'fetch', 'Fetch')).toBe('Fetch');
+  });
+});
@@ -1,6 +1,42 @@
 import { Constants } from 'librechat-data-provider';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPOptions } from './types';
 
 export const mcpToolPattern = new RegExp(`^.+${Constants.mcp_delimiter}.+$`);
+
+/** Whether an error is caused by the request itself, e.g. a missing parameter or unsupported capability */
+export function isMCPRequestError(error: unknown): boolean {
+  return (
+    error instanceof McpError &&
+    (error.code === ErrorCode.InvalidRequest || error.code === ErrorCode.InvalidParams)
+  );
+}
+/** Whether calls to a tool of a server wait for the user's approval, per the server's `requiresApproval` */
+export function requiresToolApproval(options: MCPOptions | undefined, toolName: string): boolean {
+  const requiresApproval = options?.requiresApproval;
+  if (Array.isArray(requiresApproval)) {
+    return requiresApproval.includes(toolName);
+  }
+  return requiresApproval === true;
+}
+
+/** Whether a tool of a server is exposed, per the server's `allowedTools` and `deniedTools` */
+export function isToolAllowed(options: MCPOptions | undefined, toolName: string): boolean {
+  if (options?.deniedTools?.includes(toolName)) {
+    return false;
+  }
+  return options?.allowedTools?.includes(toolName) ?? true;
+}
+
+/** Description of a tool of a server, overridden by the server's `toolDescriptions` */
+export function getToolDescription(
+  options: MCPOptions | undefined,
+  toolName: string,
+  description?: string,
+): string | undefined {
+  return options?.toolDescriptions?.[toolName] ?? description;
+}
+
 /**
  * Normalizes a server name to match the pattern ^[a-zA-Z0-9_.-]+$
  * This is required for Azure OpenAI models with Tool Calling
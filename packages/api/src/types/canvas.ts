@@ -0,0 +1,102 @@
+import type { CanvasQuiz, CanvasQuizQuestionType } from 'librechat-data-provider';
+
+export interface CanvasClientOptions {
+  /** Canvas instance URL, e.g. `https://canvas.instructure.com` */
+  baseURL: string;
+  /** Personal access token or OAuth2 access token */
+  accessToken: string;
+  /** Page size requested from list endpoints (Canvas caps this at 100) */
+  perPage?: number;
+  /** Maximum number of pages fetched from a single list endpoint */
+  maxPages?: number;
+  /** Maximum number of retries for throttled or failed requests */
+  maxRetries?: number;
+}
+
+/** Query parameters; array values are sent as `key[]=value` */
+export type CanvasQueryParams = Record<
+  string,
+  string | number | boolean | Array<string | number> | undefined
+>;
+
+export interface ListCoursesParams extends CanvasQueryParams {
+  enrollment_state?: 'active' | 'invited_or_pending' | 'completed';
+  state?: Array<'unpublished' | 'available' | 'completed' | 'deleted'>;
+  include?: string[];
+}
+
+export interface ListAssignmentsParams extends CanvasQueryParams {
+  bucket?: 'past' | 'overdue' | 'undated' | 'ungraded' | 'unsubmitted' | 'upcoming' | 'future';
+  order_by?: 'position' | 'name' | 'due_at';
+  include?: string[];
+}
+
+export interface ListModulesParams extends CanvasQueryParams {
+  include?: Array<'items' | 'content_details'>;
+  search_term?: string;
+}
+
+export interface ListEnrollmentsParams extends CanvasQueryParams {
+  type?: string[];
+  state?: string[];
+}
+
+export interface CreatePageParams {
+  title: string;
+  /** HTML body */
+  body: string;
+  published?: boolean;
+}
+
+export interface CreateAnnouncementParams {
+  title: string;
+  /** HTML message */
+  message: string;
+}
+
+export interface CreateModuleItemParams {
+  type: 'File' | 'Page';
+  title?: string;
+  /** ID of the file; required for `File` items */
+  content_id?: number;
+  /** URL slug of the page; required for `Page` items */
+  page_url?: string;
+  published?: boolean;
+}
+
+export interface CreateQuizParams {
+  title: string;
+  /** HTML description */
+  description?: string;
+  quiz_type?: CanvasQuiz['quiz_type'];
+  published?: boolean;
+}
+
+export interface CreateQuizQuestionParams {
+  question_name: string;
+  question_type: CanvasQuizQuestionType;
+  /** HTML question text */
+  question_text: string;
+  points_possible: number;
+  /** `answer_weight` is 100 for correct answers and 0 otherwise */
+  answers: { answer_text: string; answer_weight: number }[];
+}
+
+export interface UploadCourseFileParams {
+  name: string;
+  content_type: string;
+  /** Folder path relative to the course's root folder; missing folders are created */
+  parent_folder_path?: string;
+}
+
+/** First step of a Canvas file upload: where and how to send the file contents */
+export interface CanvasUploadTicket {
+  upload_url: string;
+  upload_params: Record<string, string>;
+}
+
+export interface ListAnnouncementsParams extends CanvasQueryParams {
+  start_date?: string;
+  end_date?: string;
+  active_only?: boolean;
+}
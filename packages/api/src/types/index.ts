@@ -1,4 +1,5 @@
 export * from './azure';
+export * from './canvas';
 export * from './events';
 export * from './google';
 export * from './mistral';
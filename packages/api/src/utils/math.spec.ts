@@ -0,0 +1,9 @@
+import { cosineSimilarity } from './math';
+
+describe('cosineSimilarity', () => {
+  it('should compare the directions of vectors', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
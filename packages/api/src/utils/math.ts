@@ -43,3 +43,16 @@ export function math(str: string | number, fallbackValue?: number): number {
 
   return value;
 }
+
+/** Cosine similarity of two vectors, from -1 to 1; 0 if either has no direction */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
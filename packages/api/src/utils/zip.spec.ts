@@ -0,0 +1,72 @@
+import { PassThrough } from 'stream';
+import type { ZipEntry } from './zip';
+import { crc32, createZip, ZipWriter } from './zip';
+
+describe('crc32', () => {
+  it('matches the standard CRC-32 check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  it('writes local headers, a central directory and the end record', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'dir/b.txt', data: Buffer.from('world') },
+    ]);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    expect(zip.toString('utf8', 30, 35)).toBe('a.txt');
+    expect(zip.toString('utf8', 35, 40)).toBe('hello');
+    expect(zip.readUInt32LE(14)).toBe(crc32(Buffer.from('hello')));
+
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(2);
+    const centralOffset = zip.readUInt32LE(end + 16);
+    expect(zip.readUInt32LE(centralOffset)).toBe(0x02014b50);
+    expect(zip.readUInt32LE(end + 12)).toBe(end - centralOffset);
+  });
+});
+
+describe('ZipWriter', () => {
+  const writeZip = async (entries: ZipEntry[], modifiedAt: Date) => {
+    const stream = new PassThrough();
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const writer = new ZipWriter(stream, modifiedAt);
+    for (const entry of entries) {
+      await writer.add(entry);
+    }
+    await writer.finish();
+    return Buffer.concat(chunks);
+  };
+
+  it('streams the same archive as createZip', async () => {
+    const modifiedAt = new Date('2026-03-04T10:20:00');
+    const entries = [
+      { name: 'a.txt', data: 'hello' },
+      { name: 'dir/b.txt', data: Buffer.from('world') },
+    ];
+
+    expect(await writeZip(entries, modifiedAt)).toEqual(createZip(entries, modifiedAt));
+  });
+
+  it('writes ZIP64 end records for more than 65535 entries', async () => {
+    const count = 0x10000;
+    const entries = Array.from({ length: count }, (_, i) => ({ name: `${i}.txt`, data: '' }));
+    const zip = await writeZip(entries, new Date());
+
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(0xffff);
+
+    const locator = end - 20;
+    expect(zip.readUInt32LE(locator)).toBe(0x07064b50);
+    const zip64End = zip.readUInt32LE(locator + 8);
+    expect(zip64End).toBe(locator - 56);
+    expect(zip.readUInt32LE(zip64End)).toBe(0x06064b50);
+    expect(zip.readUInt32LE(zip64End + 32)).toBe(count);
+    expect(zip.readUInt32LE(zip.readUInt32LE(zip64End + 48))).toBe(0x02014b50);
+  });
+});
@@ -0,0 +1,240 @@
+import { once } from 'events';
+import type { Writable } from 'stream';
+
+export interface ZipEntry {
+  /** Path of the file inside the archive, using `/` as separator */
+  name: string;
+  data: Buffer | string;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) {
+    return crcTable;
+  }
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/** CRC-32 checksum, as used by the ZIP format */
+export function crc32(data: Buffer): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Encodes a date in the MS-DOS format used by ZIP headers */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/** Largest size, offset or count the classic ZIP fields hold; larger values need ZIP64 */
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+interface ZipRecord {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+/** Writes a 64-bit value of ZIP64 records; `value` must be a safe integer */
+function writeUInt64LE(buffer: Buffer, value: number, offset: number): void {
+  buffer.writeUInt32LE(value % 0x100000000, offset);
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+function toBuffer(data: Buffer | string): Buffer {
+  return typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+}
+
+function createLocalHeader(
+  { name, crc, size }: Omit<ZipRecord, 'offset'>,
+  time: number,
+  date: number,
+): Buffer {
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4); // version needed to extract
+  local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+  local.writeUInt16LE(0, 8); // stored
+  local.writeUInt16LE(time, 10);
+  local.writeUInt16LE(date, 12);
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(size, 18);
+  local.writeUInt32LE(size, 22);
+  local.writeUInt16LE(name.length, 26);
+  local.writeUInt16LE(0, 28);
+  return Buffer.concat([local, name]);
+}
+
+/** Central directory header of an entry; offsets past 4 GiB are stored in a ZIP64 extra field */
+function createCentralHeader(
+  { name, crc, size, offset }: ZipRecord,
+  time: number,
+  date: number,
+): Buffer {
+  const zip64 = offset >= MAX_UINT32;
+  const extra = Buffer.alloc(zip64 ? 12 : 0);
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(8, 2);
+    writeUInt64LE(extra, offset, 4);
+  }
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(zip64 ? 45 : 20, 4); // version made by
+  central.writeUInt16LE(zip64 ? 45 : 20, 6);
+  central.writeUInt16LE(0x0800, 8);
+  central.writeUInt16LE(0, 10);
+  central.writeUInt16LE(time, 12);
+  central.writeUInt16LE(date, 14);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(size, 20);
+  central.writeUInt32LE(size, 24);
+  central.writeUInt16LE(name.length, 28);
+  central.writeUInt16LE(extra.length, 30);
+  central.writeUInt32LE(zip64 ? MAX_UINT32 : offset, 42);
+  return Buffer.concat([central, name, extra]);
+}
+
+/**
+ * End of the central directory, preceded by the ZIP64 end record and locator when the
+ * archive has too many entries or is too large for the classic record.
+ */
+function createEndRecords(count: number, centralSize: number, centralOffset: number): Buffer {
+  const zip64 = count >= MAX_UINT16 || centralSize >= MAX_UINT32 || centralOffset >= MAX_UINT32;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 10);
+  end.writeUInt32LE(Math.min(centralSize, MAX_UINT32), 12);
+  end.writeUInt32LE(Math.min(centralOffset, MAX_UINT32), 16);
+  if (!zip64) {
+    return end;
+  }
+
+  const zip64End = Buffer.alloc(56);
+  zip64End.writeUInt32LE(0x06064b50, 0);
+  writeUInt64LE(zip64End, 44, 4); // size of the rest of the record
+  zip64End.writeUInt16LE(45, 12); // version made by
+  zip64End.writeUInt16LE(45, 14); // version needed to extract
+  writeUInt64LE(zip64End, count, 24);
+  writeUInt64LE(zip64End, count, 32);
+  writeUInt64LE(zip64End, centralSize, 40);
+  writeUInt64LE(zip64End, centralOffset, 48);
+
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(0x07064b50, 0);
+  writeUInt64LE(locator, centralOffset + centralSize, 8);
+  locator.writeUInt32LE(1, 16); // total number of disks
+  return Buffer.concat([zip64End, locator, end]);
+}
+
+/**
+ * Creates a ZIP archive with uncompressed (stored) entries.
+ * Meant for small generated archives such as QTI exports; use `ZipWriter` for large archives.
+ */
+export function createZip(entries: ZipEntry[], modifiedAt = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = toBuffer(entry.data);
+    const record = { name: Buffer.from(entry.name, 'utf8'), crc: crc32(data), size: data.length };
+    const local = createLocalHeader(record, time, date);
+    localParts.push(local, data);
+    centralParts.push(createCentralHeader({ ...record, offset }, time, date));
+    offset += local.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  return Buffer.concat([
+    ...localParts,
+    centralDirectory,
+    createEndRecords(entries.length, centralDirectory.length, offset),
+  ]);
+}
+
+/**
+ * Writes a ZIP archive with uncompressed (stored) entries to a stream, one entry at a time,
+ * so that only the entry being written is held in memory. Archives larger than 4 GiB or with
+ * more than 65535 entries are written as ZIP64; each entry must be smaller than 4 GiB.
+ */
+export class ZipWriter {
+  private readonly records: ZipRecord[] = [];
+  private readonly time: number;
+  private readonly date: number;
+  private offset = 0;
+  /** Error of the stream, thrown by the next write */
+  private error: Error | undefined;
+
+  constructor(
+    private readonly stream: Writable,
+    modifiedAt = new Date(),
+  ) {
+    ({ time: this.time, date: this.date } = toDosDateTime(modifiedAt));
+    stream.on('error', (error) => {
+      this.error = error;
+    });
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.error) {
+      throw this.error;
+    }
+    this.offset += chunk.length;
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain');
+    }
+  }
+
+  async add(entry: ZipEntry): Promise<void> {
+    const data = toBuffer(entry.data);
+    if (data.length >= MAX_UINT32) {
+      throw new Error(`"${entry.name}" is too large for a ZIP entry`);
+    }
+    const record = {
+      name: Buffer.from(entry.name, 'utf8'),
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset,
+    };
+    this.records.push(record);
+    await this.write(createLocalHeader(record, this.time, this.date));
+    await this.write(data);
+  }
+
+  /** Writes the central directory and ends the stream */
+  async finish(): Promise<void> {
+    const centralOffset = this.offset;
+    for (const record of this.records) {
+      await this.write(createCentralHeader(record, this.time, this.date));
+    }
+    const centralSize = this.offset - centralOffset;
+    await this.write(createEndRecords(this.records.length, centralSize, centralOffset));
+    if (this.error) {
+      throw this.error;
+    }
+    this.stream.end();
+    await once(this.stream, 'finish');
+  }
+}
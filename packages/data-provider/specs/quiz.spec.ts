@@ -0,0 +1,114 @@
+import type { TQuiz, TQuizQuestion } from '../src/quiz';
+import { isQuizComplete, isQuizQuestionComplete } from '../src/quiz';
+
+const question = (overrides: Partial<TQuizQuestion>): TQuizQuestion => ({
+  type: 'multiple_choice',
+  text: 'What is 2 + 2?',
+  points: 1,
+  answers: [
+    { text: '4', correct: true },
+    { text: '5', correct: false },
+  ],
+  ...overrides,
+});
+
+describe('isQuizQuestionComplete', () => {
+  test('accepts gradeable questions of each type', () => {
+    expect(isQuizQuestionComplete(question({}))).toBe(true);
+    expect(
+      isQuizQuestionComplete(
+        question({
+          type: 'true_false',
+          answers: [
+            { text: 'True', correct: false },
+            { text: 'False', correct: true },
+          ],
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      isQuizQuestionComplete(
+        question({ type: 'short_answer', answers: [{ text: 'four', correct: true }] }),
+      ),
+    ).toBe(true);
+  });
+
+  test('requires question text', () => {
+    expect(isQuizQuestionComplete(question({ text: '  ' }))).toBe(false);
+  });
+
+  test('requires at least 2 answers and 1 correct answer for multiple choice questions', () => {
+    expect(isQuizQuestionComplete(question({ answers: [] }))).toBe(false);
+    expect(isQuizQuestionComplete(question({ answers: [{ text: '4', correct: true }] }))).toBe(
+      false,
+    );
+    expect(
+      isQuizQuestionComplete(
+        question({
+          answers: [
+            { text: '4', correct: false },
+            { text: '5', correct: false },
+          ],
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      isQuizQuestionComplete(
+        question({
+          answers: [
+            { text: '4', correct: true },
+            { text: ' ', correct: false },
+          ],
+        }),
+      ),
+    ).toBe(false);
+  });
+
+  test('requires exactly 2 answers with 1 correct for true/false questions', () => {
+    const trueFalse = (answers: TQuizQuestion['answers']) =>
+      isQuizQuestionComplete(question({ type: 'true_false', answers }));
+
+    expect(trueFalse([{ text: 'True', correct: true }])).toBe(false);
+    expect(
+      trueFalse([
+        { text: 'True', correct: true },
+        { text: 'False', correct: false },
+        { text: 'Maybe', correct: false },
+      ]),
+    ).toBe(false);
+    expect(
+      trueFalse([
+        { text: 'True', correct: true },
+        { text: 'False', correct: true },
+      ]),
+    ).toBe(false);
+    expect(
+      trueFalse([
+        { text: 'True', correct: false },
+        { text: 'False', correct: false },
+      ]),
+    ).toBe(false);
+  });
+
+  test('requires an accepted answer with text for short answer questions', () => {
+    expect(isQuizQuestionComplete(question({ type: 'short_answer', answers: [] }))).toBe(false);
+    expect(
+      isQuizQuestionComplete(
+        question({ type: 'short_answer', answers: [{ text: ' ', correct: true }] }),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('isQuizComplete', () => {
+  const quiz: TQuiz = { title: 'Arithmetic', questions: [question({})] };
+
+  test('requires a title and gradeable questions', () => {
+    expect(isQuizComplete(quiz)).toBe(true);
+    expect(isQuizComplete({ ...quiz, title: '' })).toBe(false);
+    expect(isQuizComplete({ ...quiz, questions: [] })).toBe(false);
+    expect(isQuizComplete({ ...quiz, questions: [question({}), question({ answers: [] })] })).toBe(
+      false,
+    );
+  });
+});
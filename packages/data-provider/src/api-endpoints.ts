@@ -187,6 +187,9 @@ export const agents = ({ path = '', options }: { path?: string; options?: object
 
 export const revertAgentVersion = (agent_id: string) => `${agents({ path: `${agent_id}/revert` })}`;
 
+export const agentSchedules = (scheduleId?: string) =>
+  agents({ path: scheduleId ? `schedules/${encodeURIComponent(scheduleId)}` : 'schedules' });
+
 export const files = () => '/api/files';
 
 export const images = () => `${files()}/images`;
@@ -254,6 +257,8 @@ export const getRole = (roleName: string) => `${roles()}/${roleName.toLowerCase(
 export const updatePromptPermissions = (roleName: string) => `${getRole(roleName)}/prompts`;
 export const updateMemoryPermissions = (roleName: string) => `${getRole(roleName)}/memories`;
 export const updateAgentPermissions = (roleName: string) => `${getRole(roleName)}/agents`;
+export const updateCanvasPermissions = (roleName: string) => `${getRole(roleName)}/canvas`;
+export const updateMCPServerPermissions = (roleName: string) => `${getRole(roleName)}/mcp-servers`;
 
 /* Conversation Tags */
 export const conversationTags = (tag?: string) =>
@@ -268,6 +273,8 @@ export const addTagToConversation = (conversationId: string) =>
   `${conversationTags()}/convo/${conversationId}`;
 
 export const userTerms = () => '/api/user/terms';
+export const dataExport = () => `${user()}/data-export`;
+export const dataExportDownload = () => `${dataExport()}/download`;
 export const acceptUserTerms = () => '/api/user/terms/accept';
 export const banner = () => '/api/banner';
 
@@ -285,5 +292,64 @@ export const verifyTwoFactorTemp = () => '/api/auth/2fa/verify-temp';
 
 /* Memories */
 export const memories = () => '/api/memories';
-export const memory = (key: string) => `${memories()}/${encodeURIComponent(key)}`;
+export const memory = (key: string, scope?: q.TMemoryScope) =>
+  `${memories()}/${encodeURIComponent(key)}${buildQuery({ ...scope })}`;
+export const memoryScope = (key: string, scope?: q.TMemoryScope) =>
+  `${memories()}/${encodeURIComponent(key)}/scope${buildQuery({ ...scope })}`;
 export const memoryPreferences = () => `${memories()}/preferences`;
+export const memoriesExport = (format: q.MemoryTransferFormat) =>
+  `${memories()}/export${buildQuery({ format })}`;
+export const memoriesImport = () => `${memories()}/import`;
+export const memoryHistory = (params?: q.MemoryHistoryParams) =>
+  `${memories()}/history${buildQuery({ ...params })}`;
+export const revertMemoryChange = (historyId: string) =>
+  `${memories()}/history/${encodeURIComponent(historyId)}/revert`;
+
+/* MCP */
+export const mcpResources = (serverName: string) =>
+  `/api/mcp/${encodeURIComponent(serverName)}/resources`;
+export const mcpReadResource = (serverName: string, uri: string) =>
+  `${mcpResources(serverName)}/read?uri=${encodeURIComponent(uri)}`;
+export const mcpResourceSubscription = (serverName: string, subscribe: boolean) =>
+  `${mcpResources(serverName)}/${subscribe ? 'subscribe' : 'unsubscribe'}`;
+export const mcpPrompts = () => '/api/mcp/prompts';
+export const mcpGetPrompt = (serverName: string) =>
+  `/api/mcp/${encodeURIComponent(serverName)}/prompts/get`;
+export const mcpSamplingDecision = (serverName: string, flowId: string) =>
+  `/api/mcp/${encodeURIComponent(serverName)}/sampling/${encodeURIComponent(flowId)}`;
+
+export const mcpElicitation = (serverName: string, flowId: string) =>
+  `/api/mcp/${encodeURIComponent(serverName)}/elicitation/${encodeURIComponent(flowId)}`;
+
+export const userMCPServers = (serverName?: string) =>
+  `/api/mcp/servers${serverName != null ? `/${encodeURIComponent(serverName)}` : ''}`;
+export const userMCPServerConnect = (serverName: string) => `${userMCPServers(serverName)}/connect`;
+
+export const mcpConnections = () => '/api/mcp/connections';
+export const mcpConnectionAction = (serverName: string, action: string) =>
+  `${mcpConnections()}/${encodeURIComponent(serverName)}/${action}`;
+
+/* Canvas LMS */
+export const canvasAuth = () => '/api/canvas/auth';
+export const canvasOAuthInitiate = () => '/api/canvas/oauth/initiate';
+export const canvasCourses = () => '/api/canvas/courses';
+export const canvasModules = (courseId: number | string) =>
+  `/api/canvas/courses/${courseId}/modules`;
+export const canvasModuleItems = (courseId: number | string, moduleId: number | string) =>
+  `/api/canvas/courses/${courseId}/modules/${moduleId}/items`;
+export const canvasFileUpload = (fileId: number | string) =>
+  `/api/canvas/files/${fileId}/download-and-upload`;
+export const canvasContentImport = (courseId: number | string) =>
+  `/api/canvas/courses/${courseId}/content/import`;
+export const canvasImportable = (courseId: number | string) =>
+  `/api/canvas/courses/${courseId}/importable`;
+export const canvasSync = () => '/api/canvas/sync';
+export const canvasPublish = (courseId: number | string) =>
+  `/api/canvas/courses/${courseId}/publish`;
+export const canvasCourseFavorite = (courseId: number | string) =>
+  `/api/canvas/courses/${courseId}/favorite`;
+export const canvasQuizQti = () => '/api/canvas/quizzes/qti';
+export const canvasQuizzes = (courseId: number | string) =>
+  `/api/canvas/courses/${courseId}/quizzes`;
+export const canvasItemSearch = (courseId: number | string, query: string) =>
+  `/api/canvas/courses/${courseId}/items/search?q=${encodeURIComponent(query)}`;
@@ -687,6 +687,16 @@ export const memorySchema = z.object({
   tokenLimit: z.number().optional(),
   personalize: z.boolean().default(true),
   messageWindowSize: z.number().optional().default(5),
+  /** How memories are given to agents: all of them, or those most similar to each message */
+  retrieval: z
+    .object({
+      mode: z.enum(['all', 'semantic']).default('all'),
+      /** Maximum number of memories retrieved per message */
+      topK: z.number().int().positive().default(10),
+      /** Minimum cosine similarity of retrieved memories to the message */
+      threshold: z.number().min(-1).max(1).default(0.3),
+    })
+    .optional(),
   agent: z
     .union([
       z.object({
@@ -704,12 +714,22 @@ export const memorySchema = z.object({
 
 export type TMemoryConfig = z.infer<typeof memorySchema>;
 
+/** OpenAI-compatible embeddings API, e.g. for selecting the MCP tools and memories relevant to each turn */
+export const embeddingsSchema = z.object({
+  model: z.string().optional().default('text-embedding-3-small'),
+  apiKey: z.string().optional().default('${OPENAI_API_KEY}'),
+  baseURL: z.string().optional(),
+});
+
+export type TEmbeddingsConfig = z.infer<typeof embeddingsSchema>;
+
 export const configSchema = z.object({
   version: z.string(),
   cache: z.boolean().default(true),
   ocr: ocrSchema.optional(),
   webSearch: webSearchSchema.optional(),
   memory: memorySchema.optional(),
+  embeddings: embeddingsSchema.optional(),
   secureImageLinks: z.boolean().optional(),
   imageOutputType: z.nativeEnum(EImageOutputType).default(EImageOutputType.PNG),
   includedTools: z.array(z.string()).optional(),
@@ -1155,6 +1175,10 @@ export enum CacheKeys {
    * Key for individual MCP Tool Manifests.
    */
   MCP_TOOLS = 'mcp_tools',
+  /**
+   * Key for cached results of MCP tool calls.
+   */
+  MCP_TOOL_RESULTS = 'mcp_tool_results',
   /**
    * Key for pending chat requests (concurrency check)
    */
@@ -1350,6 +1374,10 @@ export enum SettingsTabValues {
    * Tab for Personalization Settings
    */
   PERSONALIZATION = 'personalization',
+  /**
+   * Tab for the MCP health dashboard, for admins
+   */
+  MCP_HEALTH = 'mcp_health',
 }
 
 export enum STTProviders {
@@ -1,8 +1,11 @@
 import type { AxiosResponse } from 'axios';
 import type * as t from './types';
+import type { TQuiz } from './quiz';
 import * as endpoints from './api-endpoints';
 import * as a from './types/assistants';
 import * as ag from './types/agents';
+import * as c from './types/canvas';
+import * as mcp from './types/mcp';
 import * as m from './types/mutations';
 import * as q from './types/queries';
 import * as f from './types/files';
@@ -303,6 +306,18 @@ export const callTool = <T extends m.ToolId>({
   );
 };
 
+export const setToolApproval = (
+  flowId: string,
+  payload: ag.Agents.ToolApprovalRequest,
+): Promise<{ success: boolean }> => {
+  return request.post(
+    endpoints.agents({
+      path: `tools/approval/${encodeURIComponent(flowId)}`,
+    }),
+    payload,
+  );
+};
+
 export const getToolCalls = (params: q.GetToolCallParams): Promise<q.ToolCallResults> => {
   return request.get(
     endpoints.agents({
@@ -436,6 +451,44 @@ export const revertAgentVersion = ({
   version_index: number;
 }): Promise<a.Agent> => request.post(endpoints.revertAgentVersion(agent_id), { version_index });
 
+/* Agent Schedules */
+
+export const getAgentSchedules = (): Promise<a.AgentSchedulesResponse> => {
+  return request.get(endpoints.agentSchedules());
+};
+
+export const createAgentSchedule = (
+  data: a.AgentScheduleCreateParams,
+): Promise<a.AgentSchedule> => {
+  return request.post(endpoints.agentSchedules(), data);
+};
+
+export const updateAgentSchedule = ({
+  scheduleId,
+  data,
+}: {
+  scheduleId: string;
+  data: a.AgentScheduleUpdateParams;
+}): Promise<a.AgentSchedule> => {
+  return request.patch(endpoints.agentSchedules(scheduleId), data);
+};
+
+export const deleteAgentSchedule = (scheduleId: string): Promise<{ deleted: boolean }> => {
+  return request.delete(endpoints.agentSchedules(scheduleId));
+};
+
+export const getAgentScheduleRuns = (scheduleId: string): Promise<a.AgentScheduleRunsResponse> => {
+  return request.get(`${endpoints.agentSchedules(scheduleId)}/runs`);
+};
+
+export const runAgentSchedule = (scheduleId: string): Promise<a.AgentSchedule> => {
+  return request.post(`${endpoints.agentSchedules(scheduleId)}/run`);
+};
+
+export const markAgentScheduleRead = (scheduleId: string): Promise<a.AgentSchedule> => {
+  return request.post(`${endpoints.agentSchedules(scheduleId)}/read`);
+};
+
 /* Tools */
 
 export const getAvailableAgentTools = (): Promise<s.TPlugin[]> => {
@@ -721,6 +774,18 @@ export function updateMemoryPermissions(
   return request.put(endpoints.updateMemoryPermissions(variables.roleName), variables.updates);
 }
 
+export function updateCanvasPermissions(
+  variables: m.UpdateCanvasPermVars,
+): Promise<m.UpdatePermResponse> {
+  return request.put(endpoints.updateCanvasPermissions(variables.roleName), variables.updates);
+}
+
+export function updateMCPServerPermissions(
+  variables: m.UpdateMCPServerPermVars,
+): Promise<m.UpdatePermResponse> {
+  return request.put(endpoints.updateMCPServerPermissions(variables.roleName), variables.updates);
+}
+
 /* Tags */
 export function getConversationTags(): Promise<t.TConversationTagsResponse> {
   return request.get(endpoints.conversationTags());
@@ -764,6 +829,23 @@ export function acceptTerms(): Promise<t.TAcceptTermsResponse> {
   return request.post(endpoints.acceptUserTerms());
 }
 
+export function getDataExport(): Promise<t.TDataExportStatus> {
+  return request.get(endpoints.dataExport());
+}
+
+export function startDataExport(): Promise<t.TDataExportStatus> {
+  return request.post(endpoints.dataExport());
+}
+
+export const downloadDataExport = async (): Promise<AxiosResponse> => {
+  return request.getResponse(endpoints.dataExportDownload(), {
+    responseType: 'blob',
+    headers: {
+      Accept: 'application/zip',
+    },
+  });
+};
+
 export function getBanner(): Promise<t.TBannerResponse> {
   return request.get(endpoints.banner());
 }
@@ -808,16 +890,46 @@ export const getMemories = (): Promise<q.MemoriesResponse> => {
   return request.get(endpoints.memories());
 };
 
-export const deleteMemory = (key: string): Promise<void> => {
-  return request.delete(endpoints.memory(key));
+export const deleteMemory = (key: string, scope?: q.TMemoryScope): Promise<void> => {
+  return request.delete(endpoints.memory(key, scope));
 };
 
 export const updateMemory = (
   key: string,
   value: string,
   originalKey?: string,
+  scope?: q.TMemoryScope,
 ): Promise<q.TUserMemory> => {
-  return request.patch(endpoints.memory(originalKey || key), { key, value });
+  return request.patch(endpoints.memory(originalKey || key, scope), { key, value });
+};
+
+export const updateMemoryScope = (
+  key: string,
+  scope: q.TMemoryScope,
+  newScope: q.TMemoryScope,
+): Promise<{ updated: boolean; memory: q.TUserMemory }> => {
+  return request.patch(endpoints.memoryScope(key, scope), { scope: newScope });
+};
+
+export const getMemoryHistory = (
+  params?: q.MemoryHistoryParams,
+): Promise<q.MemoryHistoryResponse> => {
+  return request.get(endpoints.memoryHistory(params));
+};
+
+export const revertMemoryChange = (historyId: string): Promise<{ reverted: boolean }> => {
+  return request.post(endpoints.revertMemoryChange(historyId));
+};
+
+export const exportMemories = (format: q.MemoryTransferFormat): Promise<Blob> => {
+  return request.get(endpoints.memoriesExport(format), { responseType: 'blob' });
+};
+
+export const importMemories = (data: {
+  format: q.MemoryTransferFormat;
+  content: string;
+}): Promise<q.MemoryImportResponse> => {
+  return request.post(endpoints.memoriesImport(), data);
 };
 
 export const updateMemoryPreferences = (preferences: {
@@ -829,6 +941,185 @@ export const updateMemoryPreferences = (preferences: {
 export const createMemory = (data: {
   key: string;
   value: string;
+  scope?: q.TMemoryScope;
 }): Promise<{ created: boolean; memory: q.TUserMemory }> => {
   return request.post(endpoints.memories(), data);
 };
+
+/* MCP */
+export const getMCPResources = (serverName: string): Promise<mcp.TMCPResourcesResponse> => {
+  return request.get(endpoints.mcpResources(serverName));
+};
+
+export const readMCPResource = (
+  serverName: string,
+  uri: string,
+): Promise<mcp.TMCPReadResourceResponse> => {
+  return request.get(endpoints.mcpReadResource(serverName, uri));
+};
+
+export const setMCPResourceSubscription = (
+  serverName: string,
+  subscribe: boolean,
+  payload: mcp.TMCPResourceSubscriptionRequest,
+): Promise<mcp.TMCPResourcesResponse> => {
+  return request.post(endpoints.mcpResourceSubscription(serverName, subscribe), payload);
+};
+
+export const getMCPPrompts = (): Promise<mcp.TMCPPrompt[]> => {
+  return request.get(endpoints.mcpPrompts());
+};
+
+export const getMCPPrompt = (
+  serverName: string,
+  payload: mcp.TMCPGetPromptRequest,
+): Promise<mcp.TMCPGetPromptResponse> => {
+  return request.post(endpoints.mcpGetPrompt(serverName), payload);
+};
+
+export const setMCPSamplingDecision = (
+  serverName: string,
+  flowId: string,
+  payload: mcp.TMCPSamplingDecisionRequest,
+): Promise<{ success: boolean }> => {
+  return request.post(endpoints.mcpSamplingDecision(serverName, flowId), payload);
+};
+
+export const respondToMCPElicitation = (
+  serverName: string,
+  flowId: string,
+  payload: mcp.TMCPElicitationResponse,
+): Promise<{ success: boolean }> => {
+  return request.post(endpoints.mcpElicitation(serverName, flowId), payload);
+};
+
+export const getUserMCPServers = (): Promise<mcp.TUserMCPServer[]> => {
+  return request.get(endpoints.userMCPServers());
+};
+
+export const createUserMCPServer = (
+  payload: mcp.TUserMCPServerRequest,
+): Promise<mcp.TUserMCPServer> => {
+  return request.post(endpoints.userMCPServers(), payload);
+};
+
+export const updateUserMCPServer = (
+  payload: mcp.TUserMCPServerRequest,
+): Promise<mcp.TUserMCPServer> => {
+  return request.put(endpoints.userMCPServers(payload.serverName), payload);
+};
+
+export const deleteUserMCPServer = (serverName: string): Promise<{ success: boolean }> => {
+  return request.delete(endpoints.userMCPServers(serverName));
+};
+
+export const connectUserMCPServer = (
+  serverName: string,
+): Promise<mcp.TUserMCPServerConnectResponse> => {
+  return request.post(endpoints.userMCPServerConnect(serverName));
+};
+
+export const getMCPConnections = (): Promise<mcp.TMCPConnectionDiagnostics[]> => {
+  return request.get(endpoints.mcpConnections());
+};
+
+export const runMCPConnectionAction = ({
+  serverName,
+  action,
+  userId,
+}: mcp.TMCPConnectionActionRequest): Promise<mcp.TMCPConnectionActionResponse> => {
+  return request.post(endpoints.mcpConnectionAction(serverName, action), { userId });
+};
+
+/* Canvas LMS */
+export const getCanvasAuthStatus = (): Promise<c.TCanvasAuthStatus> => {
+  return request.get(endpoints.canvasAuth());
+};
+
+export const connectCanvas = (accessToken: string): Promise<c.TCanvasAuthStatus> => {
+  return request.post(endpoints.canvasAuth(), { accessToken });
+};
+
+export const disconnectCanvas = (): Promise<c.TCanvasAuthStatus> => {
+  return request.delete(endpoints.canvasAuth());
+};
+
+export const initiateCanvasOAuth = (): Promise<c.TCanvasOAuthInitiateResponse> => {
+  return request.get(endpoints.canvasOAuthInitiate());
+};
+
+export const getCanvasCourses = (): Promise<c.Course[]> => {
+  return request.get(endpoints.canvasCourses());
+};
+
+export const getCanvasModules = (courseId: number | string): Promise<c.Module[]> => {
+  return request.get(endpoints.canvasModules(courseId));
+};
+
+export const getCanvasModuleItems = (
+  courseId: number | string,
+  moduleId: number | string,
+): Promise<c.ModuleItem[]> => {
+  return request.get(endpoints.canvasModuleItems(courseId, moduleId));
+};
+
+export const uploadCanvasFile = (
+  fileId: number | string,
+  target: c.TCanvasUploadFileRequest,
+): Promise<c.TCanvasUploadResponse> => {
+  return request.post(endpoints.canvasFileUpload(fileId), target);
+};
+
+export const importCanvasContent = (
+  courseId: number | string,
+  payload: c.TCanvasImportContentRequest,
+): Promise<c.TCanvasUploadResponse> => {
+  return request.post(endpoints.canvasContentImport(courseId), payload);
+};
+
+export const getCanvasImportable = (
+  courseId: number | string,
+): Promise<c.TCanvasImportableItem[]> => {
+  return request.get(endpoints.canvasImportable(courseId));
+};
+
+export const getCanvasSyncStatus = (): Promise<c.TCanvasSyncStatus> => {
+  return request.get(endpoints.canvasSync());
+};
+
+export const syncCanvas = (): Promise<c.TCanvasSyncResult | null> => {
+  return request.post(endpoints.canvasSync());
+};
+
+export const publishToCanvas = (
+  courseId: number | string,
+  payload: c.TCanvasPublishRequest,
+): Promise<c.TCanvasPublishResponse> => {
+  return request.post(endpoints.canvasPublish(courseId), payload);
+};
+
+/** Exports a quiz as a QTI 1.2 zip, the format Canvas imports quizzes from */
+export const exportQuizQti = (quiz: TQuiz): Promise<Blob> => {
+  return request.post(endpoints.canvasQuizQti(), { quiz }, { responseType: 'blob' });
+};
+
+export const createCanvasQuiz = (
+  courseId: number | string,
+  payload: c.TCanvasCreateQuizRequest,
+): Promise<c.TCanvasCreateQuizResponse> => {
+  return request.post(endpoints.canvasQuizzes(courseId), payload);
+};
+
+export const favoriteCanvasCourse = ({
+  courseId,
+  favorite,
+}: c.TCanvasFavoriteCourseRequest): Promise<c.TCanvasFavoriteCourseResponse> => {
+  return request.put(endpoints.canvasCourseFavorite(courseId), { favorite });
+};
+
+export const searchCanvasItems = (
+  courseId: number | string,
+  query: string,
+): Promise<c.TCanvasModuleItemSearchResult[]> => {
+  return request.get(endpoints.canvasItemSearch(courseId, query));
+};
@@ -5,6 +5,7 @@ export * from './config';
 export * from './file-config';
 /* artifacts  */
 export * from './artifacts';
+export * from './quiz';
 /* schema helpers  */
 export * from './parsers';
 export * from './ocr';
@@ -24,7 +25,9 @@ export * from './roles';
 export * from './types';
 export * from './types/agents';
 export * from './types/assistants';
+export * from './types/canvas';
 export * from './types/files';
+export * from './types/mcp';
 export * from './types/mutations';
 export * from './types/queries';
 export * from './types/runs';
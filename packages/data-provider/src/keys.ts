@@ -31,6 +31,8 @@ export enum QueryKeys {
   actions = 'actions',
   assistantDocs = 'assistantDocs',
   agentDocs = 'agentDocs',
+  agentSchedules = 'agentSchedules',
+  agentScheduleRuns = 'agentScheduleRuns',
   fileDownload = 'fileDownload',
   voices = 'voices',
   customConfigSpeech = 'customConfigSpeech',
@@ -48,6 +50,22 @@ export enum QueryKeys {
   banner = 'banner',
   /* Memories */
   memories = 'memories',
+  memoryHistory = 'memoryHistory',
+  dataExport = 'dataExport',
+  /* MCP */
+  mcpResources = 'mcpResources',
+  mcpResourceContents = 'mcpResourceContents',
+  mcpPrompts = 'mcpPrompts',
+  userMCPServers = 'userMCPServers',
+  mcpConnections = 'mcpConnections',
+  /* Canvas LMS */
+  canvasAuth = 'canvasAuth',
+  canvasCourses = 'canvasCourses',
+  canvasModules = 'canvasModules',
+  canvasModuleItems = 'canvasModuleItems',
+  canvasImportable = 'canvasImportable',
+  canvasSync = 'canvasSync',
+  canvasItemSearch = 'canvasItemSearch',
 }
 
 export enum MutationKeys {
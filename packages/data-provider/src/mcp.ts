@@ -47,6 +47,45 @@ const BaseOptionsSchema = z.object({
       }),
     )
     .optional(),
+  /** Only these tools of the server are exposed, if set */
+  allowedTools: z.array(z.string()).optional(),
+  /** These tools of the server are never exposed nor called */
+  deniedTools: z.array(z.string()).optional(),
+  /** Descriptions replacing the ones the server gives its tools, by tool name */
+  toolDescriptions: z.record(z.string(), z.string()).optional(),
+  /**
+   * Pauses tool calls until the user approves them, optionally editing their arguments:
+   * - true: all tools of the server
+   * - string[]: only the listed tools
+   */
+  requiresApproval: z.union([z.boolean(), z.array(z.string())]).optional(),
+  /**
+   * Caches the results of tool calls by tool and arguments, so that identical calls
+   * (e.g. repeated within a run, or when regenerating) do not reach the server again.
+   * Without `tools`, only tools the server annotates as read-only (`readOnlyHint`) are cached.
+   */
+  toolCache: z
+    .object({
+      /** How long results are cached, in milliseconds (default: 5 minutes) */
+      ttl: z.number().int().positive().optional(),
+      /** Tools whose results are cached, regardless of their annotations */
+      tools: z.array(z.string()).optional(),
+    })
+    .optional(),
+  /**
+   * Allows the server to request completions (`sampling/createMessage`) through the model
+   * of the conversation that called it; sampling requests are rejected if not set
+   */
+  sampling: z
+    .object({
+      /** Maximum tokens of a single completion, lowering the amount the server requests */
+      maxTokens: z.number().int().positive().optional(),
+      /** Maximum tokens each user can spend on the server's sampling requests per day */
+      tokenBudget: z.number().int().positive().optional(),
+      /** Whether the user must approve each sampling request before it is completed */
+      requireApproval: z.boolean().optional(),
+    })
+    .optional(),
 });
 
 export const StdioOptionsSchema = BaseOptionsSchema.extend({
@@ -151,4 +190,27 @@ export const MCPOptionsSchema = z.union([
 
 export const MCPServersSchema = z.record(z.string(), MCPOptionsSchema);
 
+/** Options users can set on the MCP servers they register themselves */
+const userMCPServerOptions = {
+  type: true,
+  url: true,
+  headers: true,
+  oauth: true,
+  timeout: true,
+  initTimeout: true,
+  chatMenu: true,
+  requiresApproval: true,
+} as const;
+
+/**
+ * Options of an MCP server a user registers from the UI (`PermissionTypes.MCP_SERVERS`):
+ * remote transports only, since stdio servers would run commands on the host
+ */
+export const UserMCPServerOptionsSchema = z.union([
+  SSEOptionsSchema.pick(userMCPServerOptions).extend({ type: z.literal('sse') }),
+  StreamableHTTPOptionsSchema.pick(userMCPServerOptions),
+]);
+
+export type UserMCPServerOptions = z.infer<typeof UserMCPServerOptionsSchema>;
+
 export type MCPOptions = z.infer<typeof MCPOptionsSchema>;
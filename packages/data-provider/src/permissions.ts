@@ -36,6 +36,14 @@ export enum PermissionTypes {
    * Type for using the "Web Search" feature
    */
   WEB_SEARCH = 'WEB_SEARCH',
+  /**
+   * Type for publishing content to Canvas LMS (instructor actions)
+   */
+  CANVAS = 'CANVAS',
+  /**
+   * Type for registering personal MCP servers
+   */
+  MCP_SERVERS = 'MCP_SERVERS',
 }
 
 /**
@@ -103,6 +111,17 @@ export const webSearchPermissionsSchema = z.object({
 });
 export type TWebSearchPermissions = z.infer<typeof webSearchPermissionsSchema>;
 
+export const canvasPermissionsSchema = z.object({
+  [Permissions.USE]: z.boolean().default(false),
+});
+export type TCanvasPermissions = z.infer<typeof canvasPermissionsSchema>;
+
+export const mcpServerPermissionsSchema = z.object({
+  [Permissions.USE]: z.boolean().default(false),
+  [Permissions.CREATE]: z.boolean().default(false),
+});
+export type TMCPServerPermissions = z.infer<typeof mcpServerPermissionsSchema>;
+
 // Define a single permissions schema that holds all permission types.
 export const permissionsSchema = z.object({
   [PermissionTypes.PROMPTS]: promptPermissionsSchema,
@@ -113,4 +132,6 @@ export const permissionsSchema = z.object({
   [PermissionTypes.TEMPORARY_CHAT]: temporaryChatPermissionsSchema,
   [PermissionTypes.RUN_CODE]: runCodePermissionsSchema,
   [PermissionTypes.WEB_SEARCH]: webSearchPermissionsSchema,
+  [PermissionTypes.CANVAS]: canvasPermissionsSchema,
+  [PermissionTypes.MCP_SERVERS]: mcpServerPermissionsSchema,
 });
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+/** Artifact type for structured quizzes, edited in the artifact panel and exported to Canvas */
+export const QUIZ_ARTIFACT_TYPE = 'application/vnd.quiz';
+
+export const QUIZ_QUESTION_TYPES = ['multiple_choice', 'true_false', 'short_answer'] as const;
+
+export type TQuizQuestionType = (typeof QUIZ_QUESTION_TYPES)[number];
+
+export const quizAnswerSchema = z.object({
+  text: z.string(),
+  correct: z.boolean().default(false),
+});
+
+export const quizQuestionSchema = z.object({
+  type: z.enum(QUIZ_QUESTION_TYPES),
+  text: z.string(),
+  points: z.number().nonnegative().default(1),
+  /** Choices for multiple choice and true/false questions, accepted answers for short answer questions */
+  answers: z.array(quizAnswerSchema).default([]),
+});
+
+/** Lenient enough to hold quizzes being edited; see `isQuizComplete` before exporting */
+export const quizSchema = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  questions: z.array(quizQuestionSchema),
+});
+
+export type TQuizAnswer = z.infer<typeof quizAnswerSchema>;
+export type TQuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type TQuiz = z.infer<typeof quizSchema>;
+
+/**
+ * Parses the JSON content of a quiz artifact
+ * @returns The quiz, or `null` if the content is not a valid quiz (e.g. while it is still streaming)
+ */
+export function parseQuiz(content: string): TQuiz | null {
+  try {
+    const result = quizSchema.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a question can be graded: choice questions need answers with text, multiple choice
+ * questions at least 2 with at least 1 correct, true/false questions exactly 2 with 1 correct,
+ * and short answer questions at least 1 accepted answer
+ */
+export function isQuizQuestionComplete(question: TQuizQuestion): boolean {
+  if (question.text.trim().length === 0) {
+    return false;
+  }
+  const answers = question.answers.filter((answer) => answer.text.trim().length > 0);
+  if (question.type === 'short_answer') {
+    return answers.length > 0;
+  }
+  if (answers.length !== question.answers.length) {
+    return false;
+  }
+  const correct = answers.filter((answer) => answer.correct).length;
+  if (question.type === 'true_false') {
+    return answers.length === 2 && correct === 1;
+  }
+  return answers.length >= 2 && correct >= 1;
+}
+
+/** Whether a quiz has a title and questions that can all be graded, as required to export it */
+export function isQuizComplete(quiz: TQuiz): boolean {
+  return (
+    quiz.title.trim().length > 0 &&
+    quiz.questions.length > 0 &&
+    quiz.questions.every(isQuizQuestionComplete)
+  );
+}
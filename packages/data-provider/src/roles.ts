@@ -8,6 +8,8 @@ import {
   memoryPermissionsSchema,
   runCodePermissionsSchema,
   webSearchPermissionsSchema,
+  canvasPermissionsSchema,
+  mcpServerPermissionsSchema,
   bookmarkPermissionsSchema,
   multiConvoPermissionsSchema,
   temporaryChatPermissionsSchema,
@@ -74,6 +76,13 @@ const defaultRolesSchema = z.object({
       [PermissionTypes.WEB_SEARCH]: webSearchPermissionsSchema.extend({
         [Permissions.USE]: z.boolean().default(true),
       }),
+      [PermissionTypes.CANVAS]: canvasPermissionsSchema.extend({
+        [Permissions.USE]: z.boolean().default(true),
+      }),
+      [PermissionTypes.MCP_SERVERS]: mcpServerPermissionsSchema.extend({
+        [Permissions.USE]: z.boolean().default(true),
+        [Permissions.CREATE]: z.boolean().default(true),
+      }),
     }),
   }),
   [SystemRoles.USER]: roleSchema.extend({
@@ -118,6 +127,13 @@ export const roleDefaults = defaultRolesSchema.parse({
       [PermissionTypes.WEB_SEARCH]: {
         [Permissions.USE]: true,
       },
+      [PermissionTypes.CANVAS]: {
+        [Permissions.USE]: true,
+      },
+      [PermissionTypes.MCP_SERVERS]: {
+        [Permissions.USE]: true,
+        [Permissions.CREATE]: true,
+      },
     },
   },
   [SystemRoles.USER]: {
@@ -131,6 +147,8 @@ export const roleDefaults = defaultRolesSchema.parse({
       [PermissionTypes.TEMPORARY_CHAT]: {},
       [PermissionTypes.RUN_CODE]: {},
       [PermissionTypes.WEB_SEARCH]: {},
+      [PermissionTypes.CANVAS]: {},
+      [PermissionTypes.MCP_SERVERS]: {},
     },
   },
 });
@@ -170,6 +170,7 @@ export const defaultAgentFormValues = {
   artifacts: '',
   isCollaborative: false,
   recursion_limit: undefined,
+  mcp_tool_retrieval: undefined,
   [Tools.execute_code]: false,
   [Tools.file_search]: false,
   [Tools.web_search]: false,
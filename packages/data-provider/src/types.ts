@@ -611,6 +611,14 @@ export type TAcceptTermsResponse = {
   success: boolean;
 };
 
+/** Status of the bundle of a user's data, which is generated in the background */
+export type TDataExportStatus = {
+  status: 'none' | 'pending' | 'ready' | 'failed';
+  createdAt?: string;
+  /** When a ready bundle stops being available for download */
+  expiresAt?: string;
+};
+
 export type TBannerResponse = TBanner | null;
 
 export type TUpdateFeedbackRequest = {
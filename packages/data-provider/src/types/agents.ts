@@ -2,6 +2,7 @@
 import { StepTypes, ContentTypes, ToolCallTypes } from './runs';
 import type { TAttachment, TPlugin } from 'src/schemas';
 import type { FunctionToolCall } from './assistants';
+import type { TMCPProgress, TMCPElicitation, TMCPCachedResult, TMCPSamplingApproval } from './mcp';
 
 export namespace Agents {
   export type MessageType = 'human' | 'ai' | 'generic' | 'system' | 'function' | 'tool' | 'remove';
@@ -66,6 +67,31 @@ export namespace Agents {
     auth?: string;
     /** Expiration time */
     expires_at?: number;
+    /** MCP sampling request awaiting the user's approval */
+    sampling?: TMCPSamplingApproval;
+    /** Approval the tool call awaits before it runs */
+    approval?: ToolApproval;
+    /** Latest progress reported by the MCP server running the tool call */
+    mcp_progress?: TMCPProgress;
+    /** Input the MCP server running the tool call requests from the user */
+    elicitation?: TMCPElicitation;
+    /** Set if the result was served from the cache, see the `toolCache` option of MCP servers */
+    mcp_cached?: TMCPCachedResult;
+  };
+
+  /** Tool call paused until the user approves it, which can change its arguments */
+  export type ToolApproval = {
+    /** Identifies the tool call when the user approves or denies it */
+    flowId: string;
+    /** The proposed arguments, as JSON */
+    args: string;
+    expires_at: number;
+  };
+
+  export type ToolApprovalRequest = {
+    approved: boolean;
+    /** Arguments edited by the user, replacing the proposed ones */
+    args?: Record<string, unknown>;
   };
 
   export type ToolEndEvent = {
@@ -201,6 +227,11 @@ export namespace Agents {
     tool_calls?: ToolCallChunk[];
     auth?: string;
     expires_at?: number;
+    sampling?: TMCPSamplingApproval;
+    approval?: ToolApproval;
+    mcp_progress?: TMCPProgress;
+    elicitation?: TMCPElicitation;
+    mcp_cached?: TMCPCachedResult;
   };
   export type AgentToolCall = FunctionToolCall | ToolCall;
   export interface ExtendedMessageContent {
@@ -313,6 +344,8 @@ export type ActionMetadata = {
   raw_spec?: string;
   oauth_client_id?: string;
   oauth_client_secret?: string;
+  /** Whether calls to the action's functions wait for the user's approval */
+  requires_approval?: boolean;
 };
 
 export type ActionAuth = {
@@ -2,6 +2,7 @@ import type { OpenAPIV3 } from 'openapi-types';
 import type { AssistantsEndpoint, AgentProvider } from 'src/schemas';
 import type { ContentTypes } from './runs';
 import type { Agents } from './agents';
+import type { TMCPProgress, TMCPElicitation, TMCPCachedResult, TMCPSamplingApproval } from './mcp';
 import type { TFile } from './files';
 import { ArtifactModes } from 'src/artifacts';
 
@@ -224,6 +225,8 @@ export type Agent = {
   hide_sequential_outputs?: boolean;
   artifacts?: ArtifactModes;
   recursion_limit?: number;
+  /** Number of MCP tools most relevant to each turn given to the agent; all if unset or 0 */
+  mcp_tool_retrieval?: number;
   version?: number;
 };
 
@@ -241,7 +244,12 @@ export type AgentCreateParams = {
   model_parameters: AgentModelParameters;
 } & Pick<
   Agent,
-  'agent_ids' | 'end_after_tools' | 'hide_sequential_outputs' | 'artifacts' | 'recursion_limit'
+  | 'agent_ids'
+  | 'end_after_tools'
+  | 'hide_sequential_outputs'
+  | 'artifacts'
+  | 'recursion_limit'
+  | 'mcp_tool_retrieval'
 >;
 
 export type AgentUpdateParams = {
@@ -260,7 +268,12 @@ export type AgentUpdateParams = {
   isCollaborative?: boolean;
 } & Pick<
   Agent,
-  'agent_ids' | 'end_after_tools' | 'hide_sequential_outputs' | 'artifacts' | 'recursion_limit'
+  | 'agent_ids'
+  | 'end_after_tools'
+  | 'hide_sequential_outputs'
+  | 'artifacts'
+  | 'recursion_limit'
+  | 'mcp_tool_retrieval'
 >;
 
 export type AgentListParams = {
@@ -279,6 +292,60 @@ export type AgentListResponse = {
   has_more: boolean;
 };
 
+export type AgentScheduleRunStatus = 'running' | 'success' | 'failed' | 'skipped';
+
+/** Recurring runs of an agent with a fixed prompt, on a cron expression (UTC) or an interval */
+export type AgentSchedule = {
+  _id: string;
+  agent_id: string;
+  name: string;
+  prompt: string;
+  cron?: string | null;
+  intervalMinutes?: number | null;
+  enabled: boolean;
+  /** The conversation the runs are added to */
+  conversationId?: string | null;
+  maxRetries: number;
+  retryCount: number;
+  nextRunAt?: string | null;
+  lastRunAt?: string | null;
+  lastStatus?: AgentScheduleRunStatus | null;
+  /** Runs that finished since the user last viewed the schedule */
+  unreadRuns: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AgentScheduleRun = {
+  _id: string;
+  scheduleId: string;
+  agent_id: string;
+  status: AgentScheduleRunStatus;
+  /** 1 for the scheduled run, increasing with each retry */
+  attempt: number;
+  conversationId?: string | null;
+  messageId?: string | null;
+  error?: string | null;
+  startedAt: string;
+  finishedAt?: string | null;
+};
+
+export type AgentScheduleCreateParams = {
+  agent_id: string;
+  name: string;
+  prompt: string;
+  cron?: string | null;
+  intervalMinutes?: number | null;
+  enabled?: boolean;
+  maxRetries?: number;
+};
+
+export type AgentScheduleUpdateParams = Partial<AgentScheduleCreateParams>;
+
+export type AgentSchedulesResponse = { schedules: AgentSchedule[] };
+
+export type AgentScheduleRunsResponse = { runs: AgentScheduleRun[] };
+
 export type AgentFile = {
   file_id: string;
   id?: string;
@@ -435,6 +502,11 @@ export type PartMetadata = {
   action?: boolean;
   auth?: string;
   expires_at?: number;
+  sampling?: TMCPSamplingApproval;
+  approval?: Agents.ToolApproval;
+  mcp_progress?: TMCPProgress;
+  elicitation?: TMCPElicitation;
+  mcp_cached?: TMCPCachedResult;
 };
 
 export type ContentPart = (
@@ -0,0 +1,383 @@
+import type { TQuiz } from '../quiz';
+import type { TFileUpload } from './files';
+
+/** How the user's Canvas account is connected */
+export type TCanvasAuthMethod = 'token' | 'oauth';
+
+export type TCanvasAuthStatus = {
+  /** Whether a Canvas instance (`CANVAS_BASE_URL`) is configured on the server */
+  configured: boolean;
+  /** Whether the Canvas OAuth2 developer key flow is available */
+  oauthEnabled: boolean;
+  /** Whether the user has connected their Canvas account */
+  connected: boolean;
+  method: TCanvasAuthMethod | null;
+};
+
+export type TCanvasOAuthInitiateResponse = {
+  authorizationUrl: string;
+};
+
+/* Canvas REST API objects, limited to the fields LibreChat uses */
+
+export type CanvasTerm = {
+  id: number;
+  name: string;
+  start_at: string | null;
+  end_at: string | null;
+};
+
+export type Course = {
+  id: number;
+  name: string;
+  course_code: string;
+  /** `unpublished`, `available`, `completed` or `deleted` */
+  workflow_state: string;
+  enrollment_term_id: number;
+  start_at?: string | null;
+  end_at?: string | null;
+  /** Present when requested with `include[]=term` */
+  term?: CanvasTerm;
+  /** Present when requested with `include[]=favorites` */
+  is_favorite?: boolean;
+};
+
+export type CanvasFavorite = {
+  context_id: number;
+  context_type: string;
+};
+
+export type Module = {
+  id: number;
+  name: string;
+  position: number;
+  unlock_at: string | null;
+  require_sequential_progress: boolean;
+  /** Completion state for the current user: `locked`, `unlocked`, `started` or `completed` */
+  state?: string;
+  completed_at?: string | null;
+  items_count: number;
+  published?: boolean;
+  /** Present when requested with `include[]=items`, unless the module has too many items */
+  items?: ModuleItem[];
+};
+
+export type ModuleItemType =
+  | 'File'
+  | 'Page'
+  | 'Discussion'
+  | 'Assignment'
+  | 'Quiz'
+  | 'SubHeader'
+  | 'ExternalUrl'
+  | 'ExternalTool';
+
+export type ModuleItem = {
+  id: number;
+  module_id: number;
+  title: string;
+  type: ModuleItemType;
+  /** ID of the underlying object; absent for `ExternalUrl`, `Page` and `SubHeader` items */
+  content_id?: number;
+  html_url?: string;
+  /** Canvas API URL of the underlying object */
+  url?: string;
+  /** Slug of the underlying page for `Page` items */
+  page_url?: string;
+  external_url?: string;
+  position: number;
+  indent: number;
+  completion_requirement?: {
+    type: string;
+    min_score?: number;
+    completed?: boolean;
+  };
+  published?: boolean;
+};
+
+/** A module item found by searching a course, with the name of its module */
+export type TCanvasModuleItemSearchResult = ModuleItem & {
+  module_name: string;
+};
+
+export type TCanvasFavoriteCourseRequest = {
+  courseId: number;
+  favorite: boolean;
+};
+
+export type TCanvasFavoriteCourseResponse = {
+  id: number;
+  is_favorite: boolean;
+};
+
+export type CanvasPage = {
+  page_id: number;
+  url: string;
+  title: string;
+  /** HTML content; only present when the page is fetched individually */
+  body?: string;
+  created_at: string;
+  updated_at: string;
+  published: boolean;
+  front_page: boolean;
+  html_url?: string;
+};
+
+export type CanvasFile = {
+  id: number;
+  folder_id?: number;
+  display_name: string;
+  filename: string;
+  'content-type': string;
+  /** Pre-authenticated download URL */
+  url: string;
+  size: number;
+  created_at: string;
+  updated_at: string;
+  locked?: boolean;
+  hidden?: boolean;
+};
+
+export type CanvasRubricCriterion = {
+  id: string;
+  description: string;
+  long_description?: string;
+  points: number;
+  ratings: { id: string; description: string; long_description?: string; points: number }[];
+};
+
+export type CanvasAssignment = {
+  id: number;
+  course_id: number;
+  name: string;
+  /** HTML description */
+  description: string | null;
+  due_at: string | null;
+  unlock_at?: string | null;
+  lock_at?: string | null;
+  points_possible: number | null;
+  submission_types: string[];
+  html_url: string;
+  published: boolean;
+  updated_at: string;
+  rubric?: CanvasRubricCriterion[];
+  /** The current user's submission, present when requested with `include[]=submission` */
+  submission?: CanvasSubmission;
+};
+
+export type CanvasAnnouncement = {
+  id: number;
+  title: string;
+  /** HTML message */
+  message: string;
+  posted_at: string | null;
+  html_url: string;
+  /** e.g. `course_123` */
+  context_code: string;
+  author?: { id: number; display_name: string };
+};
+
+export type CanvasDiscussionTopic = {
+  id: number;
+  title: string;
+  /** HTML message */
+  message: string;
+  posted_at: string | null;
+  html_url: string;
+  user_name?: string;
+  discussion_subentry_count: number;
+  last_reply_at?: string | null;
+  published: boolean;
+  assignment_id?: number | null;
+};
+
+export type CanvasQuiz = {
+  id: number;
+  title: string;
+  /** HTML description */
+  description: string | null;
+  quiz_type: 'practice_quiz' | 'assignment' | 'graded_survey' | 'survey';
+  points_possible: number | null;
+  question_count: number;
+  published: boolean;
+  html_url: string;
+};
+
+export type CanvasQuizQuestionType =
+  | 'multiple_choice_question'
+  | 'multiple_answers_question'
+  | 'true_false_question'
+  | 'short_answer_question';
+
+export type CanvasQuizQuestion = {
+  id: number;
+  quiz_id: number;
+  question_name: string;
+  question_type: CanvasQuizQuestionType;
+  /** HTML question text */
+  question_text: string;
+  points_possible: number;
+};
+
+/** Entry of a discussion thread as returned by the topic's `view` endpoint */
+export type CanvasDiscussionEntry = {
+  id: number;
+  user_id?: number;
+  /** HTML message; absent for deleted entries */
+  message?: string;
+  created_at: string;
+  deleted?: boolean;
+  replies?: CanvasDiscussionEntry[];
+};
+
+export type CanvasDiscussionView = {
+  participants: { id: number; display_name: string }[];
+  view: CanvasDiscussionEntry[];
+};
+
+/** Enrollment of the current user, with grades for student enrollments */
+export type CanvasEnrollment = {
+  id: number;
+  course_id: number;
+  type: string;
+  enrollment_state: string;
+  grades?: {
+    html_url: string;
+    current_score: number | null;
+    current_grade: string | null;
+    final_score: number | null;
+    final_grade: string | null;
+  };
+};
+
+export type CanvasSubmission = {
+  id: number;
+  assignment_id: number;
+  score: number | null;
+  grade: string | null;
+  submitted_at: string | null;
+  graded_at: string | null;
+  late?: boolean;
+  missing?: boolean;
+  /** `submitted`, `unsubmitted`, `graded` or `pending_review` */
+  workflow_state: string;
+  /** Present when requested with `include[]=assignment` */
+  assignment?: CanvasAssignment;
+};
+
+/** Module item types whose content can be imported as a markdown document */
+export type CanvasContentType = 'Page' | 'Assignment' | 'Discussion';
+
+/** Where imported Canvas content is uploaded; mirrors the fields of a regular file upload */
+export type TCanvasUploadTarget = {
+  endpoint?: string;
+  tool_resource?: string;
+  /** Adds the file to this agent's tool resources instead of the message */
+  agent_id?: string;
+  message_file?: boolean;
+};
+
+export type TCanvasUploadFileRequest = TCanvasUploadTarget & {
+  /** Course the file belongs to, recorded with the imported file */
+  course_id?: number;
+};
+
+export type TCanvasImportContentRequest = TCanvasUploadTarget & {
+  type: CanvasContentType;
+  /** Page URL slug for pages, the object ID otherwise */
+  id: string | number;
+};
+
+/** Content of a course that can be imported in bulk */
+export type TCanvasImportableItem = {
+  type: CanvasContentType | 'File';
+  /** Page URL slug for pages, the object ID otherwise */
+  id: string | number;
+  title: string;
+};
+
+/** Origin of a file imported from Canvas, stored in the file's `metadata.canvas` */
+export type TCanvasFileMetadata = {
+  course_id?: number;
+  content_type: CanvasContentType | 'File';
+  /** Page URL slug for pages, the object ID otherwise */
+  content_id: string;
+  /** `updated_at` of the Canvas content when it was last downloaded */
+  updated_at?: string;
+  /** When the file was last compared against Canvas */
+  synced_at?: string;
+};
+
+export type TCanvasSyncResult = {
+  /** Number of imported files compared against Canvas */
+  checked: number;
+  /** Files re-downloaded and re-embedded because they changed in Canvas */
+  updated: number;
+  /** Files removed because their content was deleted from Canvas */
+  deleted: number;
+  failed: number;
+  synced_at: string;
+};
+
+export type TCanvasSyncStatus = {
+  running: boolean;
+  /** Number of files imported from Canvas */
+  files: number;
+  lastSyncedAt: string | null;
+};
+
+export type TCanvasUploadResponse = TFileUpload & {
+  message: string;
+  originalFile: {
+    id: number | string;
+    filename: string;
+    display_name: string;
+    content_type: string;
+    size: number;
+    type?: CanvasContentType;
+    title?: string;
+    html_url?: string;
+  };
+  /** Whether an existing import of the same Canvas content was reused */
+  deduplicated?: boolean;
+};
+
+/** Kinds of Canvas content that LibreChat output can be published as */
+export type CanvasPublishType = 'Page' | 'File' | 'Announcement';
+
+export type TCanvasPublishRequest = {
+  type: CanvasPublishType;
+  title: string;
+  /** HTML body of pages and announcements, or the text contents of files */
+  content: string;
+  /** Name of the uploaded file; defaults to the title */
+  filename?: string;
+  /** MIME type of the uploaded file; defaults to `text/markdown` */
+  content_type?: string;
+  /** Course folder the file is uploaded into, e.g. `LibreChat/Handouts` */
+  folder_path?: string;
+  /** Module the page or file is added to */
+  module_id?: number;
+  /** Whether students can see the page or module item right away */
+  published?: boolean;
+};
+
+export type TCanvasPublishResponse = {
+  type: CanvasPublishType;
+  id: number | string;
+  title: string;
+  html_url?: string;
+};
+
+export type TCanvasCreateQuizRequest = {
+  quiz: TQuiz;
+  /** Whether students can see the quiz right away */
+  published?: boolean;
+};
+
+export type TCanvasCreateQuizResponse = {
+  id: number;
+  title: string;
+  question_count: number;
+  html_url?: string;
+};
@@ -1,4 +1,5 @@
 import { EToolResources } from './assistants';
+import type { TCanvasFileMetadata } from './canvas';
 
 export enum FileSources {
   local = 'local',
@@ -81,7 +82,7 @@ export type TFile = {
   height?: number;
   expiresAt?: string | Date;
   preview?: string;
-  metadata?: { fileIdentifier?: string };
+  metadata?: { fileIdentifier?: string; canvas?: TCanvasFileMetadata };
   createdAt?: string | Date;
   updatedAt?: string | Date;
 };
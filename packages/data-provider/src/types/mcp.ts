@@ -0,0 +1,219 @@
+import type { UserMCPServerOptions } from '../mcp';
+
+/* MCP server resources */
+
+export type TMCPResource = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  /** Whether the user subscribed to updates of the resource */
+  subscribed: boolean;
+  /** When the server last reported the subscribed resource as updated */
+  updatedAt?: string;
+};
+
+export type TMCPResourcesResponse = {
+  resources: TMCPResource[];
+  /** Whether the server supports subscribing to resource updates */
+  subscribable: boolean;
+};
+
+/** Contents of a resource: `text` for text resources, base64 encoded `blob` for binary ones */
+export type TMCPResourceContents = {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+};
+
+export type TMCPReadResourceResponse = {
+  contents: TMCPResourceContents[];
+};
+
+export type TMCPResourceSubscriptionRequest = {
+  uri: string;
+};
+
+/* MCP server prompts */
+
+export type TMCPPromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type TMCPPrompt = {
+  serverName: string;
+  name: string;
+  description?: string;
+  arguments?: TMCPPromptArgument[];
+};
+
+export type TMCPGetPromptRequest = {
+  name: string;
+  arguments?: Record<string, string>;
+};
+
+export type TMCPPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: TMCPResourceContents };
+
+export type TMCPPromptMessage = {
+  role: 'user' | 'assistant';
+  content: TMCPPromptContent;
+};
+
+export type TMCPGetPromptResponse = {
+  description?: string;
+  messages: TMCPPromptMessage[];
+};
+
+/* MCP sampling */
+
+/** Sampling request of a server awaiting the user's approval, sent with the tool call that made it */
+export type TMCPSamplingApproval = {
+  /** Identifies the request when the user approves or rejects it */
+  flowId: string;
+  serverName: string;
+  /** Messages the server wants completed, with non-text content summarized */
+  messages: Array<{ role: 'user' | 'assistant'; text: string }>;
+  systemPrompt?: string;
+  maxTokens: number;
+  expires_at: number;
+};
+
+export type TMCPSamplingDecisionRequest = {
+  approved: boolean;
+};
+
+/* MCP progress and elicitation */
+
+/** Latest progress a server reported for a running tool call */
+export type TMCPProgress = {
+  progress: number;
+  /** Total to reach, if known */
+  total?: number;
+  message?: string;
+};
+
+/** Result of a tool call served from the cache instead of the server */
+export type TMCPCachedResult = {
+  /** When the result was cached, in milliseconds since the epoch */
+  cachedAt: number;
+};
+
+/** Field of an elicitation form; servers may only request primitive values */
+export type TMCPElicitationField = {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  /** Options of a string field, with `enumNames` as their labels */
+  enum?: string[];
+  enumNames?: string[];
+  format?: 'email' | 'uri' | 'date' | 'date-time';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  default?: boolean;
+};
+
+/** Input a server requests from the user during a tool call, sent with that tool call */
+export type TMCPElicitation = {
+  /** Identifies the request when the user responds to it */
+  flowId: string;
+  serverName: string;
+  message: string;
+  requestedSchema: {
+    type: 'object';
+    properties: Record<string, TMCPElicitationField>;
+    required?: string[];
+  };
+  expires_at: number;
+};
+
+export type TMCPElicitationResponse = {
+  action: 'accept' | 'reject' | 'cancel';
+  /** The user's input, only sent when accepting */
+  content?: Record<string, string | number | boolean>;
+};
+
+/* MCP servers registered by users */
+
+/** MCP server a user registered, with header values and the OAuth client secret left out */
+export type TUserMCPServer = {
+  serverName: string;
+  config: UserMCPServerOptions;
+  /** Names of the server's tools, as of its last successful connection */
+  tools: string[];
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type TUserMCPServerRequest = {
+  serverName: string;
+  /** Header values and a client secret left empty keep the ones saved before */
+  config: UserMCPServerOptions;
+};
+
+export type TUserMCPServerConnectResponse = {
+  /** Set if the user must authorize the server; its tools are loaded once they do */
+  authURL?: string;
+  server?: TUserMCPServer;
+};
+
+/* MCP connection diagnostics */
+
+export type TMCPConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export type TMCPConnectionError = {
+  message: string;
+  /** When the error occurred, in milliseconds since the epoch */
+  timestamp: number;
+};
+
+/** Percentiles of the durations of a connection's recent tool calls, in milliseconds */
+export type TMCPLatency = {
+  /** Number of calls the percentiles are computed from */
+  count: number;
+  p50?: number;
+  p95?: number;
+  p99?: number;
+};
+
+/** State of an app-level connection, or of a user's connection when `userId` is set */
+export type TMCPConnectionDiagnostics = {
+  serverName: string;
+  userId?: string;
+  connectionState: TMCPConnectionState;
+  /** Whether the server is waiting for OAuth authorization */
+  oauthRequired: boolean;
+  /** Whether the server is remote and supports OAuth */
+  supportsOAuth: boolean;
+  reconnectAttempts: number;
+  connectedAt?: number;
+  lastPingAt?: number;
+  /** Last activity of the user, for user connections */
+  lastActivityAt?: number;
+  /** Number of tools, as of the last time they were listed */
+  toolCount?: number;
+  /** Most recent errors first */
+  recentErrors: TMCPConnectionError[];
+  latency: TMCPLatency;
+};
+
+export type TMCPConnectionAction = 'reconnect' | 'disconnect' | 'oauth';
+
+export type TMCPConnectionActionRequest = {
+  serverName: string;
+  action: TMCPConnectionAction;
+  /** Owner of the connection, for user connections */
+  userId?: string;
+};
+
+export type TMCPConnectionActionResponse = {
+  /** Set by `oauth` actions: the admin must authorize the server at this URL */
+  authURL?: string;
+};
@@ -279,6 +279,8 @@ export type UpdatePermVars<T> = {
 export type UpdatePromptPermVars = UpdatePermVars<p.TPromptPermissions>;
 export type UpdateMemoryPermVars = UpdatePermVars<p.TMemoryPermissions>;
 export type UpdateAgentPermVars = UpdatePermVars<p.TAgentPermissions>;
+export type UpdateCanvasPermVars = UpdatePermVars<p.TCanvasPermissions>;
+export type UpdateMCPServerPermVars = UpdatePermVars<p.TMCPServerPermissions>;
 
 export type UpdatePermResponse = r.TRole;
 
@@ -303,6 +305,20 @@ export type UpdateAgentPermOptions = MutationOptions<
   types.TError | null | undefined
 >;
 
+export type UpdateCanvasPermOptions = MutationOptions<
+  UpdatePermResponse,
+  UpdateCanvasPermVars,
+  unknown,
+  types.TError | null | undefined
+>;
+
+export type UpdateMCPServerPermOptions = MutationOptions<
+  UpdatePermResponse,
+  UpdateMCPServerPermVars,
+  unknown,
+  types.TError | null | undefined
+>;
+
 export type UpdateConversationTagOptions = MutationOptions<
   types.TConversationTag,
   types.TConversationTagRequest
@@ -111,7 +111,14 @@ export type GetToolCallParams = { conversationId: string };
 export type ToolCallResults = a.ToolCallResult[];
 
 /* Memories */
-export type TUserMemory = {
+/** Namespace of a memory; memories without any scope field are global */
+export type TMemoryScope = {
+  agentId?: string | null;
+  projectId?: string | null;
+  conversationTag?: string | null;
+};
+
+export type TUserMemory = TMemoryScope & {
   key: string;
   value: string;
   updated_at: string;
@@ -124,3 +131,41 @@ export type MemoriesResponse = {
   tokenLimit: number | null;
   usagePercentage: number | null;
 };
+
+/** A version of a memory, created by a creation, update, deletion or move to another scope */
+export type TMemoryHistoryEntry = TMemoryScope & {
+  _id: string;
+  key: string;
+  version: number;
+  action: 'create' | 'update' | 'delete' | 'move';
+  value?: string;
+  tokenCount?: number;
+  previousValue?: string;
+  previousTokenCount?: number;
+  previousScope?: TMemoryScope;
+  /** Where the change was made; unset for changes made by the user in the memory panel */
+  source?: {
+    conversationId?: string;
+    messageId?: string;
+    agentId?: string;
+    revertOf?: string;
+  };
+  createdAt: string;
+};
+
+export type MemoryHistoryParams = TMemoryScope & { key?: string };
+
+export type MemoryHistoryResponse = {
+  history: TMemoryHistoryEntry[];
+};
+
+export type MemoryTransferFormat = 'json' | 'markdown';
+
+export type MemoryImportResponse = {
+  imported: number;
+  /** Memories that were not imported, e.g. with keys that are not valid or over the token limit */
+  skipped: Array<{
+    key: string;
+    reason: 'invalid_key' | 'duplicate' | 'value_too_long' | 'token_limit';
+  }>;
+};
@@ -0,0 +1,234 @@
+import type { Model } from 'mongoose';
+import type * as t from '~/types';
+
+// Factory function that takes mongoose instance and returns the methods
+export function createAgentScheduleMethods(mongoose: typeof import('mongoose')) {
+  /**
+   * Finds the agent schedules of a user, oldest first
+   */
+  async function getAgentSchedules(
+    userId: t.GetAgentScheduleParams['userId'],
+  ): Promise<t.IAgentScheduleLean[]> {
+    try {
+      const AgentSchedule: Model<t.IAgentSchedule> = mongoose.models.AgentSchedule;
+      return await AgentSchedule.find({ userId })
+        .sort({ createdAt: 1 })
+        .lean<t.IAgentScheduleLean[]>();
+    } catch (error) {
+      throw new Error(
+        `Failed to get agent schedules: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Finds one of the agent schedules of a user
+   */
+  async function getAgentSchedule({
+    userId,
+    scheduleId,
+  }: t.GetAgentScheduleParams): Promise<t.IAgentScheduleLean | null> {
+    if (!mongoose.isValidObjectId(scheduleId)) {
+      return null;
+    }
+    try {
+      const AgentSchedule: Model<t.IAgentSchedule> = mongoose.models.AgentSchedule;
+      return await AgentSchedule.findOne({ _id: scheduleId, userId }).lean<t.IAgentScheduleLean>();
+    } catch (error) {
+      throw new Error(
+        `Failed to get agent schedule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Schedules runs of an agent for a user
+   */
+  async function createAgentSchedule(
+    params: t.CreateAgentScheduleParams,
+  ): Promise<t.IAgentScheduleLean> {
+    try {
+      const AgentSchedule: Model<t.IAgentSchedule> = mongoose.models.AgentSchedule;
+      const schedule = await AgentSchedule.create(params);
+      return schedule.toObject() as t.IAgentScheduleLean;
+    } catch (error) {
+      throw new Error(
+        `Failed to create agent schedule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Updates one of the agent schedules of a user
+   */
+  async function updateAgentSchedule({
+    userId,
+    scheduleId,
+    update,
+    incrementUnreadRuns = false,
+  }: t.UpdateAgentScheduleParams): Promise<t.IAgentScheduleLean | null> {
+    if (!mongoose.isValidObjectId(scheduleId)) {
+      return null;
+    }
+    try {
+      const AgentSchedule: Model<t.IAgentSchedule> = mongoose.models.AgentSchedule;
+      return await AgentSchedule.findOneAndUpdate(
+        { _id: scheduleId, userId },
+        { ...update, ...(incrementUnreadRuns ? { $inc: { unreadRuns: 1 } } : {}) },
+        { new: true },
+      ).lean<t.IAgentScheduleLean>();
+    } catch (error) {
+      throw new Error(
+        `Failed to update agent schedule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Deletes one of the agent schedules of a user, with its run history
+   */
+  async function deleteAgentSchedule({
+    userId,
+    scheduleId,
+  }: t.GetAgentScheduleParams): Promise<boolean> {
+    if (!mongoose.isValidObjectId(scheduleId)) {
+      return false;
+    }
+    try {
+      const AgentSchedule: Model<t.IAgentSchedule> = mongoose.models.AgentSchedule;
+      const AgentScheduleRun: Model<t.IAgentScheduleRun> = mongoose.models.AgentScheduleRun;
+      const result = await AgentSchedule.deleteOne({ _id: scheduleId, userId });
+      if (result.deletedCount === 0) {
+        return false;
+      }
+      await AgentScheduleRun.deleteMany({ scheduleId, userId });
+      return true;
+    } catch (error) {
+      throw new Error(
+        `Failed to delete agent schedule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Deletes all agent schedules of a user, with their run history
+   */
+  async function deleteUserAgentSchedules(
+    userId: t.GetAgentScheduleParams['userId'],
+  ): Promise<number> {
+    try {
+      const AgentSchedule: Model<t.IAgentSchedule> = mongoose.models.AgentSchedule;
+      const AgentScheduleRun: Model<t.IAgentScheduleRun> = mongoose.models.AgentScheduleRun;
+      const result = await AgentSchedule.deleteMany({ userId });
+      await AgentScheduleRun.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      throw new Error(
+        `Failed to delete agent schedules: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Locks the enabled schedule that has been due the longest, if any, until `lockedUntil`.
+   * Schedules whose lock expired, e.g. because the server stopped during a run, can be claimed again.
+   */
+  async function claimDueAgentSchedule(
+    lockedUntil: Date,
+    now = new Date(),
+  ): Promise<t.IAgentScheduleLean | null> {
+    try {
+      const AgentSchedule: Model<t.IAgentSchedule> = mongoose.models.AgentSchedule;
+      return await AgentSchedule.findOneAndUpdate(
+        {
+          enabled: true,
+          nextRunAt: { $lte: now },
+          $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+        },
+        { lockedUntil },
+        { new: true, sort: { nextRunAt: 1 } },
+      ).lean<t.IAgentScheduleLean>();
+    } catch (error) {
+      throw new Error(
+        `Failed to claim agent schedule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Records the start of a run of a schedule
+   */
+  async function createAgentScheduleRun(
+    params: t.CreateAgentScheduleRunParams,
+  ): Promise<t.IAgentScheduleRunLean> {
+    try {
+      const AgentScheduleRun: Model<t.IAgentScheduleRun> = mongoose.models.AgentScheduleRun;
+      const run = await AgentScheduleRun.create(params);
+      return run.toObject() as t.IAgentScheduleRunLean;
+    } catch (error) {
+      throw new Error(
+        `Failed to create agent schedule run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Records the outcome of a run of a schedule
+   */
+  async function finishAgentScheduleRun({
+    runId,
+    ...result
+  }: t.FinishAgentScheduleRunParams): Promise<t.IAgentScheduleRunLean | null> {
+    try {
+      const AgentScheduleRun: Model<t.IAgentScheduleRun> = mongoose.models.AgentScheduleRun;
+      return await AgentScheduleRun.findByIdAndUpdate(
+        runId,
+        { ...result, finishedAt: new Date() },
+        { new: true },
+      ).lean<t.IAgentScheduleRunLean>();
+    } catch (error) {
+      throw new Error(
+        `Failed to finish agent schedule run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Finds the runs of one of the schedules of a user, newest first
+   */
+  async function getAgentScheduleRuns({
+    userId,
+    scheduleId,
+    limit = 50,
+  }: t.GetAgentScheduleRunsParams): Promise<t.IAgentScheduleRunLean[]> {
+    if (!mongoose.isValidObjectId(scheduleId)) {
+      return [];
+    }
+    try {
+      const AgentScheduleRun: Model<t.IAgentScheduleRun> = mongoose.models.AgentScheduleRun;
+      return await AgentScheduleRun.find({ scheduleId, userId })
+        .sort({ startedAt: -1 })
+        .limit(limit)
+        .lean<t.IAgentScheduleRunLean[]>();
+    } catch (error) {
+      throw new Error(
+        `Failed to get agent schedule runs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  return {
+    getAgentSchedules,
+    getAgentSchedule,
+    createAgentSchedule,
+    updateAgentSchedule,
+    deleteAgentSchedule,
+    deleteUserAgentSchedules,
+    claimDueAgentSchedule,
+    createAgentScheduleRun,
+    finishAgentScheduleRun,
+    getAgentScheduleRuns,
+  };
+}
+
+export type AgentScheduleMethods = ReturnType<typeof createAgentScheduleMethods>;
@@ -6,6 +6,8 @@ import { createRoleMethods, type RoleMethods } from './role';
 import { createMemoryMethods, type MemoryMethods } from './memory';
 import { createShareMethods, type ShareMethods } from './share';
 import { createPluginAuthMethods, type PluginAuthMethods } from './pluginAuth';
+import { createMCPServerMethods, type MCPServerMethods } from './mcpServer';
+import { createAgentScheduleMethods, type AgentScheduleMethods } from './agentSchedule';
 
 /**
  * Creates all database methods for all collections
@@ -19,14 +21,25 @@ export function createMethods(mongoose: typeof import('mongoose')) {
     ...createMemoryMethods(mongoose),
     ...createShareMethods(mongoose),
     ...createPluginAuthMethods(mongoose),
+    ...createMCPServerMethods(mongoose),
+    ...createAgentScheduleMethods(mongoose),
   };
 }
 
-export type { MemoryMethods, ShareMethods, TokenMethods, PluginAuthMethods };
+export type {
+  MemoryMethods,
+  ShareMethods,
+  TokenMethods,
+  PluginAuthMethods,
+  MCPServerMethods,
+  AgentScheduleMethods,
+};
 export type AllMethods = UserMethods &
   SessionMethods &
   TokenMethods &
   RoleMethods &
   MemoryMethods &
   ShareMethods &
-  PluginAuthMethods;
+  PluginAuthMethods &
+  MCPServerMethods &
+  AgentScheduleMethods;
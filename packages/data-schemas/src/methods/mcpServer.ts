@@ -0,0 +1,117 @@
+import type { Model } from 'mongoose';
+import type * as t from '~/types';
+
+// Factory function that takes mongoose instance and returns the methods
+export function createMCPServerMethods(mongoose: typeof import('mongoose')) {
+  /**
+   * Finds the MCP servers a user registered, sorted by name
+   */
+  async function findMCPServersByUser(
+    userId: t.FindMCPServerParams['userId'],
+  ): Promise<t.IMCPServerLean[]> {
+    try {
+      const MCPServer: Model<t.IMCPServer> = mongoose.models.MCPServer;
+      return await MCPServer.find({ userId }).sort({ serverName: 1 }).lean<t.IMCPServerLean[]>();
+    } catch (error) {
+      throw new Error(
+        `Failed to find MCP servers: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Finds one of the MCP servers a user registered
+   */
+  async function findMCPServer({
+    userId,
+    serverName,
+  }: t.FindMCPServerParams): Promise<t.IMCPServerLean | null> {
+    try {
+      const MCPServer: Model<t.IMCPServer> = mongoose.models.MCPServer;
+      return await MCPServer.findOne({ userId, serverName }).lean<t.IMCPServerLean>();
+    } catch (error) {
+      throw new Error(
+        `Failed to find MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Registers an MCP server for a user
+   * Throws an error if the user already registered a server with the same name
+   */
+  async function createMCPServer({
+    userId,
+    serverName,
+    config,
+  }: t.SetMCPServerParams): Promise<t.IMCPServerLean> {
+    const MCPServer: Model<t.IMCPServer> = mongoose.models.MCPServer;
+    const existingServer = await MCPServer.findOne({ userId, serverName }).lean();
+    if (existingServer) {
+      throw new Error(`MCP server "${serverName}" already exists`);
+    }
+    const server = await MCPServer.create({ userId, serverName, config });
+    return server.toObject() as t.IMCPServerLean;
+  }
+
+  /**
+   * Replaces the options or the tool definitions of an MCP server a user registered
+   */
+  async function updateMCPServer({
+    userId,
+    serverName,
+    ...update
+  }: t.UpdateMCPServerParams): Promise<t.IMCPServerLean | null> {
+    try {
+      const MCPServer: Model<t.IMCPServer> = mongoose.models.MCPServer;
+      return await MCPServer.findOneAndUpdate({ userId, serverName }, update, {
+        new: true,
+      }).lean<t.IMCPServerLean>();
+    } catch (error) {
+      throw new Error(
+        `Failed to update MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Deletes an MCP server a user registered
+   */
+  async function deleteMCPServer({ userId, serverName }: t.FindMCPServerParams): Promise<boolean> {
+    try {
+      const MCPServer: Model<t.IMCPServer> = mongoose.models.MCPServer;
+      const result = await MCPServer.deleteOne({ userId, serverName });
+      return result.deletedCount > 0;
+    } catch (error) {
+      throw new Error(
+        `Failed to delete MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Deletes all MCP servers a user registered
+   */
+  async function deleteUserMCPServers(userId: t.FindMCPServerParams['userId']): Promise<number> {
+    try {
+      const MCPServer: Model<t.IMCPServer> = mongoose.models.MCPServer;
+      const result = await MCPServer.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      throw new Error(
+        `Failed to delete MCP servers: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  return {
+    findMCPServersByUser,
+    findMCPServer,
+    createMCPServer,
+    updateMCPServer,
+    deleteMCPServer,
+    deleteUserMCPServers,
+  };
+}
+
+export type MCPServerMethods = ReturnType<typeof createMCPServerMethods>;
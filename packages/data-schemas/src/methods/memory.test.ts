@@ -0,0 +1,218 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { createMemoryHistoryModel } from '~/models/memoryHistory';
+import { createMemoryModel } from '~/models/memory';
+import { createMemoryMethods, type MemoryMethods } from './memory';
+import type * as t from '~/types';
+
+describe('Memory History Methods', () => {
+  let mongoServer: MongoMemoryServer;
+  let memoryMethods: MemoryMethods;
+  let MemoryEntry: mongoose.Model<t.IMemoryEntry>;
+  let MemoryHistory: mongoose.Model<t.IMemoryHistory>;
+  let userId: string;
+
+  const agentScope = { agentId: 'agent-1' };
+  const projectScope = { projectId: 'project-1' };
+
+  /** The latest change of a memory in any scope */
+  const getLatestChange = async (key: string) =>
+    (await MemoryHistory.findOne({ userId, key })
+      .sort({ _id: -1 })
+      .lean<t.IMemoryHistoryLean>()) as t.IMemoryHistoryLean;
+
+  const findMemory = (key: string, scope: t.MemoryScope = {}) =>
+    MemoryEntry.findOne({
+      userId,
+      key,
+      agentId: scope.agentId ?? null,
+      projectId: scope.projectId ?? null,
+      conversationTag: scope.conversationTag ?? null,
+    }).lean();
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+    MemoryEntry = createMemoryModel(mongoose);
+    MemoryHistory = createMemoryHistoryModel(mongoose);
+    memoryMethods = createMemoryMethods(mongoose);
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await MemoryEntry.deleteMany({});
+    await MemoryHistory.deleteMany({});
+    userId = new mongoose.Types.ObjectId().toString();
+  });
+
+  describe('recordMemoryHistory', () => {
+    test('should record each change as the next version of the memory', async () => {
+      const source = { conversationId: 'convo-1', messageId: 'message-1' };
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza', tokenCount: 2, source });
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pasta', tokenCount: 3 });
+      await memoryMethods.setMemoryScope({ userId, key: 'food', newScope: agentScope });
+      await memoryMethods.deleteMemory({ userId, key: 'food', scope: agentScope });
+
+      const history = await memoryMethods.getMemoryHistory({ userId, key: 'food', scope: {} });
+      expect(history.map(({ action, version }) => [action, version]).reverse()).toEqual([
+        ['create', 1],
+        ['update', 2],
+      ]);
+      expect(history[1].source).toMatchObject(source);
+      expect(history[0]).toMatchObject({ previousValue: 'pizza', value: 'pasta' });
+
+      const agentHistory = await memoryMethods.getMemoryHistory({
+        userId,
+        key: 'food',
+        scope: agentScope,
+      });
+      expect(agentHistory.map(({ action, version }) => [action, version])).toEqual([
+        ['delete', 2],
+        ['move', 1],
+      ]);
+    });
+
+    test('should not record a value that did not change', async () => {
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza' });
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza' });
+
+      expect(await MemoryHistory.countDocuments({ userId })).toBe(1);
+    });
+  });
+
+  describe('revertMemoryChange', () => {
+    test('should delete a created memory', async () => {
+      await memoryMethods.createMemory({ userId, key: 'food', value: 'pizza' });
+      const change = await getLatestChange('food');
+
+      const result = await memoryMethods.revertMemoryChange({ userId, historyId: change._id });
+
+      expect(result.ok).toBe(true);
+      expect(await findMemory('food')).toBeNull();
+      const revert = await getLatestChange('food');
+      expect(revert.action).toBe('delete');
+      expect(revert.source?.revertOf?.toString()).toBe(change._id.toString());
+    });
+
+    test('should restore the value before an update', async () => {
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza', tokenCount: 2 });
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pasta', tokenCount: 3 });
+      const change = await getLatestChange('food');
+
+      await memoryMethods.revertMemoryChange({ userId, historyId: change._id });
+
+      expect(await findMemory('food')).toMatchObject({ value: 'pizza', tokenCount: 2 });
+    });
+
+    test('should restore a deleted memory', async () => {
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza', scope: agentScope });
+      await memoryMethods.deleteMemory({ userId, key: 'food', scope: agentScope });
+      const change = await getLatestChange('food');
+
+      await memoryMethods.revertMemoryChange({ userId, historyId: change._id });
+
+      expect(await findMemory('food', agentScope)).toMatchObject({ value: 'pizza' });
+    });
+
+    test('should move a memory back to its previous scope', async () => {
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza' });
+      await memoryMethods.setMemoryScope({ userId, key: 'food', newScope: agentScope });
+      const change = await getLatestChange('food');
+
+      await memoryMethods.revertMemoryChange({ userId, historyId: change._id });
+
+      expect(await findMemory('food', agentScope)).toBeNull();
+      expect(await findMemory('food')).toMatchObject({ value: 'pizza' });
+    });
+
+    test('should revert changes of a memory moved since in its current scope', async () => {
+      await memoryMethods.createMemory({ userId, key: 'food', value: 'pizza' });
+      const created = await getLatestChange('food');
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pasta' });
+      const updated = await getLatestChange('food');
+      await memoryMethods.setMemoryScope({ userId, key: 'food', newScope: agentScope });
+      await memoryMethods.setMemoryScope({
+        userId,
+        key: 'food',
+        scope: agentScope,
+        newScope: projectScope,
+      });
+
+      await memoryMethods.revertMemoryChange({ userId, historyId: updated._id });
+      expect(await findMemory('food', projectScope)).toMatchObject({ value: 'pizza' });
+
+      await memoryMethods.revertMemoryChange({ userId, historyId: created._id });
+      expect(await MemoryEntry.countDocuments({ userId })).toBe(0);
+    });
+
+    test('should enforce the key and token limits on restored values', async () => {
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza', tokenCount: 50 });
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pasta', tokenCount: 10 });
+      await memoryMethods.setMemory({ userId, key: 'drinks', value: 'tea', tokenCount: 45 });
+      const change = await getLatestChange('food');
+
+      await expect(
+        memoryMethods.revertMemoryChange({ userId, historyId: change._id, validKeys: ['drinks'] }),
+      ).rejects.toThrow('Invalid key "food"');
+      await expect(
+        memoryMethods.revertMemoryChange({ userId, historyId: change._id, tokenLimit: 40 }),
+      ).rejects.toThrow('exceeds the token limit of 40');
+      await expect(
+        memoryMethods.revertMemoryChange({
+          userId,
+          historyId: change._id,
+          tokenLimit: 80,
+          limitTotal: true,
+        }),
+      ).rejects.toThrow('would exceed the token limit of 80');
+      expect(await findMemory('food')).toMatchObject({ value: 'pasta' });
+
+      const result = await memoryMethods.revertMemoryChange({
+        userId,
+        historyId: change._id,
+        tokenLimit: 80,
+      });
+      expect(result.ok).toBe(true);
+      expect(await findMemory('food')).toMatchObject({ value: 'pizza' });
+    });
+
+    test('should not find changes that do not exist or belong to another user', async () => {
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza' });
+      const change = await getLatestChange('food');
+      const otherUserId = new mongoose.Types.ObjectId().toString();
+
+      expect(
+        await memoryMethods.revertMemoryChange({ userId: otherUserId, historyId: change._id }),
+      ).toEqual({ ok: false });
+      expect(await memoryMethods.revertMemoryChange({ userId, historyId: 'invalid' })).toEqual({
+        ok: false,
+      });
+      expect(await findMemory('food')).not.toBeNull();
+    });
+
+    test('should fail to revert a change of a memory deleted since', async () => {
+      await memoryMethods.createMemory({ userId, key: 'food', value: 'pizza' });
+      const change = await getLatestChange('food');
+      await memoryMethods.deleteMemory({ userId, key: 'food' });
+
+      await expect(
+        memoryMethods.revertMemoryChange({ userId, historyId: change._id }),
+      ).rejects.toThrow('can no longer be reverted');
+    });
+
+    test('should fail to move a memory back to a scope where its key is taken', async () => {
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pizza' });
+      await memoryMethods.setMemoryScope({ userId, key: 'food', newScope: agentScope });
+      const change = await getLatestChange('food');
+      await memoryMethods.setMemory({ userId, key: 'food', value: 'pasta' });
+
+      await expect(
+        memoryMethods.revertMemoryChange({ userId, historyId: change._id }),
+      ).rejects.toThrow('already exists');
+    });
+  });
+});
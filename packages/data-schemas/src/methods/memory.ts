@@ -9,8 +9,73 @@ const formatDate = (date: Date): string => {
   return date.toISOString().split('T')[0];
 };
 
+/**
+ * Matches the memories of exactly one scope; unset scope fields match global memories
+ */
+const getScopeFilter = (scope?: t.MemoryScope) => ({
+  agentId: scope?.agentId || null,
+  projectId: scope?.projectId || null,
+  conversationTag: scope?.conversationTag || null,
+});
+
+/**
+ * Matches the memories visible in an active scope: global memories and those
+ * of the agent, one of its projects or one of the conversation's tags
+ */
+const getActiveScopeFilter = (scope: t.ActiveMemoryScope) => ({
+  $and: [
+    { $or: [{ agentId: null }, ...(scope.agentId ? [{ agentId: scope.agentId }] : [])] },
+    { $or: [{ projectId: null }, { projectId: { $in: scope.projectIds ?? [] } }] },
+    {
+      $or: [{ conversationTag: null }, { conversationTag: { $in: scope.conversationTags ?? [] } }],
+    },
+  ],
+});
+
 // Factory function that takes mongoose instance and returns the methods
 export function createMemoryMethods(mongoose: typeof import('mongoose')) {
+  /**
+   * Stores a change of a memory as its next version; failures are logged without
+   * failing the change itself
+   */
+  async function recordMemoryHistory({
+    userId,
+    key,
+    scope,
+    source,
+    ...change
+  }: {
+    userId: string | Types.ObjectId;
+    key: string;
+    scope?: t.MemoryScope;
+    source?: t.MemorySource;
+    action: t.MemoryHistoryAction;
+    value?: string;
+    tokenCount?: number;
+    previousValue?: string;
+    previousTokenCount?: number;
+    previousScope?: t.MemoryScope;
+  }): Promise<void> {
+    try {
+      const MemoryHistory = mongoose.models.MemoryHistory;
+      const scopeFilter = getScopeFilter(scope);
+      const latest = await MemoryHistory.findOne({ userId, key, ...scopeFilter })
+        .sort({ version: -1 })
+        .select('version')
+        .lean<{ version: number }>();
+      await MemoryHistory.create({
+        userId,
+        key,
+        ...scopeFilter,
+        ...change,
+        source,
+        version: (latest?.version ?? 0) + 1,
+      });
+    } catch (error) {
+      logger.error(`Failed to record history of memory "${key}":`, error);
+    }
+  }
+
   /**
    * Creates a new memory entry for a user
    * Throws an error if a memory with the same key already exists
@@ -20,6 +85,10 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
     key,
     value,
     tokenCount = 0,
+    embedding,
+    embeddingModel,
+    scope,
+    source,
   }: t.SetMemoryParams): Promise<t.MemoryResult> {
     try {
       if (key?.toLowerCase() === 'nothing') {
@@ -27,7 +96,7 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
       }
 
       const MemoryEntry = mongoose.models.MemoryEntry;
-      const existingMemory = await MemoryEntry.findOne({ userId, key });
+      const existingMemory = await MemoryEntry.findOne({ userId, key, ...getScopeFilter(scope) });
       if (existingMemory) {
         throw new Error('Memory with this key already exists');
       }
@@ -37,8 +106,20 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
         key,
         value,
         tokenCount,
+        embedding,
+        embeddingModel,
+        ...getScopeFilter(scope),
         updated_at: new Date(),
       });
+      await recordMemoryHistory({
+        userId,
+        key,
+        scope,
+        source,
+        action: 'create',
+        value,
+        tokenCount,
+      });
 
       return { ok: true };
     } catch (error) {
@@ -56,6 +137,10 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
     key,
     value,
     tokenCount = 0,
+    embedding,
+    embeddingModel,
+    scope,
+    source,
   }: t.SetMemoryParams): Promise<t.MemoryResult> {
     try {
       if (key?.toLowerCase() === 'nothing') {
@@ -63,18 +148,35 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
       }
 
       const MemoryEntry = mongoose.models.MemoryEntry;
-      await MemoryEntry.findOneAndUpdate(
-        { userId, key },
+      const previous = await MemoryEntry.findOneAndUpdate(
+        { userId, key, ...getScopeFilter(scope) },
         {
           value,
           tokenCount,
           updated_at: new Date(),
+          ...(embedding
+            ? { embedding, embeddingModel }
+            : { $unset: { embedding: 1, embeddingModel: 1 } }),
         },
         {
           upsert: true,
-          new: true,
+          new: false,
         },
-      );
+      ).lean<t.IMemoryEntryLean>();
+
+      if (previous?.value !== value) {
+        await recordMemoryHistory({
+          userId,
+          key,
+          scope,
+          source,
+          action: previous ? 'update' : 'create',
+          value,
+          tokenCount,
+          previousValue: previous?.value,
+          previousTokenCount: previous?.tokenCount,
+        });
+      }
 
       return { ok: true };
     } catch (error) {
@@ -84,13 +186,57 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
     }
   }
 
+  /**
+   * Stores the embedding of a memory's value, e.g. computed for a memory saved without one
+   */
+  async function setMemoryEmbedding({
+    userId,
+    key,
+    scope,
+    embedding,
+    embeddingModel,
+  }: t.SetMemoryEmbeddingParams): Promise<t.MemoryResult> {
+    try {
+      const MemoryEntry = mongoose.models.MemoryEntry;
+      const result = await MemoryEntry.updateOne(
+        { userId, key, ...getScopeFilter(scope) },
+        { embedding, embeddingModel },
+      );
+      return { ok: result.matchedCount > 0 };
+    } catch (error) {
+      throw new Error(
+        `Failed to set memory embedding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   /**
    * Deletes a specific memory entry for a user
    */
-  async function deleteMemory({ userId, key }: t.DeleteMemoryParams): Promise<t.MemoryResult> {
+  async function deleteMemory({
+    userId,
+    key,
+    scope,
+    source,
+  }: t.DeleteMemoryParams): Promise<t.MemoryResult> {
     try {
       const MemoryEntry = mongoose.models.MemoryEntry;
-      const result = await MemoryEntry.findOneAndDelete({ userId, key });
+      const result = await MemoryEntry.findOneAndDelete({
+        userId,
+        key,
+        ...getScopeFilter(scope),
+      }).lean<t.IMemoryEntryLean>();
+      if (result) {
+        await recordMemoryHistory({
+          userId,
+          key,
+          scope,
+          source,
+          action: 'delete',
+          previousValue: result.value,
+          previousTokenCount: result.tokenCount,
+        });
+      }
       return { ok: !!result };
     } catch (error) {
       throw new Error(
@@ -100,14 +246,74 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
   }
 
   /**
-   * Gets all memory entries for a user
+   * Moves a memory entry to another scope
+   * Throws an error if a memory with the same key already exists in that scope
+   */
+  async function setMemoryScope({
+    userId,
+    key,
+    scope,
+    newScope,
+    source,
+  }: t.SetMemoryScopeParams): Promise<t.MemoryResult> {
+    try {
+      const MemoryEntry = mongoose.models.MemoryEntry;
+      const target = getScopeFilter(newScope);
+      const current = getScopeFilter(scope);
+      if (
+        target.agentId === current.agentId &&
+        target.projectId === current.projectId &&
+        target.conversationTag === current.conversationTag
+      ) {
+        return { ok: !!(await MemoryEntry.exists({ userId, key, ...current })) };
+      }
+
+      const existingMemory = await MemoryEntry.findOne({ userId, key, ...target });
+      if (existingMemory) {
+        throw new Error('Memory with this key already exists');
+      }
+
+      const memory = await MemoryEntry.findOneAndUpdate(
+        { userId, key, ...current },
+        target,
+      ).lean<t.IMemoryEntryLean>();
+      if (memory) {
+        await recordMemoryHistory({
+          userId,
+          key,
+          scope: newScope,
+          source,
+          action: 'move',
+          value: memory.value,
+          tokenCount: memory.tokenCount,
+          previousScope: current,
+        });
+      }
+      return { ok: !!memory };
+    } catch (error) {
+      throw new Error(
+        `Failed to set memory scope: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Gets all memory entries for a user, or only those visible in an active scope
    */
   async function getAllUserMemories(
     userId: string | Types.ObjectId,
+    {
+      withEmbeddings = false,
+      scope,
+    }: { withEmbeddings?: boolean; scope?: t.ActiveMemoryScope } = {},
   ): Promise<t.IMemoryEntryLean[]> {
     try {
       const MemoryEntry = mongoose.models.MemoryEntry;
-      return (await MemoryEntry.find({ userId }).lean()) as t.IMemoryEntryLean[];
+      const query = MemoryEntry.find({ userId, ...(scope ? getActiveScopeFilter(scope) : {}) });
+      if (withEmbeddings) {
+        query.select('+embedding +embeddingModel');
+      }
+      return (await query.lean()) as t.IMemoryEntryLean[];
     } catch (error) {
       throw new Error(
         `Failed to get all memories: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -120,9 +326,15 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
    */
   async function getFormattedMemories({
     userId,
+    memoryIds,
+    scope,
   }: t.GetFormattedMemoriesParams): Promise<t.FormattedMemoriesResult> {
     try {
-      const memories = await getAllUserMemories(userId);
+      let memories = await getAllUserMemories(userId, { scope });
+      if (memoryIds) {
+        const ids = new Set(memoryIds.map((id) => id.toString()));
+        memories = memories.filter((memory) => ids.has(memory._id.toString()));
+      }
 
       if (!memories || memories.length === 0) {
         return { withKeys: '', withoutKeys: '', totalTokens: 0 };
@@ -140,7 +352,8 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
         .map((memory, index) => {
           const date = formatDate(new Date(memory.updated_at!));
           const tokenInfo = memory.tokenCount ? ` [${memory.tokenCount} tokens]` : '';
-          return `${index + 1}. [${date}]. ["key": "${memory.key}"]${tokenInfo}. ["value": "${memory.value}"]`;
+          const scopeInfo = memory.agentId ? ' ["scope": "agent"]' : '';
+          return `${index + 1}. [${date}]. ["key": "${memory.key}"]${scopeInfo}${tokenInfo}. ["value": "${memory.value}"]`;
         })
         .join('\n\n');
 
@@ -158,10 +371,184 @@ export function createMemoryMethods(mongoose: typeof import('mongoose')) {
     }
   }
 
+  /**
+   * Gets the history of a user's memories, newest first
+   */
+  async function getMemoryHistory({
+    userId,
+    key,
+    scope,
+    limit = 100,
+  }: t.GetMemoryHistoryParams): Promise<t.IMemoryHistoryLean[]> {
+    try {
+      const MemoryHistory = mongoose.models.MemoryHistory;
+      return (await MemoryHistory.find({
+        userId,
+        ...(key ? { key, ...(scope ? getScopeFilter(scope) : {}) } : {}),
+      })
+        .sort({ createdAt: -1, version: -1 })
+        .limit(limit)
+        .lean()) as t.IMemoryHistoryLean[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get memory history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Follows the moves of a memory made after a change to the scope the memory is in now
+   */
+  async function getCurrentScope(
+    userId: string | Types.ObjectId,
+    change: t.IMemoryHistoryLean,
+  ): Promise<t.MemoryScope> {
+    const MemoryHistory = mongoose.models.MemoryHistory;
+    let scope: t.MemoryScope = getScopeFilter(change);
+    let after = change._id;
+    const seen = new Set<string>();
+    while (!seen.has(after.toString())) {
+      seen.add(after.toString());
+      const move = await MemoryHistory.findOne({
+        userId,
+        key: change.key,
+        action: 'move',
+        _id: { $gt: after },
+        'previousScope.agentId': scope.agentId,
+        'previousScope.projectId': scope.projectId,
+        'previousScope.conversationTag': scope.conversationTag,
+      })
+        .sort({ _id: 1 })
+        .lean<t.IMemoryHistoryLean>();
+      if (!move) {
+        break;
+      }
+      scope = getScopeFilter(move);
+      after = move._id;
+    }
+    return scope;
+  }
+
+  /**
+   * Throws if a restored value breaks the key or token limits memories are saved with
+   */
+  async function validateRestoredValue({
+    userId,
+    key,
+    scope,
+    tokenCount = 0,
+    validKeys,
+    tokenLimit,
+    limitTotal,
+  }: Omit<t.RevertMemoryChangeParams, 'historyId'> & {
+    key: string;
+    scope: t.MemoryScope;
+    tokenCount?: number;
+  }): Promise<void> {
+    if (validKeys && validKeys.length > 0 && !validKeys.includes(key)) {
+      throw new Error(`Invalid key "${key}". Must be one of: ${validKeys.join(', ')}`);
+    }
+    if (!tokenLimit) {
+      return;
+    }
+    if (tokenCount > tokenLimit) {
+      throw new Error(`The value of ${tokenCount} tokens exceeds the token limit of ${tokenLimit}`);
+    }
+    if (!limitTotal) {
+      return;
+    }
+    const memories = await getAllUserMemories(userId);
+    const totalTokens = memories.reduce(
+      (sum, memory) =>
+        memory.key === key &&
+        (memory.agentId || null) === scope.agentId &&
+        (memory.projectId || null) === scope.projectId &&
+        (memory.conversationTag || null) === scope.conversationTag
+          ? sum
+          : sum + (memory.tokenCount || 0),
+      0,
+    );
+    if (totalTokens + tokenCount > tokenLimit) {
+      throw new Error(
+        `Restoring this value would exceed the token limit of ${tokenLimit}. Current usage: ${totalTokens} tokens.`,
+      );
+    }
+  }
+
+  /**
+   * Reverts a change of a memory: restores its value before an update or deletion,
+   * deletes it if the change created it, or moves it back to its previous scope.
+   * The memory is looked up in the scope it was moved to since the change, and restored
+   * values must respect `validKeys` and `tokenLimit`.
+   * The revert is recorded as a new version referencing the reverted change.
+   * Returns `{ ok: false }` if the change does not exist.
+   * Throws an error if the change cannot be reverted.
+   */
+  async function revertMemoryChange({
+    userId,
+    historyId,
+    ...limits
+  }: t.RevertMemoryChangeParams): Promise<t.MemoryResult> {
+    if (!mongoose.isValidObjectId(historyId)) {
+      return { ok: false };
+    }
+    const MemoryHistory = mongoose.models.MemoryHistory;
+    const change = await MemoryHistory.findOne({
+      _id: historyId,
+      userId,
+    }).lean<t.IMemoryHistoryLean>();
+    if (!change) {
+      return { ok: false };
+    }
+
+    const { key } = change;
+    const scope =
+      change.action === 'delete' ? getScopeFilter(change) : await getCurrentScope(userId, change);
+    const source: t.MemorySource = { revertOf: change._id };
+
+    let result: t.MemoryResult = { ok: false };
+    if (change.action === 'create') {
+      result = await deleteMemory({ userId, key, scope, source });
+    } else if (change.action === 'move') {
+      result = await setMemoryScope({
+        userId,
+        key,
+        scope,
+        newScope: change.previousScope ?? {},
+        source,
+      });
+    } else if (change.previousValue != null) {
+      await validateRestoredValue({
+        userId,
+        key,
+        scope,
+        tokenCount: change.previousTokenCount,
+        ...limits,
+      });
+      result = await setMemory({
+        userId,
+        key,
+        scope,
+        source,
+        value: change.previousValue,
+        tokenCount: change.previousTokenCount,
+      });
+    }
+
+    if (!result.ok) {
+      throw new Error('Memory change can no longer be reverted');
+    }
+    return result;
+  }
+
   return {
     setMemory,
     createMemory,
     deleteMemory,
+    setMemoryScope,
+    getMemoryHistory,
+    revertMemoryChange,
+    setMemoryEmbedding,
     getAllUserMemories,
     getFormattedMemories,
   };
@@ -0,0 +1,9 @@
+import agentScheduleSchema from '~/schema/agentSchedule';
+import type { IAgentSchedule } from '~/types';
+
+export function createAgentScheduleModel(mongoose: typeof import('mongoose')) {
+  return (
+    mongoose.models.AgentSchedule ||
+    mongoose.model<IAgentSchedule>('AgentSchedule', agentScheduleSchema)
+  );
+}
@@ -0,0 +1,9 @@
+import agentScheduleRunSchema from '~/schema/agentScheduleRun';
+import type { IAgentScheduleRun } from '~/types';
+
+export function createAgentScheduleRunModel(mongoose: typeof import('mongoose')) {
+  return (
+    mongoose.models.AgentScheduleRun ||
+    mongoose.model<IAgentScheduleRun>('AgentScheduleRun', agentScheduleRunSchema)
+  );
+}
@@ -21,6 +21,10 @@ import { createConversationTagModel } from './conversationTag';
 import { createSharedLinkModel } from './sharedLink';
 import { createToolCallModel } from './toolCall';
 import { createMemoryModel } from './memory';
+import { createMemoryHistoryModel } from './memoryHistory';
+import { createMCPServerModel } from './mcpServer';
+import { createAgentScheduleModel } from './agentSchedule';
+import { createAgentScheduleRunModel } from './agentScheduleRun';
 
 /**
  * Creates all database models for all collections
@@ -50,5 +54,9 @@ export function createModels(mongoose: typeof import('mongoose')) {
     SharedLink: createSharedLinkModel(mongoose),
     ToolCall: createToolCallModel(mongoose),
     MemoryEntry: createMemoryModel(mongoose),
+    MemoryHistory: createMemoryHistoryModel(mongoose),
+    MCPServer: createMCPServerModel(mongoose),
+    AgentSchedule: createAgentScheduleModel(mongoose),
+    AgentScheduleRun: createAgentScheduleRunModel(mongoose),
   };
 }
@@ -0,0 +1,9 @@
+import memoryHistorySchema from '~/schema/memoryHistory';
+import type { IMemoryHistory } from '~/types/memory';
+
+export function createMemoryHistoryModel(mongoose: typeof import('mongoose')) {
+  return (
+    mongoose.models.MemoryHistory ||
+    mongoose.model<IMemoryHistory>('MemoryHistory', memoryHistorySchema)
+  );
+}
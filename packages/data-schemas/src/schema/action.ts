@@ -46,6 +46,7 @@ const Action = new Schema<IAction>({
     raw_spec: String,
     oauth_client_id: String,
     oauth_client_secret: String,
+    requires_approval: Boolean,
   },
 });
 
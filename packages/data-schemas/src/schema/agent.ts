@@ -42,6 +42,9 @@ const agentSchema = new Schema<IAgent>(
     recursion_limit: {
       type: Number,
     },
+    mcp_tool_retrieval: {
+      type: Number,
+    },
     tools: {
       type: [String],
       default: undefined,
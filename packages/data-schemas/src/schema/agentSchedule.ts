@@ -0,0 +1,62 @@
+import { Schema } from 'mongoose';
+import type { IAgentSchedule } from '~/types';
+
+const runStatuses = ['running', 'success', 'failed', 'skipped'];
+
+const agentScheduleSchema = new Schema<IAgentSchedule>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+      required: true,
+    },
+    agent_id: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    prompt: {
+      type: String,
+      required: true,
+    },
+    /** Cron expression, evaluated in UTC; unset for interval schedules */
+    cron: String,
+    intervalMinutes: Number,
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    /** Conversation the results of the runs are added to, created by the first run */
+    conversationId: String,
+    maxRetries: {
+      type: Number,
+      default: 2,
+    },
+    retryCount: {
+      type: Number,
+      default: 0,
+    },
+    nextRunAt: Date,
+    lastRunAt: Date,
+    lastStatus: {
+      type: String,
+      enum: runStatuses,
+    },
+    /** Runs finished since the user last viewed the schedule */
+    unreadRuns: {
+      type: Number,
+      default: 0,
+    },
+    /** Set while a run is in progress, so that other instances do not start the same run */
+    lockedUntil: Date,
+  },
+  { timestamps: true },
+);
+
+agentScheduleSchema.index({ enabled: 1, nextRunAt: 1 });
+
+export default agentScheduleSchema;
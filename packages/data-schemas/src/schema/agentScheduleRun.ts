@@ -0,0 +1,43 @@
+import { Schema } from 'mongoose';
+import type { IAgentScheduleRun } from '~/types';
+
+/** A run of an agent schedule, including each retry */
+const agentScheduleRunSchema = new Schema<IAgentScheduleRun>({
+  scheduleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AgentSchedule',
+    required: true,
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true,
+    required: true,
+  },
+  agent_id: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['running', 'success', 'failed', 'skipped'],
+    default: 'running',
+  },
+  /** 1 for the scheduled run, then 2 and above for its retries */
+  attempt: {
+    type: Number,
+    default: 1,
+  },
+  conversationId: String,
+  messageId: String,
+  error: String,
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  finishedAt: Date,
+});
+
+agentScheduleRunSchema.index({ scheduleId: 1, startedAt: -1 });
+
+export default agentScheduleRunSchema;
@@ -69,6 +69,15 @@ const file: Schema<IMongoFile> = new Schema(
     height: Number,
     metadata: {
       fileIdentifier: String,
+      /** Origin of files imported from Canvas LMS */
+      canvas: {
+        course_id: Number,
+        content_type: String,
+        content_id: String,
+        /** `updated_at` of the Canvas content when it was last downloaded */
+        updated_at: String,
+        synced_at: Date,
+      },
     },
     expiresAt: {
       type: Date,
@@ -81,5 +90,9 @@ const file: Schema<IMongoFile> = new Schema(
 );
 
 file.index({ createdAt: 1, updatedAt: 1 });
+file.index(
+  { user: 1, 'metadata.canvas.content_type': 1, 'metadata.canvas.content_id': 1 },
+  { sparse: true },
+);
 
 export default file;
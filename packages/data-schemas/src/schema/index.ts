@@ -22,3 +22,7 @@ export { default as toolCallSchema } from './toolCall';
 export { default as transactionSchema } from './transaction';
 export { default as userSchema } from './user';
 export { default as memorySchema } from './memory';
+export { default as memoryHistorySchema } from './memoryHistory';
+export { default as mcpServerSchema } from './mcpServer';
+export { default as agentScheduleSchema } from './agentSchedule';
+export { default as agentScheduleRunSchema } from './agentScheduleRun';
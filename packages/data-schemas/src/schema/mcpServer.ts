@@ -0,0 +1,32 @@
+import { Schema } from 'mongoose';
+import type { IMCPServer } from '~/types';
+
+const mcpServerSchema = new Schema<IMCPServer>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+      required: true,
+    },
+    serverName: {
+      type: String,
+      required: true,
+    },
+    /** Options of the server, with encrypted header values and OAuth client secret */
+    config: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    /** Definitions of the server's tools, as of its last successful connection */
+    tools: {
+      type: [{ type: Schema.Types.Mixed }],
+      default: [],
+    },
+  },
+  { timestamps: true },
+);
+
+mcpServerSchema.index({ userId: 1, serverName: 1 }, { unique: true });
+
+export default mcpServerSchema;
@@ -24,6 +24,29 @@ const MemoryEntrySchema: Schema<IMemoryEntry> = new Schema({
     type: Number,
     default: 0,
   },
+  /** Embedding of the value, for retrieving the memories relevant to a message */
+  embedding: {
+    type: [Number],
+    default: undefined,
+    select: false,
+  },
+  embeddingModel: {
+    type: String,
+    select: false,
+  },
+  /** Scope of the memory: unset fields match any agent, project or conversation tag */
+  agentId: {
+    type: String,
+    default: undefined,
+  },
+  projectId: {
+    type: String,
+    default: undefined,
+  },
+  conversationTag: {
+    type: String,
+    default: undefined,
+  },
   updated_at: {
     type: Date,
     default: Date.now,
@@ -0,0 +1,74 @@
+import { Schema } from 'mongoose';
+import type { IMemoryHistory } from '~/types/memory';
+
+const memoryScopeFields = {
+  agentId: {
+    type: String,
+    default: undefined,
+  },
+  projectId: {
+    type: String,
+    default: undefined,
+  },
+  conversationTag: {
+    type: String,
+    default: undefined,
+  },
+};
+
+/** A version of a memory entry: one per creation, update, deletion or move to another scope */
+const MemoryHistorySchema: Schema<IMemoryHistory> = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    /** Scope of the memory after the change */
+    ...memoryScopeFields,
+    /** Version of the memory with this key and scope, starting at 1 */
+    version: {
+      type: Number,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['create', 'update', 'delete', 'move'],
+      required: true,
+    },
+    /** Value after the change; unset for deletions */
+    value: String,
+    tokenCount: Number,
+    /** Value before the change; unset for creations */
+    previousValue: String,
+    previousTokenCount: Number,
+    /** Scope before a move */
+    previousScope: {
+      type: new Schema(memoryScopeFields, { _id: false }),
+      default: undefined,
+    },
+    /** Where the change was made; unset fields for changes made by the user in the memory panel */
+    source: {
+      type: new Schema(
+        {
+          conversationId: String,
+          messageId: String,
+          agentId: String,
+          revertOf: { type: Schema.Types.ObjectId, ref: 'MemoryHistory' },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+MemoryHistorySchema.index({ userId: 1, createdAt: -1 });
+
+export default MemoryHistorySchema;
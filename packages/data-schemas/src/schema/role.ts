@@ -37,6 +37,13 @@ const rolePermissionsSchema = new Schema(
     [PermissionTypes.WEB_SEARCH]: {
       [Permissions.USE]: { type: Boolean, default: true },
     },
+    [PermissionTypes.CANVAS]: {
+      [Permissions.USE]: { type: Boolean, default: false },
+    },
+    [PermissionTypes.MCP_SERVERS]: {
+      [Permissions.USE]: { type: Boolean, default: false },
+      [Permissions.CREATE]: { type: Boolean, default: false },
+    },
   },
   { _id: false },
 );
@@ -67,6 +74,8 @@ const roleSchema: Schema<IRole> = new Schema({
       [PermissionTypes.TEMPORARY_CHAT]: { [Permissions.USE]: true },
       [PermissionTypes.RUN_CODE]: { [Permissions.USE]: true },
       [PermissionTypes.WEB_SEARCH]: { [Permissions.USE]: true },
+      [PermissionTypes.CANVAS]: { [Permissions.USE]: false },
+      [PermissionTypes.MCP_SERVERS]: { [Permissions.USE]: false, [Permissions.CREATE]: false },
     }),
   },
 });
@@ -24,5 +24,6 @@ export interface IAction extends Document {
     raw_spec?: string;
     oauth_client_id?: string;
     oauth_client_secret?: string;
+    requires_approval?: boolean;
   };
 }
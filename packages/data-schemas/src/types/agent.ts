@@ -15,6 +15,7 @@ export interface IAgent extends Omit<Document, 'model'> {
   artifacts?: string;
   access_level?: number;
   recursion_limit?: number;
+  mcp_tool_retrieval?: number;
   tools?: string[];
   tool_kwargs?: Array<unknown>;
   actions?: string[];
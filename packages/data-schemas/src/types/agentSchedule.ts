@@ -0,0 +1,136 @@
+import type { Types, Document } from 'mongoose';
+
+export type AgentScheduleRunStatus = 'running' | 'success' | 'failed' | 'skipped';
+
+/** Agent run with a fixed prompt on a cron expression or interval, on behalf of a user */
+export interface IAgentSchedule extends Document {
+  userId: Types.ObjectId;
+  agent_id: string;
+  name: string;
+  prompt: string;
+  /** Cron expression, evaluated in UTC; unset for interval schedules */
+  cron?: string | null;
+  intervalMinutes?: number | null;
+  enabled: boolean;
+  /** Conversation the results of the runs are added to, created by the first run */
+  conversationId?: string | null;
+  /** Retries of a failed run before waiting for the next scheduled run */
+  maxRetries: number;
+  /** Retries of the current run so far */
+  retryCount: number;
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lastStatus?: AgentScheduleRunStatus | null;
+  /** Runs finished since the user last viewed the schedule */
+  unreadRuns: number;
+  /** Set while a run is in progress, so that other instances do not start the same run */
+  lockedUntil?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IAgentScheduleLean {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  agent_id: string;
+  name: string;
+  prompt: string;
+  cron?: string | null;
+  intervalMinutes?: number | null;
+  enabled: boolean;
+  conversationId?: string | null;
+  maxRetries: number;
+  retryCount: number;
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lastStatus?: AgentScheduleRunStatus | null;
+  unreadRuns: number;
+  lockedUntil?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  __v?: number;
+}
+
+/** A run of a schedule, including each retry */
+export interface IAgentScheduleRun extends Document {
+  scheduleId: Types.ObjectId;
+  userId: Types.ObjectId;
+  agent_id: string;
+  status: AgentScheduleRunStatus;
+  /** 1 for the scheduled run, then 2 and above for its retries */
+  attempt: number;
+  conversationId?: string;
+  messageId?: string;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface IAgentScheduleRunLean {
+  _id: Types.ObjectId;
+  scheduleId: Types.ObjectId;
+  userId: Types.ObjectId;
+  agent_id: string;
+  status: AgentScheduleRunStatus;
+  attempt: number;
+  conversationId?: string;
+  messageId?: string;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  __v?: number;
+}
+
+export type AgentScheduleFields = Pick<
+  IAgentScheduleLean,
+  'agent_id' | 'name' | 'prompt' | 'cron' | 'intervalMinutes' | 'enabled' | 'maxRetries'
+>;
+
+export interface CreateAgentScheduleParams extends AgentScheduleFields {
+  userId: string | Types.ObjectId;
+  nextRunAt: Date | null;
+}
+
+export interface UpdateAgentScheduleParams {
+  userId: string | Types.ObjectId;
+  scheduleId: string;
+  update: Partial<
+    AgentScheduleFields &
+      Pick<
+        IAgentScheduleLean,
+        | 'conversationId'
+        | 'nextRunAt'
+        | 'lastRunAt'
+        | 'lastStatus'
+        | 'retryCount'
+        | 'unreadRuns'
+        | 'lockedUntil'
+      >
+  >;
+  /** Counts a finished run as unread */
+  incrementUnreadRuns?: boolean;
+}
+
+export interface GetAgentScheduleParams {
+  userId: string | Types.ObjectId;
+  scheduleId: string;
+}
+
+export interface GetAgentScheduleRunsParams extends GetAgentScheduleParams {
+  limit?: number;
+}
+
+export interface CreateAgentScheduleRunParams {
+  scheduleId: string | Types.ObjectId;
+  userId: string | Types.ObjectId;
+  agent_id: string;
+  attempt: number;
+}
+
+export interface FinishAgentScheduleRunParams {
+  runId: string | Types.ObjectId;
+  status: Exclude<AgentScheduleRunStatus, 'running'>;
+  conversationId?: string;
+  messageId?: string;
+  error?: string;
+}
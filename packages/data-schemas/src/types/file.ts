@@ -20,6 +20,13 @@ export interface IMongoFile extends Omit<Document, 'model'> {
   height?: number;
   metadata?: {
     fileIdentifier?: string;
+    canvas?: {
+      course_id?: number;
+      content_type: string;
+      content_id: string;
+      updated_at?: string;
+      synced_at?: Date;
+    };
   };
   expiresAt?: Date;
   createdAt?: Date;
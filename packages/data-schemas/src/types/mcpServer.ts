@@ -0,0 +1,47 @@
+import type { Types, Document } from 'mongoose';
+import type { UserMCPServerOptions } from 'librechat-data-provider';
+
+/** Definition of a tool of a server, as of its last successful connection */
+export type MCPServerTool = {
+  type: 'function';
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+};
+
+/** MCP server a user registered, connected to only on that user's behalf */
+export interface IMCPServer extends Document {
+  userId: Types.ObjectId;
+  serverName: string;
+  config: UserMCPServerOptions;
+  tools: MCPServerTool[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IMCPServerLean {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  serverName: string;
+  config: UserMCPServerOptions;
+  tools: MCPServerTool[];
+  createdAt?: Date;
+  updatedAt?: Date;
+  __v?: number;
+}
+
+export interface FindMCPServerParams {
+  userId: string | Types.ObjectId;
+  serverName: string;
+}
+
+export interface SetMCPServerParams {
+  userId: string | Types.ObjectId;
+  serverName: string;
+  config: UserMCPServerOptions;
+}
+
+export interface UpdateMCPServerParams {
+  userId: string | Types.ObjectId;
+  serverName: string;
+  config?: UserMCPServerOptions;
+  tools?: MCPServerTool[];
+}
@@ -6,6 +6,11 @@ export interface IMemoryEntry extends Document {
   key: string;
   value: string;
   tokenCount?: number;
+  embedding?: number[];
+  embeddingModel?: string;
+  agentId?: string | null;
+  projectId?: string | null;
+  conversationTag?: string | null;
   updated_at?: Date;
 }
 
@@ -15,25 +20,146 @@ export interface IMemoryEntryLean {
   key: string;
   value: string;
   tokenCount?: number;
+  embedding?: number[];
+  embeddingModel?: string;
+  agentId?: string | null;
+  projectId?: string | null;
+  conversationTag?: string | null;
   updated_at?: Date;
   __v?: number;
 }
 
+/** Namespace of a memory; memories without any scope field are global */
+export interface MemoryScope {
+  agentId?: string | null;
+  projectId?: string | null;
+  conversationTag?: string | null;
+}
+
+/**
+ * Scopes active in a conversation: a memory is visible if each of its scope fields
+ * is unset or matches the agent, one of the agent's projects or one of the conversation's tags
+ */
+export interface ActiveMemoryScope {
+  agentId?: string;
+  projectIds?: string[];
+  conversationTags?: string[];
+}
+
+/** Where a memory change was made: by an agent in a conversation, or by the user */
+export interface MemorySource {
+  conversationId?: string;
+  /** Response message of the turn the memory was written in */
+  messageId?: string;
+  /** Agent of the conversation; unset for ephemeral agents */
+  agentId?: string;
+  /** History entry this change reverts */
+  revertOf?: string | Types.ObjectId;
+}
+
+export type MemoryHistoryAction = 'create' | 'update' | 'delete' | 'move';
+
+export interface IMemoryHistory extends Document {
+  userId: Types.ObjectId;
+  key: string;
+  agentId?: string | null;
+  projectId?: string | null;
+  conversationTag?: string | null;
+  version: number;
+  action: MemoryHistoryAction;
+  value?: string;
+  tokenCount?: number;
+  previousValue?: string;
+  previousTokenCount?: number;
+  previousScope?: MemoryScope;
+  source?: MemorySource;
+  createdAt?: Date;
+}
+
+export interface IMemoryHistoryLean {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  key: string;
+  agentId?: string | null;
+  projectId?: string | null;
+  conversationTag?: string | null;
+  version: number;
+  action: MemoryHistoryAction;
+  value?: string;
+  tokenCount?: number;
+  previousValue?: string;
+  previousTokenCount?: number;
+  previousScope?: MemoryScope;
+  source?: MemorySource;
+  createdAt?: Date;
+  __v?: number;
+}
+
 // Method parameter interfaces
 export interface SetMemoryParams {
   userId: string | Types.ObjectId;
   key: string;
   value: string;
   tokenCount?: number;
+  /** Embedding of the value; a stale embedding is removed if omitted */
+  embedding?: number[];
+  embeddingModel?: string;
+  /** Scope of the memory; global if omitted */
+  scope?: MemoryScope;
+  source?: MemorySource;
+}
+
+export interface SetMemoryEmbeddingParams {
+  userId: string | Types.ObjectId;
+  key: string;
+  scope?: MemoryScope;
+  embedding: number[];
+  embeddingModel: string;
 }
 
 export interface DeleteMemoryParams {
   userId: string | Types.ObjectId;
   key: string;
+  scope?: MemoryScope;
+  source?: MemorySource;
+}
+
+export interface SetMemoryScopeParams {
+  userId: string | Types.ObjectId;
+  key: string;
+  /** Current scope of the memory */
+  scope?: MemoryScope;
+  newScope: MemoryScope;
+  source?: MemorySource;
+}
+
+export interface GetMemoryHistoryParams {
+  userId: string | Types.ObjectId;
+  /** History of the memory with this key only */
+  key?: string;
+  /** History of the memory in this scope only; requires `key` */
+  scope?: MemoryScope;
+  /** Maximum number of entries, newest first */
+  limit?: number;
+}
+
+export interface RevertMemoryChangeParams {
+  userId: string | Types.ObjectId;
+  historyId: string | Types.ObjectId;
+  /** Keys a restored value may be stored under; any key if unset or empty */
+  validKeys?: string[];
+  /** Maximum tokens of a restored value */
+  tokenLimit?: number;
+  /** Whether `tokenLimit` also limits the tokens of all memories of the user */
+  limitTotal?: boolean;
 }
 
 export interface GetFormattedMemoriesParams {
   userId: string | Types.ObjectId;
+  /** Formats only these memories, e.g. those relevant to a message */
+  memoryIds?: Array<string | Types.ObjectId>;
+  /** Formats only the memories visible in this scope */
+  scope?: ActiveMemoryScope;
 }
 
 // Result interfaces